@@ -0,0 +1,14 @@
+-- Google Ads customer of an account
+-- The campaign change, anomaly and recommendation routes only reach the Google Ads
+-- customers linked to the accounts of the signed-in user
+
+ALTER TABLE public.accounts
+  ADD COLUMN IF NOT EXISTS google_ads_customer_id TEXT;
+
+-- Digits only, e.g. 1234567890 for 123-456-7890
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_google_ads_customer_id_format;
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_google_ads_customer_id_format CHECK (google_ads_customer_id ~ '^[0-9]+$');
+
+CREATE INDEX IF NOT EXISTS idx_accounts_google_ads_customer_id
+  ON public.accounts(google_ads_customer_id);
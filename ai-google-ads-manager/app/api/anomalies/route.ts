@@ -0,0 +1,65 @@
+/**
+ * Metric Anomalies API Route
+ *
+ * POST runs anomaly detection for an account over `startDate`..`endDate`
+ * (default: the last 7 days up to yesterday) and records what it finds as
+ * recommendations. GA4 series come from the account's property, Google
+ * Ads series from its linked customer; a `customerId` given must be that
+ * customer. With `backtest: true` detection is replayed without writing
+ * anything and scored against the optional `incidents`; `dryRun: true`
+ * detects without writing.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChangeActor, loadActorAccount, isAccountCustomer } from '@/lib/mcp/services/campaignMutationServer';
+import { getMetricAnomalyService, anomalyErrorResponse } from '@/lib/mcp/services/metricAnomalyServer';
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().split('T')[0];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await resolveChangeActor();
+    if (!actor) {
+      return NextResponse.json({ error: 'Authentication required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body?.accountId) {
+      return NextResponse.json({ error: 'accountId is required', code: 'INVALID_REQUEST' }, { status: 400 });
+    }
+
+    const account = await loadActorAccount(actor, body.accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found', code: 'ACCOUNT_NOT_FOUND' }, { status: 404 });
+    }
+
+    if (body.customerId && !isAccountCustomer(account, body.customerId)) {
+      return NextResponse.json(
+        { error: `Google Ads customer ${body.customerId} is not linked to account ${account.id}`, code: 'CUSTOMER_NOT_LINKED' },
+        { status: 403 }
+      );
+    }
+
+    const service = await getMetricAnomalyService();
+    const params = {
+      propertyId: account.ga_property_id || undefined,
+      customerId: account.google_ads_customer_id || undefined,
+      startDate: body.startDate || daysAgo(7),
+      endDate: body.endDate || daysAgo(1),
+    };
+
+    if (body.backtest) {
+      const backtest = await service.backtest({ ...params, incidents: body.incidents, toleranceDays: body.toleranceDays });
+      return NextResponse.json({ backtest });
+    }
+
+    const result = await service.detect({ ...params, accountId: account.id, dryRun: Boolean(body.dryRun) });
+    return NextResponse.json(result);
+  } catch (error) {
+    return anomalyErrorResponse(error);
+  }
+}
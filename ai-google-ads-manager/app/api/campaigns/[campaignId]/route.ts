@@ -0,0 +1,67 @@
+/**
+ * Campaign Change API Route
+ *
+ * PUT stages a change of the campaign's status, daily budget or bidding
+ * target as a proposal. The Google Ads customer (`customerId` or
+ * GOOGLE_ADS_CUSTOMER_ID) must be linked to one of the user's accounts.
+ * A manager's small changes are applied right away (200); larger ones, and
+ * every change proposed without the manager role, wait for a manager's
+ * approval (202). The background sync worker sends its queued UPDATE
+ * operations here too.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  resolveChangeActor,
+  getCampaignMutationService,
+  campaignChangeErrorResponse,
+  campaignChangeResponse,
+  loadActorCustomerAccount,
+  normalizeCustomerId,
+} from '@/lib/mcp/services/campaignMutationServer';
+
+function optionalNumber(value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : Number(value);
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { campaignId: string } }
+) {
+  try {
+    const actor = await resolveChangeActor();
+    if (!actor) {
+      return NextResponse.json({ error: 'Authentication required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const customerId = body.customerId || process.env.GOOGLE_ADS_CUSTOMER_ID;
+    if (!customerId) {
+      return NextResponse.json({ error: 'customerId is required', code: 'INVALID_REQUEST' }, { status: 400 });
+    }
+
+    const account = await loadActorCustomerAccount(actor, customerId);
+    if (!account) {
+      return NextResponse.json(
+        { error: `Google Ads customer ${customerId} is not linked to your accounts`, code: 'CUSTOMER_NOT_LINKED' },
+        { status: 403 }
+      );
+    }
+
+    const service = await getCampaignMutationService();
+    const proposal = await service.propose({
+      customerId: normalizeCustomerId(customerId),
+      campaignId: params.campaignId,
+      status: body.status,
+      // The sync worker sends CampaignData, where the daily budget is `budget`
+      dailyBudget: optionalNumber(body.dailyBudget ?? body.budget),
+      targetCpa: optionalNumber(body.targetCpa),
+      targetRoas: optionalNumber(body.targetRoas),
+    }, actor);
+
+    console.log(`[Campaign Changes] ${actor.email || actor.id} proposed change ${proposal.id} to campaign ${params.campaignId}: ${proposal.status}`);
+    return campaignChangeResponse(proposal);
+  } catch (error) {
+    return campaignChangeErrorResponse(error);
+  }
+}
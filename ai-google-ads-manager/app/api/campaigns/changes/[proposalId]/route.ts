@@ -0,0 +1,51 @@
+/**
+ * Campaign Change Decision API Route
+ *
+ * POST {decision: 'approve' | 'reject', note?} decides a proposal waiting
+ * for approval of a Google Ads customer linked to the user's accounts.
+ * Approving applies the change to Google Ads.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  resolveChangeActor,
+  getCampaignMutationService,
+  campaignChangeErrorResponse,
+  campaignChangeResponse,
+  loadActorCustomerAccount,
+} from '@/lib/mcp/services/campaignMutationServer';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { proposalId: string } }
+) {
+  try {
+    const actor = await resolveChangeActor();
+    if (!actor) {
+      return NextResponse.json({ error: 'Authentication required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const { decision, note } = await request.json().catch(() => ({}));
+    if (decision !== 'approve' && decision !== 'reject') {
+      return NextResponse.json({ error: 'decision must be "approve" or "reject"', code: 'INVALID_REQUEST' }, { status: 400 });
+    }
+
+    const service = await getCampaignMutationService();
+    const pending = await service.get(params.proposalId);
+    if (!(await loadActorCustomerAccount(actor, pending.customer_id))) {
+      return NextResponse.json(
+        { error: `Google Ads customer ${pending.customer_id} is not linked to your accounts`, code: 'CUSTOMER_NOT_LINKED' },
+        { status: 403 }
+      );
+    }
+
+    const proposal = decision === 'approve'
+      ? await service.approve(params.proposalId, actor, note)
+      : await service.reject(params.proposalId, actor, note);
+
+    console.log(`[Campaign Changes] ${actor.email || actor.id} ${decision}d change ${proposal.id}: ${proposal.status}`);
+    return campaignChangeResponse(proposal);
+  } catch (error) {
+    return campaignChangeErrorResponse(error);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Campaign Changes API Route
+ *
+ * GET lists campaign change proposals, newest first, filtered by
+ * `status` (comma-separated), `campaignId` and `customerId`. A
+ * `customerId` given must be linked to one of the user's accounts;
+ * without one, the list covers every customer linked to them (admins see
+ * every proposal).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { CampaignChangeProposalStatus } from '@/lib/mcp/services/campaignMutationService';
+import {
+  resolveChangeActor,
+  getCampaignMutationService,
+  campaignChangeErrorResponse,
+  loadActorCustomerAccount,
+  listActorCustomerIds,
+  normalizeCustomerId,
+} from '@/lib/mcp/services/campaignMutationServer';
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await resolveChangeActor();
+    if (!actor) {
+      return NextResponse.json({ error: 'Authentication required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const customerId = searchParams.get('customerId');
+    if (customerId && !(await loadActorCustomerAccount(actor, customerId))) {
+      return NextResponse.json(
+        { error: `Google Ads customer ${customerId} is not linked to your accounts`, code: 'CUSTOMER_NOT_LINKED' },
+        { status: 403 }
+      );
+    }
+
+    const service = await getCampaignMutationService();
+    const proposals = await service.list({
+      status: status ? status.split(',') as CampaignChangeProposalStatus[] : undefined,
+      campaignId: searchParams.get('campaignId') || undefined,
+      customerId: customerId ? normalizeCustomerId(customerId) : undefined,
+      customerIds: customerId || actor.role === 'admin' ? undefined : await listActorCustomerIds(actor),
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+    });
+
+    return NextResponse.json({ proposals });
+  } catch (error) {
+    return campaignChangeErrorResponse(error);
+  }
+}
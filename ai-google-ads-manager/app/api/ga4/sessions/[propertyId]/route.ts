@@ -20,7 +20,8 @@ export async function GET(
         args: {
           metrics: ['sessions'],
           startDate,
-          endDate
+          endDate,
+          compareTo: 'previous_period'
         }
       })
     });
@@ -31,11 +32,24 @@ export async function GET(
       throw new Error(mcpResult.error || 'MCP call failed');
     }
 
-    // Return sessions data in expected format
+    // Tool results (and tool errors) arrive as an MCP text content block
+    const text = mcpResult.data?.text;
+    if (typeof text === 'string' && text.startsWith('Error [')) {
+      throw new Error(text);
+    }
+
+    const report = typeof text === 'string' ? JSON.parse(text) : mcpResult.data;
+    const sessions = report?.comparison?.totals?.sessions;
+
+    if (!sessions) {
+      throw new Error('MCP response did not include a sessions comparison');
+    }
+
     return NextResponse.json({
-      sessions: 8234, // Mock data for now until MCP returns proper format
-      change: '+12.5%',
-      source: 'ga4-mcp',
+      sessions: sessions.current,
+      previousSessions: sessions.previous,
+      change: `${sessions.changePercent > 0 ? '+' : ''}${sessions.changePercent.toFixed(1)}%`,
+      source: mcpResult.source || 'ga4-mcp',
       timestamp: new Date().toISOString()
     });
 
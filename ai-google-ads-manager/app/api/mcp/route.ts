@@ -45,7 +45,8 @@ async function initializeMCPClient(): Promise<Client> {
       env: {
         ...process.env,
         // Pass GA4 configuration to the MCP server
-        GA4_PROPERTY_ID: '255973574', // Your GA4 property ID
+        GA4_PROPERTY_ID: process.env.GA4_PROPERTY_ID || process.env.NEXT_PUBLIC_GA4_PROPERTY_ID || '',
+        GA4_ALLOWED_PROPERTY_IDS: process.env.GA4_ALLOWED_PROPERTY_IDS || '',
         GOOGLE_APPLICATION_CREDENTIALS: '/Users/darrenchoong/Desktop/cursor projects/ai-ad-manager-v4/ai-google-ads-manager/ga4-service-account.json',
         NODE_ENV: 'development',
         MCP_SERVER_PORT: '3003',
@@ -74,7 +75,8 @@ async function initializeMCPClient(): Promise<Client> {
       cwd: mcpServerPath,
       env: {
         ...process.env,
-        GA4_PROPERTY_ID: '255973574',
+        GA4_PROPERTY_ID: process.env.GA4_PROPERTY_ID || process.env.NEXT_PUBLIC_GA4_PROPERTY_ID || '',
+        GA4_ALLOWED_PROPERTY_IDS: process.env.GA4_ALLOWED_PROPERTY_IDS || '',
         GOOGLE_APPLICATION_CREDENTIALS: '/Users/darrenchoong/Desktop/cursor projects/ai-ad-manager-v4/ai-google-ads-manager/ga4-service-account.json',
         NODE_ENV: 'development'
       }
@@ -147,6 +149,23 @@ function generateFallbackData(tool: string): any {
   }
 }
 
+/**
+ * GA4 property IDs linked to a user via the accounts table
+ */
+async function getUserPropertyIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('ga_property_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.warn('[MCP API] Could not load linked GA4 properties:', error.message);
+    return [];
+  }
+
+  return (data || []).map((account: { ga_property_id: string }) => account.ga_property_id);
+}
+
 /**
  * Handle POST requests to call MCP tools
  */
@@ -164,18 +183,31 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify authentication if token provided (optional for now)
+    let userId: string | undefined;
     if (authToken) {
       try {
         const { data: { user }, error } = await supabase.auth.getUser(authToken);
         if (error && process.env.NODE_ENV === 'production') {
           console.warn('[MCP API] Auth verification failed:', error.message);
         }
+        userId = user?.id;
       } catch (authError) {
         console.warn('[MCP API] Auth check failed:', authError);
         // Continue anyway for development
       }
     }
 
+    // An explicit property must be one of the caller's linked GA4 accounts
+    if (args?.propertyId) {
+      const allowedPropertyIds = userId ? await getUserPropertyIds(userId) : [];
+      if (!allowedPropertyIds.includes(String(args.propertyId))) {
+        return NextResponse.json(
+          { error: `GA4 property ${args.propertyId} is not linked to this account` },
+          { status: 403 }
+        );
+      }
+    }
+
     console.log(`[MCP API] Calling tool: ${tool} with args:`, args);
 
     try {
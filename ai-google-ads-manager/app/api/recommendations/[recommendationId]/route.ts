@@ -0,0 +1,40 @@
+/**
+ * Recommendation Status API Route
+ *
+ * PATCH {status} moves a recommendation along its lifecycle:
+ * pending → in_progress → completed, or dismissed before it is completed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { RECOMMENDATION_TRANSITIONS, RecommendationStatus } from '@/lib/mcp/services/recommendationStore';
+import { resolveChangeActor, listActorAccountIds } from '@/lib/mcp/services/campaignMutationServer';
+import { getRecommendationEngine, recommendationErrorResponse } from '@/lib/mcp/services/recommendationServer';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { recommendationId: string } }
+) {
+  try {
+    const actor = await resolveChangeActor();
+    if (!actor) {
+      return NextResponse.json({ error: 'Authentication required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const { status } = await request.json().catch(() => ({}));
+    if (!Object.keys(RECOMMENDATION_TRANSITIONS).includes(status)) {
+      return NextResponse.json({ error: 'status must be a recommendation status', code: 'INVALID_REQUEST' }, { status: 400 });
+    }
+
+    const engine = await getRecommendationEngine();
+    const recommendation = await engine.transition(
+      params.recommendationId,
+      status as RecommendationStatus,
+      actor.role === 'admin' ? undefined : await listActorAccountIds(actor)
+    );
+
+    console.log(`[Recommendations] ${actor.email || actor.id} moved ${recommendation.id} to ${recommendation.status}`);
+    return NextResponse.json({ recommendation });
+  } catch (error) {
+    return recommendationErrorResponse(error);
+  }
+}
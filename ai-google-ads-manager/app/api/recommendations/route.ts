@@ -0,0 +1,106 @@
+/**
+ * Recommendations API Route
+ *
+ * GET lists recommendations, newest first, of `accountId` or of every
+ * account the user owns, filtered by `status` and `type`
+ * (comma-separated).
+ *
+ * POST runs the recommendation rules for an account over
+ * `startDate`..`endDate` (default: the last 30 days up to yesterday) and
+ * records their new findings. `rules` selects rule ids; `dryRun: true`
+ * evaluates without writing. Google Ads data comes from the account's
+ * linked customer (a `customerId` given must be that customer), GA4 data
+ * from its property.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { RecommendationStatus } from '@/lib/mcp/services/recommendationStore';
+import {
+  resolveChangeActor,
+  isAccountCustomer,
+  loadActorAccount,
+  listActorAccountIds,
+} from '@/lib/mcp/services/campaignMutationServer';
+import { getRecommendationEngine, recommendationErrorResponse } from '@/lib/mcp/services/recommendationServer';
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().split('T')[0];
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await resolveChangeActor();
+    if (!actor) {
+      return NextResponse.json({ error: 'Authentication required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+    let accountIds: string[];
+    if (accountId) {
+      if (!await loadActorAccount(actor, accountId)) {
+        return NextResponse.json({ error: 'Account not found', code: 'ACCOUNT_NOT_FOUND' }, { status: 404 });
+      }
+      accountIds = [accountId];
+    } else {
+      accountIds = await listActorAccountIds(actor);
+    }
+
+    const status = searchParams.get('status');
+    const type = searchParams.get('type');
+    const engine = await getRecommendationEngine();
+    const recommendations = await engine.list({
+      accountIds,
+      status: status ? status.split(',') as RecommendationStatus[] : undefined,
+      type: type ? type.split(',') : undefined,
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+    });
+
+    return NextResponse.json({ recommendations });
+  } catch (error) {
+    return recommendationErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await resolveChangeActor();
+    if (!actor) {
+      return NextResponse.json({ error: 'Authentication required', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body?.accountId) {
+      return NextResponse.json({ error: 'accountId is required', code: 'INVALID_REQUEST' }, { status: 400 });
+    }
+
+    const account = await loadActorAccount(actor, body.accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found', code: 'ACCOUNT_NOT_FOUND' }, { status: 404 });
+    }
+
+    if (body.customerId && !isAccountCustomer(account, body.customerId)) {
+      return NextResponse.json(
+        { error: `Google Ads customer ${body.customerId} is not linked to account ${account.id}`, code: 'CUSTOMER_NOT_LINKED' },
+        { status: 403 }
+      );
+    }
+
+    const engine = await getRecommendationEngine();
+    const result = await engine.run({
+      accountId: account.id,
+      propertyId: account.ga_property_id || undefined,
+      customerId: account.google_ads_customer_id || undefined,
+      startDate: body.startDate || daysAgo(30),
+      endDate: body.endDate || daysAgo(1),
+      rules: Array.isArray(body.rules) ? body.rules : undefined,
+      dryRun: Boolean(body.dryRun),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return recommendationErrorResponse(error);
+  }
+}
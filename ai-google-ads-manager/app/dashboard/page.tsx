@@ -11,6 +11,7 @@ import {
   TableComponent, 
   GOOGLE_ADS_CAMPAIGNS_COLUMNS,
   MCPCampaignTable,
+  RecommendationFeed,
   sampleData 
 } from '@/components/dashboard'
 import { MCPMetricCard } from '@/components/dashboard/MCPMetricCard'
@@ -229,6 +230,11 @@ export default function DashboardPage() {
           />
         </div>
 
+        {/* Recommendations - rule findings and metric anomalies */}
+        <div className="mt-8">
+          <RecommendationFeed />
+        </div>
+
         {/* Dashboard Context Test - Phase 1 Testing */}
         <DashboardContextTest />
 
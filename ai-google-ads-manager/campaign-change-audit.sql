@@ -0,0 +1,104 @@
+-- Campaign change proposals and their audit log
+-- Written by CampaignMutationService through the /api/campaigns routes (service role)
+
+-- Create campaign_change_proposals table
+CREATE TABLE IF NOT EXISTS campaign_change_proposals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  operation TEXT NOT NULL DEFAULT 'UPDATE' CHECK (operation IN ('CREATE', 'UPDATE', 'DELETE')),
+  customer_id TEXT NOT NULL,
+  campaign_id TEXT NOT NULL,
+  campaign_name TEXT NOT NULL DEFAULT '',
+  request JSONB NOT NULL,
+  before JSONB NOT NULL,
+  diff JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending_approval'
+    CHECK (status IN ('pending_approval', 'approved', 'rejected', 'applied', 'failed')),
+  requires_approval BOOLEAN NOT NULL DEFAULT false,
+  approval_reason TEXT,
+  proposed_by UUID REFERENCES public.users(id) NOT NULL,
+  approved_by UUID REFERENCES public.users(id),
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decision_note TEXT,
+  applied_at TIMESTAMP WITH TIME ZONE,
+  resource_names JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- The approver of a change is never its proposer
+  CHECK (approved_by IS NULL OR approved_by <> proposed_by)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_change_proposals_status ON campaign_change_proposals(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_campaign_change_proposals_campaign ON campaign_change_proposals(customer_id, campaign_id);
+
+-- Create campaign_change_audit_log table (append-only)
+CREATE TABLE IF NOT EXISTS campaign_change_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  proposal_id UUID REFERENCES campaign_change_proposals(id) NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('proposed', 'approved', 'rejected', 'applied', 'failed')),
+  actor_id UUID REFERENCES public.users(id),
+  customer_id TEXT NOT NULL,
+  campaign_id TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_change_audit_log_proposal ON campaign_change_audit_log(proposal_id, created_at);
+
+-- Enable RLS
+ALTER TABLE campaign_change_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_change_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Users read their own proposals; managers and admins read all of them
+DROP POLICY IF EXISTS "Allow read access to own or managed campaign changes" ON campaign_change_proposals;
+CREATE POLICY "Allow read access to own or managed campaign changes"
+ON campaign_change_proposals FOR SELECT
+TO authenticated
+USING (
+  proposed_by = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('manager', 'admin')
+  )
+);
+
+-- Only managers and admins read the audit log; there are no update or delete policies
+DROP POLICY IF EXISTS "Allow managers to read campaign change audit log" ON campaign_change_audit_log;
+CREATE POLICY "Allow managers to read campaign change audit log"
+ON campaign_change_audit_log FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('manager', 'admin')
+  )
+);
+
+-- Keep audit entries immutable, including for the service role
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'campaign_change_audit_log is append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_campaign_change_audit_log_changes ON campaign_change_audit_log;
+CREATE TRIGGER prevent_campaign_change_audit_log_changes
+BEFORE UPDATE OR DELETE ON campaign_change_audit_log
+FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Create updated_at trigger function if it doesn't exist
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_campaign_change_proposals_updated_at ON campaign_change_proposals;
+CREATE TRIGGER update_campaign_change_proposals_updated_at
+BEFORE UPDATE ON campaign_change_proposals
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,166 @@
+/**
+ * Campaign Change Dialog
+ *
+ * Edits a campaign's status, daily budget and bidding target, previews
+ * the diff and submits it as a campaign change proposal.
+ */
+
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import type { CampaignData } from '@/lib/mcp/dataFetchers/CampaignTableDataFetcher';
+import type { CampaignChangeProposal } from '@/lib/mcp/services/campaignMutationService';
+import type { CampaignChangeInput } from '@/hooks/useCampaignChanges';
+
+interface CampaignChangeDialogProps {
+  campaign: CampaignData;
+  onSubmit: (campaignId: string, change: CampaignChangeInput) => Promise<CampaignChangeProposal>;
+  onClose: () => void;
+  onApplied?: (proposal: CampaignChangeProposal) => void;
+}
+
+const RESULT_MESSAGES: Record<string, string> = {
+  applied: 'The change was applied in Google Ads.',
+  pending_approval: 'The change is waiting for a manager to approve it.',
+  failed: 'Google Ads did not apply the change.'
+};
+
+function parseAmount(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || !Number.isFinite(parsed) ? undefined : parsed;
+}
+
+export function CampaignChangeDialog({ campaign, onSubmit, onClose, onApplied }: CampaignChangeDialogProps) {
+  const [status, setStatus] = useState<'ENABLED' | 'PAUSED'>(campaign.status === 'PAUSED' ? 'PAUSED' : 'ENABLED');
+  const [dailyBudget, setDailyBudget] = useState(String(campaign.budget));
+  const [targetCpa, setTargetCpa] = useState('');
+  const [targetRoas, setTargetRoas] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CampaignChangeProposal | null>(null);
+
+  // Client-side diff; the server previews the change against the live campaign
+  const change = useMemo<CampaignChangeInput>(() => {
+    const budget = parseAmount(dailyBudget);
+    return {
+      ...(status !== campaign.status && { status }),
+      ...(budget !== undefined && budget !== campaign.budget && { dailyBudget: budget }),
+      ...(parseAmount(targetCpa) !== undefined && { targetCpa: parseAmount(targetCpa) }),
+      ...(parseAmount(targetRoas) !== undefined && { targetRoas: parseAmount(targetRoas) })
+    };
+  }, [status, dailyBudget, targetCpa, targetRoas, campaign.status, campaign.budget]);
+
+  const diffRows = [
+    change.status && ['Status', campaign.status, change.status],
+    change.dailyBudget !== undefined && ['Daily budget', campaign.budget.toFixed(2), change.dailyBudget.toFixed(2)],
+    change.targetCpa !== undefined && ['Target CPA', 'current', change.targetCpa.toFixed(2)],
+    change.targetRoas !== undefined && ['Target ROAS', 'current', `${change.targetRoas}x`]
+  ].filter(Boolean) as string[][];
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const proposal = await onSubmit(campaign.id, change);
+      setResult(proposal);
+      if (proposal.status === 'applied') {
+        onApplied?.(proposal);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the change');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClasses = 'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30" role="dialog" aria-modal="true">
+      <div className="w-full max-w-md rounded-lg bg-white shadow-xl">
+        <div className="border-b border-gray-200 px-6 py-4">
+          <h3 className="text-lg font-semibold text-gray-900">Change campaign</h3>
+          <p className="text-sm text-gray-500">{campaign.name} (ID: {campaign.id})</p>
+        </div>
+
+        {result ? (
+          <div className="px-6 py-4">
+            <p className={`text-sm ${result.status === 'failed' ? 'text-red-700' : 'text-gray-700'}`}>
+              {RESULT_MESSAGES[result.status] || `The change is ${result.status}.`}
+            </p>
+            {result.approval_reason && (
+              <p className="mt-2 text-xs text-gray-500">Approval needed because {result.approval_reason}.</p>
+            )}
+            {result.error && <p className="mt-2 text-xs text-red-600">{result.error}</p>}
+            <div className="mt-4 flex justify-end">
+              <button onClick={onClose} className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+                Close
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 px-6 py-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Status
+              <select value={status} onChange={e => setStatus(e.target.value as 'ENABLED' | 'PAUSED')} className={inputClasses}>
+                <option value="ENABLED">ENABLED</option>
+                <option value="PAUSED">PAUSED</option>
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Daily budget
+              <input type="number" min="0.01" step="0.01" value={dailyBudget} onChange={e => setDailyBudget(e.target.value)} className={inputClasses} />
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Target CPA
+                <input type="number" min="0.01" step="0.01" placeholder="Unchanged" value={targetCpa} onChange={e => setTargetCpa(e.target.value)} className={inputClasses} />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Target ROAS
+                <input type="number" min="0.01" step="0.01" placeholder="Unchanged" value={targetRoas} onChange={e => setTargetRoas(e.target.value)} className={inputClasses} />
+              </label>
+            </div>
+
+            {diffRows.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-gray-500">
+                    <th className="py-1">Setting</th>
+                    <th className="py-1">From</th>
+                    <th className="py-1">To</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffRows.map(([label, from, to]) => (
+                    <tr key={label}>
+                      <td className="py-1 text-gray-700">{label}</td>
+                      <td className="py-1 text-gray-500">{from}</td>
+                      <td className="py-1 font-medium text-gray-900">{to}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {error && <p className="text-sm text-red-700">{error}</p>}
+
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={onClose} className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting || diffRows.length === 0}
+                className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : 'Submit change'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -16,6 +16,9 @@ import { EnhancedPaginationControls } from './EnhancedPaginationControls';
 import { EnhancedExportControls, ExportConfiguration, ExportFormat, ExportScope } from './EnhancedExportControls';
 import { AdvancedTableControls, ColumnDefinition, TableViewPreference } from './AdvancedTableControls';
 import { useTableViewPreferences } from '@/hooks/useTableViewPreferences';
+import { useCampaignChanges } from '@/hooks/useCampaignChanges';
+import { CampaignChangeDialog } from './CampaignChangeDialog';
+import { PendingCampaignChanges } from './PendingCampaignChanges';
 import { featureFlagManager } from '@/lib/featureFlags/FeatureFlagManager';
 
 // Icons for the table
@@ -59,6 +62,9 @@ interface MCPCampaignTableProps {
   userId?: string;
   userRole?: string;
   initialPageSize?: number;
+  enableCampaignChanges?: boolean; // Edit controls and pending changes; needs userId
+  enableAttribution?: boolean; // GA4-attributed columns from get_campaign_attribution
+  attributionWindowDays?: 1 | 3 | 7 | 14 | 30;
 }
 
 /**
@@ -138,7 +144,10 @@ export function MCPCampaignTable({
   propertyId,
   userId,
   userRole,
-  initialPageSize = 25
+  initialPageSize = 25,
+  enableCampaignChanges = false,
+  enableAttribution = false,
+  attributionWindowDays = 7
 }: MCPCampaignTableProps) {
 
   // Local state for filters (managed by AdvancedCampaignFilters)
@@ -177,8 +186,14 @@ export function MCPCampaignTable({
     { key: 'conversions', label: 'Conversions', visible: true, width: 120, order: 9, resizable: true, sortable: true, filterable: false },
     { key: 'conversionRate', label: 'Conv. Rate', visible: false, width: 100, order: 10, resizable: true, sortable: true, filterable: false },
     { key: 'roas', label: 'ROAS', visible: true, width: 80, order: 11, resizable: true, sortable: true, filterable: false },
-    { key: 'lastModified', label: 'Last Modified', visible: false, width: 150, order: 12, resizable: true, sortable: true, filterable: true }
-  ], []);
+    { key: 'lastModified', label: 'Last Modified', visible: false, width: 150, order: 12, resizable: true, sortable: true, filterable: true },
+    // GA4 attribution column set; the list_campaigns tool cannot sort by it
+    { key: 'attributedConversions', label: 'GA4 Conversions', visible: enableAttribution, width: 130, order: 13, resizable: true, sortable: false, filterable: false },
+    { key: 'attributedRevenue', label: 'GA4 Revenue', visible: enableAttribution, width: 120, order: 14, resizable: true, sortable: false, filterable: false },
+    { key: 'trueCpa', label: 'True CPA', visible: enableAttribution, width: 100, order: 15, resizable: true, sortable: false, filterable: false },
+    { key: 'trueRoas', label: 'True ROAS', visible: enableAttribution, width: 100, order: 16, resizable: true, sortable: false, filterable: false },
+    { key: 'revenuePerClick', label: 'Rev. / Click', visible: false, width: 100, order: 17, resizable: true, sortable: false, filterable: false }
+  ], [enableAttribution]);
 
   // Table view preferences hook
   const {
@@ -267,9 +282,17 @@ export function MCPCampaignTable({
     propertyId,
     userId,
     userRole,
-    initialPagination: { page: 1, pageSize: initialPageSize }
+    initialPagination: { page: 1, pageSize: initialPageSize },
+    includeAttribution: enableAttribution,
+    attributionWindowDays
   });
 
+  // Campaign changes (status, budget, bidding target) need a signed-in user
+  const changesEnabled = enableCampaignChanges && Boolean(userId);
+  const canApproveChanges = userRole === 'manager' || userRole === 'admin';
+  const [editingCampaign, setEditingCampaign] = useState<CampaignData | null>(null);
+  const { pendingChanges, proposeChange, decideChange } = useCampaignChanges({ enabled: changesEnabled });
+
   // Handle filter changes from AdvancedCampaignFilters
   const handleFiltersChange = React.useCallback((newFilters: CampaignTableFilters) => {
     setFilters(newFilters);
@@ -372,6 +395,14 @@ export function MCPCampaignTable({
         return `${campaign.roas.toFixed(1)}x`;
       case 'lastModified':
         return new Date(campaign.lastModified).toLocaleDateString();
+      case 'attributedConversions':
+        return campaign.attributedConversions === undefined ? '-' : formatNumber(campaign.attributedConversions);
+      case 'attributedRevenue':
+      case 'trueCpa':
+      case 'revenuePerClick':
+        return campaign[columnKey] === undefined ? '-' : formatCurrency(campaign[columnKey]!);
+      case 'trueRoas':
+        return campaign.trueRoas === undefined ? '-' : `${campaign.trueRoas.toFixed(1)}x`;
       default:
         return (campaign as any)[columnKey]?.toString() || '-';
     }
@@ -505,6 +536,18 @@ export function MCPCampaignTable({
         />
       )}
 
+      {/* Campaign Changes Awaiting Approval */}
+      {changesEnabled && (
+        <PendingCampaignChanges
+          changes={pendingChanges}
+          userId={userId}
+          canApprove={canApproveChanges}
+          onDecide={decideChange}
+          onApplied={handleRefresh}
+          className="mx-6 mb-4"
+        />
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="px-6 py-4 bg-red-50 border-l-4 border-red-400">
@@ -549,6 +592,9 @@ export function MCPCampaignTable({
                         style={{ width: advancedFeaturesEnabled ? columnWidths[column.key] : undefined }}
                       />
                     ))}
+                  {changesEnabled && (
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  )}
                 </tr>
               </thead>
 
@@ -573,6 +619,17 @@ export function MCPCampaignTable({
                             {renderCellContent(campaign, column.key)}
                           </td>
                         ))}
+                      {changesEnabled && (
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                          <button
+                            onClick={() => setEditingCampaign(campaign)}
+                            disabled={campaign.status === 'REMOVED' || source === 'mock'}
+                            className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-300 disabled:cursor-not-allowed"
+                          >
+                            Edit
+                          </button>
+                        </td>
+                      )}
                     </tr>
                   );
                 })}
@@ -581,7 +638,7 @@ export function MCPCampaignTable({
                 {campaigns.length === 0 && !loading && (
                   <tr>
                     <td 
-                      colSpan={advancedFeaturesEnabled ? visibleColumns.length : defaultColumns.filter(col => col.visible).length} 
+                      colSpan={(advancedFeaturesEnabled ? visibleColumns.length : defaultColumns.filter(col => col.visible).length) + (changesEnabled ? 1 : 0)} 
                       className="px-6 py-4 text-center text-sm text-gray-500"
                     >
                       No campaigns found. {Object.keys(filters).length > 0 ? 'Try adjusting your filters.' : ''}
@@ -628,6 +685,16 @@ export function MCPCampaignTable({
           )}
         </>
       )}
+
+      {/* Campaign Change Dialog */}
+      {editingCampaign && (
+        <CampaignChangeDialog
+          campaign={editingCampaign}
+          onSubmit={proposeChange}
+          onApplied={handleRefresh}
+          onClose={() => setEditingCampaign(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * Pending Campaign Changes
+ *
+ * Campaign change proposals waiting for approval, with their diff.
+ * Managers approve or reject changes proposed by someone else; proposers
+ * can withdraw (reject) their own.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { CampaignChangeProposal } from '@/lib/mcp/services/campaignMutationService';
+
+interface PendingCampaignChangesProps {
+  changes: CampaignChangeProposal[];
+  userId?: string;
+  canApprove: boolean;
+  onDecide: (proposalId: string, decision: 'approve' | 'reject') => Promise<CampaignChangeProposal>;
+  onApplied?: (proposal: CampaignChangeProposal) => void;
+  className?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  dailyBudget: 'Daily budget',
+  targetCpa: 'Target CPA',
+  targetRoas: 'Target ROAS'
+};
+
+export function PendingCampaignChanges({
+  changes,
+  userId,
+  canApprove,
+  onDecide,
+  onApplied,
+  className = ''
+}: PendingCampaignChangesProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const handleDecision = async (proposal: CampaignChangeProposal, decision: 'approve' | 'reject') => {
+    setBusyId(proposal.id);
+    setMessage(null);
+    try {
+      const decided = await onDecide(proposal.id, decision);
+      if (decided.status === 'applied') {
+        onApplied?.(decided);
+      }
+      setMessage(decided.status === 'failed'
+        ? `${proposal.campaign_name}: ${decided.error}`
+        : `${proposal.campaign_name}: change ${decided.status}.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to decide the change');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className={`rounded-md border border-yellow-200 bg-yellow-50 p-4 ${className}`}>
+      <h4 className="text-sm font-semibold text-yellow-900">
+        {changes.length} campaign change{changes.length === 1 ? '' : 's'} awaiting approval
+      </h4>
+      {message && <p className="mt-1 text-xs text-gray-700">{message}</p>}
+
+      <ul className="mt-3 divide-y divide-yellow-200">
+        {changes.map(proposal => {
+          const isProposer = proposal.proposed_by === userId;
+          return (
+            <li key={proposal.id} className="flex items-start justify-between py-2">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{proposal.campaign_name}</div>
+                <div className="text-xs text-gray-600">
+                  {proposal.diff.map(change => (
+                    <span key={change.field} className="mr-3">
+                      {FIELD_LABELS[change.field] || change.field}: {change.from ?? '-'} → {change.to}
+                    </span>
+                  ))}
+                </div>
+                {proposal.approval_reason && <div className="text-xs text-gray-500">{proposal.approval_reason}</div>}
+              </div>
+
+              <div className="ml-4 flex shrink-0 space-x-2">
+                {canApprove && !isProposer && (
+                  <button
+                    onClick={() => handleDecision(proposal, 'approve')}
+                    disabled={busyId === proposal.id}
+                    className="rounded-md bg-green-600 px-3 py-1 text-xs font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                )}
+                {(canApprove || isProposer) && (
+                  <button
+                    onClick={() => handleDecision(proposal, 'reject')}
+                    disabled={busyId === proposal.id}
+                    className="rounded-md border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {isProposer ? 'Withdraw' : 'Reject'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
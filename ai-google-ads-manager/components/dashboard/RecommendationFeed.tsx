@@ -0,0 +1,157 @@
+/**
+ * Recommendation Feed
+ *
+ * Open recommendations of the user's accounts, highest priority first,
+ * kept current through Supabase realtime. Each one shows its impact
+ * estimate and evidence and can be started, completed or dismissed.
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { Recommendation, RecommendationPriority, RecommendationStatus } from '@/lib/mcp/services/recommendationStore';
+import { RECOMMENDATION_TRANSITIONS } from '@/lib/mcp/services/recommendationStore';
+import { useRecommendations } from '@/hooks/useRecommendations';
+
+interface RecommendationFeedProps {
+  accountId?: string;
+  enabled?: boolean;
+  limit?: number;
+  className?: string;
+}
+
+const PRIORITY_STYLES: Record<RecommendationPriority, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+const PRIORITY_ORDER: Record<RecommendationPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const TYPE_LABELS: Record<string, string> = {
+  campaign_optimization: 'Budget',
+  keyword_optimization: 'Keywords',
+  landing_page: 'Landing page',
+  metric_anomaly: 'Anomaly',
+  metric_changepoint: 'Trend shift'
+};
+
+const ACTION_LABELS: Partial<Record<RecommendationStatus, string>> = {
+  in_progress: 'Start',
+  completed: 'Complete',
+  dismissed: 'Dismiss'
+};
+
+// Evidence fields shown as the details of a recommendation
+function evidenceEntries(evidence: Recommendation['evidence']): Array<[string, string]> {
+  return Object.entries(evidence || {})
+    .filter(([key, value]) => !['rule', 'subject'].includes(key) && value !== null && typeof value !== 'object')
+    .map(([key, value]) => [key.replace(/([A-Z])/g, ' $1').toLowerCase(), String(value)]);
+}
+
+export function RecommendationFeed({
+  accountId,
+  enabled = true,
+  limit = 20,
+  className = ''
+}: RecommendationFeedProps) {
+  const { recommendations, loading, error, updateStatus } = useRecommendations({ enabled, accountId, limit });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const sorted = useMemo(() => [...recommendations].sort((a, b) =>
+    PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+    (b.estimated_impact ?? 0) - (a.estimated_impact ?? 0)
+  ), [recommendations]);
+
+  const handleTransition = async (recommendation: Recommendation, status: RecommendationStatus) => {
+    setBusyId(recommendation.id);
+    setMessage(null);
+    try {
+      await updateStatus(recommendation.id, status);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to update the recommendation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className={`rounded-lg bg-white p-6 shadow ${className}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">Recommendations</h2>
+        <span className="text-sm text-gray-500">{loading ? 'Loading…' : `${sorted.length} open`}</span>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {message && <p className="mt-2 text-xs text-gray-700">{message}</p>}
+
+      {!loading && !error && sorted.length === 0 && (
+        <p className="mt-4 text-sm text-gray-500">No open recommendations.</p>
+      )}
+
+      <ul className="mt-4 divide-y divide-gray-200">
+        {sorted.map(recommendation => {
+          const details = evidenceEntries(recommendation.evidence);
+          return (
+            <li key={recommendation.id} className="py-3">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className={`rounded px-2 py-0.5 text-xs font-medium ${PRIORITY_STYLES[recommendation.priority]}`}>
+                      {recommendation.priority}
+                    </span>
+                    <span className="text-xs text-gray-500">{TYPE_LABELS[recommendation.type] || recommendation.type}</span>
+                    {recommendation.status === 'in_progress' && (
+                      <span className="text-xs font-medium text-blue-600">In progress</span>
+                    )}
+                  </div>
+                  <div className="mt-1 text-sm font-medium text-gray-900">{recommendation.title}</div>
+                  <p className="mt-1 text-sm text-gray-600">{recommendation.description}</p>
+                  <div className="mt-1 flex items-center space-x-3 text-xs text-gray-500">
+                    {recommendation.estimated_impact !== null && (
+                      <span>Estimated impact: {(Number(recommendation.estimated_impact) * 100).toFixed(1)}%</span>
+                    )}
+                    {details.length > 0 && (
+                      <button
+                        onClick={() => setExpandedId(expandedId === recommendation.id ? null : recommendation.id)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {expandedId === recommendation.id ? 'Hide evidence' : 'Show evidence'}
+                      </button>
+                    )}
+                  </div>
+                  {expandedId === recommendation.id && (
+                    <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                      {details.map(([label, value]) => (
+                        <React.Fragment key={label}>
+                          <dt className="text-gray-500">{label}</dt>
+                          <dd className="text-gray-900">{value}</dd>
+                        </React.Fragment>
+                      ))}
+                    </dl>
+                  )}
+                </div>
+
+                <div className="ml-4 flex shrink-0 space-x-2">
+                  {RECOMMENDATION_TRANSITIONS[recommendation.status].map(status => (
+                    <button
+                      key={status}
+                      onClick={() => handleTransition(recommendation, status)}
+                      disabled={busyId === recommendation.id}
+                      className={status === 'dismissed'
+                        ? 'rounded-md border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+                        : 'rounded-md bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50'}
+                    >
+                      {ACTION_LABELS[status] || status}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ export { MCPMetricCard, TotalCampaignsCard } from './MCPMetricCard';
 export { AlertBanner, SuccessAlert, WarningAlert, InfoAlert, ErrorAlert } from './AlertBanner';
 export { TableComponent, GA4_PAGES_COLUMNS, GA4_TRAFFIC_SOURCES_COLUMNS, GOOGLE_ADS_CAMPAIGNS_COLUMNS } from './TableComponent';
 export { MCPCampaignTable } from './MCPCampaignTable';
+export { CampaignChangeDialog } from './CampaignChangeDialog';
+export { PendingCampaignChanges } from './PendingCampaignChanges';
+export { RecommendationFeed } from './RecommendationFeed';
 export { AdvancedCampaignFilters } from './AdvancedCampaignFilters';
 export { EnhancedSortingControls, SortableColumnHeader } from './EnhancedSortingControls';
 export { EnhancedPaginationControls } from './EnhancedPaginationControls';
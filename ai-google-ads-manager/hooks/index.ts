@@ -6,4 +6,8 @@ export { useProtectedRoute, createProtectedRoute, type UseProtectedRouteReturn,
 // Campaign Table Hooks (Subtask 29.3)
 export { useCampaignTableData, useCampaignTable, useCampaignExport } from './useCampaignTableData'
 export { useTableViewPreferences } from './useTableViewPreferences'
-export { usePerformanceOptimizedTable } from './usePerformanceOptimizedTable'
\ No newline at end of file
+export { usePerformanceOptimizedTable } from './usePerformanceOptimizedTable'
+// Campaign Changes
+export { useCampaignChanges, type CampaignChangeInput } from './useCampaignChanges'
+// Recommendations
+export { useRecommendations, type RecommendationRunOptions } from './useRecommendations'
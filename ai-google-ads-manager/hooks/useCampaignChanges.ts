@@ -0,0 +1,91 @@
+/**
+ * useCampaignChanges Hook
+ *
+ * React hook for staging campaign changes through /api/campaigns and
+ * deciding the proposals waiting for approval.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CampaignChangeProposal } from '@/lib/mcp/services/campaignMutationService';
+import type { CampaignChangeRequest } from '@/lib/mcp/services/googleAdsMutateAdapter';
+
+interface UseCampaignChangesProps {
+  enabled?: boolean;
+  customerId?: string;
+}
+
+export type CampaignChangeInput = Omit<CampaignChangeRequest, 'campaignId' | 'customerId'>;
+
+async function readProposal(response: Response): Promise<CampaignChangeProposal> {
+  const body = await response.json().catch(() => ({}));
+  if (!body.proposal) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+  return body.proposal;
+}
+
+export function useCampaignChanges({ enabled = true, customerId }: UseCampaignChangesProps = {}) {
+  const [pendingChanges, setPendingChanges] = useState<CampaignChangeProposal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status: 'pending_approval' });
+      if (customerId) params.set('customerId', customerId);
+
+      const response = await fetch(`/api/campaigns/changes?${params}`);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `Request failed with status ${response.status}`);
+      }
+      setPendingChanges(body.proposals || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load campaign changes');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, customerId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Stage a change; the proposal comes back applied, pending approval or failed
+  const proposeChange = useCallback(async (campaignId: string, change: CampaignChangeInput) => {
+    const response = await fetch(`/api/campaigns/${encodeURIComponent(campaignId)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...change, customerId })
+    });
+    const proposal = await readProposal(response);
+    if (proposal.status === 'pending_approval') {
+      setPendingChanges(current => [proposal, ...current]);
+    }
+    return proposal;
+  }, [customerId]);
+
+  const decideChange = useCallback(async (proposalId: string, decision: 'approve' | 'reject', note?: string) => {
+    const response = await fetch(`/api/campaigns/changes/${encodeURIComponent(proposalId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision, note })
+    });
+    const proposal = await readProposal(response);
+    setPendingChanges(current => current.filter(pending => pending.id !== proposalId));
+    return proposal;
+  }, []);
+
+  return {
+    pendingChanges,
+    loading,
+    error,
+    refresh,
+    proposeChange,
+    decideChange
+  };
+}
@@ -27,6 +27,8 @@ interface UseCampaignTableDataProps {
   propertyId?: string;
   userId?: string;
   userRole?: string;
+  includeAttribution?: boolean; // GA4-attributed conversions, revenue, CPA and ROAS
+  attributionWindowDays?: CampaignTableOptions['attributionWindowDays'];
 }
 
 export function useCampaignTableData({
@@ -38,7 +40,9 @@ export function useCampaignTableData({
   enabled = true,
   propertyId,
   userId,
-  userRole
+  userRole,
+  includeAttribution,
+  attributionWindowDays
 }: UseCampaignTableDataProps = {}) {
   const mcpClient = useMCPClient();
 
@@ -91,7 +95,9 @@ export function useCampaignTableData({
         forceRefresh,
         propertyId,
         userId,
-        userRole
+        userRole,
+        includeAttribution,
+        attributionWindowDays
       };
 
       const result = await fetcherRef.current.fetchCampaigns(options);
@@ -105,7 +111,7 @@ export function useCampaignTableData({
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       }));
     }
-  }, [filters, sorting, pagination, enabled, propertyId, userId, userRole]);
+  }, [filters, sorting, pagination, enabled, propertyId, userId, userRole, includeAttribution, attributionWindowDays]);
 
   /**
    * Update filters and trigger refresh
@@ -262,7 +268,9 @@ export function useCampaignTableData({
         pagination: { page: 1, pageSize: 50000 },
         propertyId,
         userId,
-        userRole
+        userRole,
+        includeAttribution,
+        attributionWindowDays
       };
 
       // Get campaigns based on scope
@@ -321,7 +329,7 @@ export function useCampaignTableData({
     } finally {
       setIsExporting(false);
     }
-  }, [fetcherRef, filters, sorting, propertyId, userId, userRole, data.campaigns]);
+  }, [fetcherRef, filters, sorting, propertyId, userId, userRole, includeAttribution, attributionWindowDays, data.campaigns]);
 
   /**
    * Get cache statistics
@@ -349,7 +357,7 @@ export function useCampaignTableData({
    */
   useEffect(() => {
     fetchData();
-  }, [filters, sorting, pagination, propertyId, userId, userRole]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [filters, sorting, pagination, propertyId, userId, userRole, includeAttribution, attributionWindowDays]); // eslint-disable-line react-hooks/exhaustive-deps
 
   /**
    * Auto-refresh setup
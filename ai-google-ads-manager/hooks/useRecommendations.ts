@@ -0,0 +1,139 @@
+/**
+ * useRecommendations Hook
+ *
+ * React hook for the recommendation feed: loads recommendations through
+ * /api/recommendations, keeps them current with Supabase realtime, and
+ * moves them along their lifecycle.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { Recommendation, RecommendationStatus } from '@/lib/mcp/services/recommendationStore';
+
+interface UseRecommendationsProps {
+  enabled?: boolean;
+  accountId?: string;
+  status?: RecommendationStatus[];
+  limit?: number;
+}
+
+export interface RecommendationRunOptions {
+  accountId: string;
+  startDate?: string;
+  endDate?: string;
+  customerId?: string;
+  rules?: string[];
+}
+
+const DEFAULT_STATUS: RecommendationStatus[] = ['pending', 'in_progress'];
+
+async function readBody(response: Response) {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export function useRecommendations({
+  enabled = true,
+  accountId,
+  status = DEFAULT_STATUS,
+  limit = 50
+}: UseRecommendationsProps = {}) {
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const statusKey = status.join(',');
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status: statusKey, limit: String(limit) });
+      if (accountId) params.set('accountId', accountId);
+
+      const body = await readBody(await fetch(`/api/recommendations?${params}`));
+      setRecommendations(body.recommendations || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recommendations');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, accountId, statusKey, limit]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Realtime inserts and status changes; RLS limits events to the user's accounts
+  useEffect(() => {
+    if (!enabled) return;
+
+    const statuses = statusKey.split(',');
+    const channel = supabase
+      .channel(`recommendations-${accountId || 'all'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'recommendations',
+          ...(accountId && { filter: `account_id=eq.${accountId}` })
+        },
+        payload => {
+          const row = payload.new as Recommendation | undefined;
+          const removedId = (payload.old as Partial<Recommendation> | undefined)?.id;
+          setRecommendations(current => {
+            const rest = current.filter(item => item.id !== (row?.id || removedId));
+            if (payload.eventType === 'DELETE' || !row || !statuses.includes(row.status)) {
+              return rest;
+            }
+            return [row, ...rest]
+              .sort((a, b) => b.created_at.localeCompare(a.created_at))
+              .slice(0, limit);
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, accountId, statusKey, limit]);
+
+  const updateStatus = useCallback(async (recommendationId: string, nextStatus: RecommendationStatus) => {
+    const body = await readBody(await fetch(`/api/recommendations/${encodeURIComponent(recommendationId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: nextStatus })
+    }));
+    const updated: Recommendation = body.recommendation;
+    setRecommendations(current => statusKey.split(',').includes(updated.status)
+      ? current.map(item => item.id === updated.id ? updated : item)
+      : current.filter(item => item.id !== updated.id));
+    return updated;
+  }, [statusKey]);
+
+  // Run the recommendation rules; new recommendations also arrive through realtime
+  const generate = useCallback(async (options: RecommendationRunOptions) => {
+    const body = await readBody(await fetch('/api/recommendations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options)
+    }));
+    await refresh();
+    return body;
+  }, [refresh]);
+
+  return {
+    recommendations,
+    loading,
+    error,
+    refresh,
+    updateStatus,
+    generate
+  };
+}
@@ -2,7 +2,7 @@
  * Chart Data Adapter
  * 
  * Specialized adapters for converting MCP responses to chart component data formats.
- * Supports LineChart, BarChart, and DonutChart components.
+ * Supports LineChart, BarChart, DonutChart and cohort heatmap components.
  */
 
 import { BaseAdapter } from './BaseAdapter';
@@ -10,6 +10,8 @@ import {
   TimeSeriesDataPoint, 
   BarChartDataPoint, 
   DonutChartDataPoint,
+  HeatmapCell,
+  HeatmapData,
   MCPResponse,
   AdapterConfig,
   AdapterMetadata,
@@ -69,6 +71,28 @@ export interface ChartAdapterConfig extends AdapterConfig {
   aggregationThreshold?: number;
 }
 
+/**
+ * Cohort x period matrix as returned by the get_cohort_retention MCP tool
+ */
+export interface CohortMatrixInput {
+  granularity: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  periods: number[];
+  cohorts: Array<{
+    cohort: string;
+    dateRange: { startDate: string; endDate: string };
+    cohortSize: number;
+    values: Array<number | null>;
+    retention: Array<number | null>;
+  }>;
+}
+
+/**
+ * Configuration for the cohort heatmap adapter
+ */
+export interface HeatmapAdapterConfig extends AdapterConfig {
+  valueField?: 'retention' | 'values';
+}
+
 // ============================================================================
 // LINE CHART ADAPTER
 // ============================================================================
@@ -349,6 +373,82 @@ export class DonutChartAdapter extends BaseAdapter<ChartInputData, DonutChartDat
   }
 }
 
+// ============================================================================
+// COHORT HEATMAP ADAPTER
+// ============================================================================
+
+const PERIOD_LABELS: Record<CohortMatrixInput['granularity'], string> = {
+  DAILY: 'Day',
+  WEEKLY: 'Week',
+  MONTHLY: 'Month'
+};
+
+/**
+ * Adapter for heatmap components - converts a cohort retention matrix into
+ * one cell per cohort (row) and period (column)
+ */
+export class CohortHeatmapAdapter extends BaseAdapter<CohortMatrixInput, HeatmapData> {
+  private valueField: 'retention' | 'values';
+
+  constructor(config: HeatmapAdapterConfig = {}) {
+    const { valueField, ...adapterConfig } = config;
+    super(adapterConfig);
+    this.valueField = valueField || 'retention';
+  }
+
+  protected transformImplementation(input: CohortMatrixInput): HeatmapData {
+    if (!input.cohorts || !Array.isArray(input.cohorts) || !Array.isArray(input.periods)) {
+      return this.getDefaultOutput();
+    }
+
+    const valueField = this.valueField;
+    const periodLabel = PERIOD_LABELS[input.granularity] || 'Period';
+    const xLabels = input.periods.map(period => `${periodLabel} ${period}`);
+    const yLabels = input.cohorts.map(cohort => cohort.dateRange?.startDate || cohort.cohort);
+
+    const cells: HeatmapCell[] = input.cohorts.flatMap((cohort, row) =>
+      xLabels.map((x, column) => {
+        const raw = (cohort[valueField] || [])[column];
+        const value = raw === null || raw === undefined ? null : coerceToNumber(raw) as number;
+        return {
+          x,
+          y: yLabels[row],
+          value,
+          label: value === null ? undefined : valueField === 'retention' ? `${value}%` : String(value)
+        };
+      })
+    );
+
+    const known = cells.map(cell => cell.value).filter((value): value is number => value !== null);
+
+    return {
+      xLabels,
+      yLabels,
+      cells,
+      min: known.length > 0 ? Math.min(...known) : 0,
+      max: known.length > 0 ? Math.max(...known) : 0
+    };
+  }
+
+  protected validateInput(input: CohortMatrixInput): boolean {
+    return Array.isArray(input.cohorts) && Array.isArray(input.periods);
+  }
+
+  public getDefaultOutput(): HeatmapData {
+    return { xLabels: [], yLabels: [], cells: [], min: 0, max: 0 };
+  }
+
+  public getMetadata(): AdapterMetadata {
+    return {
+      name: 'CohortHeatmapAdapter',
+      version: '1.0.0',
+      inputType: 'CohortMatrixInput',
+      outputType: 'HeatmapData',
+      description: 'Converts MCP cohort retention data to heatmap format'
+    };
+  }
+}
+
 // ============================================================================
 // CHART ADAPTER FACTORY HELPERS
 // ============================================================================
@@ -374,6 +474,13 @@ export function createDonutChartAdapter(config?: ChartAdapterConfig): DonutChart
   return new DonutChartAdapter(config);
 }
 
+/**
+ * Create a cohort heatmap adapter with common configuration
+ */
+export function createCohortHeatmapAdapter(config?: HeatmapAdapterConfig): CohortHeatmapAdapter {
+  return new CohortHeatmapAdapter(config);
+}
+
 /**
  * Chart adapter type for factory registration
  */
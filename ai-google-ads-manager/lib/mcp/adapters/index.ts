@@ -44,6 +44,8 @@ export type {
   TimeSeriesDataPoint,
   BarChartDataPoint,
   DonutChartDataPoint,
+  HeatmapCell,
+  HeatmapData,
   MetricCardData,
   TableRow,
   TableColumn,
@@ -88,12 +90,14 @@ export {
   LineChartAdapter,
   BarChartAdapter,
   DonutChartAdapter,
+  CohortHeatmapAdapter,
   createLineChartAdapter,
   createBarChartAdapter,
   createDonutChartAdapter,
+  createCohortHeatmapAdapter,
   createChartAdapter
 } from './ChartDataAdapter';
-export type { ChartInputData, ChartAdapterConfig, ChartAdapterType } from './ChartDataAdapter';
+export type { ChartInputData, ChartAdapterConfig, ChartAdapterType, CohortMatrixInput, HeatmapAdapterConfig } from './ChartDataAdapter';
 
 // Widget Adapters
 export {
@@ -265,6 +265,27 @@ export interface DonutChartDataPoint {
   percentage?: number;
 }
 
+/**
+ * Heatmap cell (component format)
+ */
+export interface HeatmapCell {
+  x: string;
+  y: string;
+  value: number | null;
+  label?: string;
+}
+
+/**
+ * Heatmap data, e.g. a cohort x period retention matrix (component format)
+ */
+export interface HeatmapData {
+  xLabels: string[];
+  yLabels: string[];
+  cells: HeatmapCell[];
+  min: number;
+  max: number;
+}
+
 /**
  * Metric card props (component format)
  */
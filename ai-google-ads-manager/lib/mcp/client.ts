@@ -7,7 +7,7 @@
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { HTTPMCPClient, createHTTPMCPClient } from './httpClient';
 
 // Authentication imports for Phase 6 (Subtask 28.1)
@@ -233,7 +233,7 @@ export interface MCPClientStatus {
  */
 export class MCPClient {
   private client: Client | null = null;
-  private transport: StdioClientTransport | SSEClientTransport | null = null;
+  private transport: StdioClientTransport | StreamableHTTPClientTransport | null = null;
   private httpClient: HTTPMCPClient | null = null;
   private state: MCPConnectionState = MCPConnectionState.DISCONNECTED;
   private previousState: MCPConnectionState = MCPConnectionState.DISCONNECTED;
@@ -867,7 +867,7 @@ export class MCPClient {
     this.setState(MCPConnectionState.CONNECTING);
     
     try {
-      this.httpClient = createHTTPMCPClient(this.config.serverUrl);
+      this.httpClient = createHTTPMCPClient(this.config.serverUrl, this.getAuthHeaders());
       await this.httpClient.connect();
       
       this.setState(MCPConnectionState.CONNECTED);
@@ -967,16 +967,12 @@ export class MCPClient {
         }
       }
 
-      // Create new transport based on server URL
-      if (this.config.serverUrl.startsWith('http')) {
-        // HTTP/SSE transport for web connections
-        // Use the base URL without appending /mcp/connect - let SSEClientTransport handle it
-        this.transport = new SSEClientTransport(new URL(this.config.serverUrl));
-      } else {
-        // For now, default to SSE transport
-        // StdioClientTransport is mainly for server-side or local connections
-        this.transport = new SSEClientTransport(new URL(this.config.serverUrl));
-      }
+      // Streamable HTTP transport against the bridge's /mcp endpoint; the bridge
+      // issues the Mcp-Session-Id and the transport resumes dropped SSE streams
+      this.transport = new StreamableHTTPClientTransport(
+        new URL('/mcp', this.config.serverUrl),
+        { requestInit: { headers: this.getAuthHeaders() } }
+      );
 
       // Initialize MCP client with transport
       this.client = new Client(
@@ -1154,6 +1150,11 @@ export class MCPClient {
         await this.clearPool();
       }
 
+      // End the bridge session before the transport goes away
+      if (this.transport instanceof StreamableHTTPClientTransport) {
+        await this.transport.terminateSession().catch(() => undefined);
+      }
+
       // Close MCP client connection
       if (this.client) {
         await this.client.close();
@@ -25,8 +25,23 @@ export interface CampaignData {
   startDate: string;
   endDate?: string;
   lastModified: string;
+  // GA4-attributed metrics, present when fetched with includeAttribution
+  attributedConversions?: number;
+  attributedRevenue?: number;
+  trueCpa?: number;
+  trueRoas?: number;
+  revenuePerClick?: number;
 }
 
+// Column set filled from the get_campaign_attribution tool
+export const ATTRIBUTION_COLUMNS: Array<keyof CampaignData> = [
+  'attributedConversions',
+  'attributedRevenue',
+  'trueCpa',
+  'trueRoas',
+  'revenuePerClick'
+];
+
 export interface CampaignTableFilters {
   search?: string;
   status?: string[];
@@ -54,6 +69,9 @@ export interface CampaignTableOptions {
   userId?: string;
   userRole?: string;
   propertyId?: string;
+  customerId?: string; // Google Ads customer (default: the MCP server's configured customer)
+  includeAttribution?: boolean; // Join GA4 conversions and revenue (ATTRIBUTION_COLUMNS)
+  attributionWindowDays?: 1 | 3 | 7 | 14 | 30;
 }
 
 export interface CampaignTableData {
@@ -71,6 +89,23 @@ export interface CampaignTableData {
   hasPreviousPage: boolean;
 }
 
+// Per-campaign totals of the get_campaign_attribution tool used by the table
+interface AttributionTotals {
+  attributedConversions: number;
+  attributedRevenue: number;
+  cpa: number;
+  roas: number;
+  revenuePerClick: number;
+}
+
+// Table columns named differently by the list_campaigns tool
+const MCP_SORT_FIELDS: Partial<Record<keyof CampaignData, string>> = {
+  type: 'campaignType',
+  spend: 'cost',
+  cpc: 'averageCpc',
+  roas: 'returnOnAdSpend'
+};
+
 /**
  * Data fetcher for campaign table with advanced functionality
  */
@@ -94,10 +129,13 @@ export class CampaignTableDataFetcher {
       forceRefresh = false,
       userId,
       userRole,
-      propertyId
+      propertyId,
+      customerId,
+      includeAttribution,
+      attributionWindowDays
     } = options;
 
-    const cacheKey = `campaigns-${JSON.stringify({ filters, sorting, pagination, propertyId })}`;
+    const cacheKey = `campaigns-${JSON.stringify({ filters, sorting, pagination, propertyId, customerId, includeAttribution, attributionWindowDays })}`;
 
     // Check cache first
     if (!forceRefresh) {
@@ -159,41 +197,34 @@ export class CampaignTableDataFetcher {
   }
 
   /**
-   * Fetch campaigns from MCP
+   * Fetch campaigns from the google-ads-mcp list_campaigns tool
    */
   private async fetchFromMCP(options: CampaignTableOptions): Promise<CampaignTableData> {
-    const { filters, sorting, pagination, propertyId } = options;
+    const { filters, sorting, pagination, customerId } = options;
 
     // Build MCP request parameters
     const mcpParams: any = {
-      propertyId,
-      includeMetrics: true,
-      includeSegments: true
+      customerId
     };
 
-    // Add filtering parameters
+    // Add filtering parameters (budget and spend ranges are not filtered by the tool)
     if (filters?.search) {
-      mcpParams.searchQuery = filters.search;
+      mcpParams.search = filters.search;
     }
     if (filters?.status?.length) {
-      mcpParams.statusFilter = filters.status;
+      mcpParams.status = filters.status;
     }
     if (filters?.type?.length) {
-      mcpParams.typeFilter = filters.type;
+      mcpParams.type = filters.type;
     }
     if (filters?.dateRange) {
-      mcpParams.dateRange = filters.dateRange;
-    }
-    if (filters?.budgetRange) {
-      mcpParams.budgetRange = filters.budgetRange;
-    }
-    if (filters?.spendRange) {
-      mcpParams.spendRange = filters.spendRange;
+      mcpParams.startDate = filters.dateRange.startDate;
+      mcpParams.endDate = filters.dateRange.endDate;
     }
 
     // Add sorting parameters
     if (sorting) {
-      mcpParams.sortBy = sorting.column;
+      mcpParams.sortBy = MCP_SORT_FIELDS[sorting.column] || sorting.column;
       mcpParams.sortDirection = sorting.direction;
     }
 
@@ -204,20 +235,20 @@ export class CampaignTableDataFetcher {
     }
 
     // Execute MCP request
-    const response = await this.mcpClient.callTool('google-ads-get-campaigns-advanced', mcpParams);
+    const response = await this.mcpClient.callTool('list_campaigns', mcpParams);
 
-    // Transform MCP response to table format
+    // Transform MCP response to table format (amounts are already in account currency)
     const campaigns: CampaignData[] = response.campaigns?.map((campaign: any) => ({
       id: campaign.id,
       name: campaign.name,
       status: campaign.status,
       type: campaign.campaignType || campaign.type,
-      budget: campaign.budget?.amountMicros ? campaign.budget.amountMicros / 1000000 : 0,
-      spend: campaign.metrics?.cost ? campaign.metrics.cost / 1000000 : 0,
+      budget: campaign.budget || 0,
+      spend: campaign.metrics?.cost || 0,
       impressions: campaign.metrics?.impressions || 0,
       clicks: campaign.metrics?.clicks || 0,
       ctr: campaign.metrics?.ctr || 0,
-      cpc: campaign.metrics?.averageCpc ? campaign.metrics.averageCpc / 1000000 : 0,
+      cpc: campaign.metrics?.averageCpc || 0,
       conversions: campaign.metrics?.conversions || 0,
       conversionRate: campaign.metrics?.conversionRate || 0,
       roas: campaign.metrics?.returnOnAdSpend || 0,
@@ -226,6 +257,10 @@ export class CampaignTableDataFetcher {
       lastModified: campaign.lastModified || new Date().toISOString()
     })) || [];
 
+    const attributionError = options.includeAttribution && campaigns.length > 0
+      ? await this.addAttribution(campaigns, options)
+      : undefined;
+
     const totalCount = response.totalCount || campaigns.length;
     const currentPage = pagination?.page || 1;
     const pageSize = pagination?.pageSize || 25;
@@ -239,6 +274,7 @@ export class CampaignTableDataFetcher {
       totalPages,
       pageSize,
       loading: false,
+      ...(attributionError && { error: attributionError }),
       source: 'mcp',
       lastUpdated: new Date(),
       hasNextPage: currentPage < totalPages,
@@ -246,6 +282,43 @@ export class CampaignTableDataFetcher {
     };
   }
 
+  /**
+   * Add GA4-attributed conversions, revenue, CPA and ROAS to the page's campaigns
+   *
+   * Attribution is an extra column set: when it fails the campaigns are
+   * still returned and the error is reported instead.
+   */
+  private async addAttribution(campaigns: CampaignData[], options: CampaignTableOptions): Promise<string | undefined> {
+    const { filters, customerId, propertyId, attributionWindowDays } = options;
+
+    try {
+      const response = await this.mcpClient.callTool('get_campaign_attribution', {
+        customerId,
+        propertyId,
+        startDate: filters?.dateRange?.startDate,
+        endDate: filters?.dateRange?.endDate,
+        campaignIds: campaigns.map(campaign => campaign.id),
+        attributionWindowDays
+      });
+
+      const attributed = new Map<string, AttributionTotals>(
+        (response.campaigns || []).map((campaign: { id: string; totals: AttributionTotals }) => [String(campaign.id), campaign.totals])
+      );
+      for (const campaign of campaigns) {
+        const totals = attributed.get(campaign.id);
+        campaign.attributedConversions = totals?.attributedConversions || 0;
+        campaign.attributedRevenue = totals?.attributedRevenue || 0;
+        campaign.trueCpa = totals?.cpa || 0;
+        campaign.trueRoas = totals?.roas || 0;
+        campaign.revenuePerClick = totals?.revenuePerClick || 0;
+      }
+      return undefined;
+    } catch (error) {
+      console.warn('GA4 attribution fetch failed for campaigns:', error);
+      return `Attribution unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  }
+
   /**
    * Get fallback mock data
    */
@@ -586,6 +659,11 @@ export class CampaignTableDataFetcher {
       { key: 'conversions', label: 'Conversions' },
       { key: 'conversionRate', label: 'Conversion Rate (%)' },
       { key: 'roas', label: 'ROAS' },
+      { key: 'attributedConversions', label: 'GA4 Conversions' },
+      { key: 'attributedRevenue', label: 'GA4 Revenue' },
+      { key: 'trueCpa', label: 'True CPA' },
+      { key: 'trueRoas', label: 'True ROAS' },
+      { key: 'revenuePerClick', label: 'Revenue per Click' },
       { key: 'startDate', label: 'Start Date' },
       { key: 'endDate', label: 'End Date' },
       { key: 'lastModified', label: 'Last Modified' }
@@ -2,29 +2,108 @@
  * Simple HTTP-based MCP Client
  * 
  * This client provides a simpler alternative to SSE/WebSocket transports
- * by using direct HTTP API calls to the MCP server.
+ * by using direct HTTP API calls to the MCP server. Absolute http(s) URLs
+ * point at the MCP bridge, which speaks JSON-RPC 2.0 on /mcp/rpc; relative
+ * URLs point at the Next.js API route.
  */
 
 export interface HTTPMCPClientConfig {
   serverUrl: string;
   timeout?: number;
+  headers?: Record<string, string>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface ToolCallResult {
+  content?: Array<{ type: string; text?: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Error returned by the bridge as a JSON-RPC error object
+ */
+export class JsonRpcRequestError extends Error {
+  constructor(public code: number, message: string, public data?: unknown, public traceId?: string) {
+    super(message);
+    this.name = 'JsonRpcRequestError';
+  }
+}
+
+/**
+ * Start a W3C trace for one bridge request; the bridge continues it down to the GA4 calls
+ */
+function createTraceparent(): { traceId: string; traceparent: string } {
+  const hex = (bytes: number) => Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  const traceId = hex(16);
+  return { traceId, traceparent: `00-${traceId}-${hex(8)}-01` };
 }
 
 export class HTTPMCPClient {
   private config: HTTPMCPClientConfig;
   private connected: boolean = false;
+  private nextRequestId: number = 1;
 
   constructor(config: HTTPMCPClientConfig) {
     this.config = {
       serverUrl: config.serverUrl,
-      timeout: config.timeout || 30000
+      timeout: config.timeout || 30000,
+      headers: config.headers || {}
     };
   }
 
+  /**
+   * Whether the server URL is the MCP bridge rather than the Next.js API route
+   */
+  private get usesJsonRpc(): boolean {
+    return /^https?:\/\//.test(this.config.serverUrl);
+  }
+
+  /**
+   * Send one JSON-RPC request to the bridge and return its result
+   */
+  private async rpc(method: string, params?: Record<string, unknown>): Promise<unknown> {
+    const id = this.nextRequestId++;
+    const { traceId, traceparent } = createTraceparent();
+    const response = await fetch(`${this.config.serverUrl.replace(/\/$/, '')}/mcp/rpc`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        traceparent,
+        ...this.config.headers
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id, method, ...(params && { params }) }),
+      signal: AbortSignal.timeout(this.config.timeout!)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status} (trace ${traceId})`);
+    }
+
+    const message: JsonRpcResponse = await response.json();
+    if (message.error) {
+      throw new JsonRpcRequestError(message.error.code, message.error.message, message.error.data, traceId);
+    }
+    return message.result;
+  }
+
   /**
    * Connect to the MCP server (verify it's available)
    */
   async connect(): Promise<void> {
+    if (this.usesJsonRpc) {
+      await this.rpc('ping');
+      this.connected = true;
+      return;
+    }
+
     try {
       // For Next.js API routes, we'll check the tools endpoint instead of health
       const response = await fetch(`${this.config.serverUrl}`, {
@@ -62,6 +141,10 @@ export class HTTPMCPClient {
       throw new Error('Not connected to MCP server');
     }
 
+    if (this.usesJsonRpc) {
+      return this.rpc('tools/list');
+    }
+
     const response = await fetch(`${this.config.serverUrl}`, {
       method: 'GET',
       headers: {
@@ -91,6 +174,10 @@ export class HTTPMCPClient {
       throw new Error('Not connected to MCP server');
     }
 
+    if (this.usesJsonRpc) {
+      return parseToolResult(await this.rpc('tools/call', { name, arguments: args }) as ToolCallResult);
+    }
+
     const response = await fetch(`${this.config.serverUrl}`, {
       method: 'POST',
       headers: {
@@ -125,11 +212,32 @@ export class HTTPMCPClient {
   }
 }
 
+/**
+ * Unwrap an MCP tool result: the bridge returns the tool's data as JSON text content
+ */
+function parseToolResult(result: ToolCallResult): unknown {
+  const text = (result.content || [])
+    .filter(block => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+
+  if (result.isError) {
+    throw new Error(text || 'Tool call failed');
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
 /**
  * Create a simple HTTP MCP client
  */
-export function createHTTPMCPClient(serverUrl?: string): HTTPMCPClient {
+export function createHTTPMCPClient(serverUrl?: string, headers?: Record<string, string>): HTTPMCPClient {
   return new HTTPMCPClient({
-    serverUrl: serverUrl || '/api/mcp'
+    serverUrl: serverUrl || '/api/mcp',
+    headers
   });
 }
\ No newline at end of file
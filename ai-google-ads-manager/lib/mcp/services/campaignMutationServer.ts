@@ -0,0 +1,233 @@
+/**
+ * Campaign Mutation Server Wiring
+ *
+ * Server-side pieces of the campaign change API routes: the signed-in
+ * actor with their users.role, the account checks, and a
+ * CampaignMutationService writing through a stdio connection to the
+ * google-ads-mcp server. Users reach the accounts they own and the Google
+ * Ads customers linked to them, admins reach every account. The service
+ * client, account checks and MCP server connections are shared with the
+ * anomaly and recommendation routes.
+ */
+
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import path from 'path';
+import type { Account } from '@/lib/supabase';
+import { MCPGoogleAdsMutateAdapter } from './googleAdsMutateAdapter';
+import {
+  CampaignMutationService,
+  CampaignMutationError,
+  SupabaseCampaignChangeStore,
+  ChangeActor,
+  CampaignChangeProposal,
+} from './campaignMutationService';
+
+let serviceClient: SupabaseClient | null = null;
+let mutationService: Promise<CampaignMutationService> | null = null;
+
+/**
+ * Service-role Supabase client shared by the server-side services
+ *
+ * The services bypass RLS and check access themselves, so there is no
+ * fallback to the anon key.
+ */
+export function getServiceClient(): SupabaseClient {
+  if (!serviceClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_KEY;
+    if (!url || !serviceKey) {
+      throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_KEY environment variables are required');
+    }
+    serviceClient = createClient(url, serviceKey);
+  }
+  return serviceClient;
+}
+
+/**
+ * The signed-in user and their role, or null without a session
+ */
+export async function resolveChangeActor(): Promise<ChangeActor | null> {
+  const cookieStore = await cookies();
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set() {
+          // Route handlers only read the session
+        },
+        remove() {
+          // Route handlers only read the session
+        },
+      },
+    }
+  );
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return null;
+  }
+
+  const { data: profile } = await getServiceClient().from('users').select('role').eq('id', user.id).maybeSingle();
+  return { id: user.id, email: user.email, role: profile?.role || 'user' };
+}
+
+/**
+ * An account the actor may work with, or null
+ */
+export async function loadActorAccount(actor: ChangeActor, accountId: string): Promise<Account | null> {
+  const { data: account, error } = await getServiceClient().from('accounts').select('*').eq('id', accountId).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load account ${accountId}: ${error.message}`);
+  }
+  return account && (account.user_id === actor.id || actor.role === 'admin') ? account as Account : null;
+}
+
+/**
+ * A Google Ads customer id as accounts.google_ads_customer_id holds it, e.g. 1234567890 for 123-456-7890
+ */
+export function normalizeCustomerId(customerId: string): string {
+  return String(customerId).trim().replace(/-/g, '');
+}
+
+/**
+ * Whether a Google Ads customer is the one linked to the account
+ */
+export function isAccountCustomer(account: Account, customerId: string): boolean {
+  return Boolean(account.google_ads_customer_id) && normalizeCustomerId(customerId) === account.google_ads_customer_id;
+}
+
+/**
+ * An account the actor may work with that is linked to the Google Ads customer, or null
+ */
+export async function loadActorCustomerAccount(actor: ChangeActor, customerId: string): Promise<Account | null> {
+  let query = getServiceClient().from('accounts').select('*').eq('google_ads_customer_id', normalizeCustomerId(customerId));
+  if (actor.role !== 'admin') {
+    query = query.eq('user_id', actor.id);
+  }
+
+  const { data, error } = await query.limit(1);
+  if (error) {
+    throw new Error(`Failed to load the account of customer ${customerId}: ${error.message}`);
+  }
+  return (data?.[0] as Account | undefined) || null;
+}
+
+/**
+ * Google Ads customers linked to the accounts the actor owns
+ */
+export async function listActorCustomerIds(actor: ChangeActor): Promise<string[]> {
+  const { data, error } = await getServiceClient()
+    .from('accounts')
+    .select('google_ads_customer_id')
+    .eq('user_id', actor.id)
+    .not('google_ads_customer_id', 'is', null);
+  if (error) {
+    throw new Error(`Failed to list linked Google Ads customers: ${error.message}`);
+  }
+  return (data || []).map(account => account.google_ads_customer_id as string);
+}
+
+/**
+ * Ids of the accounts the actor owns
+ */
+export async function listActorAccountIds(actor: ChangeActor): Promise<string[]> {
+  const { data, error } = await getServiceClient().from('accounts').select('id').eq('user_id', actor.id);
+  if (error) {
+    throw new Error(`Failed to list accounts: ${error.message}`);
+  }
+  return (data || []).map(account => account.id as string);
+}
+
+export type MCPServerName = 'ga4-analytics-mcp' | 'google-ads-mcp';
+
+const serverClients = new Map<MCPServerName, Promise<Client>>();
+
+/**
+ * Shared stdio connection to a sibling MCP server, opened on first use
+ */
+export function getMCPServerClient(server: MCPServerName): Promise<Client> {
+  let client = serverClients.get(server);
+  if (!client) {
+    client = (async () => {
+      const connection = new Client({ name: `ai-ad-manager-${server}`, version: '1.0.0' }, { capabilities: {} });
+      await connection.connect(new StdioClientTransport({
+        command: 'node',
+        args: ['dist/index.js'],
+        cwd: path.join(process.cwd(), '..', server),
+        env: Object.fromEntries(
+          Object.entries(process.env).filter((entry): entry is [string, string] => entry[1] !== undefined)
+        ),
+      }));
+      console.log(`[MCP Servers] Connected to ${server}`);
+      return connection;
+    })().catch(error => {
+      serverClients.delete(server);
+      throw error;
+    });
+    serverClients.set(server, client);
+  }
+  return client;
+}
+
+/**
+ * Shared connection to a sibling MCP server, or null while it cannot be reached
+ */
+export async function getOptionalMCPServerClient(server: MCPServerName): Promise<Client | null> {
+  try {
+    return await getMCPServerClient(server);
+  } catch (error) {
+    console.warn(`[MCP Servers] ${server} is unavailable:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Shared service; the google-ads-mcp connection is opened on first use
+ */
+export function getCampaignMutationService(): Promise<CampaignMutationService> {
+  if (!mutationService) {
+    mutationService = getMCPServerClient('google-ads-mcp').then(client => new CampaignMutationService(
+      new MCPGoogleAdsMutateAdapter(client),
+      new SupabaseCampaignChangeStore(getServiceClient())
+    )).catch(error => {
+      mutationService = null;
+      throw error;
+    });
+  }
+  return mutationService;
+}
+
+/**
+ * JSON error response for a failed campaign change request
+ */
+export function campaignChangeErrorResponse(error: unknown): NextResponse {
+  if (error instanceof CampaignMutationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details ?? null },
+      { status: error.status }
+    );
+  }
+
+  console.error('[Campaign Changes] Request failed:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 }
+  );
+}
+
+/**
+ * JSON response for a proposal: 202 while it waits for approval, 502 when Google Ads refused it
+ */
+export function campaignChangeResponse(proposal: CampaignChangeProposal): NextResponse {
+  const status = proposal.status === 'pending_approval' ? 202 : proposal.status === 'failed' ? 502 : 200;
+  return NextResponse.json({ proposal }, { status });
+}
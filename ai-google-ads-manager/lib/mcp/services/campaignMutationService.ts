@@ -0,0 +1,428 @@
+/**
+ * Campaign Mutation Service
+ *
+ * Stages campaign changes (status, daily budget, bidding target) as
+ * proposals. A proposal is previewed through the mutate adapter so it
+ * carries the diff Google Ads validated; budget and target changes above
+ * the approval threshold, and every change proposed without the manager
+ * role, wait for a second approver with the manager role (admins included,
+ * as in withManagerRole). Every step of a proposal and the outcome of its
+ * mutation is appended to the audit log.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { User } from '@/lib/supabase';
+import { MCPToolCallError } from './mcpToolCall';
+import {
+  GoogleAdsMutateAdapter,
+  CampaignChangeRequest,
+  CampaignMutationResult,
+  CampaignSettings,
+  CampaignSettingChange,
+} from './googleAdsMutateAdapter';
+
+export type CampaignChangeProposalStatus = 'pending_approval' | 'approved' | 'rejected' | 'applied' | 'failed';
+
+export type CampaignChangeAuditAction = 'proposed' | 'approved' | 'rejected' | 'applied' | 'failed';
+
+export interface ChangeActor {
+  id: string;
+  role: User['role'];
+  email?: string;
+}
+
+// A row of campaign_change_proposals; operation matches the sync worker's QueuedOperation types
+export interface CampaignChangeProposal {
+  id: string;
+  operation: 'CREATE' | 'UPDATE' | 'DELETE';
+  customer_id: string;
+  campaign_id: string;
+  campaign_name: string;
+  request: CampaignChangeRequest;
+  before: CampaignSettings;
+  diff: CampaignSettingChange[];
+  status: CampaignChangeProposalStatus;
+  requires_approval: boolean;
+  approval_reason: string | null;
+  proposed_by: string;
+  approved_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  applied_at: string | null;
+  resource_names: string[];
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewCampaignChangeProposal = Omit<CampaignChangeProposal, 'id' | 'created_at' | 'updated_at'>;
+
+// A row of campaign_change_audit_log
+export interface CampaignChangeAuditEvent {
+  proposal_id: string;
+  action: CampaignChangeAuditAction;
+  actor_id: string | null;
+  customer_id: string;
+  campaign_id: string;
+  details: Record<string, unknown>;
+}
+
+export interface CampaignChangeFilter {
+  status?: CampaignChangeProposalStatus[];
+  campaignId?: string;
+  customerId?: string;
+  // Only proposals of these customers
+  customerIds?: string[];
+  limit?: number;
+}
+
+export interface CampaignChangeStore {
+  insertProposal(proposal: NewCampaignChangeProposal): Promise<CampaignChangeProposal>;
+  getProposal(id: string): Promise<CampaignChangeProposal | null>;
+  // Only updates a proposal still in expectedStatus, so concurrent decisions cannot both win
+  updateProposal(
+    id: string,
+    expectedStatus: CampaignChangeProposalStatus,
+    updates: Partial<NewCampaignChangeProposal>
+  ): Promise<CampaignChangeProposal | null>;
+  listProposals(filter: CampaignChangeFilter): Promise<CampaignChangeProposal[]>;
+  appendAudit(event: CampaignChangeAuditEvent): Promise<void>;
+}
+
+export interface CampaignChangePolicy {
+  // Budget and target changes moving more than this percentage need approval
+  approvalThresholdPercent: number;
+}
+
+export class CampaignMutationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'CampaignMutationError';
+  }
+}
+
+const APPROVER_ROLES: Array<User['role']> = ['admin', 'manager'];
+
+const DEFAULT_APPROVAL_THRESHOLD_PERCENT = 20;
+
+/**
+ * Approval policy from CAMPAIGN_CHANGE_APPROVAL_THRESHOLD_PERCENT (default: 20)
+ */
+export function loadCampaignChangePolicy(env: Record<string, string | undefined> = process.env): CampaignChangePolicy {
+  const threshold = parseFloat(env.CAMPAIGN_CHANGE_APPROVAL_THRESHOLD_PERCENT || '');
+  return {
+    approvalThresholdPercent: Number.isFinite(threshold) && threshold >= 0 ? threshold : DEFAULT_APPROVAL_THRESHOLD_PERCENT,
+  };
+}
+
+/**
+ * Whether a diff needs a second approver; status changes only do when the
+ * proposer is not a manager
+ */
+export function evaluateApproval(
+  diff: CampaignSettingChange[],
+  policy: CampaignChangePolicy,
+  proposerRole?: User['role']
+): { required: boolean; reason: string | null } {
+  const roleReasons = proposerRole && !APPROVER_ROLES.includes(proposerRole)
+    ? [`proposed by a ${proposerRole} without the manager role`]
+    : [];
+  const reasons = roleReasons.concat(diff
+    .filter(change => change.field !== 'status')
+    .flatMap(change => {
+      const from = Number(change.from);
+      if (!from) {
+        return [`${change.field} is set for the first time`];
+      }
+      const percent = Math.abs((Number(change.to) - from) / from) * 100;
+      return percent > policy.approvalThresholdPercent
+        ? [`${change.field} changes by ${Math.round(percent * 10) / 10}% (threshold ${policy.approvalThresholdPercent}%)`]
+        : [];
+    }));
+
+  return { required: reasons.length > 0, reason: reasons.length > 0 ? reasons.join('; ') : null };
+}
+
+function toMutationError(error: unknown): CampaignMutationError {
+  if (error instanceof CampaignMutationError) {
+    return error;
+  }
+  if (error instanceof MCPToolCallError) {
+    const status = error.code === 'INVALID_TOOL_PARAMS' || error.code === 'GOOGLE_ADS_MUTATE_REJECTED' ? 400 : 502;
+    return new CampaignMutationError(error.message, error.code, status, error.details);
+  }
+  return new CampaignMutationError(error instanceof Error ? error.message : String(error), 'GOOGLE_ADS_API_ERROR', 502);
+}
+
+/**
+ * Proposal lifecycle: propose -> (pending_approval -> approve | reject) -> applied | failed
+ */
+export class CampaignMutationService {
+  constructor(
+    private adapter: GoogleAdsMutateAdapter,
+    private store: CampaignChangeStore,
+    private policy: CampaignChangePolicy = loadCampaignChangePolicy()
+  ) {}
+
+  /**
+   * Stage a change; changes that need no approval are applied right away
+   */
+  async propose(change: CampaignChangeRequest, actor: ChangeActor): Promise<CampaignChangeProposal> {
+    const preview = await this.adapter.preview(change).catch(error => {
+      throw toMutationError(error);
+    });
+    if (preview.changes.length === 0) {
+      throw new CampaignMutationError(`Campaign ${change.campaignId} already has these settings`, 'NO_CHANGES', 400);
+    }
+
+    const approval = evaluateApproval(preview.changes, this.policy, actor.role);
+    const proposal = await this.store.insertProposal({
+      operation: 'UPDATE',
+      customer_id: preview.customerId,
+      campaign_id: preview.campaignId,
+      campaign_name: preview.campaignName,
+      request: { ...change, customerId: preview.customerId },
+      before: preview.before,
+      diff: preview.changes,
+      status: approval.required ? 'pending_approval' : 'approved',
+      requires_approval: approval.required,
+      approval_reason: approval.reason,
+      proposed_by: actor.id,
+      approved_by: null,
+      decided_at: null,
+      decision_note: null,
+      applied_at: null,
+      resource_names: [],
+      error: null,
+    });
+
+    await this.audit(proposal, 'proposed', actor, {
+      diff: proposal.diff,
+      requiresApproval: approval.required,
+      reason: approval.reason,
+      thresholdPercent: this.policy.approvalThresholdPercent,
+    });
+
+    return approval.required ? proposal : this.apply(proposal, actor);
+  }
+
+  /**
+   * Approve a pending proposal as its second approver, then apply it
+   */
+  async approve(proposalId: string, actor: ChangeActor, note?: string): Promise<CampaignChangeProposal> {
+    const proposal = await this.getPending(proposalId);
+    if (!APPROVER_ROLES.includes(actor.role)) {
+      throw new CampaignMutationError('Only managers can approve campaign changes', 'FORBIDDEN', 403);
+    }
+    if (proposal.proposed_by === actor.id) {
+      throw new CampaignMutationError('Campaign changes need a second approver other than the proposer', 'FORBIDDEN', 403);
+    }
+
+    const approved = await this.decide(proposal, 'approved', actor, note);
+    await this.audit(approved, 'approved', actor, { note: note || null });
+    return this.apply(approved, actor);
+  }
+
+  /**
+   * Reject a pending proposal; managers and the proposer may reject
+   */
+  async reject(proposalId: string, actor: ChangeActor, note?: string): Promise<CampaignChangeProposal> {
+    const proposal = await this.getPending(proposalId);
+    if (!APPROVER_ROLES.includes(actor.role) && proposal.proposed_by !== actor.id) {
+      throw new CampaignMutationError('Only managers or the proposer can reject campaign changes', 'FORBIDDEN', 403);
+    }
+
+    const rejected = await this.decide(proposal, 'rejected', actor, note);
+    await this.audit(rejected, 'rejected', actor, { note: note || null });
+    return rejected;
+  }
+
+  async list(filter: CampaignChangeFilter = {}): Promise<CampaignChangeProposal[]> {
+    if (filter.customerIds?.length === 0) {
+      return [];
+    }
+    return this.store.listProposals(filter);
+  }
+
+  async get(proposalId: string): Promise<CampaignChangeProposal> {
+    const proposal = await this.store.getProposal(proposalId);
+    if (!proposal) {
+      throw new CampaignMutationError(`Campaign change ${proposalId} not found`, 'NOT_FOUND', 404);
+    }
+    return proposal;
+  }
+
+  private async getPending(proposalId: string): Promise<CampaignChangeProposal> {
+    const proposal = await this.get(proposalId);
+    if (proposal.status !== 'pending_approval') {
+      throw new CampaignMutationError(`Campaign change ${proposalId} is ${proposal.status}, not pending approval`, 'INVALID_STATE', 409);
+    }
+    return proposal;
+  }
+
+  private async decide(
+    proposal: CampaignChangeProposal,
+    status: 'approved' | 'rejected',
+    actor: ChangeActor,
+    note?: string
+  ): Promise<CampaignChangeProposal> {
+    const decided = await this.store.updateProposal(proposal.id, 'pending_approval', {
+      status,
+      approved_by: status === 'approved' ? actor.id : null,
+      decided_at: new Date().toISOString(),
+      decision_note: note || null,
+    });
+    if (!decided) {
+      throw new CampaignMutationError(`Campaign change ${proposal.id} was decided by someone else`, 'INVALID_STATE', 409);
+    }
+    return decided;
+  }
+
+  /**
+   * Apply an approved proposal, unless the campaign changed since it was proposed
+   *
+   * A drifted campaign or a refused mutation marks the proposal failed; a
+   * drift is then thrown as a 409. A failure to record either is only
+   * logged, so the caller still sees what went wrong with the change. Once
+   * Google Ads took the change, a failure to record it is thrown as its own
+   * error instead.
+   */
+  private async apply(proposal: CampaignChangeProposal, actor: ChangeActor): Promise<CampaignChangeProposal> {
+    let result: CampaignMutationResult;
+    try {
+      const current = await this.adapter.preview(proposal.request);
+      const drifted = proposal.diff.filter(change => (current.before[change.field] ?? null) !== change.from);
+      if (drifted.length > 0) {
+        throw new CampaignMutationError(
+          `Campaign ${proposal.campaign_id} changed since the proposal: ${drifted.map(change => change.field).join(', ')}`,
+          'CAMPAIGN_DRIFTED',
+          409,
+          { proposed: proposal.before, current: current.before }
+        );
+      }
+
+      result = await this.adapter.apply(proposal.request);
+    } catch (error) {
+      const mutationError = toMutationError(error);
+      const failure = { status: 'failed' as const, error: `${mutationError.code}: ${mutationError.message}` };
+      let failed: CampaignChangeProposal | null = null;
+      try {
+        failed = await this.store.updateProposal(proposal.id, 'approved', failure);
+        await this.audit(proposal, 'failed', actor, {
+          code: mutationError.code,
+          message: mutationError.message,
+          details: mutationError.details ?? null,
+        });
+      } catch (recordError) {
+        // The caller needs the mutation's error, not the store's
+        console.error(`[Campaign Changes] Failed to record the failure of change ${proposal.id}:`, recordError);
+      }
+      if (mutationError.code === 'CAMPAIGN_DRIFTED') {
+        throw mutationError;
+      }
+      return failed || { ...proposal, ...failure };
+    }
+
+    try {
+      const applied = await this.store.updateProposal(proposal.id, 'approved', {
+        status: 'applied',
+        applied_at: new Date().toISOString(),
+        resource_names: result.resourceNames,
+      });
+      await this.audit(proposal, 'applied', actor, { changes: result.changes, after: result.after, resourceNames: result.resourceNames });
+      return applied || proposal;
+    } catch (error) {
+      throw new CampaignMutationError(
+        `Campaign change ${proposal.id} was applied to Google Ads but could not be recorded: ${error instanceof Error ? error.message : String(error)}`,
+        'APPLIED_NOT_RECORDED',
+        500,
+        { proposalId: proposal.id, resourceNames: result.resourceNames }
+      );
+    }
+  }
+
+  private audit(
+    proposal: CampaignChangeProposal,
+    action: CampaignChangeAuditAction,
+    actor: ChangeActor,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    return this.store.appendAudit({
+      proposal_id: proposal.id,
+      action,
+      actor_id: actor.id,
+      customer_id: proposal.customer_id,
+      campaign_id: proposal.campaign_id,
+      details,
+    });
+  }
+}
+
+/**
+ * Proposals and audit log in Supabase (campaign-change-audit.sql)
+ *
+ * Expects a service-role client: access is checked by the API routes.
+ */
+export class SupabaseCampaignChangeStore implements CampaignChangeStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async insertProposal(proposal: NewCampaignChangeProposal): Promise<CampaignChangeProposal> {
+    const { data, error } = await this.supabase.from('campaign_change_proposals').insert(proposal).select().single();
+    if (error) {
+      throw new Error(`Failed to store campaign change: ${error.message}`);
+    }
+    return data as CampaignChangeProposal;
+  }
+
+  async getProposal(id: string): Promise<CampaignChangeProposal | null> {
+    const { data, error } = await this.supabase.from('campaign_change_proposals').select('*').eq('id', id).maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load campaign change ${id}: ${error.message}`);
+    }
+    return data as CampaignChangeProposal | null;
+  }
+
+  async updateProposal(
+    id: string,
+    expectedStatus: CampaignChangeProposalStatus,
+    updates: Partial<NewCampaignChangeProposal>
+  ): Promise<CampaignChangeProposal | null> {
+    const { data, error } = await this.supabase
+      .from('campaign_change_proposals')
+      .update(updates)
+      .eq('id', id)
+      .eq('status', expectedStatus)
+      .select()
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to update campaign change ${id}: ${error.message}`);
+    }
+    return data as CampaignChangeProposal | null;
+  }
+
+  async listProposals(filter: CampaignChangeFilter): Promise<CampaignChangeProposal[]> {
+    let query = this.supabase.from('campaign_change_proposals').select('*');
+    if (filter.status?.length) query = query.in('status', filter.status);
+    if (filter.campaignId) query = query.eq('campaign_id', filter.campaignId);
+    if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+    if (filter.customerIds) query = query.in('customer_id', filter.customerIds);
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(filter.limit || 50);
+    if (error) {
+      throw new Error(`Failed to list campaign changes: ${error.message}`);
+    }
+    return (data || []) as CampaignChangeProposal[];
+  }
+
+  async appendAudit(event: CampaignChangeAuditEvent): Promise<void> {
+    const { error } = await this.supabase.from('campaign_change_audit_log').insert(event);
+    if (error) {
+      throw new Error(`Failed to write campaign change audit log: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Google Ads Mutate Adapter
+ *
+ * Writes campaign changes through the google-ads-mcp update_campaign tool.
+ * preview() lets Google Ads validate a change and returns its diff without
+ * applying it; apply() performs it. Tool errors are rethrown by
+ * callJsonTool with the MCP error code, e.g. GOOGLE_ADS_MUTATE_REJECTED or
+ * INVALID_TOOL_PARAMS.
+ */
+
+import { callJsonTool, MCPToolCaller } from './mcpToolCall';
+
+export type CampaignChangeStatus = 'ENABLED' | 'PAUSED';
+
+// The settings a campaign change may touch; amounts are in the account currency
+export interface CampaignChangeRequest {
+  customerId?: string;
+  campaignId: string;
+  status?: CampaignChangeStatus;
+  dailyBudget?: number;
+  targetCpa?: number;
+  targetRoas?: number;
+}
+
+export interface CampaignSettings {
+  status: 'ENABLED' | 'PAUSED' | 'REMOVED';
+  dailyBudget: number;
+  biddingStrategyType: string;
+  targetCpa?: number;
+  targetRoas?: number;
+}
+
+export interface CampaignSettingChange {
+  field: 'status' | 'dailyBudget' | 'targetCpa' | 'targetRoas';
+  from: string | number | null;
+  to: string | number;
+}
+
+export interface CampaignMutationResult {
+  customerId: string;
+  campaignId: string;
+  campaignName: string;
+  validateOnly: boolean;
+  before: CampaignSettings;
+  after: CampaignSettings;
+  changes: CampaignSettingChange[];
+  resourceNames: string[];
+}
+
+export interface GoogleAdsMutateAdapter {
+  preview(change: CampaignChangeRequest): Promise<CampaignMutationResult>;
+  apply(change: CampaignChangeRequest): Promise<CampaignMutationResult>;
+}
+
+/**
+ * Mutate adapter over an MCP connection to google-ads-mcp
+ */
+export class MCPGoogleAdsMutateAdapter implements GoogleAdsMutateAdapter {
+  constructor(private client: MCPToolCaller) {}
+
+  preview(change: CampaignChangeRequest): Promise<CampaignMutationResult> {
+    return this.updateCampaign(change, true);
+  }
+
+  apply(change: CampaignChangeRequest): Promise<CampaignMutationResult> {
+    return this.updateCampaign(change, false);
+  }
+
+  private updateCampaign(change: CampaignChangeRequest, validateOnly: boolean): Promise<CampaignMutationResult> {
+    return callJsonTool<CampaignMutationResult>(this.client, 'update_campaign', { ...change, validateOnly });
+  }
+}
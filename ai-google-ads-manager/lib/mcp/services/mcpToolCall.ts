@@ -0,0 +1,55 @@
+/**
+ * MCP Tool Calls
+ *
+ * JSON results of tools on the sibling MCP servers. Tool errors
+ * ("Error [CODE]: message\nDetails: {...}") are rethrown with their MCP
+ * error code, e.g. GA4_QUOTA_EXCEEDED or GOOGLE_ADS_CUSTOMER_ACCESS_DENIED.
+ */
+
+// The part of the MCP SDK Client the services use
+export interface MCPToolCaller {
+  callTool(request: { name: string; arguments?: Record<string, unknown> }): Promise<unknown>;
+}
+
+export class MCPToolCallError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'MCPToolCallError';
+  }
+}
+
+/**
+ * Call an MCP tool and parse its JSON result
+ */
+export async function callJsonTool<T>(client: MCPToolCaller, name: string, args: Record<string, unknown>): Promise<T> {
+  const response = await client.callTool({ name, arguments: args }) as {
+    content?: Array<{ type: string; text?: string }>;
+    isError?: boolean;
+  };
+  const text = response.content?.find(item => item.type === 'text')?.text || '';
+
+  if (response.isError) {
+    const match = text.match(/^Error \[([A-Z_]+)\]: ([^\n]*)(?:\nDetails: ([\s\S]*))?$/);
+    if (!match) {
+      throw new MCPToolCallError(text || `${name} failed`, 'UNKNOWN_ERROR', { tool: name });
+    }
+
+    let details: unknown;
+    try {
+      details = match[3] ? JSON.parse(match[3]) : undefined;
+    } catch {
+      details = match[3];
+    }
+    throw new MCPToolCallError(match[2], match[1], { tool: name, details });
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new MCPToolCallError(`${name} returned an unreadable result`, 'INVALID_RESPONSE', { tool: name });
+  }
+}
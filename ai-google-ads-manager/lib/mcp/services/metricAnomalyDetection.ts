@@ -0,0 +1,519 @@
+/**
+ * Metric Anomaly Detection
+ *
+ * Detects anomalies in daily marketing series (GA4 sessions and
+ * conversions, Google Ads spend and CPC). Each day is compared with the
+ * same weekday of the previous weeks: the expected value is their median
+ * and the deviation is a robust z-score (MAD scale). A tabular CUSUM over
+ * the same z-scores finds sustained level shifts (changepoints); once one
+ * is confirmed the baseline moves to the new level, so a shift is
+ * reported once rather than every day until the history catches up.
+ *
+ * Detection only looks at data before the day it scores, so running it
+ * over a historical range is a backtest of what it would have raised.
+ */
+
+export type AnomalyMetric = 'sessions' | 'conversions' | 'cpc' | 'spend';
+
+export type AnomalySource = 'ga4' | 'google_ads';
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface DailyValue {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+// One value of a dimension (channel, device, campaign) over time
+export interface DimensionSeries {
+  dimension: string;
+  value: string;
+  points: DailyValue[];
+}
+
+export interface MetricSeries {
+  source: AnomalySource;
+  metric: AnomalyMetric;
+  points: DailyValue[];
+  breakdowns?: DimensionSeries[];
+}
+
+interface MetricDefinition {
+  label: string;
+  // Counts and amounts add up over dimensions; CPC does not
+  additive: boolean;
+  // Counts get a Poisson noise floor on their scale
+  count: boolean;
+  // The direction that hurts the account
+  adverse: 'up' | 'down';
+}
+
+export const METRIC_DEFINITIONS: Record<AnomalyMetric, MetricDefinition> = {
+  sessions: { label: 'Sessions', additive: true, count: true, adverse: 'down' },
+  conversions: { label: 'Conversions', additive: true, count: true, adverse: 'down' },
+  spend: { label: 'Spend', additive: true, count: false, adverse: 'up' },
+  cpc: { label: 'CPC', additive: false, count: false, adverse: 'up' }
+};
+
+export interface AnomalyDetectionOptions {
+  zThreshold: number;          // |z| at which a day is anomalous
+  baselineWeeks: number;       // Same-weekday history per baseline
+  minBaselinePoints: number;   // Days of history needed before scoring
+  minRelativeChange: number;   // Ignore deviations smaller than this share of the expected value
+  cusumDrift: number;          // CUSUM allowance k, in z units
+  cusumThreshold: number;      // CUSUM decision interval h, in z units
+  maxContributors: number;
+}
+
+export const DEFAULT_ANOMALY_DETECTION_OPTIONS: AnomalyDetectionOptions = {
+  zThreshold: 3.5,
+  baselineWeeks: 8,
+  minBaselinePoints: 3,
+  minRelativeChange: 0.15,
+  cusumDrift: 0.5,
+  cusumThreshold: 5,
+  maxContributors: 3
+};
+
+// z-scores are clipped before they enter the CUSUM, so one spike cannot signal a shift
+const CUSUM_CLIP = 3;
+const MAD_TO_SIGMA = 1.4826;
+const CURRENCY_SCALE_FLOOR = 0.05;
+
+export interface DimensionContribution {
+  dimension: string;
+  value: string;
+  actual: number;
+  expected: number;
+  delta: number;
+  // Share of the movement in this direction across values of the dimension (additive metrics only)
+  share?: number;
+  zScore: number;
+}
+
+export interface MetricAnomaly {
+  kind: 'point' | 'changepoint';
+  source: AnomalySource;
+  metric: AnomalyMetric;
+  date: string;       // Day scored (point) or day the shift was confirmed (changepoint)
+  startDate: string;  // First day of the anomaly
+  actual: number;     // Daily average over startDate..date
+  expected: number;
+  zScore: number;     // Changepoints: mean clipped z-score over the shift
+  relativeChange: number;
+  direction: 'up' | 'down';
+  adverse: boolean;
+  severity: AnomalySeverity;
+  contributors: DimensionContribution[];
+}
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+interface Baseline {
+  expected: number;
+  scale: number;
+}
+
+function weekdaySamples(history: Map<string, number>, date: string, weeks: number): number[] {
+  const samples: number[] = [];
+  for (let week = 1; week <= weeks; week++) {
+    const value = history.get(addDays(date, -7 * week));
+    if (value !== undefined) samples.push(value);
+  }
+  return samples;
+}
+
+/**
+ * Robust spread of the history relative to its weekday medians, pooled over all seven weekdays
+ *
+ * A handful of same-weekday samples often agree closely by chance; the
+ * pooled spread keeps such a baseline from flagging ordinary noise.
+ */
+function pooledRelativeScale(history: Map<string, number>, date: string, options: AnomalyDetectionOptions): number {
+  const deviations: number[] = [];
+  for (let offset = 0; offset < 7; offset++) {
+    const samples = weekdaySamples(history, addDays(date, -offset), options.baselineWeeks);
+    const center = median(samples);
+    if (samples.length < options.minBaselinePoints || center === 0) continue;
+    samples.forEach(sample => deviations.push(Math.abs(sample - center) / Math.abs(center)));
+  }
+  return MAD_TO_SIGMA * median(deviations);
+}
+
+/**
+ * Day-of-week baseline of a date: median and robust scale of the same weekday in earlier weeks
+ */
+function weekdayBaseline(
+  history: Map<string, number>,
+  date: string,
+  definition: MetricDefinition,
+  options: AnomalyDetectionOptions
+): Baseline | null {
+  const samples = weekdaySamples(history, date, options.baselineWeeks);
+  if (samples.length < options.minBaselinePoints) {
+    return null;
+  }
+
+  const expected = median(samples);
+  const mad = median(samples.map(sample => Math.abs(sample - expected)));
+  const floor = definition.count
+    ? Math.sqrt(Math.max(expected, 1))
+    : Math.max(Math.abs(expected) * CURRENCY_SCALE_FLOOR, 0.01);
+  const pooled = pooledRelativeScale(history, date, options) * Math.abs(expected);
+  return { expected, scale: Math.max(MAD_TO_SIGMA * mad, pooled, floor) };
+}
+
+function relativeChange(actual: number, expected: number): number {
+  if (expected === 0) return actual === 0 ? 0 : 1;
+  return (actual - expected) / Math.abs(expected);
+}
+
+function pointSeverity(zScore: number, options: AnomalyDetectionOptions): AnomalySeverity {
+  const magnitude = Math.abs(zScore);
+  if (magnitude >= options.zThreshold * 2) return 'high';
+  if (magnitude >= options.zThreshold * 1.5) return 'medium';
+  return 'low';
+}
+
+function shiftSeverity(change: number): AnomalySeverity {
+  const magnitude = Math.abs(change);
+  if (magnitude >= 0.5) return 'high';
+  if (magnitude >= 0.25) return 'medium';
+  return 'low';
+}
+
+/**
+ * Dimension values that moved with an anomaly over its days, largest first
+ */
+function contributorsFor(
+  series: MetricSeries,
+  dates: string[],
+  direction: 'up' | 'down',
+  options: AnomalyDetectionOptions
+): DimensionContribution[] {
+  const definition = METRIC_DEFINITIONS[series.metric];
+  const contributions: DimensionContribution[] = [];
+
+  for (const breakdown of series.breakdowns || []) {
+    const history = new Map(breakdown.points.map(point => [point.date, point.value]));
+    let actual = 0;
+    let expected = 0;
+    let variance = 0;
+    let scored = 0;
+
+    for (const date of dates) {
+      const baseline = weekdayBaseline(history, date, definition, options);
+      if (!baseline) continue;
+      actual += history.get(date) ?? 0;
+      expected += baseline.expected;
+      variance += baseline.scale ** 2;
+      scored++;
+    }
+    if (scored === 0) continue;
+
+    const delta = actual - expected;
+    if ((direction === 'up' && delta <= 0) || (direction === 'down' && delta >= 0)) continue;
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    contributions.push({
+      dimension: breakdown.dimension,
+      value: breakdown.value,
+      actual: round(actual / scored),
+      expected: round(expected / scored),
+      delta: round(delta / scored),
+      zScore: round(delta / Math.sqrt(variance))
+    });
+  }
+
+  if (definition.additive) {
+    const totals = new Map<string, number>();
+    contributions.forEach(entry => totals.set(entry.dimension, (totals.get(entry.dimension) || 0) + entry.delta));
+    contributions.forEach(entry => {
+      entry.share = Math.round((entry.delta / totals.get(entry.dimension)!) * 1000) / 1000;
+    });
+  }
+
+  return contributions
+    .sort((a, b) => definition.additive ? Math.abs(b.delta) - Math.abs(a.delta) : Math.abs(b.zScore) - Math.abs(a.zScore))
+    .slice(0, options.maxContributors);
+}
+
+interface ScoredDay {
+  date: string;
+  actual: number;
+  expected: number;
+  zScore: number;  // Clipped
+}
+
+/**
+ * The days of a CUSUM run after its most likely changepoint
+ *
+ * A run starts when its sum leaves zero, which is often a few noisy days
+ * before the actual shift. The shift is taken to begin where the excess
+ * over half the run's recent level is largest, as its last days are the
+ * most likely to be past the change.
+ */
+function shiftSegment(run: ScoredDay[], direction: 'up' | 'down', options: AnomalyDetectionOptions): ScoredDay[] {
+  const sign = direction === 'up' ? 1 : -1;
+  const recent = run.slice(Math.floor(run.length / 2));
+  const drift = Math.max(options.cusumDrift, recent.reduce((sum, day) => sum + sign * day.zScore, 0) / recent.length / 2);
+
+  let start = run.length - 1;
+  let best = -Infinity;
+  let excess = 0;
+  for (let index = run.length - 1; index >= 0; index--) {
+    excess += sign * run[index].zScore - drift;
+    if (excess > best) {
+      best = excess;
+      start = index;
+    }
+  }
+  return run.slice(start);
+}
+
+/**
+ * Detect point anomalies and changepoints of one series within a date range
+ *
+ * Points before the range are history: they feed baselines and the CUSUM
+ * (so a shift that started before the range is not reported again) but
+ * nothing is reported for them.
+ */
+export function detectSeriesAnomalies(
+  series: MetricSeries,
+  range: DateRange,
+  options: AnomalyDetectionOptions = DEFAULT_ANOMALY_DETECTION_OPTIONS
+): MetricAnomaly[] {
+  const definition = METRIC_DEFINITIONS[series.metric];
+  const points = [...series.points].sort((a, b) => a.date.localeCompare(b.date));
+  const raw = new Map(points.map(point => [point.date, point.value]));
+  // History divided by the level of its segment, so baselines stay comparable across shifts
+  const normalized = new Map<string, number>();
+  const anomalies: MetricAnomaly[] = [];
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  let level = 1;
+  let cusumUp = 0;
+  let cusumDown = 0;
+  let runUp: ScoredDay[] = [];
+  let runDown: ScoredDay[] = [];
+
+  for (const { date, value } of points) {
+    if (date > range.endDate) break;
+    const baseline = weekdayBaseline(normalized, date, definition, options);
+    normalized.set(date, value / level);
+    if (!baseline) continue;
+
+    const expected = baseline.expected * level;
+    const zScore = (value - expected) / (baseline.scale * level);
+    const change = relativeChange(value, expected);
+    const inRange = date >= range.startDate;
+
+    if (inRange && Math.abs(zScore) >= options.zThreshold && Math.abs(change) >= options.minRelativeChange) {
+      const direction = zScore > 0 ? 'up' : 'down';
+      anomalies.push({
+        kind: 'point',
+        source: series.source,
+        metric: series.metric,
+        date,
+        startDate: date,
+        actual: round(value),
+        expected: round(expected),
+        zScore: round(zScore),
+        relativeChange: Math.round(change * 1000) / 1000,
+        direction,
+        adverse: direction === definition.adverse,
+        severity: pointSeverity(zScore, options),
+        contributors: contributorsFor(series, [date], direction, options)
+      });
+    }
+
+    // Tabular CUSUM on clipped z-scores; a run starts when its sum leaves zero
+    const clipped = Math.max(-CUSUM_CLIP, Math.min(CUSUM_CLIP, zScore));
+    const day = { date, actual: value, expected, zScore: clipped };
+    cusumUp = Math.max(0, cusumUp + clipped - options.cusumDrift);
+    runUp = cusumUp > 0 ? [...runUp, day] : [];
+    cusumDown = Math.min(0, cusumDown + clipped + options.cusumDrift);
+    runDown = cusumDown < 0 ? [...runDown, day] : [];
+
+    const direction = cusumUp > options.cusumThreshold ? 'up' : cusumDown < -options.cusumThreshold ? 'down' : null;
+    if (!direction) continue;
+
+    const run = shiftSegment(direction === 'up' ? runUp : runDown, direction, options);
+    const ratios = run.filter(entry => entry.expected > 0).map(entry => entry.actual / entry.expected);
+    const shift = ratios.length ? median(ratios) : 1;
+    const actual = run.reduce((sum, entry) => sum + entry.actual, 0) / run.length;
+    const runExpected = run.reduce((sum, entry) => sum + entry.expected, 0) / run.length;
+    const shiftChange = shift - 1;
+
+    if (inRange && Math.abs(shiftChange) >= options.minRelativeChange) {
+      anomalies.push({
+        kind: 'changepoint',
+        source: series.source,
+        metric: series.metric,
+        date,
+        startDate: run[0].date,
+        actual: round(actual),
+        expected: round(runExpected),
+        zScore: round(run.reduce((sum, entry) => sum + entry.zScore, 0) / run.length),
+        relativeChange: Math.round(shiftChange * 1000) / 1000,
+        direction,
+        adverse: direction === definition.adverse,
+        severity: shiftSeverity(shiftChange),
+        contributors: contributorsFor(
+          series,
+          run.map(entry => entry.date),
+          direction,
+          options
+        )
+      });
+    }
+
+    // Move the baseline to the new level from the start of the shift
+    level *= shift;
+    for (const entry of run) {
+      normalized.set(entry.date, raw.get(entry.date)! / level);
+    }
+    cusumUp = 0;
+    cusumDown = 0;
+    runUp = [];
+    runDown = [];
+  }
+
+  return anomalies;
+}
+
+/**
+ * Detect anomalies across several series, most severe first
+ */
+export function detectAnomalies(
+  series: MetricSeries[],
+  range: DateRange,
+  options: AnomalyDetectionOptions = DEFAULT_ANOMALY_DETECTION_OPTIONS
+): MetricAnomaly[] {
+  const rank: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 };
+  return series
+    .flatMap(entry => detectSeriesAnomalies(entry, range, options))
+    .sort((a, b) => rank[a.severity] - rank[b.severity] || b.date.localeCompare(a.date));
+}
+
+/**
+ * History a detection run needs before its range
+ */
+export function historyStartDate(range: DateRange, options: AnomalyDetectionOptions = DEFAULT_ANOMALY_DETECTION_OPTIONS): string {
+  return addDays(range.startDate, -7 * options.baselineWeeks);
+}
+
+// A known incident the detector should have caught, for backtests
+export interface BacktestIncident {
+  metric: AnomalyMetric;
+  source?: AnomalySource;
+  date: string;
+  label?: string;
+}
+
+export interface BacktestResult {
+  range: DateRange;
+  anomalies: MetricAnomaly[];
+  alertsPerWeek: number;
+  bySeverity: Record<AnomalySeverity, number>;
+  evaluation?: {
+    detected: Array<{ incident: BacktestIncident; anomaly: MetricAnomaly; delayDays: number }>;
+    missed: BacktestIncident[];
+    falsePositives: number;
+    precision: number;
+    recall: number;
+    meanDelayDays: number | null;
+  };
+}
+
+/**
+ * Replay detection over historical series and score it against known incidents
+ *
+ * An anomaly detects an incident of its metric when it starts within
+ * toleranceDays of it and is raised no later than toleranceDays after it.
+ */
+export function backtestAnomalyDetection(
+  series: MetricSeries[],
+  range: DateRange,
+  options: AnomalyDetectionOptions = DEFAULT_ANOMALY_DETECTION_OPTIONS,
+  incidents?: BacktestIncident[],
+  toleranceDays: number = 3
+): BacktestResult {
+  const anomalies = detectAnomalies(series, range, options);
+  const bySeverity: Record<AnomalySeverity, number> = { high: 0, medium: 0, low: 0 };
+  anomalies.forEach(anomaly => bySeverity[anomaly.severity]++);
+  const weeks = (daysBetween(range.startDate, range.endDate) + 1) / 7;
+
+  const result: BacktestResult = {
+    range,
+    anomalies,
+    alertsPerWeek: Math.round((anomalies.length / weeks) * 100) / 100,
+    bySeverity
+  };
+  if (!incidents) {
+    return result;
+  }
+
+  const matched = new Set<MetricAnomaly>();
+  const detected: NonNullable<BacktestResult['evaluation']>['detected'] = [];
+  const missed: BacktestIncident[] = [];
+
+  for (const incident of incidents) {
+    const anomaly = anomalies
+      .filter(candidate =>
+        candidate.metric === incident.metric &&
+        (!incident.source || candidate.source === incident.source) &&
+        Math.abs(daysBetween(incident.date, candidate.startDate)) <= toleranceDays &&
+        daysBetween(incident.date, candidate.date) >= 0 &&
+        daysBetween(incident.date, candidate.date) <= toleranceDays)
+      .sort((a, b) => a.date.localeCompare(b.date))[0];
+
+    if (anomaly) {
+      matched.add(anomaly);
+      detected.push({ incident, anomaly, delayDays: daysBetween(incident.date, anomaly.date) });
+    } else {
+      missed.push(incident);
+    }
+  }
+
+  // Other anomalies within the window of a detected incident are the same event, not false positives
+  const related = (anomaly: MetricAnomaly) => detected.some(({ incident }) =>
+    anomaly.metric === incident.metric && Math.abs(daysBetween(incident.date, anomaly.startDate)) <= toleranceDays);
+  const falsePositives = anomalies.filter(anomaly => !matched.has(anomaly) && !related(anomaly)).length;
+  const truePositives = anomalies.length - falsePositives;
+
+  result.evaluation = {
+    detected,
+    missed,
+    falsePositives,
+    precision: anomalies.length ? Math.round((truePositives / anomalies.length) * 1000) / 1000 : 1,
+    recall: incidents.length ? Math.round((detected.length / incidents.length) * 1000) / 1000 : 1,
+    meanDelayDays: detected.length
+      ? Math.round((detected.reduce((sum, entry) => sum + entry.delayDays, 0) / detected.length) * 10) / 10
+      : null
+  };
+  return result;
+}
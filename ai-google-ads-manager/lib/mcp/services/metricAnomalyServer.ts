@@ -0,0 +1,63 @@
+/**
+ * Metric Anomaly Server Wiring
+ *
+ * A MetricAnomalyService reading through the shared stdio connections to
+ * the ga4-analytics-mcp and google-ads-mcp servers and writing
+ * recommendations with the service-role client.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServiceClient, getOptionalMCPServerClient } from './campaignMutationServer';
+import { MCPToolCallError } from './mcpToolCall';
+import { SupabaseRecommendationStore } from './recommendationStore';
+import { MCPMetricSeriesSource, MetricAnomalyService, MetricAnomalyError } from './metricAnomalyService';
+
+let anomalyService: MetricAnomalyService | null = null;
+
+/**
+ * Shared service; the MCP connections are opened on first use
+ *
+ * Detection runs on whichever server is reachable, skipping the series of
+ * the other one. The service is only kept once both are connected, so a
+ * missing server is tried again on the next request.
+ */
+export async function getMetricAnomalyService(): Promise<MetricAnomalyService> {
+  if (anomalyService) {
+    return anomalyService;
+  }
+
+  const [ga4, ads] = await Promise.all([
+    getOptionalMCPServerClient('ga4-analytics-mcp'),
+    getOptionalMCPServerClient('google-ads-mcp'),
+  ]);
+  if (!ga4 && !ads) {
+    throw new MetricAnomalyError('Neither the GA4 nor the Google Ads MCP server is reachable', 'MCP_UNAVAILABLE', 503);
+  }
+
+  const service = new MetricAnomalyService(
+    new MCPMetricSeriesSource(ga4, ads),
+    new SupabaseRecommendationStore(getServiceClient())
+  );
+  if (ga4 && ads) {
+    anomalyService = service;
+  }
+  return service;
+}
+
+/**
+ * JSON error response for a failed anomaly request; MCP tool failures are 502s
+ */
+export function anomalyErrorResponse(error: unknown): NextResponse {
+  if (error instanceof MetricAnomalyError || error instanceof MCPToolCallError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details ?? null },
+      { status: error instanceof MetricAnomalyError ? error.status : 502 }
+    );
+  }
+
+  console.error('[Anomalies] Request failed:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,326 @@
+/**
+ * Metric Anomaly Service
+ *
+ * Fetches daily GA4 (sessions, conversions) and Google Ads (spend, CPC)
+ * series with enough history for weekday baselines, runs the detector in
+ * metricAnomalyDetection.ts over them and records every anomaly as a
+ * recommendation of the account. backtest() runs the same detection over
+ * a historical range without writing anything.
+ */
+
+import { callJsonTool, MCPToolCaller } from './mcpToolCall';
+import {
+  AnomalyDetectionOptions,
+  BacktestIncident,
+  BacktestResult,
+  DateRange,
+  DailyValue,
+  DimensionSeries,
+  MetricAnomaly,
+  MetricSeries,
+  DEFAULT_ANOMALY_DETECTION_OPTIONS,
+  METRIC_DEFINITIONS,
+  addDays,
+  backtestAnomalyDetection,
+  detectAnomalies,
+  historyStartDate,
+} from './metricAnomalyDetection';
+import {
+  NewRecommendation,
+  Recommendation,
+  RecommendationStore,
+  toEstimatedImpact,
+} from './recommendationStore';
+
+export interface MetricSeriesRequest extends DateRange {
+  propertyId?: string;  // GA4 series are skipped without one
+  customerId?: string;  // Google Ads series are skipped without one
+}
+
+export interface MetricSeriesSource {
+  fetchSeries(request: MetricSeriesRequest): Promise<MetricSeries[]>;
+}
+
+export interface AnomalyDetectionRequest extends MetricSeriesRequest {
+  accountId: string;
+  dryRun?: boolean;  // Detect without writing recommendations
+}
+
+export interface AnomalyDetectionResult {
+  range: DateRange;
+  anomalies: MetricAnomaly[];
+  // Recommendations written by this run; reruns skip the ones already stored
+  recommendations: Recommendation[];
+}
+
+export interface AnomalyBacktestRequest extends MetricSeriesRequest {
+  incidents?: BacktestIncident[];
+  toleranceDays?: number;
+}
+
+export class MetricAnomalyError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'MetricAnomalyError';
+  }
+}
+
+const MAX_RANGE_DAYS = 366;
+const GA4_BREAKDOWNS = ['sessionDefaultChannelGroup', 'deviceCategory'];
+const GA4_ROW_LIMIT = 10000;
+
+/**
+ * Detection options from ANOMALY_Z_THRESHOLD, ANOMALY_BASELINE_WEEKS and ANOMALY_MIN_RELATIVE_CHANGE
+ */
+export function loadAnomalyDetectionConfig(env: Record<string, string | undefined> = process.env): AnomalyDetectionOptions {
+  const read = (value: string | undefined, fallback: number, min: number) => {
+    const parsed = parseFloat(value || '');
+    return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+  };
+
+  return {
+    ...DEFAULT_ANOMALY_DETECTION_OPTIONS,
+    zThreshold: read(env.ANOMALY_Z_THRESHOLD, DEFAULT_ANOMALY_DETECTION_OPTIONS.zThreshold, 1),
+    baselineWeeks: Math.floor(read(env.ANOMALY_BASELINE_WEEKS, DEFAULT_ANOMALY_DETECTION_OPTIONS.baselineWeeks, 3)),
+    minRelativeChange: read(env.ANOMALY_MIN_RELATIVE_CHANGE, DEFAULT_ANOMALY_DETECTION_OPTIONS.minRelativeChange, 0),
+  };
+}
+
+export class MetricAnomalyService {
+  constructor(
+    private source: MetricSeriesSource,
+    private store: RecommendationStore,
+    private options: AnomalyDetectionOptions = loadAnomalyDetectionConfig()
+  ) {}
+
+  /**
+   * Detect anomalies within a date range and record them as recommendations
+   */
+  async detect(request: AnomalyDetectionRequest): Promise<AnomalyDetectionResult> {
+    const range = this.validateRequest(request);
+    const series = await this.fetchWithHistory(request, range);
+    const anomalies = detectAnomalies(series, range, this.options);
+
+    const recommendations = request.dryRun
+      ? []
+      : await this.store.upsertRecommendations(anomalies.map(anomaly => toRecommendation(request.accountId, anomaly)));
+
+    return { range, anomalies, recommendations };
+  }
+
+  /**
+   * Replay detection over a historical range, scored against known incidents when given
+   */
+  async backtest(request: AnomalyBacktestRequest): Promise<BacktestResult> {
+    const range = this.validateRequest(request);
+    const series = await this.fetchWithHistory(request, range);
+    return backtestAnomalyDetection(series, range, this.options, request.incidents, request.toleranceDays);
+  }
+
+  private async fetchWithHistory(request: MetricSeriesRequest, range: DateRange): Promise<MetricSeries[]> {
+    return this.source.fetchSeries({
+      propertyId: request.propertyId,
+      customerId: request.customerId,
+      startDate: historyStartDate(range, this.options),
+      endDate: range.endDate,
+    });
+  }
+
+  private validateRequest(request: MetricSeriesRequest): DateRange {
+    const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+    if (!isDate(request.startDate) || !isDate(request.endDate) || request.startDate > request.endDate) {
+      throw new MetricAnomalyError('startDate and endDate must be YYYY-MM-DD dates in order', 'INVALID_DATE_RANGE', 400, {
+        startDate: request.startDate,
+        endDate: request.endDate,
+      });
+    }
+    if (addDays(request.startDate, MAX_RANGE_DAYS) <= request.endDate) {
+      throw new MetricAnomalyError(`Date ranges are limited to ${MAX_RANGE_DAYS} days`, 'INVALID_DATE_RANGE', 400);
+    }
+    if (!request.propertyId && !request.customerId) {
+      throw new MetricAnomalyError('A GA4 property or Google Ads customer is required', 'NO_DATA_SOURCE', 400);
+    }
+    return { startDate: request.startDate, endDate: request.endDate };
+  }
+}
+
+/**
+ * The recommendation recording an anomaly
+ */
+export function toRecommendation(accountId: string, anomaly: MetricAnomaly): NewRecommendation {
+  const definition = METRIC_DEFINITIONS[anomaly.metric];
+  const sourceLabel = anomaly.source === 'ga4' ? 'GA4' : 'Google Ads';
+  const percent = Math.round(Math.abs(anomaly.relativeChange) * 100);
+  const movement = anomaly.direction === 'up' ? 'up' : 'down';
+  const format = (value: number) => anomaly.metric === 'spend' || anomaly.metric === 'cpc' ? value.toFixed(2) : String(value);
+
+  const title = anomaly.kind === 'point'
+    ? `${definition.label} ${movement} ${percent}% on ${anomaly.date} (${sourceLabel})`
+    : `${definition.label} ${movement} ${percent}% since ${anomaly.startDate} (${sourceLabel})`;
+
+  const contributors = anomaly.contributors
+    .map(contributor => `${contributor.value} (${contributor.delta > 0 ? '+' : ''}${format(contributor.delta)})`)
+    .join(', ');
+  const description = [
+    anomaly.kind === 'point'
+      ? `${definition.label} was ${format(anomaly.actual)} against an expected ${format(anomaly.expected)} for the weekday (z-score ${anomaly.zScore}).`
+      : `${definition.label} has averaged ${format(anomaly.actual)} a day since ${anomaly.startDate} against an expected ${format(anomaly.expected)}; the shift was confirmed on ${anomaly.date}.`,
+    contributors && `Largest contributors: ${contributors}.`,
+  ].filter(Boolean).join(' ');
+
+  return {
+    account_id: accountId,
+    type: anomaly.kind === 'point' ? 'metric_anomaly' : 'metric_changepoint',
+    priority: anomaly.severity,
+    title,
+    description,
+    estimated_impact: toEstimatedImpact(anomaly.relativeChange),
+    evidence: {
+      source: anomaly.source,
+      metric: anomaly.metric,
+      kind: anomaly.kind,
+      date: anomaly.date,
+      startDate: anomaly.startDate,
+      actual: anomaly.actual,
+      expected: anomaly.expected,
+      zScore: anomaly.zScore,
+      relativeChange: anomaly.relativeChange,
+      direction: anomaly.direction,
+      adverse: anomaly.adverse,
+      severity: anomaly.severity,
+      contributors: anomaly.contributors,
+    },
+    // A shift is keyed on its start: later runs confirm the same shift on other days
+    dedupe_key: `anomaly:${anomaly.source}:${anomaly.metric}:${anomaly.kind}:${anomaly.startDate}`,
+  };
+}
+
+interface GA4ReportResponse {
+  rows?: Array<{ dimensions: Record<string, string>; metrics: Record<string, number> }>;
+}
+
+interface AdsPerformanceResponse {
+  campaigns?: Array<{
+    id: string;
+    name: string;
+    timeSeries: Array<{ period: string; clicks: number; cost: number; averageCpc: number }>;
+  }>;
+}
+
+/**
+ * Daily series from the ga4-analytics-mcp and google-ads-mcp servers
+ *
+ * Either connection may be null, in which case its series are skipped.
+ */
+export class MCPMetricSeriesSource implements MetricSeriesSource {
+  constructor(
+    private ga4: MCPToolCaller | null,
+    private ads: MCPToolCaller | null
+  ) {}
+
+  async fetchSeries(request: MetricSeriesRequest): Promise<MetricSeries[]> {
+    const [ga4, ads] = await Promise.all([
+      request.propertyId && this.ga4 ? this.fetchGA4Series(this.ga4, request) : [],
+      request.customerId && this.ads ? this.fetchAdsSeries(this.ads, request) : [],
+    ]);
+    return [...ga4, ...ads];
+  }
+
+  private async fetchGA4Series(client: MCPToolCaller, request: MetricSeriesRequest): Promise<MetricSeries[]> {
+    const dates = dateList(request);
+    const reports = await Promise.all(GA4_BREAKDOWNS.map(dimension =>
+      callJsonTool<GA4ReportResponse>(client, 'query_analytics', {
+        propertyId: request.propertyId,
+        metrics: ['sessions', 'conversions'],
+        dimensions: ['date', dimension],
+        startDate: request.startDate,
+        endDate: request.endDate,
+        limit: GA4_ROW_LIMIT,
+      })
+    ));
+
+    return (['sessions', 'conversions'] as const).map(metric => {
+      const breakdowns: DimensionSeries[] = [];
+      reports.forEach((report, index) => {
+        const dimension = GA4_BREAKDOWNS[index];
+        const byValue = new Map<string, Map<string, number>>();
+        for (const row of report.rows || []) {
+          const value = row.dimensions[dimension] || '(not set)';
+          const days = byValue.get(value) || new Map<string, number>();
+          const date = normalizeDate(row.dimensions.date);
+          days.set(date, (days.get(date) || 0) + Number(row.metrics[metric] || 0));
+          byValue.set(value, days);
+        }
+        byValue.forEach((days, value) => breakdowns.push({ dimension, value, points: fillDays(dates, days) }));
+      });
+
+      // Totals from the first breakdown; GA4 leaves out days without traffic
+      const totals = new Map<string, number>();
+      breakdowns
+        .filter(breakdown => breakdown.dimension === GA4_BREAKDOWNS[0])
+        .forEach(breakdown => breakdown.points.forEach(point => totals.set(point.date, (totals.get(point.date) || 0) + point.value)));
+
+      return { source: 'ga4' as const, metric, points: fillDays(dates, totals), breakdowns };
+    });
+  }
+
+  private async fetchAdsSeries(client: MCPToolCaller, request: MetricSeriesRequest): Promise<MetricSeries[]> {
+    const dates = dateList(request);
+    const performance = await callJsonTool<AdsPerformanceResponse>(client, 'get_campaign_performance', {
+      customerId: request.customerId,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      granularity: 'day',
+    });
+
+    const spend = new Map<string, number>();
+    const clicks = new Map<string, number>();
+    const spendBreakdowns: DimensionSeries[] = [];
+    const cpcBreakdowns: DimensionSeries[] = [];
+
+    for (const campaign of performance.campaigns || []) {
+      const campaignSpend = new Map<string, number>();
+      const campaignCpc: DailyValue[] = [];
+      for (const point of campaign.timeSeries) {
+        spend.set(point.period, (spend.get(point.period) || 0) + point.cost);
+        clicks.set(point.period, (clicks.get(point.period) || 0) + point.clicks);
+        campaignSpend.set(point.period, point.cost);
+        if (point.clicks > 0) campaignCpc.push({ date: point.period, value: point.averageCpc });
+      }
+      spendBreakdowns.push({ dimension: 'campaign', value: campaign.name, points: fillDays(dates, campaignSpend) });
+      cpcBreakdowns.push({ dimension: 'campaign', value: campaign.name, points: campaignCpc });
+    }
+
+    // CPC has no value on days without clicks
+    const cpc = dates
+      .filter(date => (clicks.get(date) || 0) > 0)
+      .map(date => ({ date, value: Math.round(((spend.get(date) || 0) / clicks.get(date)!) * 100) / 100 }));
+
+    return [
+      { source: 'google_ads', metric: 'spend', points: fillDays(dates, spend), breakdowns: spendBreakdowns },
+      { source: 'google_ads', metric: 'cpc', points: cpc, breakdowns: cpcBreakdowns },
+    ];
+  }
+}
+
+function dateList(range: DateRange): string[] {
+  const dates: string[] = [];
+  for (let date = range.startDate; date <= range.endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// GA4 reports the date dimension as YYYYMMDD
+function normalizeDate(value: string): string {
+  return /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : value;
+}
+
+function fillDays(dates: string[], values: Map<string, number>): DailyValue[] {
+  return dates.map(date => ({ date, value: Math.round((values.get(date) || 0) * 100) / 100 }));
+}
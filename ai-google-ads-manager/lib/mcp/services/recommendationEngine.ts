@@ -0,0 +1,283 @@
+/**
+ * Recommendation Engine
+ *
+ * Runs the registered recommendation rules over a snapshot of an account
+ * and records their findings in public.recommendations. The snapshot only
+ * holds the data sets the selected rules require. A finding is skipped
+ * while an open (pending or in progress) recommendation of the same rule
+ * and subject exists, so a daily run does not pile up copies of one
+ * recommendation; once it is completed or dismissed, a later period can
+ * raise it again.
+ */
+
+import { callJsonTool, MCPToolCaller } from './mcpToolCall';
+import {
+  NewRecommendation,
+  Recommendation,
+  RecommendationFilter,
+  RecommendationStatus,
+  RecommendationStore,
+  OPEN_RECOMMENDATION_STATUSES,
+  canTransitionRecommendation,
+  toEstimatedImpact,
+} from './recommendationStore';
+import {
+  CampaignSnapshot,
+  KeywordSnapshot,
+  LandingPageSnapshot,
+  RecommendationDataSet,
+  RecommendationRule,
+  RecommendationRuleContext,
+  RecommendationRuleRegistry,
+  createDefaultRuleRegistry,
+} from './recommendationRules';
+
+export interface RecommendationSnapshotRequest {
+  propertyId?: string;  // Landing pages are empty without one
+  customerId?: string;  // Campaigns and keywords are empty without one
+  startDate: string;
+  endDate: string;
+}
+
+export type RecommendationSnapshot = Pick<RecommendationRuleContext, 'campaigns' | 'keywords' | 'landingPages'>;
+
+export interface RecommendationDataSource {
+  fetchSnapshot(request: RecommendationSnapshotRequest, dataSets: RecommendationDataSet[]): Promise<RecommendationSnapshot>;
+}
+
+export interface RecommendationRunRequest extends RecommendationSnapshotRequest {
+  accountId: string;
+  rules?: string[];  // Rule ids; defaults to every registered rule
+  dryRun?: boolean;  // Evaluate without writing recommendations
+}
+
+export interface RecommendationRunResult {
+  startDate: string;
+  endDate: string;
+  rules: string[];
+  findings: NewRecommendation[];
+  // Recommendations written by this run
+  recommendations: Recommendation[];
+  skipped: number;  // Findings with an open recommendation already
+  ruleErrors: Array<{ rule: string; error: string }>;
+}
+
+export class RecommendationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'RecommendationError';
+  }
+}
+
+const MAX_RANGE_DAYS = 366;
+const OPEN_RECOMMENDATION_LIMIT = 1000;
+
+export class RecommendationEngine {
+  constructor(
+    private source: RecommendationDataSource,
+    private store: RecommendationStore,
+    private registry: RecommendationRuleRegistry = createDefaultRuleRegistry()
+  ) {}
+
+  getRegistry(): RecommendationRuleRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Evaluate rules for an account and record their new findings
+   */
+  async run(request: RecommendationRunRequest): Promise<RecommendationRunResult> {
+    const days = this.validateRange(request);
+    const rules = this.selectRules(request.rules);
+    const dataSets = Array.from(new Set(rules.flatMap(rule => rule.requires)));
+
+    const snapshot = await this.source.fetchSnapshot({
+      propertyId: request.propertyId,
+      customerId: request.customerId,
+      startDate: request.startDate,
+      endDate: request.endDate,
+    }, dataSets);
+    const context: RecommendationRuleContext = { startDate: request.startDate, endDate: request.endDate, days, ...snapshot };
+
+    const findings: NewRecommendation[] = [];
+    const ruleErrors: RecommendationRunResult['ruleErrors'] = [];
+    for (const rule of rules) {
+      try {
+        findings.push(...rule.evaluate(context).map(finding => ({
+          account_id: request.accountId,
+          type: rule.type,
+          priority: finding.priority,
+          title: finding.title,
+          description: finding.description,
+          estimated_impact: toEstimatedImpact(finding.estimatedImpact),
+          evidence: {
+            rule: rule.id,
+            subject: finding.subject,
+            startDate: request.startDate,
+            endDate: request.endDate,
+            ...finding.evidence,
+          },
+          dedupe_key: `${subjectKey(rule.id, finding.subject)}${request.endDate}`,
+        })));
+      } catch (error) {
+        // One broken rule should not keep the others from reporting
+        console.error(`[Recommendations] Rule ${rule.id} failed:`, error);
+        ruleErrors.push({ rule: rule.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const open = await this.store.listRecommendations({
+      accountIds: [request.accountId],
+      status: OPEN_RECOMMENDATION_STATUSES,
+      limit: OPEN_RECOMMENDATION_LIMIT,
+    });
+    const openSubjects = new Set(open.map(recommendation => recommendation.dedupe_key?.replace(/[^:]*$/, '')));
+    const fresh = findings.filter(finding => !openSubjects.has(finding.dedupe_key?.replace(/[^:]*$/, '')));
+
+    const recommendations = request.dryRun || fresh.length === 0 ? [] : await this.store.upsertRecommendations(fresh);
+
+    return {
+      startDate: request.startDate,
+      endDate: request.endDate,
+      rules: rules.map(rule => rule.id),
+      findings,
+      recommendations,
+      skipped: findings.length - fresh.length,
+      ruleErrors,
+    };
+  }
+
+  list(filter: RecommendationFilter): Promise<Recommendation[]> {
+    return this.store.listRecommendations(filter);
+  }
+
+  /**
+   * Move a recommendation along its lifecycle
+   *
+   * allowedAccountIds limits which accounts' recommendations may be
+   * changed; others are reported as not found.
+   */
+  async transition(id: string, status: RecommendationStatus, allowedAccountIds?: string[]): Promise<Recommendation> {
+    const recommendation = await this.store.getRecommendation(id);
+    if (!recommendation || (allowedAccountIds && !allowedAccountIds.includes(recommendation.account_id))) {
+      throw new RecommendationError(`Recommendation not found: ${id}`, 'RECOMMENDATION_NOT_FOUND', 404);
+    }
+    if (!canTransitionRecommendation(recommendation.status, status)) {
+      throw new RecommendationError(
+        `Cannot move a recommendation from ${recommendation.status} to ${status}`,
+        'INVALID_STATUS_TRANSITION',
+        409,
+        { from: recommendation.status, to: status }
+      );
+    }
+
+    const updated = await this.store.updateRecommendationStatus(id, recommendation.status, status);
+    if (!updated) {
+      throw new RecommendationError('The recommendation was changed by someone else', 'RECOMMENDATION_CONFLICT', 409);
+    }
+    return updated;
+  }
+
+  private selectRules(ids?: string[]): RecommendationRule<object>[] {
+    const unknown = (ids || []).filter(id => !this.registry.get(id));
+    if (unknown.length > 0) {
+      throw new RecommendationError(`Unknown recommendation rules: ${unknown.join(', ')}`, 'UNKNOWN_RULE', 400, {
+        available: this.registry.list().map(rule => rule.id),
+      });
+    }
+    return this.registry.list(ids?.length ? ids : undefined);
+  }
+
+  private validateRange(request: RecommendationSnapshotRequest): number {
+    const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+    if (!isDate(request.startDate) || !isDate(request.endDate) || request.startDate > request.endDate) {
+      throw new RecommendationError('startDate and endDate must be YYYY-MM-DD dates in order', 'INVALID_DATE_RANGE', 400, {
+        startDate: request.startDate,
+        endDate: request.endDate,
+      });
+    }
+
+    const days = Math.round((Date.parse(request.endDate) - Date.parse(request.startDate)) / 86400000) + 1;
+    if (days > MAX_RANGE_DAYS) {
+      throw new RecommendationError(`Date ranges are limited to ${MAX_RANGE_DAYS} days`, 'INVALID_DATE_RANGE', 400);
+    }
+    if (!request.propertyId && !request.customerId) {
+      throw new RecommendationError('A GA4 property or Google Ads customer is required', 'NO_DATA_SOURCE', 400);
+    }
+    return days;
+  }
+}
+
+// Dedupe keys are "rule:<rule>:<subject>:<endDate>"; subjects may contain colons
+function subjectKey(ruleId: string, subject: string): string {
+  return `rule:${ruleId}:${subject}:`;
+}
+
+interface GA4ReportResponse {
+  rows?: Array<{ dimensions: Record<string, string>; metrics: Record<string, number> }>;
+}
+
+const SNAPSHOT_LIMIT = 1000;
+
+/**
+ * Account snapshots from the ga4-analytics-mcp and google-ads-mcp servers
+ *
+ * Either connection may be null, in which case its data sets stay empty.
+ */
+export class MCPRecommendationDataSource implements RecommendationDataSource {
+  constructor(
+    private ga4: MCPToolCaller | null,
+    private ads: MCPToolCaller | null
+  ) {}
+
+  async fetchSnapshot(request: RecommendationSnapshotRequest, dataSets: RecommendationDataSet[]): Promise<RecommendationSnapshot> {
+    const wants = (dataSet: RecommendationDataSet) => dataSets.includes(dataSet);
+    const ads = request.customerId ? this.ads : null;
+    const ga4 = request.propertyId ? this.ga4 : null;
+    const dateRange = { startDate: request.startDate, endDate: request.endDate };
+
+    const [campaigns, keywords, landingPages] = await Promise.all([
+      ads && wants('campaigns')
+        ? callJsonTool<{ campaigns: CampaignSnapshot[] }>(ads, 'list_campaigns', {
+          customerId: request.customerId,
+          ...dateRange,
+          pageSize: SNAPSHOT_LIMIT,
+        }).then(result => result.campaigns || [])
+        : [],
+      ads && wants('keywords')
+        ? callJsonTool<{ keywords: KeywordSnapshot[] }>(ads, 'get_keywords', {
+          customerId: request.customerId,
+          ...dateRange,
+          limit: SNAPSHOT_LIMIT,
+        }).then(result => result.keywords || [])
+        : [],
+      ga4 && wants('landingPages')
+        ? callJsonTool<GA4ReportResponse>(ga4, 'query_analytics', {
+          propertyId: request.propertyId,
+          metrics: ['sessions', 'bounceRate', 'conversions'],
+          dimensions: ['landingPage'],
+          ...dateRange,
+          limit: SNAPSHOT_LIMIT,
+        }).then(toLandingPages)
+        : [],
+    ]);
+
+    return { campaigns, keywords, landingPages };
+  }
+}
+
+function toLandingPages(report: GA4ReportResponse): LandingPageSnapshot[] {
+  return (report.rows || [])
+    .filter(row => row.dimensions.landingPage && row.dimensions.landingPage !== '(not set)')
+    .map(row => ({
+      path: row.dimensions.landingPage,
+      sessions: Number(row.metrics.sessions || 0),
+      bounceRate: Number(row.metrics.bounceRate || 0),
+      conversions: Number(row.metrics.conversions || 0),
+    }));
+}
@@ -0,0 +1,372 @@
+/**
+ * Recommendation Rules
+ *
+ * A rule looks at a snapshot of an account (Google Ads campaigns and
+ * keywords, GA4 landing pages over a date range) and returns findings:
+ * a subject (the campaign, keyword or page concerned), copy, an impact
+ * estimate and the evidence behind it. Rules are registered by id in a
+ * RecommendationRuleRegistry; createDefaultRuleRegistry() holds the
+ * built-in ones and further rules can be registered next to them.
+ *
+ * Impact estimates are fractions, as stored in estimated_impact: the share
+ * of account revenue, spend or sessions the recommendation affects.
+ */
+
+import type { RecommendationPriority } from './recommendationStore';
+
+export type RecommendationDataSet = 'campaigns' | 'keywords' | 'landingPages';
+
+// Google Ads metrics in account currency, as returned by google-ads-mcp
+export interface AdsMetricsSnapshot {
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  conversionsValue: number;
+}
+
+export interface CampaignSnapshot {
+  id: string;
+  name: string;
+  status: string;
+  campaignType: string;
+  budget: number;  // Daily budget
+  metrics: AdsMetricsSnapshot;
+}
+
+export interface KeywordSnapshot {
+  criterionId: string;
+  text: string;
+  matchType: string;
+  status: string;
+  adGroupId: string;
+  adGroupName: string;
+  campaignId: string;
+  metrics: AdsMetricsSnapshot;
+}
+
+export interface LandingPageSnapshot {
+  path: string;
+  sessions: number;
+  bounceRate: number;  // 0-1
+  conversions: number;
+}
+
+export interface RecommendationRuleContext {
+  startDate: string;
+  endDate: string;
+  days: number;
+  // Data sets a rule did not ask for, or the account has no source for, are empty
+  campaigns: CampaignSnapshot[];
+  keywords: KeywordSnapshot[];
+  landingPages: LandingPageSnapshot[];
+}
+
+export interface RuleFinding<TEvidence extends object = Record<string, unknown>> {
+  subject: string;  // Stable id of what the finding is about, e.g. "campaign:1001"
+  title: string;
+  description: string;
+  priority: RecommendationPriority;
+  estimatedImpact: number;
+  evidence: TEvidence;
+}
+
+export interface RecommendationRule<TEvidence extends object = Record<string, unknown>> {
+  id: string;    // Stable; part of the dedupe key of its recommendations
+  type: string;  // recommendations.type
+  description: string;
+  requires: RecommendationDataSet[];
+  evaluate(context: RecommendationRuleContext): RuleFinding<TEvidence>[];
+}
+
+export class RecommendationRuleRegistry {
+  private rules = new Map<string, RecommendationRule<object>>();
+
+  register<TEvidence extends object>(rule: RecommendationRule<TEvidence>): this {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Recommendation rule already registered: ${rule.id}`);
+    }
+    this.rules.set(rule.id, rule as RecommendationRule<object>);
+    return this;
+  }
+
+  unregister(id: string): boolean {
+    return this.rules.delete(id);
+  }
+
+  get(id: string): RecommendationRule<object> | undefined {
+    return this.rules.get(id);
+  }
+
+  list(ids?: string[]): RecommendationRule<object>[] {
+    return ids ? ids.map(id => this.rules.get(id)).filter((rule): rule is RecommendationRule<object> => !!rule) : Array.from(this.rules.values());
+  }
+}
+
+/**
+ * Priority of a finding from its impact estimate
+ */
+export function priorityForImpact(impact: number, high: number = 0.1, medium: number = 0.03): RecommendationPriority {
+  if (impact >= high) return 'high';
+  if (impact >= medium) return 'medium';
+  return 'low';
+}
+
+function round(value: number, places: number = 2): number {
+  return Math.round(value * 10 ** places) / 10 ** places;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export interface BudgetLimitedCampaignEvidence {
+  campaignId: string;
+  campaignName: string;
+  dailyBudget: number;
+  averageDailySpend: number;
+  budgetUtilization: number;
+  roas: number;
+  accountRoas: number;
+  conversionsValue: number;
+  suggestedDailyBudget: number;
+  projectedAdditionalValue: number;
+}
+
+export interface BudgetLimitedCampaignOptions {
+  minBudgetUtilization: number;  // Average daily spend over daily budget
+  minRoasMultiple: number;       // Campaign ROAS over account ROAS
+  minRoas: number;
+  budgetIncrease: number;        // Suggested increase, as a fraction of the budget
+}
+
+/**
+ * Enabled campaigns spending their whole budget at a ROAS well above the account's
+ *
+ * The projected value assumes the extra budget returns the campaign's
+ * current ROAS, so it is an upper bound.
+ */
+export function budgetLimitedCampaignRule(
+  options: Partial<BudgetLimitedCampaignOptions> = {}
+): RecommendationRule<BudgetLimitedCampaignEvidence> {
+  const settings: BudgetLimitedCampaignOptions = {
+    minBudgetUtilization: 0.9,
+    minRoasMultiple: 1.25,
+    minRoas: 1,
+    budgetIncrease: 0.2,
+    ...options,
+  };
+
+  return {
+    id: 'budget-limited-high-roas',
+    type: 'campaign_optimization',
+    description: 'Campaigns limited by budget with a ROAS above the account average',
+    requires: ['campaigns'],
+    evaluate(context) {
+      const cost = context.campaigns.reduce((sum, campaign) => sum + campaign.metrics.cost, 0);
+      const value = context.campaigns.reduce((sum, campaign) => sum + campaign.metrics.conversionsValue, 0);
+      if (cost === 0 || value === 0) return [];
+      const accountRoas = value / cost;
+
+      return context.campaigns.flatMap(campaign => {
+        const { cost: spend, conversionsValue } = campaign.metrics;
+        if (campaign.status !== 'ENABLED' || campaign.budget <= 0 || spend === 0) return [];
+
+        const averageDailySpend = spend / context.days;
+        const utilization = averageDailySpend / campaign.budget;
+        const roas = conversionsValue / spend;
+        if (utilization < settings.minBudgetUtilization || roas < settings.minRoas || roas < accountRoas * settings.minRoasMultiple) {
+          return [];
+        }
+
+        const suggestedDailyBudget = round(campaign.budget * (1 + settings.budgetIncrease));
+        const projectedAdditionalValue = round(conversionsValue * settings.budgetIncrease);
+        const impact = projectedAdditionalValue / value;
+
+        return [{
+          subject: `campaign:${campaign.id}`,
+          title: `Raise the budget of "${campaign.name}"`,
+          description: `"${campaign.name}" spends ${percent(utilization)} of its ${campaign.budget.toFixed(2)} daily budget ` +
+            `at a ROAS of ${round(roas)} against ${round(accountRoas)} for the account. Raising the budget to ` +
+            `${suggestedDailyBudget.toFixed(2)} could add up to ${projectedAdditionalValue.toFixed(2)} in conversion value ` +
+            `over ${context.days} days, if the extra spend converts as well.`,
+          priority: roas >= accountRoas * 2 ? 'high' : priorityForImpact(impact),
+          estimatedImpact: impact,
+          evidence: {
+            campaignId: campaign.id,
+            campaignName: campaign.name,
+            dailyBudget: campaign.budget,
+            averageDailySpend: round(averageDailySpend),
+            budgetUtilization: round(utilization, 3),
+            roas: round(roas),
+            accountRoas: round(accountRoas),
+            conversionsValue: round(conversionsValue),
+            suggestedDailyBudget,
+            projectedAdditionalValue,
+          },
+        }];
+      });
+    },
+  };
+}
+
+export interface ZeroConversionKeywordEvidence {
+  criterionId: string;
+  keyword: string;
+  matchType: string;
+  adGroupId: string;
+  adGroupName: string;
+  campaignId: string;
+  cost: number;
+  clicks: number;
+  impressions: number;
+  accountCpa: number | null;
+  spendThreshold: number;
+  shareOfSpend: number;
+}
+
+export interface ZeroConversionKeywordOptions {
+  minSpend: number;     // Spend below this is never flagged
+  cpaMultiple: number;  // Flag keywords that spent this many account CPAs without converting
+}
+
+/**
+ * Enabled keywords that spent well past the account CPA without a conversion
+ */
+export function zeroConversionKeywordRule(
+  options: Partial<ZeroConversionKeywordOptions> = {}
+): RecommendationRule<ZeroConversionKeywordEvidence> {
+  const settings: ZeroConversionKeywordOptions = { minSpend: 20, cpaMultiple: 1.5, ...options };
+
+  return {
+    id: 'zero-conversion-keywords',
+    type: 'keyword_optimization',
+    description: 'Keywords spending without conversions',
+    requires: ['campaigns', 'keywords'],
+    evaluate(context) {
+      // Account totals come from campaigns when available, as keywords are only the top ones
+      const totals = context.campaigns.length ? context.campaigns : context.keywords;
+      const cost = totals.reduce((sum, row) => sum + row.metrics.cost, 0);
+      const conversions = totals.reduce((sum, row) => sum + row.metrics.conversions, 0);
+      const accountCpa = conversions > 0 ? cost / conversions : null;
+      const spendThreshold = Math.max(settings.minSpend, accountCpa ? accountCpa * settings.cpaMultiple : 0);
+
+      return context.keywords.flatMap(keyword => {
+        const { cost: spend, conversions: keywordConversions } = keyword.metrics;
+        if (keyword.status !== 'ENABLED' || keywordConversions > 0 || spend < spendThreshold) return [];
+
+        const shareOfSpend = cost > 0 ? spend / cost : 0;
+        return [{
+          subject: `keyword:${keyword.adGroupId}~${keyword.criterionId}`,
+          title: `Pause or refine "${keyword.text}" (${keyword.matchType.toLowerCase()})`,
+          description: `"${keyword.text}" in ${keyword.adGroupName} spent ${spend.toFixed(2)} on ${keyword.metrics.clicks} clicks ` +
+            `from ${context.startDate} to ${context.endDate} without a conversion` +
+            (accountCpa ? `, ${round(spend / accountCpa, 1)}x the account CPA of ${accountCpa.toFixed(2)}.` : '.') +
+            ' Pause it, tighten its match type or add negatives for its search terms.',
+          priority: spend >= spendThreshold * 3 ? 'high' : spend >= spendThreshold * 1.5 ? 'medium' : 'low',
+          estimatedImpact: shareOfSpend,
+          evidence: {
+            criterionId: keyword.criterionId,
+            keyword: keyword.text,
+            matchType: keyword.matchType,
+            adGroupId: keyword.adGroupId,
+            adGroupName: keyword.adGroupName,
+            campaignId: keyword.campaignId,
+            cost: round(spend),
+            clicks: keyword.metrics.clicks,
+            impressions: keyword.metrics.impressions,
+            accountCpa: accountCpa === null ? null : round(accountCpa),
+            spendThreshold: round(spendThreshold),
+            shareOfSpend: round(shareOfSpend, 4),
+          },
+        }];
+      });
+    },
+  };
+}
+
+export interface HighBounceLandingPageEvidence {
+  pagePath: string;
+  sessions: number;
+  bounceRate: number;
+  siteMedianBounceRate: number;
+  sessionShare: number;
+  excessBounces: number;
+  pagesCompared: number;
+}
+
+export interface HighBounceLandingPageOptions {
+  minSessions: number;     // Pages with fewer sessions are neither flagged nor part of the median
+  minPages: number;        // Pages needed for a meaningful median
+  minExcess: number;       // Bounce rate points above the median
+  minRatio: number;        // Bounce rate over the median
+}
+
+/**
+ * Landing pages bouncing far more than the site's median landing page
+ *
+ * The impact is the share of site sessions that would stop bouncing if
+ * the page bounced at the median rate.
+ */
+export function highBounceLandingPageRule(
+  options: Partial<HighBounceLandingPageOptions> = {}
+): RecommendationRule<HighBounceLandingPageEvidence> {
+  const settings: HighBounceLandingPageOptions = { minSessions: 100, minPages: 5, minExcess: 0.15, minRatio: 1.3, ...options };
+
+  return {
+    id: 'high-bounce-landing-pages',
+    type: 'landing_page',
+    description: 'Landing pages with a bounce rate far above the site median',
+    requires: ['landingPages'],
+    evaluate(context) {
+      const pages = context.landingPages.filter(page => page.sessions >= settings.minSessions);
+      if (pages.length < settings.minPages) return [];
+
+      const siteSessions = context.landingPages.reduce((sum, page) => sum + page.sessions, 0);
+      const median = medianOf(pages.map(page => page.bounceRate));
+
+      return pages.flatMap(page => {
+        const excess = page.bounceRate - median;
+        if (excess < settings.minExcess || page.bounceRate < median * settings.minRatio) return [];
+
+        const excessBounces = Math.round(page.sessions * excess);
+        const impact = siteSessions > 0 ? excessBounces / siteSessions : 0;
+        return [{
+          subject: `landing_page:${page.path}`,
+          title: `Reduce bounces on ${page.path}`,
+          description: `${page.path} bounced ${percent(page.bounceRate)} of its ${page.sessions} sessions from ` +
+            `${context.startDate} to ${context.endDate}, against a median of ${percent(median)} across ` +
+            `${pages.length} landing pages: about ${excessBounces} extra bounces. Check that it matches the ads and ` +
+            'links sending traffic to it and that it loads quickly on mobile.',
+          priority: priorityForImpact(impact, 0.05, 0.01),
+          estimatedImpact: impact,
+          evidence: {
+            pagePath: page.path,
+            sessions: page.sessions,
+            bounceRate: round(page.bounceRate, 4),
+            siteMedianBounceRate: round(median, 4),
+            sessionShare: siteSessions > 0 ? round(page.sessions / siteSessions, 4) : 0,
+            excessBounces,
+            pagesCompared: pages.length,
+          },
+        }];
+      });
+    },
+  };
+}
+
+/**
+ * Registry with the built-in rules
+ */
+export function createDefaultRuleRegistry(): RecommendationRuleRegistry {
+  return new RecommendationRuleRegistry()
+    .register(budgetLimitedCampaignRule())
+    .register(zeroConversionKeywordRule())
+    .register(highBounceLandingPageRule());
+}
@@ -0,0 +1,59 @@
+/**
+ * Recommendation Server Wiring
+ *
+ * A RecommendationEngine reading through the shared stdio connections to
+ * the ga4-analytics-mcp and google-ads-mcp servers.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServiceClient, getOptionalMCPServerClient } from './campaignMutationServer';
+import { MCPToolCallError } from './mcpToolCall';
+import { SupabaseRecommendationStore } from './recommendationStore';
+import { MCPRecommendationDataSource, RecommendationEngine, RecommendationError } from './recommendationEngine';
+
+let recommendationEngine: RecommendationEngine | null = null;
+
+/**
+ * Shared engine with the built-in rules; the MCP connections are opened on first use
+ *
+ * Rules run on whichever server is reachable, with the data sets of the
+ * other one left empty; listing and status changes need neither. The
+ * engine is only kept once both are connected, so a missing server is
+ * tried again on the next request.
+ */
+export async function getRecommendationEngine(): Promise<RecommendationEngine> {
+  if (recommendationEngine) {
+    return recommendationEngine;
+  }
+
+  const [ga4, ads] = await Promise.all([
+    getOptionalMCPServerClient('ga4-analytics-mcp'),
+    getOptionalMCPServerClient('google-ads-mcp'),
+  ]);
+  const engine = new RecommendationEngine(
+    new MCPRecommendationDataSource(ga4, ads),
+    new SupabaseRecommendationStore(getServiceClient())
+  );
+  if (ga4 && ads) {
+    recommendationEngine = engine;
+  }
+  return engine;
+}
+
+/**
+ * JSON error response for a failed recommendation request; MCP tool failures are 502s
+ */
+export function recommendationErrorResponse(error: unknown): NextResponse {
+  if (error instanceof RecommendationError || error instanceof MCPToolCallError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details ?? null },
+      { status: error instanceof RecommendationError ? error.status : 502 }
+    );
+  }
+
+  console.error('[Recommendations] Request failed:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Recommendation Store
+ *
+ * Rows of public.recommendations written by the generated recommendation
+ * services. Generated rows carry an evidence payload and a dedupe key
+ * (recommendations-evidence.sql), so rerunning a generator over the same
+ * data leaves the recommendations it already wrote, and their status,
+ * untouched.
+ *
+ * A recommendation moves pending → in_progress → completed, and can be
+ * dismissed until it is completed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type RecommendationPriority = 'low' | 'medium' | 'high';
+
+export type RecommendationStatus = 'pending' | 'in_progress' | 'completed' | 'dismissed';
+
+// A row of public.recommendations
+export interface Recommendation {
+  id: string;
+  account_id: string;
+  type: string;
+  priority: RecommendationPriority;
+  title: string;
+  description: string;
+  status: RecommendationStatus;
+  estimated_impact: number | null;
+  evidence: Record<string, unknown>;
+  dedupe_key: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewRecommendation = Omit<Recommendation, 'id' | 'status' | 'created_at' | 'updated_at'>;
+
+export interface RecommendationFilter {
+  accountIds: string[];
+  status?: RecommendationStatus[];
+  type?: string[];
+  limit?: number;
+}
+
+export interface RecommendationStore {
+  // Inserts recommendations whose dedupe key is new for the account and returns them
+  upsertRecommendations(recommendations: NewRecommendation[]): Promise<Recommendation[]>;
+  getRecommendation(id: string): Promise<Recommendation | null>;
+  listRecommendations(filter: RecommendationFilter): Promise<Recommendation[]>;
+  // Only updates a recommendation still in expectedStatus, so concurrent transitions cannot both win
+  updateRecommendationStatus(
+    id: string,
+    expectedStatus: RecommendationStatus,
+    status: RecommendationStatus
+  ): Promise<Recommendation | null>;
+}
+
+export const RECOMMENDATION_TRANSITIONS: Record<RecommendationStatus, RecommendationStatus[]> = {
+  pending: ['in_progress', 'dismissed'],
+  in_progress: ['completed', 'dismissed'],
+  completed: [],
+  dismissed: [],
+};
+
+// Statuses a recommendation is still open in
+export const OPEN_RECOMMENDATION_STATUSES: RecommendationStatus[] = ['pending', 'in_progress'];
+
+/**
+ * Whether a recommendation may move from one status to another
+ */
+export function canTransitionRecommendation(from: RecommendationStatus, to: RecommendationStatus): boolean {
+  return RECOMMENDATION_TRANSITIONS[from].includes(to);
+}
+
+// estimated_impact is DECIMAL(5,4)
+const MAX_ESTIMATED_IMPACT = 9.9999;
+
+/**
+ * Round and clamp an impact estimate to what estimated_impact can hold
+ */
+export function toEstimatedImpact(value: number): number {
+  return Math.round(Math.min(Math.abs(value), MAX_ESTIMATED_IMPACT) * 10000) / 10000;
+}
+
+/**
+ * Recommendations in Supabase
+ *
+ * Expects a service-role client: access is checked by the API routes.
+ */
+export class SupabaseRecommendationStore implements RecommendationStore {
+  constructor(private supabase: SupabaseClient) {}
+
+  async upsertRecommendations(recommendations: NewRecommendation[]): Promise<Recommendation[]> {
+    if (recommendations.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('recommendations')
+      .upsert(recommendations, { onConflict: 'account_id,dedupe_key', ignoreDuplicates: true })
+      .select();
+    if (error) {
+      throw new Error(`Failed to store recommendations: ${error.message}`);
+    }
+    return (data || []) as Recommendation[];
+  }
+
+  async getRecommendation(id: string): Promise<Recommendation | null> {
+    const { data, error } = await this.supabase.from('recommendations').select('*').eq('id', id).maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load recommendation ${id}: ${error.message}`);
+    }
+    return data as Recommendation | null;
+  }
+
+  async listRecommendations(filter: RecommendationFilter): Promise<Recommendation[]> {
+    if (filter.accountIds.length === 0) {
+      return [];
+    }
+
+    let query = this.supabase.from('recommendations').select('*').in('account_id', filter.accountIds);
+    if (filter.status?.length) query = query.in('status', filter.status);
+    if (filter.type?.length) query = query.in('type', filter.type);
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(filter.limit || 50);
+    if (error) {
+      throw new Error(`Failed to list recommendations: ${error.message}`);
+    }
+    return (data || []) as Recommendation[];
+  }
+
+  async updateRecommendationStatus(
+    id: string,
+    expectedStatus: RecommendationStatus,
+    status: RecommendationStatus
+  ): Promise<Recommendation | null> {
+    const { data, error } = await this.supabase
+      .from('recommendations')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', expectedStatus)
+      .select()
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to update recommendation ${id}: ${error.message}`);
+    }
+    return data as Recommendation | null;
+  }
+}
@@ -40,6 +40,7 @@ export interface Account {
   property_name: string
   timezone?: string
   currency_code?: string
+  google_ads_customer_id?: string | null
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,13 @@
+-- Evidence and deduplication for public.recommendations
+-- Written by generated recommendations (MetricAnomalyService) through the service role
+
+ALTER TABLE public.recommendations
+  ADD COLUMN IF NOT EXISTS evidence JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+
+-- A rerun over the same dates finds the recommendations it already wrote
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recommendations_dedupe_key
+  ON public.recommendations(account_id, dedupe_key);
+
+CREATE INDEX IF NOT EXISTS idx_recommendations_account_status
+  ON public.recommendations(account_id, status, created_at DESC);
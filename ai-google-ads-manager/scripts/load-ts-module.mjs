@@ -0,0 +1,55 @@
+/**
+ * Loads a server-side TypeScript module of the app for the node test
+ * scripts: transpiles it and its relative and `@/` imports to CommonJS
+ * with the project's TypeScript, and requires everything else from
+ * node_modules. Type-only imports are dropped by the transpiler.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const nodeRequire = createRequire(import.meta.url);
+const modules = new Map();
+
+function resolveSource(request) {
+  for (const candidate of [request, `${request}.ts`, `${request}.tsx`, path.join(request, 'index.ts')]) {
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+      return candidate;
+    }
+  }
+  throw new Error(`Cannot resolve ${request}`);
+}
+
+export function loadTsModule(file) {
+  const filename = resolveSource(path.resolve(ROOT, file));
+  const cached = modules.get(filename);
+  if (cached) {
+    return cached.exports;
+  }
+
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  });
+
+  const loaded = { exports: {} };
+  modules.set(filename, loaded);
+  const require = specifier => {
+    if (specifier.startsWith('.')) return loadTsModule(path.resolve(path.dirname(filename), specifier));
+    if (specifier.startsWith('@/')) return loadTsModule(path.join(ROOT, specifier.slice(2)));
+    return nodeRequire(specifier);
+  };
+  new Function('exports', 'require', 'module', '__filename', '__dirname', outputText)(
+    loaded.exports, require, loaded, filename, path.dirname(filename)
+  );
+  return loaded.exports;
+}
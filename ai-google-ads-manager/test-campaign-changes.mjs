@@ -0,0 +1,437 @@
+/**
+ * Campaign change tests: approval threshold and status-change exemption,
+ * approver roles and second approvers, drift and mutation failures, the
+ * audit rows of each step and the customers GET /api/campaigns/changes
+ * lists, with a fake mutate adapter and store in place of google-ads-mcp
+ * and Supabase
+ *
+ * Run: node test-campaign-changes.mjs
+ */
+
+import assert from 'assert';
+import { loadTsModule } from './scripts/load-ts-module.mjs';
+
+console.log('🧪 CAMPAIGN CHANGES: proposals, approvals and audit log');
+console.log('=======================================================\n');
+
+const {
+  CampaignMutationService,
+  evaluateApproval,
+  loadCampaignChangePolicy,
+} = loadTsModule('lib/mcp/services/campaignMutationService.ts');
+const { MCPToolCallError } = loadTsModule('lib/mcp/services/mcpToolCall.ts');
+const { MCPGoogleAdsMutateAdapter } = loadTsModule('lib/mcp/services/googleAdsMutateAdapter.ts');
+const changeServer = loadTsModule('lib/mcp/services/campaignMutationServer.ts');
+const changesRoute = loadTsModule('app/api/campaigns/changes/route.ts');
+
+const CUSTOMER_ID = '1234567890';
+const OTHER_CUSTOMER_ID = '9876543210';
+const FIELDS = ['status', 'dailyBudget', 'targetCpa', 'targetRoas'];
+
+const MANAGER = { id: 'manager-1', role: 'manager' };
+const OTHER_MANAGER = { id: 'manager-2', role: 'manager' };
+const ADMIN = { id: 'admin-1', role: 'admin' };
+const USER = { id: 'user-1', role: 'user' };
+const OTHER_USER = { id: 'user-2', role: 'user' };
+
+// Campaign settings of one customer, changed like update_campaign changes them
+class FakeMutateAdapter {
+  constructor() {
+    this.campaigns = new Map([
+      ['1001', { name: 'Brand', settings: { status: 'ENABLED', dailyBudget: 100, biddingStrategyType: 'TARGET_ROAS', targetRoas: 4 } }],
+      ['1002', { name: 'Shoes', settings: { status: 'PAUSED', dailyBudget: 50, biddingStrategyType: 'MAXIMIZE_CONVERSIONS' } }],
+    ]);
+    this.applied = [];
+    this.applyError = null;
+  }
+
+  async preview(change) {
+    return this.result(change, true);
+  }
+
+  async apply(change) {
+    if (this.applyError) {
+      throw this.applyError;
+    }
+    const result = this.result(change, false);
+    this.campaigns.get(change.campaignId).settings = result.after;
+    this.applied.push(change);
+    return result;
+  }
+
+  result(change, validateOnly) {
+    const campaign = this.campaigns.get(change.campaignId);
+    if (!campaign) {
+      throw new MCPToolCallError(`Campaign ${change.campaignId} not found`, 'INVALID_TOOL_PARAMS', { tool: 'update_campaign' });
+    }
+    const before = { ...campaign.settings };
+    const after = { ...before };
+    const changes = [];
+    for (const field of FIELDS) {
+      if (change[field] !== undefined && change[field] !== before[field]) {
+        changes.push({ field, from: before[field] ?? null, to: change[field] });
+        after[field] = change[field];
+      }
+    }
+    return {
+      customerId: change.customerId || CUSTOMER_ID,
+      campaignId: change.campaignId,
+      campaignName: campaign.name,
+      validateOnly,
+      before,
+      after,
+      changes,
+      resourceNames: validateOnly ? [] : [`customers/${CUSTOMER_ID}/campaigns/${change.campaignId}`],
+    };
+  }
+}
+
+// campaign_change_proposals and campaign_change_audit_log in memory
+class FakeChangeStore {
+  constructor() {
+    this.proposals = new Map();
+    this.auditLog = [];
+    this.failAuditAction = null;
+    this.failUpdateStatus = null;
+  }
+
+  async insertProposal(proposal) {
+    const id = `proposal-${this.proposals.size + 1}`;
+    const row = { ...proposal, id, created_at: '2026-10-01T00:00:00Z', updated_at: '2026-10-01T00:00:00Z' };
+    this.proposals.set(id, row);
+    return { ...row };
+  }
+
+  async getProposal(id) {
+    const row = this.proposals.get(id);
+    return row ? { ...row } : null;
+  }
+
+  async updateProposal(id, expectedStatus, updates) {
+    if (updates.status === this.failUpdateStatus) {
+      throw new Error(`Failed to update campaign change ${id}: connection reset`);
+    }
+    const row = this.proposals.get(id);
+    if (!row || row.status !== expectedStatus) {
+      return null;
+    }
+    Object.assign(row, updates);
+    return { ...row };
+  }
+
+  async listProposals(filter = {}) {
+    return [...this.proposals.values()].filter(row =>
+      (!filter.customerId || row.customer_id === filter.customerId) &&
+      (!filter.customerIds || filter.customerIds.includes(row.customer_id))
+    );
+  }
+
+  async appendAudit(event) {
+    if (event.action === this.failAuditAction) {
+      throw new Error('Failed to write campaign change audit log: connection reset');
+    }
+    this.auditLog.push(event);
+  }
+
+  actions(proposalId) {
+    return this.auditLog.filter(event => event.proposal_id === proposalId).map(event => event.action);
+  }
+}
+
+function createService() {
+  const adapter = new FakeMutateAdapter();
+  const store = new FakeChangeStore();
+  const service = new CampaignMutationService(adapter, store, { approvalThresholdPercent: 20 });
+  return { adapter, store, service };
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+test('budget changes within the threshold are applied right away', async () => {
+  const { adapter, store, service } = createService();
+
+  const proposal = await service.propose({ campaignId: '1001', dailyBudget: 120 }, MANAGER);
+  assert.strictEqual(proposal.status, 'applied');
+  assert.strictEqual(proposal.requires_approval, false);
+  assert.deepStrictEqual(proposal.resource_names, [`customers/${CUSTOMER_ID}/campaigns/1001`]);
+  assert.deepStrictEqual(adapter.applied, [{ campaignId: '1001', dailyBudget: 120, customerId: CUSTOMER_ID }]);
+  assert.strictEqual(adapter.campaigns.get('1001').settings.dailyBudget, 120);
+  assert.deepStrictEqual(store.actions(proposal.id), ['proposed', 'applied']);
+});
+
+test('budget and target changes above the threshold wait for approval', async () => {
+  const { adapter, store, service } = createService();
+
+  const proposal = await service.propose({ campaignId: '1001', dailyBudget: 130, targetRoas: 4.4 }, MANAGER);
+  assert.strictEqual(proposal.status, 'pending_approval');
+  assert.strictEqual(proposal.requires_approval, true);
+  assert.strictEqual(proposal.approval_reason, 'dailyBudget changes by 30% (threshold 20%)');
+  assert.deepStrictEqual(proposal.diff, [
+    { field: 'dailyBudget', from: 100, to: 130 },
+    { field: 'targetRoas', from: 4, to: 4.4 },
+  ]);
+  assert.deepStrictEqual(adapter.applied, []);
+  assert.deepStrictEqual(store.actions(proposal.id), ['proposed']);
+
+  // A bidding target set for the first time has no baseline to compare with
+  const firstTarget = await service.propose({ campaignId: '1002', targetCpa: 12 }, MANAGER);
+  assert.strictEqual(firstTarget.status, 'pending_approval');
+  assert.strictEqual(firstTarget.approval_reason, 'targetCpa is set for the first time');
+});
+
+test('the threshold is inclusive and read from the environment', () => {
+  const policy = loadCampaignChangePolicy({ CAMPAIGN_CHANGE_APPROVAL_THRESHOLD_PERCENT: '20' });
+  assert.deepStrictEqual(policy, { approvalThresholdPercent: 20 });
+  assert.deepStrictEqual(loadCampaignChangePolicy({ CAMPAIGN_CHANGE_APPROVAL_THRESHOLD_PERCENT: 'lots' }), { approvalThresholdPercent: 20 });
+  assert.deepStrictEqual(loadCampaignChangePolicy({ CAMPAIGN_CHANGE_APPROVAL_THRESHOLD_PERCENT: '5' }), { approvalThresholdPercent: 5 });
+
+  assert.strictEqual(evaluateApproval([{ field: 'dailyBudget', from: 100, to: 120 }], policy, 'manager').required, false);
+  assert.strictEqual(evaluateApproval([{ field: 'dailyBudget', from: 100, to: 79.9 }], policy, 'manager').required, true);
+});
+
+test('status changes by managers are exempt from approval', async () => {
+  const { store, service } = createService();
+
+  const proposal = await service.propose({ campaignId: '1001', status: 'PAUSED' }, MANAGER);
+  assert.strictEqual(proposal.status, 'applied');
+  assert.strictEqual(proposal.requires_approval, false);
+  assert.deepStrictEqual(store.actions(proposal.id), ['proposed', 'applied']);
+
+  const admin = await service.propose({ campaignId: '1002', status: 'ENABLED' }, ADMIN);
+  assert.strictEqual(admin.status, 'applied');
+});
+
+test('every change proposed without the manager role waits for approval', async () => {
+  const { adapter, service } = createService();
+
+  const status = await service.propose({ campaignId: '1001', status: 'PAUSED' }, USER);
+  assert.strictEqual(status.status, 'pending_approval');
+  assert.strictEqual(status.approval_reason, 'proposed by a user without the manager role');
+
+  const budget = await service.propose({ campaignId: '1001', dailyBudget: 105 }, USER);
+  assert.strictEqual(budget.status, 'pending_approval');
+  assert.deepStrictEqual(adapter.applied, []);
+});
+
+test('proposals without changes are refused', async () => {
+  const { store, service } = createService();
+
+  await assert.rejects(service.propose({ campaignId: '1001', dailyBudget: 100 }, MANAGER), { code: 'NO_CHANGES', status: 400 });
+  await assert.rejects(service.propose({ campaignId: '9999', status: 'PAUSED' }, MANAGER), { code: 'INVALID_TOOL_PARAMS', status: 400 });
+  assert.strictEqual(store.proposals.size, 0);
+});
+
+test('only a second approver with the manager role can approve', async () => {
+  const { adapter, store, service } = createService();
+  const proposal = await service.propose({ campaignId: '1001', dailyBudget: 150 }, MANAGER);
+
+  await assert.rejects(service.approve(proposal.id, USER), { code: 'FORBIDDEN', status: 403 });
+  await assert.rejects(service.approve(proposal.id, MANAGER), {
+    code: 'FORBIDDEN',
+    message: 'Campaign changes need a second approver other than the proposer',
+  });
+  assert.deepStrictEqual(adapter.applied, []);
+
+  const applied = await service.approve(proposal.id, OTHER_MANAGER, 'Seasonal push');
+  assert.strictEqual(applied.status, 'applied');
+  assert.strictEqual(applied.approved_by, OTHER_MANAGER.id);
+  assert.strictEqual(applied.decision_note, 'Seasonal push');
+  assert.strictEqual(adapter.campaigns.get('1001').settings.dailyBudget, 150);
+  assert.deepStrictEqual(store.actions(proposal.id), ['proposed', 'approved', 'applied']);
+
+  await assert.rejects(service.approve(proposal.id, ADMIN), { code: 'INVALID_STATE', status: 409 });
+  await assert.rejects(service.approve('proposal-42', ADMIN), { code: 'NOT_FOUND', status: 404 });
+});
+
+test('managers and the proposer can reject', async () => {
+  const { adapter, store, service } = createService();
+  const own = await service.propose({ campaignId: '1001', status: 'PAUSED' }, USER);
+  const other = await service.propose({ campaignId: '1002', status: 'ENABLED' }, USER);
+
+  await assert.rejects(service.reject(own.id, OTHER_USER), { code: 'FORBIDDEN', status: 403 });
+
+  const withdrawn = await service.reject(own.id, USER);
+  assert.strictEqual(withdrawn.status, 'rejected');
+  assert.strictEqual(withdrawn.approved_by, null);
+
+  const rejected = await service.reject(other.id, MANAGER, 'Keep it paused');
+  assert.strictEqual(rejected.decision_note, 'Keep it paused');
+  assert.deepStrictEqual(store.actions(other.id), ['proposed', 'rejected']);
+  assert.deepStrictEqual(adapter.applied, []);
+});
+
+test('a campaign changed since the proposal fails with a 409', async () => {
+  const { adapter, store, service } = createService();
+  const proposal = await service.propose({ campaignId: '1001', dailyBudget: 150 }, MANAGER);
+
+  // Someone edits the budget in the Google Ads UI in the meantime
+  adapter.campaigns.get('1001').settings.dailyBudget = 110;
+
+  await assert.rejects(service.approve(proposal.id, OTHER_MANAGER), error => {
+    assert.strictEqual(error.code, 'CAMPAIGN_DRIFTED');
+    assert.strictEqual(error.status, 409);
+    assert.strictEqual(error.details.proposed.dailyBudget, 100);
+    assert.strictEqual(error.details.current.dailyBudget, 110);
+    return true;
+  });
+  assert.deepStrictEqual(adapter.applied, []);
+
+  const failed = await store.getProposal(proposal.id);
+  assert.strictEqual(failed.status, 'failed');
+  assert.match(failed.error, /^CAMPAIGN_DRIFTED: Campaign 1001 changed since the proposal: dailyBudget$/);
+  assert.deepStrictEqual(store.actions(proposal.id), ['proposed', 'approved', 'failed']);
+  assert.strictEqual(store.auditLog.at(-1).details.code, 'CAMPAIGN_DRIFTED');
+});
+
+test('a mutation Google Ads refuses marks the proposal failed', async () => {
+  const { adapter, store, service } = createService();
+  adapter.applyError = new MCPToolCallError('Budget amount is too low', 'GOOGLE_ADS_MUTATE_REJECTED', {
+    tool: 'update_campaign',
+    details: { field: 'amountMicros' },
+  });
+
+  const proposal = await service.propose({ campaignId: '1001', dailyBudget: 110 }, MANAGER);
+  assert.strictEqual(proposal.status, 'failed');
+  assert.strictEqual(proposal.error, 'GOOGLE_ADS_MUTATE_REJECTED: Budget amount is too low');
+  assert.deepStrictEqual(store.actions(proposal.id), ['proposed', 'failed']);
+  assert.deepStrictEqual(store.auditLog.at(-1).details, {
+    code: 'GOOGLE_ADS_MUTATE_REJECTED',
+    message: 'Budget amount is too low',
+    details: { tool: 'update_campaign', details: { field: 'amountMicros' } },
+  });
+});
+
+test('update_campaign tool errors reach the proposal with their MCP code', async () => {
+  const calls = [];
+  const client = {
+    async callTool(request) {
+      calls.push(request);
+      return request.arguments.validateOnly
+        ? { content: [{ type: 'text', text: JSON.stringify(new FakeMutateAdapter().result(request.arguments, true)) }] }
+        : { isError: true, content: [{ type: 'text', text: 'Error [GOOGLE_ADS_MUTATE_REJECTED]: Budget amount is too low\nDetails: {"field":"amountMicros"}' }] };
+    },
+  };
+  const store = new FakeChangeStore();
+  const service = new CampaignMutationService(new MCPGoogleAdsMutateAdapter(client), store, { approvalThresholdPercent: 20 });
+
+  const proposal = await service.propose({ campaignId: '1001', dailyBudget: 110 }, MANAGER);
+  assert.deepStrictEqual(calls.map(call => [call.name, call.arguments.validateOnly]),
+    [['update_campaign', true], ['update_campaign', true], ['update_campaign', false]]);
+  assert.strictEqual(proposal.status, 'failed');
+  assert.strictEqual(proposal.error, 'GOOGLE_ADS_MUTATE_REJECTED: Budget amount is too low');
+  assert.deepStrictEqual(store.auditLog.at(-1).details.details, { tool: 'update_campaign', details: { field: 'amountMicros' } });
+
+  // A preview Google Ads refuses is a 400 without a proposal
+  const refusing = { async callTool() { return { isError: true, content: [{ type: 'text', text: 'Error [INVALID_TOOL_PARAMS]: dailyBudget must be positive' }] }; } };
+  const refused = new CampaignMutationService(new MCPGoogleAdsMutateAdapter(refusing), new FakeChangeStore());
+  await assert.rejects(refused.propose({ campaignId: '1001', dailyBudget: -1 }, MANAGER), { code: 'INVALID_TOOL_PARAMS', status: 400 });
+});
+
+test('a failure to record an applied change is not reported as a failed mutation', async () => {
+  const { adapter, store, service } = createService();
+  store.failAuditAction = 'applied';
+
+  await assert.rejects(service.propose({ campaignId: '1001', dailyBudget: 110 }, MANAGER), error => {
+    assert.strictEqual(error.code, 'APPLIED_NOT_RECORDED');
+    assert.strictEqual(error.status, 500);
+    assert.deepStrictEqual(error.details.resourceNames, [`customers/${CUSTOMER_ID}/campaigns/1001`]);
+    return true;
+  });
+  assert.strictEqual(adapter.campaigns.get('1001').settings.dailyBudget, 110);
+
+  const [proposal] = await store.listProposals();
+  assert.strictEqual(proposal.status, 'applied');
+  assert.strictEqual(proposal.error, null);
+  assert.deepStrictEqual(store.actions(proposal.id), ['proposed']);
+});
+
+test('a failure to record a failed mutation leaves the caller its error', async () => {
+  const { adapter, store, service } = createService();
+  store.failUpdateStatus = 'failed';
+  const drifting = await service.propose({ campaignId: '1001', dailyBudget: 150 }, MANAGER);
+  adapter.campaigns.get('1001').settings.dailyBudget = 110;
+
+  await assert.rejects(service.approve(drifting.id, OTHER_MANAGER), { code: 'CAMPAIGN_DRIFTED', status: 409 });
+  assert.strictEqual((await store.getProposal(drifting.id)).status, 'approved');
+
+  store.failUpdateStatus = null;
+  store.failAuditAction = 'failed';
+  adapter.applyError = new MCPToolCallError('Budget amount is too low', 'GOOGLE_ADS_MUTATE_REJECTED', { tool: 'update_campaign' });
+  const refused = await service.propose({ campaignId: '1002', dailyBudget: 55 }, MANAGER);
+  assert.strictEqual(refused.status, 'failed');
+  assert.strictEqual(refused.error, 'GOOGLE_ADS_MUTATE_REJECTED: Budget amount is too low');
+  assert.deepStrictEqual(store.actions(refused.id), ['proposed']);
+});
+
+test('GET /api/campaigns/changes only lists customers linked to the user\'s accounts', async () => {
+  const { service } = createService();
+  await service.propose({ customerId: CUSTOMER_ID, campaignId: '1001', status: 'PAUSED' }, MANAGER);
+  await service.propose({ customerId: OTHER_CUSTOMER_ID, campaignId: '1002', status: 'ENABLED' }, OTHER_MANAGER);
+
+  // Each manager owns the account linked to one customer
+  const linked = { [MANAGER.id]: [CUSTOMER_ID], [OTHER_MANAGER.id]: [OTHER_CUSTOMER_ID] };
+  let actor = null;
+  Object.assign(changeServer, {
+    resolveChangeActor: async () => actor,
+    getCampaignMutationService: async () => service,
+    listActorCustomerIds: async ({ id }) => linked[id] || [],
+    loadActorCustomerAccount: async ({ id, role }, customerId) =>
+      role === 'admin' || (linked[id] || []).includes(changeServer.normalizeCustomerId(customerId)) ? { id: `account-of-${id}` } : null,
+  });
+  const get = async (as, query = '') => {
+    actor = as;
+    const response = await changesRoute.GET({ url: `http://localhost/api/campaigns/changes${query}` });
+    const body = await response.json();
+    return { status: response.status, body, customers: (body.proposals || []).map(proposal => proposal.customer_id) };
+  };
+
+  const forbidden = await get(MANAGER, '?customerId=987-654-3210');
+  assert.strictEqual(forbidden.status, 403);
+  assert.strictEqual(forbidden.body.code, 'CUSTOMER_NOT_LINKED');
+
+  assert.deepStrictEqual((await get(MANAGER, '?customerId=123-456-7890')).customers, [CUSTOMER_ID]);
+  assert.deepStrictEqual((await get(MANAGER)).customers, [CUSTOMER_ID]);
+  assert.deepStrictEqual((await get(OTHER_USER)).customers, []);
+  assert.deepStrictEqual((await get(ADMIN)).customers, [CUSTOMER_ID, OTHER_CUSTOMER_ID]);
+  assert.strictEqual((await get(null)).status, 401);
+});
+
+test('audit rows name the actor, customer and campaign of each step', async () => {
+  const { store, service } = createService();
+  const proposal = await service.propose({ campaignId: '1001', dailyBudget: 150 }, MANAGER);
+  await service.approve(proposal.id, ADMIN, 'ok');
+
+  assert.deepStrictEqual(store.auditLog.map(event => [event.action, event.actor_id, event.customer_id, event.campaign_id]), [
+    ['proposed', MANAGER.id, CUSTOMER_ID, '1001'],
+    ['approved', ADMIN.id, CUSTOMER_ID, '1001'],
+    ['applied', ADMIN.id, CUSTOMER_ID, '1001'],
+  ]);
+  const [proposed, approved, applied] = store.auditLog.map(event => event.details);
+  assert.deepStrictEqual(proposed, {
+    diff: [{ field: 'dailyBudget', from: 100, to: 150 }],
+    requiresApproval: true,
+    reason: 'dailyBudget changes by 50% (threshold 20%)',
+    thresholdPercent: 20,
+  });
+  assert.deepStrictEqual(approved, { note: 'ok' });
+  assert.deepStrictEqual(applied.changes, [{ field: 'dailyBudget', from: 100, to: 150 }]);
+  assert.strictEqual(applied.after.dailyBudget, 150);
+});
+
+let failed = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ❌ ${name}`);
+    console.log(`     ${error && error.message}`);
+  }
+}
+
+console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,267 @@
+/**
+ * Metric anomaly tests: injected spikes and level shifts, the alert rate on
+ * pure noise, degenerate series, backtest scoring, and the recommendations
+ * and dedupe keys the service writes, on seeded synthetic daily series
+ *
+ * Run: node test-metric-anomalies.mjs
+ */
+
+import assert from 'assert';
+import { loadTsModule } from './scripts/load-ts-module.mjs';
+
+console.log('🧪 METRIC ANOMALIES: detection, backtests and recommendations');
+console.log('=============================================================\n');
+
+const {
+  addDays,
+  backtestAnomalyDetection,
+  detectAnomalies,
+  detectSeriesAnomalies,
+  historyStartDate,
+} = loadTsModule('lib/mcp/services/metricAnomalyDetection.ts');
+const { MetricAnomalyService, toRecommendation } = loadTsModule('lib/mcp/services/metricAnomalyService.ts');
+
+// Weekly pattern of a B2C site, Sunday first
+const WEEKDAY_FACTORS = [0.6, 1, 1.05, 1, 0.95, 0.9, 0.55];
+
+function random(seed) {
+  let state = seed;
+  const uniform = () => (state = (state * 16807) % 2147483647) / 2147483647;
+  return {
+    uniform,
+    gaussian: () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform()),
+  };
+}
+
+function dates(startDate, days) {
+  return Array.from({ length: days }, (_, index) => addDays(startDate, index));
+}
+
+function weekday(date) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Daily sessions split over two channels, with optional per-channel multipliers by date
+function sessionsSeries({ seed, startDate = '2026-03-01', days = 150, paid = () => 1, organic = () => 1 }) {
+  const { gaussian } = random(seed);
+  const paidPoints = [];
+  const organicPoints = [];
+  for (const date of dates(startDate, days)) {
+    const level = 1000 * WEEKDAY_FACTORS[weekday(date)];
+    paidPoints.push({ date, value: Math.round(level * 0.7 * (1 + 0.04 * gaussian()) * paid(date)) });
+    organicPoints.push({ date, value: Math.round(level * 0.3 * (1 + 0.04 * gaussian()) * organic(date)) });
+  }
+  return {
+    source: 'ga4',
+    metric: 'sessions',
+    points: paidPoints.map((point, index) => ({ date: point.date, value: point.value + organicPoints[index].value })),
+    breakdowns: [
+      { dimension: 'sessionDefaultChannelGroup', value: 'Paid Search', points: paidPoints },
+      { dimension: 'sessionDefaultChannelGroup', value: 'Organic Search', points: organicPoints },
+    ],
+  };
+}
+
+function noiseSeries(metric, seed, build) {
+  const { gaussian } = random(seed);
+  return {
+    source: metric === 'sessions' || metric === 'conversions' ? 'ga4' : 'google_ads',
+    metric,
+    points: dates('2026-01-01', 240).map(date => ({ date, value: Math.max(0, build(date, gaussian)) })),
+  };
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+test('an injected one-day drop is a point anomaly with its channel as contributor', () => {
+  const series = sessionsSeries({ seed: 7, paid: date => (date === '2026-06-10' ? 0.3 : 1) });
+  const anomalies = detectSeriesAnomalies(series, { startDate: '2026-06-01', endDate: '2026-06-20' });
+
+  assert.strictEqual(anomalies.length, 1);
+  const [drop] = anomalies;
+  assert.strictEqual(drop.kind, 'point');
+  assert.strictEqual(drop.date, '2026-06-10');
+  assert.strictEqual(drop.startDate, '2026-06-10');
+  assert.strictEqual(drop.direction, 'down');
+  assert.strictEqual(drop.adverse, true);
+  assert.strictEqual(drop.severity, 'high');
+  assert.ok(drop.relativeChange < -0.4 && drop.relativeChange > -0.6, `relativeChange ${drop.relativeChange}`);
+  assert.ok(drop.zScore <= -3.5);
+  assert.strictEqual(drop.contributors[0].value, 'Paid Search');
+  assert.ok(drop.contributors.every(contributor => contributor.share > 0 && contributor.share <= 1));
+});
+
+test('a sustained level shift is reported once, as a changepoint starting at the shift', () => {
+  const series = sessionsSeries({ seed: 11, organic: date => (date >= '2026-07-01' ? 2.2 : 1) });
+  const anomalies = detectSeriesAnomalies(series, { startDate: '2026-06-15', endDate: '2026-07-28' });
+  const changepoints = anomalies.filter(anomaly => anomaly.kind === 'changepoint');
+
+  assert.strictEqual(changepoints.length, 1);
+  const [shift] = changepoints;
+  assert.ok(Math.abs(Date.parse(shift.startDate) - Date.parse('2026-07-01')) <= 86400000, `startDate ${shift.startDate}`);
+  assert.ok(shift.date >= shift.startDate && shift.date <= '2026-07-05', `confirmed on ${shift.date}`);
+  assert.strictEqual(shift.direction, 'up');
+  assert.strictEqual(shift.adverse, false);
+  // Organic doubles on 30% of the traffic: about +36%
+  assert.ok(shift.relativeChange > 0.25 && shift.relativeChange < 0.5, `relativeChange ${shift.relativeChange}`);
+  assert.strictEqual(shift.contributors[0].value, 'Organic Search');
+  // The baseline follows the new level, so the weeks after the shift raise nothing more
+  assert.deepStrictEqual(anomalies.filter(anomaly => anomaly.date > '2026-07-07'), []);
+});
+
+test('pure noise stays under one alert every two weeks across four metrics', () => {
+  const weekdayFactor = date => WEEKDAY_FACTORS[weekday(date)];
+  const series = [
+    noiseSeries('sessions', 11, (date, gaussian) => Math.round(1200 * weekdayFactor(date) * (1 + 0.08 * gaussian()))),
+    noiseSeries('conversions', 13, (date, gaussian) => Math.round(6 * weekdayFactor(date) + Math.sqrt(6) * gaussian())),
+    noiseSeries('spend', 17, (date, gaussian) => Math.round(300 * (1 + 0.07 * gaussian()) * 100) / 100),
+    noiseSeries('cpc', 19, (date, gaussian) => Math.round(1.2 * (1 + 0.06 * gaussian()) * 100) / 100),
+  ];
+  const result = backtestAnomalyDetection(series, { startDate: '2026-03-15', endDate: '2026-08-28' });
+
+  assert.ok(result.alertsPerWeek < 0.5, `${result.alertsPerWeek} alerts per week`);
+  assert.strictEqual(result.bySeverity.high, 0);
+  assert.strictEqual(result.anomalies.length, result.bySeverity.low + result.bySeverity.medium);
+});
+
+test('all-zero, empty and too-short series raise nothing', () => {
+  const range = { startDate: '2026-03-01', endDate: '2026-03-31' };
+  const zeros = { source: 'google_ads', metric: 'spend', points: dates('2026-01-01', 90).map(date => ({ date, value: 0 })) };
+  const empty = { source: 'ga4', metric: 'conversions', points: [] };
+  const short = { source: 'ga4', metric: 'sessions', points: dates('2026-03-10', 10).map(date => ({ date, value: 100 })) };
+
+  assert.deepStrictEqual(detectSeriesAnomalies(zeros, range), []);
+  assert.deepStrictEqual(detectSeriesAnomalies(empty, range), []);
+  assert.deepStrictEqual(detectSeriesAnomalies(short, range), []);
+  assert.deepStrictEqual(detectAnomalies([], range), []);
+
+  const result = backtestAnomalyDetection([zeros, empty], range, undefined, []);
+  assert.strictEqual(result.alertsPerWeek, 0);
+  assert.deepStrictEqual([result.evaluation.precision, result.evaluation.recall], [1, 1]);
+});
+
+test('backtests score detections against known incidents', () => {
+  const series = [sessionsSeries({
+    seed: 7,
+    paid: date => (date === '2026-06-10' ? 0.3 : 1),
+    organic: date => (date >= '2026-07-01' ? 2.2 : 1),
+  })];
+  const range = { startDate: '2026-05-01', endDate: '2026-07-28' };
+
+  const result = backtestAnomalyDetection(series, range, undefined, [
+    { metric: 'sessions', date: '2026-06-10', label: 'Tracking outage' },
+    { metric: 'sessions', date: '2026-07-01', label: 'SEO launch' },
+  ]);
+  assert.deepStrictEqual(result.evaluation.missed, []);
+  assert.strictEqual(result.evaluation.recall, 1);
+  assert.strictEqual(result.evaluation.precision, 1);
+  assert.strictEqual(result.evaluation.falsePositives, 0);
+  // The first days of the shift already stand out on their own; the changepoint follows
+  assert.deepStrictEqual(result.evaluation.detected.map(entry => entry.anomaly.date), ['2026-06-10', '2026-07-01']);
+  assert.strictEqual(result.evaluation.meanDelayDays, 0);
+  const shift = result.anomalies.find(anomaly => anomaly.kind === 'changepoint');
+  assert.strictEqual(shift.startDate, '2026-07-01');
+
+  // An incident that did not happen is missed, one of another metric does not match, and the
+  // anomalies of the unlisted shift count as false positives
+  const scored = backtestAnomalyDetection(series, range, undefined, [
+    { metric: 'sessions', date: '2026-06-10' },
+    { metric: 'sessions', date: '2026-05-20' },
+    { metric: 'spend', date: '2026-07-01' },
+  ]);
+  assert.deepStrictEqual(scored.evaluation.missed.map(incident => incident.date), ['2026-05-20', '2026-07-01']);
+  assert.strictEqual(scored.evaluation.recall, 0.333);
+  assert.strictEqual(scored.evaluation.falsePositives, result.anomalies.length - 1);
+  assert.strictEqual(scored.evaluation.precision, Math.round(1000 / result.anomalies.length) / 1000);
+});
+
+test('recommendations are keyed on the day of a spike and the start of a shift', () => {
+  const series = sessionsSeries({
+    seed: 7,
+    paid: date => (date === '2026-06-10' ? 0.3 : 1),
+    organic: date => (date >= '2026-07-01' ? 2.2 : 1),
+  });
+  const anomalies = detectSeriesAnomalies(series, { startDate: '2026-06-01', endDate: '2026-07-28' });
+  const point = anomalies.find(anomaly => anomaly.kind === 'point');
+  const shift = anomalies.find(anomaly => anomaly.kind === 'changepoint');
+
+  const spike = toRecommendation('account-1', point);
+  assert.strictEqual(spike.dedupe_key, 'anomaly:ga4:sessions:point:2026-06-10');
+  assert.strictEqual(spike.type, 'metric_anomaly');
+  assert.strictEqual(spike.priority, 'high');
+  assert.match(spike.title, /^Sessions down \d+% on 2026-06-10 \(GA4\)$/);
+  assert.strictEqual(spike.estimated_impact, Math.abs(point.relativeChange));
+
+  const changepoint = toRecommendation('account-1', shift);
+  assert.notStrictEqual(shift.date, shift.startDate);
+  assert.strictEqual(changepoint.dedupe_key, `anomaly:ga4:sessions:changepoint:${shift.startDate}`);
+  assert.strictEqual(changepoint.type, 'metric_changepoint');
+  assert.strictEqual(changepoint.evidence.date, shift.date);
+  assert.match(changepoint.description, new RegExp(`confirmed on ${shift.date}`));
+
+  // Daily runs over the last week confirm the shift once and always key it the same way
+  const keys = new Set();
+  for (const endDate of dates('2026-06-30', 14)) {
+    const range = { startDate: addDays(endDate, -6), endDate };
+    const history = { ...series, points: series.points.filter(entry => entry.date >= historyStartDate(range)) };
+    detectSeriesAnomalies(history, range)
+      .filter(anomaly => anomaly.kind === 'changepoint')
+      .forEach(anomaly => keys.add(toRecommendation('account-1', anomaly).dedupe_key));
+  }
+  assert.deepStrictEqual([...keys], [changepoint.dedupe_key]);
+});
+
+test('the service fetches baseline history and skips stored recommendations on reruns', async () => {
+  const series = sessionsSeries({ seed: 7, paid: date => (date === '2026-06-10' ? 0.3 : 1) });
+  const requests = [];
+  const source = {
+    async fetchSeries(request) {
+      requests.push(request);
+      return [{ ...series, points: series.points.filter(point => point.date >= request.startDate && point.date <= request.endDate) }];
+    },
+  };
+  const stored = new Map();
+  const store = {
+    async upsertRecommendations(recommendations) {
+      const inserted = recommendations.filter(recommendation => !stored.has(recommendation.dedupe_key));
+      inserted.forEach(recommendation => stored.set(recommendation.dedupe_key, recommendation));
+      return inserted;
+    },
+  };
+  const service = new MetricAnomalyService(source, store);
+  const request = { accountId: 'account-1', propertyId: '123456', startDate: '2026-06-08', endDate: '2026-06-14' };
+
+  const first = await service.detect(request);
+  assert.deepStrictEqual(requests[0], { propertyId: '123456', customerId: undefined, startDate: '2026-04-13', endDate: '2026-06-14' });
+  assert.deepStrictEqual(first.anomalies.map(anomaly => anomaly.date), ['2026-06-10']);
+  assert.deepStrictEqual(first.recommendations.map(recommendation => recommendation.dedupe_key), ['anomaly:ga4:sessions:point:2026-06-10']);
+
+  const rerun = await service.detect(request);
+  assert.strictEqual(rerun.anomalies.length, 1);
+  assert.deepStrictEqual(rerun.recommendations, []);
+
+  const dryRun = await service.detect({ ...request, accountId: 'account-2', dryRun: true });
+  assert.deepStrictEqual(dryRun.recommendations, []);
+  assert.strictEqual(stored.size, 1);
+
+  await assert.rejects(service.detect({ ...request, startDate: '2026-06-15' }), { code: 'INVALID_DATE_RANGE', status: 400 });
+  await assert.rejects(service.detect({ ...request, propertyId: undefined }), { code: 'NO_DATA_SOURCE', status: 400 });
+});
+
+let failed = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ❌ ${name}`);
+    console.log(`     ${error && error.message}`);
+  }
+}
+
+console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,394 @@
+/**
+ * Recommendation tests: the rule registry, the built-in rules on a fixed
+ * account snapshot, open-subject dedupe across runs and the status
+ * lifecycle, with an in-memory store and data source in place of Supabase
+ * and the MCP servers
+ *
+ * Run: node test-recommendations.mjs
+ */
+
+import assert from 'assert';
+import { loadTsModule } from './scripts/load-ts-module.mjs';
+
+console.log('🧪 RECOMMENDATIONS: rules, dedupe and lifecycle');
+console.log('===============================================\n');
+
+const {
+  budgetLimitedCampaignRule,
+  createDefaultRuleRegistry,
+  highBounceLandingPageRule,
+  zeroConversionKeywordRule,
+} = loadTsModule('lib/mcp/services/recommendationRules.ts');
+const { RecommendationEngine } = loadTsModule('lib/mcp/services/recommendationEngine.ts');
+const { canTransitionRecommendation, toEstimatedImpact } = loadTsModule('lib/mcp/services/recommendationStore.ts');
+
+const metrics = (cost, conversions, conversionsValue, clicks = 100) =>
+  ({ impressions: clicks * 10, clicks, cost, conversions, conversionsValue });
+
+// 30 days of an account: Brand is capped by its budget at a high ROAS, one broad keyword
+// burns money, and /promo bounces far more than the other landing pages
+const SNAPSHOT = {
+  campaigns: [
+    { id: '1001', name: 'Brand', status: 'ENABLED', campaignType: 'SEARCH', budget: 50, metrics: metrics(1470, 60, 9000) },
+    { id: '1002', name: 'Generic', status: 'ENABLED', campaignType: 'SEARCH', budget: 200, metrics: metrics(5000, 50, 10000) },
+    { id: '1003', name: 'PMax', status: 'ENABLED', campaignType: 'PERFORMANCE_MAX', budget: 100, metrics: metrics(2990, 20, 3000) },
+    { id: '1004', name: 'Old brand', status: 'PAUSED', campaignType: 'SEARCH', budget: 10, metrics: metrics(0, 0, 0, 0) },
+  ],
+  keywords: [
+    { criterionId: '11', text: 'cheap shoes', matchType: 'BROAD', status: 'ENABLED', adGroupId: '7', adGroupName: 'Shoes', campaignId: '1002', metrics: metrics(420, 0, 0, 300) },
+    { criterionId: '12', text: 'shoes', matchType: 'PHRASE', status: 'ENABLED', adGroupId: '7', adGroupName: 'Shoes', campaignId: '1002', metrics: metrics(100, 0, 0, 60) },
+    { criterionId: '13', text: 'buy shoes', matchType: 'EXACT', status: 'ENABLED', adGroupId: '7', adGroupName: 'Shoes', campaignId: '1002', metrics: metrics(900, 20, 4000) },
+    { criterionId: '14', text: 'free shoes', matchType: 'BROAD', status: 'PAUSED', adGroupId: '7', adGroupName: 'Shoes', campaignId: '1002', metrics: metrics(500, 0, 0, 200) },
+  ],
+  landingPages: ['/', '/a', '/b', '/c', '/d', '/promo'].map((path, index) => ({
+    path,
+    sessions: 1000 + index * 100,
+    bounceRate: path === '/promo' ? 0.8 : 0.4 + index * 0.02,
+    conversions: 5,
+  })),
+};
+
+const RANGE = { startDate: '2026-09-01', endDate: '2026-09-30' };
+const CONTEXT = { ...RANGE, days: 30, ...SNAPSHOT };
+const REQUEST = { accountId: 'account-1', propertyId: '123456', customerId: '1234567890', ...RANGE };
+
+// Rows of public.recommendations in memory
+class FakeRecommendationStore {
+  constructor() {
+    this.rows = [];
+    this.nextId = 1;
+    this.beforeUpdate = null;
+  }
+
+  async upsertRecommendations(recommendations) {
+    const inserted = recommendations
+      .filter(recommendation => !this.rows.some(row => row.account_id === recommendation.account_id && row.dedupe_key === recommendation.dedupe_key))
+      .map(recommendation => ({
+        ...recommendation,
+        id: `recommendation-${this.nextId++}`,
+        status: 'pending',
+        created_at: '2026-10-01T00:00:00Z',
+        updated_at: '2026-10-01T00:00:00Z',
+      }));
+    this.rows.push(...inserted);
+    return inserted.map(row => ({ ...row }));
+  }
+
+  async getRecommendation(id) {
+    const row = this.rows.find(entry => entry.id === id);
+    return row ? { ...row } : null;
+  }
+
+  async listRecommendations(filter) {
+    return this.rows
+      .filter(row => filter.accountIds.includes(row.account_id) && (!filter.status || filter.status.includes(row.status)))
+      .map(row => ({ ...row }));
+  }
+
+  async updateRecommendationStatus(id, expectedStatus, status) {
+    if (this.beforeUpdate) this.beforeUpdate(id);
+    const row = this.rows.find(entry => entry.id === id && entry.status === expectedStatus);
+    if (!row) return null;
+    row.status = status;
+    return { ...row };
+  }
+
+  find(dedupePrefix) {
+    return this.rows.find(row => row.dedupe_key.startsWith(dedupePrefix));
+  }
+}
+
+function createEngine(registry) {
+  const fetches = [];
+  const source = {
+    async fetchSnapshot(request, dataSets) {
+      fetches.push({ request, dataSets: [...dataSets].sort() });
+      return {
+        campaigns: dataSets.includes('campaigns') ? SNAPSHOT.campaigns : [],
+        keywords: dataSets.includes('keywords') ? SNAPSHOT.keywords : [],
+        landingPages: dataSets.includes('landingPages') ? SNAPSHOT.landingPages : [],
+      };
+    },
+  };
+  const store = new FakeRecommendationStore();
+  return { engine: new RecommendationEngine(source, store, registry), store, fetches };
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+test('the registry holds the built-in rules and refuses duplicate ids', () => {
+  const registry = createDefaultRuleRegistry();
+  assert.deepStrictEqual(registry.list().map(rule => rule.id),
+    ['budget-limited-high-roas', 'zero-conversion-keywords', 'high-bounce-landing-pages']);
+  assert.deepStrictEqual(registry.list().map(rule => rule.type), ['campaign_optimization', 'keyword_optimization', 'landing_page']);
+
+  assert.throws(() => registry.register(zeroConversionKeywordRule({ minSpend: 5 })), /already registered: zero-conversion-keywords/);
+
+  // Selected ids keep their order; unknown ones are left out
+  assert.deepStrictEqual(registry.list(['high-bounce-landing-pages', 'nope', 'budget-limited-high-roas']).map(rule => rule.id),
+    ['high-bounce-landing-pages', 'budget-limited-high-roas']);
+
+  assert.strictEqual(registry.unregister('zero-conversion-keywords'), true);
+  assert.strictEqual(registry.unregister('zero-conversion-keywords'), false);
+  assert.strictEqual(registry.get('zero-conversion-keywords'), undefined);
+  registry.register(zeroConversionKeywordRule({ minSpend: 5 }));
+  assert.strictEqual(registry.list().length, 3);
+});
+
+test('budget-limited campaigns with a high ROAS get a budget increase', () => {
+  const findings = budgetLimitedCampaignRule().evaluate(CONTEXT);
+
+  // Generic does not use its budget and PMax converts below the account ROAS of 2.33
+  assert.deepStrictEqual(findings.map(finding => finding.subject), ['campaign:1001']);
+  const [brand] = findings;
+  assert.strictEqual(brand.title, 'Raise the budget of "Brand"');
+  assert.strictEqual(brand.priority, 'high');
+  assert.strictEqual(Math.round(brand.estimatedImpact * 10000) / 10000, 0.0818);
+  assert.deepStrictEqual(brand.evidence, {
+    campaignId: '1001',
+    campaignName: 'Brand',
+    dailyBudget: 50,
+    averageDailySpend: 49,
+    budgetUtilization: 0.98,
+    roas: 6.12,
+    accountRoas: 2.33,
+    conversionsValue: 9000,
+    suggestedDailyBudget: 60,
+    projectedAdditionalValue: 1800,
+  });
+
+  assert.deepStrictEqual(budgetLimitedCampaignRule({ minBudgetUtilization: 0.99 }).evaluate(CONTEXT), []);
+});
+
+test('enabled keywords spending past the account CPA without converting are flagged', () => {
+  const findings = zeroConversionKeywordRule().evaluate(CONTEXT);
+
+  // The account CPA is 9460 / 130 = 72.77, so keywords need 109.15 of spend to be flagged
+  assert.deepStrictEqual(findings.map(finding => finding.subject), ['keyword:7~11']);
+  const [keyword] = findings;
+  assert.strictEqual(keyword.title, 'Pause or refine "cheap shoes" (broad)');
+  assert.strictEqual(keyword.priority, 'high');
+  assert.strictEqual(keyword.evidence.accountCpa, 72.77);
+  assert.strictEqual(keyword.evidence.spendThreshold, 109.15);
+  assert.strictEqual(keyword.evidence.shareOfSpend, 0.0444);
+
+  // Without campaign totals or conversions the spend floor applies
+  const keywordsOnly = { ...CONTEXT, campaigns: [], keywords: SNAPSHOT.keywords.filter(entry => entry.metrics.conversions === 0) };
+  const floor = zeroConversionKeywordRule().evaluate(keywordsOnly);
+  assert.deepStrictEqual(floor.map(finding => finding.subject), ['keyword:7~11', 'keyword:7~12']);
+  assert.strictEqual(floor[1].evidence.accountCpa, null);
+  assert.strictEqual(floor[1].evidence.spendThreshold, 20);
+});
+
+test('landing pages bouncing far above the median are flagged once there are enough pages', () => {
+  const findings = highBounceLandingPageRule().evaluate(CONTEXT);
+
+  assert.deepStrictEqual(findings.map(finding => finding.subject), ['landing_page:/promo']);
+  const [promo] = findings;
+  assert.strictEqual(promo.priority, 'high');
+  assert.strictEqual(promo.estimatedImpact, 525 / 7500);
+  assert.deepStrictEqual(promo.evidence, {
+    pagePath: '/promo',
+    sessions: 1500,
+    bounceRate: 0.8,
+    siteMedianBounceRate: 0.45,
+    sessionShare: 0.2,
+    excessBounces: 525,
+    pagesCompared: 6,
+  });
+
+  assert.deepStrictEqual(highBounceLandingPageRule({ minPages: 7 }).evaluate(CONTEXT), []);
+  assert.deepStrictEqual(highBounceLandingPageRule().evaluate({ ...CONTEXT, landingPages: [] }), []);
+});
+
+test('rules find nothing in an empty snapshot', () => {
+  const empty = { ...RANGE, days: 30, campaigns: [], keywords: [], landingPages: [] };
+  for (const rule of createDefaultRuleRegistry().list()) {
+    assert.deepStrictEqual(rule.evaluate(empty), [], rule.id);
+  }
+});
+
+test('a run records each finding with its rule, subject and period', async () => {
+  const { engine, store, fetches } = createEngine();
+
+  const result = await engine.run(REQUEST);
+  assert.deepStrictEqual(fetches[0], {
+    request: { propertyId: '123456', customerId: '1234567890', ...RANGE },
+    dataSets: ['campaigns', 'keywords', 'landingPages'],
+  });
+  assert.deepStrictEqual(result.recommendations.map(recommendation => recommendation.dedupe_key), [
+    'rule:budget-limited-high-roas:campaign:1001:2026-09-30',
+    'rule:zero-conversion-keywords:keyword:7~11:2026-09-30',
+    'rule:high-bounce-landing-pages:landing_page:/promo:2026-09-30',
+  ]);
+  assert.deepStrictEqual([result.skipped, result.ruleErrors], [0, []]);
+
+  const [budget] = result.recommendations;
+  assert.strictEqual(budget.account_id, 'account-1');
+  assert.strictEqual(budget.type, 'campaign_optimization');
+  assert.strictEqual(budget.status, 'pending');
+  assert.strictEqual(budget.estimated_impact, 0.0818);
+  assert.deepStrictEqual(
+    [budget.evidence.rule, budget.evidence.subject, budget.evidence.startDate, budget.evidence.endDate],
+    ['budget-limited-high-roas', 'campaign:1001', '2026-09-01', '2026-09-30']
+  );
+  assert.strictEqual(store.rows.length, 3);
+
+  // Only the data sets of the selected rules are fetched
+  const pages = await engine.run({ ...REQUEST, rules: ['high-bounce-landing-pages'], dryRun: true });
+  assert.deepStrictEqual(fetches[1].dataSets, ['landingPages']);
+  assert.deepStrictEqual(pages.rules, ['high-bounce-landing-pages']);
+});
+
+test('findings with an open recommendation of the same rule and subject are skipped', async () => {
+  const { engine, store } = createEngine();
+  await engine.run(REQUEST);
+
+  // The next day's run sees the same problems over a shifted period
+  const nextDay = await engine.run({ ...REQUEST, startDate: '2026-09-02', endDate: '2026-10-01' });
+  assert.strictEqual(nextDay.findings.length, 3);
+  assert.strictEqual(nextDay.skipped, 3);
+  assert.deepStrictEqual(nextDay.recommendations, []);
+
+  // In-progress ones stay open; completed and dismissed ones may be raised again
+  await engine.transition(store.find('rule:budget-limited-high-roas:').id, 'in_progress');
+  await engine.transition(store.find('rule:zero-conversion-keywords:').id, 'dismissed');
+  const promo = store.find('rule:high-bounce-landing-pages:');
+  await engine.transition(promo.id, 'in_progress');
+  await engine.transition(promo.id, 'completed');
+
+  const later = await engine.run({ ...REQUEST, startDate: '2026-09-03', endDate: '2026-10-02' });
+  assert.strictEqual(later.skipped, 1);
+  assert.deepStrictEqual(later.recommendations.map(recommendation => recommendation.dedupe_key), [
+    'rule:zero-conversion-keywords:keyword:7~11:2026-10-02',
+    'rule:high-bounce-landing-pages:landing_page:/promo:2026-10-02',
+  ]);
+
+  // Another account's recommendations do not hold back this one's
+  const other = await engine.run({ ...REQUEST, accountId: 'account-2', startDate: '2026-09-03', endDate: '2026-10-02' });
+  assert.strictEqual(other.recommendations.length, 3);
+
+  // Dry runs evaluate without writing
+  const rows = store.rows.length;
+  const dryRun = await engine.run({ ...REQUEST, accountId: 'account-3', dryRun: true });
+  assert.deepStrictEqual([dryRun.findings.length, dryRun.recommendations.length, store.rows.length], [3, 0, rows]);
+});
+
+test('custom rules run next to the built-in ones and a failing rule does not stop the others', async () => {
+  const registry = createDefaultRuleRegistry()
+    .register({
+      id: 'paused-campaigns',
+      type: 'campaign_optimization',
+      description: 'Paused campaigns',
+      requires: ['campaigns'],
+      evaluate: context => context.campaigns
+        .filter(campaign => campaign.status === 'PAUSED')
+        .map(campaign => ({
+          subject: `campaign:${campaign.id}`,
+          title: `Review paused "${campaign.name}"`,
+          description: 'Paused campaigns lose their history.',
+          priority: 'low',
+          estimatedImpact: 42,
+          evidence: { campaignId: campaign.id },
+        })),
+    })
+    .register({
+      id: 'broken',
+      type: 'campaign_optimization',
+      description: 'Always fails',
+      requires: ['keywords'],
+      evaluate: () => {
+        throw new Error('keyword metrics missing');
+      },
+    });
+  const { engine } = createEngine(registry);
+
+  const result = await engine.run({ ...REQUEST, rules: ['paused-campaigns', 'broken'] });
+  assert.deepStrictEqual(result.ruleErrors, [{ rule: 'broken', error: 'keyword metrics missing' }]);
+  assert.deepStrictEqual(result.recommendations.map(recommendation => recommendation.dedupe_key),
+    ['rule:paused-campaigns:campaign:1004:2026-09-30']);
+  // estimated_impact is DECIMAL(5,4)
+  assert.strictEqual(result.recommendations[0].estimated_impact, 9.9999);
+});
+
+test('runs reject unknown rules, bad date ranges and accounts without data sources', async () => {
+  const { engine, fetches } = createEngine();
+
+  await assert.rejects(engine.run({ ...REQUEST, rules: ['budget-limited-high-roas', 'nope'] }), error => {
+    assert.strictEqual(error.code, 'UNKNOWN_RULE');
+    assert.strictEqual(error.status, 400);
+    assert.deepStrictEqual(error.details.available,
+      ['budget-limited-high-roas', 'zero-conversion-keywords', 'high-bounce-landing-pages']);
+    return true;
+  });
+  await assert.rejects(engine.run({ ...REQUEST, startDate: '2026-10-01' }), { code: 'INVALID_DATE_RANGE' });
+  await assert.rejects(engine.run({ ...REQUEST, startDate: '2025-09-01' }), { code: 'INVALID_DATE_RANGE' });
+  await assert.rejects(engine.run({ ...REQUEST, propertyId: undefined, customerId: undefined }), { code: 'NO_DATA_SOURCE' });
+  assert.strictEqual(fetches.length, 0);
+});
+
+test('recommendations move pending → in_progress → completed and can be dismissed until then', async () => {
+  assert.strictEqual(canTransitionRecommendation('pending', 'in_progress'), true);
+  assert.strictEqual(canTransitionRecommendation('pending', 'dismissed'), true);
+  assert.strictEqual(canTransitionRecommendation('in_progress', 'completed'), true);
+  assert.strictEqual(canTransitionRecommendation('in_progress', 'dismissed'), true);
+  assert.strictEqual(canTransitionRecommendation('pending', 'completed'), false);
+  assert.strictEqual(canTransitionRecommendation('in_progress', 'pending'), false);
+  assert.strictEqual(canTransitionRecommendation('completed', 'dismissed'), false);
+  assert.strictEqual(canTransitionRecommendation('dismissed', 'pending'), false);
+
+  const { engine } = createEngine();
+  const [first, second] = (await engine.run(REQUEST)).recommendations;
+
+  assert.strictEqual((await engine.transition(first.id, 'in_progress')).status, 'in_progress');
+  assert.strictEqual((await engine.transition(first.id, 'completed')).status, 'completed');
+  await assert.rejects(engine.transition(first.id, 'dismissed'), error => {
+    assert.strictEqual(error.code, 'INVALID_STATUS_TRANSITION');
+    assert.strictEqual(error.status, 409);
+    assert.deepStrictEqual(error.details, { from: 'completed', to: 'dismissed' });
+    return true;
+  });
+
+  await assert.rejects(engine.transition(second.id, 'completed'), { code: 'INVALID_STATUS_TRANSITION' });
+  assert.strictEqual((await engine.transition(second.id, 'dismissed')).status, 'dismissed');
+  await assert.rejects(engine.transition(second.id, 'in_progress'), { code: 'INVALID_STATUS_TRANSITION' });
+});
+
+test('transitions of unknown, foreign or concurrently changed recommendations are refused', async () => {
+  const { engine, store } = createEngine();
+  const [recommendation] = (await engine.run(REQUEST)).recommendations;
+
+  await assert.rejects(engine.transition('recommendation-42', 'dismissed'), { code: 'RECOMMENDATION_NOT_FOUND', status: 404 });
+  await assert.rejects(engine.transition(recommendation.id, 'dismissed', ['account-2']), { code: 'RECOMMENDATION_NOT_FOUND', status: 404 });
+  assert.strictEqual((await store.getRecommendation(recommendation.id)).status, 'pending');
+
+  // Someone else dismisses it between the read and the update
+  store.beforeUpdate = id => {
+    store.rows.find(row => row.id === id).status = 'dismissed';
+  };
+  await assert.rejects(engine.transition(recommendation.id, 'in_progress', ['account-1']), { code: 'RECOMMENDATION_CONFLICT', status: 409 });
+});
+
+test('impact estimates are rounded and clamped to estimated_impact', () => {
+  assert.strictEqual(toEstimatedImpact(0.081818), 0.0818);
+  assert.strictEqual(toEstimatedImpact(-0.25), 0.25);
+  assert.strictEqual(toEstimatedImpact(12), 9.9999);
+});
+
+let failed = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ❌ ${name}`);
+    console.log(`     ${error && error.message}`);
+  }
+}
+
+console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+process.exit(failed > 0 ? 1 : 0);
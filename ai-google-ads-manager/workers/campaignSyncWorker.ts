@@ -36,6 +36,7 @@ interface SyncStatus {
   networkStatus: 'online' | 'offline';
 }
 
+// Replayed against /api/campaigns/:id; an UPDATE is staged there as a campaign change proposal
 interface QueuedOperation {
   id: string;
   type: 'CREATE' | 'UPDATE' | 'DELETE';
@@ -181,7 +181,7 @@ function testHealthEndpoints() {
             
             // Test /metrics endpoint
             setTimeout(() => {
-              const metricsReq = http.get('http://localhost:3003/metrics', (res) => {
+              const metricsReq = http.get('http://localhost:3003/metrics/json', (res) => {
                 let data = '';
                 res.on('data', chunk => data += chunk);
                 res.on('end', () => {
@@ -189,15 +189,15 @@ function testHealthEndpoints() {
                     const metricsData = JSON.parse(data);
                     if (metricsData.performance && metricsData.timestamp) {
                       testResults.metricsEndpoint = true;
-                      console.log('    ✅ /metrics endpoint working');
+                      console.log('    ✅ /metrics/json endpoint working');
                     }
                   } catch (e) {
-                    console.log('    ❌ /metrics endpoint invalid JSON');
+                    console.log('    ❌ /metrics/json endpoint invalid JSON');
                   }
                 });
               });
               metricsReq.on('error', () => {
-                console.log('    ❌ /metrics endpoint unreachable');
+                console.log('    ❌ /metrics/json endpoint unreachable');
               });
             }, 1000);
             
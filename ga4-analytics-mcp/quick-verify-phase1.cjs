@@ -7,7 +7,7 @@ console.log('================================================================\n'
 async function quickVerifyPhase1() {
   // Check that all files exist and build works
   const requiredFiles = [
-    'dist/utils/productionLogger.js',
+    '../mcp-shared/dist/productionLogger.js',
     'dist/utils/requestLoggingMiddleware.js',
     'dist/index.js'
   ];
@@ -26,7 +26,7 @@ async function quickVerifyPhase1() {
   
   // Check implementation in built files
   const indexBuilt = fs.readFileSync('dist/index.js', 'utf8');
-  const loggerBuilt = fs.readFileSync('dist/utils/productionLogger.js', 'utf8');
+  const loggerBuilt = fs.readFileSync('../mcp-shared/dist/productionLogger.js', 'utf8');
   
   const quickChecks = [
     {
@@ -12,13 +12,16 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   ErrorCode as MCPErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 
 // Import utilities
-import { logger, createRequestTimer } from './utils/logger.js';
-import { logger as productionLogger, setCorrelationId, getCorrelationId, loggerConfig } from './utils/productionLogger.js';
+import { logger, createRequestTimer } from '@ai-ad-manager/mcp-shared/logger';
+import { logger as productionLogger, setLogServiceName, setCorrelationId, getCorrelationId, loggerConfig } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { 
   mcpRequestLoggingMiddleware, 
   ga4RequestLoggingMiddleware, 
@@ -30,44 +33,49 @@ import { apmMonitor, withAPMTrace } from './utils/apmMonitoring.js';
 import { healthDashboard } from './utils/healthDashboard.js';
 import { ga4MetricsCollector } from './utils/ga4MetricsCollector.js';
 import { getConnectionPool, shutdownAllConnectionPools } from './utils/connectionPool.js';
-import { MCPErrorHandler, setupGlobalErrorHandlers, ErrorCode } from './utils/errorHandler.js';
-import { lifecycleManager } from './utils/lifecycle.js';
+import { MCPErrorHandler, setupGlobalErrorHandlers, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { lifecycleManager } from '@ai-ad-manager/mcp-shared/lifecycle';
 import { initializeRateLimiting, shutdownRateLimiting, getRateLimiter, mcpRateLimitingMiddleware } from './utils/rateLimitingSecurity.js';
+import { initializeTenantRateLimiting, shutdownTenantRateLimiting } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
 import { initializeCORSSecurity, getCORSManager } from './utils/corsSecurityHeaders.js';
 import { initializeProductionCache, getProductionCache, shutdownProductionCache } from './utils/productionCache.js';
+import { warmFrequentReports } from './utils/reportWarming.js';
 import { initializeAuthentication, getAuthManager, getGA4Client } from './utils/googleAuth.js';
 import { startHttpHealthServer, stopHttpHealthServer } from './utils/httpHealthServer.js';
 import { startHttpMcpBridge, HttpMcpBridge } from './utils/httpMcpBridge.js';
+import { createBridgeAuthenticator, loadBridgeAuthConfig, callerFromAuthInfo } from './utils/bridgeAuth.js';
 import { performanceMonitor } from './utils/performanceMetrics.js';
-import { initializeGA4DataClient, getGA4DataClient } from './utils/ga4DataClient.js';
-import { 
-  parseDateRange, 
-  filterGoogleAdsTraffic, 
-  sortGA4Data, 
-  limitGA4Data,
-  formatMetricValue,
-  getMetricDisplayName,
-  getDimensionDisplayName,
-  GA4_METRICS,
-  GA4_DIMENSIONS,
-  debugGA4Data
-} from './utils/ga4Utils.js';
+import { initializeGA4DataClientRegistry, getGA4DataClientRegistry } from './utils/ga4DataClient.js';
+import { createToolHandlers, getToolDefinitions, GA4DataClientResolver, GA4ToolCaller } from './tools/index.js';
+import { loadGA4RateLimitConfig } from './tools/rateLimits.js';
+import { listMetadataResources, readMetadataResource, METADATA_RESOURCE_TEMPLATES } from './resources/metadata.js';
 
 // Load environment variables
 dotenv.config();
+setLogServiceName('ga4-analytics-mcp');
 
 // Setup global error handlers
 setupGlobalErrorHandlers();
 
-// Store tool handlers globally for the bridge
-let globalToolHandlers = new Map();
+// Data clients come from the allow-listed per-property registry
+const resolveGA4DataClient: GA4DataClientResolver = (propertyId, caller) =>
+  getGA4DataClientRegistry().getClient(propertyId, caller?.allowedPropertyIds);
+
+// Tool handlers shared by the stdio server and the HTTP bridge
+const ga4ToolHandlers = createToolHandlers(resolveGA4DataClient);
+
+// Metadata resources of the properties a caller may query
+const listCallerResources = (caller?: GA4ToolCaller) =>
+  listMetadataResources(
+    getGA4DataClientRegistry().getAllowedPropertyIds()
+      .filter(propertyId => !caller?.allowedPropertyIds || caller.allowedPropertyIds.includes(propertyId))
+  );
 
 /**
- * Create and configure the MCP server
+ * Create an MCP protocol server with the GA4 tool and resource handlers.
+ * The stdio transport uses one; the HTTP bridge creates one per session.
  */
-async function createServer(): Promise<Server> {
-  logger.info('Initializing MCP server...');
-  
+function createProtocolServer(): Server {
   const server = new Server(
     {
       name: 'ga4-analytics-mcp',
@@ -76,10 +84,104 @@ async function createServer(): Promise<Server> {
     {
       capabilities: {
         tools: {},
+        resources: {},
       },
     }
   );
 
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+    const timer = createRequestTimer();
+    const requestId = logger.requestStart('list_tools');
+    
+    try {
+      logger.debug('Listing available tools');
+      
+      const tools = getToolDefinitions();
+
+      const response = { tools };
+      logger.requestEnd(requestId, timer.end(), true);
+      
+      return response;
+      
+    } catch (error) {
+      const mcpError = MCPErrorHandler.handleError(error, requestId);
+      MCPErrorHandler.logError(mcpError);
+      logger.requestEnd(requestId, timer.end(), false);
+      
+      throw new Error(`Failed to list tools: ${mcpError.message}`);
+    }
+  });
+
+  // Handle tool calls through the shared tool registry
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const caller = callerFromAuthInfo(extra.authInfo);
+    const timer = createRequestTimer();
+    const requestId = logger.requestStart(`call_tool:${name}`, { args });
+
+    try {
+      const handler = ga4ToolHandlers.get(name);
+      if (!handler) {
+        throw MCPErrorHandler.createError(ErrorCode.METHOD_NOT_FOUND, `Unknown tool: ${name}`, { toolName: name });
+      }
+
+      const result = await handler(args, caller);
+      logger.requestEnd(requestId, timer.end(), true);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      const mcpError = MCPErrorHandler.handleError(error, requestId);
+      MCPErrorHandler.logError(mcpError);
+      logger.requestEnd(requestId, timer.end(), false);
+
+      return MCPErrorHandler.formatForMCPResponse(mcpError);
+    }
+  });
+
+  // Property metadata resources (ga4://{propertyId}/metadata/...)
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    return { resources: listCallerResources(callerFromAuthInfo(extra.authInfo)) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: METADATA_RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const timer = createRequestTimer();
+    const requestId = logger.requestStart('read_resource', { uri });
+
+    try {
+      const result = await readMetadataResource(uri, resolveGA4DataClient, callerFromAuthInfo(extra.authInfo));
+      logger.requestEnd(requestId, timer.end(), true);
+      return result;
+    } catch (error) {
+      const mcpError = MCPErrorHandler.handleError(error, requestId);
+      MCPErrorHandler.logError(mcpError);
+      logger.requestEnd(requestId, timer.end(), false);
+
+      throw new Error(`Failed to read resource ${uri}: ${mcpError.message}`);
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Create and configure the MCP server
+ */
+async function createServer(): Promise<Server> {
+  logger.info('Initializing MCP server...');
+  
+  const server = createProtocolServer();
+
   // Add server initialization to lifecycle
   lifecycleManager.addHook({
     name: 'mcp-server',
@@ -110,7 +212,7 @@ async function createServer(): Promise<Server> {
       });
       
       // Close production logger gracefully
-      const { closeLogger } = await import('./utils/productionLogger.js');
+      const { closeLogger } = await import('@ai-ad-manager/mcp-shared/productionLogger');
       await closeLogger();
     },
   });
@@ -147,6 +249,7 @@ async function createServer(): Promise<Server> {
       });
     },
     shutdown: async () => {
+      await apmMonitor.flushTraces();
       const apmMetrics = apmMonitor.getAPMMetrics();
       productionLogger.info('APM monitoring system shutting down', {
         component: 'APM',
@@ -229,6 +332,9 @@ async function createServer(): Promise<Server> {
       };
 
       initializeRateLimiting(rateLimitConfig, ddosConfig);
+      // Tool calls from authenticated bridge callers are limited per tenant
+      const tenantRateLimitConfig = loadGA4RateLimitConfig();
+      initializeTenantRateLimiting(tenantRateLimitConfig);
       
       productionLogger.info('Rate limiting and DDoS protection initialized', {
         component: 'SECURITY',
@@ -237,7 +343,8 @@ async function createServer(): Promise<Server> {
         maxRequestsPerIP: rateLimitConfig.maxRequestsPerIP,
         ddosEnabled: ddosConfig.enabled,
         ddosThreshold: ddosConfig.maxRequestsPerMinute,
-        features: ['rate_limiting', 'ddos_protection', 'ip_blocking', 'suspicious_activity_detection']
+        tenantPlans: Object.keys(tenantRateLimitConfig.plans || {}),
+        features: ['rate_limiting', 'tenant_rate_limiting', 'ddos_protection', 'ip_blocking', 'suspicious_activity_detection']
       });
     },
     shutdown: async () => {
@@ -254,6 +361,7 @@ async function createServer(): Promise<Server> {
         });
       }
       shutdownRateLimiting();
+      shutdownTenantRateLimiting();
     },
   });
 
@@ -345,6 +453,7 @@ async function createServer(): Promise<Server> {
           'ga4-traffic': parseInt(process.env.CACHE_GA4_TRAFFIC_TTL || '900000'), // 15 minutes
           'ga4-demographics': parseInt(process.env.CACHE_GA4_DEMOGRAPHICS_TTL || '1800000'), // 30 minutes
           'ga4-conversions': parseInt(process.env.CACHE_GA4_CONVERSIONS_TTL || '1200000'), // 20 minutes
+          'ga4-metadata': parseInt(process.env.CACHE_GA4_METADATA_TTL || '86400000'), // 24 hours
         },
         
         enablePersistence: process.env.CACHE_PERSISTENCE === 'true',
@@ -356,7 +465,16 @@ async function createServer(): Promise<Server> {
         staleTimeout: parseInt(process.env.CACHE_STALE_TIMEOUT || '60000'),
       };
 
-      initializeProductionCache(cacheConfig);
+      const cache = initializeProductionCache(cacheConfig);
+
+      // Pre-run the most used reports on CACHE_WARMING_SCHEDULE (weekdays 07:30 by default)
+      cache.scheduleWarming('ga4-reports', async () => {
+        await warmFrequentReports({
+          resolveClient: propertyId => getGA4DataClientRegistry().getClient(propertyId),
+          hasQuotaHeadroom: () => cache.hasQuotaHeadroom(),
+          maxReports: parseInt(process.env.CACHE_WARMING_MAX_REPORTS || '20'),
+        });
+      });
       
       productionLogger.info('Production Cache initialized', {
         component: 'CACHE',
@@ -464,16 +582,25 @@ async function createServer(): Promise<Server> {
     },
   });
 
-  // Add GA4 Data Client to lifecycle (depends on authentication)
+  // Add GA4 Data Client registry to lifecycle (depends on authentication)
   lifecycleManager.addHook({
     name: 'ga4-data-client',
     priority: 10,
     startup: async () => {
-      logger.info('Initializing GA4 Data Client...');
+      logger.info('Initializing GA4 Data Client registry...');
       try {
-        const propertyId = process.env.GA4_PROPERTY_ID;
-        if (!propertyId) {
-          throw new Error('GA4_PROPERTY_ID environment variable is required');
+        const allowedPropertyIds = (process.env.GA4_ALLOWED_PROPERTY_IDS || '')
+          .split(',')
+          .map(propertyId => propertyId.trim())
+          .filter(Boolean);
+
+        const registry = initializeGA4DataClientRegistry({
+          defaultPropertyId: process.env.GA4_PROPERTY_ID,
+          allowedPropertyIds,
+        });
+
+        if (registry.getAllowedPropertyIds().length === 0) {
+          throw new Error('GA4_PROPERTY_ID or GA4_ALLOWED_PROPERTY_IDS environment variable is required');
         }
 
         const authManager = getAuthManager();
@@ -482,11 +609,13 @@ async function createServer(): Promise<Server> {
           return;
         }
 
-        const dataClient = initializeGA4DataClient(propertyId);
-        await dataClient.initialize();
+        // Warm up the default property; other properties initialize on first use
+        if (registry.getDefaultPropertyId()) {
+          await registry.getClient().initialize();
+        }
         
-        logger.info('✅ GA4 Data Client initialized successfully');
-        logger.info(`📊 GA4 Data Client ready for property: ${propertyId}`);
+        logger.info('✅ GA4 Data Client registry initialized successfully');
+        logger.info(`📊 GA4 properties available: ${registry.getAllowedPropertyIds().join(', ')}`);
       } catch (error) {
         logger.error('❌ GA4 Data Client initialization error', error instanceof Error ? error : undefined);
         logger.warn('⚠️ GA4 tools will not be available');
@@ -496,11 +625,10 @@ async function createServer(): Promise<Server> {
     shutdown: async () => {
       logger.info('GA4 Data Client shutdown');
       try {
-        const dataClient = getGA4DataClient();
-        dataClient.clearCache();
-        logger.info('✅ GA4 Data Client cache cleared');
+        getGA4DataClientRegistry().clearCaches();
+        logger.info('✅ GA4 Data Client caches cleared');
       } catch (error) {
-        // Client might not be initialized, ignore errors
+        // Registry might not be initialized, ignore errors
       }
     },
   });
@@ -524,280 +652,6 @@ async function createServer(): Promise<Server> {
     },
   });
 
-  // List available tools
-  server.setRequestHandler(ListToolsRequestSchema, async (request) => {
-    const timer = createRequestTimer();
-    const requestId = logger.requestStart('list_tools');
-    
-    try {
-      logger.debug('Listing available tools');
-      
-      const tools = [
-        {
-          name: 'query_analytics',
-          description: 'Execute custom GA4 queries with flexible metrics and dimensions',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              metrics: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Array of GA4 metrics (e.g., "sessions", "pageviews")',
-              },
-              dimensions: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Array of GA4 dimensions (e.g., "country", "deviceType")',
-              },
-              startDate: {
-                type: 'string',
-                description: 'Start date in YYYY-MM-DD format',
-              },
-              endDate: {
-                type: 'string',
-                description: 'End date in YYYY-MM-DD format',
-              },
-              limit: {
-                type: 'number',
-                description: 'Maximum rows to return (optional)',
-                default: 100,
-              },
-            },
-            required: ['metrics', 'startDate', 'endDate'],
-          },
-        },
-        {
-          name: 'get_realtime_data',
-          description: 'Get current active users and real-time activity',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              metrics: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Real-time metrics array',
-                default: ['activeUsers'],
-              },
-            },
-          },
-        },
-        {
-          name: 'get_traffic_sources',
-          description: 'Analyze traffic sources and channel performance',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              startDate: {
-                type: 'string',
-                description: 'Start date in YYYY-MM-DD format',
-              },
-              endDate: {
-                type: 'string',
-                description: 'End date in YYYY-MM-DD format',
-              },
-              includeChannels: {
-                type: 'boolean',
-                description: 'Include channel grouping data',
-                default: true,
-              },
-            },
-            required: ['startDate', 'endDate'],
-          },
-        },
-        {
-          name: 'get_user_demographics',
-          description: 'Access user demographic information',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              startDate: {
-                type: 'string',
-                description: 'Start date in YYYY-MM-DD format',
-              },
-              endDate: {
-                type: 'string',
-                description: 'End date in YYYY-MM-DD format',
-              },
-              breakdown: {
-                type: 'string',
-                enum: ['age', 'gender', 'location'],
-                description: 'Demographic breakdown type',
-                default: 'age',
-              },
-            },
-            required: ['startDate', 'endDate'],
-          },
-        },
-        {
-          name: 'get_page_performance',
-          description: 'Monitor page-level performance metrics',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              startDate: {
-                type: 'string',
-                description: 'Start date in YYYY-MM-DD format',
-              },
-              endDate: {
-                type: 'string',
-                description: 'End date in YYYY-MM-DD format',
-              },
-              orderBy: {
-                type: 'string',
-                description: 'Sort field',
-                default: 'pageviews',
-              },
-              limit: {
-                type: 'number',
-                description: 'Maximum pages to return',
-                default: 50,
-              },
-            },
-            required: ['startDate', 'endDate'],
-          },
-        },
-        {
-          name: 'get_conversion_data',
-          description: 'Track conversion goals and funnel performance',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              startDate: {
-                type: 'string',
-                description: 'Start date in YYYY-MM-DD format',
-              },
-              endDate: {
-                type: 'string',
-                description: 'End date in YYYY-MM-DD format',
-              },
-              includeGoals: {
-                type: 'boolean',
-                description: 'Include goal completion data',
-                default: true,
-              },
-            },
-            required: ['startDate', 'endDate'],
-          },
-        },
-      ];
-
-      const response = { tools };
-      logger.requestEnd(requestId, timer.end(), true);
-      
-      return response;
-      
-    } catch (error) {
-      const mcpError = MCPErrorHandler.handleError(error, requestId);
-      MCPErrorHandler.logError(mcpError);
-      logger.requestEnd(requestId, timer.end(), false);
-      
-      throw new Error(`Failed to list tools: ${mcpError.message}`);
-    }
-  });
-
-  // Handle tool calls - KEEP THE EXISTING IMPLEMENTATION
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    
-    // Create simplified tool handler for the bridge
-    if (!globalToolHandlers.has(name)) {
-      globalToolHandlers.set(name, async (bridgeArgs: any) => {
-        try {
-          logger.info(`Bridge calling tool: ${name}`, { args: bridgeArgs });
-          
-          // For bridge calls, implement directly without server.callTool
-          let result: any;
-          
-          // For the bridge, return simplified data structure
-          if (name === 'query_analytics') {
-            return {
-              totals: result.totals || {},
-              rows: result.rows || [],
-              metadata: result.metadata || {},
-              requestInfo: result.requestInfo || {}
-            };
-          } else if (name === 'get_traffic_sources' || 
-                     name === 'get_page_performance' || 
-                     name === 'get_conversion_data' ||
-                     name === 'get_user_demographics') {
-            return {
-              success: true,
-              data: result.data || [],
-              totals: result.totals || {},
-              metadata: result.metadata || {}
-            };
-          } else if (name === 'get_realtime_data') {
-            return {
-              success: true,
-              data: result.data || {},
-              activeUsers: result.activeUsers || 0
-            };
-          }
-          
-          return result;
-        } catch (error) {
-          logger.error(`Bridge tool error for ${name}:`, error as Error);
-          // Return mock data on error
-          return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-            data: []
-          };
-        }
-      });
-    }
-    
-    // Main tool implementation - return appropriate response
-    try {
-      logger.info(`Executing tool: ${name}`, { args });
-      
-      // Handle each tool type
-      if (name === 'query_analytics') {
-        const dataClient = getGA4DataClient();
-        const response = await dataClient.runReport({
-          propertyId: process.env.GA4_PROPERTY_ID!,
-          metrics: (args?.metrics as string[]) || ['sessions'],
-          dimensions: (args?.dimensions as string[]) || [],
-          dateRanges: [{
-            startDate: (args?.startDate as string) || '7daysAgo',
-            endDate: (args?.endDate as string) || 'today'
-          }],
-          limit: (args?.limit as number) || 100
-        });
-        
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(response, null, 2)
-          }]
-        };
-      }
-      
-      // For other tools, return basic mock response
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({ success: true, data: [] }, null, 2)
-        }]
-      };
-    } catch (error) {
-      logger.error(`Tool execution error for ${name}:`, error as Error);
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            error: error instanceof Error ? error.message : 'Unknown error'
-          }, null, 2)
-        }]
-      };
-    }
-  });
-
-  // Store reference to server's internal handlers if they exist
-  if ((server as any)._toolHandlers) {
-    globalToolHandlers = (server as any)._toolHandlers;
-  }
-
   return server;
 }
 
@@ -821,107 +675,6 @@ async function main(): Promise<void> {
     const server = await createServer();
     const transport = new StdioServerTransport();
     
-    // Create simplified tool handlers for the HTTP bridge
-    const bridgeToolHandlers = new Map();
-    
-    // Add simplified handlers that call the GA4 client directly
-    bridgeToolHandlers.set('query_analytics', async (args: any) => {
-      try {
-        const dataClient = getGA4DataClient();
-        const response = await dataClient.runReport({
-          propertyId: process.env.GA4_PROPERTY_ID!,
-          metrics: (args?.metrics as string[]) || ['sessions'],
-          dimensions: (args?.dimensions as string[]) || [],
-          dateRanges: [{
-            startDate: (args?.startDate as string) || '7daysAgo',
-            endDate: (args?.endDate as string) || 'today'
-          }],
-          limit: (args?.limit as number) || 100
-        });
-        return response;
-      } catch (error) {
-        logger.error('Bridge query_analytics error:', error as Error);
-        return {
-          totals: { sessions: 8234, totalUsers: 6543 },
-          rows: [],
-          metadata: { rowCount: 0 },
-          requestInfo: { executionTime: 0, fromCache: false }
-        };
-      }
-    });
-    
-    bridgeToolHandlers.set('get_traffic_sources', async (args: any) => {
-      try {
-        // Mock implementation - replace with actual GA4 call when ready
-        return {
-          success: true,
-          data: [
-            { source: 'google', medium: 'organic', sessions: 2850, users: 2200, percentage: 34.8 },
-            { source: '(direct)', medium: '(none)', sessions: 1650, users: 1280, percentage: 20.1 }
-          ]
-        };
-      } catch (error) {
-        logger.error('Bridge get_traffic_sources error:', error as Error);
-        return { success: false, data: [] };
-      }
-    });
-    
-    bridgeToolHandlers.set('get_page_performance', async (args: any) => {
-      try {
-        // Mock implementation
-        return {
-          success: true,
-          data: [
-            { pagePath: '/', pageviews: 5240, uniquePageviews: 4680, avgTimeOnPage: 145, bounceRate: 38.2 }
-          ]
-        };
-      } catch (error) {
-        logger.error('Bridge get_page_performance error:', error as Error);
-        return { success: false, data: [] };
-      }
-    });
-    
-    bridgeToolHandlers.set('get_conversion_data', async (args: any) => {
-      try {
-        // Mock implementation
-        return {
-          success: true,
-          data: [
-            { conversionName: 'Purchase', conversions: 234, conversionRate: 3.2, conversionValue: 2456 }
-          ]
-        };
-      } catch (error) {
-        logger.error('Bridge get_conversion_data error:', error as Error);
-        return { success: false, data: [] };
-      }
-    });
-    
-    bridgeToolHandlers.set('get_realtime_data', async (args: any) => {
-      try {
-        // Mock implementation
-        return {
-          success: true,
-          data: { activeUsers: 42, screenPageViews: 156, eventCount: 892 }
-        };
-      } catch (error) {
-        logger.error('Bridge get_realtime_data error:', error as Error);
-        return { success: false, data: {} };
-      }
-    });
-    
-    bridgeToolHandlers.set('get_user_demographics', async (args: any) => {
-      try {
-        // Mock implementation
-        return {
-          success: true,
-          data: []
-        };
-      } catch (error) {
-        logger.error('Bridge get_user_demographics error:', error as Error);
-        return { success: false, data: [] };
-      }
-    });
-    
     // Create HTTP MCP Bridge with tool handlers
     let httpMcpBridge: any;
     
@@ -931,9 +684,13 @@ async function main(): Promise<void> {
       priority: 3,
       startup: async () => {
         logger.info('Starting HTTP MCP Bridge with REST endpoints...');
-        httpMcpBridge = await startHttpMcpBridge(server, bridgeToolHandlers, {
+        httpMcpBridge = await startHttpMcpBridge(server, ga4ToolHandlers, {
           port: 3004,
-          host: 'localhost'
+          host: 'localhost',
+          auth: createBridgeAuthenticator(loadBridgeAuthConfig()),
+          createSessionServer: createProtocolServer,
+          toolDefinitions: getToolDefinitions(),
+          listResources: listCallerResources
         });
         logger.info('✅ HTTP MCP Bridge started with REST API endpoints on port 3004');
       },
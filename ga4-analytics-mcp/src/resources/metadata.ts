@@ -0,0 +1,105 @@
+/**
+ * GA4 metadata MCP resources
+ *
+ * Publishes each allowed property's metadata as browsable resources:
+ *   ga4://{propertyId}/metadata/dimensions
+ *   ga4://{propertyId}/metadata/metrics
+ *   ga4://{propertyId}/metadata/key-events
+ */
+
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { getPropertyMetadata } from '../utils/ga4Metadata.js';
+import type { GA4PropertyMetadata } from '../utils/ga4DataClient.js';
+import type { GA4DataClientResolver, GA4ToolCaller } from '../tools/shared.js';
+
+export type MetadataResourceKind = 'dimensions' | 'metrics' | 'key-events';
+
+const METADATA_MIME_TYPE = 'application/json';
+const METADATA_URI_PATTERN = /^ga4:\/\/(\d+)\/metadata\/(dimensions|metrics|key-events)$/;
+
+const RESOURCE_DESCRIPTIONS: Record<MetadataResourceKind, string> = {
+  dimensions: 'Standard and custom dimensions available to the property',
+  metrics: 'Standard and custom metrics available to the property',
+  'key-events': 'Event names marked as key events on the property',
+};
+
+export interface MetadataResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export const METADATA_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'ga4://{propertyId}/metadata/{kind}',
+    name: 'GA4 property metadata',
+    description: 'Dimensions, metrics or key events of a GA4 property (kind: dimensions, metrics or key-events)',
+    mimeType: METADATA_MIME_TYPE,
+  },
+];
+
+/**
+ * Build the metadata resource URI for a property
+ */
+export function getMetadataResourceUri(propertyId: string, kind: MetadataResourceKind): string {
+  return `ga4://${propertyId}/metadata/${kind}`;
+}
+
+/**
+ * Metadata resources for every property the server may query
+ */
+export function listMetadataResources(propertyIds: string[]): MetadataResource[] {
+  return propertyIds.flatMap(propertyId =>
+    (Object.keys(RESOURCE_DESCRIPTIONS) as MetadataResourceKind[]).map(kind => ({
+      uri: getMetadataResourceUri(propertyId, kind),
+      name: `GA4 ${propertyId} ${kind}`,
+      description: RESOURCE_DESCRIPTIONS[kind],
+      mimeType: METADATA_MIME_TYPE,
+    }))
+  );
+}
+
+/**
+ * Read a metadata resource, fetching (and caching) the property metadata as needed
+ */
+export async function readMetadataResource(
+  uri: string,
+  resolveDataClient: GA4DataClientResolver,
+  caller?: GA4ToolCaller
+): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+  const match = METADATA_URI_PATTERN.exec(uri);
+  if (!match) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_PARAMS,
+      `Unknown resource: ${uri}`,
+      { uri }
+    );
+  }
+
+  const [, propertyId, kind] = match;
+  const metadata = await getPropertyMetadata(resolveDataClient(propertyId, caller));
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: METADATA_MIME_TYPE,
+        text: JSON.stringify(selectResourceContent(metadata, kind as MetadataResourceKind), null, 2),
+      },
+    ],
+  };
+}
+
+function selectResourceContent(metadata: GA4PropertyMetadata, kind: MetadataResourceKind) {
+  const base = { propertyId: metadata.propertyId, fetchedAt: metadata.fetchedAt };
+
+  switch (kind) {
+    case 'dimensions':
+      return { ...base, dimensions: metadata.dimensions };
+    case 'metrics':
+      return { ...base, metrics: metadata.metrics };
+    case 'key-events':
+      return { ...base, keyEvents: metadata.keyEvents };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * query_analytics tool
+ *
+ * Runs a custom GA4 report with caller-supplied metrics and dimensions.
+ */
+
+import type { GA4DataClient, GA4RequestOptions, GA4TransformedResponse } from '../utils/ga4DataClient.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { getPropertyMetadata } from '../utils/ga4Metadata.js';
+import { requestValidator, GA4_VALIDATION_SCHEMAS } from '../utils/requestValidation.js';
+import { getFilterFields, toGA4FilterExpression } from '../utils/ga4Filters.js';
+import type { QueryAnalyticsParams } from '../types/ga4.js';
+import {
+  GA4Tool,
+  PROPERTY_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  COMPARE_TO_PROPERTY,
+  FILTER_EXPRESSION_SCHEMA,
+  resolveToolDateRange,
+  resolveToolComparisonRange,
+  resolveLimit,
+  decodeReportCursor,
+  runReportPageWithCursor,
+  PaginatedReportResult,
+} from './shared.js';
+
+export const queryAnalyticsTool: GA4Tool<QueryAnalyticsParams, GA4TransformedResponse | PaginatedReportResult> = {
+  name: 'query_analytics',
+  description: 'Execute custom GA4 queries with flexible metrics and dimensions',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      metrics: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Array of GA4 metrics (e.g., "sessions", "screenPageViews")',
+      },
+      dimensions: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Array of GA4 dimensions (e.g., "country", "deviceCategory")',
+      },
+      ...DATE_RANGE_PROPERTIES,
+      ...COMPARE_TO_PROPERTY,
+      limit: {
+        type: 'number',
+        description: 'Maximum rows to return (optional); the page size when paginating',
+        default: 100,
+      },
+      paginate: {
+        type: 'boolean',
+        description: 'Return the first page of rows plus a nextCursor for fetching the rest',
+        default: false,
+      },
+      cursor: {
+        type: 'string',
+        description: 'nextCursor from a previous paginated call; fetches the next page of the same query (other arguments are ignored)',
+      },
+      dimensionFilter: {
+        ...FILTER_EXPRESSION_SCHEMA,
+        description: `Dimension filter. ${FILTER_EXPRESSION_SCHEMA.description}`,
+      },
+      metricFilter: {
+        ...FILTER_EXPRESSION_SCHEMA,
+        description: `Metric filter, applied after aggregation. ${FILTER_EXPRESSION_SCHEMA.description}`,
+      },
+    },
+    // metrics, startDate and endDate are required unless a cursor is given
+    required: [],
+  },
+
+  async handler(args, context) {
+    if (args?.cursor) {
+      const cursor = decodeReportCursor<QueryAnalyticsParams>('query_analytics', args.cursor);
+      // A cursor is client-supplied: its property goes back through the allow-list
+      // and its query through the same validation as a fresh call
+      const dataClient = context.getDataClient(cursor.args.propertyId);
+      const options = await buildQueryOptions('query_analytics', cursor.args, dataClient);
+      return runReportPageWithCursor('query_analytics', dataClient, options, {
+        args: toCursorArgs(cursor.args, options),
+        offset: cursor.offset,
+        pageSize: resolveLimit(cursor.pageSize, 100, 100000),
+      });
+    }
+
+    const dataClient = context.getDataClient(args?.propertyId);
+    const options = await buildQueryOptions('query_analytics', args, dataClient);
+
+    if (args.paginate) {
+      return runReportPageWithCursor('query_analytics', dataClient, options, {
+        args: toCursorArgs(args, options),
+        offset: 0,
+        pageSize: resolveLimit(args.limit, 100, 100000),
+      });
+    }
+
+    return dataClient.runReport({ ...options, limit: resolveLimit(args.limit, 100) }, { tool: 'query_analytics' });
+  },
+};
+
+/**
+ * Validate query_analytics-style arguments and turn them into report options
+ *
+ * Shared with batch_query_analytics, which runs several such queries at once.
+ */
+export async function buildQueryOptions(
+  toolName: string,
+  args: QueryAnalyticsParams,
+  dataClient: GA4DataClient
+): Promise<GA4RequestOptions> {
+  if (!Array.isArray(args?.metrics) || args.metrics.length === 0) {
+    throw MCPErrorHandler.invalidToolParams(toolName, args);
+  }
+
+  const validation = await requestValidator.validateToolArguments(
+    toolName,
+    args,
+    GA4_VALIDATION_SCHEMAS.query_analytics
+  );
+  if (!validation.isValid) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      validation.errors.join('; '),
+      { toolName, errors: validation.errors }
+    );
+  }
+
+  const dateRange = resolveToolDateRange(toolName, args);
+  const compareDateRange = resolveToolComparisonRange(toolName, dateRange, args.compareTo);
+  await validateFieldNames(toolName, dataClient, args);
+
+  return {
+    propertyId: dataClient.getPropertyId(),
+    metrics: args.metrics,
+    dimensions: args.dimensions || [],
+    dateRanges: [dateRange],
+    metricAggregations: ['TOTAL'],
+    compareDateRange,
+    ...(args.dimensionFilter && { dimensionFilter: toGA4FilterExpression(args.dimensionFilter) }),
+    ...(args.metricFilter && { metricFilter: toGA4FilterExpression(args.metricFilter) }),
+  };
+}
+
+/**
+ * Query arguments a cursor carries, with relative dates pinned so every page
+ * covers the same range
+ */
+function toCursorArgs(args: QueryAnalyticsParams, options: GA4RequestOptions): QueryAnalyticsParams {
+  const [dateRange] = options.dateRanges;
+  return {
+    propertyId: options.propertyId,
+    metrics: args.metrics,
+    dimensions: args.dimensions,
+    startDate: dateRange.startDate,
+    endDate: dateRange.endDate,
+    dimensionFilter: args.dimensionFilter,
+    metricFilter: args.metricFilter,
+    compareTo: args.compareTo,
+  };
+}
+
+/**
+ * Reject unknown metric / dimension names before they reach the Data API
+ */
+async function validateFieldNames(
+  toolName: string,
+  dataClient: GA4DataClient,
+  args: QueryAnalyticsParams
+): Promise<void> {
+  let metadata;
+  try {
+    metadata = await getPropertyMetadata(dataClient);
+  } catch (error) {
+    // Metadata is an aid, not a prerequisite; let the report call surface real problems
+    logger.warn('⚠️ GA4 metadata unavailable, skipping field name validation', {
+      propertyId: dataClient.getPropertyId(),
+      error: error instanceof Error ? error.message : (error as any)?.message,
+    });
+    return;
+  }
+
+  const validation = requestValidator.validateReportFields(
+    toolName,
+    {
+      metrics: [...args.metrics, ...getFilterFields(args.metricFilter)],
+      dimensions: [...(args.dimensions || []), ...getFilterFields(args.dimensionFilter)],
+    },
+    metadata
+  );
+
+  if (!validation.isValid) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      validation.errors.join('; '),
+      { toolName, errors: validation.errors }
+    );
+  }
+}
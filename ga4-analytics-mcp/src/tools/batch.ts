@@ -0,0 +1,123 @@
+/**
+ * batch_query_analytics tool
+ *
+ * Runs up to five query_analytics-style reports against one property in a
+ * single Data API batchRunReports call, returning the results keyed per report.
+ */
+
+import type { GA4TransformedResponse } from '../utils/ga4DataClient.js';
+import { MAX_BATCH_REPORTS } from '../utils/ga4DataClient.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { BatchQueryAnalyticsParams } from '../types/ga4.js';
+import { buildQueryOptions } from './analytics.js';
+import {
+  GA4Tool,
+  PROPERTY_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  COMPARE_TO_PROPERTY,
+  FILTER_EXPRESSION_SCHEMA,
+  resolveLimit,
+} from './shared.js';
+
+export interface BatchQueryAnalyticsResult {
+  success: boolean;
+  propertyId: string;
+  reports: Record<string, GA4TransformedResponse>;
+  metadata: { reportCount: number; cachedReports: number; executionTime: number };
+}
+
+export const batchQueryAnalyticsTool: GA4Tool<BatchQueryAnalyticsParams, BatchQueryAnalyticsResult> = {
+  name: 'batch_query_analytics',
+  description: `Run up to ${MAX_BATCH_REPORTS} custom GA4 reports for one property in a single request, with results keyed per report`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      reports: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_BATCH_REPORTS,
+        description: 'Report specs, each taking the same arguments as query_analytics (without pagination)',
+        items: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Key for this report in the result (default: report_<index>)',
+            },
+            metrics: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Array of GA4 metrics',
+            },
+            dimensions: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Array of GA4 dimensions',
+            },
+            ...DATE_RANGE_PROPERTIES,
+            ...COMPARE_TO_PROPERTY,
+            limit: {
+              type: 'number',
+              description: 'Maximum rows to return (optional)',
+              default: 100,
+            },
+            dimensionFilter: {
+              ...FILTER_EXPRESSION_SCHEMA,
+              description: `Dimension filter. ${FILTER_EXPRESSION_SCHEMA.description}`,
+            },
+            metricFilter: {
+              ...FILTER_EXPRESSION_SCHEMA,
+              description: `Metric filter, applied after aggregation. ${FILTER_EXPRESSION_SCHEMA.description}`,
+            },
+          },
+          required: ['metrics', 'startDate', 'endDate'],
+        },
+      },
+    },
+    required: ['reports'],
+  },
+
+  async handler(args, context) {
+    const startTime = Date.now();
+    const specs = args?.reports;
+
+    if (!Array.isArray(specs) || specs.length === 0 || specs.length > MAX_BATCH_REPORTS) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `reports must contain between 1 and ${MAX_BATCH_REPORTS} report specs`,
+        { toolName: 'batch_query_analytics', reportCount: Array.isArray(specs) ? specs.length : 0 }
+      );
+    }
+
+    const ids = specs.map((spec, index) => spec?.id || `report_${index}`);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `Duplicate report id: ${duplicate}`,
+        { toolName: 'batch_query_analytics', id: duplicate }
+      );
+    }
+
+    const dataClient = context.getDataClient(args.propertyId);
+    const options = [];
+    for (const { id: _id, ...spec } of specs) {
+      const specOptions = await buildQueryOptions('batch_query_analytics', spec, dataClient);
+      options.push({ ...specOptions, limit: resolveLimit(spec.limit, 100) });
+    }
+
+    const results = await dataClient.batchRunReports(options, { tool: 'batch_query_analytics' });
+
+    return {
+      success: true,
+      propertyId: dataClient.getPropertyId(),
+      reports: Object.fromEntries(ids.map((id, index) => [id, results[index]])),
+      metadata: {
+        reportCount: results.length,
+        cachedReports: results.filter(result => result.requestInfo?.fromCache).length,
+        executionTime: Date.now() - startTime,
+      },
+    };
+  },
+};
@@ -0,0 +1,100 @@
+/**
+ * get_cohort_retention tool
+ *
+ * Groups users into acquisition cohorts with the Data API cohortSpec and
+ * follows a retention metric over the following days, weeks or months.
+ */
+
+import type { GA4CohortMatrix, GA4CohortGranularity } from '../utils/ga4DataClient.js';
+import { getCohortDateRanges } from '../utils/ga4Utils.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { CohortRetentionParams } from '../types/ga4.js';
+import { GA4Tool, PROPERTY_ID_PROPERTY, resolveToolDateRange, resolveLimit } from './shared.js';
+
+// Data API limit on cohorts per request
+const MAX_COHORTS = 12;
+
+const GRANULARITIES: Record<string, GA4CohortGranularity> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+};
+
+export interface CohortRetentionResult extends GA4CohortMatrix {
+  success: boolean;
+}
+
+export const cohortRetentionTool: GA4Tool<CohortRetentionParams, CohortRetentionResult> = {
+  name: 'get_cohort_retention',
+  description: 'Cohort retention analysis: users grouped by first visit, followed over the next days, weeks or months',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      startDate: {
+        type: 'string',
+        description: 'Start of the acquisition range (YYYY-MM-DD or relative like "28daysAgo")',
+        default: '28daysAgo',
+      },
+      endDate: {
+        type: 'string',
+        description: 'End of the acquisition range (YYYY-MM-DD or relative like "yesterday")',
+        default: 'yesterday',
+      },
+      granularity: {
+        type: 'string',
+        enum: Object.keys(GRANULARITIES),
+        description: 'Cohort and period size; the acquisition range is split into one cohort per period',
+        default: 'weekly',
+      },
+      periods: {
+        type: 'number',
+        description: 'Periods to follow each cohort for, including the acquisition period',
+        default: 6,
+      },
+      metric: {
+        type: 'string',
+        description: 'Retention metric (e.g., "cohortActiveUsers", "userEngagementDuration")',
+        default: 'cohortActiveUsers',
+      },
+    },
+  },
+
+  async handler(args, context) {
+    const granularity = GRANULARITIES[args?.granularity || 'weekly'];
+    if (!granularity) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `granularity must be one of: ${Object.keys(GRANULARITIES).join(', ')}`,
+        { toolName: 'get_cohort_retention', granularity: args.granularity }
+      );
+    }
+
+    const acquisitionRange = resolveToolDateRange('get_cohort_retention', {
+      startDate: args.startDate || '28daysAgo',
+      endDate: args.endDate || 'yesterday',
+    });
+    const cohorts = getCohortDateRanges(acquisitionRange, args.granularity || 'weekly');
+    if (cohorts.length > MAX_COHORTS) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `The acquisition range splits into ${cohorts.length} ${args.granularity || 'weekly'} cohorts; at most ${MAX_COHORTS} are supported`,
+        { toolName: 'get_cohort_retention', cohortCount: cohorts.length }
+      );
+    }
+
+    const dataClient = context.getDataClient(args.propertyId);
+    const matrix = await dataClient.runCohortReport(
+      {
+        propertyId: dataClient.getPropertyId(),
+        granularity,
+        cohorts,
+        periods: resolveLimit(args.periods, 6, 60),
+        metric: args.metric || 'cohortActiveUsers',
+      },
+      { tool: 'get_cohort_retention' }
+    );
+
+    return { success: true, ...matrix };
+  },
+};
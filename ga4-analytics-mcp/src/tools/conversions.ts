@@ -0,0 +1,135 @@
+/**
+ * get_conversion_data tool
+ *
+ * Reports site-wide conversion totals and, optionally, a per-event
+ * breakdown of the property's key events (goals).
+ */
+
+import { GA4_METRICS, GA4_DIMENSIONS } from '../utils/ga4Utils.js';
+import type { GA4ReportComparison } from '../utils/ga4DataClient.js';
+import type { ConversionDataParams } from '../types/ga4.js';
+import {
+  GA4Tool,
+  PROPERTY_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  COMPARE_TO_PROPERTY,
+  resolveToolDateRange,
+  resolveToolComparisonRange,
+  resolveLimit,
+  percentageOf,
+} from './shared.js';
+
+export interface ConversionRow {
+  conversionName: string;
+  conversions: number;
+  conversionRate: number;
+  conversionValue: number;
+}
+
+export interface ConversionDataResult {
+  success: boolean;
+  data: ConversionRow[];
+  totals: {
+    sessions: number;
+    conversions: number;
+    conversionRate: number;
+    conversionValue: number;
+  };
+  comparison?: GA4ReportComparison;   // totals from the site-wide summary, rows per key event
+  metadata: { rowCount: number; dateRange: { startDate: string; endDate: string } };
+}
+
+export const conversionDataTool: GA4Tool<ConversionDataParams, ConversionDataResult> = {
+  name: 'get_conversion_data',
+  description: 'Track conversion goals and key event performance (see get_funnel_report for step-by-step funnels)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      ...COMPARE_TO_PROPERTY,
+      includeGoals: {
+        type: 'boolean',
+        description: 'Include goal completion data',
+        default: true,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum goals to return',
+        default: 25,
+      },
+    },
+    required: ['startDate', 'endDate'],
+  },
+
+  async handler(args, context) {
+    const includeGoals = args?.includeGoals !== false;
+    const dateRange = resolveToolDateRange('get_conversion_data', args || {});
+    const compareDateRange = resolveToolComparisonRange('get_conversion_data', dateRange, args?.compareTo);
+    const dataClient = context.getDataClient(args?.propertyId);
+    const propertyId = dataClient.getPropertyId();
+
+    const [summary, goals] = await Promise.all([
+      dataClient.runReport({
+        propertyId,
+        dateRanges: [dateRange],
+        metrics: [GA4_METRICS.SESSIONS, GA4_METRICS.CONVERSIONS, GA4_METRICS.TOTAL_REVENUE],
+        limit: 1,
+        compareDateRange,
+      }),
+      includeGoals
+        ? dataClient.runReport({
+            propertyId,
+            dateRanges: [dateRange],
+            dimensions: [GA4_DIMENSIONS.EVENT_NAME],
+            metrics: [GA4_METRICS.CONVERSIONS, GA4_METRICS.TOTAL_REVENUE],
+            orderBy: [{ metric: { metricName: GA4_METRICS.CONVERSIONS }, desc: true }],
+            // Non-key events report zero conversions; fetch headroom before filtering them out
+            limit: resolveLimit(args?.limit, 25) * 4,
+            compareDateRange,
+          })
+        : Promise.resolve(undefined),
+    ]);
+
+    const summaryMetrics = summary.rows[0]?.metrics || {};
+    const sessions = summaryMetrics[GA4_METRICS.SESSIONS] || 0;
+    const conversions = summaryMetrics[GA4_METRICS.CONVERSIONS] || 0;
+
+    const data = (goals?.rows || [])
+      .filter(row => (row.metrics[GA4_METRICS.CONVERSIONS] || 0) > 0)
+      .slice(0, resolveLimit(args?.limit, 25))
+      .map((row): ConversionRow => {
+        const goalConversions = row.metrics[GA4_METRICS.CONVERSIONS] || 0;
+        return {
+          conversionName: row.dimensions[GA4_DIMENSIONS.EVENT_NAME] || '(not set)',
+          conversions: goalConversions,
+          conversionRate: percentageOf(goalConversions, sessions),
+          conversionValue: row.metrics[GA4_METRICS.TOTAL_REVENUE] || 0,
+        };
+      });
+
+    return {
+      success: true,
+      data,
+      totals: {
+        sessions,
+        conversions,
+        conversionRate: percentageOf(conversions, sessions),
+        conversionValue: summaryMetrics[GA4_METRICS.TOTAL_REVENUE] || 0,
+      },
+      ...(summary.comparison && {
+        comparison: {
+          ...summary.comparison,
+          totals: summary.comparison.rows[0]?.metrics || {},
+          rows: (goals?.comparison?.rows || []).filter(row =>
+            row.metrics[GA4_METRICS.CONVERSIONS].current > 0 || row.metrics[GA4_METRICS.CONVERSIONS].previous > 0
+          ),
+        },
+      }),
+      metadata: {
+        rowCount: data.length,
+        dateRange,
+      },
+    };
+  },
+};
@@ -0,0 +1,130 @@
+/**
+ * get_user_demographics tool
+ *
+ * Breaks active users down by age bracket, gender or location.
+ */
+
+import { GA4_METRICS, GA4_DIMENSIONS } from '../utils/ga4Utils.js';
+import type { GA4ReportComparison } from '../utils/ga4DataClient.js';
+import type { UserDemographicsParams } from '../types/ga4.js';
+import {
+  GA4Tool,
+  PROPERTY_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  COMPARE_TO_PROPERTY,
+  resolveToolDateRange,
+  resolveToolComparisonRange,
+  resolveLimit,
+  percentageOf,
+  ratioToPercentage,
+} from './shared.js';
+
+type DemographicBreakdown = UserDemographicsParams['breakdown'];
+
+export interface DemographicRow {
+  segment: { [field: string]: string };
+  users: number;
+  newUsers: number;
+  sessions: number;
+  engagementRate: number;
+  percentage: number;
+}
+
+export interface UserDemographicsResult {
+  success: boolean;
+  breakdown: DemographicBreakdown;
+  data: DemographicRow[];
+  totals: { [metricName: string]: number };
+  comparison?: GA4ReportComparison;
+  metadata: { rowCount: number; totalCount?: number; dateRange: { startDate: string; endDate: string } };
+}
+
+// Output field name -> GA4 dimension, per breakdown type
+const BREAKDOWN_DIMENSIONS: Record<DemographicBreakdown, { [field: string]: string }> = {
+  age: { age: GA4_DIMENSIONS.USER_AGE_BRACKET },
+  gender: { gender: GA4_DIMENSIONS.USER_GENDER },
+  location: { country: GA4_DIMENSIONS.COUNTRY, city: GA4_DIMENSIONS.CITY },
+};
+
+export const userDemographicsTool: GA4Tool<UserDemographicsParams, UserDemographicsResult> = {
+  name: 'get_user_demographics',
+  description: 'Access user demographic information',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      ...COMPARE_TO_PROPERTY,
+      breakdown: {
+        type: 'string',
+        enum: ['age', 'gender', 'location'],
+        description: 'Demographic breakdown type',
+        default: 'age',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum segments to return',
+        default: 50,
+      },
+    },
+    required: ['startDate', 'endDate'],
+  },
+
+  async handler(args, context) {
+    const breakdown: DemographicBreakdown = args?.breakdown && args.breakdown in BREAKDOWN_DIMENSIONS
+      ? args.breakdown
+      : 'age';
+    const fields = BREAKDOWN_DIMENSIONS[breakdown];
+    const dateRange = resolveToolDateRange('get_user_demographics', args || {});
+    const compareDateRange = resolveToolComparisonRange('get_user_demographics', dateRange, args?.compareTo);
+    const dataClient = context.getDataClient(args?.propertyId);
+
+    const response = await dataClient.runReport({
+      propertyId: dataClient.getPropertyId(),
+      dateRanges: [dateRange],
+      dimensions: Object.values(fields),
+      metrics: [
+        GA4_METRICS.ACTIVE_USERS,
+        GA4_METRICS.NEW_USERS,
+        GA4_METRICS.SESSIONS,
+        GA4_METRICS.ENGAGEMENT_RATE,
+      ],
+      orderBy: [{ metric: { metricName: GA4_METRICS.ACTIVE_USERS }, desc: true }],
+      limit: resolveLimit(args?.limit, 50),
+      metricAggregations: ['TOTAL'],
+      compareDateRange,
+    });
+
+    const totalUsers = response.totals[GA4_METRICS.ACTIVE_USERS] || 0;
+
+    const data = response.rows.map((row): DemographicRow => {
+      const users = row.metrics[GA4_METRICS.ACTIVE_USERS] || 0;
+      const segment: { [field: string]: string } = {};
+      for (const [field, dimensionName] of Object.entries(fields)) {
+        segment[field] = row.dimensions[dimensionName] || '(not set)';
+      }
+
+      return {
+        segment,
+        users,
+        newUsers: row.metrics[GA4_METRICS.NEW_USERS] || 0,
+        sessions: row.metrics[GA4_METRICS.SESSIONS] || 0,
+        engagementRate: ratioToPercentage(row.metrics[GA4_METRICS.ENGAGEMENT_RATE]),
+        percentage: percentageOf(users, totalUsers),
+      };
+    });
+
+    return {
+      success: true,
+      breakdown,
+      data,
+      totals: response.totals,
+      ...(response.comparison && { comparison: response.comparison }),
+      metadata: {
+        rowCount: data.length,
+        totalCount: response.metadata.totalCount,
+        dateRange,
+      },
+    };
+  },
+};
@@ -0,0 +1,99 @@
+/**
+ * get_funnel_report tool
+ *
+ * Runs an ordered funnel of events / page views through the GA4 v1alpha
+ * runFunnelReport method and reports users, completion and abandonment per step.
+ */
+
+import type { GA4FunnelResponse } from '../utils/ga4DataClient.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { FunnelReportParams } from '../types/ga4.js';
+import { GA4Tool, PROPERTY_ID_PROPERTY, DATE_RANGE_PROPERTIES, resolveToolDateRange, resolveLimit } from './shared.js';
+
+export interface FunnelReportResult extends GA4FunnelResponse {
+  success: boolean;
+}
+
+export const funnelReportTool: GA4Tool<FunnelReportParams, FunnelReportResult> = {
+  name: 'get_funnel_report',
+  description: 'Analyze an ordered funnel of events or page views: users, completion rate and abandonment per step',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      steps: {
+        type: 'array',
+        minItems: 2,
+        maxItems: 10,
+        description: 'Funnel steps in order; each matches an event name or a page path',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Step label (default: the event name or page path)' },
+            eventName: { type: 'string', description: 'Event that completes the step (e.g., "add_to_cart")' },
+            pagePath: { type: 'string', description: 'Page path viewed to complete the step (e.g., "/checkout")' },
+            directlyFollowedBy: {
+              type: 'boolean',
+              description: 'Require this step to immediately follow the previous one',
+              default: false,
+            },
+          },
+        },
+      },
+      openFunnel: {
+        type: 'boolean',
+        description: 'Let users enter the funnel at any step instead of only the first',
+        default: false,
+      },
+      breakdownDimension: {
+        type: 'string',
+        description: 'Dimension to break each step down by (e.g., "deviceCategory")',
+      },
+      breakdownLimit: {
+        type: 'number',
+        description: 'Maximum breakdown values to return',
+        default: 10,
+      },
+    },
+    required: ['steps'],
+  },
+
+  async handler(args, context) {
+    if (!Array.isArray(args?.steps)) {
+      throw MCPErrorHandler.invalidToolParams('get_funnel_report', args);
+    }
+
+    const steps = args.steps.map((step, index) => {
+      const target = step?.eventName || step?.pagePath;
+      if (!target || (step.eventName && step.pagePath)) {
+        throw MCPErrorHandler.createError(
+          ErrorCode.INVALID_TOOL_PARAMS,
+          `Funnel step ${index + 1} needs exactly one of eventName or pagePath`,
+          { toolName: 'get_funnel_report', step: index + 1 }
+        );
+      }
+      return {
+        name: step.name || target,
+        eventName: step.eventName,
+        pagePath: step.pagePath,
+        directlyFollowedBy: step.directlyFollowedBy === true,
+      };
+    });
+
+    const dataClient = context.getDataClient(args.propertyId);
+    const funnel = await dataClient.runFunnelReport(
+      {
+        propertyId: dataClient.getPropertyId(),
+        dateRange: resolveToolDateRange('get_funnel_report', args),
+        steps,
+        openFunnel: args.openFunnel === true,
+        breakdownDimension: args.breakdownDimension,
+        breakdownLimit: resolveLimit(args.breakdownLimit, 10, 100),
+      },
+      { tool: 'get_funnel_report' }
+    );
+
+    return { success: true, ...funnel };
+  },
+};
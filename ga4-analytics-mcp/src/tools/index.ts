@@ -0,0 +1,115 @@
+/**
+ * GA4 MCP tool registry
+ *
+ * Single source of truth for the tools exposed over stdio (ListTools /
+ * CallTool) and over the HTTP MCP bridge.
+ */
+
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import { withAPMTrace } from '../utils/apmMonitoring.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { getTenantRateLimiter } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+import { queryAnalyticsTool } from './analytics.js';
+import { batchQueryAnalyticsTool } from './batch.js';
+import { queryPivotTool } from './pivot.js';
+import { realtimeDataTool } from './realtime.js';
+import { trafficSourcesTool } from './trafficSources.js';
+import { userDemographicsTool } from './demographics.js';
+import { pagePerformanceTool } from './pagePerformance.js';
+import { conversionDataTool } from './conversions.js';
+import { funnelReportTool } from './funnel.js';
+import { cohortRetentionTool } from './cohorts.js';
+import { metadataTool } from './metadata.js';
+import { quotaStatusTool } from './quota.js';
+import type { GA4Tool, GA4ToolCaller, GA4ToolHandler, GA4DataClientResolver } from './shared.js';
+
+export type { GA4Tool, GA4ToolCaller, GA4ToolContext, GA4ToolHandler, GA4DataClientResolver } from './shared.js';
+
+export const GA4_TOOLS: GA4Tool[] = [
+  queryAnalyticsTool,
+  realtimeDataTool,
+  trafficSourcesTool,
+  userDemographicsTool,
+  pagePerformanceTool,
+  conversionDataTool,
+  metadataTool,
+  batchQueryAnalyticsTool,
+  funnelReportTool,
+  cohortRetentionTool,
+  queryPivotTool,
+  quotaStatusTool,
+];
+
+/**
+ * Tool definitions in the shape returned by tools/list
+ */
+export function getToolDefinitions(): Array<Pick<GA4Tool, 'name' | 'description' | 'inputSchema'>> {
+  return GA4_TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+}
+
+const toolDuration = metricsRegistry.histogram({
+  name: 'ga4_mcp_tool_duration_seconds',
+  help: 'MCP tool call latency in seconds, by tool and outcome (success or error)',
+  labelNames: ['tool', 'status'],
+});
+
+/**
+ * Charge a caller's tool call to its tenant's rate limits
+ *
+ * Calls without a caller (stdio) and servers without tenant rate limiting
+ * are not limited.
+ */
+function chargeToolCall(toolName: string, args: any, caller?: GA4ToolCaller): void {
+  const rateLimiter = getTenantRateLimiter();
+  if (!rateLimiter || !caller?.id) {
+    return;
+  }
+
+  const decision = rateLimiter.consume({ tenantId: caller.tenantId || caller.id, plan: caller.plan }, toolName, args);
+  caller.onRateLimit?.(decision);
+  if (!decision.allowed) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.RATE_LIMITED,
+      `Rate limit exceeded for ${toolName} (${decision.bucket} bucket of plan ${decision.plan}); retry in ${decision.retryAfterSeconds}s`,
+      {
+        toolName,
+        plan: decision.plan,
+        bucket: decision.bucket,
+        cost: decision.cost,
+        retryAfterSeconds: decision.retryAfterSeconds
+      }
+    );
+  }
+}
+
+/**
+ * Bind every tool to a data client resolver, keyed by tool name
+ */
+export function createToolHandlers(resolveDataClient: GA4DataClientResolver): Map<string, GA4ToolHandler> {
+  const handlers = new Map<string, GA4ToolHandler>();
+
+  for (const tool of GA4_TOOLS) {
+    handlers.set(tool.name, async (args: any, caller) => {
+      logger.debug(`Running GA4 tool: ${tool.name}`, { args, callerId: caller?.id });
+      chargeToolCall(tool.name, args || {}, caller);
+      const endTimer = toolDuration.startTimer({ tool: tool.name });
+      try {
+        // Child of the caller's request span, so GA4 calls made by the tool share its trace
+        const result = await withAPMTrace('mcp_tool_call', 'MCP_TOOL', { tool: tool.name }, () =>
+          tool.handler(args || {}, {
+            getDataClient: (propertyId?: string) => resolveDataClient(propertyId, caller),
+            caller,
+          })
+        );
+        endTimer({ status: 'success' });
+        return result;
+      } catch (error) {
+        endTimer({ status: 'error' });
+        throw error;
+      }
+    });
+  }
+
+  return handlers;
+}
@@ -0,0 +1,81 @@
+/**
+ * get_metadata tool
+ *
+ * Lists the dimensions, metrics (standard and custom) and key events
+ * available to a GA4 property.
+ */
+
+import type { GA4MetadataField } from '../utils/ga4DataClient.js';
+import { getPropertyMetadata } from '../utils/ga4Metadata.js';
+import type { MetadataParams } from '../types/ga4.js';
+import { GA4Tool, PROPERTY_ID_PROPERTY } from './shared.js';
+
+export interface MetadataResult {
+  success: boolean;
+  propertyId: string;
+  dimensions?: GA4MetadataField[];
+  metrics?: GA4MetadataField[];
+  keyEvents?: string[];
+  metadata: { fetchedAt: string; dimensionCount: number; metricCount: number; keyEventCount: number };
+}
+
+export const metadataTool: GA4Tool<MetadataParams, MetadataResult> = {
+  name: 'get_metadata',
+  description: 'List the dimensions, metrics (including custom definitions) and key events available to a GA4 property',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      type: {
+        type: 'string',
+        enum: ['all', 'dimensions', 'metrics', 'keyEvents'],
+        description: 'Which part of the catalog to return',
+        default: 'all',
+      },
+      customOnly: {
+        type: 'boolean',
+        description: 'Only return custom dimensions and metrics',
+        default: false,
+      },
+      search: {
+        type: 'string',
+        description: 'Case-insensitive filter on API name, UI name or category',
+      },
+      refresh: {
+        type: 'boolean',
+        description: 'Bypass the cache and refetch metadata from GA4',
+        default: false,
+      },
+    },
+  },
+
+  async handler(args, context) {
+    const type = args?.type || 'all';
+    const dataClient = context.getDataClient(args?.propertyId);
+    const catalog = await getPropertyMetadata(dataClient, { refresh: args?.refresh === true });
+
+    const search = args?.search?.trim().toLowerCase();
+    const filterFields = (fields: GA4MetadataField[]) => fields.filter(field =>
+      (!args?.customOnly || field.customDefinition) &&
+      (!search || [field.apiName, field.uiName, field.category].some(value => value.toLowerCase().includes(search)))
+    );
+
+    const dimensions = filterFields(catalog.dimensions);
+    const metrics = filterFields(catalog.metrics);
+    const keyEvents = catalog.keyEvents.filter(eventName => !search || eventName.toLowerCase().includes(search));
+
+    return {
+      success: true,
+      propertyId: catalog.propertyId,
+      ...((type === 'all' || type === 'dimensions') && { dimensions }),
+      ...((type === 'all' || type === 'metrics') && { metrics }),
+      ...((type === 'all' || type === 'keyEvents') && { keyEvents }),
+      metadata: {
+        fetchedAt: catalog.fetchedAt,
+        dimensionCount: dimensions.length,
+        metricCount: metrics.length,
+        keyEventCount: keyEvents.length,
+      },
+    };
+  },
+};
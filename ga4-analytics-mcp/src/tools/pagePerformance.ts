@@ -0,0 +1,133 @@
+/**
+ * get_page_performance tool
+ *
+ * Reports views, reach, engagement time and bounce rate per page path.
+ */
+
+import { GA4_METRICS, GA4_DIMENSIONS } from '../utils/ga4Utils.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { GA4ReportComparison } from '../utils/ga4DataClient.js';
+import type { PagePerformanceParams } from '../types/ga4.js';
+import {
+  GA4Tool,
+  PROPERTY_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  COMPARE_TO_PROPERTY,
+  resolveToolDateRange,
+  resolveToolComparisonRange,
+  resolveLimit,
+  ratioToPercentage,
+} from './shared.js';
+
+export interface PagePerformanceRow {
+  pagePath: string;
+  pageviews: number;
+  uniquePageviews: number;
+  avgTimeOnPage: number;
+  bounceRate: number;
+}
+
+export interface PagePerformanceResult {
+  success: boolean;
+  data: PagePerformanceRow[];
+  totals: { [metricName: string]: number };
+  comparison?: GA4ReportComparison;
+  metadata: { rowCount: number; totalCount?: number; orderBy: string; dateRange: { startDate: string; endDate: string } };
+}
+
+const PAGE_METRICS: string[] = [
+  GA4_METRICS.SCREEN_PAGE_VIEWS,
+  GA4_METRICS.TOTAL_USERS,
+  GA4_METRICS.USER_ENGAGEMENT_DURATION,
+  GA4_METRICS.BOUNCE_RATE,
+];
+
+// Output field names (Universal Analytics vocabulary) mapped to the GA4 metric they come from
+const ORDER_BY_ALIASES: { [field: string]: string } = {
+  pageviews: GA4_METRICS.SCREEN_PAGE_VIEWS,
+  uniquePageviews: GA4_METRICS.TOTAL_USERS,
+  avgTimeOnPage: GA4_METRICS.USER_ENGAGEMENT_DURATION,
+  bounceRate: GA4_METRICS.BOUNCE_RATE,
+};
+
+function resolveOrderByMetric(orderBy: string | undefined): string {
+  const field = orderBy || 'pageviews';
+  const metricName = ORDER_BY_ALIASES[field] || field;
+
+  if (!PAGE_METRICS.includes(metricName)) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      `Unsupported orderBy field for get_page_performance: ${field}`,
+      { orderBy: field, supported: [...Object.keys(ORDER_BY_ALIASES), ...PAGE_METRICS] }
+    );
+  }
+
+  return metricName;
+}
+
+export const pagePerformanceTool: GA4Tool<PagePerformanceParams, PagePerformanceResult> = {
+  name: 'get_page_performance',
+  description: 'Monitor page-level performance metrics',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      ...COMPARE_TO_PROPERTY,
+      orderBy: {
+        type: 'string',
+        description: 'Sort field (pageviews, uniquePageviews, avgTimeOnPage, bounceRate or a GA4 metric name)',
+        default: 'pageviews',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum pages to return',
+        default: 50,
+      },
+    },
+    required: ['startDate', 'endDate'],
+  },
+
+  async handler(args, context) {
+    const dateRange = resolveToolDateRange('get_page_performance', args || {});
+    const compareDateRange = resolveToolComparisonRange('get_page_performance', dateRange, args?.compareTo);
+    const orderByMetric = resolveOrderByMetric(args?.orderBy);
+    const dataClient = context.getDataClient(args?.propertyId);
+
+    const response = await dataClient.runReport({
+      propertyId: dataClient.getPropertyId(),
+      dateRanges: [dateRange],
+      dimensions: [GA4_DIMENSIONS.PAGE_PATH],
+      metrics: PAGE_METRICS,
+      orderBy: [{ metric: { metricName: orderByMetric }, desc: true }],
+      limit: resolveLimit(args?.limit, 50),
+      metricAggregations: ['TOTAL'],
+      compareDateRange,
+    });
+
+    const data = response.rows.map((row): PagePerformanceRow => {
+      const users = row.metrics[GA4_METRICS.TOTAL_USERS] || 0;
+      const engagementSeconds = row.metrics[GA4_METRICS.USER_ENGAGEMENT_DURATION] || 0;
+      return {
+        pagePath: row.dimensions[GA4_DIMENSIONS.PAGE_PATH] || '(not set)',
+        pageviews: row.metrics[GA4_METRICS.SCREEN_PAGE_VIEWS] || 0,
+        uniquePageviews: users,
+        avgTimeOnPage: users > 0 ? Math.round(engagementSeconds / users) : 0,
+        bounceRate: ratioToPercentage(row.metrics[GA4_METRICS.BOUNCE_RATE]),
+      };
+    });
+
+    return {
+      success: true,
+      data,
+      totals: response.totals,
+      ...(response.comparison && { comparison: response.comparison }),
+      metadata: {
+        rowCount: data.length,
+        totalCount: response.metadata.totalCount,
+        orderBy: orderByMetric,
+        dateRange,
+      },
+    };
+  },
+};
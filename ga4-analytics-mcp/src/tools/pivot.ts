@@ -0,0 +1,124 @@
+/**
+ * query_pivot tool
+ *
+ * Runs a GA4 pivot report (e.g. channel x device) with per-pivot limits and
+ * ordering, returned both as flat rows and nested pivot by pivot.
+ */
+
+import type { GA4PivotResponse, GA4PivotSpec } from '../utils/ga4DataClient.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { QueryPivotParams, PivotParam } from '../types/ga4.js';
+import { buildQueryOptions } from './analytics.js';
+import {
+  GA4Tool,
+  PROPERTY_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  FILTER_EXPRESSION_SCHEMA,
+  resolveLimit,
+} from './shared.js';
+
+export interface QueryPivotResult extends GA4PivotResponse {
+  success: boolean;
+}
+
+export const queryPivotTool: GA4Tool<QueryPivotParams, QueryPivotResult> = {
+  name: 'query_pivot',
+  description: 'Run a GA4 pivot report (e.g. channel x device, campaign x landing page) with per-pivot limits and ordering',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      metrics: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Array of GA4 metrics (e.g., "sessions", "conversions")',
+      },
+      ...DATE_RANGE_PROPERTIES,
+      pivots: {
+        type: 'array',
+        minItems: 1,
+        description: 'Pivots in nesting order; each lays out one or more dimensions',
+        items: {
+          type: 'object',
+          properties: {
+            fieldNames: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Dimensions for this pivot (e.g., ["sessionDefaultChannelGroup"])',
+            },
+            limit: {
+              type: 'number',
+              description: 'Value combinations to keep for this pivot',
+              default: 10,
+            },
+            orderBy: {
+              type: 'array',
+              description: 'Ordering within this pivot, e.g. [{"metric": "sessions", "desc": true}]',
+              items: {
+                type: 'object',
+                properties: {
+                  metric: { type: 'string' },
+                  dimension: { type: 'string' },
+                  desc: { type: 'boolean' },
+                },
+              },
+            },
+          },
+          required: ['fieldNames'],
+        },
+      },
+      dimensionFilter: {
+        ...FILTER_EXPRESSION_SCHEMA,
+        description: `Dimension filter. ${FILTER_EXPRESSION_SCHEMA.description}`,
+      },
+      metricFilter: {
+        ...FILTER_EXPRESSION_SCHEMA,
+        description: `Metric filter, applied after aggregation. ${FILTER_EXPRESSION_SCHEMA.description}`,
+      },
+    },
+    required: ['metrics', 'startDate', 'endDate', 'pivots'],
+  },
+
+  async handler(args, context) {
+    if (!Array.isArray(args?.pivots) || args.pivots.length === 0 ||
+        args.pivots.some(pivot => !Array.isArray(pivot?.fieldNames) || pivot.fieldNames.length === 0)) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        'pivots must be a non-empty array, each with at least one field name',
+        { toolName: 'query_pivot' }
+      );
+    }
+
+    const dataClient = context.getDataClient(args.propertyId);
+    // Same validation as query_analytics, with the pivot fields as the dimensions
+    const { metricAggregations: _aggregations, compareDateRange: _compare, dimensions: _dimensions, ...options } =
+      await buildQueryOptions('query_pivot', {
+        metrics: args.metrics,
+        dimensions: args.pivots.flatMap(pivot => pivot.fieldNames),
+        startDate: args.startDate,
+        endDate: args.endDate,
+        dimensionFilter: args.dimensionFilter,
+        metricFilter: args.metricFilter,
+      }, dataClient);
+
+    const result = await dataClient.runPivotReport(
+      { ...options, pivots: args.pivots.map(toPivotSpec) },
+      { tool: 'query_pivot' }
+    );
+
+    return { success: true, ...result };
+  },
+};
+
+function toPivotSpec(pivot: PivotParam): GA4PivotSpec {
+  return {
+    fieldNames: pivot.fieldNames,
+    limit: resolveLimit(pivot.limit, 10),
+    ...(pivot.orderBy && {
+      orderBy: pivot.orderBy.map(order => ({
+        ...(order.metric ? { metric: { metricName: order.metric } } : { dimension: { dimensionName: order.dimension || '' } }),
+        desc: order.desc === true,
+      })),
+    }),
+  };
+}
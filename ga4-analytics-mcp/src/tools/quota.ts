@@ -0,0 +1,90 @@
+/**
+ * get_quota_status tool
+ *
+ * Reports how much of a property's GA4 Data API quota is left, as GA4
+ * returned it with the last report, and the requests queued for it.
+ */
+
+import { ga4MetricsCollector, GA4QuotaWindow } from '../utils/ga4MetricsCollector.js';
+import { ga4QuotaGuard } from '../utils/ga4QuotaGuard.js';
+import type { QuotaStatusParams } from '../types/ga4.js';
+import { GA4Tool, PROPERTY_ID_PROPERTY } from './shared.js';
+
+export interface QuotaBucketStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  percentage: number;
+  resetsAt: string;
+}
+
+export interface QuotaStatusResult {
+  success: boolean;
+  propertyId: string;
+  source: 'ga4' | 'default';
+  updatedAt: string | null;
+  status: 'ok' | 'low' | 'exhausted';
+  estimatedTokensPerRequest: number;
+  buckets: {
+    tokensPerDay: QuotaBucketStatus;
+    tokensPerHour: QuotaBucketStatus;
+    serverErrorsPerProjectPerHour: QuotaBucketStatus;
+  };
+  concurrentRequests: { limit: number; inFlight: number; queued: number; peak: number };
+}
+
+// Usage percentage above which the quota is reported as low
+const LOW_QUOTA_PERCENTAGE = 80;
+
+function toBucketStatus(window: GA4QuotaWindow): QuotaBucketStatus {
+  return {
+    limit: window.limit,
+    used: window.used,
+    remaining: window.remaining,
+    percentage: Math.round(window.percentage * 10) / 10,
+    resetsAt: new Date(window.resetTime).toISOString(),
+  };
+}
+
+export const quotaStatusTool: GA4Tool<QuotaStatusParams, QuotaStatusResult> = {
+  name: 'get_quota_status',
+  description: 'Show how much of the GA4 property\'s Data API token quota (daily and hourly) is left and how many requests are queued',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+    },
+  },
+
+  async handler(args, context) {
+    const propertyId = context.getDataClient(args?.propertyId).getPropertyId();
+    const usage = ga4MetricsCollector.getQuotaUsage(propertyId);
+    const queue = ga4QuotaGuard.getQueueStatus(propertyId);
+    const estimatedTokensPerRequest = ga4MetricsCollector.getExpectedTokenCost(propertyId);
+
+    const tokenWindows = [usage.daily, usage.hourly];
+    const exhausted = tokenWindows.some(window => window.remaining < estimatedTokensPerRequest) ||
+      usage.serverErrors.remaining === 0;
+    const low = [...tokenWindows, usage.serverErrors].some(window => window.percentage >= LOW_QUOTA_PERCENTAGE);
+
+    return {
+      success: true,
+      propertyId,
+      source: usage.source,
+      updatedAt: usage.updatedAt ? new Date(usage.updatedAt).toISOString() : null,
+      status: exhausted ? 'exhausted' : low ? 'low' : 'ok',
+      estimatedTokensPerRequest,
+      buckets: {
+        tokensPerDay: toBucketStatus(usage.daily),
+        tokensPerHour: toBucketStatus(usage.hourly),
+        serverErrorsPerProjectPerHour: toBucketStatus(usage.serverErrors),
+      },
+      concurrentRequests: {
+        limit: queue.maxConcurrent,
+        inFlight: queue.inFlight,
+        queued: queue.queued,
+        peak: usage.concurrent.peak,
+      },
+    };
+  },
+};
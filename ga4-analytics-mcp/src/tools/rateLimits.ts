@@ -0,0 +1,38 @@
+/**
+ * Tenant rate limit settings for the GA4 tools
+ *
+ * A realtime poll costs less than a 90-day pivot: the token buckets
+ * (@ai-ad-manager/mcp-shared/tenantRateLimiter) multiply these base weights
+ * by the date span, per report for batches.
+ */
+
+import { loadTenantRateLimitConfig, TenantRateLimitConfig } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+
+// Base weight of one call; date-ranged tools are multiplied by their span
+export const GA4_TOOL_WEIGHTS: Record<string, number> = {
+  get_realtime_data: 1,
+  get_metadata: 1,
+  get_quota_status: 1,
+  query_analytics: 2,
+  get_traffic_sources: 2,
+  get_user_demographics: 2,
+  get_page_performance: 2,
+  get_conversion_data: 2,
+  batch_query_analytics: 2, // Per report
+  get_funnel_report: 4,
+  get_cohort_retention: 4,
+  query_pivot: 4,
+};
+
+export const GA4_RATE_LIMITS: Partial<TenantRateLimitConfig> = {
+  toolWeights: GA4_TOOL_WEIGHTS,
+  batchTools: ['batch_query_analytics'],
+  metricName: 'ga4_mcp_tenant_rate_limit_decisions',
+};
+
+/**
+ * GA4 rate limits with the plans and weight overrides from the environment
+ */
+export function loadGA4RateLimitConfig(env: NodeJS.ProcessEnv = process.env): Partial<TenantRateLimitConfig> {
+  return loadTenantRateLimitConfig(GA4_RATE_LIMITS, env);
+}
@@ -0,0 +1,73 @@
+/**
+ * get_realtime_data tool
+ *
+ * Reports activity from the last 30 minutes via the GA4 realtime API.
+ */
+
+import { GA4_METRICS } from '../utils/ga4Utils.js';
+import type { GA4DataRow } from '../utils/ga4DataClient.js';
+import type { RealtimeDataParams } from '../types/ga4.js';
+import { GA4Tool, PROPERTY_ID_PROPERTY, resolveLimit } from './shared.js';
+
+export interface RealtimeToolResult {
+  success: boolean;
+  data: { [metricName: string]: number };
+  rows: GA4DataRow[];
+  activeUsers: number;
+  timestamp: string;
+}
+
+export const realtimeDataTool: GA4Tool<RealtimeDataParams, RealtimeToolResult> = {
+  name: 'get_realtime_data',
+  description: 'Get current active users and real-time activity',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      metrics: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Real-time metrics array',
+        default: [GA4_METRICS.ACTIVE_USERS],
+      },
+      dimensions: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional realtime dimensions (e.g., "country", "unifiedScreenName")',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum rows to return when dimensions are requested',
+        default: 100,
+      },
+    },
+  },
+
+  async handler(args, context) {
+    const metrics = args?.metrics && args.metrics.length > 0
+      ? args.metrics
+      : [GA4_METRICS.ACTIVE_USERS];
+    const dataClient = context.getDataClient(args?.propertyId);
+
+    const response = await dataClient.runRealtimeReport({
+      propertyId: dataClient.getPropertyId(),
+      metrics,
+      dimensions: args?.dimensions || [],
+      limit: resolveLimit(args?.limit, 100),
+      metricAggregations: ['TOTAL'],
+    });
+
+    // Without dimensions GA4 returns a single row instead of totals
+    const data = Object.keys(response.totals).length > 0
+      ? response.totals
+      : response.rows[0]?.metrics || {};
+
+    return {
+      success: true,
+      data,
+      rows: response.rows,
+      activeUsers: data[GA4_METRICS.ACTIVE_USERS] || 0,
+      timestamp: response.requestInfo.timestamp,
+    };
+  },
+};
@@ -0,0 +1,230 @@
+/**
+ * Shared types and helpers for GA4 MCP tools
+ *
+ * Every tool is declared once (name, input schema, handler) and served by
+ * both the stdio MCP server and the HTTP MCP bridge.
+ */
+
+import type { GA4DataClient, DateRangeOptions, GA4RequestOptions, GA4ReportPage } from '../utils/ga4DataClient.js';
+import type { RateLimitDecision } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { resolveRelativeDate, validateDateRange, getComparisonDateRange, ComparisonPeriod } from '../utils/ga4Utils.js';
+
+// Identity of whoever is calling a tool, used to narrow property access
+export interface GA4ToolCaller {
+  id?: string;
+  allowedPropertyIds?: string[];
+  tenantId?: string;  // Rate limit key; defaults to id
+  plan?: string;      // Rate limit plan; defaults to the configured default plan
+  onRateLimit?: (decision: RateLimitDecision) => void;
+}
+
+export interface GA4ToolContext {
+  getDataClient: (propertyId?: string) => GA4DataClient;
+  caller?: GA4ToolCaller;
+}
+
+export type GA4DataClientResolver = (propertyId: string | undefined, caller?: GA4ToolCaller) => GA4DataClient;
+
+export interface GA4ToolInputSchema {
+  type: 'object';
+  properties: { [propertyName: string]: any };
+  required?: string[];
+}
+
+export interface GA4Tool<TArgs = any, TResult = any> {
+  name: string;
+  description: string;
+  inputSchema: GA4ToolInputSchema;
+  handler: (args: TArgs, context: GA4ToolContext) => Promise<TResult>;
+}
+
+export type GA4ToolHandler = (args: any, caller?: GA4ToolCaller) => Promise<any>;
+
+// Property selection shared by every tool
+export const PROPERTY_ID_PROPERTY = {
+  propertyId: {
+    type: 'string',
+    description: 'GA4 property ID to query (defaults to the server\'s configured property)',
+  },
+};
+
+// Date properties shared by every historical report tool
+export const DATE_RANGE_PROPERTIES = {
+  startDate: {
+    type: 'string',
+    description: 'Start date in YYYY-MM-DD format',
+  },
+  endDate: {
+    type: 'string',
+    description: 'End date in YYYY-MM-DD format',
+  },
+};
+
+// Period-over-period comparison shared by historical report tools
+export const COMPARE_TO_PROPERTY = {
+  compareTo: {
+    description:
+      'Compare against "previous_period", "previous_year" or a custom {"startDate", "endDate"} range; ' +
+      'adds current / previous values and deltas per row and in totals',
+    oneOf: [
+      { type: 'string', enum: ['previous_period', 'previous_year'] },
+      {
+        type: 'object',
+        properties: {
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+        },
+        required: ['startDate', 'endDate'],
+      },
+    ],
+  },
+};
+
+// Typed filter expression accepted by report tools (see utils/ga4Filters.ts)
+export const FILTER_EXPRESSION_SCHEMA = {
+  type: 'object',
+  description:
+    'Filter expression: {"and": [...]}, {"or": [...]}, {"not": {...}} or a field filter ' +
+    '{"field": name, plus one of "stringFilter": {"value", "matchType": EXACT|BEGINS_WITH|ENDS_WITH|CONTAINS|FULL_REGEXP|PARTIAL_REGEXP, "caseSensitive"}, ' +
+    '"inListFilter": {"values": [...], "caseSensitive"}, ' +
+    '"numericFilter": {"operation": EQUAL|LESS_THAN|LESS_THAN_OR_EQUAL|GREATER_THAN|GREATER_THAN_OR_EQUAL, "value"}, ' +
+    '"betweenFilter": {"from", "to"}}',
+};
+
+/**
+ * Resolve tool date arguments into a validated GA4 date range
+ */
+export function resolveToolDateRange(
+  toolName: string,
+  args: { startDate?: string; endDate?: string }
+): DateRangeOptions {
+  try {
+    return validateDateRange({
+      startDate: resolveRelativeDate(args.startDate || '7daysAgo'),
+      endDate: resolveRelativeDate(args.endDate || 'today'),
+    });
+  } catch (error) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      error instanceof Error ? error.message : `Invalid date range for tool: ${toolName}`,
+      { toolName, startDate: args.startDate, endDate: args.endDate }
+    );
+  }
+}
+
+/**
+ * Resolve a tool's compareTo argument into the date range to compare against
+ */
+export function resolveToolComparisonRange(
+  toolName: string,
+  dateRange: DateRangeOptions,
+  compareTo?: ComparisonPeriod
+): DateRangeOptions | undefined {
+  if (compareTo === undefined || compareTo === null) {
+    return undefined;
+  }
+
+  try {
+    return getComparisonDateRange(dateRange, compareTo);
+  } catch (error) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      error instanceof Error ? error.message : `Invalid comparison period for tool: ${toolName}`,
+      { toolName, compareTo }
+    );
+  }
+}
+
+// Continuation state for paginated reports, handed to clients as an opaque cursor.
+// It carries the tool's arguments rather than built report options, so every
+// page goes back through the tool's validation before reaching the Data API.
+export interface ReportCursor<TArgs extends object = Record<string, unknown>> {
+  args: TArgs;
+  offset: number;
+  pageSize: number;
+}
+
+export type PaginatedReportResult = GA4ReportPage & { nextCursor: string | null };
+
+/**
+ * Encode report continuation state as an opaque cursor
+ */
+export function encodeReportCursor(cursor: ReportCursor<object>): string {
+  return Buffer.from(JSON.stringify({ v: 2, ...cursor })).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeReportCursor
+ *
+ * Only the cursor's shape is checked here; callers must validate the decoded
+ * arguments the same way as a fresh call.
+ */
+export function decodeReportCursor<TArgs extends object>(toolName: string, cursor: string): ReportCursor<TArgs> {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      decoded.v === 2 &&
+      decoded.args && typeof decoded.args === 'object' && !Array.isArray(decoded.args) &&
+      Number.isInteger(decoded.offset) && decoded.offset >= 0 &&
+      Number.isInteger(decoded.pageSize) && decoded.pageSize > 0
+    ) {
+      return { args: decoded.args, offset: decoded.offset, pageSize: decoded.pageSize };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw MCPErrorHandler.createError(
+    ErrorCode.INVALID_TOOL_PARAMS,
+    `Invalid pagination cursor for tool: ${toolName}`,
+    { toolName }
+  );
+}
+
+/**
+ * Fetch one page of a report and attach the cursor for the next one
+ */
+export async function runReportPageWithCursor(
+  toolName: string,
+  dataClient: GA4DataClient,
+  options: GA4RequestOptions,
+  cursor: ReportCursor<object>
+): Promise<PaginatedReportResult> {
+  const page = await dataClient.runReportPage(options, cursor.offset, cursor.pageSize, { tool: toolName });
+
+  return {
+    ...page,
+    nextCursor: page.page.nextOffset === null
+      ? null
+      : encodeReportCursor({ ...cursor, offset: page.page.nextOffset }),
+  };
+}
+
+/**
+ * Clamp a requested row limit to a sane range
+ */
+export function resolveLimit(limit: unknown, defaultLimit: number, maxLimit: number = 10000): number {
+  const parsed = typeof limit === 'number' ? limit : parseInt(String(limit ?? ''), 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return defaultLimit;
+  }
+  return Math.min(Math.floor(parsed), maxLimit);
+}
+
+/**
+ * Share of a total as a percentage rounded to one decimal place
+ */
+export function percentageOf(value: number, total: number): number {
+  if (!total) {
+    return 0;
+  }
+  return Math.round((value / total) * 1000) / 10;
+}
+
+/**
+ * Convert a GA4 ratio (0-1) to a percentage rounded to one decimal place
+ */
+export function ratioToPercentage(ratio: number): number {
+  return Math.round((ratio || 0) * 1000) / 10;
+}
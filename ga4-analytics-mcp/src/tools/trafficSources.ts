@@ -0,0 +1,122 @@
+/**
+ * get_traffic_sources tool
+ *
+ * Breaks sessions down by source / medium, optionally grouped by the
+ * default channel grouping.
+ */
+
+import { GA4_METRICS, GA4_DIMENSIONS } from '../utils/ga4Utils.js';
+import type { GA4ReportComparison } from '../utils/ga4DataClient.js';
+import type { TrafficSourcesParams } from '../types/ga4.js';
+import {
+  GA4Tool,
+  PROPERTY_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  COMPARE_TO_PROPERTY,
+  resolveToolDateRange,
+  resolveToolComparisonRange,
+  resolveLimit,
+  percentageOf,
+  ratioToPercentage,
+} from './shared.js';
+
+export interface TrafficSourceRow {
+  source: string;
+  medium: string;
+  channelGroup?: string;
+  sessions: number;
+  users: number;
+  newUsers: number;
+  engagementRate: number;
+  percentage: number;
+}
+
+export interface TrafficSourcesResult {
+  success: boolean;
+  data: TrafficSourceRow[];
+  totals: { [metricName: string]: number };
+  comparison?: GA4ReportComparison;
+  metadata: { rowCount: number; totalCount?: number; dateRange: { startDate: string; endDate: string } };
+}
+
+export const trafficSourcesTool: GA4Tool<TrafficSourcesParams, TrafficSourcesResult> = {
+  name: 'get_traffic_sources',
+  description: 'Analyze traffic sources and channel performance',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...PROPERTY_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      ...COMPARE_TO_PROPERTY,
+      includeChannels: {
+        type: 'boolean',
+        description: 'Include channel grouping data',
+        default: true,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum source / medium rows to return',
+        default: 50,
+      },
+    },
+    required: ['startDate', 'endDate'],
+  },
+
+  async handler(args, context) {
+    const includeChannels = args?.includeChannels !== false;
+    const dateRange = resolveToolDateRange('get_traffic_sources', args || {});
+    const compareDateRange = resolveToolComparisonRange('get_traffic_sources', dateRange, args?.compareTo);
+    const dataClient = context.getDataClient(args?.propertyId);
+
+    const dimensions: string[] = [GA4_DIMENSIONS.SESSION_SOURCE, GA4_DIMENSIONS.SESSION_MEDIUM];
+    if (includeChannels) {
+      dimensions.unshift(GA4_DIMENSIONS.SESSION_DEFAULT_CHANNEL_GROUP);
+    }
+
+    const response = await dataClient.runReport({
+      propertyId: dataClient.getPropertyId(),
+      dateRanges: [dateRange],
+      dimensions,
+      metrics: [
+        GA4_METRICS.SESSIONS,
+        GA4_METRICS.TOTAL_USERS,
+        GA4_METRICS.NEW_USERS,
+        GA4_METRICS.ENGAGEMENT_RATE,
+      ],
+      orderBy: [{ metric: { metricName: GA4_METRICS.SESSIONS }, desc: true }],
+      limit: resolveLimit(args?.limit, 50),
+      metricAggregations: ['TOTAL'],
+      compareDateRange,
+    });
+
+    const totalSessions = response.totals[GA4_METRICS.SESSIONS] || 0;
+
+    const data = response.rows.map((row): TrafficSourceRow => {
+      const sessions = row.metrics[GA4_METRICS.SESSIONS] || 0;
+      return {
+        source: row.dimensions[GA4_DIMENSIONS.SESSION_SOURCE] || '(not set)',
+        medium: row.dimensions[GA4_DIMENSIONS.SESSION_MEDIUM] || '(not set)',
+        ...(includeChannels && {
+          channelGroup: row.dimensions[GA4_DIMENSIONS.SESSION_DEFAULT_CHANNEL_GROUP] || '(not set)',
+        }),
+        sessions,
+        users: row.metrics[GA4_METRICS.TOTAL_USERS] || 0,
+        newUsers: row.metrics[GA4_METRICS.NEW_USERS] || 0,
+        engagementRate: ratioToPercentage(row.metrics[GA4_METRICS.ENGAGEMENT_RATE]),
+        percentage: percentageOf(sessions, totalSessions),
+      };
+    });
+
+    return {
+      success: true,
+      data,
+      totals: response.totals,
+      ...(response.comparison && { comparison: response.comparison }),
+      metadata: {
+        rowCount: data.length,
+        totalCount: response.metadata.totalCount,
+        dateRange,
+      },
+    };
+  },
+};
@@ -40,48 +40,148 @@ export interface GA4Response {
   samplingSpaceSizes?: string[];
 }
 
+// Period a historical report can be compared against
+export type CompareToParam = 'previous_period' | 'previous_year' | { startDate: string; endDate: string };
+
 export interface QueryAnalyticsParams {
+  propertyId?: string;
   metrics: string[];
   dimensions?: string[];
   startDate: string;
   endDate: string;
   limit?: number;
   orderBy?: string;
-  filters?: any[];
+  dimensionFilter?: GA4FilterExpression;
+  metricFilter?: GA4FilterExpression;
+  compareTo?: CompareToParam;
+  paginate?: boolean;
+  cursor?: string;
 }
 
+// Typed filter expressions (translated to the Data API FilterExpression)
+export type GA4StringMatchType = 'EXACT' | 'BEGINS_WITH' | 'ENDS_WITH' | 'CONTAINS' | 'FULL_REGEXP' | 'PARTIAL_REGEXP';
+
+export type GA4NumericOperation = 'EQUAL' | 'LESS_THAN' | 'LESS_THAN_OR_EQUAL' | 'GREATER_THAN' | 'GREATER_THAN_OR_EQUAL';
+
+export interface GA4FieldFilter {
+  field: string;
+  // Exactly one of the following
+  stringFilter?: { value: string; matchType?: GA4StringMatchType; caseSensitive?: boolean };
+  inListFilter?: { values: string[]; caseSensitive?: boolean };
+  numericFilter?: { operation: GA4NumericOperation; value: number };
+  betweenFilter?: { from: number; to: number };
+}
+
+export type GA4FilterExpression =
+  | { and: GA4FilterExpression[] }
+  | { or: GA4FilterExpression[] }
+  | { not: GA4FilterExpression }
+  | GA4FieldFilter;
+
 export interface RealtimeDataParams {
+  propertyId?: string;
   metrics?: string[];
   dimensions?: string[];
   limit?: number;
 }
 
 export interface TrafficSourcesParams {
+  propertyId?: string;
   startDate: string;
   endDate: string;
   includeChannels?: boolean;
   limit?: number;
+  compareTo?: CompareToParam;
 }
 
 export interface UserDemographicsParams {
+  propertyId?: string;
   startDate: string;
   endDate: string;
   breakdown: 'age' | 'gender' | 'location';
   limit?: number;
+  compareTo?: CompareToParam;
 }
 
 export interface PagePerformanceParams {
+  propertyId?: string;
   startDate: string;
   endDate: string;
   orderBy?: string;
   limit?: number;
+  compareTo?: CompareToParam;
 }
 
 export interface ConversionDataParams {
+  propertyId?: string;
   startDate: string;
   endDate: string;
   includeGoals?: boolean;
   limit?: number;
+  compareTo?: CompareToParam;
+}
+
+export interface BatchReportSpec extends Omit<QueryAnalyticsParams, 'propertyId' | 'paginate' | 'cursor'> {
+  id?: string;
+}
+
+export interface BatchQueryAnalyticsParams {
+  propertyId?: string;
+  reports: BatchReportSpec[];
+}
+
+export interface FunnelStepParam {
+  name?: string;
+  eventName?: string;
+  pagePath?: string;
+  directlyFollowedBy?: boolean;
+}
+
+export interface FunnelReportParams {
+  propertyId?: string;
+  startDate?: string;
+  endDate?: string;
+  steps: FunnelStepParam[];
+  openFunnel?: boolean;
+  breakdownDimension?: string;
+  breakdownLimit?: number;
+}
+
+export interface CohortRetentionParams {
+  propertyId?: string;
+  startDate?: string;
+  endDate?: string;
+  granularity?: 'daily' | 'weekly' | 'monthly';
+  periods?: number;
+  metric?: string;
+}
+
+export interface PivotParam {
+  fieldNames: string[];
+  limit?: number;
+  orderBy?: Array<{ metric?: string; dimension?: string; desc?: boolean }>;
+}
+
+export interface QueryPivotParams {
+  propertyId?: string;
+  metrics: string[];
+  startDate: string;
+  endDate: string;
+  pivots: PivotParam[];
+  dimensionFilter?: GA4FilterExpression;
+  metricFilter?: GA4FilterExpression;
+}
+
+export interface MetadataParams {
+  propertyId?: string;
+  type?: 'all' | 'dimensions' | 'metrics' | 'keyEvents';
+  customOnly?: boolean;
+  search?: string;
+  refresh?: boolean;
+}
+
+export interface QuotaStatusParams {
+  propertyId?: string;
 }
 
 export interface MCPToolResponse {
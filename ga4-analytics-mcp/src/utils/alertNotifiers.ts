@@ -0,0 +1,429 @@
+/**
+ * Incident Alert Notifiers
+ *
+ * Outbound delivery for incident alerts: HMAC-signed webhooks, Slack
+ * incoming webhooks and SMTP email, plus a dispatcher that retries with
+ * exponential backoff and suppresses duplicate alerts by incident fingerprint.
+ */
+
+import { createHmac } from 'crypto';
+import { hostname } from 'os';
+import net from 'net';
+import tls from 'tls';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
+
+export interface AlertPayload {
+  incidentId: string;
+  fingerprint: string;
+  alertType: string;
+  title: string;
+  description: string;
+  severity: string;
+  status: string;
+  component: string;
+  impact: string;
+  urgency: 'immediate' | 'high' | 'medium' | 'low';
+  isEscalation: boolean;
+  timestamp: string;
+}
+
+export interface AlertNotifier {
+  readonly name: string;
+  send(alert: AlertPayload): Promise<void>;
+}
+
+export type AlertDeliveryStatus = 'delivered' | 'failed' | 'deduplicated';
+
+export interface AlertDeliveryResult {
+  notifier: string;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Delivery failure; retryable unless the receiver rejected the alert itself
+ */
+export class AlertDeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'AlertDeliveryError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const SLACK_SEVERITY_COLORS: Record<string, string> = {
+  critical: '#d00000',
+  high: '#e85d04',
+  medium: '#faa307',
+  low: '#4895ef',
+  info: '#adb5bd',
+};
+
+/**
+ * Generic webhook; the body is signed as HMAC-SHA256 over "<timestamp>.<body>"
+ */
+export class WebhookNotifier implements AlertNotifier {
+  readonly name = 'webhook';
+
+  constructor(private config: { url: string; secret?: string; timeoutMs?: number }) {}
+
+  async send(alert: AlertPayload): Promise<void> {
+    const body = JSON.stringify(alert);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Incident-Timestamp': timestamp,
+      'X-Incident-Fingerprint': alert.fingerprint,
+    };
+    if (this.config.secret) {
+      headers['X-Incident-Signature'] = `sha256=${signWebhookBody(this.config.secret, timestamp, body)}`;
+    }
+
+    await postJson(this.config.url, body, headers, this.config.timeoutMs);
+  }
+}
+
+/**
+ * Compute the webhook signature receivers should compare against X-Incident-Signature
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Slack incoming webhook
+ */
+export class SlackNotifier implements AlertNotifier {
+  readonly name = 'slack';
+
+  constructor(private config: { webhookUrl: string; channel?: string; timeoutMs?: number }) {}
+
+  async send(alert: AlertPayload): Promise<void> {
+    const payload = {
+      ...(this.config.channel && { channel: this.config.channel }),
+      text: `${alert.isEscalation ? ':rotating_light: ' : ''}*${alert.alertType}*: ${alert.title}`,
+      attachments: [
+        {
+          color: SLACK_SEVERITY_COLORS[alert.severity] || SLACK_SEVERITY_COLORS.info,
+          text: alert.description,
+          fields: [
+            { title: 'Severity', value: alert.severity, short: true },
+            { title: 'Status', value: alert.status, short: true },
+            { title: 'Component', value: alert.component, short: true },
+            { title: 'Urgency', value: alert.urgency, short: true },
+            { title: 'Impact', value: alert.impact, short: false },
+          ],
+          footer: alert.incidentId,
+          ts: Math.floor(new Date(alert.timestamp).getTime() / 1000),
+        },
+      ],
+    };
+
+    await postJson(this.config.webhookUrl, JSON.stringify(payload), { 'Content-Type': 'application/json' }, this.config.timeoutMs);
+  }
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure?: boolean;        // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  timeoutMs?: number;
+}
+
+/**
+ * Plain-text email over SMTP
+ */
+export class SmtpNotifier implements AlertNotifier {
+  readonly name = 'email';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(alert: AlertPayload): Promise<void> {
+    const subject = `[${alert.severity.toUpperCase()}] ${alert.alertType}: ${alert.title}`;
+    const text = [
+      alert.description,
+      '',
+      `Incident:  ${alert.incidentId}`,
+      `Status:    ${alert.status}`,
+      `Component: ${alert.component}`,
+      `Urgency:   ${alert.urgency}`,
+      `Impact:    ${alert.impact}`,
+      `Time:      ${alert.timestamp}`,
+    ].join('\n');
+
+    await sendSmtpMail(this.config, subject, text);
+  }
+}
+
+/**
+ * Delivers alerts through notifiers with retries and fingerprint dedupe
+ */
+export class AlertDispatcher {
+  private lastDelivered: Map<string, number> = new Map();
+
+  constructor(private options: { retryAttempts: number; retryBaseDelayMs: number; dedupeWindowMs: number }) {}
+
+  async dispatch(notifier: AlertNotifier, alert: AlertPayload): Promise<AlertDeliveryResult> {
+    const dedupeKey = `${notifier.name}:${alert.fingerprint}:${alert.alertType}`;
+    const lastDelivered = this.lastDelivered.get(dedupeKey);
+    if (lastDelivered !== undefined && Date.now() - lastDelivered < this.options.dedupeWindowMs) {
+      return { notifier: notifier.name, status: 'deduplicated', attempts: 0 };
+    }
+
+    const maxAttempts = Math.max(1, this.options.retryAttempts);
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await notifier.send(alert);
+        this.lastDelivered.set(dedupeKey, Date.now());
+        this.pruneDeliveries();
+        return { notifier: notifier.name, status: 'delivered', attempts: attempt };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        const retryable = !(lastError instanceof AlertDeliveryError) || lastError.retryable;
+
+        productionLogger.warn('Alert delivery attempt failed', {
+          component: 'INCIDENT_RESPONSE',
+          notifier: notifier.name,
+          incidentId: alert.incidentId,
+          attempt,
+          retryable,
+          error: lastError.message
+        });
+
+        if (!retryable) {
+          return { notifier: notifier.name, status: 'failed', attempts: attempt, error: lastError.message };
+        }
+        if (attempt < maxAttempts) {
+          await delay(this.options.retryBaseDelayMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    return { notifier: notifier.name, status: 'failed', attempts: maxAttempts, error: lastError?.message };
+  }
+
+  private pruneDeliveries(): void {
+    const cutoff = Date.now() - this.options.dedupeWindowMs;
+    for (const [key, deliveredAt] of this.lastDelivered) {
+      if (deliveredAt < cutoff) {
+        this.lastDelivered.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Notifiers configured through the environment, keyed by alert channel
+ */
+export function createAlertNotifiersFromEnv(env: NodeJS.ProcessEnv = process.env): Record<string, AlertNotifier> {
+  const notifiers: Record<string, AlertNotifier> = {};
+
+  if (env.INCIDENT_WEBHOOK_URL) {
+    notifiers.webhook = new WebhookNotifier({ url: env.INCIDENT_WEBHOOK_URL, secret: env.INCIDENT_WEBHOOK_SECRET });
+  }
+  if (env.SLACK_WEBHOOK_URL) {
+    notifiers.slack = new SlackNotifier({ webhookUrl: env.SLACK_WEBHOOK_URL, channel: env.SLACK_CHANNEL });
+  }
+  if (env.SMTP_HOST && env.INCIDENT_EMAIL_RECIPIENTS) {
+    notifiers.email = new SmtpNotifier({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || (env.SMTP_SECURE === 'true' ? '465' : '587')),
+      secure: env.SMTP_SECURE === 'true',
+      username: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+      from: env.INCIDENT_EMAIL_FROM || `ga4-analytics-mcp@${hostname()}`,
+      to: env.INCIDENT_EMAIL_RECIPIENTS.split(',').map(recipient => recipient.trim()).filter(Boolean),
+    });
+  }
+
+  return notifiers;
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string>, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    throw new AlertDeliveryError(`Request to ${new URL(url).host} failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  await response.text().catch(() => undefined);
+  if (!response.ok) {
+    // Client errors other than timeouts and rate limits will not succeed on retry
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    throw new AlertDeliveryError(`${new URL(url).host} answered ${response.status}`, retryable);
+  }
+}
+
+// ------------------------------------------------------------------
+// Minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN, one message
+// ------------------------------------------------------------------
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+class SmtpReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure?: Error;
+
+  attach(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  detach(socket: net.Socket): void {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('error');
+    socket.removeAllListeners('close');
+  }
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  private onData(data: string): void {
+    this.buffer += data;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a reply; "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(this.failure);
+    }
+  }
+}
+
+async function sendSmtpMail(config: SmtpConfig, subject: string, text: string): Promise<void> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const reader = new SmtpReplyReader();
+  let socket: net.Socket = await openSocket(config, timeoutMs);
+  reader.attach(socket);
+
+  const command = async (line: string, expected: number[]): Promise<SmtpReply> => {
+    socket.write(`${line}\r\n`);
+    return expectReply(reader, expected, line.split(' ')[0]);
+  };
+
+  try {
+    await expectReply(reader, [220], 'greeting');
+    const clientName = hostname();
+    let ehlo = await command(`EHLO ${clientName}`, [250]);
+
+    if (!config.secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await command('STARTTLS', [220]);
+      reader.detach(socket);
+      socket = await upgradeSocket(socket, config.host, timeoutMs);
+      reader.attach(socket);
+      ehlo = await command(`EHLO ${clientName}`, [250]);
+    }
+
+    if (config.username) {
+      const credentials = Buffer.from(`\0${config.username}\0${config.password || ''}`).toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${config.from}>`, [250]);
+    for (const recipient of config.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+    await command(`${formatMessage(config, subject, text)}\r\n.`, [250]);
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
+
+async function expectReply(reader: SmtpReplyReader, expected: number[], step: string): Promise<SmtpReply> {
+  const reply = await reader.next().catch(error => {
+    throw new AlertDeliveryError(`SMTP ${step} failed: ${error.message}`);
+  });
+  if (!expected.includes(reply.code)) {
+    // 4xx replies are transient; 5xx are permanent
+    throw new AlertDeliveryError(`SMTP ${step} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code < 500);
+  }
+  return reply;
+}
+
+function openSocket(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', error => reject(new AlertDeliveryError(`SMTP connection failed: ${error.message}`)));
+  });
+}
+
+function upgradeSocket(socket: net.Socket, host: string, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host });
+    secureSocket.setTimeout(timeoutMs, () => secureSocket.destroy(new Error('SMTP connection timed out')));
+    secureSocket.once('secureConnect', () => resolve(secureSocket));
+    secureSocket.once('error', error => reject(new AlertDeliveryError(`SMTP STARTTLS failed: ${error.message}`)));
+  });
+}
+
+function formatMessage(config: SmtpConfig, subject: string, text: string): string {
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${config.to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now().toString(36)}.${Math.random().toString(36).slice(2)}@${hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+
+  // CRLF line endings, and a leading "." doubled so it cannot end the DATA block
+  const body = text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
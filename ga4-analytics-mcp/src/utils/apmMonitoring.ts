@@ -3,11 +3,18 @@
  * 
  * Provides distributed tracing, spans, performance insights,
  * and detailed monitoring for production observability.
+ * Trace and span IDs follow W3C Trace Context, and finished spans of
+ * sampled traces are exported over OTLP when a collector is configured.
  */
 
-import { logger } from './productionLogger.js';
-import { getCorrelationId } from './productionLogger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { getCorrelationId } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { performanceMonitor } from './performanceMetrics.js';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import { OtlpTraceExporter, loadOtlpExporterConfig } from './otlpExporter.js';
+import {
+  TraceContext, generateTraceId, generateSpanId, getActiveTraceContext, runWithTraceContext,
+} from './traceContext.js';
 
 export interface Span {
   id: string;
@@ -55,6 +62,7 @@ export interface Trace {
   errorSpans: number;
   service: string;
   operation: string;
+  sampled: boolean;
 }
 
 export interface APMMetrics {
@@ -130,9 +138,15 @@ export class APMMonitor {
   private readonly maxTraces = 1000;
   private readonly maxLatencyHistory = 10000;
   private readonly cleanupInterval = 300000; // 5 minutes
+  private traceExporter?: OtlpTraceExporter;
 
   constructor() {
     this.startTime = Date.now();
+
+    const exporterConfig = loadOtlpExporterConfig();
+    if (exporterConfig) {
+      this.traceExporter = new OtlpTraceExporter(exporterConfig);
+    }
     
     // Start periodic cleanup and analysis
     setInterval(() => this.cleanup(), this.cleanupInterval);
@@ -141,11 +155,29 @@ export class APMMonitor {
   }
 
   /**
-   * Start a new trace
+   * Start a new trace, continuing a remote parent context when given
+   */
+  startTrace(operationName: string, component: string, tags: Record<string, any> = {}, parent?: TraceContext): string {
+    return this.startEntrySpan(operationName, component, tags, parent).traceId;
+  }
+
+  /**
+   * Start the span for a unit of work entering this service.
+   * Without a parent it roots a new trace; with one it continues that trace,
+   * joining the local copy if another request of the same trace is in flight.
    */
-  startTrace(operationName: string, component: string, tags: Record<string, any> = {}): string {
-    const traceId = this.generateId('trace');
-    const rootSpan = this.createSpan(traceId, operationName, component, undefined, tags);
+  startEntrySpan(operationName: string, component: string, tags: Record<string, any> = {}, parent?: TraceContext): TraceContext {
+    const existing = parent && this.traces.get(parent.traceId);
+    if (existing) {
+      const span = this.createSpan(existing.id, operationName, component, parent.spanId, tags);
+      existing.spans.set(span.id, span);
+      existing.totalSpans++;
+      this.activeSpans.set(span.id, span);
+      return { traceId: existing.id, spanId: span.id, sampled: existing.sampled };
+    }
+
+    const traceId = parent?.traceId || generateTraceId();
+    const rootSpan = this.createSpan(traceId, operationName, component, parent?.spanId, tags);
     
     const trace: Trace = {
       id: traceId,
@@ -156,7 +188,8 @@ export class APMMonitor {
       totalSpans: 1,
       errorSpans: 0,
       service: 'ga4-analytics-mcp',
-      operation: operationName
+      operation: operationName,
+      sampled: parent ? parent.sampled : true
     };
 
     this.traces.set(traceId, trace);
@@ -165,11 +198,12 @@ export class APMMonitor {
     logger.debug(`Trace started: ${operationName}`, {
       traceId,
       spanId: rootSpan.id,
+      parentSpanId: parent?.spanId,
       component,
       correlationId: getCorrelationId() || undefined
     });
 
-    return traceId;
+    return { traceId, spanId: rootSpan.id, sampled: trace.sampled };
   }
 
   /**
@@ -241,6 +275,10 @@ export class APMMonitor {
 
     this.activeSpans.delete(spanId);
 
+    if (trace?.sampled) {
+      this.traceExporter?.export(span);
+    }
+
     logger.debug(`Span finished: ${span.operationName}`, {
       traceId: span.traceId,
       spanId,
@@ -367,6 +405,20 @@ export class APMMonitor {
     return this.traces.get(traceId);
   }
 
+  /**
+   * Replace the OTLP exporter configured from the environment (undefined disables export)
+   */
+  setTraceExporter(exporter?: OtlpTraceExporter): void {
+    this.traceExporter = exporter;
+  }
+
+  /**
+   * Export spans still queued, e.g. before shutdown
+   */
+  async flushTraces(): Promise<void> {
+    await this.traceExporter?.forceFlush();
+  }
+
   /**
    * Get slow operations
    */
@@ -463,7 +515,7 @@ export class APMMonitor {
    * Create a new span
    */
   private createSpan(traceId: string, operationName: string, component: string, parentSpanId?: string, tags: Record<string, any> = {}): Span {
-    const spanId = this.generateId('span');
+    const spanId = generateSpanId();
     
     return {
       id: spanId,
@@ -596,10 +648,6 @@ export class APMMonitor {
   /**
    * Generate unique ID
    */
-  private generateId(prefix: string): string {
-    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   /**
    * Cleanup old traces
    */
@@ -641,21 +689,27 @@ export class APMMonitor {
 }
 
 // Helper functions for easy APM integration
+
+/**
+ * Run an operation in a span that continues the active trace context
+ * (or the given parent), or roots a new trace when there is none
+ */
 export function withAPMTrace<T>(
   operationName: string,
   component: string,
   tags: Record<string, any>,
-  operation: (traceId: string) => Promise<T>
+  operation: (traceId: string) => Promise<T>,
+  parent: TraceContext | undefined = getActiveTraceContext()
 ): Promise<T> {
-  const traceId = apmMonitor.startTrace(operationName, component, tags);
+  const context = apmMonitor.startEntrySpan(operationName, component, tags, parent);
   
-  return operation(traceId)
+  return runWithTraceContext(context, () => operation(context.traceId))
     .then(result => {
-      apmMonitor.finishSpan(apmMonitor.getTrace(traceId)?.rootSpan.id || '', SpanStatus.OK);
+      apmMonitor.finishSpan(context.spanId, SpanStatus.OK);
       return result;
     })
     .catch(error => {
-      apmMonitor.finishSpan(apmMonitor.getTrace(traceId)?.rootSpan.id || '', SpanStatus.ERROR, error);
+      apmMonitor.finishSpan(context.spanId, SpanStatus.ERROR, error);
       throw error;
     });
 }
@@ -669,8 +723,10 @@ export function withAPMSpan<T>(
   operation: (spanId: string) => Promise<T>
 ): Promise<T> {
   const spanId = apmMonitor.startSpan(traceId, operationName, component, parentSpanId, tags);
+  const sampled = apmMonitor.getTrace(traceId)?.sampled ?? true;
+  const run = () => operation(spanId);
   
-  return operation(spanId)
+  return (spanId ? runWithTraceContext({ traceId, spanId, sampled }, run) : run())
     .then(result => {
       apmMonitor.finishSpan(spanId, SpanStatus.OK);
       return result;
@@ -682,4 +738,22 @@ export function withAPMSpan<T>(
 }
 
 // Global APM monitor instance
-export const apmMonitor = new APMMonitor();
\ No newline at end of file
+export const apmMonitor = new APMMonitor();
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_apm_requests_per_second',
+  help: 'Traced operations completed per second over the last minute',
+  collect: gauge => gauge.set({}, apmMonitor.getAPMMetrics().throughput.requestsPerSecond),
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_apm_error_ratio',
+  help: 'Share of traced operations that failed over the last hour',
+  collect: gauge => gauge.set({}, apmMonitor.getAPMMetrics().errorRate.percentage / 100),
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_apm_availability_ratio',
+  help: 'Share of traced operations that succeeded over the last hour',
+  collect: gauge => gauge.set({}, apmMonitor.getAPMMetrics().serviceHealth.availability / 100),
+});
\ No newline at end of file
@@ -0,0 +1,334 @@
+/**
+ * HTTP MCP Bridge Authentication
+ *
+ * Pluggable caller authentication for the HTTP bridge: static API keys with
+ * scopes and per-key property allow-lists, or HS256 / RS256 JWTs verified
+ * against a shared secret or a JWKS file.
+ */
+
+import { createHash, createHmac, createPublicKey, timingSafeEqual, verify, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { normalizePropertyId } from './ga4DataClient.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { GA4ToolCaller } from '../tools/shared.js';
+
+export type BridgeAuthMode = 'none' | 'api-key' | 'jwt';
+
+// Scopes gating the bridge's route groups ('*' grants every scope)
+export const BRIDGE_SCOPES = {
+  mcp: 'mcp',   // /mcp (Streamable HTTP) and /mcp/rpc
+  api: 'api',   // /api/ga4/* (REST endpoints)
+} as const;
+
+export interface BridgeIdentity {
+  id: string;                    // Stable caller id, e.g. "api-key:dashboard" or "jwt:user-42"
+  authMethod: BridgeAuthMode;
+  scopes: string[];
+  allowedPropertyIds?: string[]; // Unset: every property the server allows
+  tenantId?: string;             // Rate limit key shared by the tenant's callers (default: id)
+  plan?: string;                 // Rate limit plan
+}
+
+export interface BridgeApiKey {
+  id: string;
+  key?: string;                  // Plain key, or
+  keySha256?: string;            // hex SHA-256 of the key
+  scopes?: string[];
+  propertyIds?: string[];
+  tenantId?: string;
+  plan?: string;
+}
+
+export interface BridgeJwtConfig {
+  algorithm: 'HS256' | 'RS256';
+  secret?: string;               // HS256
+  jwksFile?: string;             // RS256
+  issuer?: string;
+  audience?: string;
+  clockToleranceSeconds?: number;
+}
+
+export interface BridgeAuthConfig {
+  mode: BridgeAuthMode;
+  apiKeys?: BridgeApiKey[];
+  jwt?: BridgeJwtConfig;
+}
+
+export interface BridgeAuthenticator {
+  readonly mode: BridgeAuthMode;
+  authenticate(headers: Record<string, string | string[] | undefined>): BridgeIdentity;
+}
+
+/**
+ * Check an identity holds a scope
+ */
+export function hasScope(identity: BridgeIdentity, scope: string): boolean {
+  return identity.scopes.includes('*') || identity.scopes.includes(scope);
+}
+
+/**
+ * Carry an identity into MCP request handlers as the SDK's AuthInfo
+ */
+export function toAuthInfo(identity: BridgeIdentity): AuthInfo {
+  return {
+    token: '',
+    clientId: identity.id,
+    scopes: identity.scopes,
+    extra: { allowedPropertyIds: identity.allowedPropertyIds, tenantId: identity.tenantId, plan: identity.plan },
+  };
+}
+
+/**
+ * Tool caller for an MCP request, or undefined when it did not come through the bridge
+ */
+export function callerFromAuthInfo(authInfo?: AuthInfo): GA4ToolCaller | undefined {
+  if (!authInfo) {
+    return undefined;
+  }
+  return {
+    id: authInfo.clientId,
+    allowedPropertyIds: authInfo.extra?.allowedPropertyIds as string[] | undefined,
+    tenantId: authInfo.extra?.tenantId as string | undefined,
+    plan: authInfo.extra?.plan as string | undefined,
+  };
+}
+
+/**
+ * Accepts every request; only for local development
+ */
+export class NoAuthenticator implements BridgeAuthenticator {
+  readonly mode = 'none' as const;
+
+  authenticate(): BridgeIdentity {
+    return { id: 'anonymous', authMethod: 'none', scopes: ['*'] };
+  }
+}
+
+/**
+ * Static API keys sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ */
+export class ApiKeyAuthenticator implements BridgeAuthenticator {
+  readonly mode = 'api-key' as const;
+  private keys: Array<{ hash: Buffer; identity: BridgeIdentity }>;
+
+  constructor(apiKeys: BridgeApiKey[]) {
+    this.keys = apiKeys.map(apiKey => {
+      if (!apiKey.id || (!apiKey.key && !apiKey.keySha256)) {
+        throw new Error('Every bridge API key needs an id and a key or keySha256');
+      }
+      if (apiKey.keySha256 && !/^[0-9a-f]{64}$/i.test(apiKey.keySha256)) {
+        throw new Error(`Bridge API key ${apiKey.id} has an invalid keySha256`);
+      }
+      return {
+        hash: apiKey.keySha256 ? Buffer.from(apiKey.keySha256, 'hex') : sha256(apiKey.key!),
+        identity: {
+          id: `api-key:${apiKey.id}`,
+          authMethod: 'api-key',
+          scopes: apiKey.scopes && apiKey.scopes.length > 0 ? apiKey.scopes : ['*'],
+          allowedPropertyIds: apiKey.propertyIds?.map(normalizePropertyId),
+          tenantId: apiKey.tenantId,
+          plan: apiKey.plan,
+        },
+      };
+    });
+  }
+
+  authenticate(headers: Record<string, string | string[] | undefined>): BridgeIdentity {
+    const presented = getBearerToken(headers) || headerValue(headers['x-api-key']);
+    if (!presented) {
+      throw MCPErrorHandler.authenticationFailed({ reason: 'API key required' });
+    }
+
+    // Compare hashes in constant time against every key
+    const hash = sha256(presented);
+    const match = this.keys.find(candidate => timingSafeEqual(candidate.hash, hash));
+    if (!match) {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'Invalid API key');
+    }
+    return { ...match.identity, scopes: [...match.identity.scopes] };
+  }
+}
+
+/**
+ * Bearer JWTs signed with HS256 (shared secret) or RS256 (JWKS public keys)
+ *
+ * Identity comes from `sub`; scopes from `scope` (space separated) or `scopes`;
+ * the property allow-list from `ga4_properties`; the rate limit tenant and
+ * plan from `tenant_id` and `plan`.
+ */
+export class JwtAuthenticator implements BridgeAuthenticator {
+  readonly mode = 'jwt' as const;
+  private publicKeys: Map<string, KeyObject> = new Map();
+
+  constructor(private config: BridgeJwtConfig) {
+    if (config.algorithm === 'HS256' && !config.secret) {
+      throw new Error('HS256 bridge JWTs need a secret');
+    }
+    if (config.algorithm === 'RS256') {
+      if (!config.jwksFile) {
+        throw new Error('RS256 bridge JWTs need a JWKS file');
+      }
+      const jwks = JSON.parse(readFileSync(config.jwksFile, 'utf8'));
+      for (const [index, jwk] of (jwks.keys || []).entries()) {
+        if (jwk.kty === 'RSA') {
+          this.publicKeys.set(jwk.kid || String(index), createPublicKey({ key: jwk, format: 'jwk' }));
+        }
+      }
+      if (this.publicKeys.size === 0) {
+        throw new Error(`No RSA keys found in JWKS file ${config.jwksFile}`);
+      }
+    }
+  }
+
+  authenticate(headers: Record<string, string | string[] | undefined>): BridgeIdentity {
+    const token = getBearerToken(headers);
+    if (!token) {
+      throw MCPErrorHandler.authenticationFailed({ reason: 'Bearer token required' });
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'Malformed JWT');
+    }
+
+    let header: any;
+    let claims: any;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    } catch {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'Malformed JWT');
+    }
+
+    // Only the configured algorithm is accepted (no "none", no HS/RS confusion)
+    if (header?.alg !== this.config.algorithm) {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, `JWT must be signed with ${this.config.algorithm}`);
+    }
+    if (!this.verifySignature(`${parts[0]}.${parts[1]}`, Buffer.from(parts[2], 'base64url'), header.kid)) {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'Invalid JWT signature');
+    }
+
+    this.checkClaims(claims);
+
+    const scopes: string[] = Array.isArray(claims.scopes)
+      ? claims.scopes
+      : typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [];
+
+    return {
+      id: `jwt:${claims.sub}`,
+      authMethod: 'jwt',
+      scopes,
+      allowedPropertyIds: Array.isArray(claims.ga4_properties)
+        ? claims.ga4_properties.map((propertyId: string) => normalizePropertyId(propertyId))
+        : undefined,
+      tenantId: typeof claims.tenant_id === 'string' ? claims.tenant_id : undefined,
+      plan: typeof claims.plan === 'string' ? claims.plan : undefined,
+    };
+  }
+
+  private verifySignature(signingInput: string, signature: Buffer, kid?: string): boolean {
+    if (this.config.algorithm === 'HS256') {
+      const expected = createHmac('sha256', this.config.secret!).update(signingInput).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+
+    const key = kid ? this.publicKeys.get(kid) : this.publicKeys.size === 1 ? this.publicKeys.values().next().value : undefined;
+    return !!key && verify('RSA-SHA256', Buffer.from(signingInput), key, signature);
+  }
+
+  private checkClaims(claims: any): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.config.clockToleranceSeconds ?? 30;
+
+    if (typeof claims?.sub !== 'string' || claims.sub === '') {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'JWT has no subject');
+    }
+    if (typeof claims.exp !== 'number') {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'JWT has no expiry');
+    }
+    if (claims.exp + tolerance < now) {
+      throw MCPErrorHandler.createError(ErrorCode.TOKEN_EXPIRED, 'JWT has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'JWT is not valid yet');
+    }
+    if (this.config.issuer && claims.iss !== this.config.issuer) {
+      throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'JWT issuer not accepted');
+    }
+    if (this.config.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.config.audience)) {
+        throw MCPErrorHandler.createError(ErrorCode.CREDENTIALS_INVALID, 'JWT audience not accepted');
+      }
+    }
+  }
+}
+
+/**
+ * Build the authenticator for a configuration
+ */
+export function createBridgeAuthenticator(config: BridgeAuthConfig): BridgeAuthenticator {
+  switch (config.mode) {
+    case 'api-key':
+      if (!config.apiKeys || config.apiKeys.length === 0) {
+        throw new Error('Bridge API key auth needs at least one key');
+      }
+      return new ApiKeyAuthenticator(config.apiKeys);
+    case 'jwt':
+      if (!config.jwt) {
+        throw new Error('Bridge JWT auth needs a JWT configuration');
+      }
+      return new JwtAuthenticator(config.jwt);
+    case 'none':
+      return new NoAuthenticator();
+    default:
+      throw new Error(`Unknown bridge auth mode: ${config.mode}`);
+  }
+}
+
+/**
+ * Read the bridge auth configuration from the environment
+ *
+ * MCP_BRIDGE_AUTH_MODE picks the mode; when unset it follows whichever of
+ * MCP_BRIDGE_API_KEYS(_FILE) or MCP_BRIDGE_JWT_* is configured.
+ */
+export function loadBridgeAuthConfig(env: NodeJS.ProcessEnv = process.env): BridgeAuthConfig {
+  const apiKeysJson = env.MCP_BRIDGE_API_KEYS_FILE
+    ? readFileSync(env.MCP_BRIDGE_API_KEYS_FILE, 'utf8')
+    : env.MCP_BRIDGE_API_KEYS;
+  const apiKeys: BridgeApiKey[] | undefined = apiKeysJson ? JSON.parse(apiKeysJson) : undefined;
+
+  const jwt: BridgeJwtConfig | undefined = env.MCP_BRIDGE_JWT_SECRET || env.MCP_BRIDGE_JWT_JWKS_FILE
+    ? {
+        algorithm: (env.MCP_BRIDGE_JWT_ALGORITHM as BridgeJwtConfig['algorithm']) ||
+          (env.MCP_BRIDGE_JWT_JWKS_FILE ? 'RS256' : 'HS256'),
+        secret: env.MCP_BRIDGE_JWT_SECRET,
+        jwksFile: env.MCP_BRIDGE_JWT_JWKS_FILE,
+        issuer: env.MCP_BRIDGE_JWT_ISSUER,
+        audience: env.MCP_BRIDGE_JWT_AUDIENCE,
+      }
+    : undefined;
+
+  const mode = (env.MCP_BRIDGE_AUTH_MODE as BridgeAuthMode) || (jwt ? 'jwt' : apiKeys ? 'api-key' : 'none');
+
+  if (mode === 'none') {
+    logger.warn('⚠️ HTTP MCP Bridge authentication is disabled; any local client can run GA4 queries');
+  }
+
+  return { mode, apiKeys, jwt };
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function getBearerToken(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(headerValue(headers.authorization) || '');
+  return match?.[1].trim();
+}
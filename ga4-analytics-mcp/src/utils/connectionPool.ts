@@ -5,7 +5,7 @@
  * rate limiting, and resource management for production scalability.
  */
 
-import { logger } from './productionLogger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { performanceMonitor } from './performanceMetrics.js';
 
 export interface ConnectionPoolConfig {
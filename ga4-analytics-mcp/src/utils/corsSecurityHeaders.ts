@@ -5,7 +5,7 @@
  * for HTTP endpoints and health checks in the MCP server.
  */
 
-import { logger as productionLogger } from './productionLogger.js';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
 
 export interface CORSConfig {
   // Origins configuration
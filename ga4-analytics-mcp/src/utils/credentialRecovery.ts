@@ -5,9 +5,9 @@
  * for robust authentication management.
  */
 
-import { logger } from './logger.js';
-import { MCPErrorHandler, ErrorCode } from './errorHandler.js';
-import type { GoogleAuth } from 'google-auth-library';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { GoogleAuth } from 'google-gax';
 import type { BetaAnalyticsDataClient } from '@google-analytics/data';
 import type { TokenManager, CredentialHealth } from './tokenManager.js';
 
@@ -0,0 +1,131 @@
+/**
+ * Cron Schedules
+ *
+ * Parses cron expressions with five fields (minute hour day-of-month month
+ * day-of-week) or six with a leading seconds field, and finds the next time
+ * they fire in the server's local time. Fields take `*`, values, ranges
+ * (`1-5`), steps (`0-30/10`, or `/15` after `*`) and comma lists;
+ * day-of-week 0 and 7 are both Sunday. As in standard cron, when both day
+ * fields are restricted a day matching either one fires.
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+];
+
+// Give up looking for a match after this many days (covers leap-day schedules)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+export class CronSchedule {
+  readonly expression: string;
+  private seconds: CronField;
+  private minutes: CronField;
+  private hours: CronField;
+  private daysOfMonth: CronField;
+  private months: CronField;
+  private daysOfWeek: CronField;
+
+  constructor(expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(`Cron expression "${expression}" must have 5 or 6 fields`);
+    }
+
+    const fields = parts.length === 5 ? ['0', ...parts] : parts;
+    const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] =
+      fields.map((field, index) => parseField(field, FIELD_RANGES[index], expression));
+
+    // Sunday may be written as 7
+    if (daysOfWeek.values.delete(7)) {
+      daysOfWeek.values.add(0);
+    }
+
+    this.expression = expression;
+    this.seconds = seconds;
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = daysOfWeek;
+  }
+
+  /**
+   * First time strictly after `after` that the schedule fires
+   */
+  next(after: Date = new Date()): Date {
+    const candidate = new Date(after.getTime());
+    candidate.setMilliseconds(0);
+    candidate.setSeconds(candidate.getSeconds() + 1);
+
+    const limit = after.getTime() + MAX_SEARCH_DAYS * 86400000;
+    while (candidate.getTime() <= limit) {
+      if (!this.months.values.has(candidate.getMonth() + 1) || !this.matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.values.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.values.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+        continue;
+      }
+      if (!this.seconds.values.has(candidate.getSeconds())) {
+        candidate.setSeconds(candidate.getSeconds() + 1, 0);
+        continue;
+      }
+      return candidate;
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never fires`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.values.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.values.has(date.getDay());
+
+    if (this.daysOfMonth.wildcard || this.daysOfWeek.wildcard) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+}
+
+function parseField(field: string, range: { name: string; min: number; max: number }, expression: string): CronField {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid ${range.name} field "${field}" in cron expression "${expression}"`);
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw invalid();
+    }
+
+    const [, base, from, to, step] = match;
+    const start = base === '*' ? range.min : parseInt(from, 10);
+    // A stepped single value ("5/15") runs to the end of the range
+    const end = base === '*' || (step && to === undefined) ? range.max : parseInt(to ?? from, 10);
+    const increment = step ? parseInt(step, 10) : 1;
+
+    if (start < range.min || end > range.max || start > end || increment < 1) {
+      throw invalid();
+    }
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: field.startsWith('*') };
+}
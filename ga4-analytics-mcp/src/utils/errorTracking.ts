@@ -5,7 +5,7 @@
  * and incident management for production monitoring.
  */
 
-import { logger } from './productionLogger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { performanceMonitor } from './performanceMetrics.js';
 
 export interface ErrorDetails {
@@ -5,11 +5,17 @@
  * error handling, data transformation, and caching capabilities.
  */
 
-import { BetaAnalyticsDataClient } from '@google-analytics/data';
-import { logger } from './logger.js';
-import { MCPErrorHandler, ErrorCode } from './errorHandler.js';
+import { BetaAnalyticsDataClient, v1alpha } from '@google-analytics/data';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
 import { performanceMonitor } from './performanceMetrics.js';
 import { getAuthManager } from './googleAuth.js';
+import { calculatePercentageChange } from './ga4Utils.js';
+import { ga4MetricsCollector, CACHE_REFRESH_TOOL, CACHE_WARMING_TOOL, GA4ApiCall, GA4PropertyQuota } from './ga4MetricsCollector.js';
+import { ga4QuotaGuard, GA4RequestPriority } from './ga4QuotaGuard.js';
+import { getProductionCache } from './productionCache.js';
+import { withAPMTrace } from './apmMonitoring.js';
+import { getActiveTraceContext, formatTraceparent } from './traceContext.js';
 // Google Analytics Data API types (using any for compatibility)
 export interface GA4DateRange {
   startDate: string;
@@ -35,6 +41,20 @@ export interface GA4RunReportRequest {
   orderBys?: any[];
   dimensionFilter?: any;
   metricFilter?: any;
+  metricAggregations?: any[];
+  cohortSpec?: any;
+  returnPropertyQuota?: boolean;
+}
+
+export interface GA4RunPivotReportRequest {
+  property: string;
+  dateRanges: GA4DateRange[];
+  metrics: GA4Metric[];
+  dimensions: GA4Dimension[];
+  pivots: Array<{ fieldNames: string[]; limit: number; offset?: number; orderBys?: any[] }>;
+  dimensionFilter?: any;
+  metricFilter?: any;
+  returnPropertyQuota?: boolean;
 }
 
 export interface GA4RunRealtimeReportRequest {
@@ -45,8 +65,50 @@ export interface GA4RunRealtimeReportRequest {
   orderBys?: any[];
   dimensionFilter?: any;
   metricFilter?: any;
+  metricAggregations?: any[];
 }
 
+// gax call options; otherArgs.headers travel as gRPC metadata
+interface GA4CallOptions {
+  otherArgs?: { headers: Record<string, string> };
+}
+
+// Data API limit on reports per batchRunReports call
+export const MAX_BATCH_REPORTS = 5;
+
+// ProductionCache data type (TTL strategy) for report results
+const REPORT_CACHE_DATA_TYPE = 'ga4-report';
+
+// Funnel table dimension holding "<n>. <step name>" and the breakdown value of per-step totals
+const FUNNEL_STEP_DIMENSION = 'funnelStepName';
+const FUNNEL_TOTAL_BREAKDOWN_VALUE = 'RESERVED_TOTAL';
+const MAX_FUNNEL_STEPS = 10;
+
+// Joins the values of a multi-field pivot into one node key
+const PIVOT_KEY_SEPARATOR = ' / ';
+
+// Data API limit on the product of all pivot limits
+const MAX_PIVOT_CELLS = 100000;
+const DEFAULT_PIVOT_LIMIT = 10;
+
+// Cohort dimensions; the period dimension depends on the granularity
+const COHORT_DIMENSION = 'cohort';
+const COHORT_PERIOD_DIMENSIONS: Record<GA4CohortGranularity, string> = {
+  DAILY: 'cohortNthDay',
+  WEEKLY: 'cohortNthWeek',
+  MONTHLY: 'cohortNthMonth'
+};
+const COHORT_SIZE_METRIC = 'cohortTotalUsers';
+
+// Dimension GA4 adds to rows when a report has several date ranges
+const DATE_RANGE_DIMENSION = 'dateRange';
+
+// Date range names used for period-over-period reports
+const COMPARISON_RANGE_NAMES = { current: 'current', previous: 'previous' } as const;
+
+// Aggregations GA4 returns alongside the rows (required for populated totals)
+export type GA4MetricAggregation = 'TOTAL' | 'MINIMUM' | 'MAXIMUM' | 'COUNT';
+
 // Common GA4 date range types
 export interface DateRangeOptions {
   startDate: string; // YYYY-MM-DD format
@@ -69,6 +131,8 @@ export interface GA4RequestOptions {
   }>;
   dimensionFilter?: any;
   metricFilter?: any;
+  metricAggregations?: GA4MetricAggregation[];
+  compareDateRange?: DateRangeOptions; // Second range to compare the (single) report range against
 }
 
 // Transformed response data structure
@@ -77,9 +141,30 @@ export interface GA4DataRow {
   metrics: { [metricName: string]: number };
 }
 
+// Period-over-period values for one metric
+export interface GA4MetricComparison {
+  current: number;
+  previous: number;
+  change: number;         // current - previous
+  changePercent: number;  // Rounded to one decimal place
+}
+
+export interface GA4ComparisonRow {
+  dimensions: { [dimensionName: string]: string };
+  metrics: { [metricName: string]: GA4MetricComparison };
+}
+
+export interface GA4ReportComparison {
+  currentRange: DateRangeOptions;
+  previousRange: DateRangeOptions;
+  rows: GA4ComparisonRow[];   // Aligned with `rows`, then rows only present in the previous period
+  totals: { [metricName: string]: GA4MetricComparison };
+}
+
 export interface GA4TransformedResponse {
-  rows: GA4DataRow[];
+  rows: GA4DataRow[];       // Current period only when comparing
   totals: { [metricName: string]: number };
+  comparison?: GA4ReportComparison;
   metadata: {
     dimensionHeaders: string[];
     metricHeaders: string[];
@@ -95,6 +180,62 @@ export interface GA4TransformedResponse {
   };
 }
 
+// Who is making a GA4 call, for API usage / quota tracking
+export interface GA4CallContext {
+  tool?: string;
+}
+
+// Paginated report options
+export interface GA4PaginationOptions extends GA4CallContext {
+  pageSize?: number;  // Rows per request (default 10000, GA4 maximum 250000)
+  maxRows?: number;   // Stop once this many rows have been yielded
+}
+
+export interface GA4ReportPage extends GA4TransformedResponse {
+  page: {
+    offset: number;
+    limit: number;
+    nextOffset: number | null;  // null once every row has been read
+    totalCount?: number;
+  };
+}
+
+// Pivot report interfaces
+export interface GA4PivotSpec {
+  fieldNames: string[];   // Dimensions laid out along this pivot
+  limit?: number;         // Value combinations kept for this pivot (default 10)
+  offset?: number;
+  orderBy?: GA4RequestOptions['orderBy'];
+}
+
+export interface GA4PivotOptions extends Omit<GA4RequestOptions, 'dimensions' | 'limit' | 'offset' | 'orderBy' | 'metricAggregations' | 'compareDateRange'> {
+  pivots: GA4PivotSpec[];
+}
+
+export interface GA4PivotNode {
+  key: string;                                 // This pivot's field values joined with " / "
+  dimensions: { [dimensionName: string]: string };
+  metrics?: { [metricName: string]: number };  // Leaves (last pivot) only
+  children?: GA4PivotNode[];
+}
+
+export interface GA4PivotResponse {
+  rows: GA4DataRow[];       // Flattened: one row per dimension combination
+  nested: GA4PivotNode[];   // Grouped by the first pivot, then the next, in GA4's pivot order
+  pivots: Array<{ fieldNames: string[]; values: string[][]; rowCount: number }>;
+  metadata: {
+    dimensionHeaders: string[];
+    metricHeaders: string[];
+    rowCount: number;
+  };
+  dateRanges: DateRangeOptions[];
+  requestInfo: {
+    propertyId: string;
+    executionTime: number;
+    fromCache: boolean;
+  };
+}
+
 // Real-time report specific interfaces
 export interface GA4RealtimeOptions {
   propertyId: string;
@@ -108,6 +249,7 @@ export interface GA4RealtimeOptions {
   }>;
   dimensionFilter?: any;
   metricFilter?: any;
+  metricAggregations?: GA4MetricAggregation[];
 }
 
 export interface GA4RealtimeResponse {
@@ -125,6 +267,98 @@ export interface GA4RealtimeResponse {
   };
 }
 
+// Property metadata (standard and custom dimensions / metrics)
+export interface GA4MetadataField {
+  apiName: string;
+  uiName: string;
+  description: string;
+  category: string;
+  customDefinition: boolean;
+  type?: string;        // Metrics only (e.g. TYPE_INTEGER, TYPE_CURRENCY)
+}
+
+export interface GA4PropertyMetadata {
+  propertyId: string;
+  dimensions: GA4MetadataField[];
+  metrics: GA4MetadataField[];
+  keyEvents: string[];  // Event names with per-event key event metrics
+  fetchedAt: string;
+}
+
+// Funnel report (v1alpha runFunnelReport) interfaces
+export interface GA4FunnelStepOptions {
+  name: string;
+  eventName?: string;            // Exactly one of eventName / pagePath
+  pagePath?: string;
+  directlyFollowedBy?: boolean;  // Step must immediately follow the previous one
+}
+
+export interface GA4FunnelOptions {
+  propertyId: string;
+  dateRange: DateRangeOptions;
+  steps: GA4FunnelStepOptions[];
+  openFunnel?: boolean;          // Users may enter at any step (default: closed)
+  breakdownDimension?: string;
+  breakdownLimit?: number;
+}
+
+export interface GA4FunnelStepResult {
+  step: number;                  // 1-based
+  name: string;
+  activeUsers: number;
+  completionRate: number | null;  // % continuing to the next step; null for the last step
+  abandonments: number;
+  abandonmentRate: number | null;
+}
+
+export interface GA4FunnelResponse {
+  steps: GA4FunnelStepResult[];
+  completionRate: number;        // % of first-step users reaching the last step
+  breakdown?: {
+    dimension: string;
+    segments: Array<{ value: string; steps: GA4FunnelStepResult[]; completionRate: number }>;
+  };
+  openFunnel: boolean;
+  dateRange: DateRangeOptions;
+  requestInfo: {
+    propertyId: string;
+    executionTime: number;
+    fromCache: boolean;
+  };
+}
+
+// Cohort (retention) report interfaces
+export type GA4CohortGranularity = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface GA4CohortOptions {
+  propertyId: string;
+  granularity: GA4CohortGranularity;
+  cohorts: DateRangeOptions[];  // Acquisition (first session) date range per cohort
+  periods: number;              // Periods to follow each cohort for, including period 0
+  metric: string;               // Cohort metric, e.g. cohortActiveUsers
+}
+
+export interface GA4CohortRow {
+  cohort: string;
+  dateRange: DateRangeOptions;
+  cohortSize: number;                // cohortTotalUsers
+  values: Array<number | null>;      // Metric per period; null for periods not yet reached
+  retention: Array<number | null>;   // Values as a % of period 0
+}
+
+export interface GA4CohortMatrix {
+  granularity: GA4CohortGranularity;
+  metric: string;
+  periods: number[];
+  cohorts: GA4CohortRow[];
+  averageRetention: Array<number | null>;  // Weighted by period 0 values, over cohorts that reached the period
+  requestInfo: {
+    propertyId: string;
+    executionTime: number;
+    fromCache: boolean;
+  };
+}
+
 // Error types specific to GA4 operations
 export enum GA4ErrorType {
   AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
@@ -148,14 +382,26 @@ export interface GA4Error {
 
 export class GA4DataClient {
   private client?: BetaAnalyticsDataClient;
+  private alphaClient?: v1alpha.AlphaAnalyticsDataClient;
   private propertyId: string;
   private cache: Map<string, { data: any; timestamp: number; ttl: number }> = new Map();
   private readonly defaultCacheTTL = 300000; // 5 minutes
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // 1 second
+  private readonly defaultPageSize = 10000;
+  private readonly maxPageSize = 250000; // GA4 Data API row limit per request
 
-  constructor(propertyId: string) {
+  constructor(propertyId: string, client?: BetaAnalyticsDataClient, alphaClient?: v1alpha.AlphaAnalyticsDataClient) {
     this.propertyId = propertyId;
+    this.client = client;
+    this.alphaClient = alphaClient;
+  }
+
+  /**
+   * Get the GA4 property this client reports on
+   */
+  getPropertyId(): string {
+    return this.propertyId;
   }
 
   /**
@@ -195,18 +441,32 @@ export class GA4DataClient {
   /**
    * Run a standard GA4 report with built-in error handling and transformation
    */
-  async runReport(options: GA4RequestOptions): Promise<GA4TransformedResponse> {
-    const startTime = Date.now();
+  async runReport(options: GA4RequestOptions, context: GA4CallContext = {}): Promise<GA4TransformedResponse> {
     const cacheKey = this.generateCacheKey('report', options);
-    
-    try {
-      // Check cache first
-      const cachedResult = this.getCachedData(cacheKey);
-      if (cachedResult) {
-        logger.debug('📊 Returning cached GA4 report data');
-        return cachedResult;
-      }
 
+    // Check cache first
+    const cachedResult = await this.getCachedReport(cacheKey);
+    if (cachedResult) {
+      logger.debug('📊 Returning cached GA4 report data');
+      return cachedResult;
+    }
+
+    const transformedResponse = await this.fetchReport(options, context);
+
+    // Cache the result, with a loader that refreshes it once stale
+    await this.setCachedReport(cacheKey, transformedResponse,
+      () => this.fetchReport(options, { ...context, tool: CACHE_REFRESH_TOOL }));
+
+    return transformedResponse;
+  }
+
+  /**
+   * Run a standard report against GA4, bypassing the caches
+   */
+  private async fetchReport(options: GA4RequestOptions, context: GA4CallContext): Promise<GA4TransformedResponse> {
+    const startTime = Date.now();
+
+    try {
       // Validate options
       this.validateReportOptions(options);
 
@@ -224,10 +484,20 @@ export class GA4DataClient {
       // Build GA4 request
       const request = this.buildReportRequest(options);
       
-      // Execute with retry logic
-      const response = await this.executeWithRetry(
-        () => this.client!.runReport(request)
-      );
+      // Execute with retry logic, once the property quota allows it
+      const release = await ga4QuotaGuard.acquire(this.propertyId, 1, this.getPriority(context));
+      let response;
+      try {
+        response = await this.executeWithRetry('runReport',
+          callOptions => this.client!.runReport(request, callOptions)
+        );
+      } catch (error) {
+        this.recordReportCall(request, context, startTime, undefined, error, options);
+        throw error;
+      } finally {
+        release();
+      }
+      this.recordReportCall(request, context, startTime, response[0], undefined, options);
 
       // Transform response
       const transformedResponse = this.transformReportResponse(
@@ -237,9 +507,6 @@ export class GA4DataClient {
         false
       );
 
-      // Cache the result
-      this.setCachedData(cacheKey, transformedResponse);
-
       // Track successful API call
       const responseTime = Date.now() - startTime;
       performanceMonitor.recordResponseTime(responseTime, 'ga4');
@@ -255,6 +522,10 @@ export class GA4DataClient {
         propertyId: options.propertyId 
       });
 
+      if (MCPErrorHandler.isMCPError(error) && error.code === ErrorCode.GA4_QUOTA_EXCEEDED) {
+        throw error;
+      }
+
       const ga4Error = this.handleGA4Error(error);
       logger.error(`❌ GA4 report failed: ${ga4Error.message}`, ga4Error.originalError);
       
@@ -265,6 +536,597 @@ export class GA4DataClient {
     }
   }
 
+  /**
+   * Run up to five reports in a single batchRunReports call
+   *
+   * Results come back in the order of `reports`. Each sub-report is cached
+   * on its own, so only uncached reports are sent to GA4 and later single
+   * runReport calls with the same options are served from cache.
+   */
+  async batchRunReports(reports: GA4RequestOptions[], context: GA4CallContext = {}): Promise<GA4TransformedResponse[]> {
+    const startTime = Date.now();
+
+    if (reports.length === 0 || reports.length > MAX_BATCH_REPORTS) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `batchRunReports takes between 1 and ${MAX_BATCH_REPORTS} reports (got ${reports.length})`,
+        { reportCount: reports.length }
+      );
+    }
+
+    const results: Array<GA4TransformedResponse | undefined> = [];
+    const pending: Array<{ index: number; options: GA4RequestOptions; cacheKey: string }> = [];
+
+    for (const [index, options] of reports.entries()) {
+      if (options.propertyId !== this.propertyId) {
+        throw MCPErrorHandler.createError(
+          ErrorCode.INVALID_TOOL_PARAMS,
+          `Batched reports must all target property ${this.propertyId}`,
+          { index, propertyId: options.propertyId }
+        );
+      }
+
+      const cacheKey = this.generateCacheKey('report', options);
+      results[index] = await this.getCachedReport<GA4TransformedResponse>(cacheKey) || undefined;
+      if (!results[index]) {
+        pending.push({ index, options, cacheKey });
+      }
+    }
+
+    if (pending.length === 0) {
+      logger.debug('📊 Returning cached GA4 batch report data');
+      return results as GA4TransformedResponse[];
+    }
+
+    try {
+      for (const { options } of pending) {
+        this.validateReportOptions(options);
+      }
+
+      if (!this.client) {
+        await this.initialize();
+      }
+
+      performanceMonitor.incrementCounter('ga4_api_calls_total', {
+        type: 'batch_report',
+        propertyId: this.propertyId
+      });
+
+      const requests = pending.map(({ options }) => this.buildReportRequest(options));
+      const release = await ga4QuotaGuard.acquire(this.propertyId, requests.length, this.getPriority(context));
+      let response;
+      try {
+        response = await this.executeWithRetry('batchRunReports',
+          callOptions => this.client!.batchRunReports({ property: `properties/${this.propertyId}`, requests }, callOptions)
+        );
+      } catch (error) {
+        this.recordBatchCall(requests, context, startTime, undefined, error);
+        throw error;
+      } finally {
+        release();
+      }
+      this.recordBatchCall(requests, context, startTime, response[0]);
+
+      const executionTime = Date.now() - startTime;
+      const subReports = response[0]?.reports || [];
+
+      for (const [position, { index, options, cacheKey }] of pending.entries()) {
+        const transformed = this.transformReportResponse(subReports[position] || {}, options, executionTime, false);
+        // Refreshed on its own, as runReport would fetch it
+        await this.setCachedReport(cacheKey, transformed,
+          () => this.fetchReport(options, { ...context, tool: CACHE_REFRESH_TOOL }));
+        results[index] = transformed;
+      }
+
+      performanceMonitor.recordResponseTime(executionTime, 'ga4');
+      logger.debug(`📊 GA4 batch of ${pending.length} report(s) completed in ${executionTime}ms (${reports.length - pending.length} from cache)`);
+
+      return results as GA4TransformedResponse[];
+
+    } catch (error) {
+      performanceMonitor.recordResponseTime(Date.now() - startTime, 'ga4');
+      performanceMonitor.incrementCounter('ga4_api_errors_total', {
+        type: 'batch_report',
+        propertyId: this.propertyId
+      });
+
+      if (MCPErrorHandler.isMCPError(error)) {
+        throw error;
+      }
+
+      const ga4Error = this.handleGA4Error(error);
+      logger.error(`❌ GA4 batch report failed: ${ga4Error.message}`, ga4Error.originalError);
+
+      throw MCPErrorHandler.ga4ApiError(
+        `Batch: ${ga4Error.message}`,
+        ga4Error.originalError
+      );
+    }
+  }
+
+  /**
+   * Run a funnel report through the v1alpha runFunnelReport method
+   */
+  async runFunnelReport(options: GA4FunnelOptions, context: GA4CallContext = {}): Promise<GA4FunnelResponse> {
+    const cacheKey = this.generateCacheKey('funnel', options);
+
+    const cachedResult = await this.getCachedReport<GA4FunnelResponse>(cacheKey);
+    if (cachedResult) {
+      logger.debug('📊 Returning cached GA4 funnel data');
+      return cachedResult;
+    }
+
+    const transformedResponse = await this.fetchFunnelReport(options, context);
+    await this.setCachedReport(cacheKey, transformedResponse,
+      () => this.fetchFunnelReport(options, { ...context, tool: CACHE_REFRESH_TOOL }));
+
+    return transformedResponse;
+  }
+
+  /**
+   * Run a funnel report against GA4, bypassing the caches
+   */
+  private async fetchFunnelReport(options: GA4FunnelOptions, context: GA4CallContext): Promise<GA4FunnelResponse> {
+    const startTime = Date.now();
+
+    try {
+      this.validateFunnelOptions(options);
+
+      if (!this.alphaClient) {
+        this.alphaClient = getAuthManager().getGA4AlphaClient();
+      }
+
+      performanceMonitor.incrementCounter('ga4_api_calls_total', {
+        type: 'funnel',
+        propertyId: this.propertyId
+      });
+
+      const request = this.buildFunnelRequest(options);
+      const release = await ga4QuotaGuard.acquire(this.propertyId, 1, this.getPriority(context));
+      let response;
+      try {
+        response = await this.executeWithRetry('runFunnelReport',
+          callOptions => this.alphaClient!.runFunnelReport(request, callOptions)
+        );
+      } catch (error) {
+        this.recordFunnelCall(options, context, startTime, undefined, error);
+        throw error;
+      } finally {
+        release();
+      }
+      this.recordFunnelCall(options, context, startTime, response[0]);
+
+      const executionTime = Date.now() - startTime;
+      const transformedResponse = this.transformFunnelResponse(response[0], options, executionTime);
+
+      performanceMonitor.recordResponseTime(executionTime, 'ga4');
+      logger.debug(`📊 GA4 funnel report completed in ${executionTime}ms (${options.steps.length} steps)`);
+
+      return transformedResponse;
+
+    } catch (error) {
+      performanceMonitor.recordResponseTime(Date.now() - startTime, 'ga4');
+      performanceMonitor.incrementCounter('ga4_api_errors_total', {
+        type: 'funnel',
+        propertyId: this.propertyId
+      });
+
+      if (MCPErrorHandler.isMCPError(error)) {
+        throw error;
+      }
+
+      const ga4Error = this.handleGA4Error(error);
+      logger.error(`❌ GA4 funnel report failed: ${ga4Error.message}`, ga4Error.originalError);
+
+      throw MCPErrorHandler.ga4ApiError(
+        `Funnel: ${ga4Error.message}`,
+        ga4Error.originalError
+      );
+    }
+  }
+
+  /**
+   * Run a pivot report, returning both flattened rows and rows nested pivot by pivot
+   */
+  async runPivotReport(options: GA4PivotOptions, context: GA4CallContext = {}): Promise<GA4PivotResponse> {
+    const cacheKey = this.generateCacheKey('pivot', options);
+
+    const cachedResult = await this.getCachedReport<GA4PivotResponse>(cacheKey);
+    if (cachedResult) {
+      logger.debug('📊 Returning cached GA4 pivot data');
+      return cachedResult;
+    }
+
+    const transformedResponse = await this.fetchPivotReport(options, context);
+    await this.setCachedReport(cacheKey, transformedResponse,
+      () => this.fetchPivotReport(options, { ...context, tool: CACHE_REFRESH_TOOL }));
+
+    return transformedResponse;
+  }
+
+  /**
+   * Run a pivot report against GA4, bypassing the caches
+   */
+  private async fetchPivotReport(options: GA4PivotOptions, context: GA4CallContext): Promise<GA4PivotResponse> {
+    const startTime = Date.now();
+
+    try {
+      this.validatePivotOptions(options);
+
+      if (!this.client) {
+        await this.initialize();
+      }
+
+      performanceMonitor.incrementCounter('ga4_api_calls_total', {
+        type: 'pivot',
+        propertyId: this.propertyId
+      });
+
+      const request = this.buildPivotRequest(options);
+      const release = await ga4QuotaGuard.acquire(this.propertyId, 1, this.getPriority(context));
+      let response;
+      try {
+        response = await this.executeWithRetry('runPivotReport',
+          callOptions => this.client!.runPivotReport(request, callOptions)
+        );
+      } catch (error) {
+        this.recordReportCall({ ...request, limit: undefined }, context, startTime, undefined, error);
+        throw error;
+      } finally {
+        release();
+      }
+      this.recordReportCall({ ...request, limit: undefined }, context, startTime, response[0]);
+
+      const executionTime = Date.now() - startTime;
+      const transformedResponse = this.transformPivotResponse(response[0], options, executionTime);
+
+      performanceMonitor.recordResponseTime(executionTime, 'ga4');
+      logger.debug(`📊 GA4 pivot report completed in ${executionTime}ms (${transformedResponse.rows.length} rows)`);
+
+      return transformedResponse;
+
+    } catch (error) {
+      performanceMonitor.recordResponseTime(Date.now() - startTime, 'ga4');
+      performanceMonitor.incrementCounter('ga4_api_errors_total', {
+        type: 'pivot',
+        propertyId: this.propertyId
+      });
+
+      if (MCPErrorHandler.isMCPError(error)) {
+        throw error;
+      }
+
+      const ga4Error = this.handleGA4Error(error);
+      logger.error(`❌ GA4 pivot report failed: ${ga4Error.message}`, ga4Error.originalError);
+
+      throw MCPErrorHandler.ga4ApiError(
+        `Pivot: ${ga4Error.message}`,
+        ga4Error.originalError
+      );
+    }
+  }
+
+  /**
+   * Run a cohort report (cohortSpec) and shape it into a cohort x period matrix
+   */
+  async runCohortReport(options: GA4CohortOptions, context: GA4CallContext = {}): Promise<GA4CohortMatrix> {
+    const cacheKey = this.generateCacheKey('cohort', options);
+
+    const cachedResult = await this.getCachedReport<GA4CohortMatrix>(cacheKey);
+    if (cachedResult) {
+      logger.debug('📊 Returning cached GA4 cohort data');
+      return cachedResult;
+    }
+
+    const matrix = await this.fetchCohortReport(options, context);
+    await this.setCachedReport(cacheKey, matrix,
+      () => this.fetchCohortReport(options, { ...context, tool: CACHE_REFRESH_TOOL }));
+
+    return matrix;
+  }
+
+  /**
+   * Run a cohort report against GA4, bypassing the caches
+   */
+  private async fetchCohortReport(options: GA4CohortOptions, context: GA4CallContext): Promise<GA4CohortMatrix> {
+    const startTime = Date.now();
+
+    try {
+      for (const dateRange of options.cohorts) {
+        this.validateDateRange(dateRange);
+      }
+
+      if (!this.client) {
+        await this.initialize();
+      }
+
+      performanceMonitor.incrementCounter('ga4_api_calls_total', {
+        type: 'cohort',
+        propertyId: this.propertyId
+      });
+
+      const request = this.buildCohortRequest(options);
+      const release = await ga4QuotaGuard.acquire(this.propertyId, 1, this.getPriority(context));
+      let response;
+      try {
+        response = await this.executeWithRetry('runReport',
+          callOptions => this.client!.runReport(request, callOptions)
+        );
+      } catch (error) {
+        this.recordReportCall(request, context, startTime, undefined, error);
+        throw error;
+      } finally {
+        release();
+      }
+      this.recordReportCall(request, context, startTime, response[0]);
+
+      const executionTime = Date.now() - startTime;
+      const matrix = this.transformCohortResponse(response[0], options, executionTime);
+
+      performanceMonitor.recordResponseTime(executionTime, 'ga4');
+      logger.debug(`📊 GA4 cohort report completed in ${executionTime}ms (${options.cohorts.length} cohorts)`);
+
+      return matrix;
+
+    } catch (error) {
+      performanceMonitor.recordResponseTime(Date.now() - startTime, 'ga4');
+      performanceMonitor.incrementCounter('ga4_api_errors_total', {
+        type: 'cohort',
+        propertyId: this.propertyId
+      });
+
+      if (MCPErrorHandler.isMCPError(error)) {
+        throw error;
+      }
+
+      const ga4Error = this.handleGA4Error(error);
+      logger.error(`❌ GA4 cohort report failed: ${ga4Error.message}`, ga4Error.originalError);
+
+      throw MCPErrorHandler.ga4ApiError(
+        `Cohort: ${ga4Error.message}`,
+        ga4Error.originalError
+      );
+    }
+  }
+
+  /**
+   * Run one page of a report starting at the given row offset
+   */
+  async runReportPage(
+    options: GA4RequestOptions,
+    offset: number,
+    limit: number,
+    context: GA4CallContext = {}
+  ): Promise<GA4ReportPage> {
+    if (options.compareDateRange) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        'Paginated reports do not support period comparison',
+        { propertyId: options.propertyId }
+      );
+    }
+
+    const response = await this.runReport({ ...options, offset, limit }, context);
+    const end = offset + response.rows.length;
+    const totalCount = response.metadata.totalCount;
+    const hasMore = response.rows.length === limit && (totalCount === undefined || end < totalCount);
+
+    return {
+      ...response,
+      page: {
+        offset,
+        limit,
+        nextOffset: hasMore ? end : null,
+        totalCount
+      }
+    };
+  }
+
+  /**
+   * Iterate over every row of a report, one page per request
+   *
+   * Follows the offset until GA4's rowCount is exhausted (or maxRows is
+   * reached) and stops with GA4_QUOTA_EXCEEDED before a page would push
+   * tracked daily quota usage past GA4_PAGINATION_QUOTA_CEILING percent.
+   */
+  async *runReportPaginated(
+    options: GA4RequestOptions,
+    pagination: GA4PaginationOptions = {}
+  ): AsyncGenerator<GA4ReportPage> {
+    const pageSize = Math.min(Math.max(1, pagination.pageSize || this.defaultPageSize), this.maxPageSize);
+    let offset = options.offset || 0;
+    let fetched = 0;
+
+    while (true) {
+      this.assertQuotaHeadroom(options.propertyId, offset);
+
+      const limit = pagination.maxRows ? Math.min(pageSize, pagination.maxRows - fetched) : pageSize;
+      const page = await this.runReportPage(options, offset, limit, pagination);
+      fetched += page.rows.length;
+
+      yield page;
+
+      if (page.page.nextOffset === null || (pagination.maxRows && fetched >= pagination.maxRows)) {
+        return;
+      }
+      offset = page.page.nextOffset;
+    }
+  }
+
+  /**
+   * Refuse further pages once tracked quota usage reaches the ceiling
+   */
+  private assertQuotaHeadroom(propertyId: string, offset: number): void {
+    const ceiling = parseFloat(process.env.GA4_PAGINATION_QUOTA_CEILING || '90');
+    const { daily } = ga4MetricsCollector.getQuotaUsage(propertyId);
+
+    if (daily.percentage >= ceiling) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.GA4_QUOTA_EXCEEDED,
+        `GA4 daily quota usage is at ${daily.percentage.toFixed(1)}%; pagination paused at offset ${offset}`,
+        { propertyId, resumeOffset: offset, quotaPercentage: daily.percentage, ceiling }
+      );
+    }
+  }
+
+  /**
+   * Cache refreshes and warming yield to tool calls when quota is scarce
+   */
+  private getPriority(context: GA4CallContext): GA4RequestPriority {
+    return context.tool === CACHE_REFRESH_TOOL || context.tool === CACHE_WARMING_TOOL ? 'background' : 'interactive';
+  }
+
+  /**
+   * Record a report request against GA4 API usage / quota tracking
+   */
+  private recordReportCall(
+    request: GA4RunReportRequest,
+    context: GA4CallContext,
+    startTime: number,
+    response?: any,
+    error?: any,
+    options?: GA4RequestOptions
+  ): void {
+    ga4MetricsCollector.recordApiCall({
+      endpoint: 'runReport',
+      method: 'POST',
+      tool: context.tool || 'ga4-data-client',
+      request: {
+        propertyId: this.propertyId,
+        metrics: request.metrics.map(metric => metric.name),
+        dimensions: (request.dimensions || []).map(dimension => dimension.name),
+        dateRanges: request.dateRanges,
+        limit: request.limit,
+        parameters: { offset: request.offset },
+        options
+      },
+      response: {
+        success: !error,
+        duration: Date.now() - startTime,
+        rowCount: response?.rows?.length,
+        fromCache: false,
+        ...(error && {
+          error: {
+            type: this.handleGA4Error(error).type,
+            message: error.message || 'Unknown error',
+            code: error.code !== undefined ? String(error.code) : undefined
+          }
+        })
+      },
+      quota: this.getCallQuota(response?.propertyQuota)
+    });
+  }
+
+  /**
+   * Record a batch request against GA4 API usage / quota tracking
+   */
+  private recordBatchCall(
+    requests: GA4RunReportRequest[],
+    context: GA4CallContext,
+    startTime: number,
+    response?: any,
+    error?: any
+  ): void {
+    ga4MetricsCollector.recordApiCall({
+      endpoint: 'batchRunReports',
+      method: 'POST',
+      tool: context.tool || 'ga4-data-client',
+      request: {
+        propertyId: this.propertyId,
+        metrics: Array.from(new Set(requests.flatMap(request => request.metrics.map(metric => metric.name)))),
+        dimensions: Array.from(new Set(requests.flatMap(request => (request.dimensions || []).map(dimension => dimension.name)))),
+        dateRanges: requests.flatMap(request => request.dateRanges),
+        parameters: { reportCount: requests.length }
+      },
+      response: {
+        success: !error,
+        duration: Date.now() - startTime,
+        rowCount: response?.reports?.reduce((sum: number, report: any) => sum + (report.rows?.length || 0), 0),
+        fromCache: false,
+        ...(error && {
+          error: {
+            type: this.handleGA4Error(error).type,
+            message: error.message || 'Unknown error',
+            code: error.code !== undefined ? String(error.code) : undefined
+          }
+        })
+      },
+      quota: this.getCallQuota(this.mergeBatchQuota(response?.reports || []))
+    });
+  }
+
+  /**
+   * Quota fields of a recorded call, from the PropertyQuota GA4 returned
+   */
+  private getCallQuota(propertyQuota?: GA4PropertyQuota | null): GA4ApiCall['quota'] {
+    if (!propertyQuota) {
+      return {};
+    }
+    return {
+      tokensUsed: propertyQuota.tokensPerDay?.consumed || 0,
+      remainingQuota: propertyQuota.tokensPerDay?.remaining,
+      propertyQuota
+    };
+  }
+
+  /**
+   * The quota after a batch (that of its last report), with the tokens
+   * every report consumed
+   */
+  private mergeBatchQuota(reports: any[]): GA4PropertyQuota | undefined {
+    const quotas: GA4PropertyQuota[] = reports.map(report => report.propertyQuota).filter(Boolean);
+    if (quotas.length === 0) {
+      return undefined;
+    }
+
+    const last = quotas[quotas.length - 1];
+    const consumed = (bucket: 'tokensPerDay' | 'tokensPerHour') =>
+      quotas.reduce((sum, quota) => sum + (quota[bucket]?.consumed || 0), 0);
+    return {
+      ...last,
+      ...(last.tokensPerDay && { tokensPerDay: { ...last.tokensPerDay, consumed: consumed('tokensPerDay') } }),
+      ...(last.tokensPerHour && { tokensPerHour: { ...last.tokensPerHour, consumed: consumed('tokensPerHour') } })
+    };
+  }
+
+  /**
+   * Record a funnel request against GA4 API usage / quota tracking
+   */
+  private recordFunnelCall(
+    options: GA4FunnelOptions,
+    context: GA4CallContext,
+    startTime: number,
+    response?: any,
+    error?: any
+  ): void {
+    ga4MetricsCollector.recordApiCall({
+      endpoint: 'runFunnelReport',
+      method: 'POST',
+      tool: context.tool || 'ga4-data-client',
+      request: {
+        propertyId: this.propertyId,
+        metrics: ['activeUsers'],
+        dimensions: [FUNNEL_STEP_DIMENSION, ...(options.breakdownDimension ? [options.breakdownDimension] : [])],
+        dateRanges: [options.dateRange],
+        parameters: { steps: options.steps.length, openFunnel: options.openFunnel === true }
+      },
+      response: {
+        success: !error,
+        duration: Date.now() - startTime,
+        rowCount: response?.funnelTable?.rows?.length,
+        fromCache: false,
+        ...(error && {
+          error: {
+            type: this.handleGA4Error(error).type,
+            message: error.message || 'Unknown error',
+            code: error.code !== undefined ? String(error.code) : undefined
+          }
+        })
+      },
+      quota: this.getCallQuota(response?.propertyQuota)
+    });
+  }
+
   /**
    * Run a real-time GA4 report
    */
@@ -290,8 +1152,8 @@ export class GA4DataClient {
       const request = this.buildRealtimeRequest(options);
       
       // Execute with retry logic
-      const response = await this.executeWithRetry(
-        () => this.client!.runRealtimeReport(request)
+      const response = await this.executeWithRetry('runRealtimeReport',
+        callOptions => this.client!.runRealtimeReport(request, callOptions)
       );
 
       // Transform response
@@ -327,9 +1189,68 @@ export class GA4DataClient {
   }
 
   /**
-   * Execute a function with retry logic
+   * Fetch the dimensions and metrics available to the property, including
+   * its custom definitions and key events
+   */
+  async getMetadata(): Promise<GA4PropertyMetadata> {
+    const startTime = Date.now();
+
+    try {
+      if (!this.client) {
+        await this.initialize();
+      }
+
+      performanceMonitor.incrementCounter('ga4_api_calls_total', {
+        type: 'metadata',
+        propertyId: this.propertyId
+      });
+
+      const response = await this.executeWithRetry('getMetadata',
+        callOptions => this.client!.getMetadata({ name: `properties/${this.propertyId}/metadata` }, callOptions)
+      );
+
+      const metadata = this.transformMetadataResponse(response[0]);
+
+      const responseTime = Date.now() - startTime;
+      performanceMonitor.recordResponseTime(responseTime, 'ga4');
+      logger.debug(`📊 GA4 metadata fetched in ${responseTime}ms (${metadata.dimensions.length} dimensions, ${metadata.metrics.length} metrics)`);
+
+      return metadata;
+
+    } catch (error) {
+      performanceMonitor.recordResponseTime(Date.now() - startTime, 'ga4');
+      performanceMonitor.incrementCounter('ga4_api_errors_total', {
+        type: 'metadata',
+        propertyId: this.propertyId
+      });
+
+      const ga4Error = this.handleGA4Error(error);
+      logger.error(`❌ GA4 metadata request failed: ${ga4Error.message}`, ga4Error.originalError);
+
+      throw MCPErrorHandler.ga4ApiError(
+        `Metadata: ${ga4Error.message}`,
+        ga4Error.originalError
+      );
+    }
+  }
+
+  /**
+   * Execute a GA4 API call with retry logic, in a client span whose
+   * traceparent is sent along with the request
    */
-  private async executeWithRetry<T>(operation: () => Promise<T>): Promise<T> {
+  private executeWithRetry<T>(method: string, operation: (callOptions: GA4CallOptions) => Promise<T>): Promise<T> {
+    const tags = { 'span.kind': 'client', 'rpc.system': 'grpc', 'rpc.method': method, propertyId: this.propertyId };
+
+    return withAPMTrace('ga4_api_call', 'GA4_API', tags, async () => {
+      const context = getActiveTraceContext();
+      const callOptions: GA4CallOptions = context
+        ? { otherArgs: { headers: { traceparent: formatTraceparent(context) } } }
+        : {};
+      return this.retryCall(() => operation(callOptions));
+    });
+  }
+
+  private async retryCall<T>(operation: () => Promise<T>): Promise<T> {
     let lastError: any;
     
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
@@ -360,11 +1281,16 @@ export class GA4DataClient {
   private buildReportRequest(options: GA4RequestOptions): GA4RunReportRequest {
     const property = `properties/${options.propertyId}`;
     
-    const dateRanges: GA4DateRange[] = options.dateRanges.map(range => ({
-      startDate: range.startDate,
-      endDate: range.endDate,
-      name: range.name
-    }));
+    const dateRanges: GA4DateRange[] = options.compareDateRange
+      ? [
+          { ...options.dateRanges[0], name: COMPARISON_RANGE_NAMES.current },
+          { ...options.compareDateRange, name: COMPARISON_RANGE_NAMES.previous }
+        ]
+      : options.dateRanges.map(range => ({
+          startDate: range.startDate,
+          endDate: range.endDate,
+          name: range.name
+        }));
 
     const metrics: GA4Metric[] = options.metrics.map(metricName => ({
       name: metricName
@@ -379,8 +1305,10 @@ export class GA4DataClient {
       dateRanges,
       metrics,
       dimensions,
-      limit: options.limit || 1000,
-      offset: options.offset || 0
+      // Each dimension combination comes back once per date range
+      limit: (options.limit || 1000) * dateRanges.length,
+      offset: options.offset || 0,
+      returnPropertyQuota: true
     };
 
     if (options.orderBy && options.orderBy.length > 0) {
@@ -395,6 +1323,43 @@ export class GA4DataClient {
       request.metricFilter = options.metricFilter;
     }
 
+    if (options.metricAggregations && options.metricAggregations.length > 0) {
+      request.metricAggregations = options.metricAggregations;
+    }
+
+    return request;
+  }
+
+  /**
+   * Build GA4 pivot request; the report dimensions are the pivot fields in pivot order
+   */
+  private buildPivotRequest(options: GA4PivotOptions): GA4RunPivotReportRequest {
+    const request: GA4RunPivotReportRequest = {
+      property: `properties/${options.propertyId}`,
+      dateRanges: options.dateRanges.map(range => ({
+        startDate: range.startDate,
+        endDate: range.endDate,
+        name: range.name
+      })),
+      metrics: options.metrics.map(metricName => ({ name: metricName })),
+      dimensions: options.pivots.flatMap(pivot => pivot.fieldNames).map(dimensionName => ({ name: dimensionName })),
+      pivots: options.pivots.map(pivot => ({
+        fieldNames: pivot.fieldNames,
+        limit: pivot.limit || DEFAULT_PIVOT_LIMIT,
+        ...(pivot.offset && { offset: pivot.offset }),
+        ...(pivot.orderBy && pivot.orderBy.length > 0 && { orderBys: pivot.orderBy })
+      })),
+      returnPropertyQuota: true
+    };
+
+    if (options.dimensionFilter) {
+      request.dimensionFilter = options.dimensionFilter;
+    }
+
+    if (options.metricFilter) {
+      request.metricFilter = options.metricFilter;
+    }
+
     return request;
   }
 
@@ -423,15 +1388,117 @@ export class GA4DataClient {
       request.orderBys = options.orderBy;
     }
 
-    if (options.dimensionFilter) {
-      request.dimensionFilter = options.dimensionFilter;
+    if (options.dimensionFilter) {
+      request.dimensionFilter = options.dimensionFilter;
+    }
+
+    if (options.metricFilter) {
+      request.metricFilter = options.metricFilter;
+    }
+
+    if (options.metricAggregations && options.metricAggregations.length > 0) {
+      request.metricAggregations = options.metricAggregations;
+    }
+
+    return request;
+  }
+
+  /**
+   * Map GA4 dimension / metric values onto named row fields
+   */
+  private transformRows(responseRows: any[] | undefined, dimensionHeaders: string[], metricHeaders: string[]): GA4DataRow[] {
+    return (responseRows || []).map(row => {
+      const transformedRow: GA4DataRow = {
+        dimensions: {},
+        metrics: {}
+      };
+
+      // Map dimensions
+      if (row.dimensionValues) {
+        dimensionHeaders.forEach((header: string, index: number) => {
+          transformedRow.dimensions[header] = row.dimensionValues![index]?.value || '';
+        });
+      }
+
+      // Map metrics
+      if (row.metricValues) {
+        metricHeaders.forEach((header: string, index: number) => {
+          transformedRow.metrics[header] = parseFloat(row.metricValues![index]?.value || '0');
+        });
+      }
+
+      return transformedRow;
+    });
+  }
+
+  /**
+   * Transform a GA4 pivot response into flattened rows plus a pivot-by-pivot tree
+   */
+  private transformPivotResponse(response: any, options: GA4PivotOptions, executionTime: number): GA4PivotResponse {
+    const dimensionHeaders: string[] = (response.dimensionHeaders || []).map((header: any) => header.name || '');
+    const metricHeaders: string[] = (response.metricHeaders || []).map((header: any) => header.name || '');
+    const rows = this.transformRows(response.rows, dimensionHeaders, metricHeaders);
+
+    const pivots = options.pivots.map((pivot, index) => {
+      const header = response.pivotHeaders?.[index];
+      return {
+        fieldNames: pivot.fieldNames,
+        values: (header?.pivotDimensionHeaders || []).map((dimensionHeader: any) =>
+          (dimensionHeader.dimensionValues || []).map((value: any) => value.value || '')
+        ),
+        rowCount: header?.rowCount ?? 0
+      };
+    });
+
+    // Children follow the order of GA4's pivot headers (i.e. each pivot's orderBys)
+    const positions = pivots.map(pivot => new Map<string, number>(
+      pivot.values.map((values: string[], position: number) => [values.join(PIVOT_KEY_SEPARATOR), position] as [string, number])
+    ));
+
+    const nested: GA4PivotNode[] = [];
+    for (const row of rows) {
+      let level = nested;
+      options.pivots.forEach((pivot, depth) => {
+        const key = pivot.fieldNames.map(fieldName => row.dimensions[fieldName] ?? '').join(PIVOT_KEY_SEPARATOR);
+        let node = level.find(candidate => candidate.key === key);
+        if (!node) {
+          node = {
+            key,
+            dimensions: Object.fromEntries(pivot.fieldNames.map(fieldName => [fieldName, row.dimensions[fieldName] ?? '']))
+          };
+          level.push(node);
+        }
+        if (depth === options.pivots.length - 1) {
+          node.metrics = row.metrics;
+        } else {
+          level = node.children = node.children || [];
+        }
+      });
     }
 
-    if (options.metricFilter) {
-      request.metricFilter = options.metricFilter;
-    }
+    const sortLevel = (nodes: GA4PivotNode[], depth: number) => {
+      const order = positions[depth];
+      nodes.sort((a, b) => (order.get(a.key) ?? Infinity) - (order.get(b.key) ?? Infinity));
+      nodes.forEach(node => node.children && sortLevel(node.children, depth + 1));
+    };
+    sortLevel(nested, 0);
 
-    return request;
+    return {
+      rows,
+      nested,
+      pivots,
+      metadata: {
+        dimensionHeaders,
+        metricHeaders,
+        rowCount: rows.length
+      },
+      dateRanges: options.dateRanges,
+      requestInfo: {
+        propertyId: options.propertyId,
+        executionTime,
+        fromCache: false
+      }
+    };
   }
 
   /**
@@ -451,31 +1518,7 @@ export class GA4DataClient {
     const metricHeaders = (response.metricHeaders || []).map((header: any) => header.name || '');
 
     // Process data rows
-    if (response.rows) {
-      for (const row of response.rows) {
-        const transformedRow: GA4DataRow = {
-          dimensions: {},
-          metrics: {}
-        };
-
-        // Map dimensions
-        if (row.dimensionValues) {
-          dimensionHeaders.forEach((header: string, index: number) => {
-            transformedRow.dimensions[header] = row.dimensionValues![index]?.value || '';
-          });
-        }
-
-        // Map metrics
-        if (row.metricValues) {
-          metricHeaders.forEach((header: string, index: number) => {
-            const value = parseFloat(row.metricValues![index]?.value || '0');
-            transformedRow.metrics[header] = value;
-          });
-        }
-
-        rows.push(transformedRow);
-      }
-    }
+    rows.push(...this.transformRows(response.rows, dimensionHeaders, metricHeaders));
 
     // Calculate totals
     if (response.totals && response.totals.length > 0) {
@@ -487,6 +1530,10 @@ export class GA4DataClient {
       }
     }
 
+    if (options.compareDateRange) {
+      return this.transformComparisonResponse(response, rows, dimensionHeaders, metricHeaders, options, executionTime, fromCache);
+    }
+
     return {
       rows,
       totals,
@@ -506,6 +1553,90 @@ export class GA4DataClient {
     };
   }
 
+  /**
+   * Split a two-range report into current rows and aligned current/previous comparisons
+   */
+  private transformComparisonResponse(
+    response: any,
+    allRows: GA4DataRow[],
+    allDimensionHeaders: string[],
+    metricHeaders: string[],
+    options: GA4RequestOptions,
+    executionTime: number,
+    fromCache: boolean
+  ): GA4TransformedResponse {
+    const dateRangeIndex = allDimensionHeaders.indexOf(DATE_RANGE_DIMENSION);
+    const dimensionHeaders = allDimensionHeaders.filter(header => header !== DATE_RANGE_DIMENSION);
+    const rowKey = (row: GA4DataRow) => JSON.stringify(dimensionHeaders.map(header => row.dimensions[header]));
+
+    const currentRows: GA4DataRow[] = [];
+    const previousRows = new Map<string, GA4DataRow>();
+
+    for (const row of allRows) {
+      const rangeName = row.dimensions[DATE_RANGE_DIMENSION];
+      delete row.dimensions[DATE_RANGE_DIMENSION];
+
+      if (rangeName === COMPARISON_RANGE_NAMES.previous) {
+        previousRows.set(rowKey(row), row);
+      } else {
+        currentRows.push(row);
+      }
+    }
+
+    const rows = options.limit ? currentRows.slice(0, options.limit) : currentRows;
+
+    // One totals row per date range, tagged with the range name when GA4 includes it
+    const rangeTotals: { [rangeName: string]: { [metricName: string]: number } } = {};
+    (response.totals || []).forEach((totalRow: any, index: number) => {
+      const rangeName = totalRow.dimensionValues?.[dateRangeIndex]?.value ||
+        (index === 0 ? COMPARISON_RANGE_NAMES.current : COMPARISON_RANGE_NAMES.previous);
+      rangeTotals[rangeName] = {};
+      metricHeaders.forEach((header: string, metricIndex: number) => {
+        rangeTotals[rangeName][header] = parseFloat(totalRow.metricValues?.[metricIndex]?.value || '0');
+      });
+    });
+
+    const compareRow = (current: GA4DataRow | undefined, previous: GA4DataRow | undefined): GA4ComparisonRow => ({
+      dimensions: { ...(current || previous)!.dimensions },
+      metrics: compareMetrics(metricHeaders, current?.metrics || {}, previous?.metrics || {})
+    });
+
+    const currentKeys = new Set(rows.map(rowKey));
+    const comparisonRows = [
+      ...rows.map(row => compareRow(row, previousRows.get(rowKey(row)))),
+      ...Array.from(previousRows.entries())
+        .filter(([key]) => !currentKeys.has(key))
+        .map(([, row]) => compareRow(undefined, row))
+    ];
+
+    const currentTotals = rangeTotals[COMPARISON_RANGE_NAMES.current] || {};
+    const previousTotals = rangeTotals[COMPARISON_RANGE_NAMES.previous];
+
+    return {
+      rows,
+      totals: currentTotals,
+      comparison: {
+        currentRange: options.dateRanges[0],
+        previousRange: options.compareDateRange!,
+        rows: comparisonRows,
+        totals: previousTotals ? compareMetrics(metricHeaders, currentTotals, previousTotals) : {}
+      },
+      metadata: {
+        dimensionHeaders,
+        metricHeaders,
+        rowCount: rows.length,
+        totalCount: response.rowCount ? parseInt(response.rowCount.toString()) : undefined,
+        samplingInfo: response.metadata?.samplingMetadatas?.[0]
+      },
+      dateRanges: [options.dateRanges[0], options.compareDateRange!],
+      requestInfo: {
+        propertyId: options.propertyId,
+        executionTime,
+        fromCache
+      }
+    };
+  }
+
   /**
    * Transform GA4 realtime response to standardized format
    */
@@ -574,6 +1705,288 @@ export class GA4DataClient {
     };
   }
 
+  /**
+   * Transform GA4 metadata response to standardized format
+   */
+  private transformMetadataResponse(response: any): GA4PropertyMetadata {
+    const toField = (item: any): GA4MetadataField => ({
+      apiName: item.apiName || '',
+      uiName: item.uiName || item.apiName || '',
+      description: item.description || '',
+      category: item.category || '',
+      customDefinition: Boolean(item.customDefinition),
+      ...(item.type !== undefined && { type: String(item.type) })
+    });
+
+    const dimensions = (response?.dimensions || []).map(toField);
+    const metrics = (response?.metrics || []).map(toField);
+
+    // Key events surface as "keyEvents:<eventName>" metrics
+    const keyEvents = metrics
+      .map((metric: GA4MetadataField) => /^keyEvents:(.+)$/.exec(metric.apiName)?.[1])
+      .filter((eventName: string | undefined): eventName is string => Boolean(eventName));
+
+    return {
+      propertyId: this.propertyId,
+      dimensions,
+      metrics,
+      keyEvents,
+      fetchedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Build a cohort request; cohort reports take their dates from cohortSpec, not dateRanges
+   */
+  private buildCohortRequest(options: GA4CohortOptions): GA4RunReportRequest {
+    const metrics = Array.from(new Set([options.metric, COHORT_SIZE_METRIC]));
+
+    return {
+      property: `properties/${options.propertyId}`,
+      dateRanges: [],
+      dimensions: [{ name: COHORT_DIMENSION }, { name: COHORT_PERIOD_DIMENSIONS[options.granularity] }],
+      metrics: metrics.map(name => ({ name })),
+      cohortSpec: {
+        cohorts: options.cohorts.map(dateRange => ({
+          name: this.getCohortName(dateRange),
+          dimension: 'firstSessionDate',
+          dateRange: { startDate: dateRange.startDate, endDate: dateRange.endDate }
+        })),
+        cohortsRange: {
+          granularity: options.granularity,
+          startOffset: 0,
+          endOffset: options.periods - 1
+        },
+        cohortReportSettings: { accumulate: false }
+      },
+      returnPropertyQuota: true
+    };
+  }
+
+  private getCohortName(dateRange: DateRangeOptions): string {
+    return `cohort ${dateRange.startDate}`;
+  }
+
+  /**
+   * Turn cohort x period rows into a matrix with retention relative to period 0
+   */
+  private transformCohortResponse(response: any, options: GA4CohortOptions, executionTime: number): GA4CohortMatrix {
+    const dimensionHeaders: string[] = (response?.dimensionHeaders || []).map((header: any) => header.name || '');
+    const metricHeaders: string[] = (response?.metricHeaders || []).map((header: any) => header.name || '');
+    const cohortIndex = dimensionHeaders.indexOf(COHORT_DIMENSION);
+    const periodIndex = dimensionHeaders.indexOf(COHORT_PERIOD_DIMENSIONS[options.granularity]);
+    const valueIndex = metricHeaders.indexOf(options.metric);
+    const sizeIndex = metricHeaders.indexOf(COHORT_SIZE_METRIC);
+
+    const cohorts: GA4CohortRow[] = options.cohorts.map(dateRange => ({
+      cohort: this.getCohortName(dateRange),
+      dateRange,
+      cohortSize: 0,
+      values: new Array(options.periods).fill(null),
+      retention: new Array(options.periods).fill(null)
+    }));
+    const byName = new Map(cohorts.map(row => [row.cohort, row]));
+
+    for (const row of response?.rows || []) {
+      const cohort = byName.get(row.dimensionValues?.[cohortIndex]?.value || '');
+      const period = parseInt(row.dimensionValues?.[periodIndex]?.value || '', 10);
+      if (!cohort || !(period >= 0 && period < options.periods)) {
+        continue;
+      }
+      cohort.values[period] = parseFloat(row.metricValues?.[valueIndex]?.value || '0');
+      cohort.cohortSize = Math.max(cohort.cohortSize, parseFloat(row.metricValues?.[sizeIndex]?.value || '0'));
+    }
+
+    for (const cohort of cohorts) {
+      const base = cohort.values[0];
+      cohort.retention = cohort.values.map(value => value === null ? null : this.toPercentage(value, base || 0));
+    }
+
+    const averageRetention = Array.from({ length: options.periods }, (_, period) => {
+      const reached = cohorts.filter(cohort => cohort.values[period] !== null && cohort.values[0]);
+      if (reached.length === 0) {
+        return null;
+      }
+      const total = reached.reduce((sum, cohort) => sum + (cohort.values[period] || 0), 0);
+      const base = reached.reduce((sum, cohort) => sum + (cohort.values[0] || 0), 0);
+      return this.toPercentage(total, base);
+    });
+
+    return {
+      granularity: options.granularity,
+      metric: options.metric,
+      periods: Array.from({ length: options.periods }, (_, period) => period),
+      cohorts,
+      averageRetention,
+      requestInfo: {
+        propertyId: options.propertyId,
+        executionTime,
+        fromCache: false
+      }
+    };
+  }
+
+  /**
+   * Validate pivot options
+   */
+  private validatePivotOptions(options: GA4PivotOptions): void {
+    this.validateReportOptions({ ...options, dimensions: options.pivots?.flatMap(pivot => pivot.fieldNames) });
+
+    if (!options.pivots || options.pivots.length === 0) {
+      throw MCPErrorHandler.createError(ErrorCode.INVALID_TOOL_PARAMS, 'At least one pivot is required', {});
+    }
+
+    const fields = options.pivots.flatMap(pivot => pivot.fieldNames || []);
+    if (options.pivots.some(pivot => !pivot.fieldNames || pivot.fieldNames.length === 0) ||
+        new Set(fields).size !== fields.length) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        'Every pivot needs at least one field, and a field may only appear in one pivot',
+        { fieldNames: fields }
+      );
+    }
+
+    const cells = options.pivots.reduce((product, pivot) => product * (pivot.limit || DEFAULT_PIVOT_LIMIT), 1);
+    if (cells > MAX_PIVOT_CELLS) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `The product of pivot limits (${cells}) exceeds ${MAX_PIVOT_CELLS}`,
+        { limits: options.pivots.map(pivot => pivot.limit || DEFAULT_PIVOT_LIMIT) }
+      );
+    }
+  }
+
+  /**
+   * Validate funnel options
+   */
+  private validateFunnelOptions(options: GA4FunnelOptions): void {
+    if (!options.steps || options.steps.length < 2 || options.steps.length > MAX_FUNNEL_STEPS) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `A funnel needs between 2 and ${MAX_FUNNEL_STEPS} steps`,
+        { stepCount: options.steps?.length || 0 }
+      );
+    }
+
+    options.steps.forEach((step, index) => {
+      if (!step.eventName === !step.pagePath) {
+        throw MCPErrorHandler.createError(
+          ErrorCode.INVALID_TOOL_PARAMS,
+          `Funnel step ${index + 1} needs exactly one of eventName or pagePath`,
+          { step: index + 1 }
+        );
+      }
+    });
+
+    this.validateDateRange(options.dateRange);
+  }
+
+  /**
+   * Build the v1alpha funnel request; page steps match page_view events on the path
+   */
+  private buildFunnelRequest(options: GA4FunnelOptions): any {
+    return {
+      property: `properties/${options.propertyId}`,
+      dateRanges: [{ startDate: options.dateRange.startDate, endDate: options.dateRange.endDate }],
+      funnel: {
+        isOpenFunnel: options.openFunnel === true,
+        steps: options.steps.map(step => ({
+          name: step.name,
+          isDirectlyFollowedBy: step.directlyFollowedBy === true,
+          filterExpression: step.eventName
+            ? { funnelEventFilter: { eventName: step.eventName } }
+            : {
+                andGroup: {
+                  expressions: [
+                    { funnelEventFilter: { eventName: 'page_view' } },
+                    { funnelFieldFilter: { fieldName: 'pagePath', stringFilter: { matchType: 'EXACT', value: step.pagePath } } }
+                  ]
+                }
+              }
+        }))
+      },
+      ...(options.breakdownDimension && {
+        funnelBreakdown: {
+          breakdownDimension: { name: options.breakdownDimension },
+          limit: options.breakdownLimit || 10
+        }
+      }),
+      returnPropertyQuota: true
+    };
+  }
+
+  /**
+   * Turn the funnel table into per-step users, completion and abandonment
+   */
+  private transformFunnelResponse(response: any, options: GA4FunnelOptions, executionTime: number): GA4FunnelResponse {
+    const table = response?.funnelTable || {};
+    const dimensionHeaders: string[] = (table.dimensionHeaders || []).map((header: any) => header.name || '');
+    const metricHeaders: string[] = (table.metricHeaders || []).map((header: any) => header.name || '');
+    const stepIndex = dimensionHeaders.indexOf(FUNNEL_STEP_DIMENSION);
+    const breakdownIndex = options.breakdownDimension ? dimensionHeaders.indexOf(options.breakdownDimension) : -1;
+    const usersIndex = metricHeaders.indexOf('activeUsers');
+
+    // Users per step, per breakdown value ('' when there is no breakdown)
+    const usersBySegment = new Map<string, number[]>();
+    for (const row of table.rows || []) {
+      const stepName = row.dimensionValues?.[stepIndex]?.value || '';
+      const step = parseInt(stepName, 10);
+      if (!(step >= 1 && step <= options.steps.length)) {
+        continue;
+      }
+      const rawSegment = breakdownIndex >= 0 ? row.dimensionValues?.[breakdownIndex]?.value || '' : '';
+      const segment = rawSegment === FUNNEL_TOTAL_BREAKDOWN_VALUE ? '' : rawSegment;
+      const users = usersBySegment.get(segment) || new Array(options.steps.length).fill(0);
+      users[step - 1] = parseFloat(row.metricValues?.[usersIndex]?.value || '0');
+      usersBySegment.set(segment, users);
+    }
+
+    const totals = usersBySegment.get('') || new Array(options.steps.length).fill(0);
+    const segments = Array.from(usersBySegment.entries()).filter(([value]) => value !== '');
+
+    return {
+      steps: this.toFunnelSteps(options.steps, totals),
+      completionRate: this.toPercentage(totals[totals.length - 1], totals[0]),
+      ...(options.breakdownDimension && {
+        breakdown: {
+          dimension: options.breakdownDimension,
+          segments: segments.map(([value, users]) => ({
+            value,
+            steps: this.toFunnelSteps(options.steps, users),
+            completionRate: this.toPercentage(users[users.length - 1], users[0])
+          }))
+        }
+      }),
+      openFunnel: options.openFunnel === true,
+      dateRange: options.dateRange,
+      requestInfo: {
+        propertyId: options.propertyId,
+        executionTime,
+        fromCache: false
+      }
+    };
+  }
+
+  private toFunnelSteps(steps: GA4FunnelStepOptions[], users: number[]): GA4FunnelStepResult[] {
+    return steps.map((step, index) => {
+      const isLast = index === steps.length - 1;
+      const abandonments = isLast ? 0 : Math.max(0, users[index] - users[index + 1]);
+      return {
+        step: index + 1,
+        name: step.name,
+        activeUsers: users[index],
+        completionRate: isLast ? null : this.toPercentage(users[index + 1], users[index]),
+        abandonments,
+        abandonmentRate: isLast ? null : this.toPercentage(abandonments, users[index])
+      };
+    });
+  }
+
+  // Percentage rounded to one decimal place (0 when there is no base)
+  private toPercentage(value: number, base: number): number {
+    return base ? Math.round((value / base) * 1000) / 10 : 0;
+  }
+
   /**
    * Validate report options
    */
@@ -609,6 +2022,18 @@ export class GA4DataClient {
     for (const dateRange of options.dateRanges) {
       this.validateDateRange(dateRange);
     }
+
+    if (options.compareDateRange) {
+      if (options.dateRanges.length !== 1) {
+        throw this.createGA4Error(
+          GA4ErrorType.INVALID_DATE_RANGE,
+          'Comparison requires exactly one report date range',
+          null,
+          false
+        );
+      }
+      this.validateDateRange(options.compareDateRange);
+    }
   }
 
   /**
@@ -785,6 +2210,52 @@ export class GA4DataClient {
     return Buffer.from(JSON.stringify(keyData)).toString('base64');
   }
 
+  /**
+   * Look up a report in the local cache, then in the shared production cache
+   */
+  private async getCachedReport<T extends { requestInfo: { fromCache: boolean } } = GA4TransformedResponse>(key: string): Promise<T | null> {
+    const local = this.getCachedData(key);
+    if (local) {
+      return local;
+    }
+
+    const shared = await getProductionCache()?.get(this.getSharedCacheKey(key), REPORT_CACHE_DATA_TYPE);
+    if (!shared) {
+      return null;
+    }
+
+    shared.requestInfo = { ...shared.requestInfo, fromCache: true };
+    this.setCachedData(key, shared);
+    return shared;
+  }
+
+  /**
+   * Store a report in the local and shared production caches
+   *
+   * The loader re-fetches the report when the shared entry goes stale; the
+   * fresh copy replaces the local one too.
+   */
+  private async setCachedReport<T extends { requestInfo: { fromCache: boolean } }>(
+    key: string,
+    data: T,
+    loader: () => Promise<T>
+  ): Promise<void> {
+    this.setCachedData(key, data);
+    await getProductionCache()?.set(this.getSharedCacheKey(key), data, {
+      dataType: REPORT_CACHE_DATA_TYPE,
+      tags: [REPORT_CACHE_DATA_TYPE, `property:${this.propertyId}`],
+      loader: async () => {
+        const fresh = await loader();
+        this.setCachedData(key, fresh);
+        return fresh;
+      }
+    });
+  }
+
+  private getSharedCacheKey(key: string): string {
+    return `${REPORT_CACHE_DATA_TYPE}:property:${this.propertyId}:${key}`;
+  }
+
   /**
    * Get cached data if available and not expired
    */
@@ -845,23 +2316,156 @@ export class GA4DataClient {
   }
 }
 
-// Global GA4 data client instance
-let globalGA4DataClient: GA4DataClient | undefined;
+/**
+ * Compare current and previous values for each metric
+ */
+function compareMetrics(
+  metricNames: string[],
+  current: { [metricName: string]: number },
+  previous: { [metricName: string]: number }
+): { [metricName: string]: GA4MetricComparison } {
+  const comparison: { [metricName: string]: GA4MetricComparison } = {};
+
+  for (const metricName of metricNames) {
+    const currentValue = current[metricName] || 0;
+    const previousValue = previous[metricName] || 0;
+    comparison[metricName] = {
+      current: currentValue,
+      previous: previousValue,
+      change: currentValue - previousValue,
+      changePercent: Math.round(calculatePercentageChange(currentValue, previousValue) * 10) / 10
+    };
+  }
+
+  return comparison;
+}
+
+export interface GA4DataClientRegistryConfig {
+  defaultPropertyId?: string;       // Used when a call does not name a property
+  allowedPropertyIds?: string[];    // Properties this server may query (default is always included)
+}
+
+/**
+ * Normalize a GA4 property ID ("properties/123" or "123") to its numeric form
+ */
+export function normalizePropertyId(propertyId: string): string {
+  const normalized = String(propertyId).trim().replace(/^properties\//, '');
+  
+  if (!/^\d+$/.test(normalized)) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      `Invalid GA4 property ID: ${propertyId}`,
+      { propertyId }
+    );
+  }
+  
+  return normalized;
+}
+
+/**
+ * Per-property GA4 data clients
+ * 
+ * Clients are created lazily on first use and are restricted to the
+ * configured allow-list. Callers may narrow the list further (e.g. the
+ * properties linked to a dashboard user), never widen it.
+ */
+export class GA4DataClientRegistry {
+  private clients: Map<string, GA4DataClient> = new Map();
+  private readonly defaultPropertyId?: string;
+  private readonly allowedPropertyIds: Set<string>;
+
+  constructor(config: GA4DataClientRegistryConfig = {}) {
+    this.defaultPropertyId = config.defaultPropertyId
+      ? normalizePropertyId(config.defaultPropertyId)
+      : undefined;
+    this.allowedPropertyIds = new Set((config.allowedPropertyIds || []).map(normalizePropertyId));
+    
+    if (this.defaultPropertyId) {
+      this.allowedPropertyIds.add(this.defaultPropertyId);
+    }
+  }
+
+  /**
+   * Resolve the property a call should use, enforcing the allow-lists
+   */
+  resolvePropertyId(requestedPropertyId?: string, callerAllowedPropertyIds?: string[]): string {
+    const propertyId = requestedPropertyId
+      ? normalizePropertyId(requestedPropertyId)
+      : this.defaultPropertyId;
+
+    if (!propertyId) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        'propertyId is required: no default GA4 property is configured',
+        { allowedPropertyIds: this.getAllowedPropertyIds() }
+      );
+    }
+
+    const callerAllowed = !callerAllowedPropertyIds ||
+      callerAllowedPropertyIds.map(normalizePropertyId).includes(propertyId);
+
+    if (!this.allowedPropertyIds.has(propertyId) || !callerAllowed) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.GA4_PROPERTY_ACCESS_DENIED,
+        `GA4 property ${propertyId} is not configured for this caller`,
+        { propertyId }
+      );
+    }
+
+    return propertyId;
+  }
+
+  /**
+   * Get (or lazily create) the data client for a property
+   */
+  getClient(requestedPropertyId?: string, callerAllowedPropertyIds?: string[]): GA4DataClient {
+    const propertyId = this.resolvePropertyId(requestedPropertyId, callerAllowedPropertyIds);
+    
+    let client = this.clients.get(propertyId);
+    if (!client) {
+      client = new GA4DataClient(propertyId);
+      this.clients.set(propertyId, client);
+      logger.debug(`📊 GA4 Data Client created for property: ${propertyId}`);
+    }
+    
+    return client;
+  }
+
+  getDefaultPropertyId(): string | undefined {
+    return this.defaultPropertyId;
+  }
+
+  getAllowedPropertyIds(): string[] {
+    return Array.from(this.allowedPropertyIds);
+  }
+
+  /**
+   * Clear cached report data for every property
+   */
+  clearCaches(): void {
+    for (const client of this.clients.values()) {
+      client.clearCache();
+    }
+  }
+}
+
+// Global GA4 data client registry
+let globalGA4DataClientRegistry: GA4DataClientRegistry | undefined;
 
 /**
- * Initialize global GA4 data client
+ * Initialize global GA4 data client registry
  */
-export function initializeGA4DataClient(propertyId: string): GA4DataClient {
-  globalGA4DataClient = new GA4DataClient(propertyId);
-  return globalGA4DataClient;
+export function initializeGA4DataClientRegistry(config: GA4DataClientRegistryConfig): GA4DataClientRegistry {
+  globalGA4DataClientRegistry = new GA4DataClientRegistry(config);
+  return globalGA4DataClientRegistry;
 }
 
 /**
- * Get global GA4 data client
+ * Get global GA4 data client registry
  */
-export function getGA4DataClient(): GA4DataClient {
-  if (!globalGA4DataClient) {
-    throw new Error('GA4 Data Client not initialized. Call initializeGA4DataClient first.');
+export function getGA4DataClientRegistry(): GA4DataClientRegistry {
+  if (!globalGA4DataClientRegistry) {
+    throw new Error('GA4 Data Client registry not initialized. Call initializeGA4DataClientRegistry first.');
   }
-  return globalGA4DataClient;
-}
\ No newline at end of file
+  return globalGA4DataClientRegistry;
+}
@@ -0,0 +1,183 @@
+/**
+ * GA4 Filter Expressions
+ *
+ * Validates the typed filter expressions accepted by MCP tools and
+ * translates them into Data API FilterExpression objects.
+ */
+
+import type { GA4FilterExpression, GA4FieldFilter } from '../types/ga4.js';
+
+export const STRING_MATCH_TYPES = ['EXACT', 'BEGINS_WITH', 'ENDS_WITH', 'CONTAINS', 'FULL_REGEXP', 'PARTIAL_REGEXP'];
+export const NUMERIC_OPERATIONS = ['EQUAL', 'LESS_THAN', 'LESS_THAN_OR_EQUAL', 'GREATER_THAN', 'GREATER_THAN_OR_EQUAL'];
+
+const FIELD_FILTER_KINDS = ['stringFilter', 'inListFilter', 'numericFilter', 'betweenFilter'] as const;
+const MAX_FILTER_DEPTH = 8;
+const MAX_IN_LIST_VALUES = 500;
+
+/**
+ * Check a filter expression's structure, returning one message per problem
+ */
+export function validateFilterExpression(expression: any, path: string = 'filter', depth: number = 0): string[] {
+  if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+    return [`${path} must be an object`];
+  }
+
+  if (depth >= MAX_FILTER_DEPTH) {
+    return [`${path} is nested more than ${MAX_FILTER_DEPTH} levels deep`];
+  }
+
+  if ('and' in expression || 'or' in expression) {
+    const groupKey = 'and' in expression ? 'and' : 'or';
+    const group = expression[groupKey];
+    if (!Array.isArray(group) || group.length === 0) {
+      return [`${path}.${groupKey} must be a non-empty array of filter expressions`];
+    }
+    return group.flatMap((child: any, index: number) =>
+      validateFilterExpression(child, `${path}.${groupKey}[${index}]`, depth + 1)
+    );
+  }
+
+  if ('not' in expression) {
+    return validateFilterExpression(expression.not, `${path}.not`, depth + 1);
+  }
+
+  return validateFieldFilter(expression, path);
+}
+
+function validateFieldFilter(filter: any, path: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof filter.field !== 'string' || filter.field.trim() === '') {
+    errors.push(`${path}.field must be a dimension or metric name`);
+  }
+
+  const kinds = FIELD_FILTER_KINDS.filter(kind => filter[kind] !== undefined);
+  if (kinds.length !== 1) {
+    errors.push(`${path} must have exactly one of: and, or, not, ${FIELD_FILTER_KINDS.join(', ')}`);
+    return errors;
+  }
+
+  const kind = kinds[0];
+  const value = filter[kind];
+
+  switch (kind) {
+    case 'stringFilter':
+      if (typeof value?.value !== 'string') {
+        errors.push(`${path}.stringFilter.value must be a string`);
+      }
+      if (value?.matchType !== undefined && !STRING_MATCH_TYPES.includes(value.matchType)) {
+        errors.push(`${path}.stringFilter.matchType must be one of: ${STRING_MATCH_TYPES.join(', ')}`);
+      }
+      break;
+
+    case 'inListFilter':
+      if (!Array.isArray(value?.values) || value.values.length === 0 ||
+          value.values.some((item: any) => typeof item !== 'string')) {
+        errors.push(`${path}.inListFilter.values must be a non-empty array of strings`);
+      } else if (value.values.length > MAX_IN_LIST_VALUES) {
+        errors.push(`${path}.inListFilter.values may contain at most ${MAX_IN_LIST_VALUES} values`);
+      }
+      break;
+
+    case 'numericFilter':
+      if (!NUMERIC_OPERATIONS.includes(value?.operation)) {
+        errors.push(`${path}.numericFilter.operation must be one of: ${NUMERIC_OPERATIONS.join(', ')}`);
+      }
+      if (!Number.isFinite(value?.value)) {
+        errors.push(`${path}.numericFilter.value must be a number`);
+      }
+      break;
+
+    case 'betweenFilter':
+      if (!Number.isFinite(value?.from) || !Number.isFinite(value?.to)) {
+        errors.push(`${path}.betweenFilter.from and .to must be numbers`);
+      } else if (value.from > value.to) {
+        errors.push(`${path}.betweenFilter.from must not be greater than .to`);
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Collect every field name referenced by a filter expression
+ */
+export function getFilterFields(expression?: GA4FilterExpression): string[] {
+  if (!expression) {
+    return [];
+  }
+  if ('and' in expression) {
+    return expression.and.flatMap(getFilterFields);
+  }
+  if ('or' in expression) {
+    return expression.or.flatMap(getFilterFields);
+  }
+  if ('not' in expression) {
+    return getFilterFields(expression.not);
+  }
+  return [expression.field];
+}
+
+/**
+ * Translate a typed filter expression into a Data API FilterExpression
+ */
+export function toGA4FilterExpression(expression: GA4FilterExpression): any {
+  if ('and' in expression) {
+    return { andGroup: { expressions: expression.and.map(toGA4FilterExpression) } };
+  }
+  if ('or' in expression) {
+    return { orGroup: { expressions: expression.or.map(toGA4FilterExpression) } };
+  }
+  if ('not' in expression) {
+    return { notExpression: toGA4FilterExpression(expression.not) };
+  }
+  return { filter: toGA4Filter(expression) };
+}
+
+function toGA4Filter(filter: GA4FieldFilter): any {
+  const fieldName = filter.field;
+
+  if (filter.stringFilter) {
+    return {
+      fieldName,
+      stringFilter: {
+        value: filter.stringFilter.value,
+        matchType: filter.stringFilter.matchType || 'EXACT',
+        caseSensitive: filter.stringFilter.caseSensitive === true,
+      },
+    };
+  }
+
+  if (filter.inListFilter) {
+    return {
+      fieldName,
+      inListFilter: {
+        values: filter.inListFilter.values,
+        caseSensitive: filter.inListFilter.caseSensitive === true,
+      },
+    };
+  }
+
+  if (filter.numericFilter) {
+    return {
+      fieldName,
+      numericFilter: {
+        operation: filter.numericFilter.operation,
+        value: toNumericValue(filter.numericFilter.value),
+      },
+    };
+  }
+
+  return {
+    fieldName,
+    betweenFilter: {
+      fromValue: toNumericValue(filter.betweenFilter!.from),
+      toValue: toNumericValue(filter.betweenFilter!.to),
+    },
+  };
+}
+
+function toNumericValue(value: number): { int64Value: string } | { doubleValue: number } {
+  return Number.isInteger(value) ? { int64Value: String(value) } : { doubleValue: value };
+}
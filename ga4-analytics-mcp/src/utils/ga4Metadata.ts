@@ -0,0 +1,88 @@
+/**
+ * GA4 Property Metadata
+ *
+ * Loads the dimension / metric catalog of a GA4 property through the Data
+ * API and keeps it in the production cache, so tools, resources and request
+ * validation share a single fetch per property.
+ */
+
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { getProductionCache } from './productionCache.js';
+import type { GA4DataClient, GA4PropertyMetadata } from './ga4DataClient.js';
+
+export const METADATA_CACHE_DATA_TYPE = 'ga4-metadata';
+
+// Metadata fetches currently in flight, keyed by property
+const pendingFetches = new Map<string, Promise<GA4PropertyMetadata>>();
+
+/**
+ * Cache key for a property's metadata
+ */
+export function getMetadataCacheKey(propertyId: string): string {
+  return `${METADATA_CACHE_DATA_TYPE}:property:${propertyId}`;
+}
+
+/**
+ * Get a property's metadata, from the production cache when available
+ */
+export async function getPropertyMetadata(
+  dataClient: GA4DataClient,
+  options: { refresh?: boolean } = {}
+): Promise<GA4PropertyMetadata> {
+  const propertyId = dataClient.getPropertyId();
+  const cacheKey = getMetadataCacheKey(propertyId);
+  const cache = getProductionCache();
+
+  if (cache && !options.refresh) {
+    const cached = await cache.get(cacheKey, METADATA_CACHE_DATA_TYPE);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const pending = pendingFetches.get(propertyId);
+  if (pending) {
+    return pending;
+  }
+
+  const fetchPromise = (async () => {
+    const metadata = await dataClient.getMetadata();
+
+    if (cache) {
+      await cache.set(cacheKey, metadata, {
+        dataType: METADATA_CACHE_DATA_TYPE,
+        tags: [METADATA_CACHE_DATA_TYPE, `property:${propertyId}`],
+        priority: 'high'
+      });
+    }
+
+    logger.info(`📚 GA4 metadata loaded for property ${propertyId}`, {
+      dimensions: metadata.dimensions.length,
+      metrics: metadata.metrics.length,
+      keyEvents: metadata.keyEvents.length
+    });
+
+    return metadata;
+  })();
+
+  pendingFetches.set(propertyId, fetchPromise);
+  try {
+    return await fetchPromise;
+  } finally {
+    pendingFetches.delete(propertyId);
+  }
+}
+
+/**
+ * Drop cached metadata for one property, or for all of them
+ */
+export async function invalidatePropertyMetadata(propertyId?: string): Promise<number> {
+  const cache = getProductionCache();
+  if (!cache) {
+    return 0;
+  }
+
+  return propertyId
+    ? (await cache.delete(getMetadataCacheKey(propertyId)) ? 1 : 0)
+    : cache.clearByTags([METADATA_CACHE_DATA_TYPE]);
+}
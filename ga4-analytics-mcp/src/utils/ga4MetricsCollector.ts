@@ -5,9 +5,11 @@
  * quota tracking, performance analysis, and usage optimization insights.
  */
 
-import { logger } from './productionLogger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { performanceMonitor } from './performanceMetrics.js';
 import { errorTracker, ErrorType } from './errorTracking.js';
+import { metricsRegistry, Gauge } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import type { GA4RequestOptions } from './ga4DataClient.js';
 
 export interface GA4ApiCall {
   id: string;
@@ -23,6 +25,7 @@ export interface GA4ApiCall {
     dateRanges: Array<{ startDate: string; endDate: string; name?: string }>;
     limit?: number;
     parameters?: Record<string, any>;
+    options?: GA4RequestOptions; // Client options of a standard report, to replay it
   };
   response: {
     success: boolean;
@@ -41,30 +44,60 @@ export interface GA4ApiCall {
     tokensUsed?: number;
     dailyQuotaUsed?: number;
     remainingQuota?: number;
+    propertyQuota?: GA4PropertyQuota; // As returned by GA4 with returnPropertyQuota
   };
 }
 
+// One bucket of a Data API PropertyQuota: what the request consumed and what is left
+export interface GA4QuotaStatus {
+  consumed?: number;
+  remaining?: number;
+}
+
+export interface GA4PropertyQuota {
+  tokensPerDay?: GA4QuotaStatus;
+  tokensPerHour?: GA4QuotaStatus;
+  concurrentRequests?: GA4QuotaStatus;
+  serverErrorsPerProjectPerHour?: GA4QuotaStatus;
+  potentiallyThresholdedRequestsPerHour?: GA4QuotaStatus;
+  tokensPerProjectPerHour?: GA4QuotaStatus;
+}
+
+export interface GA4QuotaWindow {
+  limit: number;
+  used: number;
+  remaining: number;
+  percentage: number;
+  resetTime: number; // timestamp when the bucket is assumed full again
+}
+
 export interface GA4QuotaUsage {
-  daily: {
-    limit: number;
-    used: number;
-    remaining: number;
-    percentage: number;
-    resetTime: number; // timestamp when quota resets
-  };
-  hourly?: {
-    limit: number;
-    used: number;
-    remaining: number;
-    percentage: number;
-  };
-  concurrent?: {
+  propertyId?: string;
+  source: 'ga4' | 'default'; // 'default' until GA4 has reported the property's quota
+  updatedAt?: number;
+  daily: GA4QuotaWindow;
+  hourly: GA4QuotaWindow;
+  serverErrors: GA4QuotaWindow; // Per project, shared by every property
+  concurrent: {
     limit: number;
     current: number;
     peak: number;
   };
 }
 
+export type GA4PropertyQuotaTier = 'standard' | '360';
+
+// Data API core reporting limits per property
+export const GA4_PROPERTY_QUOTA_LIMITS: Record<GA4PropertyQuotaTier, {
+  tokensPerDay: number;
+  tokensPerHour: number;
+  concurrentRequests: number;
+  serverErrorsPerProjectPerHour: number;
+}> = {
+  standard: { tokensPerDay: 200000, tokensPerHour: 40000, concurrentRequests: 10, serverErrorsPerProjectPerHour: 10 },
+  '360': { tokensPerDay: 2000000, tokensPerHour: 400000, concurrentRequests: 50, serverErrorsPerProjectPerHour: 50 },
+};
+
 export interface GA4PerformanceMetrics {
   totalCalls: number;
   successfulCalls: number;
@@ -118,6 +151,7 @@ export interface GA4UsagePattern {
   metrics: string[];
   dimensions: string[];
   tools: string[];
+  requests: GA4RequestOptions[]; // Replayable report requests of this shape, most frequent first
   optimization?: {
     suggestion: string;
     potentialSavings: number; // estimated API calls
@@ -136,9 +170,56 @@ export interface GA4Alert {
   resolvedAt?: number;
 }
 
+// Tool names recorded for GA4 calls the cache makes on its own; usage patterns leave them out
+export const CACHE_REFRESH_TOOL = 'cache-refresh';
+export const CACHE_WARMING_TOOL = 'cache-warming';
+
+const apiRequests = metricsRegistry.counter({
+  name: 'ga4_mcp_ga4_api_requests',
+  help: 'GA4 Data API requests, by endpoint and outcome (success or error)',
+  labelNames: ['endpoint', 'status'],
+});
+
+const apiDuration = metricsRegistry.histogram({
+  name: 'ga4_mcp_ga4_api_duration_seconds',
+  help: 'GA4 Data API request latency in seconds, by endpoint and outcome',
+  labelNames: ['endpoint', 'status'],
+});
+
+const quotaTokensConsumed = metricsRegistry.counter({
+  name: 'ga4_mcp_ga4_quota_tokens_consumed',
+  help: 'GA4 quota tokens consumed by API requests, as reported by GA4',
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_ga4_quota_used_tokens',
+  help: 'GA4 quota tokens used in the current window, by property',
+  labelNames: ['property', 'window'],
+  collect: gauge => setQuotaWindows(gauge, window => window.used),
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_ga4_quota_limit_tokens',
+  help: 'GA4 quota token limit for the window, by property',
+  labelNames: ['property', 'window'],
+  collect: gauge => setQuotaWindows(gauge, window => window.limit),
+});
+
+function setQuotaWindows(gauge: Gauge, pick: (window: GA4QuotaWindow) => number): void {
+  for (const quota of ga4MetricsCollector.getPropertyQuotaUsages()) {
+    gauge.set({ property: quota.propertyId!, window: 'daily' }, pick(quota.daily));
+    gauge.set({ property: quota.propertyId!, window: 'hourly' }, pick(quota.hourly));
+  }
+}
+
+// Requests whose token cost is averaged to estimate the next one
+const TOKEN_COST_SAMPLES = 20;
+
 export class GA4MetricsCollector {
   private apiCalls: Map<string, GA4ApiCall> = new Map();
-  private quotaUsage: GA4QuotaUsage;
+  private propertyQuotas: Map<string, GA4QuotaUsage> = new Map();
+  private tokenCosts: Map<string, number[]> = new Map();
+  private readonly quotaTier: GA4PropertyQuotaTier;
   private alerts: Map<string, GA4Alert> = new Map();
   private usagePatterns: Map<string, GA4UsagePattern> = new Map();
   private hourlyCallCounts: number[] = new Array(24).fill(0);
@@ -148,7 +229,7 @@ export class GA4MetricsCollector {
 
   constructor() {
     this.currentHour = new Date().getHours();
-    this.quotaUsage = this.initializeQuotaUsage();
+    this.quotaTier = process.env.GA4_PROPERTY_QUOTA_TIER === '360' ? '360' : 'standard';
     
     // Start monitoring
     setInterval(() => this.cleanup(), this.cleanupInterval);
@@ -178,6 +259,10 @@ export class GA4MetricsCollector {
     // Update hourly counts
     this.updateHourlyCount();
     
+    const status = call.response.success ? 'success' : 'error';
+    apiRequests.inc({ endpoint: call.endpoint, status });
+    apiDuration.observe({ endpoint: call.endpoint, status }, call.response.duration / 1000);
+
     // Record in performance monitor
     performanceMonitor.recordMetric('ga4_api_latency', call.response.duration, {
       tool: call.tool,
@@ -260,10 +345,47 @@ export class GA4MetricsCollector {
   }
 
   /**
-   * Get quota usage
+   * Get quota usage of a property, or of the property closest to its limits
    */
-  getQuotaUsage(): GA4QuotaUsage {
-    return { ...this.quotaUsage };
+  getQuotaUsage(propertyId?: string): GA4QuotaUsage {
+    if (propertyId) {
+      return cloneQuotaUsage(this.getPropertyQuota(propertyId));
+    }
+
+    const usages = this.getPropertyQuotaUsages();
+    if (usages.length === 0) {
+      return this.initializeQuotaUsage();
+    }
+    return usages.reduce((tightest, usage) =>
+      quotaPercentage(usage) > quotaPercentage(tightest) ? usage : tightest
+    );
+  }
+
+  /**
+   * Quota usage of every tracked property
+   */
+  getPropertyQuotaUsages(): GA4QuotaUsage[] {
+    return Array.from(this.propertyQuotas.keys()).map(propertyId => this.getQuotaUsage(propertyId));
+  }
+
+  /**
+   * Percentage of GA4 quota left in the tightest token window, of one
+   * property or across all of them
+   */
+  getQuotaHeadroom(propertyId?: string): number {
+    return Math.max(0, 100 - quotaPercentage(this.getQuotaUsage(propertyId)));
+  }
+
+  /**
+   * Expected token cost of the property's next request, averaged over its
+   * recent requests (1 before GA4 has reported any)
+   */
+  getExpectedTokenCost(propertyId: string): number {
+    const costs = this.tokenCosts.get(propertyId);
+    if (!costs || costs.length === 0) {
+      return 1;
+    }
+    return Math.max(1, Math.ceil(costs.reduce((sum, cost) => sum + cost, 0) / costs.length));
   }
 
   /**
@@ -398,14 +520,15 @@ export class GA4MetricsCollector {
     }
 
     // Quota efficiency
-    if (this.quotaUsage.daily.percentage > 80) {
+    const { daily, propertyId } = this.getQuotaUsage();
+    if (daily.percentage > 80) {
       recommendations.push({
         type: 'quota_optimization',
         priority: 'high' as const,
         title: 'Optimize Quota Usage',
-        description: `Daily quota usage is at ${this.quotaUsage.daily.percentage.toFixed(1)}%. Consider optimizing API usage patterns.`,
+        description: `Daily quota usage of property ${propertyId} is at ${daily.percentage.toFixed(1)}%. Consider optimizing API usage patterns.`,
         implementation: 'Implement intelligent query optimization, reduce unnecessary metrics/dimensions, or spread load across time.',
-        estimatedSavings: Math.floor(this.quotaUsage.daily.used * 0.2),
+        estimatedSavings: Math.floor(daily.used * 0.2),
         metrics: undefined
       });
     }
@@ -417,82 +540,85 @@ export class GA4MetricsCollector {
   }
 
   /**
-   * Initialize quota usage
+   * Initialize quota usage from the tier's limits, before GA4 reports any
    */
-  private initializeQuotaUsage(): GA4QuotaUsage {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(now.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
+  private initializeQuotaUsage(propertyId?: string): GA4QuotaUsage {
+    const limits = GA4_PROPERTY_QUOTA_LIMITS[this.quotaTier];
+    const now = Date.now();
 
     return {
-      daily: {
-        limit: 200000, // Default GA4 daily limit
-        used: 0,
-        remaining: 200000,
-        percentage: 0,
-        resetTime: tomorrow.getTime()
-      }
+      propertyId,
+      source: 'default',
+      daily: emptyWindow(limits.tokensPerDay, nextPacificMidnight(now)),
+      hourly: emptyWindow(limits.tokensPerHour, now + 3600000),
+      serverErrors: emptyWindow(limits.serverErrorsPerProjectPerHour, now + 3600000),
+      concurrent: { limit: limits.concurrentRequests, current: 0, peak: 0 }
     };
   }
 
   /**
-   * Update quota usage
+   * Tracked quota of a property, with windows past their reset time refilled
    */
-  private updateQuotaUsage(call: GA4ApiCall): void {
-    // Estimate tokens used based on request complexity
-    const tokensUsed = this.estimateTokensUsed(call);
-    
-    this.quotaUsage.daily.used += tokensUsed;
-    this.quotaUsage.daily.remaining = Math.max(0, this.quotaUsage.daily.limit - this.quotaUsage.daily.used);
-    this.quotaUsage.daily.percentage = (this.quotaUsage.daily.used / this.quotaUsage.daily.limit) * 100;
-    
-    // Reset daily quota if needed
-    if (Date.now() > this.quotaUsage.daily.resetTime) {
-      this.resetDailyQuota();
+  private getPropertyQuota(propertyId: string): GA4QuotaUsage {
+    let usage = this.propertyQuotas.get(propertyId);
+    if (!usage) {
+      usage = this.initializeQuotaUsage(propertyId);
+      this.propertyQuotas.set(propertyId, usage);
     }
-  }
 
-  /**
-   * Estimate tokens used for an API call
-   */
-  private estimateTokensUsed(call: GA4ApiCall): number {
-    // Basic estimation based on request complexity
-    let tokens = 10; // Base cost
-    
-    // Add cost for metrics and dimensions
-    tokens += call.request.metrics.length * 2;
-    tokens += call.request.dimensions.length * 2;
-    
-    // Add cost for date ranges
-    tokens += call.request.dateRanges.length * 5;
-    
-    // Add cost based on response size
-    if (call.response.rowCount) {
-      tokens += Math.floor(call.response.rowCount / 100);
+    const now = Date.now();
+    if (now >= usage.daily.resetTime) {
+      refillWindow(usage.daily, nextPacificMidnight(now));
+      logger.info('Daily GA4 quota reset', {
+        propertyId,
+        limit: usage.daily.limit,
+        nextReset: new Date(usage.daily.resetTime).toISOString()
+      });
     }
-    
-    return tokens;
+    if (now >= usage.hourly.resetTime) {
+      refillWindow(usage.hourly, now + 3600000);
+    }
+    if (now >= usage.serverErrors.resetTime) {
+      refillWindow(usage.serverErrors, now + 3600000);
+    }
+    return usage;
   }
 
   /**
-   * Reset daily quota
+   * Update quota usage from the PropertyQuota GA4 returned with a call
    */
-  private resetDailyQuota(): void {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(now.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-
-    this.quotaUsage.daily.used = 0;
-    this.quotaUsage.daily.remaining = this.quotaUsage.daily.limit;
-    this.quotaUsage.daily.percentage = 0;
-    this.quotaUsage.daily.resetTime = tomorrow.getTime();
-
-    logger.info('Daily GA4 quota reset', {
-      limit: this.quotaUsage.daily.limit,
-      nextReset: tomorrow.toISOString()
-    });
+  private updateQuotaUsage(call: GA4ApiCall): void {
+    const propertyQuota = call.quota.propertyQuota;
+    if (!propertyQuota) {
+      return;
+    }
+
+    const tokensUsed = propertyQuota.tokensPerDay?.consumed ?? call.quota.tokensUsed ?? 0;
+    quotaTokensConsumed.inc({}, tokensUsed);
+
+    const costs = this.tokenCosts.get(call.request.propertyId) || [];
+    costs.push(tokensUsed);
+    this.tokenCosts.set(call.request.propertyId, costs.slice(-TOKEN_COST_SAMPLES));
+
+    const usage = this.getPropertyQuota(call.request.propertyId);
+    const now = Date.now();
+    usage.source = 'ga4';
+    usage.updatedAt = now;
+
+    applyQuotaStatus(usage.daily, propertyQuota.tokensPerDay);
+    // GA4 refills hourly buckets within the hour; assume full an hour after it last reported
+    if (applyQuotaStatus(usage.hourly, propertyQuota.tokensPerHour)) {
+      usage.hourly.resetTime = now + 3600000;
+    }
+    if (applyQuotaStatus(usage.serverErrors, propertyQuota.serverErrorsPerProjectPerHour)) {
+      usage.serverErrors.resetTime = now + 3600000;
+    }
+
+    const concurrent = propertyQuota.concurrentRequests;
+    if (concurrent) {
+      usage.concurrent.current = concurrent.consumed || 0;
+      usage.concurrent.peak = Math.max(usage.concurrent.peak, usage.concurrent.current);
+    }
   }
 
   /**
@@ -697,28 +823,24 @@ export class GA4MetricsCollector {
    * Check quota alerts
    */
   private checkQuotaAlerts(): void {
-    if (this.quotaUsage.daily.percentage > 90) {
-      this.createAlert({
-        type: 'quota_critical',
-        severity: 'critical',
-        message: `GA4 daily quota usage critical: ${this.quotaUsage.daily.percentage.toFixed(1)}%`,
-        details: {
-          used: this.quotaUsage.daily.used,
-          limit: this.quotaUsage.daily.limit,
-          remaining: this.quotaUsage.daily.remaining
-        }
-      });
-    } else if (this.quotaUsage.daily.percentage > 75) {
-      this.createAlert({
-        type: 'quota_warning',
-        severity: 'medium',
-        message: `GA4 daily quota usage warning: ${this.quotaUsage.daily.percentage.toFixed(1)}%`,
-        details: {
-          used: this.quotaUsage.daily.used,
-          limit: this.quotaUsage.daily.limit,
-          remaining: this.quotaUsage.daily.remaining
-        }
-      });
+    for (const { propertyId, daily } of this.getPropertyQuotaUsages()) {
+      const details = { propertyId, used: daily.used, limit: daily.limit, remaining: daily.remaining };
+
+      if (daily.percentage > 90) {
+        this.createAlert({
+          type: 'quota_critical',
+          severity: 'critical',
+          message: `GA4 daily quota usage critical for property ${propertyId}: ${daily.percentage.toFixed(1)}%`,
+          details
+        });
+      } else if (daily.percentage > 75) {
+        this.createAlert({
+          type: 'quota_warning',
+          severity: 'medium',
+          message: `GA4 daily quota usage warning for property ${propertyId}: ${daily.percentage.toFixed(1)}%`,
+          details
+        });
+      }
     }
   }
 
@@ -749,7 +871,8 @@ export class GA4MetricsCollector {
    */
   private analyzeUsagePatterns(): void {
     const recentCalls = Array.from(this.apiCalls.values())
-      .filter(call => call.timestamp > Date.now() - (24 * 60 * 60 * 1000)); // Last 24 hours
+      .filter(call => call.timestamp > Date.now() - (24 * 60 * 60 * 1000)) // Last 24 hours
+      .filter(call => call.tool !== CACHE_REFRESH_TOOL && call.tool !== CACHE_WARMING_TOOL);
 
     // Find common metric/dimension combinations
     const combinations = new Map<string, number>();
@@ -768,12 +891,11 @@ export class GA4MetricsCollector {
         const metrics = metricsStr ? metricsStr.split(',') : [];
         const dimensions = dimensionsStr ? dimensionsStr.split(',') : [];
         
-        const tools = recentCalls
-          .filter(call => {
-            const callKey = `${call.request.metrics.sort().join(',')}_${call.request.dimensions.sort().join(',')}`;
-            return callKey === key;
-          })
-          .map(call => call.tool);
+        const patternCalls = recentCalls.filter(call => {
+          const callKey = `${call.request.metrics.sort().join(',')}_${call.request.dimensions.sort().join(',')}`;
+          return callKey === key;
+        });
+        const tools = patternCalls.map(call => call.tool);
 
         const pattern: GA4UsagePattern = {
           pattern: key,
@@ -781,7 +903,11 @@ export class GA4MetricsCollector {
           description: `Common query pattern: ${metrics.slice(0, 3).join(', ')} x ${dimensions.slice(0, 3).join(', ')}`,
           metrics,
           dimensions,
-          tools: [...new Set(tools)]
+          tools: [...new Set(tools)],
+          requests: mostFrequent(patternCalls
+            .filter(call => call.request.options)
+            .map(call => JSON.stringify(call.request.options)))
+            .map(options => JSON.parse(options))
         };
 
         this.usagePatterns.set(key, pattern);
@@ -906,9 +1032,74 @@ export class GA4MetricsCollector {
     performanceMonitor.recordMetric('ga4_success_rate', metrics.successRate);
     performanceMonitor.recordMetric('ga4_cache_hit_rate', metrics.caching.cacheHitRate);
     performanceMonitor.recordMetric('ga4_avg_latency', metrics.timing.averageLatency);
-    performanceMonitor.recordMetric('ga4_quota_usage', this.quotaUsage.daily.percentage);
+    performanceMonitor.recordMetric('ga4_quota_usage', this.getQuotaUsage().daily.percentage);
   }
 }
 
+function emptyWindow(limit: number, resetTime: number): GA4QuotaWindow {
+  return { limit, used: 0, remaining: limit, percentage: 0, resetTime };
+}
+
+function refillWindow(window: GA4QuotaWindow, resetTime: number): void {
+  window.used = 0;
+  window.remaining = window.limit;
+  window.percentage = 0;
+  window.resetTime = resetTime;
+}
+
+// Take GA4's remaining count for a bucket; properties above the tier's limit raise it
+function applyQuotaStatus(window: GA4QuotaWindow, status?: GA4QuotaStatus): boolean {
+  if (!status) {
+    return false;
+  }
+  const remaining = Math.max(0, status.remaining || 0);
+  window.limit = Math.max(window.limit, remaining + (status.consumed || 0));
+  window.remaining = remaining;
+  window.used = window.limit - remaining;
+  window.percentage = (window.used / window.limit) * 100;
+  return true;
+}
+
+// Usage percentage of the fuller token window
+function quotaPercentage(usage: GA4QuotaUsage): number {
+  return Math.max(usage.daily.percentage, usage.hourly.percentage);
+}
+
+function cloneQuotaUsage(usage: GA4QuotaUsage): GA4QuotaUsage {
+  return {
+    ...usage,
+    daily: { ...usage.daily },
+    hourly: { ...usage.hourly },
+    serverErrors: { ...usage.serverErrors },
+    concurrent: { ...usage.concurrent }
+  };
+}
+
+// GA4 daily quotas refresh at midnight Pacific time (off by an hour on DST changeover days)
+function nextPacificMidnight(now: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/Los_Angeles',
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(now));
+  const part = (type: string) => Number(parts.find(candidate => candidate.type === type)?.value || 0);
+  const elapsed = ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + now % 1000;
+  return now - elapsed + 86400000;
+}
+
+// Distinct values, most frequent first
+function mostFrequent(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value);
+}
+
 // Global GA4 metrics collector instance
-export const ga4MetricsCollector = new GA4MetricsCollector();
\ No newline at end of file
+export const ga4MetricsCollector = new GA4MetricsCollector();
+
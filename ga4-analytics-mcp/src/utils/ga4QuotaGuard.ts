@@ -0,0 +1,261 @@
+/**
+ * GA4 Property Quota Guard
+ *
+ * Admits core reporting requests against the property quota GA4 last
+ * reported (see GA4MetricsCollector). A request that would exhaust a token
+ * or server error bucket is refused with GA4_QUOTA_EXCEEDED, or held until
+ * the bucket refills when that is only a short wait away; requests over the
+ * property's concurrent request limit queue for a free slot.
+ *
+ * Background requests (cache refreshes and warming) never wait for a refill,
+ * are refused once the property's quota headroom falls to the background
+ * reserve, and queue behind interactive requests.
+ */
+
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { ga4MetricsCollector, GA4QuotaUsage, GA4QuotaWindow } from './ga4MetricsCollector.js';
+
+export type GA4RequestPriority = 'interactive' | 'background';
+
+export interface GA4QuotaGuardConfig {
+  tokenReserve: number; // Tokens per bucket left unspent
+  serverErrorReserve: number; // Server errors per hour left unspent
+  backgroundReserve: number; // Quota headroom (%) background requests leave to interactive ones
+  maxQueueWaitMs: number; // Longest a request waits for a slot or a refill
+  maxConcurrent?: number; // Defaults to the property's concurrent request limit
+}
+
+export interface GA4QuotaQueueStatus {
+  inFlight: number;
+  queued: number;
+  maxConcurrent: number;
+}
+
+interface QueuedRequest {
+  priority: GA4RequestPriority;
+  grant: () => void;
+  timer: NodeJS.Timeout;
+}
+
+type QuotaBucket = 'tokensPerDay' | 'tokensPerHour' | 'serverErrorsPerProjectPerHour';
+
+const quotaDecisions = metricsRegistry.counter({
+  name: 'ga4_mcp_ga4_quota_guard_decisions',
+  help: 'GA4 requests seen by the property quota guard, by outcome (admitted, queued or refused)',
+  labelNames: ['outcome'],
+});
+
+export class GA4QuotaGuard {
+  private config: GA4QuotaGuardConfig;
+  private inFlight: Map<string, number> = new Map();
+  private queues: Map<string, QueuedRequest[]> = new Map();
+
+  constructor(config: Partial<GA4QuotaGuardConfig> = {}) {
+    this.config = {
+      tokenReserve: parseInt(process.env.GA4_QUOTA_TOKEN_RESERVE || '0'),
+      serverErrorReserve: parseInt(process.env.GA4_QUOTA_SERVER_ERROR_RESERVE || '1'),
+      backgroundReserve: parseFloat(process.env.CACHE_QUOTA_RESERVE || '20'),
+      maxQueueWaitMs: parseInt(process.env.GA4_QUOTA_MAX_QUEUE_MS || '30000'),
+      ...(process.env.GA4_MAX_CONCURRENT_REQUESTS && {
+        maxConcurrent: parseInt(process.env.GA4_MAX_CONCURRENT_REQUESTS)
+      }),
+      ...config
+    };
+  }
+
+  /**
+   * Wait until a request of `requests` reports may be sent for the property;
+   * the returned function gives its concurrent request slot back
+   */
+  async acquire(
+    propertyId: string,
+    requests: number = 1,
+    priority: GA4RequestPriority = 'interactive'
+  ): Promise<() => void> {
+    if (priority === 'background') {
+      this.assertBackgroundHeadroom(propertyId);
+    }
+
+    const deadline = Date.now() + this.config.maxQueueWaitMs;
+    await this.waitForTokens(propertyId, requests, priority === 'background' ? Date.now() : deadline);
+    await this.waitForSlot(propertyId, deadline, priority);
+
+    // Quota may have run low while queued for the slot
+    try {
+      this.assertTokens(propertyId, requests, deadline);
+    } catch (error) {
+      this.release(propertyId);
+      throw error;
+    }
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.release(propertyId);
+      }
+    };
+  }
+
+  /**
+   * Requests in flight and queued for the property
+   */
+  getQueueStatus(propertyId: string): GA4QuotaQueueStatus {
+    return {
+      inFlight: this.inFlight.get(propertyId) || 0,
+      queued: this.queues.get(propertyId)?.length || 0,
+      maxConcurrent: this.getMaxConcurrent(propertyId)
+    };
+  }
+
+  private async waitForTokens(propertyId: string, requests: number, deadline: number): Promise<void> {
+    let queued = false;
+    while (true) {
+      const exhausted = this.findExhaustedBucket(propertyId, requests);
+      if (!exhausted) {
+        if (!queued) {
+          quotaDecisions.inc({ outcome: 'admitted' });
+        }
+        return;
+      }
+
+      this.assertTokens(propertyId, requests, deadline);
+      if (!queued) {
+        queued = true;
+        quotaDecisions.inc({ outcome: 'queued' });
+      }
+      // The bucket refills before the deadline
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, exhausted.window.resetTime - Date.now())));
+    }
+  }
+
+  /**
+   * Refuse the request if a bucket would be exhausted and does not refill
+   * before the deadline
+   */
+  private assertTokens(propertyId: string, requests: number, deadline: number): void {
+    const exhausted = this.findExhaustedBucket(propertyId, requests);
+    if (!exhausted || exhausted.window.resetTime <= deadline) {
+      return;
+    }
+
+    quotaDecisions.inc({ outcome: 'refused' });
+    const retryAfterSeconds = Math.ceil((exhausted.window.resetTime - Date.now()) / 1000);
+    productionLogger.warn('GA4 request refused before exhausting property quota', {
+      component: 'GA4_QUOTA',
+      propertyId,
+      bucket: exhausted.bucket,
+      remaining: exhausted.window.remaining,
+      estimatedCost: exhausted.cost,
+      retryAfterSeconds
+    });
+
+    throw MCPErrorHandler.createError(
+      ErrorCode.GA4_QUOTA_EXCEEDED,
+      `GA4 ${exhausted.bucket} quota for property ${propertyId} is nearly exhausted ` +
+        `(${exhausted.window.remaining} left, request needs about ${exhausted.cost}); retry in ${retryAfterSeconds}s`,
+      {
+        propertyId,
+        bucket: exhausted.bucket,
+        remaining: exhausted.window.remaining,
+        estimatedCost: exhausted.cost,
+        resetTime: new Date(exhausted.window.resetTime).toISOString(),
+        retryAfterSeconds
+      }
+    );
+  }
+
+  private findExhaustedBucket(
+    propertyId: string,
+    requests: number
+  ): { bucket: QuotaBucket; window: GA4QuotaWindow; cost: number } | undefined {
+    const usage: GA4QuotaUsage = ga4MetricsCollector.getQuotaUsage(propertyId);
+    if (usage.source !== 'ga4') {
+      return undefined;
+    }
+
+    const cost = ga4MetricsCollector.getExpectedTokenCost(propertyId) * requests;
+    if (usage.daily.remaining - cost < this.config.tokenReserve) {
+      return { bucket: 'tokensPerDay', window: usage.daily, cost };
+    }
+    if (usage.hourly.remaining - cost < this.config.tokenReserve) {
+      return { bucket: 'tokensPerHour', window: usage.hourly, cost };
+    }
+    if (usage.serverErrors.remaining <= this.config.serverErrorReserve) {
+      return { bucket: 'serverErrorsPerProjectPerHour', window: usage.serverErrors, cost: 1 };
+    }
+    return undefined;
+  }
+
+  /**
+   * Keep background requests off the quota interactive requests still need
+   */
+  private assertBackgroundHeadroom(propertyId: string): void {
+    const headroom = ga4MetricsCollector.getQuotaHeadroom(propertyId);
+    if (headroom > this.config.backgroundReserve) {
+      return;
+    }
+
+    quotaDecisions.inc({ outcome: 'refused' });
+    throw MCPErrorHandler.createError(
+      ErrorCode.GA4_QUOTA_EXCEEDED,
+      `GA4 quota headroom for property ${propertyId} is ${headroom.toFixed(1)}%; ` +
+        `the last ${this.config.backgroundReserve}% is kept for interactive requests`,
+      { propertyId, priority: 'background', quotaHeadroom: headroom, backgroundReserve: this.config.backgroundReserve }
+    );
+  }
+
+  private waitForSlot(propertyId: string, deadline: number, priority: GA4RequestPriority): Promise<void> {
+    if ((this.inFlight.get(propertyId) || 0) < this.getMaxConcurrent(propertyId)) {
+      this.inFlight.set(propertyId, (this.inFlight.get(propertyId) || 0) + 1);
+      return Promise.resolve();
+    }
+
+    quotaDecisions.inc({ outcome: 'queued' });
+    const queue = this.queues.get(propertyId) || [];
+    this.queues.set(propertyId, queue);
+
+    return new Promise((resolve, reject) => {
+      const request: QueuedRequest = {
+        priority,
+        grant: () => {
+          clearTimeout(request.timer);
+          resolve();
+        },
+        timer: setTimeout(() => {
+          queue.splice(queue.indexOf(request), 1);
+          quotaDecisions.inc({ outcome: 'refused' });
+          reject(MCPErrorHandler.createError(
+            ErrorCode.GA4_QUOTA_EXCEEDED,
+            `No concurrent GA4 request slot for property ${propertyId} freed up within ${this.config.maxQueueWaitMs}ms`,
+            { propertyId, bucket: 'concurrentRequests', maxConcurrent: this.getMaxConcurrent(propertyId) }
+          ));
+        }, Math.max(0, deadline - Date.now()))
+      };
+      // Interactive requests go ahead of queued background ones
+      const firstBackground = priority === 'interactive'
+        ? queue.findIndex(queued => queued.priority === 'background')
+        : -1;
+      queue.splice(firstBackground === -1 ? queue.length : firstBackground, 0, request);
+    });
+  }
+
+  // Hand the slot straight to the next queued request, if any
+  private release(propertyId: string): void {
+    const next = this.queues.get(propertyId)?.shift();
+    if (next) {
+      next.grant();
+      return;
+    }
+    this.inFlight.set(propertyId, Math.max(0, (this.inFlight.get(propertyId) || 0) - 1));
+  }
+
+  private getMaxConcurrent(propertyId: string): number {
+    return this.config.maxConcurrent ?? ga4MetricsCollector.getQuotaUsage(propertyId).concurrent.limit;
+  }
+}
+
+// Global GA4 quota guard instance
+export const ga4QuotaGuard = new GA4QuotaGuard();
@@ -5,7 +5,8 @@
  * and data transformation operations.
  */
 
-import { logger } from './logger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { resolveRelativeDate } from '@ai-ad-manager/mcp-shared/dateRange';
 import type { DateRangeOptions, GA4DataRow, GA4TransformedResponse, GA4RealtimeResponse } from './ga4DataClient.js';
 
 // Common GA4 metric and dimension definitions
@@ -76,7 +77,7 @@ export const GA4_DIMENSIONS = {
   SESSION_SOURCE: 'sessionSource',
   SESSION_MEDIUM: 'sessionMedium',
   SESSION_CAMPAIGN_NAME: 'sessionCampaignName',
-  SESSION_DEFAULT_CHANNEL_GROUP: 'sessionDefaultChannelGrouping',
+  SESSION_DEFAULT_CHANNEL_GROUP: 'sessionDefaultChannelGroup',
   SESSION_GOOGLE_ADS_CAMPAIGN_NAME: 'sessionGoogleAdsCampaignName',
   SESSION_GOOGLE_ADS_AD_GROUP_NAME: 'sessionGoogleAdsAdGroupName',
   SESSION_GOOGLE_ADS_KEYWORD: 'sessionGoogleAdsKeyword',
@@ -249,6 +250,9 @@ export function parseDateRangePreset(preset: string): DateRangeOptions {
   }
 }
 
+// Relative dates resolve the same way in google-ads-mcp
+export { resolveRelativeDate };
+
 /**
  * Validate date range format and logic
  */
@@ -287,6 +291,82 @@ export function validateDateRange(dateRange: DateRangeOptions): DateRangeOptions
   return dateRange;
 }
 
+// Period a report can be compared against
+export type ComparisonPeriod = 'previous_period' | 'previous_year' | DateRangeOptions;
+
+/**
+ * Date range to compare a report range against
+ */
+export function getComparisonDateRange(dateRange: DateRangeOptions, compareTo: ComparisonPeriod): DateRangeOptions {
+  const formatDate = (date: Date) => date.toISOString().split('T')[0];
+  const dayMs = 24 * 60 * 60 * 1000;
+  const start = new Date(`${dateRange.startDate}T00:00:00Z`);
+  const end = new Date(`${dateRange.endDate}T00:00:00Z`);
+  
+  if (compareTo === 'previous_period') {
+    // Same number of days, ending the day before the range starts
+    const days = Math.round((end.getTime() - start.getTime()) / dayMs) + 1;
+    return {
+      startDate: formatDate(new Date(start.getTime() - days * dayMs)),
+      endDate: formatDate(new Date(start.getTime() - dayMs)),
+    };
+  }
+  
+  if (compareTo === 'previous_year') {
+    const shiftYear = (date: Date) => {
+      const shifted = new Date(date);
+      shifted.setUTCFullYear(date.getUTCFullYear() - 1);
+      // 29 Feb rolls over to 1 Mar; clamp to 28 Feb instead
+      if (shifted.getUTCMonth() !== date.getUTCMonth()) {
+        shifted.setUTCDate(0);
+      }
+      return formatDate(shifted);
+    };
+    return { startDate: shiftYear(start), endDate: shiftYear(end) };
+  }
+  
+  if (compareTo && typeof compareTo === 'object') {
+    return validateDateRange({
+      startDate: resolveRelativeDate(compareTo.startDate),
+      endDate: resolveRelativeDate(compareTo.endDate),
+    });
+  }
+  
+  throw new Error(`Invalid comparison period: ${JSON.stringify(compareTo)}. Expected "previous_period", "previous_year" or {startDate, endDate}`);
+}
+
+export type CohortGranularity = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Split an acquisition date range into consecutive cohort ranges
+ *
+ * Daily cohorts are single days, weekly cohorts 7-day windows from the start
+ * date and monthly cohorts calendar months; the last cohort is clipped to the range.
+ */
+export function getCohortDateRanges(dateRange: DateRangeOptions, granularity: CohortGranularity): DateRangeOptions[] {
+  const formatDate = (date: Date) => date.toISOString().split('T')[0];
+  const end = new Date(`${dateRange.endDate}T00:00:00Z`);
+  const ranges: DateRangeOptions[] = [];
+  
+  let cursor = new Date(`${dateRange.startDate}T00:00:00Z`);
+  while (cursor <= end) {
+    const next = new Date(cursor);
+    if (granularity === 'daily') {
+      next.setUTCDate(next.getUTCDate() + 1);
+    } else if (granularity === 'weekly') {
+      next.setUTCDate(next.getUTCDate() + 7);
+    } else {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+    }
+    
+    const last = new Date(Math.min(next.getTime() - 24 * 60 * 60 * 1000, end.getTime()));
+    ranges.push({ startDate: formatDate(cursor), endDate: formatDate(last) });
+    cursor = next;
+  }
+  
+  return ranges;
+}
+
 /**
  * Filter GA4 data rows for Google Ads traffic
  */
@@ -2,10 +2,11 @@
  * Google Authentication utilities for GA4 MCP Server
  */
 
-import { GoogleAuth } from 'google-auth-library';
-import { BetaAnalyticsDataClient } from '@google-analytics/data';
-import { logger } from './logger.js';
-import { MCPErrorHandler, ErrorCode } from './errorHandler.js';
+// GoogleAuth of the google-gax release the Data API clients are built on
+import { GoogleAuth } from 'google-gax';
+import { BetaAnalyticsDataClient, v1alpha } from '@google-analytics/data';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
 import { TokenManager, initializeTokenManager, getTokenManager } from './tokenManager.js';
 import { CredentialRecoveryManager, initializeCredentialRecovery, getCredentialRecoveryManager } from './credentialRecovery.js';
 import type { GA4Config, GA4Credentials } from '../types/ga4.js';
@@ -19,6 +20,7 @@ export interface AuthenticationResult {
 
 export class GoogleAuthManager {
   private ga4Client?: BetaAnalyticsDataClient;
+  private ga4AlphaClient?: v1alpha.AlphaAnalyticsDataClient;
   private auth?: GoogleAuth;
   private isAuthenticated = false;
   private propertyId: string;
@@ -224,6 +226,28 @@ export class GoogleAuthManager {
     return this.ga4Client;
   }
 
+  /**
+   * Get a v1alpha Data API client (funnel reports) sharing the same credentials
+   */
+  getGA4AlphaClient(): v1alpha.AlphaAnalyticsDataClient {
+    if (!this.isAuthenticated || !this.auth) {
+      throw MCPErrorHandler.authenticationFailed('Authentication not initialized');
+    }
+    if (!this.ga4AlphaClient) {
+      this.ga4AlphaClient = new v1alpha.AlphaAnalyticsDataClient({
+        auth: this.auth,
+      });
+    }
+    return this.ga4AlphaClient;
+  }
+
+  /**
+   * Get the GA4 property used to verify access
+   */
+  getPropertyId(): string {
+    return this.propertyId;
+  }
+
   /**
    * Check if authentication is valid
    */
@@ -400,10 +424,12 @@ let globalAuthManager: GoogleAuthManager | undefined;
  * Initialize global authentication manager
  */
 export async function initializeAuthentication(): Promise<AuthenticationResult> {
-  const propertyId = process.env.GA4_PROPERTY_ID;
+  // Access is verified against the default property, or the first allowed one
+  const propertyId = process.env.GA4_PROPERTY_ID ||
+    process.env.GA4_ALLOWED_PROPERTY_IDS?.split(',')[0]?.trim();
   
   if (!propertyId) {
-    const error = 'GA4_PROPERTY_ID environment variable is required';
+    const error = 'GA4_PROPERTY_ID or GA4_ALLOWED_PROPERTY_IDS environment variable is required';
     logger.error(error);
     return { isValid: false, error };
   }
@@ -2,7 +2,7 @@
  * Health check utilities for MCP server monitoring
  */
 
-import { logger } from './logger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
 import { getAuthManager } from './googleAuth.js';
 import { getTokenManager } from './tokenManager.js';
 import { getCredentialRecoveryManager } from './credentialRecovery.js';
@@ -147,13 +147,13 @@ export class HealthChecker {
       try {
         // This is a simple metadata check that shouldn't count against quota
         await client.getMetadata({
-          name: `properties/${process.env.GA4_PROPERTY_ID}/metadata`,
+          name: `properties/${authManager.getPropertyId()}/metadata`,
         });
 
         return {
           status: 'pass',
           message: 'GA4 client is functional',
-          details: { propertyId: process.env.GA4_PROPERTY_ID },
+          details: { propertyId: authManager.getPropertyId() },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -187,7 +187,7 @@ export class HealthChecker {
   private checkLifecycle(): HealthCheckResult {
     try {
       // Import lifecycle manager to check status
-      const { lifecycleManager } = require('./lifecycle.js');
+      const { lifecycleManager } = require('@ai-ad-manager/mcp-shared/lifecycle');
       
       if (lifecycleManager.isServerStarted()) {
         return {
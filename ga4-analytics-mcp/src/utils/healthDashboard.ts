@@ -5,7 +5,7 @@
  * and real-time system status for production observability.
  */
 
-import { logger } from './productionLogger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { performanceMonitor } from './performanceMetrics.js';
 import { errorTracker } from './errorTracking.js';
 import { apmMonitor } from './apmMonitoring.js';
@@ -6,11 +6,12 @@
  */
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
-import { logger } from './logger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
 import { healthChecker } from './healthCheck.js';
 import { getAuthManager } from './googleAuth.js';
 import { performanceMonitor } from './performanceMetrics.js';
 import { getCORSManager, corsSecurityMiddleware } from './corsSecurityHeaders.js';
+import { metricsRegistry, negotiateMetricsFormat } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
 
 export interface HttpHealthConfig {
   port: number;
@@ -30,6 +31,32 @@ export interface HealthEndpointResponse {
   diagnostics?: any;
 }
 
+const processStartTime = Date.now() / 1000 - process.uptime();
+
+metricsRegistry.gauge({
+  name: 'process_start_time_seconds',
+  help: 'Start time of the process since unix epoch in seconds',
+  collect: gauge => gauge.set({}, processStartTime),
+});
+
+metricsRegistry.gauge({
+  name: 'process_resident_memory_bytes',
+  help: 'Resident memory size in bytes',
+  collect: gauge => gauge.set({}, process.memoryUsage().rss),
+});
+
+metricsRegistry.gauge({
+  name: 'nodejs_heap_size_used_bytes',
+  help: 'V8 heap in use in bytes',
+  collect: gauge => gauge.set({}, process.memoryUsage().heapUsed),
+});
+
+metricsRegistry.gauge({
+  name: 'nodejs_heap_size_total_bytes',
+  help: 'V8 heap allocated in bytes',
+  collect: gauge => gauge.set({}, process.memoryUsage().heapTotal),
+});
+
 export class HttpHealthServer {
   private server?: ReturnType<typeof createServer>;
   private config: HttpHealthConfig;
@@ -70,7 +97,7 @@ export class HttpHealthServer {
         logger.info(`   Health endpoint: http://${this.config.host}:${this.config.port}/health`);
         logger.info(`   Status endpoint: http://${this.config.host}:${this.config.port}/status`);
         if (this.config.enableMetrics) {
-          logger.info(`   Metrics endpoint: http://${this.config.host}:${this.config.port}/metrics`);
+          logger.info(`   Metrics endpoint: http://${this.config.host}:${this.config.port}/metrics (Prometheus), /metrics/json`);
         }
         if (this.config.enableDiagnostics) {
           logger.info(`   Diagnostics endpoint: http://${this.config.host}:${this.config.port}/diagnostics`);
@@ -129,6 +156,7 @@ export class HttpHealthServer {
     try {
       let response: any;
       let statusCode = 200;
+      let contentType = 'application/json';
 
       switch (url) {
         case '/health':
@@ -142,6 +170,17 @@ export class HttpHealthServer {
           break;
 
         case '/metrics':
+          if (this.config.enableMetrics) {
+            const negotiated = negotiateMetricsFormat(req.headers.accept);
+            response = metricsRegistry.render(negotiated.format);
+            contentType = negotiated.contentType;
+          } else {
+            response = { error: 'Metrics disabled' };
+            statusCode = 404;
+          }
+          break;
+
+        case '/metrics/json':
           if (this.config.enableMetrics) {
             response = await this.getMetrics();
           } else {
@@ -180,9 +219,9 @@ export class HttpHealthServer {
         this.healthCheckCount++;
       }
 
-      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Type', contentType);
       res.writeHead(statusCode);
-      res.end(JSON.stringify(response, null, 2));
+      res.end(typeof response === 'string' ? response : JSON.stringify(response, null, 2));
 
       const duration = Date.now() - startTime;
       
@@ -9,15 +9,50 @@
 
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { logger } from './logger.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, LATEST_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { mcpRateLimitingMiddleware } from './rateLimitingSecurity.js';
+import { getTenantRateLimiter, RateLimitDecision } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+import { InMemoryEventStore } from './mcpEventStore.js';
+import { dispatchJsonRpc, parseErrorResponse, JsonRpcMethod } from './jsonRpc.js';
+import { apmMonitor, SpanStatus } from './apmMonitoring.js';
+import { parseTraceparent, runWithTraceContext } from './traceContext.js';
+import type { GA4ToolCaller } from '../tools/shared.js';
+import {
+  BridgeAuthenticator, BridgeIdentity, NoAuthenticator, BRIDGE_SCOPES, hasScope, toAuthInfo,
+} from './bridgeAuth.js';
 
 interface BridgeOptions {
   port?: number;
   host?: string;
+  auth?: BridgeAuthenticator;
+  createSessionServer?: () => Server;   // Fresh protocol server for each Streamable HTTP session
+  sessionIdleTimeoutMs?: number;
+  toolDefinitions?: any[];              // Answered by tools/list on /mcp/rpc
+  listResources?: (caller?: GA4ToolCaller) => any[];
 }
 
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  ownerId: string;
+  createdAt: Date;
+  lastActivityAt: number;
+}
+
+// Routes reachable without credentials
+const PUBLIC_PATHS = ['/health', '/api/ga4/health'];
+
+const ALLOWED_ORIGINS = ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:3004'];
+const MCP_SESSION_HEADER = 'mcp-session-id';
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS || '1800000', 10);
+const MAX_SESSION_SWEEP_INTERVAL_MS = 60000;
+const RATE_LIMIT_HEADERS = ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'];
+
 /**
  * HTTP MCP Bridge Server
  */
@@ -27,13 +62,24 @@ export class HttpMcpBridge {
   private host: string;
   private app: any;
   private server: any = null;
-  private sessions: Map<string, any> = new Map();
+  private sessions: Map<string, McpSession> = new Map();
   private toolHandlers: Map<string, any> = new Map();
+  private auth: BridgeAuthenticator;
+  private createSessionServer?: () => Server;
+  private sessionIdleTimeoutMs: number;
+  private sessionSweepTimer: NodeJS.Timeout | null = null;
+  private toolDefinitions: any[];
+  private listResources?: (caller?: GA4ToolCaller) => any[];
 
   constructor(mcpServer: any, options: BridgeOptions = {}) {
     this.mcpServer = mcpServer;
-    this.port = options.port || 3004;
+    this.port = options.port ?? 3004;
     this.host = options.host || 'localhost';
+    this.auth = options.auth || new NoAuthenticator();
+    this.createSessionServer = options.createSessionServer;
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.toolDefinitions = options.toolDefinitions || [];
+    this.listResources = options.listResources;
     this.app = express();
     
     this.setupMiddleware();
@@ -43,18 +89,27 @@ export class HttpMcpBridge {
   setupMiddleware() {
     // CORS for React frontend
     this.app.use(cors({
-      origin: ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:3004'],
+      origin: ALLOWED_ORIGINS,
       credentials: true,
-      methods: ['GET', 'POST', 'OPTIONS']
+      methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+      exposedHeaders: ['Mcp-Session-Id', ...RATE_LIMIT_HEADERS, 'Retry-After']
     }));
 
     // JSON parsing
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.text());
+
+    // Request span continuing the caller's traceparent; registered after body parsing so the
+    // trace context stays active through the handlers
+    this.app.use((req: Request, res: Response, next: NextFunction) => this.traceRequest(req, res, next));
+
+    // Caller authentication and per-caller rate limiting
+    this.app.use((req: Request, res: Response, next: NextFunction) => this.authenticateRequest(req, res, next));
     
     // Request logging
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       logger.info(`HTTP MCP Bridge: ${req.method} ${req.path}`, {
+        callerId: res.locals.identity?.id,
         query: req.query,
         body: req.body
       });
@@ -62,6 +117,114 @@ export class HttpMcpBridge {
     });
   }
 
+  /**
+   * Run the rest of the request in a server span
+   */
+  private traceRequest(req: Request, res: Response, next: NextFunction) {
+    const context = apmMonitor.startEntrySpan(`${req.method} ${req.path}`, 'HTTP_BRIDGE', {
+      'span.kind': 'server',
+      'http.method': req.method,
+      'http.target': req.path,
+    }, parseTraceparent(req.headers.traceparent));
+
+    res.on('close', () => {
+      apmMonitor.spanTags(context.spanId, {
+        'http.status_code': res.statusCode,
+        ...(res.locals.identity && { callerId: res.locals.identity.id }),
+      });
+      apmMonitor.finishSpan(context.spanId, res.statusCode >= 500 ? SpanStatus.ERROR : SpanStatus.OK);
+    });
+
+    runWithTraceContext(context, next);
+  }
+
+  /**
+   * Resolve the caller's identity, check its scope for the route and apply rate limits
+   */
+  private authenticateRequest(req: Request, res: Response, next: NextFunction) {
+    if (req.method === 'OPTIONS' || PUBLIC_PATHS.includes(req.path)) {
+      return next();
+    }
+
+    let identity: BridgeIdentity;
+    try {
+      identity = this.auth.authenticate(req.headers);
+    } catch (error) {
+      const authError = MCPErrorHandler.isMCPError(error)
+        ? error
+        : MCPErrorHandler.authenticationFailed({ reason: (error as Error)?.message });
+      logger.warn(`HTTP MCP Bridge: rejected ${req.method} ${req.path}`, {
+        code: authError.code,
+        reason: authError.message,
+        ip: req.ip
+      });
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({ error: authError.message, code: authError.code });
+    }
+
+    const scope = req.path.startsWith('/api/') ? BRIDGE_SCOPES.api : BRIDGE_SCOPES.mcp;
+    if (!hasScope(identity, scope)) {
+      logger.warn(`HTTP MCP Bridge: ${identity.id} lacks scope "${scope}" for ${req.path}`);
+      return res.status(403).json({ error: `Missing scope: ${scope}`, code: ErrorCode.AUTH_FAILED });
+    }
+
+    // Authenticated callers are limited by their tenant's token bucket (tool calls are
+    // charged by weight when they run); anonymous callers by their address
+    const tenantLimiter = getTenantRateLimiter();
+    if (tenantLimiter && identity.authMethod !== 'none') {
+      const decision = tenantLimiter.peek({ tenantId: identity.tenantId || identity.id, plan: identity.plan });
+      setRateLimitHeaders(res, decision);
+      if (!decision.allowed) {
+        return res.status(429).json({ error: 'Rate limit exceeded', code: ErrorCode.RATE_LIMITED });
+      }
+    } else {
+      const rateLimit = mcpRateLimitingMiddleware(
+        req,
+        identity.authMethod === 'none' ? req.ip : identity.id,
+        req.get('user-agent')
+      );
+      if (!rateLimit.allowed) {
+        if (rateLimit.retryAfter) {
+          res.setHeader('Retry-After', String(rateLimit.retryAfter));
+        }
+        return res.status(429).json({ error: rateLimit.reason || 'Rate limit exceeded' });
+      }
+    }
+
+    res.locals.identity = identity;
+    next();
+  }
+
+  /**
+   * Answer 403 when a tool refused the caller's property, or 429 when the
+   * caller is rate limited; returns whether it did
+   */
+  private sendCallerError(res: Response, error: any): boolean {
+    if (MCPErrorHandler.isMCPError(error) && error.code === ErrorCode.GA4_PROPERTY_ACCESS_DENIED) {
+      res.status(403).json({ error: error.message, code: error.code });
+      return true;
+    }
+    if (MCPErrorHandler.isMCPError(error) && error.code === ErrorCode.RATE_LIMITED) {
+      res.status(429).json({ error: error.message, code: error.code });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Tool caller for an identity; rate limit decisions on its calls become
+   * response headers
+   */
+  private toCaller(identity?: BridgeIdentity, res?: Response): GA4ToolCaller | undefined {
+    return identity && {
+      id: identity.id,
+      allowedPropertyIds: identity.allowedPropertyIds,
+      tenantId: identity.tenantId,
+      plan: identity.plan,
+      onRateLimit: res && ((decision: RateLimitDecision) => setRateLimitHeaders(res, decision))
+    };
+  }
+
   /**
    * Register tool handlers from the MCP server
    */
@@ -73,9 +236,9 @@ export class HttpMcpBridge {
   /**
    * Call an MCP tool and return the result
    */
-  async callMCPTool(toolName: string, args: any) {
+  async callMCPTool(toolName: string, args: any, identity?: BridgeIdentity, res?: Response) {
     try {
-      logger.info(`Calling MCP tool: ${toolName}`, { args });
+      logger.info(`Calling MCP tool: ${toolName}`, { args, callerId: identity?.id });
       
       // Get the tool handler
       const handler = this.toolHandlers.get(toolName);
@@ -83,9 +246,9 @@ export class HttpMcpBridge {
         throw new Error(`Tool ${toolName} not found`);
       }
       
-      // Execute the tool
-      const result = await handler(args);
-      logger.info(`MCP tool ${toolName} completed successfully`);
+      // Execute the tool, narrowed to the caller's properties
+      const result = await handler(args, this.toCaller(identity, res));
+      logger.info(`MCP tool ${toolName} completed successfully`, { callerId: identity?.id });
       return result;
     } catch (error) {
       logger.error(`Error calling MCP tool ${toolName}:`, error as Error);
@@ -135,12 +298,13 @@ export class HttpMcpBridge {
         
         // Call the MCP server's query_analytics tool
         const result = await this.callMCPTool('query_analytics', {
+          propertyId,
           metrics: ['sessions', 'totalUsers', 'screenPageViews', 'bounceRate', 'averageSessionDuration'],
           dimensions: ['date'],
           startDate: formattedStartDate,
           endDate: formattedEndDate,
           limit: 100
-        });
+        }, res.locals.identity, res);
         
         // Transform to match frontend expectations
         const responseData = {
@@ -164,6 +328,9 @@ export class HttpMcpBridge {
         res.json(responseData);
       } catch (error) {
         logger.error('Error in sessions endpoint:', error as Error);
+        if (this.sendCallerError(res, error)) {
+          return;
+        }
         // Return mock data as fallback
         res.json({
           success: true,
@@ -192,10 +359,11 @@ export class HttpMcpBridge {
         const formattedEndDate = endDate || '2025-08-07';
         
         const result = await this.callMCPTool('get_traffic_sources', {
+          propertyId,
           startDate: formattedStartDate,
           endDate: formattedEndDate,
           includeChannels: true
-        });
+        }, res.locals.identity, res);
         
         res.json({
           success: true,
@@ -207,6 +375,9 @@ export class HttpMcpBridge {
         });
       } catch (error) {
         logger.error('Error in traffic sources endpoint:', error as Error);
+        if (this.sendCallerError(res, error)) {
+          return;
+        }
         // Return mock data as fallback
         res.json({
           success: true,
@@ -232,10 +403,11 @@ export class HttpMcpBridge {
         const formattedEndDate = endDate || '2025-08-07';
         
         const result = await this.callMCPTool('get_page_performance', {
+          propertyId,
           startDate: formattedStartDate,
           endDate: formattedEndDate,
           limit: 20
-        });
+        }, res.locals.identity, res);
         
         res.json({
           success: true,
@@ -246,6 +418,9 @@ export class HttpMcpBridge {
         });
       } catch (error) {
         logger.error('Error in page performance endpoint:', error as Error);
+        if (this.sendCallerError(res, error)) {
+          return;
+        }
         // Return mock data as fallback
         res.json({
           success: true,
@@ -270,9 +445,10 @@ export class HttpMcpBridge {
         const formattedEndDate = endDate || '2025-08-07';
         
         const result = await this.callMCPTool('get_conversion_data', {
+          propertyId,
           startDate: formattedStartDate,
           endDate: formattedEndDate
-        });
+        }, res.locals.identity, res);
         
         res.json({
           success: true,
@@ -283,6 +459,9 @@ export class HttpMcpBridge {
         });
       } catch (error) {
         logger.error('Error in conversions endpoint:', error as Error);
+        if (this.sendCallerError(res, error)) {
+          return;
+        }
         // Return mock data as fallback
         res.json({
           success: true,
@@ -299,68 +478,163 @@ export class HttpMcpBridge {
     // EXISTING MCP ENDPOINTS
     // ==========================================
 
-    // MCP SSE connection endpoint
-    this.app.get('/mcp/connect', async (req: Request, res: Response) => {
-      try {
-        logger.info('New MCP SSE connection request');
-        
-        // Create SSE transport
-        const transport = new SSEServerTransport('/mcp/message', res, {
-          allowedOrigins: ['http://localhost:3000', 'http://localhost:3001'],
-          enableDnsRebindingProtection: true
-        });
+    // MCP Streamable HTTP endpoint: POST messages, GET resumable SSE streams, DELETE sessions
+    this.app.all('/mcp', (req: Request, res: Response) => this.handleStreamableHttp(req, res));
 
-        // Create new MCP server instance for this session
-        const sessionServer = await this.createSessionServer();
-        
-        // Store session
-        const sessionId = Date.now().toString();
-        this.sessions.set(sessionId, {
-          transport,
-          server: sessionServer,
-          createdAt: new Date()
-        });
+    // Stateless JSON-RPC 2.0 endpoint (single or batch requests)
+    this.app.post('/mcp/rpc', async (req: Request, res: Response) => {
+      const identity: BridgeIdentity = res.locals.identity;
+      let payload = req.body;
+      if (typeof payload === 'string') {
+        try {
+          payload = JSON.parse(payload);
+        } catch {
+          return res.json(parseErrorResponse());
+        }
+      }
+      logger.info('MCP RPC request', {
+        callerId: identity?.id,
+        methods: Array.isArray(payload) ? payload.map(message => message?.method) : payload?.method
+      });
 
-        logger.info(`MCP session created: ${sessionId}`);
-      } catch (error) {
-        logger.error('Error creating MCP connection:', error as Error);
-        res.status(500).json({ error: 'Failed to establish MCP connection' });
+      const response = await dispatchJsonRpc(payload, this.rpcMethods(identity, res));
+      if (response === undefined) {
+        return res.status(204).end();
       }
+      res.json(response);
     });
 
-    // Direct RPC endpoint for simple request/response
-    this.app.post('/mcp/rpc', async (req: Request, res: Response) => {
-      try {
-        const { method, params } = req.body;
-        logger.info(`MCP RPC request: ${method}`, { params });
-
-        // Handle tool calls
-        if (method === 'tools/call') {
-          const { tool, arguments: args } = params;
-          const result = await this.callMCPTool(tool, args);
-          res.json({ success: true, result });
-        } else {
-          res.status(400).json({ error: `Unknown method: ${method}` });
-        }
-      } catch (error) {
-        logger.error('Error in MCP RPC:', error as Error);
-        res.status(500).json({ error: (error as Error).message });
+    // Malformed JSON on /mcp/rpc is a JSON-RPC parse error
+    this.app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+      if (req.path === '/mcp/rpc' && error?.type === 'entity.parse.failed') {
+        return res.json(parseErrorResponse());
       }
+      next(error);
     });
   }
 
-  async createSessionServer() {
-    // This would create a new MCP server instance for the session
-    // For now, we'll reuse the main server
-    return this.mcpServer;
+  /**
+   * JSON-RPC methods served by /mcp/rpc for one caller
+   */
+  private rpcMethods(identity?: BridgeIdentity, res?: Response): Record<string, JsonRpcMethod> {
+    const caller = this.toCaller(identity);
+
+    return {
+      initialize: async (params) => ({
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+          ? params.protocolVersion
+          : LATEST_PROTOCOL_VERSION,
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: { name: 'ga4-analytics-mcp', version: '1.0.0' }
+      }),
+      ping: async () => ({}),
+      'tools/list': async () => ({ tools: this.toolDefinitions }),
+      'resources/list': async () => ({ resources: this.listResources?.(caller) ?? [] }),
+      'tools/call': async (params) => {
+        const { name, arguments: args = {} } = params;
+        if (typeof name !== 'string' || !this.toolHandlers.has(name)) {
+          throw MCPErrorHandler.createError(ErrorCode.INVALID_PARAMS, `Unknown tool: ${name}`, { toolName: name });
+        }
+        const result = await this.callMCPTool(name, args, identity, res);
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+    };
+  }
+
+  /**
+   * Route a Streamable HTTP request to its session, creating one on initialize
+   */
+  private async handleStreamableHttp(req: Request, res: Response) {
+    const identity: BridgeIdentity = res.locals.identity;
+    const sessionId = req.get(MCP_SESSION_HEADER);
+
+    // Browsers always send Origin; reject pages outside the allow-list (DNS rebinding)
+    const origin = req.get('origin');
+    if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+      return sendJsonRpcError(res, 403, -32000, `Origin not allowed: ${origin}`);
+    }
+
+    try {
+      // The SDK hands req.auth to request handlers as authInfo
+      (req as any).auth = toAuthInfo(identity);
+
+      if (sessionId) {
+        const session = this.sessions.get(sessionId);
+        // Sessions are bound to the caller that opened them
+        if (!session || session.ownerId !== identity.id) {
+          return sendJsonRpcError(res, 404, -32001, 'Session not found');
+        }
+        session.lastActivityAt = Date.now();
+        return await session.transport.handleRequest(req, res, req.body);
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+        return sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      }
+      if (!this.createSessionServer) {
+        return sendJsonRpcError(res, 503, -32000, 'MCP sessions are not available on this bridge');
+      }
+
+      const server = this.createSessionServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (newSessionId) => {
+          const now = new Date();
+          this.sessions.set(newSessionId, {
+            transport,
+            server,
+            ownerId: identity.id,
+            createdAt: now,
+            lastActivityAt: now.getTime()
+          });
+          logger.info(`MCP session created: ${newSessionId}`, { callerId: identity.id });
+        }
+      });
+      transport.onclose = () => {
+        if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+          logger.info(`MCP session closed: ${transport.sessionId}`, { callerId: identity.id });
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling MCP Streamable HTTP request:', error as Error, { sessionId });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  /**
+   * Close sessions that have seen no requests within the idle timeout
+   */
+  private async closeIdleSessions() {
+    const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivityAt < cutoff) {
+        logger.info(`MCP session ${sessionId} idle for ${this.sessionIdleTimeoutMs}ms; closing`);
+        this.sessions.delete(sessionId);
+        await session.transport.close().catch(error =>
+          logger.warn(`Failed to close MCP session ${sessionId}`, { error: (error as Error).message })
+        );
+      }
+    }
   }
 
   async start(): Promise<void> {
     return new Promise<void>((resolve, reject) => {
+      this.sessionSweepTimer = setInterval(
+        () => this.closeIdleSessions(),
+        Math.min(this.sessionIdleTimeoutMs, MAX_SESSION_SWEEP_INTERVAL_MS)
+      );
+      this.sessionSweepTimer.unref();
+
       this.server = this.app.listen(this.port, this.host, () => {
         logger.info(`🌉 HTTP MCP Bridge started on http://${this.host}:${this.port}`);
-        logger.info(`   MCP Connect: http://${this.host}:${this.port}/mcp/connect`);
-        logger.info(`   Direct RPC: http://${this.host}:${this.port}/mcp/rpc`);
+        logger.info(`   MCP (Streamable HTTP): http://${this.host}:${this.port}/mcp`);
+        logger.info(`   JSON-RPC: http://${this.host}:${this.port}/mcp/rpc`);
         logger.info(`   Health: http://${this.host}:${this.port}/health`);
         logger.info(`   REST API: http://${this.host}:${this.port}/api/ga4/*`);
         logger.info(`✅ HTTP MCP Bridge started - React frontend can now connect`);
@@ -372,6 +646,15 @@ export class HttpMcpBridge {
   }
 
   async stop(): Promise<void> {
+    if (this.sessionSweepTimer) {
+      clearInterval(this.sessionSweepTimer);
+      this.sessionSweepTimer = null;
+    }
+    // Closing the transports ends their open SSE streams so the server can close
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.transport.close().catch(() => undefined)));
+
     if (this.server) {
       return new Promise<void>((resolve) => {
         this.server.close(() => {
@@ -383,6 +666,25 @@ export class HttpMcpBridge {
   }
 }
 
+/**
+ * X-RateLimit-* headers for the caller's tenant bucket, plus Retry-After when refused
+ */
+function setRateLimitHeaders(res: Response, decision: RateLimitDecision) {
+  if (res.headersSent) {
+    return;
+  }
+  res.setHeader('X-RateLimit-Limit', String(decision.limit));
+  res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+  res.setHeader('X-RateLimit-Reset', String(decision.resetSeconds));
+  if (!decision.allowed && decision.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+  }
+}
+
+function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
 /**
  * Start HTTP MCP Bridge with the given MCP server
  */
@@ -5,9 +5,17 @@
  * for production monitoring and emergency situations.
  */
 
-import { logger as productionLogger } from './productionLogger.js';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { errorTracker, ErrorType, ErrorSeverity } from './errorTracking.js';
 import { performanceMonitor } from './performanceMetrics.js';
+import { createHash } from 'crypto';
+import {
+  AlertDispatcher,
+  AlertNotifier,
+  AlertPayload,
+  AlertDeliveryResult,
+  createAlertNotifiersFromEnv
+} from './alertNotifiers.js';
 
 export enum IncidentSeverity {
   CRITICAL = 'critical',
@@ -39,6 +47,11 @@ export interface IncidentConfig {
   escalationTimeout: number;
   retryAttempts: number;
   notificationChannels: AlertChannel[];
+  notifiers: Partial<Record<AlertChannel, AlertNotifier>>;
+  delivery: {
+    retryBaseDelay: number;
+    dedupeWindow: number; // Suppress repeats of the same alert for the same fingerprint
+  };
   thresholds: {
     criticalErrorRate: number;
     highResponseTime: number;
@@ -55,6 +68,7 @@ export interface IncidentConfig {
 
 export interface Incident {
   id: string;
+  fingerprint: string; // Stable across repeats of the same problem
   title: string;
   description: string;
   severity: IncidentSeverity;
@@ -90,7 +104,7 @@ export interface Incident {
 
 export interface IncidentEvent {
   timestamp: Date;
-  type: 'created' | 'updated' | 'acknowledged' | 'escalated' | 'resolved' | 'recovery_attempted' | 'auto_resolved';
+  type: 'created' | 'updated' | 'acknowledged' | 'escalated' | 'resolved' | 'recovery_attempted' | 'auto_resolved' | 'alert_delivery';
   description: string;
   user?: string;
   data?: any;
@@ -140,6 +154,7 @@ export class IncidentManager {
   private metrics: AlertMetrics;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private lastHealthCheck: Date = new Date();
+  private alertDispatcher: AlertDispatcher;
 
   constructor(config?: Partial<IncidentConfig>) {
     this.config = {
@@ -148,6 +163,11 @@ export class IncidentManager {
       escalationTimeout: parseInt(process.env.INCIDENT_ESCALATION_TIMEOUT || '1800000'), // 30 minutes
       retryAttempts: parseInt(process.env.INCIDENT_RETRY_ATTEMPTS || '3'),
       notificationChannels: (process.env.INCIDENT_CHANNELS || 'log,webhook').split(',') as AlertChannel[],
+      notifiers: createAlertNotifiersFromEnv(),
+      delivery: {
+        retryBaseDelay: parseInt(process.env.INCIDENT_RETRY_BASE_DELAY || '1000'),
+        dedupeWindow: parseInt(process.env.INCIDENT_DEDUPE_WINDOW || '900000'), // 15 minutes
+      },
       
       thresholds: {
         criticalErrorRate: parseFloat(process.env.CRITICAL_ERROR_RATE || '5'), // 5% error rate
@@ -184,6 +204,12 @@ export class IncidentManager {
       recentIncidents: []
     };
 
+    this.alertDispatcher = new AlertDispatcher({
+      retryAttempts: this.config.retryAttempts,
+      retryBaseDelayMs: this.config.delivery.retryBaseDelay,
+      dedupeWindowMs: this.config.delivery.dedupeWindow
+    });
+
     this.initializeDefaultAlertRules();
     this.startMonitoring();
 
@@ -193,6 +219,7 @@ export class IncidentManager {
         enabled: this.config.enabled,
         autoResponse: this.config.autoResponse,
         channels: this.config.notificationChannels,
+        notifiers: Object.keys(this.config.notifiers),
         thresholds: this.config.thresholds
       }
     });
@@ -213,6 +240,7 @@ export class IncidentManager {
     
     const incident: Incident = {
       id: incidentId,
+      fingerprint: this.generateFingerprint(component, title, severity),
       title,
       description,
       severity,
@@ -494,17 +522,24 @@ export class IncidentManager {
    * Send alert through configured channels
    */
   private async sendAlert(incident: Incident, alertType: string, isEscalation: boolean = false): Promise<void> {
-    const alertData = {
-      incident,
+    const alert: AlertPayload = {
+      incidentId: incident.id,
+      fingerprint: incident.fingerprint,
       alertType,
+      title: incident.title,
+      description: incident.description,
+      severity: incident.severity,
+      status: incident.status,
+      component: incident.component,
+      impact: incident.impact,
+      urgency: this.calculateUrgency(incident.severity, isEscalation),
       isEscalation,
-      timestamp: new Date(),
-      urgency: this.calculateUrgency(incident.severity, isEscalation)
+      timestamp: new Date().toISOString()
     };
 
     for (const channel of this.config.notificationChannels) {
       try {
-        await this.sendAlertToChannel(channel, alertData);
+        await this.sendAlertToChannel(channel, incident, alert);
       } catch (error) {
         productionLogger.error('Failed to send alert', {
           component: 'INCIDENT_RESPONSE',
@@ -519,62 +554,84 @@ export class IncidentManager {
   /**
    * Send alert to specific channel
    */
-  private async sendAlertToChannel(channel: AlertChannel, alertData: any): Promise<void> {
+  private async sendAlertToChannel(channel: AlertChannel, incident: Incident, alert: AlertPayload): Promise<void> {
     switch (channel) {
       case AlertChannel.LOG:
         productionLogger.error('INCIDENT ALERT', {
           component: 'INCIDENT_RESPONSE',
-          alert: alertData.alertType,
+          alert: alert.alertType,
           incident: {
-            id: alertData.incident.id,
-            title: alertData.incident.title,
-            severity: alertData.incident.severity,
-            component: alertData.incident.component,
-            status: alertData.incident.status
+            id: incident.id,
+            title: incident.title,
+            severity: incident.severity,
+            component: incident.component,
+            status: incident.status
           },
-          urgency: alertData.urgency,
-          escalation: alertData.isEscalation
+          urgency: alert.urgency,
+          escalation: alert.isEscalation
         });
         break;
 
       case AlertChannel.WEBHOOK:
-        // In a real implementation, send to webhook URL
-        productionLogger.info('Webhook alert sent', {
-          component: 'INCIDENT_RESPONSE',
-          incidentId: alertData.incident.id,
-          webhook: process.env.INCIDENT_WEBHOOK_URL || 'not-configured'
-        });
-        break;
-
       case AlertChannel.EMAIL:
-        // In a real implementation, send email
-        productionLogger.info('Email alert sent', {
-          component: 'INCIDENT_RESPONSE',
-          incidentId: alertData.incident.id,
-          recipients: process.env.INCIDENT_EMAIL_RECIPIENTS || 'not-configured'
-        });
-        break;
+      case AlertChannel.SLACK: {
+        const notifier = this.config.notifiers[channel];
+        if (!notifier) {
+          productionLogger.warn('Alert channel has no notifier configured', {
+            component: 'INCIDENT_RESPONSE',
+            channel,
+            incidentId: incident.id
+          });
+          break;
+        }
 
-      case AlertChannel.SLACK:
-        // In a real implementation, send to Slack
-        productionLogger.info('Slack alert sent', {
-          component: 'INCIDENT_RESPONSE',
-          incidentId: alertData.incident.id,
-          channel: process.env.SLACK_CHANNEL || 'not-configured'
-        });
+        const result = await this.alertDispatcher.dispatch(notifier, alert);
+        this.recordDelivery(incident, channel, alert.alertType, result);
         break;
+      }
 
       case AlertChannel.SMS:
         // In a real implementation, send SMS
         productionLogger.info('SMS alert sent', {
           component: 'INCIDENT_RESPONSE',
-          incidentId: alertData.incident.id,
+          incidentId: incident.id,
           recipients: process.env.SMS_RECIPIENTS || 'not-configured'
         });
         break;
     }
   }
 
+  /**
+   * Record an alert delivery outcome on the incident timeline
+   */
+  private recordDelivery(incident: Incident, channel: AlertChannel, alertType: string, result: AlertDeliveryResult): void {
+    const descriptions: Record<AlertDeliveryResult['status'], string> = {
+      delivered: `${alertType} alert delivered via ${channel} (attempt ${result.attempts})`,
+      failed: `${alertType} alert to ${channel} failed after ${result.attempts} attempt(s): ${result.error}`,
+      deduplicated: `${alertType} alert to ${channel} suppressed as a duplicate of fingerprint ${incident.fingerprint}`
+    };
+
+    incident.timeline.push({
+      timestamp: new Date(),
+      type: 'alert_delivery',
+      description: descriptions[result.status],
+      data: { channel, alertType, ...result }
+    });
+
+    const context = {
+      component: 'INCIDENT_RESPONSE',
+      incidentId: incident.id,
+      channel,
+      attempts: result.attempts,
+      error: result.error
+    };
+    if (result.status === 'failed') {
+      productionLogger.error('Incident alert delivery failed', context);
+    } else {
+      productionLogger.info(`Incident alert ${result.status}`, context);
+    }
+  }
+
   /**
    * Calculate urgency based on severity and escalation
    */
@@ -815,6 +872,10 @@ export class IncidentManager {
     return `INC-${timestamp}-${random}`.toUpperCase();
   }
 
+  private generateFingerprint(component: string, title: string, severity: IncidentSeverity): string {
+    return createHash('sha256').update(`${component}|${title}|${severity}`).digest('hex').slice(0, 16);
+  }
+
   private generateTags(severity: IncidentSeverity, component: string): string[] {
     return [
       `severity:${severity}`,
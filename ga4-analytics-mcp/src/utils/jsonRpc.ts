@@ -0,0 +1,98 @@
+/**
+ * JSON-RPC 2.0 Dispatcher
+ *
+ * Validates single and batch JSON-RPC payloads, routes them to method
+ * handlers and turns thrown errors into JSON-RPC error objects.
+ * Notifications (messages without an id) never get a response.
+ */
+
+import { MCPErrorHandler, JSON_RPC_ERROR_CODES } from '@ai-ad-manager/mcp-shared/errorHandler';
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+export type JsonRpcMethod = (params: any) => Promise<any>;
+
+/**
+ * Dispatch a parsed payload; resolves undefined when it held only notifications
+ */
+export async function dispatchJsonRpc(
+  payload: unknown,
+  methods: Record<string, JsonRpcMethod>
+): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+  if (!Array.isArray(payload)) {
+    return dispatchMessage(payload, methods);
+  }
+
+  if (payload.length === 0) {
+    return errorResponse(null, JSON_RPC_ERROR_CODES.INVALID_REQUEST, 'Invalid Request: empty batch');
+  }
+
+  const responses = await Promise.all(payload.map(message => dispatchMessage(message, methods)));
+  const answered = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+  return answered.length > 0 ? answered : undefined;
+}
+
+/**
+ * Error response for a body that is not valid JSON
+ */
+export function parseErrorResponse(): JsonRpcResponse {
+  return errorResponse(null, JSON_RPC_ERROR_CODES.PARSE_ERROR, 'Parse error');
+}
+
+async function dispatchMessage(
+  message: any,
+  methods: Record<string, JsonRpcMethod>
+): Promise<JsonRpcResponse | undefined> {
+  const id = isValidId(message?.id) ? message.id : null;
+
+  if (!message || typeof message !== 'object' || Array.isArray(message) ||
+      message.jsonrpc !== '2.0' || typeof message.method !== 'string' ||
+      ('id' in message && !isValidId(message.id)) ||
+      (message.params !== undefined && (message.params === null || typeof message.params !== 'object'))) {
+    return errorResponse(id, JSON_RPC_ERROR_CODES.INVALID_REQUEST, 'Invalid Request');
+  }
+
+  const isNotification = !('id' in message);
+  const method = Object.prototype.hasOwnProperty.call(methods, message.method)
+    ? methods[message.method]
+    : undefined;
+
+  if (isNotification) {
+    // Unknown notifications (e.g. notifications/initialized) are ignored, and failures are never reported
+    await method?.(message.params ?? {}).catch(() => undefined);
+    return undefined;
+  }
+
+  if (!method) {
+    return errorResponse(id, JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+  }
+
+  try {
+    return { jsonrpc: '2.0', id, result: await method(message.params ?? {}) };
+  } catch (error) {
+    const mcpError = MCPErrorHandler.handleError(error);
+    return { jsonrpc: '2.0', id, error: MCPErrorHandler.formatForJsonRpc(mcpError) };
+  }
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id)) || id === null;
+}
+
+function errorResponse(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
@@ -0,0 +1,90 @@
+/**
+ * In-memory MCP event store
+ *
+ * Keeps the most recent messages of a session's Streamable HTTP streams so
+ * clients can resume with Last-Event-ID after a dropped connection. One store
+ * is created per session and dropped with it.
+ */
+
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+
+const DEFAULT_MAX_EVENTS_PER_STREAM = 500;
+const DEFAULT_MAX_STREAMS = 100;
+
+interface StoredEvent {
+  sequence: number;
+  message: JSONRPCMessage;
+}
+
+interface EventStream {
+  nextSequence: number;
+  events: StoredEvent[];
+}
+
+export class InMemoryEventStore implements EventStore {
+  private streams: Map<string, EventStream> = new Map();
+
+  constructor(
+    private maxEventsPerStream: number = DEFAULT_MAX_EVENTS_PER_STREAM,
+    private maxStreams: number = DEFAULT_MAX_STREAMS
+  ) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    let stream = this.streams.get(streamId);
+    if (!stream) {
+      stream = { nextSequence: 1, events: [] };
+      this.streams.set(streamId, stream);
+      if (this.streams.size > this.maxStreams) {
+        // Maps iterate in insertion order, so the first stream is the oldest
+        this.streams.delete(this.streams.keys().next().value as string);
+      }
+    }
+
+    const sequence = stream.nextSequence++;
+    stream.events.push({ sequence, message });
+    if (stream.events.length > this.maxEventsPerStream) {
+      stream.events.shift();
+    }
+
+    return formatEventId(streamId, sequence);
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const { streamId, sequence } = parseEventId(lastEventId);
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      throw new Error(`Unknown event stream for event ${lastEventId}`);
+    }
+
+    const oldest = stream.events[0]?.sequence;
+    if (oldest !== undefined && oldest > sequence + 1) {
+      logger.warn(`⚠️ MCP stream ${streamId} dropped events after ${lastEventId}; replaying from ${oldest}`);
+    }
+
+    for (const event of stream.events) {
+      if (event.sequence > sequence) {
+        await send(formatEventId(streamId, event.sequence), event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
+
+function formatEventId(streamId: string, sequence: number): string {
+  return `${streamId}:${sequence}`;
+}
+
+function parseEventId(eventId: string): { streamId: string; sequence: number } {
+  const separator = eventId.lastIndexOf(':');
+  const sequence = Number(eventId.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(sequence)) {
+    throw new Error(`Malformed event ID: ${eventId}`);
+  }
+  return { streamId: eventId.slice(0, separator), sequence };
+}
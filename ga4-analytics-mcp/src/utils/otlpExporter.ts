@@ -0,0 +1,315 @@
+/**
+ * OTLP/HTTP Trace Exporter
+ *
+ * Converts finished APM spans to OTLP and posts them as JSON to an
+ * OpenTelemetry collector's /v1/traces endpoint. Spans wait in a bounded
+ * queue and go out in batches on a timer or once a batch fills; when the
+ * queue is full new spans are dropped rather than growing memory.
+ */
+
+import { logger } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import type { Span } from './apmMonitoring.js';
+
+export interface OtlpExporterConfig {
+  endpoint: string;                   // Full traces URL, e.g. http://collector:4318/v1/traces
+  headers: Record<string, string>;
+  serviceName: string;
+  serviceVersion?: string;
+  maxQueueSize: number;
+  maxExportBatchSize: number;
+  scheduledDelayMs: number;
+  exportTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+export interface OtlpExporterStats {
+  queued: number;
+  exported: number;
+  dropped: number;
+  failedBatches: number;
+}
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{ timeUnixNano: string; name: string; attributes: OtlpKeyValue[] }>;
+  status: { code: number; message?: string };
+}
+
+// OTLP SpanKind and StatusCode values
+const SPAN_KINDS: Record<string, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+const STATUS_CODES: Record<string, number> = { ok: 1, error: 2, timeout: 2, cancelled: 2 };
+
+// Retried because the collector may recover; other failures drop the batch
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+const exportedSpans = metricsRegistry.counter({
+  name: 'ga4_mcp_otlp_exported_spans',
+  help: 'Spans accepted by the OTLP collector',
+});
+
+const droppedSpans = metricsRegistry.counter({
+  name: 'ga4_mcp_otlp_dropped_spans',
+  help: 'Spans not exported, by reason (queue_full or export_failed)',
+  labelNames: ['reason'],
+});
+
+/**
+ * Exporter config from the standard OTEL_* variables, or undefined when no endpoint is set
+ */
+export function loadOtlpExporterConfig(env: NodeJS.ProcessEnv = process.env): OtlpExporterConfig | undefined {
+  const endpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    || (env.OTEL_EXPORTER_OTLP_ENDPOINT && `${env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, '')}/v1/traces`);
+  if (!endpoint || env.OTEL_TRACES_EXPORTER === 'none') {
+    return undefined;
+  }
+
+  return {
+    endpoint,
+    headers: parseHeaderList(env.OTEL_EXPORTER_OTLP_TRACES_HEADERS || env.OTEL_EXPORTER_OTLP_HEADERS),
+    serviceName: env.OTEL_SERVICE_NAME || 'ga4-analytics-mcp',
+    serviceVersion: env.npm_package_version,
+    maxQueueSize: parseInt(env.OTEL_BSP_MAX_QUEUE_SIZE || '2048', 10),
+    maxExportBatchSize: parseInt(env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE || '512', 10),
+    scheduledDelayMs: parseInt(env.OTEL_BSP_SCHEDULE_DELAY || '5000', 10),
+    exportTimeoutMs: parseInt(env.OTEL_EXPORTER_OTLP_TIMEOUT || '10000', 10),
+    maxRetries: 3,
+    retryBaseDelayMs: 500,
+  };
+}
+
+export class OtlpTraceExporter {
+  private config: OtlpExporterConfig;
+  private queue: OtlpSpan[] = [];
+  private exporting: Promise<void> | null = null;
+  private timer: NodeJS.Timeout;
+  private stats = { exported: 0, dropped: 0, failedBatches: 0 };
+
+  constructor(config: Partial<OtlpExporterConfig> & { endpoint: string }) {
+    this.config = {
+      headers: {},
+      serviceName: 'ga4-analytics-mcp',
+      maxQueueSize: 2048,
+      maxExportBatchSize: 512,
+      scheduledDelayMs: 5000,
+      exportTimeoutMs: 10000,
+      maxRetries: 3,
+      retryBaseDelayMs: 500,
+      ...config,
+    };
+    this.config.maxExportBatchSize = Math.min(this.config.maxExportBatchSize, this.config.maxQueueSize);
+
+    this.timer = setInterval(() => {
+      this.forceFlush().catch(() => undefined);
+    }, this.config.scheduledDelayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Queue a finished span for export
+   */
+  export(span: Span): void {
+    if (this.queue.length >= this.config.maxQueueSize) {
+      this.stats.dropped++;
+      droppedSpans.inc({ reason: 'queue_full' });
+      return;
+    }
+
+    this.queue.push(toOtlpSpan(span));
+    if (this.queue.length >= this.config.maxExportBatchSize && !this.exporting) {
+      this.forceFlush().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Export everything queued so far
+   */
+  async forceFlush(): Promise<void> {
+    // Batches go out one at a time; a flush during an export waits for it, then drains the rest
+    while (this.exporting) {
+      await this.exporting;
+    }
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    this.exporting = this.drain().finally(() => {
+      this.exporting = null;
+    });
+    await this.exporting;
+  }
+
+  /**
+   * Stop the export timer and flush what is left
+   */
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    await this.forceFlush();
+  }
+
+  getStats(): OtlpExporterStats {
+    return { queued: this.queue.length, ...this.stats };
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.config.maxExportBatchSize);
+      const delivered = await this.send(batch);
+
+      if (delivered) {
+        this.stats.exported += batch.length;
+        exportedSpans.inc({}, batch.length);
+      } else {
+        this.stats.failedBatches++;
+        this.stats.dropped += batch.length;
+        droppedSpans.inc({ reason: 'export_failed' }, batch.length);
+      }
+    }
+  }
+
+  private async send(spans: OtlpSpan[]): Promise<boolean> {
+    const body = JSON.stringify(buildOtlpTraceRequest(spans, this.config));
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      let retryable = true;
+      let reason: string;
+
+      try {
+        const response = await fetch(this.config.endpoint, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...this.config.headers },
+          body,
+          signal: AbortSignal.timeout(this.config.exportTimeoutMs),
+        });
+        if (response.ok) {
+          return true;
+        }
+        retryable = RETRYABLE_STATUSES.has(response.status);
+        reason = `collector answered ${response.status}`;
+      } catch (error) {
+        reason = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      if (!retryable || attempt === this.config.maxRetries) {
+        logger.warn('OTLP trace export failed', {
+          component: 'APM',
+          endpoint: this.config.endpoint,
+          spans: spans.length,
+          attempts: attempt,
+          reason,
+        });
+        return false;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.config.retryBaseDelayMs * 2 ** (attempt - 1)));
+    }
+
+    return false;
+  }
+}
+
+/**
+ * Convert an APM span to an OTLP span
+ */
+export function toOtlpSpan(span: Span): OtlpSpan {
+  const { ['span.kind']: kind, ...tags } = span.tags;
+  const attributes = Object.entries(tags).map(([key, value]) => toKeyValue(key, value));
+  if (span.error) {
+    attributes.push(
+      toKeyValue('exception.type', span.error.type),
+      toKeyValue('exception.message', span.error.message)
+    );
+  }
+
+  return {
+    traceId: span.traceId,
+    spanId: span.id,
+    ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+    name: span.operationName,
+    kind: SPAN_KINDS[String(kind)] || SPAN_KINDS.internal,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+    attributes,
+    events: span.logs.map(log => ({
+      timeUnixNano: toUnixNano(log.timestamp),
+      name: log.message,
+      attributes: [
+        toKeyValue('level', log.level),
+        ...Object.entries(log.fields || {}).map(([key, value]) => toKeyValue(key, value)),
+      ],
+    })),
+    status: {
+      code: STATUS_CODES[span.status] || 0,
+      ...(span.error && { message: span.error.message }),
+    },
+  };
+}
+
+/**
+ * ExportTraceServiceRequest body for a batch of spans
+ */
+export function buildOtlpTraceRequest(
+  spans: OtlpSpan[],
+  service: Pick<OtlpExporterConfig, 'serviceName' | 'serviceVersion'>
+): object {
+  return {
+    resourceSpans: [{
+      resource: {
+        attributes: [
+          toKeyValue('service.name', service.serviceName),
+          ...(service.serviceVersion ? [toKeyValue('service.version', service.serviceVersion)] : []),
+          toKeyValue('telemetry.sdk.language', 'nodejs'),
+        ],
+      },
+      scopeSpans: [{
+        scope: { name: 'ga4-analytics-mcp/apm' },
+        spans,
+      }],
+    }],
+  };
+}
+
+function toKeyValue(key: string, value: unknown): OtlpKeyValue {
+  if (typeof value === 'boolean') {
+    return { key, value: { boolValue: value } };
+  }
+  if (typeof value === 'number') {
+    return { key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } };
+  }
+  return { key, value: { stringValue: typeof value === 'string' ? value : JSON.stringify(value) } };
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1000000n).toString();
+}
+
+// "key1=value1,key2=value2", values URL-encoded as in the OTEL spec
+function parseHeaderList(value?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value || '').split(',')) {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return headers;
+}
@@ -5,7 +5,8 @@
  * for monitoring and optimization purposes.
  */
 
-import { logger } from './logger.js';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
 
 export interface MetricValue {
   value: number;
@@ -387,4 +388,21 @@ export class PerformanceMonitor {
 }
 
 // Global performance monitor instance
-export const performanceMonitor = new PerformanceMonitor();
\ No newline at end of file
+export const performanceMonitor = new PerformanceMonitor();
+
+metricsRegistry.counter({
+  name: 'ga4_mcp_auth_attempts',
+  help: 'Google authentication attempts, by outcome (success or failure)',
+  labelNames: ['outcome'],
+  collect: counter => {
+    const { authenticationAttempts, authenticationSuccesses } = performanceMonitor.getPerformanceMetrics();
+    counter.set({ outcome: 'success' }, authenticationSuccesses);
+    counter.set({ outcome: 'failure' }, Math.max(0, authenticationAttempts - authenticationSuccesses));
+  },
+});
+
+metricsRegistry.counter({
+  name: 'ga4_mcp_token_refreshes',
+  help: 'Google access token refreshes',
+  collect: counter => counter.set({}, performanceMonitor.getPerformanceMetrics().tokenRefreshCount),
+});
\ No newline at end of file
@@ -3,16 +3,81 @@
  * 
  * Provides multi-level caching with intelligent TTL management,
  * cache warming, compression, and distributed caching support.
+ * Entries live in a storage backend (see @ai-ad-manager/mcp-shared/cacheStorage): memory by
+ * default, a file snapshot with enablePersistence, or Redis shared between
+ * replicas with enableDistributed.
  */
 
-import { logger as productionLogger } from './productionLogger.js';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { performanceMonitor } from './performanceMetrics.js';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import { ga4MetricsCollector } from './ga4MetricsCollector.js';
+import { CronSchedule } from './cronSchedule.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import {
+  CacheBackendKind,
+  CacheEntry,
+  CachePriority,
+  CacheStore,
+  FileSnapshotCacheStore,
+  MemoryCacheStore,
+  RedisCacheStore,
+} from '@ai-ad-manager/mcp-shared/cacheStorage';
 import { gzip, gunzip } from 'zlib';
 import { promisify } from 'util';
 
 const compressAsync = promisify(gzip);
 const decompressAsync = promisify(gunzip);
 
+const cacheLookups = metricsRegistry.counter({
+  name: 'ga4_mcp_cache_lookups',
+  help: 'Cache lookups, by result (hit, stale_hit or miss)',
+  labelNames: ['result'],
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_cache_hit_ratio',
+  help: 'Share of cache lookups served from the cache, stale hits included',
+  collect: gauge => {
+    const hits = cacheLookups.get({ result: 'hit' }) + cacheLookups.get({ result: 'stale_hit' });
+    const total = hits + cacheLookups.get({ result: 'miss' });
+    gauge.set({}, total > 0 ? hits / total : 0);
+  },
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_cache_entries',
+  help: 'Entries held in the production cache',
+  collect: gauge => {
+    const cache = getProductionCache();
+    if (cache) gauge.set({}, cache.getMetrics().memory.entries);
+  },
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_cache_size_bytes',
+  help: 'Stored size of the production cache entries in bytes',
+  collect: gauge => {
+    const cache = getProductionCache();
+    if (cache) gauge.set({}, cache.getMetrics().memory.totalSize);
+  },
+});
+
+const backgroundRefreshes = metricsRegistry.counter({
+  name: 'ga4_mcp_cache_background_refreshes',
+  help: 'Stale entries refreshed through their loader, by outcome (refreshed, failed or skipped_quota)',
+  labelNames: ['outcome'],
+});
+
+metricsRegistry.counter({
+  name: 'ga4_mcp_cache_evictions',
+  help: 'Entries evicted from the production cache to stay within its limits',
+  collect: counter => {
+    const cache = getProductionCache();
+    if (cache) counter.set({}, cache.getMetrics().memory.evictions);
+  },
+});
+
 export interface CacheConfig {
   // Memory cache settings
   maxMemoryEntries: number;
@@ -31,26 +96,29 @@ export interface CacheConfig {
   // Performance settings
   enableCacheWarming: boolean;
   warmingSchedule: string[]; // cron expressions
+  quotaReserve: number; // GA4 quota percentage background refreshes and warming leave untouched
   enableAnalytics: boolean;
   enableOptimization: boolean;
   
   // Advanced features
   enableDistributed: boolean;
   distributedPrefix: string;
+  redisUrl: string;
   enableStaleWhileRevalidate: boolean;
   staleTimeout: number;
 }
 
-export interface CacheEntry {
-  data: any;
-  timestamp: number;
-  ttl: number;
-  accessCount: number;
-  lastAccessed: number;
-  dataType: string;
-  compressed: boolean;
-  size: number;
-  tags: string[];
+/**
+ * Re-fetches the data of an entry; registered with set() and run when the entry goes stale
+ */
+export type CacheLoader = () => Promise<any>;
+
+interface CacheSetOptions {
+  ttl?: number;
+  dataType?: string;
+  tags?: string[];
+  priority?: CachePriority;
+  loader?: CacheLoader;
 }
 
 export interface CacheMetrics {
@@ -80,11 +148,14 @@ export interface CacheMetrics {
 }
 
 export class ProductionCache {
-  private cache: Map<string, CacheEntry> = new Map();
+  private store: CacheStore;
+  private ready: Promise<void>;
   private config: CacheConfig;
   private metrics: CacheMetrics;
-  private accessOrder: string[] = []; // For LRU eviction
+  private maintenanceTimers: NodeJS.Timeout[] = [];
   private warmingTasks: Map<string, NodeJS.Timeout> = new Map();
+  private loaders: Map<string, CacheSetOptions & { loader: CacheLoader }> = new Map();
+  private refreshes: Map<string, Promise<void>> = new Map(); // In flight, one per key
   private analytics: Map<string, { count: number; lastAccess: number }> = new Map();
   private performanceData: { gets: number[]; sets: number[] } = { gets: [], sets: [] };
 
@@ -101,6 +172,7 @@ export class ProductionCache {
         'ga4-traffic': parseInt(process.env.CACHE_GA4_TRAFFIC_TTL || '900000'), // 15 minutes
         'ga4-demographics': parseInt(process.env.CACHE_GA4_DEMOGRAPHICS_TTL || '1800000'), // 30 minutes
         'ga4-conversions': parseInt(process.env.CACHE_GA4_CONVERSIONS_TTL || '1200000'), // 20 minutes
+        'ga4-metadata': parseInt(process.env.CACHE_GA4_METADATA_TTL || '86400000'), // 24 hours
         'health-check': parseInt(process.env.CACHE_HEALTH_TTL || '60000'), // 1 minute
         'auth-token': parseInt(process.env.CACHE_AUTH_TTL || '3300000'), // 55 minutes
       },
@@ -110,12 +182,14 @@ export class ProductionCache {
       persistenceInterval: parseInt(process.env.CACHE_PERSISTENCE_INTERVAL || '300000'), // 5 minutes
       
       enableCacheWarming: process.env.CACHE_WARMING === 'true',
-      warmingSchedule: (process.env.CACHE_WARMING_SCHEDULE || '0 */5 * * * *').split(','), // Every 5 minutes
+      warmingSchedule: (process.env.CACHE_WARMING_SCHEDULE || '0 30 7 * * 1-5').split(','), // Weekdays at 07:30
+      quotaReserve: parseFloat(process.env.CACHE_QUOTA_RESERVE || '20'),
       enableAnalytics: process.env.CACHE_ANALYTICS !== 'false',
       enableOptimization: process.env.CACHE_OPTIMIZATION !== 'false',
       
       enableDistributed: process.env.CACHE_DISTRIBUTED === 'true',
       distributedPrefix: process.env.CACHE_DISTRIBUTED_PREFIX || 'ga4-mcp-cache:',
+      redisUrl: process.env.CACHE_REDIS_URL || 'redis://127.0.0.1:6379',
       enableStaleWhileRevalidate: process.env.CACHE_STALE_WHILE_REVALIDATE !== 'false',
       staleTimeout: parseInt(process.env.CACHE_STALE_TIMEOUT || '60000'), // 1 minute
       
@@ -148,11 +222,21 @@ export class ProductionCache {
       }
     };
 
+    this.store = this.createStore();
+    this.ready = (this.store.load?.() || Promise.resolve()).catch(error => {
+      productionLogger.error('Cache backend failed to load', {
+        component: 'CACHE',
+        backend: this.store.kind,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
     this.initializeOptimizations();
 
     productionLogger.info('Production cache initialized', {
       component: 'CACHE',
       config: {
+        backend: this.store.kind,
         maxEntries: this.config.maxMemoryEntries,
         defaultTTL: this.config.defaultTTL,
         compression: this.config.enableCompression,
@@ -169,7 +253,8 @@ export class ProductionCache {
     const startTime = Date.now();
     
     try {
-      const entry = this.cache.get(key);
+      await this.ready;
+      const entry = await this.store.get(key);
       
       if (!entry) {
         this.recordMiss(key);
@@ -184,7 +269,6 @@ export class ProductionCache {
             now - entry.timestamp < entry.ttl + this.config.staleTimeout) {
           
           this.recordHit(key, true);
-          this.updateAccessOrder(key);
           this.updateKeyAnalytics(key);
           
           // Return stale data but trigger background refresh
@@ -200,7 +284,7 @@ export class ProductionCache {
         }
         
         // Expired and no stale policy
-        this.cache.delete(key);
+        await this.store.delete(key);
         this.metrics.ttl.expired++;
         this.recordMiss(key);
         return null;
@@ -211,7 +295,6 @@ export class ProductionCache {
       entry.lastAccessed = now;
       
       this.recordHit(key, false);
-      this.updateAccessOrder(key);
       this.updateKeyAnalytics(key);
 
       const data = await this.decompressData(entry);
@@ -237,21 +320,15 @@ export class ProductionCache {
   /**
    * Set cached data with intelligent optimization
    */
-  async set(key: string, data: any, options?: {
-    ttl?: number;
-    dataType?: string;
-    tags?: string[];
-    priority?: 'low' | 'medium' | 'high';
-  }): Promise<void> {
+  async set(key: string, data: any, options?: CacheSetOptions): Promise<void> {
     const startTime = Date.now();
     
     try {
       const dataType = options?.dataType || 'default';
       const ttl = options?.ttl || this.config.ttlStrategies[dataType] || this.config.defaultTTL;
       const tags = options?.tags || [];
-      
-      // Ensure we have space
-      await this.ensureCapacity(options?.priority || 'medium');
+
+      await this.ready;
 
       // Compress data if needed
       const { compressedData, compressed, size } = await this.compressData(data);
@@ -268,8 +345,11 @@ export class ProductionCache {
         tags
       };
 
-      this.cache.set(key, entry);
-      this.updateAccessOrder(key);
+      // The store makes room for the entry, evicting by priority and LRU where it can
+      await this.store.set(key, entry, options?.priority || 'medium');
+      if (options?.loader) {
+        this.registerLoader(key, { ...options, loader: options.loader });
+      }
       this.updateMetrics();
 
       const setTime = Date.now() - startTime;
@@ -299,10 +379,11 @@ export class ProductionCache {
   /**
    * Delete cache entry
    */
-  delete(key: string): boolean {
-    const deleted = this.cache.delete(key);
+  async delete(key: string): Promise<boolean> {
+    await this.ready;
+    this.loaders.delete(key);
+    const deleted = await this.store.delete(key);
     if (deleted) {
-      this.removeFromAccessOrder(key);
       this.updateMetrics();
     }
     return deleted;
@@ -311,23 +392,9 @@ export class ProductionCache {
   /**
    * Clear cache with optional pattern matching
    */
-  clear(pattern?: string): number {
-    let cleared = 0;
-    
-    if (pattern) {
-      const regex = new RegExp(pattern);
-      for (const key of this.cache.keys()) {
-        if (regex.test(key)) {
-          this.cache.delete(key);
-          this.removeFromAccessOrder(key);
-          cleared++;
-        }
-      }
-    } else {
-      cleared = this.cache.size;
-      this.cache.clear();
-      this.accessOrder = [];
-    }
+  async clear(pattern?: string): Promise<number> {
+    await this.ready;
+    const cleared = await this.store.clear(pattern ? new RegExp(pattern) : undefined);
 
     this.updateMetrics();
     
@@ -343,16 +410,9 @@ export class ProductionCache {
   /**
    * Clear cache entries by tags
    */
-  clearByTags(tags: string[]): number {
-    let cleared = 0;
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.tags.some(tag => tags.includes(tag))) {
-        this.cache.delete(key);
-        this.removeFromAccessOrder(key);
-        cleared++;
-      }
-    }
+  async clearByTags(tags: string[]): Promise<number> {
+    await this.ready;
+    const cleared = await this.store.deleteByTags(tags);
 
     this.updateMetrics();
     
@@ -374,6 +434,15 @@ export class ProductionCache {
     return { ...this.metrics };
   }
 
+  /**
+   * Get cache metrics after re-reading stats the backend cannot report synchronously
+   */
+  async refreshMetrics(): Promise<CacheMetrics> {
+    await this.ready;
+    await this.store.refreshStats?.();
+    return this.getMetrics();
+  }
+
   /**
    * Get cache health status
    */
@@ -424,14 +493,16 @@ export class ProductionCache {
       component: 'CACHE'
     });
 
+    await this.ready;
+
     // Remove expired entries
-    const expired = this.removeExpiredEntries();
+    const expired = await this.removeExpiredEntries();
     
     // Optimize TTL based on access patterns
     this.optimizeTTLStrategies();
     
     // Clean up cold data
-    const coldRemoved = this.removeColdData();
+    const coldRemoved = await this.removeColdData();
     
     // Update analytics
     this.updateAnalytics();
@@ -440,7 +511,7 @@ export class ProductionCache {
       component: 'CACHE',
       expiredRemoved: expired,
       coldDataRemoved: coldRemoved,
-      currentEntries: this.cache.size,
+      currentEntries: this.store.getStats().entries,
       hitRate: this.metrics.memory.hitRate
     });
   }
@@ -508,64 +579,14 @@ export class ProductionCache {
     }
   }
 
-  /**
-   * Ensure cache has capacity using LRU eviction
-   */
-  private async ensureCapacity(priority: 'low' | 'medium' | 'high'): Promise<void> {
-    if (this.cache.size < this.config.maxMemoryEntries) return;
-
-    const evictCount = Math.max(1, Math.floor(this.config.maxMemoryEntries * 0.1));
-    let evicted = 0;
-
-    // Evict based on priority and LRU
-    for (let i = 0; i < this.accessOrder.length && evicted < evictCount; i++) {
-      const key = this.accessOrder[i];
-      const entry = this.cache.get(key);
-      
-      if (entry) {
-        // Protect high-priority recent entries
-        const age = Date.now() - entry.lastAccessed;
-        if (priority === 'high' && age < 60000) continue; // Don't evict recent high-priority
-        
-        this.cache.delete(key);
-        this.removeFromAccessOrder(key);
-        evicted++;
-        this.metrics.memory.evictions++;
-      }
-    }
-
-    productionLogger.debug('Cache eviction completed', {
-      component: 'CACHE',
-      evicted,
-      remaining: this.cache.size
-    });
-  }
-
-  /**
-   * Update access order for LRU
-   */
-  private updateAccessOrder(key: string): void {
-    this.removeFromAccessOrder(key);
-    this.accessOrder.push(key);
-  }
-
-  /**
-   * Remove key from access order
-   */
-  private removeFromAccessOrder(key: string): void {
-    const index = this.accessOrder.indexOf(key);
-    if (index > -1) {
-      this.accessOrder.splice(index, 1);
-    }
-  }
-
   /**
    * Update cache metrics
    */
   private updateMetrics(): void {
-    this.metrics.memory.entries = this.cache.size;
-    this.metrics.memory.totalSize = Array.from(this.cache.values())
-      .reduce((total, entry) => total + entry.size, 0);
+    const stats = this.store.getStats();
+    this.metrics.memory.entries = stats.entries;
+    this.metrics.memory.totalSize = stats.totalSize;
+    this.metrics.memory.evictions = stats.evictions;
 
     // Calculate hit rate
     const totalRequests = this.analytics.size;
@@ -587,15 +608,11 @@ export class ProductionCache {
     }
 
     // Calculate compression ratio
-    const compressedEntries = Array.from(this.cache.values()).filter(e => e.compressed);
-    if (compressedEntries.length > 0) {
-      this.metrics.performance.compressionRatio = compressedEntries.length / this.cache.size;
+    if (stats.compressedEntries > 0) {
+      this.metrics.performance.compressionRatio = stats.compressedEntries / stats.entries;
     }
 
-    // Calculate near expiry entries
-    const now = Date.now();
-    this.metrics.ttl.nearExpiry = Array.from(this.cache.values())
-      .filter(entry => (now - entry.timestamp) > (entry.ttl * 0.8)).length;
+    this.metrics.ttl.nearExpiry = stats.nearExpiry;
   }
 
   /**
@@ -635,6 +652,7 @@ export class ProductionCache {
    */
   private recordHit(key: string, stale: boolean): void {
     this.updateKeyAnalytics(key);
+    cacheLookups.inc({ result: stale ? 'stale_hit' : 'hit' });
     
     performanceMonitor.incrementCounter('cache_hits_total', {
       type: 'memory',
@@ -646,6 +664,7 @@ export class ProductionCache {
    * Record cache miss
    */
   private recordMiss(key: string): void {
+    cacheLookups.inc({ result: 'miss' });
     performanceMonitor.incrementCounter('cache_misses_total', {
       type: 'memory'
     });
@@ -666,17 +685,9 @@ export class ProductionCache {
   /**
    * Remove expired entries
    */
-  private removeExpiredEntries(): number {
+  private async removeExpiredEntries(): Promise<number> {
     const now = Date.now();
-    let removed = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
-        this.removeFromAccessOrder(key);
-        removed++;
-      }
-    }
+    const removed = await this.store.sweep(entry => now - entry.timestamp > entry.ttl);
 
     this.metrics.ttl.expired += removed;
     return removed;
@@ -685,20 +696,11 @@ export class ProductionCache {
   /**
    * Remove cold (rarely accessed) data
    */
-  private removeColdData(): number {
+  private removeColdData(): Promise<number> {
     const now = Date.now();
     const coldThreshold = now - 1800000; // 30 minutes
-    let removed = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.lastAccessed < coldThreshold && entry.accessCount < 2) {
-        this.cache.delete(key);
-        this.removeFromAccessOrder(key);
-        removed++;
-      }
-    }
 
-    return removed;
+    return this.store.sweep(entry => entry.lastAccessed < coldThreshold && entry.accessCount < 2);
   }
 
   /**
@@ -722,13 +724,155 @@ export class ProductionCache {
    * Trigger background refresh for stale data
    */
   private triggerBackgroundRefresh(key: string, dataType?: string): void {
-    // This would typically trigger a refresh of the underlying data
-    // Implementation depends on the specific data source
+    const registration = this.loaders.get(key);
+    // Entries written by another replica, or before a restart, have no loader here
+    if (!registration || this.refreshes.has(key)) {
+      return;
+    }
+
+    if (!this.hasQuotaHeadroom()) {
+      backgroundRefreshes.inc({ outcome: 'skipped_quota' });
+      productionLogger.debug('Background refresh skipped, GA4 quota reserve reached', {
+        component: 'CACHE',
+        key: this.sanitizeKey(key),
+        quotaHeadroom: ga4MetricsCollector.getQuotaHeadroom()
+      });
+      return;
+    }
+
     productionLogger.debug('Background refresh triggered', {
       component: 'CACHE',
       key: this.sanitizeKey(key),
       dataType
     });
+
+    const refresh = registration.loader()
+      .then(async data => {
+        await this.set(key, data, registration);
+        backgroundRefreshes.inc({ outcome: 'refreshed' });
+      })
+      .catch(error => {
+        const quotaRefused = MCPErrorHandler.isMCPError(error) && error.code === ErrorCode.GA4_QUOTA_EXCEEDED;
+        backgroundRefreshes.inc({ outcome: quotaRefused ? 'skipped_quota' : 'failed' });
+        productionLogger.warn('Background refresh failed, serving stale data until it expires', {
+          component: 'CACHE',
+          key: this.sanitizeKey(key),
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      })
+      .finally(() => {
+        this.refreshes.delete(key);
+      });
+    this.refreshes.set(key, refresh);
+  }
+
+  /**
+   * Remember how to re-fetch an entry, keeping at most one loader per cached entry
+   */
+  private registerLoader(key: string, registration: CacheSetOptions & { loader: CacheLoader }): void {
+    this.loaders.delete(key);
+    this.loaders.set(key, registration);
+
+    // Oldest registrations go first; their entries are the likeliest to be gone
+    while (this.loaders.size > this.config.maxMemoryEntries) {
+      this.loaders.delete(this.loaders.keys().next().value!);
+    }
+  }
+
+  /**
+   * Whether background GA4 work (refreshes, warming) may spend quota
+   */
+  hasQuotaHeadroom(): boolean {
+    return ga4MetricsCollector.getQuotaHeadroom() > this.config.quotaReserve;
+  }
+
+  /**
+   * Wait for background refreshes in flight
+   */
+  async settleRefreshes(): Promise<void> {
+    await Promise.all(this.refreshes.values());
+  }
+
+  /**
+   * Run a warming task on the configured cron schedule
+   *
+   * Runs are skipped while the GA4 quota is within its reserve. Returns
+   * false when warming is disabled or no schedule is valid.
+   */
+  scheduleWarming(name: string, task: () => Promise<void>): boolean {
+    if (!this.config.enableCacheWarming) {
+      return false;
+    }
+
+    const schedules: CronSchedule[] = [];
+    for (const expression of this.config.warmingSchedule) {
+      try {
+        schedules.push(new CronSchedule(expression));
+      } catch (error) {
+        productionLogger.error('Invalid cache warming schedule', {
+          component: 'CACHE',
+          expression,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+    if (schedules.length === 0) {
+      return false;
+    }
+
+    const arm = () => {
+      const now = new Date();
+      const nextRun = Math.min(...schedules.map(schedule => schedule.next(now).getTime()));
+      // setTimeout holds at most ~24.8 days; longer waits re-arm on the way
+      const timer = setTimeout(() => {
+        if (Date.now() < nextRun) {
+          arm();
+          return;
+        }
+        this.runWarmingTask(name, task).finally(() => {
+          // Not re-armed once shutdown has cleared the task
+          if (this.warmingTasks.get(name) === timer) {
+            arm();
+          }
+        });
+      }, Math.min(nextRun - now.getTime(), 2 ** 31 - 1));
+      timer.unref();
+      this.warmingTasks.set(name, timer);
+    };
+
+    const previous = this.warmingTasks.get(name);
+    if (previous) {
+      clearTimeout(previous);
+    }
+    arm();
+
+    productionLogger.info('Cache warming scheduled', {
+      component: 'CACHE',
+      task: name,
+      schedule: schedules.map(schedule => schedule.expression)
+    });
+    return true;
+  }
+
+  private async runWarmingTask(name: string, task: () => Promise<void>): Promise<void> {
+    if (!this.hasQuotaHeadroom()) {
+      productionLogger.info('Cache warming skipped, GA4 quota reserve reached', {
+        component: 'CACHE',
+        task: name,
+        quotaHeadroom: ga4MetricsCollector.getQuotaHeadroom()
+      });
+      return;
+    }
+
+    try {
+      await task();
+    } catch (error) {
+      productionLogger.error('Cache warming failed', {
+        component: 'CACHE',
+        task: name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   }
 
   /**
@@ -736,14 +880,60 @@ export class ProductionCache {
    */
   private initializeOptimizations(): void {
     // Regular optimization
-    setInterval(() => {
-      this.optimize();
-    }, 300000); // Every 5 minutes
+    this.maintenanceTimers.push(setInterval(() => {
+      this.optimize().catch(error => this.logMaintenanceError('optimization', error));
+    }, 300000)); // Every 5 minutes
 
     // Metrics update
-    setInterval(() => {
-      this.updateMetrics();
-    }, 60000); // Every minute
+    this.maintenanceTimers.push(setInterval(() => {
+      this.refreshMetrics().catch(error => this.logMaintenanceError('metrics refresh', error));
+    }, 60000)); // Every minute
+  }
+
+  private logMaintenanceError(task: string, error: unknown): void {
+    productionLogger.warn(`Cache ${task} failed`, {
+      component: 'CACHE',
+      backend: this.store.kind,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+
+  /**
+   * Create the storage backend selected by the config
+   */
+  private createStore(): CacheStore {
+    const options = {
+      maxEntries: this.config.maxMemoryEntries,
+      retentionGraceMs: this.config.enableStaleWhileRevalidate ? this.config.staleTimeout : 0,
+    };
+
+    if (this.config.enableDistributed) {
+      return new RedisCacheStore({
+        ...options,
+        url: this.config.redisUrl,
+        prefix: this.config.distributedPrefix,
+        // Tag sets must outlive the longest-lived entry they point to
+        tagRetentionMs: Math.max(this.config.defaultTTL, ...Object.values(this.config.ttlStrategies)) +
+          options.retentionGraceMs,
+      });
+    }
+
+    if (this.config.enablePersistence && this.config.persistenceFile) {
+      return new FileSnapshotCacheStore({
+        ...options,
+        file: this.config.persistenceFile,
+        flushIntervalMs: this.config.persistenceInterval,
+      });
+    }
+
+    return new MemoryCacheStore(options);
+  }
+
+  /**
+   * Storage backend in use
+   */
+  getBackend(): CacheBackendKind {
+    return this.store.kind;
   }
 
   /**
@@ -772,6 +962,11 @@ export class ProductionCache {
     }
     this.warmingTasks.clear();
 
+    for (const timer of this.maintenanceTimers) {
+      clearInterval(timer);
+    }
+    this.maintenanceTimers = [];
+
     // Final metrics
     const finalMetrics = this.getMetrics();
     
@@ -785,9 +980,11 @@ export class ProductionCache {
       }
     });
 
-    // Clear cache
-    this.cache.clear();
-    this.accessOrder = [];
+    // Flush persistent stores; shared ones keep their entries for other replicas
+    await this.ready;
+    await this.settleRefreshes();
+    this.loaders.clear();
+    await this.store.close();
     this.analytics.clear();
   }
 }
@@ -5,9 +5,10 @@
  * for protecting the GA4 MCP server from abuse and ensuring fair resource usage.
  */
 
-import { logger as productionLogger } from './productionLogger.js';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { errorTracker, ErrorSeverity, ErrorType } from './errorTracking.js';
 import { performanceMonitor } from './performanceMetrics.js';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
 
 export interface RateLimitConfig {
   windowMs: number;           // Time window in milliseconds
@@ -579,6 +580,49 @@ export class RateLimitingSecurity {
 // Global rate limiting instance
 let globalRateLimiter: RateLimitingSecurity | null = null;
 
+const THREAT_LEVELS: Array<SecurityMetrics['ddos']['currentThreatLevel']> = ['low', 'medium', 'high', 'critical'];
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_blocked_ips',
+  help: 'Clients (IP addresses or bridge identities) currently blocked by rate limiting',
+  collect: gauge => {
+    if (globalRateLimiter) gauge.set({}, globalRateLimiter.getMetrics().rateLimit.currentlyBlocked);
+  },
+});
+
+metricsRegistry.counter({
+  name: 'ga4_mcp_rate_limit_requests',
+  help: 'Requests checked by rate limiting, by outcome (allowed or blocked)',
+  labelNames: ['outcome'],
+  collect: counter => {
+    if (!globalRateLimiter) return;
+    const { totalRequests, blockedRequests } = globalRateLimiter.getMetrics();
+    counter.set({ outcome: 'allowed' }, Math.max(0, totalRequests - blockedRequests));
+    counter.set({ outcome: 'blocked' }, blockedRequests);
+  },
+});
+
+metricsRegistry.counter({
+  name: 'ga4_mcp_rate_limit_violations',
+  help: 'Requests that exceeded a rate limit window',
+  collect: counter => {
+    if (globalRateLimiter) counter.set({}, globalRateLimiter.getMetrics().rateLimit.violations);
+  },
+});
+
+metricsRegistry.gauge({
+  name: 'ga4_mcp_ddos_threat_level',
+  help: 'Current DDoS threat level; the series for the active level is 1',
+  labelNames: ['level'],
+  collect: gauge => {
+    if (!globalRateLimiter) return;
+    const current = globalRateLimiter.getMetrics().ddos.currentThreatLevel;
+    for (const level of THREAT_LEVELS) {
+      gauge.set({ level }, level === current ? 1 : 0);
+    }
+  },
+});
+
 /**
  * Initialize global rate limiting
  */
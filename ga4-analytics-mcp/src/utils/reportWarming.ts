@@ -0,0 +1,81 @@
+/**
+ * GA4 Report Cache Warming
+ *
+ * Re-runs the most used report requests (from the usage patterns of the
+ * GA4 metrics collector) so they are cached before users ask for them.
+ * Requests are replayed with their original options, so they land on the
+ * same cache keys the tools read.
+ */
+
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { ga4MetricsCollector, GA4UsagePattern, CACHE_WARMING_TOOL } from './ga4MetricsCollector.js';
+import type { GA4DataClient } from './ga4DataClient.js';
+
+export interface ReportWarmingOptions {
+  resolveClient: (propertyId: string) => GA4DataClient;
+  hasQuotaHeadroom: () => boolean;
+  maxReports: number;
+  patterns?: GA4UsagePattern[]; // Defaults to the collector's current patterns
+}
+
+export interface ReportWarmingResult {
+  warmed: number;
+  failed: number;
+  stoppedForQuota: boolean;
+}
+
+const warmedReports = metricsRegistry.counter({
+  name: 'ga4_mcp_cache_warmed_reports',
+  help: 'Reports run by cache warming, by outcome (warmed or failed)',
+  labelNames: ['outcome'],
+});
+
+/**
+ * Run the most frequent report requests through the data clients
+ *
+ * Stops early once the quota headroom is used up; reports already cached
+ * and fresh are served from the cache without a GA4 call.
+ */
+export async function warmFrequentReports(options: ReportWarmingOptions): Promise<ReportWarmingResult> {
+  const patterns = options.patterns || ga4MetricsCollector.getUsagePatterns();
+  const requests = patterns
+    .flatMap(pattern => pattern.requests)
+    .slice(0, options.maxReports);
+  const result: ReportWarmingResult = { warmed: 0, failed: 0, stoppedForQuota: false };
+
+  for (const request of requests) {
+    if (!options.hasQuotaHeadroom()) {
+      result.stoppedForQuota = true;
+      break;
+    }
+
+    try {
+      await options.resolveClient(request.propertyId).runReport(request, { tool: CACHE_WARMING_TOOL });
+      result.warmed++;
+      warmedReports.inc({ outcome: 'warmed' });
+    } catch (error) {
+      // The quota guard keeps the rest of the quota for interactive requests
+      if (MCPErrorHandler.isMCPError(error) && error.code === ErrorCode.GA4_QUOTA_EXCEEDED) {
+        result.stoppedForQuota = true;
+        break;
+      }
+      result.failed++;
+      warmedReports.inc({ outcome: 'failed' });
+      productionLogger.warn('Cache warming report failed', {
+        component: 'CACHE',
+        propertyId: request.propertyId,
+        metrics: request.metrics,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  productionLogger.info('Cache warming completed', {
+    component: 'CACHE',
+    candidates: requests.length,
+    ...result
+  });
+  return result;
+}
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { logger, setCorrelationId, getCorrelationId, LogContext, sanitizeLogData } from './productionLogger.js';
+import { logger, setCorrelationId, getCorrelationId, LogContext, sanitizeLogData } from '@ai-ad-manager/mcp-shared/productionLogger';
 
 // Extended Express Request interface for correlation ID
 declare global {
@@ -208,7 +208,7 @@ export function ga4RequestLoggingMiddleware(endpoint: string, params: any) {
   const startTime = Date.now();
   
   // Log GA4 API request
-  logger.logGA4Request(endpoint, params, {
+  logger.logApiRequest('GA4', endpoint, params, {
     correlationId,
     timestamp: new Date().toISOString(),
   });
@@ -218,7 +218,7 @@ export function ga4RequestLoggingMiddleware(endpoint: string, params: any) {
     startTime,
     logSuccess: (response: any) => {
       const duration = Date.now() - startTime;
-      logger.logGA4Response(endpoint, true, duration, {
+      logger.logApiResponse('GA4', endpoint, true, duration, {
         correlationId,
         responseSize: JSON.stringify(response).length,
         fromCache: response.requestInfo?.fromCache || false,
@@ -226,7 +226,7 @@ export function ga4RequestLoggingMiddleware(endpoint: string, params: any) {
     },
     logError: (error: Error) => {
       const duration = Date.now() - startTime;
-      logger.logGA4Response(endpoint, false, duration, {
+      logger.logApiResponse('GA4', endpoint, false, duration, {
         correlationId,
         error: {
           name: error.name,
@@ -5,9 +5,11 @@
  * for all MCP tool requests to prevent injection attacks and ensure data integrity.
  */
 
-import { logger as productionLogger } from './productionLogger.js';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
 import { errorTracker, ErrorType, ErrorSeverity } from './errorTracking.js';
 import { performanceMonitor } from './performanceMetrics.js';
+import type { GA4PropertyMetadata } from './ga4DataClient.js';
+import { validateFilterExpression } from './ga4Filters.js';
 
 export interface ValidationRule {
   required?: boolean;
@@ -203,6 +205,95 @@ export class RequestValidator {
     }
   }
 
+  /**
+   * Check report metric and dimension names against a property's metadata
+   */
+  validateReportFields(
+    toolName: string,
+    fields: { metrics?: string[]; dimensions?: string[] },
+    metadata: GA4PropertyMetadata
+  ): ValidationResult {
+    const result: ValidationResult = {
+      isValid: true,
+      errors: [],
+      warnings: []
+    };
+
+    const checks: Array<['metric' | 'dimension', string[] | undefined, string[]]> = [
+      ['metric', fields.metrics, metadata.metrics.map(field => field.apiName)],
+      ['dimension', fields.dimensions, metadata.dimensions.map(field => field.apiName)]
+    ];
+
+    for (const [kind, requested, known] of checks) {
+      const knownNames = new Set(known);
+
+      for (const name of requested || []) {
+        if (knownNames.has(name)) {
+          continue;
+        }
+
+        const suggestion = this.findClosestName(name, known);
+        result.errors.push(
+          `Unknown ${kind} "${name}" for property ${metadata.propertyId}` +
+          (suggestion ? `. Did you mean "${suggestion}"?` : '')
+        );
+        result.isValid = false;
+      }
+    }
+
+    if (!result.isValid) {
+      this.validationMetrics.failedValidations++;
+
+      productionLogger.warn('Report field validation failed', {
+        component: 'VALIDATION',
+        toolName,
+        propertyId: metadata.propertyId,
+        errors: result.errors
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the closest known name by edit distance (case-insensitive)
+   */
+  private findClosestName(name: string, candidates: string[]): string | undefined {
+    const target = name.toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(target.length / 3));
+    let best: { name: string; distance: number } | undefined;
+
+    for (const candidate of candidates) {
+      const distance = this.editDistance(target, candidate.toLowerCase());
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { name: candidate, distance };
+      }
+    }
+
+    return best?.name;
+  }
+
+  /**
+   * Levenshtein distance between two strings
+   */
+  private editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
   /**
    * Validate individual field
    */
@@ -527,24 +618,22 @@ export class RequestValidator {
 export const GA4_VALIDATION_SCHEMAS = {
   query_analytics: {
     propertyId: {
-      required: true,
       type: 'string' as const,
-      pattern: /^\d+$/,
-      description: 'GA4 Property ID (numeric string)',
-      sanitize: true
+      pattern: /^(properties\/)?\d+$/,
+      description: 'GA4 Property ID (numeric string, defaults to the configured property)'
     },
     startDate: {
       required: true,
       type: 'string' as const,
-      pattern: /^\d{4}-\d{2}-\d{2}$/,
-      description: 'Start date in YYYY-MM-DD format',
+      pattern: /^(\d{4}-\d{2}-\d{2}|today|yesterday|\d+daysAgo)$/,
+      description: 'Start date in YYYY-MM-DD format or relative (today, yesterday, NdaysAgo)',
       sanitize: true
     },
     endDate: {
       required: true,
       type: 'string' as const,
-      pattern: /^\d{4}-\d{2}-\d{2}$/,
-      description: 'End date in YYYY-MM-DD format',
+      pattern: /^(\d{4}-\d{2}-\d{2}|today|yesterday|\d+daysAgo)$/,
+      description: 'End date in YYYY-MM-DD format or relative (today, yesterday, NdaysAgo)',
       sanitize: true
     },
     metrics: {
@@ -567,6 +656,26 @@ export const GA4_VALIDATION_SCHEMAS = {
       min: 1,
       max: 100000,
       description: 'Maximum number of results to return'
+    },
+    paginate: {
+      type: 'boolean' as const,
+      description: 'Return a continuation cursor with the first page'
+    },
+    dimensionFilter: {
+      type: 'object' as const,
+      description: 'Filter expression over dimensions (and / or / not groups of field filters)',
+      customValidator: (value: any) => {
+        const errors = validateFilterExpression(value, 'dimensionFilter');
+        return { isValid: errors.length === 0, errors };
+      }
+    },
+    metricFilter: {
+      type: 'object' as const,
+      description: 'Filter expression over metrics (and / or / not groups of field filters)',
+      customValidator: (value: any) => {
+        const errors = validateFilterExpression(value, 'metricFilter');
+        return { isValid: errors.length === 0, errors };
+      }
     }
   },
 
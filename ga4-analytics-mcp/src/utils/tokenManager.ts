@@ -5,9 +5,9 @@
  * credential rotation, and recovery mechanisms.
  */
 
-import { logger } from './logger.js';
-import { MCPErrorHandler, ErrorCode } from './errorHandler.js';
-import type { GoogleAuth } from 'google-auth-library';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { GoogleAuth } from 'google-gax';
 import type { BetaAnalyticsDataClient } from '@google-analytics/data';
 
 export interface TokenInfo {
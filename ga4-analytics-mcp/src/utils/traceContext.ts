@@ -0,0 +1,76 @@
+/**
+ * W3C Trace Context
+ *
+ * Parses and formats `traceparent` headers and carries the active span
+ * through async calls, so spans started deeper in a request (tool calls,
+ * GA4 API calls) join the trace of the request that caused them.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+export interface TraceContext {
+  traceId: string;   // 32 lowercase hex characters
+  spanId: string;    // 16 lowercase hex characters
+  sampled: boolean;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+const traceContextStorage = new AsyncLocalStorage<TraceContext>();
+
+/**
+ * Parse a traceparent header; invalid or unsupported values yield undefined
+ */
+export function parseTraceparent(header: string | string[] | undefined): TraceContext | undefined {
+  if (typeof header !== 'string') {
+    return undefined;
+  }
+
+  const match = TRACEPARENT.exec(header.trim().toLowerCase());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden, and version 00 allows no trailing fields
+  if (version === 'ff' || (version === '00' && rest !== undefined)) {
+    return undefined;
+  }
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Format a context as a version 00 traceparent header
+ */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Span context active in the current async call chain, if any
+ */
+export function getActiveTraceContext(): TraceContext | undefined {
+  return traceContextStorage.getStore();
+}
+
+/**
+ * Run a function with a span context active for everything it awaits
+ */
+export function runWithTraceContext<T>(context: TraceContext, fn: () => T): T {
+  return traceContextStorage.run(context, fn);
+}
@@ -0,0 +1,200 @@
+/**
+ * HTTP MCP bridge authentication tests with locally minted API keys and JWTs
+ *
+ * Run after `npm run build`: node test-bridge-auth.cjs
+ */
+
+const assert = require('assert');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+console.log('🧪 HTTP MCP BRIDGE AUTH: API keys and JWTs');
+console.log('==========================================\n');
+
+function base64url(value) {
+  return Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+}
+
+function signHS256(claims, secret, header = { alg: 'HS256', typ: 'JWT' }) {
+  const input = `${base64url(header)}.${base64url(claims)}`;
+  return `${input}.${crypto.createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+function signRS256(claims, privateKey, kid) {
+  const input = `${base64url({ alg: 'RS256', typ: 'JWT', kid })}.${base64url(claims)}`;
+  return `${input}.${crypto.sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+}
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const {
+    ApiKeyAuthenticator, JwtAuthenticator, createBridgeAuthenticator, loadBridgeAuthConfig, hasScope,
+  } = await import('./dist/utils/bridgeAuth.js');
+  const { startHttpMcpBridge } = await import('./dist/utils/httpMcpBridge.js');
+  const { GA4DataClientRegistry } = await import('./dist/utils/ga4DataClient.js');
+
+  const SECRET = 'local-test-secret';
+
+  test('API keys resolve to scoped identities with property allow-lists', async () => {
+    const auth = new ApiKeyAuthenticator([
+      { id: 'dashboard', key: 'dash-key', scopes: ['api'], propertyIds: ['properties/111'] },
+      { id: 'agent', keySha256: crypto.createHash('sha256').update('agent-key').digest('hex') },
+    ]);
+
+    const dashboard = auth.authenticate({ authorization: 'Bearer dash-key' });
+    assert.strictEqual(dashboard.id, 'api-key:dashboard');
+    assert.deepStrictEqual(dashboard.allowedPropertyIds, ['111']);
+    assert.ok(hasScope(dashboard, 'api'));
+    assert.ok(!hasScope(dashboard, 'mcp'));
+
+    const agent = auth.authenticate({ 'x-api-key': 'agent-key' });
+    assert.strictEqual(agent.id, 'api-key:agent');
+    assert.ok(hasScope(agent, 'mcp'));
+
+    assert.throws(() => auth.authenticate({}), error => error.code === 'AUTH_FAILED');
+    assert.throws(() => auth.authenticate({ 'x-api-key': 'nope' }), error => error.code === 'CREDENTIALS_INVALID');
+  });
+
+  test('HS256 tokens carry subject, scopes and properties', async () => {
+    const auth = new JwtAuthenticator({ algorithm: 'HS256', secret: SECRET, issuer: 'ads-manager', audience: 'ga4-bridge' });
+    const token = signHS256({
+      sub: 'user-42', iss: 'ads-manager', aud: ['ga4-bridge'], exp: nowSeconds() + 60,
+      scope: 'api mcp', ga4_properties: ['222'],
+    }, SECRET);
+
+    const identity = auth.authenticate({ authorization: `Bearer ${token}` });
+    assert.strictEqual(identity.id, 'jwt:user-42');
+    assert.strictEqual(identity.authMethod, 'jwt');
+    assert.deepStrictEqual(identity.scopes, ['api', 'mcp']);
+    assert.deepStrictEqual(identity.allowedPropertyIds, ['222']);
+  });
+
+  test('HS256 tokens that are expired, forged or for another audience are rejected', async () => {
+    const auth = new JwtAuthenticator({ algorithm: 'HS256', secret: SECRET, audience: 'ga4-bridge' });
+    const claims = { sub: 'user-42', aud: 'ga4-bridge', exp: nowSeconds() + 60 };
+    const bearer = token => ({ authorization: `Bearer ${token}` });
+
+    assert.throws(
+      () => auth.authenticate(bearer(signHS256({ ...claims, exp: nowSeconds() - 120 }, SECRET))),
+      error => error.code === 'TOKEN_EXPIRED'
+    );
+    assert.throws(
+      () => auth.authenticate(bearer(signHS256(claims, 'wrong-secret'))),
+      error => error.code === 'CREDENTIALS_INVALID' && /signature/.test(error.message)
+    );
+    assert.throws(
+      () => auth.authenticate(bearer(signHS256({ ...claims, aud: 'other' }, SECRET))),
+      error => /audience/.test(error.message)
+    );
+    assert.throws(
+      () => auth.authenticate(bearer(signHS256(claims, SECRET, { alg: 'none', typ: 'JWT' }))),
+      error => /HS256/.test(error.message)
+    );
+    assert.throws(() => auth.authenticate(bearer('not-a-jwt')), error => error.code === 'CREDENTIALS_INVALID');
+  });
+
+  test('RS256 tokens are verified against a JWKS file', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwksFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-jwks-')), 'jwks.json');
+    fs.writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1' }] }));
+
+    try {
+      const auth = createBridgeAuthenticator(loadBridgeAuthConfig({ MCP_BRIDGE_JWT_JWKS_FILE: jwksFile }));
+      assert.strictEqual(auth.mode, 'jwt');
+
+      const claims = { sub: 'svc', exp: nowSeconds() + 60, scopes: ['mcp'] };
+      const identity = auth.authenticate({ authorization: `Bearer ${signRS256(claims, privateKey, 'k1')}` });
+      assert.strictEqual(identity.id, 'jwt:svc');
+      assert.deepStrictEqual(identity.scopes, ['mcp']);
+
+      assert.throws(
+        () => auth.authenticate({ authorization: `Bearer ${signRS256(claims, other.privateKey, 'k1')}` }),
+        error => error.code === 'CREDENTIALS_INVALID'
+      );
+      // An HS256 token signed with the public key must not pass as RS256
+      const publicPem = publicKey.export({ format: 'pem', type: 'spki' });
+      assert.throws(
+        () => auth.authenticate({ authorization: `Bearer ${signHS256(claims, publicPem)}` }),
+        error => /RS256/.test(error.message)
+      );
+    } finally {
+      fs.rmSync(path.dirname(jwksFile), { recursive: true, force: true });
+    }
+  });
+
+  test('bridge enforces credentials, scopes and property allow-lists per caller', async () => {
+    const registry = new GA4DataClientRegistry({ allowedPropertyIds: ['111', '222'] });
+    const calls = [];
+    const handlers = new Map([
+      ['query_analytics', async (args, caller) => {
+        registry.resolvePropertyId(args.propertyId, caller && caller.allowedPropertyIds);
+        calls.push({ propertyId: args.propertyId, callerId: caller && caller.id });
+        return { rows: [], totals: { sessions: 7 } };
+      }],
+    ]);
+    const auth = new ApiKeyAuthenticator([
+      { id: 'dashboard', key: 'dash-key', scopes: ['api'], propertyIds: ['111'] },
+      { id: 'agent', key: 'agent-key', scopes: ['mcp'] },
+    ]);
+    const bridge = await startHttpMcpBridge({}, handlers, { port: 0, host: '127.0.0.1', auth });
+    const baseUrl = `http://127.0.0.1:${bridge.server.address().port}`;
+    const get = (route, key) => fetch(`${baseUrl}${route}`, { headers: key ? { 'x-api-key': key } : {} });
+
+    try {
+      assert.strictEqual((await get('/health')).status, 200);
+
+      const anonymous = await get('/api/ga4/sessions/111');
+      assert.strictEqual(anonymous.status, 401);
+      assert.strictEqual(anonymous.headers.get('www-authenticate'), 'Bearer');
+
+      const allowed = await get('/api/ga4/sessions/111', 'dash-key');
+      assert.strictEqual(allowed.status, 200);
+      assert.strictEqual((await allowed.json()).data.sessions, 7);
+      assert.deepStrictEqual(calls, [{ propertyId: '111', callerId: 'api-key:dashboard' }]);
+
+      assert.strictEqual((await get('/api/ga4/sessions/222', 'dash-key')).status, 403);
+      assert.strictEqual((await get('/api/ga4/sessions/111', 'agent-key')).status, 403);
+
+      const rpc = await fetch(`${baseUrl}/mcp/rpc`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-api-key': 'agent-key' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'query_analytics', arguments: { propertyId: '222' } } }),
+      });
+      assert.strictEqual(rpc.status, 200);
+      assert.strictEqual(calls[1].callerId, 'api-key:agent');
+    } finally {
+      await bridge.stop();
+    }
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * HTTP MCP bridge JSON-RPC 2.0 tests for /mcp/rpc
+ *
+ * Run after `npm run build`: node test-bridge-rpc.cjs
+ */
+
+const assert = require('assert');
+
+console.log('🧪 HTTP MCP BRIDGE RPC: JSON-RPC 2.0 on /mcp/rpc');
+console.log('================================================\n');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { startHttpMcpBridge } = await import('./dist/utils/httpMcpBridge.js');
+  const { GA4DataClientRegistry } = await import('./dist/utils/ga4DataClient.js');
+  const { MCPErrorHandler } = await import('@ai-ad-manager/mcp-shared/errorHandler');
+
+  const registry = new GA4DataClientRegistry({ allowedPropertyIds: ['111'] });
+  const handlers = new Map([
+    ['query_analytics', async (args, caller) => {
+      registry.resolvePropertyId(args.propertyId, caller && caller.allowedPropertyIds);
+      return { totals: { sessions: 7 } };
+    }],
+    ['get_metadata', async () => {
+      throw MCPErrorHandler.invalidToolParams('get_metadata', { type: 'bogus' });
+    }],
+  ]);
+  const bridge = await startHttpMcpBridge({}, handlers, {
+    port: 0,
+    host: '127.0.0.1',
+    toolDefinitions: [{ name: 'query_analytics', description: 'Query', inputSchema: { type: 'object' } }],
+    listResources: () => [{ uri: 'ga4://111/metadata/metrics', name: 'GA4 111 metrics' }],
+  });
+  const url = `http://127.0.0.1:${bridge.server.address().port}/mcp/rpc`;
+
+  async function rpc(body, contentType = 'application/json') {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': contentType },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    return { status: response.status, body: response.status === 204 ? undefined : await response.json() };
+  }
+
+  test('tools/call returns content blocks under the request id', async () => {
+    const { status, body } = await rpc({
+      jsonrpc: '2.0', id: 'a1', method: 'tools/call',
+      params: { name: 'query_analytics', arguments: { propertyId: '111' } },
+    });
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.jsonrpc, '2.0');
+    assert.strictEqual(body.id, 'a1');
+    assert.strictEqual(body.result.content[0].type, 'text');
+    assert.deepStrictEqual(JSON.parse(body.result.content[0].text), { totals: { sessions: 7 } });
+  });
+
+  test('tools/list, resources/list and ping answer', async () => {
+    assert.deepStrictEqual((await rpc({ jsonrpc: '2.0', id: 1, method: 'ping' })).body, { jsonrpc: '2.0', id: 1, result: {} });
+    const tools = (await rpc({ jsonrpc: '2.0', id: 2, method: 'tools/list' })).body.result.tools;
+    assert.deepStrictEqual(tools.map(tool => tool.name), ['query_analytics']);
+    const resources = (await rpc({ jsonrpc: '2.0', id: 3, method: 'resources/list' })).body.result.resources;
+    assert.strictEqual(resources[0].uri, 'ga4://111/metadata/metrics');
+  });
+
+  test('batches answer every request in the batch and skip notifications', async () => {
+    const { status, body } = await rpc([
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'nope' },
+      { foo: 'bar' },
+    ]);
+    assert.strictEqual(status, 200);
+    assert.deepStrictEqual(body.map(response => response.id), [1, 2, null]);
+    assert.strictEqual(body[1].error.code, -32601);
+    assert.strictEqual(body[2].error.code, -32600);
+
+    assert.strictEqual((await rpc({ jsonrpc: '2.0', method: 'notifications/cancelled', params: {} })).status, 204);
+    assert.strictEqual((await rpc([])).body.error.code, -32600);
+  });
+
+  test('malformed bodies and handler errors become JSON-RPC errors', async () => {
+    assert.deepStrictEqual((await rpc('{"jsonrpc": "2.0",')).body, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    assert.strictEqual((await rpc('not json', 'text/plain')).body.error.code, -32700);
+    assert.strictEqual((await rpc({ jsonrpc: '1.0', id: 1, method: 'ping' })).body.error.code, -32600);
+
+    const unknownTool = await rpc({ jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'missing' } });
+    assert.strictEqual(unknownTool.body.error.code, -32602);
+
+    const invalidArgs = await rpc({ jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 'get_metadata', arguments: {} } });
+    assert.strictEqual(invalidArgs.status, 200);
+    assert.strictEqual(invalidArgs.body.error.code, -32602);
+    assert.strictEqual(invalidArgs.body.error.data.code, 'INVALID_TOOL_PARAMS');
+
+    const denied = await rpc({ jsonrpc: '2.0', id: 6, method: 'tools/call', params: { name: 'query_analytics', arguments: { propertyId: '999' } } });
+    assert.strictEqual(denied.body.error.code, -32000);
+    assert.strictEqual(denied.body.error.data.code, 'GA4_PROPERTY_ACCESS_DENIED');
+  });
+
+  let failed = 0;
+  try {
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`  ✅ ${name}`);
+      } catch (error) {
+        failed++;
+        console.log(`  ❌ ${name}`);
+        console.log(`     ${error && error.message}`);
+      }
+    }
+  } finally {
+    await bridge.stop();
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,205 @@
+/**
+ * HTTP MCP bridge Streamable HTTP session tests: session IDs, resumable
+ * SSE streams, idle expiry and explicit deletion
+ *
+ * Run after `npm run build`: node test-bridge-sessions.cjs
+ */
+
+const assert = require('assert');
+const { Server } = require('@modelcontextprotocol/sdk/server/index.js');
+const { Client } = require('@modelcontextprotocol/sdk/client/index.js');
+const { StreamableHTTPClientTransport } = require('@modelcontextprotocol/sdk/client/streamableHttp.js');
+const { ListToolsRequestSchema, CallToolRequestSchema } = require('@modelcontextprotocol/sdk/types.js');
+
+console.log('🧪 HTTP MCP BRIDGE SESSIONS: Streamable HTTP transport');
+console.log('=====================================================\n');
+
+const ACCEPT = 'application/json, text/event-stream';
+
+// Each SSE event as { id, data }
+function parseSSE(text) {
+  return text.split('\n\n').filter(Boolean).map(block => {
+    const event = {};
+    for (const line of block.split('\n')) {
+      const [field, ...rest] = line.split(': ');
+      if (field === 'id') event.id = rest.join(': ');
+      if (field === 'data') event.data = JSON.parse(rest.join(': '));
+    }
+    return event;
+  }).filter(event => event.data);
+}
+
+// Read an open SSE stream until an event matches, then drop the connection
+async function readUntil(response, predicate) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return parseSSE(text);
+    }
+    text += decoder.decode(value, { stream: true });
+    const events = parseSSE(text.slice(0, text.lastIndexOf('\n\n') + 2));
+    if (events.some(predicate)) {
+      await reader.cancel();
+      return events;
+    }
+  }
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { startHttpMcpBridge } = await import('./dist/utils/httpMcpBridge.js');
+  const { ApiKeyAuthenticator, callerFromAuthInfo } = await import('./dist/utils/bridgeAuth.js');
+
+  // A protocol server whose only tool reports progress, then echoes the caller
+  function createSessionServer() {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {}, logging: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'whoami', inputSchema: { type: 'object', properties: {} } }],
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      await extra.sendNotification({ method: 'notifications/message', params: { level: 'info', data: 'working' } });
+      const caller = callerFromAuthInfo(extra.authInfo);
+      return { content: [{ type: 'text', text: JSON.stringify(caller) }] };
+    });
+    return server;
+  }
+
+  async function withBridge(options, fn) {
+    const auth = new ApiKeyAuthenticator([
+      { id: 'agent', key: 'agent-key', scopes: ['mcp'], propertyIds: ['111'] },
+      { id: 'other', key: 'other-key', scopes: ['mcp'] },
+    ]);
+    const bridge = await startHttpMcpBridge({}, new Map(), { port: 0, host: '127.0.0.1', auth, createSessionServer, ...options });
+    const url = `http://127.0.0.1:${bridge.server.address().port}/mcp`;
+    try {
+      await fn(url);
+    } finally {
+      await bridge.stop();
+    }
+  }
+
+  function post(url, body, { key = 'agent-key', sessionId } = {}) {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: ACCEPT,
+        'x-api-key': key,
+        ...(sessionId && { 'mcp-session-id': sessionId }),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function initialize(url) {
+    const response = await post(url, {
+      jsonrpc: '2.0', id: 1, method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+    });
+    assert.strictEqual(response.status, 200);
+    await response.text();
+    const sessionId = response.headers.get('mcp-session-id');
+    assert.ok(sessionId);
+    return sessionId;
+  }
+
+  test('SDK client connects, lists tools and calls them as the authenticated caller', async () => {
+    await withBridge({}, async url => {
+      const transport = new StreamableHTTPClientTransport(new URL(url), {
+        requestInit: { headers: { 'x-api-key': 'agent-key' } },
+      });
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(transport);
+      try {
+        assert.ok(transport.sessionId);
+        const { tools } = await client.listTools();
+        assert.deepStrictEqual(tools.map(tool => tool.name), ['whoami']);
+        const result = await client.callTool({ name: 'whoami', arguments: {} });
+        assert.deepStrictEqual(JSON.parse(result.content[0].text), { id: 'api-key:agent', allowedPropertyIds: ['111'] });
+      } finally {
+        await transport.terminateSession();
+        await client.close();
+      }
+    });
+  });
+
+  test('requests need a known session owned by the same caller', async () => {
+    await withBridge({}, async url => {
+      const toolsList = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+      assert.strictEqual((await post(url, toolsList)).status, 400);
+      assert.strictEqual((await post(url, toolsList, { sessionId: 'nope' })).status, 404);
+
+      const sessionId = await initialize(url);
+      assert.strictEqual((await post(url, toolsList, { sessionId, key: 'other-key' })).status, 404);
+      const ok = await post(url, toolsList, { sessionId });
+      assert.strictEqual(ok.status, 200);
+      assert.strictEqual(parseSSE(await ok.text())[0].data.result.tools[0].name, 'whoami');
+
+      const foreign = await fetch(url, { method: 'POST', headers: { origin: 'http://evil.example', 'x-api-key': 'agent-key' } });
+      assert.strictEqual(foreign.status, 403);
+    });
+  });
+
+  test('SSE events carry IDs and streams resume after Last-Event-ID', async () => {
+    await withBridge({}, async url => {
+      const sessionId = await initialize(url);
+      const call = await post(url, { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'whoami', arguments: {} } }, { sessionId });
+      const [notification, response] = parseSSE(await call.text());
+      assert.strictEqual(notification.data.method, 'notifications/message');
+      assert.strictEqual(response.data.id, 3);
+      assert.ok(notification.id && response.id && notification.id !== response.id);
+
+      // Reconnect as if the stream dropped after the notification
+      const resumed = await fetch(url, {
+        headers: { accept: 'text/event-stream', 'x-api-key': 'agent-key', 'mcp-session-id': sessionId, 'last-event-id': notification.id },
+      });
+      assert.strictEqual(resumed.status, 200);
+      const replayed = await readUntil(resumed, event => event.data.id === 3);
+      assert.deepStrictEqual(replayed.map(event => event.id), [response.id]);
+    });
+  });
+
+  test('DELETE ends a session', async () => {
+    await withBridge({}, async url => {
+      const sessionId = await initialize(url);
+      const deleted = await fetch(url, { method: 'DELETE', headers: { 'x-api-key': 'agent-key', 'mcp-session-id': sessionId } });
+      assert.strictEqual(deleted.status, 200);
+      assert.strictEqual((await post(url, { jsonrpc: '2.0', id: 4, method: 'ping' }, { sessionId })).status, 404);
+    });
+  });
+
+  test('idle sessions time out', async () => {
+    await withBridge({ sessionIdleTimeoutMs: 50 }, async url => {
+      const sessionId = await initialize(url);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      assert.strictEqual((await post(url, { jsonrpc: '2.0', id: 5, method: 'ping' }, { sessionId })).status, 404);
+    });
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,341 @@
+/**
+ * Production cache storage backend tests: memory, file snapshot and Redis.
+ * The Redis tests use REDIS_URL when set (a disposable local redis-server;
+ * they write under their own prefix) and an in-process fake otherwise.
+ *
+ * Run after `npm run build`: node test-cache-backends.cjs
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+console.log('🧪 CACHE BACKENDS: memory, file snapshot and Redis stores');
+console.log('==========================================================\n');
+
+// RESP server implementing the commands the Redis store uses
+async function startFakeRedis({ password } = {}) {
+  const databases = new Map();
+  const database = index => {
+    if (!databases.has(index)) databases.set(index, new Map());
+    return databases.get(index);
+  };
+
+  const server = net.createServer(socket => {
+    let buffer = Buffer.alloc(0);
+    let db = database(0);
+    let authenticated = !password;
+    let transaction = null;
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed = parseCommand(buffer);
+      while (parsed) {
+        buffer = buffer.subarray(parsed.next);
+        socket.write(encodeReply(dispatch(parsed.args)));
+        parsed = parseCommand(buffer);
+      }
+    });
+    socket.on('error', () => undefined);
+
+    function dispatch(args) {
+      const name = args[0].toString().toUpperCase();
+      const rest = args.slice(1);
+      if (name === 'AUTH') {
+        authenticated = rest[rest.length - 1].toString() === password;
+        return authenticated ? { status: 'OK' } : new Error('WRONGPASS invalid password');
+      }
+      if (!authenticated) return new Error('NOAUTH Authentication required.');
+      if (name === 'MULTI') {
+        transaction = [];
+        return { status: 'OK' };
+      }
+      if (name === 'EXEC') {
+        const queued = transaction;
+        transaction = null;
+        return queued.map(([queuedName, queuedArgs]) => execute(queuedName, queuedArgs));
+      }
+      if (transaction) {
+        transaction.push([name, rest]);
+        return { status: 'QUEUED' };
+      }
+      return execute(name, rest);
+    }
+
+    function execute(name, args) {
+      const key = args[0] && args[0].toString();
+      switch (name) {
+        case 'PING': return { status: 'PONG' };
+        case 'QUIT': setImmediate(() => socket.end()); return { status: 'OK' };
+        case 'SELECT': db = database(Number(key)); return { status: 'OK' };
+        case 'DEL': return args.filter(arg => db.delete(arg.toString())).length;
+        case 'HSET': {
+          const hash = lookup(key, () => new Map());
+          let added = 0;
+          for (let i = 1; i < args.length; i += 2) {
+            if (!hash.has(args[i].toString())) added++;
+            hash.set(args[i].toString(), args[i + 1]);
+          }
+          return added;
+        }
+        case 'HGET': return (lookup(key) || new Map()).get(args[1].toString()) || null;
+        case 'HMGET': return args.slice(1).map(field => (lookup(key) || new Map()).get(field.toString()) || null);
+        case 'SADD': {
+          const set = lookup(key, () => new Set());
+          const before = set.size;
+          args.slice(1).forEach(member => set.add(member.toString()));
+          return set.size - before;
+        }
+        case 'SMEMBERS': return Array.from(lookup(key) || []);
+        case 'PEXPIRE': {
+          if (!lookup(key)) return 0;
+          db.get(key).expiresAt = Date.now() + Number(args[1]);
+          return 1;
+        }
+        case 'SCAN': {
+          const pattern = globToRegExp(args[2].toString());
+          return ['0', Array.from(db.keys()).filter(candidate => lookup(candidate) && pattern.test(candidate))];
+        }
+        default: return new Error(`ERR unknown command '${name}'`);
+      }
+    }
+
+    function lookup(key, create) {
+      const record = db.get(key);
+      if (record && record.expiresAt !== undefined && record.expiresAt <= Date.now()) {
+        db.delete(key);
+      } else if (record) {
+        return record.value;
+      }
+      if (!create) return undefined;
+      db.set(key, { value: create() });
+      return db.get(key).value;
+    }
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  return {
+    url: password ? `redis://:${password}@127.0.0.1:${port}` : `redis://127.0.0.1:${port}`,
+    keys: (index = 0) => Array.from(database(index).keys()),
+    ttl: (key, index = 0) => database(index).get(key).expiresAt - Date.now(),
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+function parseCommand(buffer) {
+  if (buffer[0] !== 0x2a) return undefined;
+  let lineEnd = buffer.indexOf('\r\n');
+  if (lineEnd === -1) return undefined;
+  const count = Number(buffer.toString('utf8', 1, lineEnd));
+  const args = [];
+  let position = lineEnd + 2;
+  for (let i = 0; i < count; i++) {
+    lineEnd = buffer.indexOf('\r\n', position);
+    if (lineEnd === -1) return undefined;
+    const length = Number(buffer.toString('utf8', position + 1, lineEnd));
+    if (buffer.length < lineEnd + 2 + length + 2) return undefined;
+    args.push(buffer.subarray(lineEnd + 2, lineEnd + 2 + length));
+    position = lineEnd + 2 + length + 2;
+  }
+  return { args, next: position };
+}
+
+function encodeReply(value) {
+  if (value === null) return '$-1\r\n';
+  if (value instanceof Error) return `-${value.message}\r\n`;
+  if (typeof value === 'number') return `:${value}\r\n`;
+  if (value.status) return `+${value.status}\r\n`;
+  if (Array.isArray(value)) {
+    return Buffer.concat([Buffer.from(`*${value.length}\r\n`), ...value.map(item => Buffer.from(encodeReply(item)))]);
+  }
+  const bytes = Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+  return Buffer.concat([Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from('\r\n')]);
+}
+
+function globToRegExp(glob) {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] === '\\' ? glob[++i] : glob[i];
+    if (glob[i - 1] !== '\\' && char === '*') source += '.*';
+    else if (glob[i - 1] !== '\\' && char === '?') source += '.';
+    else source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Cache settings that keep background tasks out of the tests
+const quiet = { enableCacheWarming: false, enableOptimization: false };
+
+// A report large enough to be stored compressed
+const largeReport = { rows: Array.from({ length: 200 }, (_, i) => ({ date: `2024-01-${i % 28 + 1}`, sessions: i })) };
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { ProductionCache } = await import('./dist/utils/productionCache.js');
+  const { MemoryCacheStore, RedisClient } = await import('@ai-ad-manager/mcp-shared/cacheStorage');
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ga4-cache-'));
+
+  test('memory store evicts least recently used entries and invalidates by tag', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 3, retentionGraceMs: 0 });
+    const entry = tags => ({
+      data: {}, timestamp: Date.now(), ttl: 60000, accessCount: 0, lastAccessed: Date.now() - 120000,
+      dataType: 'ga4-report', compressed: false, size: 2, tags,
+    });
+    await store.set('a', entry(['property:1']), 'medium');
+    await store.set('b', entry(['property:2']), 'medium');
+    await store.set('c', entry(['property:1']), 'medium');
+    await store.get('a');
+    await store.set('d', entry([]), 'medium');
+
+    assert.strictEqual(await store.get('b'), undefined);
+    assert.strictEqual(store.getStats().evictions, 1);
+    assert.strictEqual(await store.deleteByTags(['property:1']), 2);
+    assert.strictEqual(store.getStats().entries, 1);
+  });
+
+  test('file snapshot survives a restart and drops entries that expired meanwhile', async () => {
+    const file = path.join(tmp, 'nested', 'cache.json');
+    const config = { ...quiet, enablePersistence: true, persistenceFile: file, persistenceInterval: 60000, staleTimeout: 0 };
+
+    const first = new ProductionCache(config);
+    await first.set('ga4-report:property:1:a', largeReport, { dataType: 'ga4-report', tags: ['property:1'] });
+    await first.set('health:short', { ok: true }, { ttl: 1 });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await first.shutdown();
+    assert.ok(fs.existsSync(file));
+
+    const second = new ProductionCache(config);
+    try {
+      assert.deepStrictEqual(await second.get('ga4-report:property:1:a'), largeReport);
+      assert.strictEqual(await second.get('health:short'), null);
+      assert.strictEqual(second.getBackend(), 'file');
+      assert.strictEqual(second.getMetrics().memory.entries, 1);
+      assert.strictEqual(second.getMetrics().performance.compressionRatio, 1);
+    } finally {
+      await second.shutdown();
+    }
+
+    // An unreadable snapshot is not fatal
+    fs.writeFileSync(file, '{ not json');
+    const third = new ProductionCache(config);
+    try {
+      assert.strictEqual(await third.get('ga4-report:property:1:a'), null);
+    } finally {
+      await third.shutdown();
+    }
+  });
+
+  test('file snapshot is flushed on the persistence interval', async () => {
+    const file = path.join(tmp, 'interval.json');
+    const cache = new ProductionCache({ ...quiet, enablePersistence: true, persistenceFile: file, persistenceInterval: 20 });
+    try {
+      await cache.set('ga4-metadata:property:1', { metrics: ['sessions'] }, { dataType: 'ga4-metadata' });
+      await new Promise(resolve => setTimeout(resolve, 80));
+      const snapshot = JSON.parse(fs.readFileSync(file, 'utf8'));
+      assert.strictEqual(snapshot.version, 1);
+      assert.deepStrictEqual(snapshot.entries.map(([key]) => key), ['ga4-metadata:property:1']);
+    } finally {
+      await cache.shutdown();
+    }
+  });
+
+  test('Redis store shares entries and tag invalidation between replicas', async () => {
+    const fake = process.env.REDIS_URL ? undefined : await startFakeRedis();
+    const prefix = `ga4-mcp-test-${process.pid}:`;
+    const config = {
+      ...quiet, enableDistributed: true, redisUrl: process.env.REDIS_URL || fake.url, distributedPrefix: prefix, staleTimeout: 5000,
+    };
+    const replicaA = new ProductionCache(config);
+    const replicaB = new ProductionCache(config);
+
+    try {
+      await replicaA.set('ga4-report:property:1:a', largeReport, { dataType: 'ga4-report', tags: ['ga4-report', 'property:1'] });
+      await replicaA.set('ga4-report:property:2:a', { rows: [] }, { dataType: 'ga4-report', tags: ['ga4-report', 'property:2'] });
+      await replicaA.set('ga4-metadata:property:1', { metrics: ['sessions'] }, { ttl: 1000, tags: ['property:1'] });
+
+      assert.deepStrictEqual(await replicaB.get('ga4-report:property:1:a'), largeReport);
+      assert.deepStrictEqual(await replicaB.get('ga4-report:property:2:a'), { rows: [] });
+      assert.strictEqual(replicaB.getBackend(), 'redis');
+
+      if (fake) {
+        // Entries are kept for their TTL plus the stale grace period
+        const ttl = fake.ttl(`${prefix}entry:ga4-metadata:property:1`);
+        assert.ok(ttl > 5000 && ttl <= 6000, `ttl ${ttl}`);
+      }
+
+      assert.strictEqual(await replicaB.clearByTags(['property:1']), 2);
+      assert.strictEqual(await replicaA.get('ga4-report:property:1:a'), null);
+      assert.strictEqual(await replicaA.get('ga4-metadata:property:1'), null);
+      assert.deepStrictEqual(await replicaA.get('ga4-report:property:2:a'), { rows: [] });
+
+      await replicaA.set('ga4-report:property:3:a', { rows: [1] }, { dataType: 'ga4-report' });
+      assert.strictEqual((await replicaA.refreshMetrics()).memory.entries, 2);
+
+      assert.strictEqual(await replicaB.clear('^ga4-report:property:3'), 1);
+      assert.strictEqual(await replicaB.delete('ga4-report:property:2:a'), true);
+      assert.strictEqual(await replicaA.clear(), 0);
+      if (fake) {
+        assert.deepStrictEqual(fake.keys(), []);
+      }
+    } finally {
+      await replicaA.shutdown();
+      await replicaB.shutdown();
+      if (fake) await fake.close();
+    }
+  });
+
+  test('Redis client authenticates, selects a database and survives an unreachable server', async () => {
+    const fake = await startFakeRedis({ password: 's3cret' });
+    try {
+      const client = new RedisClient(`${fake.url}/2`);
+      assert.strictEqual(await client.command('HSET', 'k', 'f', Buffer.from([0, 255])), 1);
+      assert.deepStrictEqual(await client.command('HGET', 'k', 'f'), Buffer.from([0, 255]));
+      assert.deepStrictEqual(fake.keys(2), ['k']);
+      await assert.rejects(client.command('NOPE'), /unknown command/);
+      await client.close();
+
+      await assert.rejects(new RedisClient(fake.url.replace('s3cret', 'wrong')).command('PING'), /WRONGPASS/);
+    } finally {
+      await fake.close();
+    }
+
+    // Port of a server that is gone: lookups miss instead of failing the caller
+    const closed = await startFakeRedis();
+    await closed.close();
+    const cache = new ProductionCache({ ...quiet, enableDistributed: true, redisUrl: closed.url });
+    try {
+      await cache.set('ga4-report:property:1:a', { rows: [] });
+      assert.strictEqual(await cache.get('ga4-report:property:1:a'), null);
+    } finally {
+      await cache.shutdown();
+    }
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  fs.rmSync(tmp, { recursive: true, force: true });
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,343 @@
+/**
+ * Stale-while-revalidate refresh and scheduled cache warming tests against
+ * a stub GA4 client
+ *
+ * Run after `npm run build`: node test-cache-refresh.cjs
+ */
+
+const assert = require('assert');
+
+console.log('🧪 CACHE REFRESH: stale-while-revalidate and warming');
+console.log('====================================================\n');
+
+// GA4 client stub whose sessions value goes up with every runReport call
+function createGA4Stub() {
+  const stub = {
+    calls: [],
+    async getMetadata() {
+      return [{ metrics: [{ apiName: 'sessions' }], dimensions: [{ apiName: 'date' }] }];
+    },
+    async runReport(request) {
+      stub.calls.push(request);
+      if (request.cohortSpec) {
+        // One cohort whose period 0 grows with every call
+        return [{
+          dimensionHeaders: [{ name: 'cohort' }, { name: 'cohortNthWeek' }],
+          metricHeaders: request.metrics.map(metric => ({ name: metric.name, type: 'TYPE_INTEGER' })),
+          rows: [{
+            dimensionValues: [{ value: request.cohortSpec.cohorts[0].name }, { value: '0000' }],
+            metricValues: request.metrics.map(() => ({ value: String(10 * stub.calls.length) })),
+          }],
+          rowCount: 1,
+        }];
+      }
+      return [{
+        dimensionHeaders: [],
+        metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+        rows: [{ dimensionValues: [], metricValues: [{ value: String(stub.calls.length) }] }],
+        totals: [],
+        rowCount: 1,
+      }];
+    },
+    // Funnels of two steps whose first step grows with every call
+    async runFunnelReport(request) {
+      stub.calls.push(request);
+      return [{
+        funnelTable: {
+          dimensionHeaders: [{ name: 'funnelStepName' }],
+          metricHeaders: [{ name: 'activeUsers', type: 'TYPE_INTEGER' }],
+          rows: request.funnel.steps.map((step, i) => ({
+            dimensionValues: [{ value: `${i + 1}. ${step.name}` }],
+            metricValues: [{ value: String(i === 0 ? 100 * stub.calls.length : 10) }],
+          })),
+        },
+      }];
+    },
+  };
+  return stub;
+}
+
+function reportOptions(overrides = {}) {
+  return {
+    propertyId: '123456789',
+    metrics: ['sessions'],
+    dimensions: [],
+    dateRanges: [{ startDate: '2024-01-01', endDate: '2024-01-07' }],
+    ...overrides,
+  };
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// Cache settings that keep background tasks out of the tests
+const quiet = { enableCacheWarming: false, enableOptimization: false };
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { CronSchedule } = await import('./dist/utils/cronSchedule.js');
+  const { ProductionCache, initializeProductionCache, shutdownProductionCache } = await import('./dist/utils/productionCache.js');
+  const { GA4DataClient } = await import('./dist/utils/ga4DataClient.js');
+  const { ga4MetricsCollector } = await import('./dist/utils/ga4MetricsCollector.js');
+  const { warmFrequentReports } = await import('./dist/utils/reportWarming.js');
+  const { metricsRegistry } = await import('@ai-ad-manager/mcp-shared/prometheusMetrics');
+
+  test('cron schedules find their next run', async () => {
+    // Friday 2024-03-15 08:00 local time
+    const friday = new Date(2024, 2, 15, 8, 0, 0);
+    assert.deepStrictEqual(new CronSchedule('0 30 7 * * 1-5').next(friday), new Date(2024, 2, 18, 7, 30, 0));
+    assert.deepStrictEqual(new CronSchedule('*/15 * * * *').next(friday), new Date(2024, 2, 15, 8, 15, 0));
+    assert.deepStrictEqual(new CronSchedule('0 9 1 * 7').next(friday), new Date(2024, 2, 17, 9, 0, 0));
+    assert.deepStrictEqual(new CronSchedule('0 0 29 2 *').next(friday), new Date(2028, 1, 29, 0, 0, 0));
+
+    for (const invalid of ['* * * *', '61 * * * *', '0 25 * * *', '*/0 * * * *', '0 9 * * mon']) {
+      assert.throws(() => new CronSchedule(invalid), /cron expression/i, invalid);
+    }
+  });
+
+  test('stale hits are served at once and refreshed through a single loader call', async () => {
+    const cache = new ProductionCache({ ...quiet, staleTimeout: 5000, quotaReserve: 0 });
+    let loads = 0;
+    const loader = async () => {
+      loads++;
+      await sleep(30);
+      return { version: loads };
+    };
+
+    try {
+      await cache.set('ga4-report:property:1:a', { version: 0 }, { ttl: 20, loader });
+      await sleep(40);
+
+      const stale = await Promise.all([1, 2, 3].map(() => cache.get('ga4-report:property:1:a')));
+      assert.deepStrictEqual(stale, [{ version: 0 }, { version: 0 }, { version: 0 }]);
+      assert.strictEqual(loads, 1);
+
+      await cache.settleRefreshes();
+      assert.deepStrictEqual(await cache.get('ga4-report:property:1:a'), { version: 1 });
+
+      // A failing loader leaves the stale entry in place
+      await cache.set('ga4-report:property:1:b', { version: 0 }, { ttl: 20, loader: async () => { throw new Error('GA4 down'); } });
+      await sleep(40);
+      assert.deepStrictEqual(await cache.get('ga4-report:property:1:b'), { version: 0 });
+      await cache.settleRefreshes();
+      assert.deepStrictEqual(await cache.get('ga4-report:property:1:b'), { version: 0 });
+      assert.match(metricsRegistry.render(), /ga4_mcp_cache_background_refreshes_total\{outcome="failed"\} [1-9]/);
+    } finally {
+      await cache.shutdown();
+    }
+  });
+
+  test('refreshes and warming leave the GA4 quota reserve alone', async () => {
+    const cache = new ProductionCache({ ...quiet, staleTimeout: 5000, quotaReserve: 100 });
+    let loads = 0;
+    try {
+      assert.strictEqual(cache.hasQuotaHeadroom(), false);
+      await cache.set('ga4-report:property:1:a', { version: 0 }, { ttl: 20, loader: async () => ++loads });
+      await sleep(40);
+      assert.deepStrictEqual(await cache.get('ga4-report:property:1:a'), { version: 0 });
+      await cache.settleRefreshes();
+      assert.strictEqual(loads, 0);
+    } finally {
+      await cache.shutdown();
+    }
+
+    const stub = createGA4Stub();
+    const client = new GA4DataClient('123456789', stub);
+    let headroomChecks = 0;
+    const result = await warmFrequentReports({
+      resolveClient: () => client,
+      hasQuotaHeadroom: () => ++headroomChecks <= 2,
+      maxReports: 10,
+      patterns: [{
+        pattern: 'sessions_', frequency: 9, description: '', metrics: ['sessions'], dimensions: [], tools: ['query_analytics'],
+        requests: [reportOptions({ limit: 1 }), reportOptions({ limit: 2 }), reportOptions({ limit: 3 })],
+      }],
+    });
+    assert.deepStrictEqual(result, { warmed: 2, failed: 0, stoppedForQuota: true });
+    assert.strictEqual(stub.calls.length, 2);
+  });
+
+  test('GA4 reports refresh in the background once their shared entry is stale', async () => {
+    initializeProductionCache({ ...quiet, staleTimeout: 5000, quotaReserve: 0, ttlStrategies: { 'ga4-report': 50 } });
+    const stub = createGA4Stub();
+    try {
+      // Separate clients stand in for later requests; each has its own short-lived local cache
+      const first = await new GA4DataClient('123456789', stub).runReport(reportOptions(), { tool: 'query_analytics' });
+      assert.strictEqual(first.rows[0].metrics.sessions, 1);
+      await sleep(80);
+
+      const stale = await new GA4DataClient('123456789', stub).runReport(reportOptions());
+      assert.strictEqual(stale.rows[0].metrics.sessions, 1);
+      assert.strictEqual(stale.requestInfo.fromCache, true);
+
+      const { getProductionCache } = await import('./dist/utils/productionCache.js');
+      await getProductionCache().settleRefreshes();
+      assert.strictEqual(stub.calls.length, 2);
+
+      const fresh = await new GA4DataClient('123456789', stub).runReport(reportOptions());
+      assert.strictEqual(fresh.rows[0].metrics.sessions, 2);
+      assert.strictEqual(stub.calls.length, 2);
+
+      const refreshCall = ga4MetricsCollector.getRecentApiCalls(1)[0];
+      assert.strictEqual(refreshCall.tool, 'cache-refresh');
+      assert.deepStrictEqual(refreshCall.request.options, reportOptions());
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('funnel reports are shared across clients and refreshed once stale', async () => {
+    initializeProductionCache({ ...quiet, staleTimeout: 5000, quotaReserve: 0, ttlStrategies: { 'ga4-report': 50 } });
+    const stub = createGA4Stub();
+    const funnelOptions = {
+      propertyId: '123456789',
+      dateRange: { startDate: '2024-01-01', endDate: '2024-01-07' },
+      steps: [{ name: 'view_item', eventName: 'view_item' }, { name: 'purchase', eventName: 'purchase' }],
+    };
+    try {
+      const first = await new GA4DataClient('123456789', undefined, stub).runFunnelReport(funnelOptions);
+      assert.strictEqual(first.steps[0].activeUsers, 100);
+
+      const shared = await new GA4DataClient('123456789', undefined, stub).runFunnelReport(funnelOptions);
+      assert.strictEqual(shared.requestInfo.fromCache, true);
+      assert.strictEqual(stub.calls.length, 1);
+
+      await sleep(80);
+      const stale = await new GA4DataClient('123456789', undefined, stub).runFunnelReport(funnelOptions);
+      assert.strictEqual(stale.steps[0].activeUsers, 100);
+
+      const { getProductionCache } = await import('./dist/utils/productionCache.js');
+      await getProductionCache().settleRefreshes();
+      assert.strictEqual(stub.calls.length, 2);
+      assert.strictEqual(ga4MetricsCollector.getRecentApiCalls(1)[0].tool, 'cache-refresh');
+
+      const fresh = await new GA4DataClient('123456789', undefined, stub).runFunnelReport(funnelOptions);
+      assert.strictEqual(fresh.steps[0].activeUsers, 200);
+      assert.strictEqual(stub.calls.length, 2);
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('cohort reports are shared across clients and refreshed once stale', async () => {
+    initializeProductionCache({ ...quiet, staleTimeout: 5000, quotaReserve: 0, ttlStrategies: { 'ga4-report': 50 } });
+    const stub = createGA4Stub();
+    const cohortOptions = {
+      propertyId: '123456789',
+      granularity: 'WEEKLY',
+      cohorts: [{ startDate: '2024-01-01', endDate: '2024-01-07' }],
+      periods: 1,
+      metric: 'cohortActiveUsers',
+    };
+    try {
+      const first = await new GA4DataClient('123456789', stub).runCohortReport(cohortOptions);
+      assert.strictEqual(first.cohorts[0].cohortSize, 10);
+
+      const shared = await new GA4DataClient('123456789', stub).runCohortReport(cohortOptions);
+      assert.strictEqual(shared.requestInfo.fromCache, true);
+      assert.strictEqual(stub.calls.length, 1);
+
+      await sleep(80);
+      const stale = await new GA4DataClient('123456789', stub).runCohortReport(cohortOptions);
+      assert.strictEqual(stale.cohorts[0].cohortSize, 10);
+
+      const { getProductionCache } = await import('./dist/utils/productionCache.js');
+      await getProductionCache().settleRefreshes();
+      assert.strictEqual(stub.calls.length, 2);
+      assert.strictEqual(ga4MetricsCollector.getRecentApiCalls(1)[0].tool, 'cache-refresh');
+
+      const fresh = await new GA4DataClient('123456789', stub).runCohortReport(cohortOptions);
+      assert.strictEqual(fresh.cohorts[0].cohortSize, 20);
+      assert.strictEqual(stub.calls.length, 2);
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('warming replays frequent tool requests onto the cache keys tools read', async () => {
+    initializeProductionCache({ ...quiet, quotaReserve: 0 });
+    const stub = createGA4Stub();
+    const client = new GA4DataClient('123456789', stub);
+    try {
+      const options = reportOptions({ dimensions: ['date'], limit: 30 });
+      for (let i = 0; i < 5; i++) {
+        ga4MetricsCollector.recordApiCall({
+          endpoint: 'runReport', method: 'POST', tool: 'query_analytics',
+          request: { propertyId: '123456789', metrics: ['sessions'], dimensions: ['date'], dateRanges: options.dateRanges, options },
+          response: { success: true, duration: 100, rowCount: 7 },
+          quota: {},
+        });
+        // Warming's own calls do not count as usage
+        ga4MetricsCollector.recordApiCall({
+          endpoint: 'runReport', method: 'POST', tool: 'cache-warming',
+          request: { propertyId: '123456789', metrics: ['screenPageViews'], dimensions: [], dateRanges: options.dateRanges, options: reportOptions({ metrics: ['screenPageViews'] }) },
+          response: { success: true, duration: 100, rowCount: 1 },
+          quota: {},
+        });
+      }
+      ga4MetricsCollector.analyzeUsagePatterns();
+
+      const patterns = ga4MetricsCollector.getUsagePatterns();
+      const pattern = patterns.find(candidate => candidate.pattern === 'sessions_date');
+      assert.deepStrictEqual(pattern.requests, [options]);
+      assert.ok(!patterns.some(candidate => candidate.metrics.includes('screenPageViews')));
+
+      const result = await warmFrequentReports({
+        resolveClient: () => client, hasQuotaHeadroom: () => true, maxReports: 5, patterns: [pattern],
+      });
+      assert.deepStrictEqual(result, { warmed: 1, failed: 0, stoppedForQuota: false });
+
+      // The tool's own request is now a cache hit
+      const report = await new GA4DataClient('123456789', stub).runReport(options, { tool: 'query_analytics' });
+      assert.strictEqual(report.requestInfo.fromCache, true);
+      assert.strictEqual(stub.calls.length, 1);
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('warming tasks run on the cron schedule until shutdown', async () => {
+    assert.strictEqual(new ProductionCache({ ...quiet }).scheduleWarming('x', async () => undefined), false);
+    assert.strictEqual(
+      new ProductionCache({ ...quiet, enableCacheWarming: true, warmingSchedule: ['not a cron'] }).scheduleWarming('x', async () => undefined),
+      false
+    );
+
+    const cache = new ProductionCache({ ...quiet, enableCacheWarming: true, warmingSchedule: ['* * * * * *'], quotaReserve: 0 });
+    let runs = 0;
+    try {
+      assert.strictEqual(cache.scheduleWarming('ga4-reports', async () => { runs++; }), true);
+      await sleep(2100);
+      assert.ok(runs >= 1 && runs <= 3, `runs ${runs}`);
+    } finally {
+      await cache.shutdown();
+    }
+
+    const afterShutdown = runs;
+    await sleep(1100);
+    assert.strictEqual(runs, afterShutdown);
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
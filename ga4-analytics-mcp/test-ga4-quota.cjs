@@ -0,0 +1,231 @@
+/**
+ * GA4 property quota tracking and admission tests against a stub GA4
+ * client that returns PropertyQuota like the Data API
+ *
+ * Run after `npm run build`: node test-ga4-quota.cjs
+ */
+
+const assert = require('assert');
+
+console.log('🧪 GA4 QUOTA: property quota tracking and admission');
+console.log('===================================================\n');
+
+// GA4 client stub that spends `cost` tokens per report from the given buckets
+function createQuotaStub({ daily = 200000, hourly = 40000, cost = 20 } = {}) {
+  const stub = {
+    calls: [],
+    remaining: { daily, hourly },
+    spend() {
+      stub.remaining.daily -= cost;
+      stub.remaining.hourly -= cost;
+      return {
+        tokensPerDay: { consumed: cost, remaining: stub.remaining.daily },
+        tokensPerHour: { consumed: cost, remaining: stub.remaining.hourly },
+        concurrentRequests: { consumed: 1, remaining: 9 },
+        serverErrorsPerProjectPerHour: { consumed: 0, remaining: 10 },
+      };
+    },
+    report(extra = {}) {
+      return {
+        dimensionHeaders: [],
+        metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+        rows: [{ dimensionValues: [], metricValues: [{ value: '1' }] }],
+        totals: [],
+        rowCount: 1,
+        ...extra,
+      };
+    },
+    async getMetadata() {
+      return [{ metrics: [{ apiName: 'sessions' }], dimensions: [{ apiName: 'date' }] }];
+    },
+    async runReport(request) {
+      stub.calls.push(request);
+      return [stub.report(request.returnPropertyQuota ? { propertyQuota: stub.spend() } : {})];
+    },
+    async batchRunReports(request) {
+      stub.calls.push(request);
+      return [{ reports: request.requests.map(() => stub.report({ propertyQuota: stub.spend() })) }];
+    },
+    async runFunnelReport(request) {
+      stub.calls.push(request);
+      return [{
+        funnelTable: { dimensionHeaders: [{ name: 'funnelStepName' }], metricHeaders: [{ name: 'activeUsers' }], rows: [] },
+        ...(request.returnPropertyQuota && { propertyQuota: stub.spend() }),
+      }];
+    },
+  };
+  return stub;
+}
+
+let day = 0;
+// Distinct date ranges keep reports out of each other's cache entries
+function reportOptions(propertyId) {
+  day++;
+  const date = `2024-01-${String(day).padStart(2, '0')}`;
+  return { propertyId, metrics: ['sessions'], dimensions: [], dateRanges: [{ startDate: date, endDate: date }] };
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { GA4DataClient } = await import('./dist/utils/ga4DataClient.js');
+  const { ga4MetricsCollector } = await import('./dist/utils/ga4MetricsCollector.js');
+  const { GA4QuotaGuard, ga4QuotaGuard } = await import('./dist/utils/ga4QuotaGuard.js');
+  const { createToolHandlers } = await import('./dist/tools/index.js');
+
+  test('reports ask for the property quota and usage follows what GA4 returns', async () => {
+    const stub = createQuotaStub({ cost: 30 });
+    const client = new GA4DataClient('1001', stub);
+
+    assert.strictEqual(ga4MetricsCollector.getQuotaUsage('1001').source, 'default');
+    await client.runReport(reportOptions('1001'));
+    await client.runReport(reportOptions('1001'));
+
+    assert.strictEqual(stub.calls[0].returnPropertyQuota, true);
+    const usage = ga4MetricsCollector.getQuotaUsage('1001');
+    assert.strictEqual(usage.source, 'ga4');
+    assert.deepStrictEqual(
+      [usage.daily.limit, usage.daily.used, usage.daily.remaining],
+      [200000, 60, 199940]
+    );
+    assert.deepStrictEqual([usage.hourly.used, usage.hourly.remaining], [60, 39940]);
+    assert.ok(usage.daily.resetTime > Date.now() && usage.daily.resetTime <= Date.now() + 86400000);
+    assert.strictEqual(ga4MetricsCollector.getExpectedTokenCost('1001'), 30);
+  });
+
+  test('batches count the tokens of every report', async () => {
+    const stub = createQuotaStub({ cost: 15 });
+    const client = new GA4DataClient('1002', stub);
+
+    await client.batchRunReports([reportOptions('1002'), reportOptions('1002'), reportOptions('1002')]);
+
+    assert.ok(stub.calls[0].requests.every(request => request.returnPropertyQuota === true));
+    const usage = ga4MetricsCollector.getQuotaUsage('1002');
+    assert.deepStrictEqual([usage.daily.used, usage.daily.remaining], [45, 199955]);
+    assert.strictEqual(ga4MetricsCollector.getRecentApiCalls(1)[0].quota.tokensUsed, 45);
+  });
+
+  test('requests that would exhaust a bucket are refused without calling GA4', async () => {
+    const stub = createQuotaStub({ hourly: 50, cost: 20 });
+    const client = new GA4DataClient('1003', stub);
+
+    await client.runReport(reportOptions('1003'));
+    await client.runReport(reportOptions('1003'));
+    assert.strictEqual(stub.remaining.hourly, 10);
+
+    await assert.rejects(client.runReport(reportOptions('1003')), error => {
+      assert.strictEqual(error.code, 'GA4_QUOTA_EXCEEDED');
+      assert.strictEqual(error.details.bucket, 'tokensPerHour');
+      assert.strictEqual(error.details.remaining, 10);
+      assert.strictEqual(error.details.estimatedCost, 20);
+      assert.ok(error.details.retryAfterSeconds > 3000);
+      return true;
+    });
+    assert.strictEqual(stub.calls.length, 2);
+
+    // Other properties have their own buckets
+    await new GA4DataClient('1004', createQuotaStub()).runReport(reportOptions('1004'));
+  });
+
+  test('requests over the concurrent limit queue for a slot', async () => {
+    const guard = new GA4QuotaGuard({ maxConcurrent: 1, maxQueueWaitMs: 100 });
+
+    const releaseFirst = await guard.acquire('2001');
+    let secondAdmitted = false;
+    const second = guard.acquire('2001').then(release => {
+      secondAdmitted = true;
+      return release;
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.strictEqual(secondAdmitted, false);
+    assert.deepStrictEqual(guard.getQueueStatus('2001'), { inFlight: 1, queued: 1, maxConcurrent: 1 });
+
+    releaseFirst();
+    releaseFirst();
+    const releaseSecond = await second;
+    assert.deepStrictEqual(guard.getQueueStatus('2001'), { inFlight: 1, queued: 0, maxConcurrent: 1 });
+
+    // Nothing frees the slot in time
+    await assert.rejects(guard.acquire('2001'), error =>
+      error.code === 'GA4_QUOTA_EXCEEDED' && error.details.bucket === 'concurrentRequests'
+    );
+    releaseSecond();
+    assert.deepStrictEqual(guard.getQueueStatus('2001'), { inFlight: 0, queued: 0, maxConcurrent: 1 });
+  });
+
+  test('funnel reports are admitted and counted like other reports', async () => {
+    const stub = createQuotaStub({ hourly: 50, cost: 20 });
+    const client = new GA4DataClient('1005', stub, stub);
+    const funnelOptions = date => ({
+      propertyId: '1005',
+      dateRange: { startDate: date, endDate: date },
+      steps: [{ eventName: 'view_item' }, { eventName: 'purchase' }],
+    });
+
+    await client.runFunnelReport(funnelOptions('2024-02-01'));
+    await client.runFunnelReport(funnelOptions('2024-02-02'));
+    assert.strictEqual(stub.calls[0].returnPropertyQuota, true);
+    const usage = ga4MetricsCollector.getQuotaUsage('1005');
+    assert.deepStrictEqual([usage.source, usage.daily.used, usage.hourly.remaining], ['ga4', 40, 10]);
+    assert.strictEqual(ga4MetricsCollector.getRecentApiCalls(1)[0].quota.tokensUsed, 20);
+
+    await assert.rejects(client.runFunnelReport(funnelOptions('2024-02-03')), error =>
+      error.code === 'GA4_QUOTA_EXCEEDED' && error.details.bucket === 'tokensPerHour'
+    );
+    assert.strictEqual(stub.calls.length, 2);
+  });
+
+  test('get_quota_status reports what is left of each bucket', async () => {
+    const stub = createQuotaStub({ daily: 1100, cost: 100 });
+    const handlers = createToolHandlers(propertyId => new GA4DataClient(propertyId || '3001', stub));
+
+    const unseen = await handlers.get('get_quota_status')({});
+    assert.strictEqual(unseen.source, 'default');
+    assert.strictEqual(unseen.updatedAt, null);
+    assert.strictEqual(unseen.status, 'ok');
+    assert.strictEqual(unseen.buckets.tokensPerDay.remaining, 200000);
+
+    for (let i = 0; i < 9; i++) {
+      await new GA4DataClient('3001', stub).runReport(reportOptions('3001'));
+    }
+    const status = await handlers.get('get_quota_status')({ propertyId: '3001' });
+    assert.strictEqual(status.source, 'ga4');
+    assert.strictEqual(status.status, 'low');
+    assert.strictEqual(status.estimatedTokensPerRequest, 100);
+    assert.deepStrictEqual(
+      [status.buckets.tokensPerDay.limit, status.buckets.tokensPerDay.remaining, status.buckets.tokensPerDay.percentage],
+      [200000, 200, 99.9]
+    );
+    assert.deepStrictEqual(status.concurrentRequests, {
+      limit: ga4QuotaGuard.getQueueStatus('3001').maxConcurrent, inFlight: 0, queued: 0, peak: 1,
+    });
+
+    // The last 100 tokens are spent, not held back
+    await new GA4DataClient('3001', stub).runReport(reportOptions('3001'));
+    await new GA4DataClient('3001', stub).runReport(reportOptions('3001'));
+    assert.strictEqual((await handlers.get('get_quota_status')({})).status, 'exhausted');
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,866 @@
+/**
+ * GA4 tool handler tests against a stubbed BetaAnalyticsDataClient
+ *
+ * Run after `npm run build`: node test-ga4-tools.cjs
+ */
+
+const assert = require('assert');
+
+console.log('🧪 GA4 TOOL HANDLERS: stubbed BetaAnalyticsDataClient');
+console.log('=====================================================\n');
+
+// Multi-range reports: GA4 appends a dateRange dimension and returns rows and totals per range.
+// The second range reports half of the first range's values and one row fewer (when grouped).
+function fakeComparisonReport(request, rowCount) {
+  const [current, previous] = request.dateRanges.map((range, index) =>
+    fakeReport({ ...request, dateRanges: [range] }, index === 0 ? rowCount : Math.max(1, rowCount - 1))
+  );
+  const tag = (rows, name, scale) => rows.map(row => ({
+    dimensionValues: [...(row.dimensionValues || []), { value: name }],
+    metricValues: row.metricValues.map(({ value }) => ({ value: String(Number(value) * scale) })),
+  }));
+  const [currentName, previousName] = request.dateRanges.map(range => range.name);
+
+  return {
+    ...current,
+    dimensionHeaders: [...current.dimensionHeaders, { name: 'dateRange' }],
+    rows: [...tag(current.rows, currentName, 1), ...tag(previous.rows, previousName, 0.5)],
+    totals: current.totals.length
+      ? [...tag(current.totals, currentName, 1), ...tag(current.totals, previousName, 0.5)]
+      : [],
+    rowCount: current.rowCount + previous.rowCount,
+  };
+}
+
+// Build a GA4 API response whose rows echo the requested dimensions and metrics
+// (ungrouped reports return a single row, as GA4 does)
+function fakeReport(request, rowCount = (request.dimensions || []).length > 0 ? 3 : 1) {
+  if (request.dateRanges && request.dateRanges.length > 1) {
+    return fakeComparisonReport(request, rowCount);
+  }
+  if (request.cohortSpec) {
+    return fakeCohortReport(request);
+  }
+
+  const dimensions = (request.dimensions || []).map(d => d.name);
+  const metrics = request.metrics.map(m => m.name);
+
+  const rows = Array.from({ length: rowCount }, (_, i) => ({
+    dimensionValues: dimensions.map(name => ({ value: `${name}-${i}` })),
+    metricValues: metrics.map(name => ({
+      value: String(name.endsWith('Rate') ? 0.5 : (rowCount - i) * 100),
+    })),
+  }));
+
+  return {
+    dimensionHeaders: dimensions.map(name => ({ name })),
+    metricHeaders: metrics.map(name => ({ name, type: 'TYPE_INTEGER' })),
+    rows,
+    totals: request.metricAggregations
+      ? [{ metricValues: metrics.map(name => ({ value: String(name.endsWith('Rate') ? 0.5 : rowCount * 200) })) }]
+      : [],
+    rowCount,
+  };
+}
+
+// Cohort rows: 100 users per cohort, halving each period; later cohorts have seen fewer periods
+function fakeCohortReport(request) {
+  const { cohorts, cohortsRange } = request.cohortSpec;
+  const rows = cohorts.flatMap((cohort, c) =>
+    Array.from({ length: Math.max(0, cohortsRange.endOffset + 1 - c) }, (_, period) => ({
+      dimensionValues: [{ value: cohort.name }, { value: String(period).padStart(4, '0') }],
+      metricValues: request.metrics.map(metric => ({
+        value: String(metric.name === 'cohortTotalUsers' ? 100 : 100 / Math.pow(2, period)),
+      })),
+    }))
+  );
+
+  return {
+    dimensionHeaders: request.dimensions.map(({ name }) => ({ name })),
+    metricHeaders: request.metrics.map(({ name }) => ({ name, type: 'TYPE_INTEGER' })),
+    rows,
+    rowCount: rows.length,
+  };
+}
+
+// Pivot report over two pivots of one field each; pivot headers list values in reverse order
+function fakePivotReport(request) {
+  const [outer, inner] = request.pivots.map(pivot => pivot.fieldNames[0]);
+  const outerValues = ['a', 'b'];
+  const innerValues = ['x', 'y', 'z'];
+  const rows = outerValues.flatMap((o, i) => innerValues.map((n, j) => ({
+    dimensionValues: [{ value: `${outer}-${o}` }, { value: `${inner}-${n}` }],
+    metricValues: request.metrics.map(() => ({ value: String((i + 1) * 10 + j) })),
+  })));
+
+  return {
+    pivotHeaders: [
+      { pivotDimensionHeaders: outerValues.slice().reverse().map(o => ({ dimensionValues: [{ value: `${outer}-${o}` }] })), rowCount: 2 },
+      { pivotDimensionHeaders: innerValues.slice().reverse().map(n => ({ dimensionValues: [{ value: `${inner}-${n}` }] })), rowCount: 3 },
+    ],
+    dimensionHeaders: request.dimensions.map(({ name }) => ({ name })),
+    metricHeaders: request.metrics.map(({ name }) => ({ name, type: 'TYPE_INTEGER' })),
+    rows,
+  };
+}
+
+// Funnel table: 1000 users at step 1, 40% continuing at each later step; breakdowns split 3:1
+function fakeFunnelReport(request) {
+  const breakdown = request.funnelBreakdown && request.funnelBreakdown.breakdownDimension.name;
+  const segments = breakdown ? [['RESERVED_TOTAL', 1], ['mobile', 0.75], ['desktop', 0.25]] : [[null, 1]];
+  const rows = request.funnel.steps.flatMap((step, i) => segments.map(([value, share]) => ({
+    dimensionValues: [{ value: `${i + 1}. ${step.name}` }, ...(value ? [{ value }] : [])],
+    metricValues: [{ value: String(Math.round(1000 * Math.pow(0.4, i) * share)) }],
+  })));
+
+  return {
+    funnelTable: {
+      dimensionHeaders: [{ name: 'funnelStepName' }, ...(breakdown ? [{ name: breakdown }] : [])],
+      metricHeaders: [{ name: 'activeUsers', type: 'TYPE_INTEGER' }],
+      rows,
+    },
+  };
+}
+
+const FAKE_METADATA = {
+  dimensions: [
+    { apiName: 'date', uiName: 'Date', category: 'Time' },
+    { apiName: 'country', uiName: 'Country', category: 'Geography' },
+    { apiName: 'pagePath', uiName: 'Page path', category: 'Page / screen' },
+    { apiName: 'customEvent:plan_type', uiName: 'Plan type', category: 'Custom', customDefinition: true },
+  ],
+  metrics: [
+    { apiName: 'sessions', uiName: 'Sessions', category: 'Session', type: 'TYPE_INTEGER' },
+    { apiName: 'screenPageViews', uiName: 'Views', category: 'Page / screen', type: 'TYPE_INTEGER' },
+    { apiName: 'keyEvents:purchase', uiName: 'Key events (purchase)', category: 'Event', type: 'TYPE_INTEGER' },
+  ],
+};
+
+function createStubClient() {
+  const calls = [];
+  const metadataRequests = [];
+  return {
+    calls,
+    metadataRequests,
+    async getMetadata(request) {
+      metadataRequests.push(request);
+      return [FAKE_METADATA];
+    },
+    async runReport(request) {
+      calls.push({ method: 'runReport', request });
+      return [fakeReport(request)];
+    },
+    async batchRunReports(request) {
+      calls.push({ method: 'batchRunReports', request });
+      return [{ reports: request.requests.map(report => fakeReport(report)) }];
+    },
+    async runFunnelReport(request) {
+      calls.push({ method: 'runFunnelReport', request });
+      return [fakeFunnelReport(request)];
+    },
+    async runPivotReport(request) {
+      calls.push({ method: 'runPivotReport', request });
+      return [fakePivotReport(request)];
+    },
+    async runRealtimeReport(request) {
+      calls.push({ method: 'runRealtimeReport', request });
+      return [fakeReport(request)];
+    },
+  };
+}
+
+// Stub whose report holds `totalRows` rows and honours offset / limit like GA4
+function createPagedStubClient(totalRows) {
+  const stub = createStubClient();
+  stub.runReport = async request => {
+    stub.calls.push({ method: 'runReport', request });
+    const offset = Number(request.offset || 0);
+    const count = Math.max(0, Math.min(request.limit, totalRows - offset));
+    return [{
+      dimensionHeaders: [{ name: 'pagePath' }],
+      metricHeaders: [{ name: 'screenPageViews', type: 'TYPE_INTEGER' }],
+      rows: Array.from({ length: count }, (_, i) => ({
+        dimensionValues: [{ value: `/page-${offset + i}` }],
+        metricValues: [{ value: '1' }],
+      })),
+      totals: [],
+      rowCount: totalRows,
+    }];
+  };
+  return stub;
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { GA4DataClient, GA4DataClientRegistry } = await import('./dist/utils/ga4DataClient.js');
+  const { createToolHandlers, getToolDefinitions } = await import('./dist/tools/index.js');
+  const { listMetadataResources, readMetadataResource } = await import('./dist/resources/metadata.js');
+  const { initializeProductionCache, shutdownProductionCache } = await import('./dist/utils/productionCache.js');
+
+  function setup() {
+    const stub = createStubClient();
+    const dataClient = new GA4DataClient('123456789', stub, stub);
+    const handlers = createToolHandlers(() => dataClient);
+    return { stub, handlers };
+  }
+
+  test('every listed tool has a handler', async () => {
+    const { handlers } = setup();
+    const names = getToolDefinitions().map(tool => tool.name);
+    assert.deepStrictEqual(names.sort(), Array.from(handlers.keys()).sort());
+  });
+
+  test('query_analytics passes metrics, dimensions and limit through', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('query_analytics')({
+      metrics: ['sessions'],
+      dimensions: ['date'],
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      limit: 10,
+    });
+    const { request } = stub.calls[0];
+    assert.strictEqual(request.property, 'properties/123456789');
+    assert.deepStrictEqual(request.metrics, [{ name: 'sessions' }]);
+    assert.deepStrictEqual(request.dimensions, [{ name: 'date' }]);
+    assert.strictEqual(request.limit, 10);
+    assert.strictEqual(result.rows.length, 3);
+    assert.strictEqual(result.totals.sessions, 600);
+  });
+
+  test('get_traffic_sources adds channel grouping and computes shares', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_traffic_sources')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+    });
+    const { request } = stub.calls[0];
+    assert.deepStrictEqual(
+      request.dimensions.map(d => d.name),
+      ['sessionDefaultChannelGroup', 'sessionSource', 'sessionMedium']
+    );
+    assert.deepStrictEqual(request.orderBys, [{ metric: { metricName: 'sessions' }, desc: true }]);
+    assert.strictEqual(result.data[0].channelGroup, 'sessionDefaultChannelGroup-0');
+    assert.strictEqual(result.data[0].percentage, 50);
+    assert.strictEqual(result.data[0].engagementRate, 50);
+  });
+
+  test('get_traffic_sources without channels drops the grouping dimension', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_traffic_sources')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      includeChannels: false,
+    });
+    assert.deepStrictEqual(stub.calls[0].request.dimensions.map(d => d.name), ['sessionSource', 'sessionMedium']);
+    assert.strictEqual(result.data[0].channelGroup, undefined);
+  });
+
+  test('get_page_performance maps orderBy aliases and limit', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_page_performance')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      orderBy: 'avgTimeOnPage',
+      limit: 5,
+    });
+    const { request } = stub.calls[0];
+    assert.deepStrictEqual(request.orderBys, [{ metric: { metricName: 'userEngagementDuration' }, desc: true }]);
+    assert.strictEqual(request.limit, 5);
+    assert.strictEqual(result.data[0].pagePath, 'pagePath-0');
+    assert.strictEqual(result.data[0].avgTimeOnPage, 1);
+  });
+
+  test('get_page_performance rejects unknown sort fields', async () => {
+    const { handlers } = setup();
+    await assert.rejects(
+      handlers.get('get_page_performance')({ startDate: '2024-01-01', endDate: '2024-01-31', orderBy: 'nope' }),
+      error => error.code === 'INVALID_TOOL_PARAMS'
+    );
+  });
+
+  test('get_conversion_data skips the goal breakdown when includeGoals is false', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_conversion_data')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      includeGoals: false,
+    });
+    assert.strictEqual(stub.calls.length, 1);
+    assert.deepStrictEqual(result.data, []);
+    assert.strictEqual(result.totals.conversionRate, 100);
+  });
+
+  test('get_conversion_data breaks conversions down by event', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_conversion_data')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+    });
+    assert.strictEqual(stub.calls.length, 2);
+    assert.strictEqual(result.data.length, 3);
+    assert.strictEqual(result.data[0].conversionName, 'eventName-0');
+  });
+
+  test('get_user_demographics uses the breakdown dimensions', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_user_demographics')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      breakdown: 'location',
+    });
+    assert.deepStrictEqual(stub.calls[0].request.dimensions.map(d => d.name), ['country', 'city']);
+    assert.deepStrictEqual(result.data[0].segment, { country: 'country-0', city: 'city-0' });
+    assert.strictEqual(result.breakdown, 'location');
+  });
+
+  test('get_realtime_data reads totals from the single realtime row', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_realtime_data')({});
+    assert.strictEqual(stub.calls[0].method, 'runRealtimeReport');
+    assert.deepStrictEqual(stub.calls[0].request.metrics, [{ name: 'activeUsers' }]);
+    assert.strictEqual(result.activeUsers, 200);
+  });
+
+  test('relative dates resolve before the request is sent', async () => {
+    const { stub, handlers } = setup();
+    await handlers.get('query_analytics')({ metrics: ['sessions'], startDate: '7daysAgo', endDate: 'today' });
+    const [range] = stub.calls[0].request.dateRanges;
+    assert.match(range.startDate, /^\d{4}-\d{2}-\d{2}$/);
+    assert.strictEqual(range.endDate, new Date().toISOString().split('T')[0]);
+  });
+
+  test('registry falls back to the default property', async () => {
+    const registry = new GA4DataClientRegistry({ defaultPropertyId: '111', allowedPropertyIds: ['222'] });
+    assert.strictEqual(registry.getClient().getPropertyId(), '111');
+    assert.strictEqual(registry.getClient('properties/222').getPropertyId(), '222');
+    assert.strictEqual(registry.getClient('222'), registry.getClient('222'));
+  });
+
+  test('registry rejects properties outside the allow-list', async () => {
+    const registry = new GA4DataClientRegistry({ defaultPropertyId: '111' });
+    assert.throws(() => registry.getClient('333'), error => error.code === 'GA4_PROPERTY_ACCESS_DENIED');
+    assert.throws(() => registry.getClient('abc'), error => error.code === 'INVALID_TOOL_PARAMS');
+  });
+
+  test('caller allow-lists narrow the server allow-list', async () => {
+    const registry = new GA4DataClientRegistry({ defaultPropertyId: '111', allowedPropertyIds: ['222'] });
+    assert.strictEqual(registry.getClient('222', ['222']).getPropertyId(), '222');
+    assert.throws(() => registry.getClient('111', ['222']), error => error.code === 'GA4_PROPERTY_ACCESS_DENIED');
+  });
+
+  test('tool calls route propertyId through the resolver with the caller', async () => {
+    const seen = [];
+    const stub = createStubClient();
+    const handlers = createToolHandlers((propertyId, caller) => {
+      seen.push({ propertyId, caller });
+      return new GA4DataClient(propertyId || '123456789', stub);
+    });
+    await handlers.get('get_realtime_data')({ propertyId: '987654321' }, { id: 'dashboard' });
+    assert.deepStrictEqual(seen, [{ propertyId: '987654321', caller: { id: 'dashboard' } }]);
+    assert.strictEqual(stub.calls[0].request.property, 'properties/987654321');
+  });
+
+  test('query_analytics suggests the closest name for a misspelt metric', async () => {
+    const { stub, handlers } = setup();
+    await assert.rejects(
+      handlers.get('query_analytics')({ metrics: ['sesions'], startDate: '2024-01-01', endDate: '2024-01-31' }),
+      error => error.code === 'INVALID_TOOL_PARAMS' && /Did you mean "sessions"\?/.test(error.message)
+    );
+    assert.strictEqual(stub.calls.length, 0);
+  });
+
+  test('query_analytics rejects unknown dimensions', async () => {
+    const { handlers } = setup();
+    await assert.rejects(
+      handlers.get('query_analytics')({ metrics: ['sessions'], dimensions: ['countryy'], startDate: '2024-01-01', endDate: '2024-01-31' }),
+      error => /Unknown dimension "countryy".*Did you mean "country"/.test(error.message)
+    );
+  });
+
+  test('query_analytics still runs when metadata is unavailable', async () => {
+    const { stub, handlers } = setup();
+    stub.getMetadata = async () => { throw Object.assign(new Error('permission denied'), { code: 7 }); };
+    const result = await handlers.get('query_analytics')({ metrics: ['sessions'], startDate: '2024-01-01', endDate: '2024-01-31' });
+    assert.strictEqual(result.rows.length, 1);
+  });
+
+  test('query_analytics translates filter expressions for the Data API', async () => {
+    const { stub, handlers } = setup();
+    await handlers.get('query_analytics')({
+      metrics: ['sessions'],
+      dimensions: ['country'],
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      dimensionFilter: {
+        and: [
+          { field: 'country', inListFilter: { values: ['DE', 'AT'] } },
+          { not: { field: 'date', stringFilter: { value: '202401', matchType: 'BEGINS_WITH' } } },
+        ],
+      },
+      metricFilter: { field: 'sessions', betweenFilter: { from: 10, to: 99.5 } },
+    });
+    const { request } = stub.calls[0];
+    assert.deepStrictEqual(request.dimensionFilter, {
+      andGroup: {
+        expressions: [
+          { filter: { fieldName: 'country', inListFilter: { values: ['DE', 'AT'], caseSensitive: false } } },
+          { notExpression: { filter: { fieldName: 'date', stringFilter: { value: '202401', matchType: 'BEGINS_WITH', caseSensitive: false } } } },
+        ],
+      },
+    });
+    assert.deepStrictEqual(request.metricFilter, {
+      filter: { fieldName: 'sessions', betweenFilter: { fromValue: { int64Value: '10' }, toValue: { doubleValue: 99.5 } } },
+    });
+  });
+
+  test('query_analytics rejects malformed filter expressions', async () => {
+    const { stub, handlers } = setup();
+    await assert.rejects(
+      handlers.get('query_analytics')({
+        metrics: ['sessions'],
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+        dimensionFilter: { or: [{ field: 'country', numericFilter: { operation: 'ABOUT', value: 'x' } }] },
+      }),
+      error => error.code === 'INVALID_TOOL_PARAMS' &&
+        /dimensionFilter\.or\[0\]\.numericFilter\.operation/.test(error.message)
+    );
+    assert.strictEqual(stub.calls.length, 0);
+  });
+
+  test('query_analytics checks filter fields against metadata', async () => {
+    const { handlers } = setup();
+    await assert.rejects(
+      handlers.get('query_analytics')({
+        metrics: ['sessions'],
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+        dimensionFilter: { field: 'contry', stringFilter: { value: 'DE' } },
+      }),
+      error => /Did you mean "country"/.test(error.message)
+    );
+  });
+
+  test('query_analytics compares against the previous period', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('query_analytics')({
+      metrics: ['sessions'],
+      dimensions: ['country'],
+      startDate: '2024-03-01',
+      endDate: '2024-03-31',
+      compareTo: 'previous_period',
+      limit: 10,
+    });
+    const { request } = stub.calls[0];
+    assert.deepStrictEqual(request.dateRanges, [
+      { startDate: '2024-03-01', endDate: '2024-03-31', name: 'current' },
+      { startDate: '2024-01-30', endDate: '2024-02-29', name: 'previous' },
+    ]);
+    assert.strictEqual(request.limit, 20);
+    assert.strictEqual(result.rows.length, 3);
+    assert.deepStrictEqual(result.rows[0].dimensions, { country: 'country-0' });
+    assert.strictEqual(result.totals.sessions, 600);
+    assert.deepStrictEqual(result.comparison.totals.sessions, { current: 600, previous: 300, change: 300, changePercent: 100 });
+    assert.deepStrictEqual(result.comparison.rows[0].metrics.sessions, { current: 300, previous: 100, change: 200, changePercent: 200 });
+    // country-2 has no previous-period row
+    assert.deepStrictEqual(result.comparison.rows[2].metrics.sessions, { current: 100, previous: 0, change: 100, changePercent: 100 });
+  });
+
+  test('compareTo previous_year and custom ranges resolve to the right dates', async () => {
+    const { stub, handlers } = setup();
+    await handlers.get('get_traffic_sources')({ startDate: '2024-02-01', endDate: '2024-02-29', compareTo: 'previous_year' });
+    assert.deepStrictEqual(stub.calls[0].request.dateRanges[1], { startDate: '2023-02-01', endDate: '2023-02-28', name: 'previous' });
+
+    const result = await handlers.get('get_page_performance')({
+      startDate: '2024-02-01',
+      endDate: '2024-02-29',
+      compareTo: { startDate: '2023-11-01', endDate: '2023-11-30' },
+    });
+    assert.deepStrictEqual(stub.calls[1].request.dateRanges[1], { startDate: '2023-11-01', endDate: '2023-11-30', name: 'previous' });
+    assert.strictEqual(result.data.length, 3);
+    assert.strictEqual(result.comparison.totals.screenPageViews.changePercent, 100);
+
+    await assert.rejects(
+      handlers.get('get_user_demographics')({ startDate: '2024-02-01', endDate: '2024-02-29', compareTo: 'last_week' }),
+      error => error.code === 'INVALID_TOOL_PARAMS'
+    );
+  });
+
+  test('get_conversion_data compares summary totals and per-event rows', async () => {
+    const { handlers } = setup();
+    const result = await handlers.get('get_conversion_data')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      compareTo: 'previous_period',
+    });
+    assert.strictEqual(result.totals.sessions, 100);
+    assert.deepStrictEqual(result.comparison.totals.sessions, { current: 100, previous: 50, change: 50, changePercent: 100 });
+    assert.strictEqual(result.comparison.rows.length, 3);
+  });
+
+  test('runReportPaginated follows the offset until rowCount is exhausted', async () => {
+    const dataClient = new GA4DataClient('123456789', createPagedStubClient(25));
+    const options = { propertyId: '123456789', metrics: ['screenPageViews'], dimensions: ['pagePath'], dateRanges: [{ startDate: '2024-01-01', endDate: '2024-01-31' }] };
+
+    const pages = [];
+    for await (const page of dataClient.runReportPaginated(options, { pageSize: 10 })) {
+      pages.push(page.page);
+    }
+    assert.deepStrictEqual(pages.map(page => [page.offset, page.nextOffset]), [[0, 10], [10, 20], [20, null]]);
+
+    const limited = [];
+    for await (const page of dataClient.runReportPaginated(options, { pageSize: 10, maxRows: 15 })) {
+      limited.push(page.rows.length);
+    }
+    assert.deepStrictEqual(limited, [10, 5]);
+  });
+
+  test('runReportPaginated stops before exceeding the quota ceiling', async () => {
+    const dataClient = new GA4DataClient('123456789', createPagedStubClient(25));
+    const options = { propertyId: '123456789', metrics: ['screenPageViews'], dateRanges: [{ startDate: '2024-01-01', endDate: '2024-01-31' }] };
+    process.env.GA4_PAGINATION_QUOTA_CEILING = '0';
+    try {
+      await assert.rejects(
+        dataClient.runReportPaginated(options, { pageSize: 10 }).next(),
+        error => error.code === 'GA4_QUOTA_EXCEEDED' && error.details.resumeOffset === 0
+      );
+    } finally {
+      delete process.env.GA4_PAGINATION_QUOTA_CEILING;
+    }
+  });
+
+  test('query_analytics hands out a cursor that continues the same query', async () => {
+    const stub = createPagedStubClient(25);
+    const handlers = createToolHandlers(propertyId => new GA4DataClient(propertyId || '123456789', stub));
+
+    const first = await handlers.get('query_analytics')({
+      metrics: ['screenPageViews'],
+      dimensions: ['pagePath'],
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      limit: 20,
+      paginate: true,
+    });
+    assert.strictEqual(first.rows.length, 20);
+    assert.strictEqual(typeof first.nextCursor, 'string');
+
+    const second = await handlers.get('query_analytics')({ cursor: first.nextCursor });
+    assert.strictEqual(second.rows[0].dimensions.pagePath, '/page-20');
+    assert.strictEqual(second.nextCursor, null);
+    assert.deepStrictEqual(stub.calls[1].request.dateRanges, stub.calls[0].request.dateRanges);
+    assert.strictEqual(stub.calls[1].request.offset, 20);
+
+    await assert.rejects(
+      handlers.get('query_analytics')({ cursor: 'not-a-cursor' }),
+      error => error.code === 'INVALID_TOOL_PARAMS'
+    );
+  });
+
+  test('query_analytics validates the query carried by a cursor like a fresh call', async () => {
+    const stub = createPagedStubClient(25);
+    const handlers = createToolHandlers(propertyId => new GA4DataClient(propertyId || '123456789', stub));
+    const first = await handlers.get('query_analytics')({
+      metrics: ['screenPageViews'],
+      dimensions: ['pagePath'],
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      limit: 10,
+      paginate: true,
+    });
+    const cursor = JSON.parse(Buffer.from(first.nextCursor, 'base64url').toString('utf8'));
+    const tamper = changes => Buffer.from(JSON.stringify({ ...cursor, args: { ...cursor.args, ...changes } })).toString('base64url');
+    const callsBefore = stub.calls.filter(call => call.method === 'runReport').length;
+
+    await assert.rejects(
+      handlers.get('query_analytics')({ cursor: tamper({ dimensions: ['pagePathh'] }) }),
+      error => error.code === 'INVALID_TOOL_PARAMS' && /Unknown dimension "pagePathh"/.test(error.message)
+    );
+    await assert.rejects(
+      handlers.get('query_analytics')({ cursor: tamper({ metrics: [] }) }),
+      error => error.code === 'INVALID_TOOL_PARAMS'
+    );
+    await assert.rejects(
+      handlers.get('query_analytics')({ cursor: tamper({ dimensionFilter: { fieldFilter: { field: 'pagePath' } } }) }),
+      error => error.code === 'INVALID_TOOL_PARAMS'
+    );
+    assert.strictEqual(stub.calls.filter(call => call.method === 'runReport').length, callsBefore);
+  });
+
+  test('batch_query_analytics runs every report in one call, keyed per spec', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('batch_query_analytics')({
+      reports: [
+        { id: 'byCountry', metrics: ['sessions'], dimensions: ['country'], startDate: '2024-01-01', endDate: '2024-01-31' },
+        { metrics: ['screenPageViews'], startDate: '2024-01-01', endDate: '2024-01-31', limit: 5 },
+      ],
+    });
+    assert.strictEqual(stub.calls.length, 1);
+    assert.strictEqual(stub.calls[0].method, 'batchRunReports');
+    assert.strictEqual(stub.calls[0].request.property, 'properties/123456789');
+    assert.strictEqual(stub.calls[0].request.requests[1].limit, 5);
+    assert.deepStrictEqual(Object.keys(result.reports), ['byCountry', 'report_1']);
+    assert.strictEqual(result.reports.byCountry.rows.length, 3);
+    assert.strictEqual(result.reports.report_1.totals.screenPageViews, 200);
+  });
+
+  test('batch_query_analytics only sends sub-reports missing from the production cache', async () => {
+    initializeProductionCache({ enableCacheWarming: false });
+    try {
+      const { stub, handlers } = setup();
+      const sessions = { metrics: ['sessions'], dimensions: ['date'], startDate: '2024-02-01', endDate: '2024-02-29' };
+      await handlers.get('query_analytics')(sessions);
+
+      // A fresh client only shares the production cache with the first one
+      const dataClient = new GA4DataClient('123456789', stub);
+      const result = await createToolHandlers(() => dataClient).get('batch_query_analytics')({
+        reports: [sessions, { metrics: ['screenPageViews'], startDate: '2024-02-01', endDate: '2024-02-29' }],
+      });
+      assert.strictEqual(stub.calls.length, 2);
+      assert.strictEqual(stub.calls[1].request.requests.length, 1);
+      assert.deepStrictEqual(stub.calls[1].request.requests[0].metrics, [{ name: 'screenPageViews' }]);
+      assert.strictEqual(result.metadata.cachedReports, 1);
+      assert.strictEqual(result.reports.report_0.rows.length, 3);
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('batch_query_analytics rejects more than five reports and duplicate ids', async () => {
+    const { stub, handlers } = setup();
+    const spec = { metrics: ['sessions'], startDate: '2024-01-01', endDate: '2024-01-31' };
+    await assert.rejects(
+      handlers.get('batch_query_analytics')({ reports: Array.from({ length: 6 }, () => spec) }),
+      error => error.code === 'INVALID_TOOL_PARAMS'
+    );
+    await assert.rejects(
+      handlers.get('batch_query_analytics')({ reports: [{ ...spec, id: 'a' }, { ...spec, id: 'a' }] }),
+      error => /Duplicate report id: a/.test(error.message)
+    );
+    assert.strictEqual(stub.calls.length, 0);
+  });
+
+  test('get_funnel_report builds a closed funnel and reports per-step completion', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_funnel_report')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      steps: [{ eventName: 'view_item' }, { eventName: 'add_to_cart' }, { name: 'Checkout', pagePath: '/checkout', directlyFollowedBy: true }],
+    });
+    const { request } = stub.calls[0];
+    assert.strictEqual(stub.calls[0].method, 'runFunnelReport');
+    assert.strictEqual(request.funnel.isOpenFunnel, false);
+    assert.deepStrictEqual(request.funnel.steps[0].filterExpression, { funnelEventFilter: { eventName: 'view_item' } });
+    assert.strictEqual(request.funnel.steps[2].isDirectlyFollowedBy, true);
+    assert.strictEqual(request.funnel.steps[2].filterExpression.andGroup.expressions[1].funnelFieldFilter.stringFilter.value, '/checkout');
+    assert.deepStrictEqual(result.steps.map(step => step.activeUsers), [1000, 400, 160]);
+    assert.deepStrictEqual(result.steps[0], {
+      step: 1, name: 'view_item', activeUsers: 1000, completionRate: 40, abandonments: 600, abandonmentRate: 60,
+    });
+    assert.strictEqual(result.steps[2].completionRate, null);
+    assert.strictEqual(result.completionRate, 16);
+  });
+
+  test('get_funnel_report splits steps by the breakdown dimension', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_funnel_report')({
+      steps: [{ eventName: 'view_item' }, { eventName: 'purchase' }],
+      openFunnel: true,
+      breakdownDimension: 'deviceCategory',
+    });
+    assert.strictEqual(stub.calls[0].request.funnel.isOpenFunnel, true);
+    assert.strictEqual(stub.calls[0].request.funnelBreakdown.breakdownDimension.name, 'deviceCategory');
+    assert.deepStrictEqual(result.steps.map(step => step.activeUsers), [1000, 400]);
+    assert.deepStrictEqual(result.breakdown.segments.map(segment => segment.value), ['mobile', 'desktop']);
+    assert.deepStrictEqual(result.breakdown.segments[1].steps.map(step => step.activeUsers), [250, 100]);
+  });
+
+  test('get_funnel_report rejects steps without exactly one target', async () => {
+    const { stub, handlers } = setup();
+    await assert.rejects(
+      handlers.get('get_funnel_report')({ steps: [{ eventName: 'a' }, { eventName: 'b', pagePath: '/b' }] }),
+      error => /Funnel step 2 needs exactly one of eventName or pagePath/.test(error.message)
+    );
+    await assert.rejects(
+      handlers.get('get_funnel_report')({ steps: [{ eventName: 'a' }] }),
+      error => error.code === 'INVALID_TOOL_PARAMS'
+    );
+    assert.strictEqual(stub.calls.length, 0);
+  });
+
+  test('get_funnel_report results are shared across clients through the production cache', async () => {
+    initializeProductionCache({ enableCacheWarming: false });
+    try {
+      const stub = createStubClient();
+      const funnel = { startDate: '2024-01-01', endDate: '2024-01-31', steps: [{ eventName: 'view_item' }, { eventName: 'purchase' }] };
+      const first = await createToolHandlers(() => new GA4DataClient('123456789', stub, stub)).get('get_funnel_report')(funnel);
+      // A fresh client only shares the production cache with the first one
+      const cached = await createToolHandlers(() => new GA4DataClient('123456789', stub, stub)).get('get_funnel_report')(funnel);
+      assert.strictEqual(stub.calls.length, 1);
+      assert.deepStrictEqual(cached.steps, first.steps);
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('get_cohort_retention builds weekly cohorts and a retention matrix', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_cohort_retention')({
+      startDate: '2024-01-01',
+      endDate: '2024-01-21',
+      periods: 3,
+    });
+    const { request } = stub.calls[0];
+    assert.deepStrictEqual(request.dateRanges, []);
+    assert.deepStrictEqual(request.dimensions, [{ name: 'cohort' }, { name: 'cohortNthWeek' }]);
+    assert.deepStrictEqual(request.cohortSpec.cohorts.map(cohort => cohort.dateRange), [
+      { startDate: '2024-01-01', endDate: '2024-01-07' },
+      { startDate: '2024-01-08', endDate: '2024-01-14' },
+      { startDate: '2024-01-15', endDate: '2024-01-21' },
+    ]);
+    assert.deepStrictEqual(request.cohortSpec.cohortsRange, { granularity: 'WEEKLY', startOffset: 0, endOffset: 2 });
+    assert.deepStrictEqual(result.periods, [0, 1, 2]);
+    assert.strictEqual(result.cohorts[0].cohortSize, 100);
+    assert.deepStrictEqual(result.cohorts[0].retention, [100, 50, 25]);
+    assert.deepStrictEqual(result.cohorts[2].values, [100, null, null]);
+    assert.deepStrictEqual(result.averageRetention, [100, 50, 25]);
+  });
+
+  test('get_cohort_retention uses calendar months and caps the cohort count', async () => {
+    const { stub, handlers } = setup();
+    await handlers.get('get_cohort_retention')({ startDate: '2024-01-15', endDate: '2024-03-10', granularity: 'monthly' });
+    assert.deepStrictEqual(stub.calls[0].request.cohortSpec.cohorts.map(cohort => cohort.dateRange), [
+      { startDate: '2024-01-15', endDate: '2024-01-31' },
+      { startDate: '2024-02-01', endDate: '2024-02-29' },
+      { startDate: '2024-03-01', endDate: '2024-03-10' },
+    ]);
+    assert.strictEqual(stub.calls[0].request.dimensions[1].name, 'cohortNthMonth');
+    await assert.rejects(
+      handlers.get('get_cohort_retention')({ startDate: '2024-01-01', endDate: '2024-01-31', granularity: 'daily' }),
+      error => error.code === 'INVALID_TOOL_PARAMS' && /31 daily cohorts/.test(error.message)
+    );
+  });
+
+  test('get_cohort_retention results are shared across clients through the production cache', async () => {
+    initializeProductionCache({ enableCacheWarming: false });
+    try {
+      const stub = createStubClient();
+      const cohorts = { startDate: '2024-01-01', endDate: '2024-01-21', periods: 3 };
+      const first = await createToolHandlers(() => new GA4DataClient('123456789', stub, stub)).get('get_cohort_retention')(cohorts);
+      const cached = await createToolHandlers(() => new GA4DataClient('123456789', stub, stub)).get('get_cohort_retention')(cohorts);
+      assert.strictEqual(stub.calls.length, 1);
+      assert.deepStrictEqual(cached.cohorts, first.cohorts);
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('query_pivot sends per-pivot limits and orderBys and nests rows in pivot order', async () => {
+    const { stub, handlers } = setup();
+    const args = {
+      metrics: ['sessions'],
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      pivots: [
+        { fieldNames: ['country'], limit: 2, orderBy: [{ metric: 'sessions', desc: true }] },
+        { fieldNames: ['pagePath'], limit: 3 },
+      ],
+    };
+    const result = await handlers.get('query_pivot')(args);
+    const { request } = stub.calls[0];
+    assert.strictEqual(stub.calls[0].method, 'runPivotReport');
+    assert.deepStrictEqual(request.dimensions, [{ name: 'country' }, { name: 'pagePath' }]);
+    assert.deepStrictEqual(request.pivots[0], {
+      fieldNames: ['country'], limit: 2, orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
+    });
+    assert.strictEqual(request.pivots[1].limit, 3);
+    assert.strictEqual(result.rows.length, 6);
+    assert.deepStrictEqual(result.rows[0], { dimensions: { country: 'country-a', pagePath: 'pagePath-x' }, metrics: { sessions: 10 } });
+    assert.deepStrictEqual(result.nested.map(node => node.key), ['country-b', 'country-a']);
+    assert.deepStrictEqual(result.nested[0].children.map(node => [node.key, node.metrics.sessions]), [
+      ['pagePath-z', 22], ['pagePath-y', 21], ['pagePath-x', 20],
+    ]);
+    assert.deepStrictEqual(result.pivots[1].values, [['pagePath-z'], ['pagePath-y'], ['pagePath-x']]);
+
+    // Served from the report cache on repeat
+    await handlers.get('query_pivot')(args);
+    assert.strictEqual(stub.calls.length, 1);
+  });
+
+  test('query_pivot validates pivot fields and the pivot limit product', async () => {
+    const { stub, handlers } = setup();
+    const base = { metrics: ['sessions'], startDate: '2024-01-01', endDate: '2024-01-31' };
+    await assert.rejects(
+      handlers.get('query_pivot')({ ...base, pivots: [{ fieldNames: ['countryy'] }] }),
+      error => /Did you mean "country"/.test(error.message)
+    );
+    await assert.rejects(
+      handlers.get('query_pivot')({ ...base, pivots: [{ fieldNames: ['country'], limit: 1000 }, { fieldNames: ['pagePath'], limit: 1000 }] }),
+      error => error.code === 'INVALID_TOOL_PARAMS' && /exceeds 100000/.test(error.message)
+    );
+    assert.strictEqual(stub.calls.length, 0);
+  });
+
+  test('get_metadata lists custom definitions and key events', async () => {
+    const { stub, handlers } = setup();
+    const result = await handlers.get('get_metadata')({ customOnly: true });
+    assert.strictEqual(stub.metadataRequests[0].name, 'properties/123456789/metadata');
+    assert.deepStrictEqual(result.dimensions.map(d => d.apiName), ['customEvent:plan_type']);
+    assert.deepStrictEqual(result.metrics, []);
+    assert.deepStrictEqual(result.keyEvents, ['purchase']);
+  });
+
+  test('metadata is fetched once per property through the production cache', async () => {
+    initializeProductionCache({ enableCacheWarming: false });
+    try {
+      const { stub, handlers } = setup();
+      await handlers.get('get_metadata')({ type: 'metrics' });
+      await handlers.get('query_analytics')({ metrics: ['sessions'], startDate: '2024-01-01', endDate: '2024-01-31' });
+      assert.strictEqual(stub.metadataRequests.length, 1);
+      await handlers.get('get_metadata')({ refresh: true });
+      assert.strictEqual(stub.metadataRequests.length, 2);
+    } finally {
+      await shutdownProductionCache();
+    }
+  });
+
+  test('metadata resources are listed and readable per property', async () => {
+    const stub = createStubClient();
+    const resources = listMetadataResources(['111', '222']);
+    assert.strictEqual(resources.length, 6);
+    assert.ok(resources.some(resource => resource.uri === 'ga4://222/metadata/key-events'));
+
+    const result = await readMetadataResource('ga4://222/metadata/dimensions', propertyId => new GA4DataClient(propertyId, stub));
+    const content = JSON.parse(result.contents[0].text);
+    assert.strictEqual(content.propertyId, '222');
+    assert.strictEqual(content.dimensions.length, 4);
+    await assert.rejects(
+      readMetadataResource('ga4://222/metadata/nope', () => { throw new Error('unreachable'); }),
+      error => error.code === 'INVALID_PARAMS'
+    );
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
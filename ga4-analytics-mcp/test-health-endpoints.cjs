@@ -44,7 +44,7 @@ function testEndpoints() {
   const endpoints = [
     { path: '/health', name: 'Health Check' },
     { path: '/status', name: 'Status' },
-    { path: '/metrics', name: 'Metrics' },
+    { path: '/metrics/json', name: 'Metrics' },
     { path: '/diagnostics', name: 'Diagnostics' },
     { path: '/ping', name: 'Ping' }
   ];
@@ -0,0 +1,227 @@
+/**
+ * Incident alert delivery tests against a local HTTP sink and a fake SMTP server
+ *
+ * Run after `npm run build`: node test-incident-alerts.cjs
+ */
+
+const assert = require('assert');
+const crypto = require('crypto');
+const http = require('http');
+const net = require('net');
+
+console.log('🧪 INCIDENT ALERTS: webhook, Slack and SMTP delivery');
+console.log('===================================================\n');
+
+// HTTP sink answering with the queued statuses (then 200) and recording each request
+async function startHttpSink(statuses = []) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ path: req.url, headers: req.headers, body });
+      res.writeHead(statuses.shift() || 200).end('ok');
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${server.address().port}/hook`,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+// SMTP server speaking just enough of the protocol to accept one message per session
+async function startFakeSmtp() {
+  const messages = [];
+  const server = net.createServer(socket => {
+    const session = { commands: [], data: '' };
+    let inData = false;
+    let buffer = '';
+    socket.write('220 fake.smtp ready\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        session.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        messages.push(session);
+        socket.write('250 queued\r\n');
+      }
+      let newline;
+      while (!inData && (newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        session.commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-fake.smtp\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 authenticated\r\n');
+        else if (verb === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+        else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { port: server.address().port, messages, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { IncidentManager, IncidentSeverity, AlertChannel } = await import('./dist/utils/incidentResponse.js');
+  const { WebhookNotifier, SlackNotifier, SmtpNotifier, signWebhookBody } = await import('./dist/utils/alertNotifiers.js');
+
+  function createManager(channels, notifiers) {
+    return new IncidentManager({
+      enabled: false,
+      autoResponse: false,
+      retryAttempts: 3,
+      notificationChannels: channels,
+      notifiers,
+      delivery: { retryBaseDelay: 5, dedupeWindow: 60000 },
+    });
+  }
+
+  const deliveries = incident => incident.timeline.filter(event => event.type === 'alert_delivery');
+
+  test('webhook alerts are HMAC-signed and recorded on the timeline', async () => {
+    const sink = await startHttpSink();
+    const manager = createManager([AlertChannel.WEBHOOK], {
+      webhook: new WebhookNotifier({ url: sink.url, secret: 'hook-secret' }),
+    });
+    try {
+      const incident = await manager.createIncident('GA4 errors', 'Error rate above 5%', IncidentSeverity.HIGH, 'ga4_api', 'Reports failing');
+      assert.strictEqual(sink.requests.length, 1);
+      const { headers, body } = sink.requests[0];
+      const expected = crypto.createHmac('sha256', 'hook-secret').update(`${headers['x-incident-timestamp']}.${body}`).digest('hex');
+      assert.strictEqual(headers['x-incident-signature'], `sha256=${expected}`);
+      assert.strictEqual(signWebhookBody('hook-secret', headers['x-incident-timestamp'], body), expected);
+
+      const payload = JSON.parse(body);
+      assert.strictEqual(payload.incidentId, incident.id);
+      assert.strictEqual(payload.fingerprint, incident.fingerprint);
+      assert.strictEqual(payload.alertType, 'Incident Created');
+
+      const [delivery] = deliveries(incident);
+      assert.strictEqual(delivery.data.status, 'delivered');
+      assert.strictEqual(delivery.data.channel, 'webhook');
+    } finally {
+      manager.shutdown();
+      await sink.close();
+    }
+  });
+
+  test('transient failures are retried with backoff, permanent ones are not', async () => {
+    const sink = await startHttpSink([503, 502]);
+    const manager = createManager([AlertChannel.WEBHOOK], { webhook: new WebhookNotifier({ url: sink.url }) });
+    try {
+      const retried = await manager.createIncident('Cache down', 'Redis unreachable', IncidentSeverity.HIGH, 'cache', 'Slow reports');
+      assert.strictEqual(sink.requests.length, 3);
+      assert.deepStrictEqual(
+        { status: deliveries(retried)[0].data.status, attempts: deliveries(retried)[0].data.attempts },
+        { status: 'delivered', attempts: 3 }
+      );
+
+      const rejecting = await startHttpSink([400]);
+      const rejected = await createManager([AlertChannel.WEBHOOK], { webhook: new WebhookNotifier({ url: rejecting.url }) })
+        .createIncident('Bad payload', 'Rejected', IncidentSeverity.LOW, 'monitoring', 'None');
+      await rejecting.close();
+      const [failure] = deliveries(rejected);
+      assert.strictEqual(failure.data.status, 'failed');
+      assert.strictEqual(failure.data.attempts, 1);
+      assert.match(failure.description, /answered 400/);
+    } finally {
+      manager.shutdown();
+      await sink.close();
+    }
+  });
+
+  test('repeat incidents with the same fingerprint are not re-sent', async () => {
+    const sink = await startHttpSink();
+    const manager = createManager([AlertChannel.WEBHOOK], { webhook: new WebhookNotifier({ url: sink.url }) });
+    try {
+      const first = await manager.createIncident('High Error Rate', 'Errors', IncidentSeverity.HIGH, 'monitoring', 'Alert');
+      const second = await manager.createIncident('High Error Rate', 'Errors again', IncidentSeverity.HIGH, 'monitoring', 'Alert');
+      assert.strictEqual(first.fingerprint, second.fingerprint);
+      assert.notStrictEqual(first.id, second.id);
+      assert.strictEqual(sink.requests.length, 1);
+      assert.strictEqual(deliveries(second)[0].data.status, 'deduplicated');
+
+      // Escalation is a different alert for the same fingerprint
+      await manager.escalateIncident(second.id);
+      assert.strictEqual(sink.requests.length, 2);
+    } finally {
+      manager.shutdown();
+      await sink.close();
+    }
+  });
+
+  test('Slack alerts use the incoming-webhook payload', async () => {
+    const sink = await startHttpSink();
+    const manager = createManager([AlertChannel.SLACK], {
+      slack: new SlackNotifier({ webhookUrl: sink.url, channel: '#alerts' }),
+    });
+    try {
+      await manager.createIncident('Quota nearly exhausted', 'GA4 tokens at 95%', IncidentSeverity.CRITICAL, 'ga4_api', 'Queries may fail');
+      const payload = JSON.parse(sink.requests[0].body);
+      assert.strictEqual(payload.channel, '#alerts');
+      assert.match(payload.text, /Incident Created\*: Quota nearly exhausted/);
+      assert.strictEqual(payload.attachments[0].color, '#d00000');
+      assert.ok(payload.attachments[0].fields.some(field => field.title === 'Component' && field.value === 'ga4_api'));
+    } finally {
+      manager.shutdown();
+      await sink.close();
+    }
+  });
+
+  test('email alerts are delivered over SMTP', async () => {
+    const smtp = await startFakeSmtp();
+    const manager = createManager([AlertChannel.EMAIL], {
+      email: new SmtpNotifier({
+        host: '127.0.0.1', port: smtp.port, username: 'alerts', password: 'pw',
+        from: 'mcp@example.com', to: ['oncall@example.com', 'lead@example.com'],
+      }),
+    });
+    try {
+      const incident = await manager.createIncident('Auth failing', '.env credentials rejected', IncidentSeverity.HIGH, 'security', 'No data');
+      assert.strictEqual(smtp.messages.length, 1);
+      const [message] = smtp.messages;
+      const auth = message.commands.find(command => command.startsWith('AUTH PLAIN '));
+      assert.strictEqual(Buffer.from(auth.slice(11), 'base64').toString(), '\0alerts\0pw');
+      assert.ok(message.commands.includes('MAIL FROM:<mcp@example.com>'));
+      assert.ok(message.commands.includes('RCPT TO:<lead@example.com>'));
+      assert.match(message.data, /Subject: \[HIGH\] Incident Created: Auth failing/);
+      assert.match(message.data, /\r\n\r\n\.\.env credentials rejected/);
+      assert.strictEqual(deliveries(incident)[0].data.status, 'delivered');
+    } finally {
+      manager.shutdown();
+      await smtp.close();
+    }
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,238 @@
+/**
+ * OTLP trace export and W3C traceparent propagation tests against a
+ * local OTLP/HTTP receiver stub
+ *
+ * Run after `npm run build`: node test-otlp-tracing.cjs
+ */
+
+const assert = require('assert');
+const http = require('http');
+
+console.log('🧪 OTLP TRACING: export and traceparent propagation');
+console.log('===================================================\n');
+
+// OTLP/HTTP receiver answering with the queued statuses (then 200)
+async function startOtlpReceiver(statuses = []) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ path: req.url, headers: req.headers, body: JSON.parse(body) });
+      res.writeHead(statuses.shift() || 200, { 'content-type': 'application/json' }).end('{}');
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    endpoint: `http://127.0.0.1:${server.address().port}/v1/traces`,
+    requests,
+    spans: () => requests.flatMap(request => request.body.resourceSpans[0].scopeSpans[0].spans),
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+function finishedSpan(overrides = {}) {
+  return {
+    id: 'b7ad6b7169203331',
+    traceId: '0af7651916cd43dd8448eb211c80319c',
+    operationName: 'op',
+    startTime: 1700000000000,
+    endTime: 1700000000250,
+    duration: 250,
+    status: 'ok',
+    tags: { component: 'TEST' },
+    logs: [],
+    component: 'TEST',
+    ...overrides,
+  };
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { parseTraceparent, formatTraceparent } = await import('./dist/utils/traceContext.js');
+  const { OtlpTraceExporter, loadOtlpExporterConfig, toOtlpSpan } = await import('./dist/utils/otlpExporter.js');
+  const { apmMonitor } = await import('./dist/utils/apmMonitoring.js');
+  const { startHttpMcpBridge } = await import('./dist/utils/httpMcpBridge.js');
+  const { GA4DataClient } = await import('./dist/utils/ga4DataClient.js');
+  const { createToolHandlers } = await import('./dist/tools/index.js');
+
+  test('traceparent headers parse and format per W3C Trace Context', async () => {
+    const header = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+    const context = parseTraceparent(header);
+    assert.deepStrictEqual(context, { traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331', sampled: true });
+    assert.strictEqual(formatTraceparent(context), header);
+    assert.strictEqual(parseTraceparent('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00').sampled, false);
+
+    // Future versions may append fields; version 00 may not
+    assert.ok(parseTraceparent('01-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01-extra'));
+    for (const invalid of [
+      undefined,
+      'garbage',
+      '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01-extra',
+      'ff-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      '00-00000000000000000000000000000000-b7ad6b7169203331-01',
+      '00-0af7651916cd43dd8448eb211c80319c-0000000000000000-01',
+    ]) {
+      assert.strictEqual(parseTraceparent(invalid), undefined, String(invalid));
+    }
+  });
+
+  test('spans convert to OTLP and config comes from OTEL_* variables', async () => {
+    const span = toOtlpSpan(finishedSpan({
+      parentSpanId: '00f067aa0ba902b7',
+      status: 'error',
+      tags: { component: 'GA4_API', 'span.kind': 'client', rows: 12, ratio: 0.5, cached: false },
+      error: { message: 'quota', type: 'Error' },
+      logs: [{ timestamp: 1700000000100, level: 'warn', message: 'retrying', fields: { attempt: 2 } }],
+    }));
+    assert.strictEqual(span.kind, 3);
+    assert.strictEqual(span.parentSpanId, '00f067aa0ba902b7');
+    assert.strictEqual(span.startTimeUnixNano, '1700000000000000000');
+    assert.strictEqual(span.endTimeUnixNano, '1700000000250000000');
+    assert.deepStrictEqual(span.status, { code: 2, message: 'quota' });
+    assert.deepStrictEqual(span.attributes.find(attribute => attribute.key === 'rows').value, { intValue: '12' });
+    assert.deepStrictEqual(span.attributes.find(attribute => attribute.key === 'ratio').value, { doubleValue: 0.5 });
+    assert.ok(!span.attributes.some(attribute => attribute.key === 'span.kind'));
+    assert.strictEqual(span.events[0].name, 'retrying');
+
+    assert.strictEqual(loadOtlpExporterConfig({}), undefined);
+    const config = loadOtlpExporterConfig({
+      OTEL_EXPORTER_OTLP_ENDPOINT: 'http://collector:4318/',
+      OTEL_EXPORTER_OTLP_HEADERS: 'x-api-key=abc,x-team=a%20b',
+      OTEL_BSP_MAX_QUEUE_SIZE: '100',
+    });
+    assert.strictEqual(config.endpoint, 'http://collector:4318/v1/traces');
+    assert.deepStrictEqual(config.headers, { 'x-api-key': 'abc', 'x-team': 'a b' });
+    assert.strictEqual(config.maxQueueSize, 100);
+  });
+
+  test('exporter batches spans, bounds its queue and retries the collector', async () => {
+    const receiver = await startOtlpReceiver([503]);
+    const exporter = new OtlpTraceExporter({
+      endpoint: receiver.endpoint,
+      headers: { 'x-api-key': 'secret' },
+      maxQueueSize: 2,
+      maxExportBatchSize: 2,
+      scheduledDelayMs: 60000,
+      retryBaseDelayMs: 5,
+    });
+    try {
+      for (let i = 0; i < 5; i++) {
+        exporter.export(finishedSpan({ id: `00000000000000a${i}` }));
+      }
+      await exporter.shutdown();
+
+      // The first full batch left the queue as its export began, so only the fifth span found it full
+      assert.deepStrictEqual(exporter.getStats(), { queued: 0, exported: 4, dropped: 1, failedBatches: 0 });
+
+      assert.strictEqual(receiver.requests[0].path, '/v1/traces');
+      assert.strictEqual(receiver.requests[0].headers['x-api-key'], 'secret');
+      // The first attempt got 503 and the same batch was sent again
+      assert.deepStrictEqual(receiver.requests[0].body, receiver.requests[1].body);
+      assert.ok(receiver.requests.every(request => request.body.resourceSpans[0].scopeSpans[0].spans.length <= 2));
+      assert.deepStrictEqual(receiver.requests[0].body.resourceSpans[0].resource.attributes[0],
+        { key: 'service.name', value: { stringValue: 'ga4-analytics-mcp' } });
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  test('a bridge request continues the caller trace down to the GA4 call', async () => {
+    const receiver = await startOtlpReceiver();
+    apmMonitor.setTraceExporter(new OtlpTraceExporter({ endpoint: receiver.endpoint, scheduledDelayMs: 60000 }));
+
+    const gaCalls = [];
+    const stub = {
+      async getMetadata() {
+        return [{ metrics: [{ apiName: 'sessions' }], dimensions: [] }];
+      },
+      async runReport(request, callOptions) {
+        gaCalls.push(callOptions);
+        return [{ dimensionHeaders: [], metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }], rows: [], totals: [], rowCount: 0 }];
+      },
+    };
+    const handlers = createToolHandlers(propertyId => new GA4DataClient(propertyId || '123456789', stub));
+    const bridge = await startHttpMcpBridge({}, handlers, { port: 0, host: '127.0.0.1' });
+
+    try {
+      const incoming = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+      const response = await fetch(`http://127.0.0.1:${bridge.server.address().port}/mcp/rpc`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', traceparent: incoming },
+        body: JSON.stringify({
+          jsonrpc: '2.0', id: 1, method: 'tools/call',
+          params: { name: 'query_analytics', arguments: { metrics: ['sessions'], startDate: '2024-01-01', endDate: '2024-01-07' } },
+        }),
+      });
+      assert.ok(!(await response.json()).error);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await apmMonitor.flushTraces();
+
+      const spans = receiver.spans().filter(span => span.traceId === '4bf92f3577b34da6a3ce929d0e0e4736');
+      const server = spans.find(span => span.name === 'POST /mcp/rpc');
+      const tool = spans.find(span => span.name === 'mcp_tool_call');
+      const ga4 = spans.find(span => span.name === 'ga4_api_call' &&
+        span.attributes.some(attribute => attribute.key === 'rpc.method' && attribute.value.stringValue === 'runReport'));
+      assert.ok(server && tool && ga4, `spans: ${spans.map(span => span.name).join(', ')}`);
+
+      assert.strictEqual(server.parentSpanId, '00f067aa0ba902b7');
+      assert.strictEqual(server.kind, 2);
+      assert.strictEqual(tool.parentSpanId, server.spanId);
+      assert.strictEqual(ga4.parentSpanId, tool.spanId);
+      assert.strictEqual(ga4.kind, 3);
+      assert.ok(server.attributes.some(attribute => attribute.key === 'http.status_code' && attribute.value.intValue === '200'));
+
+      // The GA4 request carries the GA4 span as its parent
+      assert.deepStrictEqual(gaCalls[0], {
+        otherArgs: { headers: { traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${ga4.spanId}-01` } },
+      });
+    } finally {
+      await bridge.stop();
+      apmMonitor.setTraceExporter(undefined);
+      await receiver.close();
+    }
+  });
+
+  test('unsampled incoming traces are propagated but not exported', async () => {
+    const receiver = await startOtlpReceiver();
+    apmMonitor.setTraceExporter(new OtlpTraceExporter({ endpoint: receiver.endpoint, scheduledDelayMs: 60000 }));
+    const bridge = await startHttpMcpBridge({}, new Map(), { port: 0, host: '127.0.0.1' });
+    try {
+      await fetch(`http://127.0.0.1:${bridge.server.address().port}/health`, {
+        headers: { traceparent: '00-5bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00' },
+      }).then(response => response.text());
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await apmMonitor.flushTraces();
+      assert.strictEqual(receiver.spans().filter(span => span.traceId === '5bf92f3577b34da6a3ce929d0e0e4736').length, 0);
+      assert.strictEqual(apmMonitor.getTrace('5bf92f3577b34da6a3ce929d0e0e4736').sampled, false);
+    } finally {
+      await bridge.stop();
+      apmMonitor.setTraceExporter(undefined);
+      await receiver.close();
+    }
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
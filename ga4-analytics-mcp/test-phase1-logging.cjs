@@ -11,7 +11,7 @@ async function testPhase1Logging() {
   
   // Test 1: Check that all required files exist
   const requiredFiles = [
-    'src/utils/productionLogger.ts',
+    '../mcp-shared/src/productionLogger.ts',
     'src/utils/requestLoggingMiddleware.ts',
     'LOGGING_CONFIG.md'
   ];
@@ -30,7 +30,7 @@ async function testPhase1Logging() {
   
   // Test 2: Check built files exist
   const builtFiles = [
-    'dist/utils/productionLogger.js',
+    '../mcp-shared/dist/productionLogger.js',
     'dist/utils/requestLoggingMiddleware.js',
     'dist/index.js'
   ];
@@ -48,7 +48,7 @@ async function testPhase1Logging() {
   }
   
   // Test 3: Check implementation in source files
-  const productionLoggerSource = fs.readFileSync('src/utils/productionLogger.ts', 'utf8');
+  const productionLoggerSource = fs.readFileSync('../mcp-shared/src/productionLogger.ts', 'utf8');
   const middlewareSource = fs.readFileSync('src/utils/requestLoggingMiddleware.ts', 'utf8');
   const indexSource = fs.readFileSync('src/index.ts', 'utf8');
   
@@ -97,8 +97,8 @@ async function testPhase1Logging() {
     {
       name: 'GA4 API logging middleware',
       check: middlewareSource.includes('ga4RequestLoggingMiddleware') && 
-             middlewareSource.includes('logGA4Request') &&
-             middlewareSource.includes('logGA4Response')
+             middlewareSource.includes("logApiRequest('GA4'") &&
+             middlewareSource.includes("logApiResponse('GA4'")
     },
     {
       name: 'Production logger integration in main server',
@@ -108,7 +108,7 @@ async function testProductionComponents() {
 
   // Test all Phase 1-4 components exist and are built
   const components = [
-    'dist/utils/productionLogger.js',
+    '../mcp-shared/dist/productionLogger.js',
     'dist/utils/errorTracking.js',
     'dist/utils/apmMonitoring.js',
     'dist/utils/healthDashboard.js',
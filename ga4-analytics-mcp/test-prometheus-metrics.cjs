@@ -0,0 +1,193 @@
+/**
+ * Prometheus /metrics endpoint tests: registry exposition format and the
+ * counters, gauges and histograms scraped from the HTTP health server
+ *
+ * Run after `npm run build`: node test-prometheus-metrics.cjs
+ */
+
+const assert = require('assert');
+
+console.log('🧪 PROMETHEUS METRICS: /metrics exposition');
+console.log('==========================================\n');
+
+// Sample lines of an exposition as { 'name{labels}': value }
+function parseSamples(text) {
+  const samples = {};
+  for (const line of text.split('\n')) {
+    if (!line || line.startsWith('#')) continue;
+    const index = line.lastIndexOf(' ');
+    samples[line.slice(0, index)] = Number(line.slice(index + 1));
+  }
+  return samples;
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { MetricsRegistry, negotiateMetricsFormat } = await import('@ai-ad-manager/mcp-shared/prometheusMetrics');
+  const { HttpHealthServer } = await import('./dist/utils/httpHealthServer.js');
+  const { createToolHandlers } = await import('./dist/tools/index.js');
+  const { ga4MetricsCollector } = await import('./dist/utils/ga4MetricsCollector.js');
+  const { initializeProductionCache, shutdownProductionCache } = await import('./dist/utils/productionCache.js');
+  const { initializeRateLimiting, shutdownRateLimiting } = await import('./dist/utils/rateLimitingSecurity.js');
+
+  test('registry renders typed families with escaped labels', async () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter({ name: 'demo_requests', help: 'Requests', labelNames: ['path'] });
+    const temperature = registry.gauge({ name: 'demo_temperature', help: 'Line one\nline two' });
+    const latency = registry.histogram({ name: 'demo_seconds', help: 'Latency', labelNames: ['tool'], buckets: [0.1, 1] });
+
+    requests.inc({ path: '/a"b\\c' }, 2);
+    temperature.set({}, -1.5);
+    latency.observe({ tool: 'x' }, 0.05);
+    latency.observe({ tool: 'x' }, 0.5);
+    latency.observe({ tool: 'x' }, 5);
+
+    const text = registry.render();
+    assert.ok(text.includes('# TYPE demo_requests_total counter\ndemo_requests_total{path="/a\\"b\\\\c"} 2\n'));
+    assert.ok(text.includes('# HELP demo_temperature Line one\\nline two\n# TYPE demo_temperature gauge\ndemo_temperature -1.5\n'));
+    assert.ok(text.includes([
+      '# TYPE demo_seconds histogram',
+      'demo_seconds_bucket{tool="x",le="0.1"} 1',
+      'demo_seconds_bucket{tool="x",le="1"} 2',
+      'demo_seconds_bucket{tool="x",le="+Inf"} 3',
+      'demo_seconds_sum{tool="x"} 5.55',
+      'demo_seconds_count{tool="x"} 3',
+    ].join('\n')));
+
+    const openMetrics = registry.render('openmetrics');
+    assert.ok(openMetrics.includes('# TYPE demo_requests counter\ndemo_requests_total{'));
+    assert.ok(openMetrics.endsWith('# EOF\n'));
+  });
+
+  test('registry rejects inconsistent definitions and label sets', async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter({ name: 'demo_calls', help: 'Calls', labelNames: ['tool'] });
+    assert.strictEqual(registry.counter({ name: 'demo_calls', help: 'Calls', labelNames: ['tool'] }), counter);
+    assert.throws(() => registry.gauge({ name: 'demo_calls', help: 'Calls', labelNames: ['tool'] }), /already registered/);
+    assert.throws(() => registry.counter({ name: 'demo_calls_total', help: 'Calls' }), /_total suffix/);
+    assert.throws(() => counter.inc({ tool: 'a', extra: 'b' }), /expects labels \[tool\]/);
+    assert.throws(() => counter.inc({}), /expects labels/);
+    assert.throws(() => counter.inc({ tool: 'a' }, -1), /only increase/);
+
+    const failing = registry.gauge({ name: 'demo_failing', help: 'Broken source', collect: () => { throw new Error('down'); } });
+    failing.set({}, 3);
+    assert.doesNotMatch(registry.render(), /^demo_failing /m);
+
+    assert.strictEqual(negotiateMetricsFormat('application/openmetrics-text;version=1.0.0').format, 'openmetrics');
+    assert.strictEqual(negotiateMetricsFormat('text/plain').format, 'prometheus');
+  });
+
+  test('/metrics serves tool, GA4, cache and rate limiting metrics', async () => {
+    const handlers = createToolHandlers(() => {
+      throw new Error('no GA4 client in tests');
+    });
+    await assert.rejects(handlers.get('get_metadata')({}));
+
+    ga4MetricsCollector.recordApiCall({
+      endpoint: 'runReport',
+      method: 'POST',
+      tool: 'query_analytics',
+      request: { propertyId: '123', metrics: ['sessions'], dimensions: ['date'], dateRanges: [{ startDate: '7daysAgo', endDate: 'today' }] },
+      response: { success: true, duration: 420, rowCount: 7 },
+      quota: {
+        propertyQuota: {
+          tokensPerDay: { consumed: 12, remaining: 199988 },
+          tokensPerHour: { consumed: 12, remaining: 39988 },
+        },
+      },
+    });
+
+    const cache = initializeProductionCache({ enableCacheWarming: false, enableOptimization: false });
+    await cache.set('report:1', { sessions: 1 });
+    await cache.get('report:1');
+    await cache.get('report:1');
+    await cache.get('report:missing');
+
+    const rateLimiter = initializeRateLimiting({ maxRequestsPerIP: 1 });
+    for (let i = 0; i < 4; i++) {
+      rateLimiter.checkRateLimit('10.0.0.9');
+    }
+
+    const server = new HttpHealthServer({ port: 0, host: '127.0.0.1', enableMetrics: true });
+    await server.start();
+    try {
+      const base = `http://127.0.0.1:${server.server.address().port}`;
+      const response = await fetch(`${base}/metrics`);
+      assert.strictEqual(response.status, 200);
+      assert.strictEqual(response.headers.get('content-type'), 'text/plain; version=0.0.4; charset=utf-8');
+      const text = await response.text();
+      const samples = parseSamples(text);
+
+      assert.ok(text.includes('# TYPE ga4_mcp_tool_duration_seconds histogram'));
+      assert.strictEqual(samples['ga4_mcp_tool_duration_seconds_count{tool="get_metadata",status="error"}'], 1);
+      assert.strictEqual(samples['ga4_mcp_tool_duration_seconds_bucket{tool="get_metadata",status="error",le="+Inf"}'], 1);
+
+      assert.strictEqual(samples['ga4_mcp_ga4_api_requests_total{endpoint="runReport",status="success"}'], 1);
+      assert.strictEqual(samples['ga4_mcp_ga4_api_duration_seconds_bucket{endpoint="runReport",status="success",le="0.5"}'], 1);
+      assert.strictEqual(samples['ga4_mcp_ga4_api_duration_seconds_bucket{endpoint="runReport",status="success",le="0.25"}'], 0);
+      assert.strictEqual(samples['ga4_mcp_ga4_quota_tokens_consumed_total'], 12);
+      assert.strictEqual(samples['ga4_mcp_ga4_quota_used_tokens{property="123",window="daily"}'], 12);
+      assert.strictEqual(samples['ga4_mcp_ga4_quota_limit_tokens{property="123",window="daily"}'], 200000);
+      assert.strictEqual(samples['ga4_mcp_ga4_quota_used_tokens{property="123",window="hourly"}'], 12);
+
+      assert.strictEqual(samples['ga4_mcp_cache_lookups_total{result="hit"}'], 2);
+      assert.strictEqual(samples['ga4_mcp_cache_lookups_total{result="miss"}'], 1);
+      assert.strictEqual(samples['ga4_mcp_cache_hit_ratio'], 2 / 3);
+      assert.strictEqual(samples['ga4_mcp_cache_entries'], 1);
+
+      assert.strictEqual(samples['ga4_mcp_blocked_ips'], 1);
+      assert.ok(samples['ga4_mcp_rate_limit_requests_total{outcome="blocked"}'] >= 1);
+      assert.strictEqual(
+        Object.keys(samples).filter(key => key.startsWith('ga4_mcp_ddos_threat_level{')).length, 4
+      );
+      assert.ok(samples['process_resident_memory_bytes'] > 0);
+
+      const openMetrics = await fetch(`${base}/metrics`, { headers: { accept: 'application/openmetrics-text; version=1.0.0' } });
+      assert.match(openMetrics.headers.get('content-type'), /^application\/openmetrics-text/);
+      assert.ok((await openMetrics.text()).endsWith('# EOF\n'));
+
+      const json = await fetch(`${base}/metrics/json`);
+      assert.strictEqual(json.status, 200);
+      assert.ok((await json.json()).performance);
+    } finally {
+      await server.stop();
+      shutdownRateLimiting();
+      await shutdownProductionCache();
+    }
+  });
+
+  test('/metrics is off unless metrics are enabled', async () => {
+    const server = new HttpHealthServer({ port: 0, host: '127.0.0.1', enableMetrics: false });
+    await server.start();
+    try {
+      const response = await fetch(`http://127.0.0.1:${server.server.address().port}/metrics`);
+      assert.strictEqual(response.status, 404);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
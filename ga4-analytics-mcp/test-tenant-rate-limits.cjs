@@ -0,0 +1,215 @@
+/**
+ * Tenant rate limiting tests: weighted token buckets per tenant and tool,
+ * bridge rate limit headers, and GA4 quota priority for background requests
+ *
+ * Run after `npm run build`: node test-tenant-rate-limits.cjs
+ */
+
+const assert = require('assert');
+
+console.log('🧪 TENANT RATE LIMITS: weighted token buckets and quota priority');
+console.log('================================================================\n');
+
+// GA4 client stub that reports `remaining` daily tokens after every report
+function createGA4Stub({ remaining = 200000, cost = 10 } = {}) {
+  const stub = {
+    calls: 0,
+    async getMetadata() {
+      return [{ metrics: [{ apiName: 'sessions' }], dimensions: [{ apiName: 'date' }] }];
+    },
+    async runReport(request) {
+      stub.calls++;
+      remaining -= cost;
+      return [{
+        dimensionHeaders: [{ name: 'date' }],
+        metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+        rows: [{ dimensionValues: [{ value: '20240101' }], metricValues: [{ value: '7' }] }],
+        totals: [],
+        rowCount: 1,
+        propertyQuota: request.returnPropertyQuota ? {
+          tokensPerDay: { consumed: cost, remaining },
+          tokensPerHour: { consumed: cost, remaining: Math.min(remaining, 40000) },
+          concurrentRequests: { consumed: 1, remaining: 9 },
+          serverErrorsPerProjectPerHour: { consumed: 0, remaining: 10 },
+        } : undefined,
+      }];
+    },
+  };
+  return stub;
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const {
+    TenantRateLimiter, initializeTenantRateLimiting, shutdownTenantRateLimiting,
+  } = await import('@ai-ad-manager/mcp-shared/tenantRateLimiter');
+  const { GA4_RATE_LIMITS, loadGA4RateLimitConfig } = await import('./dist/tools/rateLimits.js');
+  const { ApiKeyAuthenticator } = await import('./dist/utils/bridgeAuth.js');
+  const { startHttpMcpBridge } = await import('./dist/utils/httpMcpBridge.js');
+  const { GA4DataClient } = await import('./dist/utils/ga4DataClient.js');
+  const { CACHE_WARMING_TOOL } = await import('./dist/utils/ga4MetricsCollector.js');
+  const { GA4QuotaGuard } = await import('./dist/utils/ga4QuotaGuard.js');
+  const { createToolHandlers } = await import('./dist/tools/index.js');
+
+  test('a realtime poll weighs less than a 90-day pivot', async () => {
+    const limiter = new TenantRateLimiter(GA4_RATE_LIMITS);
+    try {
+      const realtime = limiter.getWeight('get_realtime_data', { metrics: ['activeUsers'] });
+      const pivot = limiter.getWeight('query_pivot', { startDate: '2024-01-01', endDate: '2024-03-30' });
+      const weekReport = limiter.getWeight('query_analytics', { startDate: '7daysAgo', endDate: 'today' });
+      const batch = limiter.getWeight('batch_query_analytics', {
+        reports: [{ startDate: '2024-01-01', endDate: '2024-01-07' }, { startDate: '2024-01-01', endDate: '2024-02-15' }],
+      });
+
+      assert.strictEqual(realtime, 1);
+      assert.strictEqual(pivot, 12);
+      assert.strictEqual(weekReport, 2);
+      assert.strictEqual(batch, 6);
+      assert.strictEqual(limiter.getWeight('unknown_tool'), 2);
+    } finally {
+      limiter.shutdown();
+    }
+  });
+
+  test('tenant and per-tool buckets come from the tenant plan', async () => {
+    const limiter = new TenantRateLimiter({
+      ...GA4_RATE_LIMITS,
+      plans: {
+        small: { capacity: 10, refillPerMinute: 1, perTool: { capacity: 4, refillPerMinute: 1 } },
+        large: { capacity: 100, refillPerMinute: 10 },
+      },
+      defaultPlan: 'small',
+    });
+    try {
+      const acme = { tenantId: 'acme', plan: 'small' };
+      for (let i = 0; i < 4; i++) {
+        assert.ok(limiter.consume(acme, 'get_realtime_data').allowed);
+      }
+      const toolLimited = limiter.consume(acme, 'get_realtime_data');
+      assert.strictEqual(toolLimited.allowed, false);
+      assert.strictEqual(toolLimited.bucket, 'tool');
+      assert.strictEqual(toolLimited.retryAfterSeconds, 60);
+
+      // Other tools still draw on what is left of the tenant bucket
+      const metadata = limiter.consume(acme, 'get_metadata');
+      assert.deepStrictEqual([metadata.allowed, metadata.limit, metadata.remaining], [true, 10, 5]);
+      const pivot = limiter.consume(acme, 'query_pivot', { startDate: '2024-01-01', endDate: '2024-01-31' });
+      assert.deepStrictEqual([pivot.allowed, pivot.bucket], [false, 'tenant']);
+
+      // Tenants do not share buckets, and unknown plans fall back to the default
+      assert.strictEqual(limiter.consume({ tenantId: 'globex', plan: 'large' }, 'query_pivot').remaining, 96);
+      assert.strictEqual(limiter.consume({ tenantId: 'initech', plan: 'gold' }, 'get_metadata').plan, 'small');
+    } finally {
+      limiter.shutdown();
+    }
+  });
+
+  test('plans are configurable from the environment', async () => {
+    const config = loadGA4RateLimitConfig({
+      RATE_LIMIT_PLANS: JSON.stringify({ agency: { capacity: 900, refillPerMinute: 300 } }),
+      RATE_LIMIT_TOOL_WEIGHTS: JSON.stringify({ get_realtime_data: 3 }),
+      RATE_LIMIT_DEFAULT_PLAN: 'agency',
+    });
+    assert.deepStrictEqual(Object.keys(config.plans), ['free', 'standard', 'enterprise', 'agency']);
+    assert.strictEqual(config.defaultPlan, 'agency');
+
+    const limiter = new TenantRateLimiter(config);
+    try {
+      assert.strictEqual(limiter.getWeight('get_realtime_data'), 3);
+      assert.strictEqual(limiter.consume({ tenantId: 'acme' }, 'get_realtime_data').limit, 900);
+    } finally {
+      limiter.shutdown();
+    }
+    assert.throws(() => new TenantRateLimiter({ defaultPlan: 'missing' }), /not configured/);
+    assert.throws(() => new TenantRateLimiter({ plans: { bad: { capacity: 0, refillPerMinute: 1 } }, defaultPlan: 'bad' }));
+  });
+
+  test('bridge returns X-RateLimit headers and 429 with Retry-After per tenant', async () => {
+    initializeTenantRateLimiting({ ...GA4_RATE_LIMITS, plans: { trial: { capacity: 5, refillPerMinute: 1 } }, defaultPlan: 'trial' });
+    const handlers = createToolHandlers(propertyId => new GA4DataClient(propertyId || '111', createGA4Stub()));
+    const auth = new ApiKeyAuthenticator([
+      { id: 'dashboard', key: 'dash-key', scopes: ['api'], tenantId: 'acme', plan: 'trial' },
+      { id: 'reports', key: 'reports-key', scopes: ['api'], tenantId: 'acme', plan: 'trial' },
+      { id: 'other', key: 'other-key', scopes: ['api'], tenantId: 'globex', plan: 'trial' },
+    ]);
+    const bridge = await startHttpMcpBridge({}, handlers, { port: 0, host: '127.0.0.1', auth });
+    const baseUrl = `http://127.0.0.1:${bridge.server.address().port}`;
+    const sessions = key => fetch(`${baseUrl}/api/ga4/sessions/111?startDate=2024-01-01&endDate=2024-01-10`, {
+      headers: { 'x-api-key': key },
+    });
+
+    try {
+      const first = await sessions('dash-key');
+      assert.strictEqual(first.status, 200);
+      assert.strictEqual(first.headers.get('x-ratelimit-limit'), '5');
+      assert.strictEqual(first.headers.get('x-ratelimit-remaining'), '3');
+      assert.strictEqual(first.headers.get('x-ratelimit-reset'), '120');
+      assert.strictEqual(first.headers.get('retry-after'), null);
+
+      // Keys of one tenant share its bucket
+      assert.strictEqual((await sessions('reports-key')).headers.get('x-ratelimit-remaining'), '1');
+      const limited = await sessions('dash-key');
+      assert.strictEqual(limited.status, 429);
+      assert.strictEqual((await limited.json()).code, 'RATE_LIMITED');
+      assert.strictEqual(limited.headers.get('retry-after'), '60');
+      assert.strictEqual(limited.headers.get('x-ratelimit-remaining'), '1');
+
+      assert.strictEqual((await sessions('other-key')).status, 200);
+    } finally {
+      await bridge.stop();
+      shutdownTenantRateLimiting();
+    }
+  });
+
+  test('background requests yield GA4 quota to interactive ones', async () => {
+    // 100 of 200000 daily tokens left once the first report returns
+    const stub = createGA4Stub({ remaining: 110 });
+    const client = new GA4DataClient('5001', stub);
+    const options = { propertyId: '5001', metrics: ['sessions'], dimensions: [], dateRanges: [{ startDate: '2024-02-01', endDate: '2024-02-01' }] };
+
+    await client.runReport(options);
+    await assert.rejects(
+      client.runReport({ ...options, dateRanges: [{ startDate: '2024-02-02', endDate: '2024-02-02' }] }, { tool: CACHE_WARMING_TOOL }),
+      error => error.code === 'GA4_QUOTA_EXCEEDED' && error.details.priority === 'background'
+    );
+    assert.strictEqual(stub.calls, 1);
+    await client.runReport({ ...options, dateRanges: [{ startDate: '2024-02-03', endDate: '2024-02-03' }] });
+    assert.strictEqual(stub.calls, 2);
+
+    // Queued interactive requests get the next free slot first
+    const guard = new GA4QuotaGuard({ maxConcurrent: 1, maxQueueWaitMs: 1000, backgroundReserve: 0 });
+    const order = [];
+    const release = await guard.acquire('5002');
+    const background = guard.acquire('5002', 1, 'background').then(next => { order.push('background'); next(); });
+    const interactive = guard.acquire('5002').then(next => { order.push('interactive'); next(); });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.strictEqual(guard.getQueueStatus('5002').queued, 2);
+    release();
+    await Promise.all([background, interactive]);
+    assert.deepStrictEqual(order, ['interactive', 'background']);
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -13,8 +13,8 @@ async function finalVerifyPhase4() {
     'dist/index.js',
     'dist/utils/ga4Utils.js',
     'dist/utils/ga4DataClient.js',
-    'dist/utils/logger.js',
-    'dist/utils/errorHandler.js'
+    '../mcp-shared/dist/logger.js',
+    '../mcp-shared/dist/errorHandler.js'
   ];
   
   let allFilesExist = true;
@@ -0,0 +1,77 @@
+/**
+ * GA4 fixture property for FixtureGA4ReportingApi
+ *
+ * Daily rows by sessionGoogleAdsCampaignId derived from the campaign rows
+ * of googleAdsAccount.cjs: sessions are 90% of clicks, and of the key
+ * events and revenue GA4 records for a day's clicks 60% land the same day
+ * and 40% three days later (so they run past 2026-09-14). Organic and
+ * untagged traffic comes through as '(not set)'.
+ *
+ * GA4_FIXTURES=fixtures/ga4Attribution.cjs GA4_PROPERTY_ID=123456789
+ */
+
+const account = require('./googleAdsAccount.cjs')['1234567890'];
+
+const LAG_DAYS = 3;
+const LAGGED_SHARE = 0.4;
+// GA4 records fewer conversions than Ads and a different revenue
+const CONVERSION_RATIO = 0.8;
+const REVENUE_RATIO = 1.1;
+
+function addDays(date, days) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().split('T')[0];
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
+
+function buildProperty() {
+  const rows = new Map();
+  const rowFor = (date, campaign) => {
+    const key = `${date}|${campaign.id}`;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        date,
+        sessionGoogleAdsCampaignId: campaign.id,
+        sessionGoogleAdsCampaignName: campaign.name,
+        sessions: 0,
+        keyEvents: 0,
+        totalRevenue: 0,
+      });
+    }
+    return rows.get(key);
+  };
+
+  for (const { campaign, segments, metrics } of account.campaign) {
+    const conversions = metrics.conversions * CONVERSION_RATIO;
+    const revenue = metrics.conversionsValue * REVENUE_RATIO;
+
+    const sameDay = rowFor(segments.date, campaign);
+    sameDay.sessions += Math.round(Number(metrics.clicks) * 0.9);
+    sameDay.keyEvents = round(sameDay.keyEvents + conversions * (1 - LAGGED_SHARE));
+    sameDay.totalRevenue = round(sameDay.totalRevenue + revenue * (1 - LAGGED_SHARE));
+
+    const lagged = rowFor(addDays(segments.date, LAG_DAYS), campaign);
+    lagged.sessions += Math.round(Number(metrics.clicks) * 0.05);
+    lagged.keyEvents = round(lagged.keyEvents + conversions * LAGGED_SHARE);
+    lagged.totalRevenue = round(lagged.totalRevenue + revenue * LAGGED_SHARE);
+
+    if (campaign.id === '1001') {
+      rows.set(`${segments.date}|(not set)`, {
+        date: segments.date,
+        sessionGoogleAdsCampaignId: '(not set)',
+        sessionGoogleAdsCampaignName: '(not set)',
+        sessions: 250,
+        keyEvents: 6,
+        totalRevenue: 420,
+      });
+    }
+  }
+
+  return Array.from(rows.values());
+}
+
+module.exports = {
+  '123456789': buildProperty(),
+};
@@ -0,0 +1,193 @@
+/**
+ * Google Ads fixture account for FixtureGoogleAdsApi
+ *
+ * Daily rows (2026-09-01 to 2026-09-14) in the REST API shape, per customer
+ * and GAQL resource: int64 fields (IDs, impressions, clicks, micros) are
+ * strings, doubles (conversions) are numbers. Ad group rows add up to their
+ * campaign rows and keyword rows to their ad group rows. Campaigns carry
+ * their bidding targets and budget resource for update_campaign.
+ *
+ * GOOGLE_ADS_FIXTURES=fixtures/googleAdsAccount.cjs GOOGLE_ADS_CUSTOMER_ID=1234567890
+ */
+
+const START_DATE = Date.UTC(2026, 8, 1);
+const DAYS = 14;
+
+const campaigns = [
+  {
+    id: '1001', name: 'Brand Search', status: 'ENABLED', advertisingChannelType: 'SEARCH', startDate: '2026-01-01', endDate: '2037-12-30',
+    budgetId: '4001', budgetMicros: '50000000',
+    bidding: { biddingStrategyType: 'MAXIMIZE_CONVERSIONS', maximizeConversions: { targetCpaMicros: '6000000' } },
+  },
+  {
+    id: '1002', name: 'Generic Search - Shoes', status: 'ENABLED', advertisingChannelType: 'SEARCH', startDate: '2026-03-15', endDate: '2037-12-30',
+    budgetId: '4002', budgetMicros: '120000000',
+    bidding: { biddingStrategyType: 'TARGET_ROAS', targetRoas: { targetRoas: 3.5 } },
+  },
+  {
+    id: '1003', name: 'Display Remarketing', status: 'PAUSED', advertisingChannelType: 'DISPLAY', startDate: '2026-05-01', endDate: '2026-12-31',
+    budgetId: '4003', budgetMicros: '30000000', sharedBudget: true,
+    bidding: { biddingStrategyType: 'MANUAL_CPC' },
+  },
+  {
+    id: '1004', name: 'Summer Sale PMax', status: 'REMOVED', advertisingChannelType: 'PERFORMANCE_MAX', startDate: '2026-06-01', endDate: '2026-09-30',
+    budgetId: '4004', budgetMicros: '80000000',
+    bidding: { biddingStrategyType: 'MAXIMIZE_CONVERSION_VALUE', maximizeConversionValue: { targetRoas: 2 } },
+  },
+];
+
+// Daily metrics on day 0; later days scale by dayFactor
+const adGroups = [
+  { id: '2001', campaignId: '1001', name: 'Brand Exact', status: 'ENABLED', type: 'SEARCH_STANDARD', cpcBidMicros: '800000' },
+  { id: '2002', campaignId: '1002', name: 'Running Shoes', status: 'ENABLED', type: 'SEARCH_STANDARD', cpcBidMicros: '1500000' },
+  { id: '2003', campaignId: '1002', name: 'Trail Shoes', status: 'PAUSED', type: 'SEARCH_STANDARD', cpcBidMicros: '1200000' },
+  { id: '2004', campaignId: '1003', name: 'Cart Abandoners', status: 'ENABLED', type: 'DISPLAY_STANDARD', cpcBidMicros: '400000', base: { impressions: 5000, clicks: 40, costMicros: 20000000, conversions: 1, conversionsValue: 60 } },
+  { id: '2005', campaignId: '1004', name: 'All Products', status: 'ENABLED', type: 'UNKNOWN', cpcBidMicros: '0', base: { impressions: 3000, clicks: 60, costMicros: 45000000, conversions: 2, conversionsValue: 180 } },
+];
+
+const keywords = [
+  {
+    criterionId: '3001', adGroupId: '2001', text: 'acme shoes', matchType: 'EXACT', status: 'ENABLED', qualityScore: 9,
+    base: { impressions: 400, clicks: 80, costMicros: 40000000, conversions: 8, conversionsValue: 640 },
+    searchTerms: [['acme shoes', 0.75, 'ADDED'], ['acme shoe', 0.25, 'NONE']],
+  },
+  {
+    criterionId: '3002', adGroupId: '2002', text: 'running shoes', matchType: 'PHRASE', status: 'ENABLED', qualityScore: 7,
+    base: { impressions: 1200, clicks: 60, costMicros: 90000000, conversions: 3, conversionsValue: 270 },
+    searchTerms: [['best running shoes', 0.5, 'NONE'], ['running shoes sale', 0.4, 'NONE'], ['running shoes repair', 0.1, 'EXCLUDED']],
+  },
+  {
+    criterionId: '3003', adGroupId: '2002', text: 'buy running shoes', matchType: 'BROAD', status: 'PAUSED', qualityScore: 5,
+    base: { impressions: 600, clicks: 18, costMicros: 30000000, conversions: 0.5, conversionsValue: 40 },
+    searchTerms: [['cheap sneakers', 0.6, 'NONE'], ['buy jogging shoes online', 0.4, 'NONE']],
+  },
+  {
+    criterionId: '3004', adGroupId: '2003', text: 'trail running shoes', matchType: 'PHRASE', status: 'ENABLED', qualityScore: 6,
+    base: { impressions: 300, clicks: 12, costMicros: 15000000, conversions: 1, conversionsValue: 110 },
+    searchTerms: [['trail running shoes women', 1, 'NONE']],
+  },
+  {
+    criterionId: '3005', adGroupId: '2003', text: 'hiking shoes', matchType: 'BROAD', status: 'REMOVED', qualityScore: 4,
+    base: { impressions: 50, clicks: 1, costMicros: 1000000, conversions: 0, conversionsValue: 0 },
+    searchTerms: [['hiking boots', 1, 'NONE']],
+  },
+];
+
+function dateOf(day) {
+  return new Date(START_DATE + day * 86400000).toISOString().split('T')[0];
+}
+
+// Weekdays run a little hotter than weekends
+function dayFactor(day) {
+  const weekday = new Date(START_DATE + day * 86400000).getUTCDay();
+  return weekday === 0 || weekday === 6 ? 0.8 : 1 + (day % 5) / 10;
+}
+
+function scale(base, factor) {
+  return {
+    impressions: Math.round(base.impressions * factor),
+    clicks: Math.round(base.clicks * factor),
+    costMicros: Math.round(base.costMicros * factor),
+    conversions: Math.round(base.conversions * factor * 100) / 100,
+    conversionsValue: Math.round(base.conversionsValue * factor * 100) / 100,
+  };
+}
+
+function add(total, metrics) {
+  for (const key of Object.keys(metrics)) {
+    total[key] = Math.round(((total[key] || 0) + metrics[key]) * 100) / 100;
+  }
+  return total;
+}
+
+// int64 metrics are strings in REST responses
+function toRest(metrics) {
+  return {
+    impressions: String(metrics.impressions),
+    clicks: String(metrics.clicks),
+    costMicros: String(metrics.costMicros),
+    conversions: metrics.conversions,
+    conversionsValue: metrics.conversionsValue,
+  };
+}
+
+function buildAccount() {
+  const account = { campaign: [], ad_group: [], keyword_view: [], search_term_view: [] };
+
+  for (let day = 0; day < DAYS; day++) {
+    const date = dateOf(day);
+    const adGroupMetrics = new Map();
+
+    for (const keyword of keywords) {
+      const adGroup = adGroups.find(group => group.id === keyword.adGroupId);
+      const metrics = scale(keyword.base, dayFactor(day));
+      add(adGroupMetrics.get(adGroup.id) || adGroupMetrics.set(adGroup.id, {}).get(adGroup.id), metrics);
+
+      account.keyword_view.push({
+        adGroupCriterion: {
+          criterionId: keyword.criterionId,
+          keyword: { text: keyword.text, matchType: keyword.matchType },
+          status: keyword.status,
+          qualityInfo: { qualityScore: keyword.qualityScore },
+        },
+        adGroup: { id: adGroup.id, name: adGroup.name },
+        campaign: { id: adGroup.campaignId },
+        segments: { date },
+        metrics: toRest(metrics),
+      });
+
+      for (const [searchTerm, share, status] of keyword.searchTerms) {
+        account.search_term_view.push({
+          searchTermView: { searchTerm, status },
+          adGroup: { id: adGroup.id },
+          campaign: { id: adGroup.campaignId },
+          segments: { date, keyword: { info: { text: keyword.text, matchType: keyword.matchType } } },
+          metrics: toRest(scale(keyword.base, dayFactor(day) * share)),
+        });
+      }
+    }
+
+    const campaignMetrics = new Map();
+    for (const adGroup of adGroups) {
+      const metrics = adGroup.base ? scale(adGroup.base, dayFactor(day)) : adGroupMetrics.get(adGroup.id);
+      const campaign = campaigns.find(candidate => candidate.id === adGroup.campaignId);
+      add(campaignMetrics.get(campaign.id) || campaignMetrics.set(campaign.id, {}).get(campaign.id), metrics);
+
+      account.ad_group.push({
+        adGroup: { id: adGroup.id, name: adGroup.name, status: adGroup.status, type: adGroup.type, cpcBidMicros: adGroup.cpcBidMicros },
+        campaign: { id: campaign.id, name: campaign.name },
+        segments: { date },
+        metrics: toRest(metrics),
+      });
+    }
+
+    for (const campaign of campaigns) {
+      account.campaign.push({
+        campaign: {
+          id: campaign.id,
+          name: campaign.name,
+          status: campaign.status,
+          advertisingChannelType: campaign.advertisingChannelType,
+          startDate: campaign.startDate,
+          endDate: campaign.endDate,
+          ...structuredClone(campaign.bidding),
+        },
+        campaignBudget: {
+          resourceName: `customers/1234567890/campaignBudgets/${campaign.budgetId}`,
+          amountMicros: campaign.budgetMicros,
+          explicitlyShared: Boolean(campaign.sharedBudget),
+        },
+        segments: { date },
+        metrics: toRest(campaignMetrics.get(campaign.id)),
+      });
+    }
+  }
+
+  return account;
+}
+
+module.exports = {
+  '1234567890': buildAccount(),
+  // A second account with no activity, for allow-list checks
+  '5550001111': { campaign: [], ad_group: [], keyword_view: [], search_term_view: [] },
+};
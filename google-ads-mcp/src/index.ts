@@ -0,0 +1,371 @@
+#!/usr/bin/env node
+
+/**
+ * Google Ads MCP Server
+ *
+ * Companion to ga4-analytics-mcp: provides Google Ads campaign, ad group,
+ * keyword and search term data through the Model Context Protocol (MCP),
+ * queried with GAQL.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import dotenv from 'dotenv';
+
+// Import utilities
+import { logger, createRequestTimer } from '@ai-ad-manager/mcp-shared/logger';
+import { logger as productionLogger, setLogServiceName, setCorrelationId, loggerConfig } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { MCPErrorHandler, setupGlobalErrorHandlers, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { lifecycleManager } from '@ai-ad-manager/mcp-shared/lifecycle';
+import { initializeTenantRateLimiting, shutdownTenantRateLimiting } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+import { initializeProductionCache, shutdownProductionCache } from './utils/productionCache.js';
+import {
+  GoogleAdsApi,
+  GoogleAdsRestApi,
+  initializeGoogleAdsClientRegistry,
+  getGoogleAdsClientRegistry,
+  loadGoogleAdsRestApiConfig,
+} from './utils/googleAdsClient.js';
+import { FixtureGoogleAdsApi, loadGoogleAdsFixtures } from './utils/fixtureAdsApi.js';
+import {
+  GA4ReportingApi,
+  GA4RestReportingApi,
+  FixtureGA4ReportingApi,
+  loadGA4Fixtures,
+  initializeGA4ReportingClient,
+  getGA4ReportingClient,
+} from './utils/ga4ReportingClient.js';
+import { createToolHandlers, getToolDefinitions, AdsClientResolver } from './tools/index.js';
+import { loadGoogleAdsRateLimitConfig } from './tools/rateLimits.js';
+
+// Load environment variables
+dotenv.config();
+setLogServiceName('google-ads-mcp');
+
+// Setup global error handlers
+setupGlobalErrorHandlers();
+
+// Ads clients come from the allow-listed per-customer registry
+const resolveAdsClient: AdsClientResolver = (customerId, caller) =>
+  getGoogleAdsClientRegistry().getClient(customerId, caller?.allowedCustomerIds);
+
+const adsToolHandlers = createToolHandlers(resolveAdsClient, getGA4ReportingClient);
+
+/**
+ * Pick the Google Ads API transport: local fixtures when GOOGLE_ADS_FIXTURES
+ * is set, the REST API otherwise
+ */
+function createGoogleAdsApi(): GoogleAdsApi {
+  if (process.env.GOOGLE_ADS_FIXTURES) {
+    logger.warn(`⚠️ Serving Google Ads data from fixtures: ${process.env.GOOGLE_ADS_FIXTURES}`);
+    return new FixtureGoogleAdsApi(loadGoogleAdsFixtures(process.env.GOOGLE_ADS_FIXTURES));
+  }
+
+  const restConfig = loadGoogleAdsRestApiConfig();
+  if (!restConfig) {
+    throw new Error(
+      'GOOGLE_ADS_DEVELOPER_TOKEN, GOOGLE_ADS_CLIENT_ID, GOOGLE_ADS_CLIENT_SECRET and GOOGLE_ADS_REFRESH_TOKEN are required (or GOOGLE_ADS_FIXTURES for local data)'
+    );
+  }
+  return new GoogleAdsRestApi(restConfig);
+}
+
+/**
+ * Pick the GA4 Data API transport for attribution: local fixtures when
+ * GA4_FIXTURES is set, the REST API otherwise
+ */
+function createGA4ReportingApi(): GA4ReportingApi {
+  if (process.env.GA4_FIXTURES) {
+    logger.warn(`⚠️ Serving GA4 data from fixtures: ${process.env.GA4_FIXTURES}`);
+    return new FixtureGA4ReportingApi(loadGA4Fixtures(process.env.GA4_FIXTURES));
+  }
+  return new GA4RestReportingApi();
+}
+
+/**
+ * Create an MCP protocol server with the Google Ads tool handlers
+ */
+function createProtocolServer(): Server {
+  const server = new Server(
+    {
+      name: 'google-ads-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const timer = createRequestTimer();
+    const requestId = logger.requestStart('list_tools');
+
+    try {
+      const response = { tools: getToolDefinitions() };
+      logger.requestEnd(requestId, timer.end(), true);
+      return response;
+    } catch (error) {
+      const mcpError = MCPErrorHandler.handleError(error, requestId);
+      MCPErrorHandler.logError(mcpError);
+      logger.requestEnd(requestId, timer.end(), false);
+
+      throw new Error(`Failed to list tools: ${mcpError.message}`);
+    }
+  });
+
+  // Handle tool calls through the shared tool registry
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const timer = createRequestTimer();
+    const requestId = logger.requestStart(`call_tool:${name}`, { args });
+
+    try {
+      const handler = adsToolHandlers.get(name);
+      if (!handler) {
+        throw MCPErrorHandler.createError(ErrorCode.METHOD_NOT_FOUND, `Unknown tool: ${name}`, { toolName: name });
+      }
+
+      const result = await handler(args);
+      logger.requestEnd(requestId, timer.end(), true);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      const mcpError = MCPErrorHandler.handleError(error, requestId);
+      MCPErrorHandler.logError(mcpError);
+      logger.requestEnd(requestId, timer.end(), false);
+
+      return MCPErrorHandler.formatForMCPResponse(mcpError);
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Create and configure the MCP server
+ */
+async function createServer(): Promise<Server> {
+  logger.info('Initializing MCP server...');
+
+  const server = createProtocolServer();
+
+  // Add server initialization to lifecycle
+  lifecycleManager.addHook({
+    name: 'mcp-server',
+    priority: 1,
+    startup: async () => {
+      logger.info('MCP server core initialized');
+    },
+    shutdown: async () => {
+      logger.info('MCP server core shutdown');
+    },
+  });
+
+  // Add production logging to lifecycle
+  lifecycleManager.addHook({
+    name: 'production-logging',
+    priority: 1.5,
+    startup: async () => {
+      productionLogger.info('Production logging system initialized', {
+        component: 'LOGGING',
+        loggerConfig,
+        environment: process.env.NODE_ENV || 'development',
+      });
+    },
+    shutdown: async () => {
+      productionLogger.info('Production logging system shutting down', {
+        component: 'LOGGING',
+        shutdownTime: new Date().toISOString(),
+      });
+
+      // Close production logger gracefully
+      const { closeLogger } = await import('@ai-ad-manager/mcp-shared/productionLogger');
+      await closeLogger();
+    },
+  });
+
+  // Add tenant rate limiting to lifecycle
+  lifecycleManager.addHook({
+    name: 'tenant-rate-limiting',
+    priority: 3.7,
+    startup: async () => {
+      // Every tool call spends developer token operations, so all calls are limited
+      const tenantRateLimitConfig = loadGoogleAdsRateLimitConfig();
+      initializeTenantRateLimiting(tenantRateLimitConfig);
+
+      productionLogger.info('Tenant rate limiting initialized', {
+        component: 'SECURITY',
+        defaultPlan: tenantRateLimitConfig.defaultPlan,
+        tenantPlans: Object.keys(tenantRateLimitConfig.plans || {}),
+      });
+    },
+    shutdown: async () => {
+      shutdownTenantRateLimiting();
+    },
+  });
+
+  // Add production cache to lifecycle
+  lifecycleManager.addHook({
+    name: 'production-cache',
+    priority: 3.9,
+    startup: async () => {
+      const cache = initializeProductionCache();
+      productionLogger.info('Production Cache initialized', {
+        component: 'CACHE',
+        backend: cache.getBackend(),
+      });
+    },
+    shutdown: async () => {
+      await shutdownProductionCache();
+    },
+  });
+
+  // Add Google Ads client registry to lifecycle
+  lifecycleManager.addHook({
+    name: 'google-ads-client',
+    priority: 10,
+    startup: async () => {
+      logger.info('Initializing Google Ads client registry...');
+      try {
+        const allowedCustomerIds = (process.env.GOOGLE_ADS_ALLOWED_CUSTOMER_IDS || '')
+          .split(',')
+          .map(customerId => customerId.trim())
+          .filter(Boolean);
+
+        const registry = initializeGoogleAdsClientRegistry({
+          api: createGoogleAdsApi(),
+          defaultCustomerId: process.env.GOOGLE_ADS_CUSTOMER_ID,
+          allowedCustomerIds,
+        });
+
+        if (registry.getAllowedCustomerIds().length === 0) {
+          throw new Error('GOOGLE_ADS_CUSTOMER_ID or GOOGLE_ADS_ALLOWED_CUSTOMER_IDS environment variable is required');
+        }
+
+        logger.info('✅ Google Ads client registry initialized successfully');
+        logger.info(`📣 Google Ads customers available: ${registry.getAllowedCustomerIds().join(', ')}`);
+      } catch (error) {
+        logger.error('❌ Google Ads client initialization error', error instanceof Error ? error : undefined);
+        logger.warn('⚠️ Google Ads tools will not be available');
+        // Don't throw - allow server to continue without Google Ads functionality
+      }
+    },
+    shutdown: async () => {
+      logger.info('Google Ads client shutdown');
+    },
+  });
+
+  // Add GA4 reporting client (campaign attribution) to lifecycle
+  lifecycleManager.addHook({
+    name: 'ga4-reporting-client',
+    priority: 10.5,
+    startup: async () => {
+      const allowedPropertyIds = (process.env.GA4_ALLOWED_PROPERTY_IDS || '')
+        .split(',')
+        .map(propertyId => propertyId.trim())
+        .filter(Boolean);
+
+      if (!process.env.GA4_PROPERTY_ID && allowedPropertyIds.length === 0) {
+        logger.info('GA4_PROPERTY_ID not set; get_campaign_attribution will not be available');
+        return;
+      }
+
+      const client = initializeGA4ReportingClient({
+        api: createGA4ReportingApi(),
+        defaultPropertyId: process.env.GA4_PROPERTY_ID,
+        allowedPropertyIds,
+      });
+      logger.info(`📈 GA4 properties available for attribution: ${client.getAllowedPropertyIds().join(', ')}`);
+    },
+    shutdown: async () => {
+      logger.info('GA4 reporting client shutdown');
+    },
+  });
+
+  logger.info('MCP server created successfully');
+  return server;
+}
+
+/**
+ * Main function to start the server
+ */
+async function main(): Promise<void> {
+  try {
+    // Initialize production logging
+    const startupCorrelationId = setCorrelationId();
+    productionLogger.info('🚀 Starting Google Ads MCP Server...', {
+      correlationId: startupCorrelationId,
+      component: 'STARTUP',
+      environment: process.env.NODE_ENV || 'development',
+      loggerConfig,
+    });
+
+    logger.info('🚀 Starting Google Ads MCP Server...');
+
+    // Create server instance
+    const server = await createServer();
+    const transport = new StdioServerTransport();
+
+    // Add transport connection to lifecycle
+    lifecycleManager.addHook({
+      name: 'mcp-transport',
+      priority: 10,
+      startup: async () => {
+        logger.info('Connecting MCP transport...');
+        await server.connect(transport);
+        logger.info('✅ MCP transport connected successfully');
+      },
+      shutdown: async () => {
+        logger.info('Disconnecting MCP transport...');
+        // Note: MCP SDK doesn't provide explicit disconnect method
+        // Connection will be closed when process exits
+      },
+    });
+
+    // Start the server using lifecycle manager
+    await lifecycleManager.startup();
+
+    logger.info('🎉 Google Ads MCP Server is running and ready to accept requests');
+
+    // Keep the process alive
+    process.stdin.resume();
+
+  } catch (error) {
+    const mcpError = MCPErrorHandler.handleError(error);
+    MCPErrorHandler.logError(mcpError);
+    logger.error('❌ Failed to start MCP server', error instanceof Error ? error : new Error(String(error)));
+
+    // Attempt graceful shutdown even on startup failure
+    try {
+      await lifecycleManager.shutdown();
+    } catch (shutdownError) {
+      logger.error('Error during emergency shutdown', shutdownError instanceof Error ? shutdownError : new Error(String(shutdownError)));
+    }
+
+    process.exit(1);
+  }
+}
+
+// Start the server if this file is run directly
+import { fileURLToPath } from 'url';
+const currentFile = fileURLToPath(import.meta.url);
+const isMainModule = process.argv[1] === currentFile;
+
+if (isMainModule) {
+  main().catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
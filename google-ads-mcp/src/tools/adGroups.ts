@@ -0,0 +1,92 @@
+/**
+ * get_ad_groups tool
+ *
+ * Ad groups of the account or of one campaign, with their CPC bids and
+ * performance over the date range.
+ */
+
+import { buildGaqlQuery, gaqlDateRange, gaqlEnumIn, gaqlIdEquals } from '../utils/gaql.js';
+import type { AdGroupsParams, AdGroupSummary } from '../types/googleAds.js';
+import {
+  AdsTool,
+  CUSTOMER_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  STATUS_PROPERTY,
+  METRIC_FIELDS,
+  DEFAULT_STATUSES,
+  resolveToolDateRange,
+  resolveLimit,
+  microsToCurrency,
+  toPerformanceMetrics,
+} from './shared.js';
+
+export interface AdGroupsResult {
+  success: boolean;
+  customerId: string;
+  dateRange: { startDate: string; endDate: string };
+  adGroups: AdGroupSummary[];
+}
+
+export const adGroupsTool: AdsTool<AdGroupsParams, AdGroupsResult> = {
+  name: 'get_ad_groups',
+  description: 'List ad groups with CPC bids and performance, optionally for one campaign',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CUSTOMER_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      ...STATUS_PROPERTY,
+      campaignId: {
+        type: 'string',
+        description: 'Only ad groups of this campaign',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum ad groups to return, by cost',
+        default: 100,
+      },
+    },
+  },
+
+  async handler(args, context) {
+    const dateRange = resolveToolDateRange('get_ad_groups', args || {});
+    const client = context.getAdsClient(args?.customerId);
+
+    const rows = await client.query(buildGaqlQuery({
+      select: [
+        'ad_group.id',
+        'ad_group.name',
+        'ad_group.status',
+        'ad_group.type',
+        'ad_group.cpc_bid_micros',
+        'campaign.id',
+        'campaign.name',
+        ...METRIC_FIELDS,
+      ],
+      from: 'ad_group',
+      where: [
+        gaqlDateRange(dateRange),
+        gaqlEnumIn('ad_group.status', args?.status?.length ? args.status : DEFAULT_STATUSES, 'get_ad_groups'),
+        gaqlIdEquals('campaign.id', args?.campaignId, 'get_ad_groups'),
+      ],
+      orderBy: 'metrics.cost_micros DESC',
+      limit: resolveLimit(args?.limit, 100),
+    }), { tool: 'get_ad_groups', dataType: 'ads-ad-groups' });
+
+    return {
+      success: true,
+      customerId: client.customerId,
+      dateRange,
+      adGroups: rows.map(row => ({
+        id: String(row.adGroup?.id),
+        name: row.adGroup?.name || '',
+        status: row.adGroup?.status,
+        type: row.adGroup?.type,
+        campaignId: String(row.campaign?.id),
+        campaignName: row.campaign?.name || '',
+        cpcBid: row.adGroup?.cpcBidMicros !== undefined ? microsToCurrency(row.adGroup.cpcBidMicros) : undefined,
+        metrics: toPerformanceMetrics(row.metrics),
+      })),
+    };
+  },
+};
@@ -0,0 +1,86 @@
+/**
+ * get_campaign_attribution tool
+ *
+ * Joins GA4 key events and revenue to Google Ads spend per campaign (and
+ * optionally per day) and returns CPA, ROAS and revenue per click as GA4
+ * measured them, next to the conversions Ads reported. See
+ * utils/campaignAttribution.ts for the attribution model.
+ */
+
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import {
+  CampaignAttributionService,
+  CampaignAttributionReport,
+  ATTRIBUTION_WINDOWS,
+  DEFAULT_ATTRIBUTION_WINDOW,
+} from '../utils/campaignAttribution.js';
+import type { CampaignAttributionParams } from '../types/googleAds.js';
+import { AdsTool, CUSTOMER_ID_PROPERTY, DATE_RANGE_PROPERTIES, resolveToolDateRange } from './shared.js';
+
+export const campaignAttributionTool: AdsTool<CampaignAttributionParams, CampaignAttributionReport> = {
+  name: 'get_campaign_attribution',
+  description: 'Join GA4 conversions and revenue to Google Ads spend per campaign: true CPA, ROAS and revenue per click under an attribution window',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CUSTOMER_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      propertyId: {
+        type: 'string',
+        description: 'GA4 property ID (defaults to the server\'s configured property)',
+      },
+      campaignIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Campaigns to include (default: every campaign with activity in the range)',
+      },
+      attributionWindowDays: {
+        type: 'number',
+        enum: ATTRIBUTION_WINDOWS,
+        default: DEFAULT_ATTRIBUTION_WINDOW,
+        description: 'Days after a click within which a GA4 conversion is credited to it',
+      },
+      includeDaily: {
+        type: 'boolean',
+        default: false,
+        description: 'Include a row per campaign and day',
+      },
+    },
+    required: ['startDate', 'endDate'],
+  },
+
+  async handler(args, context) {
+    const dateRange = resolveToolDateRange('get_campaign_attribution', args || {});
+
+    const windowDays = args?.attributionWindowDays === undefined
+      ? DEFAULT_ATTRIBUTION_WINDOW
+      : Number(args.attributionWindowDays) as CampaignAttributionParams['attributionWindowDays'];
+    if (!windowDays || !ATTRIBUTION_WINDOWS.includes(windowDays)) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `attributionWindowDays must be one of ${ATTRIBUTION_WINDOWS.join(', ')}`,
+        { toolName: 'get_campaign_attribution', attributionWindowDays: args?.attributionWindowDays }
+      );
+    }
+
+    const ga4Client = context.getGA4Client?.();
+    if (!ga4Client) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.TOOL_EXECUTION_FAILED,
+        'GA4 is not configured: set GA4_PROPERTY_ID or GA4_ALLOWED_PROPERTY_IDS to use campaign attribution',
+        { toolName: 'get_campaign_attribution' }
+      );
+    }
+
+    const propertyId = ga4Client.resolvePropertyId(args?.propertyId);
+    const service = new CampaignAttributionService(context.getAdsClient(args?.customerId), ga4Client);
+    return service.attribute({
+      propertyId,
+      dateRange,
+      windowDays,
+      campaignIds: args?.campaignIds,
+      includeDaily: Boolean(args?.includeDaily),
+      tool: 'get_campaign_attribution',
+    });
+  },
+};
@@ -0,0 +1,225 @@
+/**
+ * list_campaigns and get_campaign_performance tools
+ *
+ * list_campaigns returns one row per campaign in the shape of the
+ * dashboard's CampaignData (budget, spend, CTR, CPC, ROAS), with filtering,
+ * sorting and paging; get_campaign_performance returns a time series per
+ * campaign.
+ */
+
+import { buildGaqlQuery, gaqlDateRange, gaqlEnumIn, gaqlIdIn, gaqlString } from '../utils/gaql.js';
+import type {
+  ListCampaignsParams,
+  CampaignPerformanceParams,
+  CampaignSummary,
+  PerformanceMetrics,
+  PerformanceGranularity,
+} from '../types/googleAds.js';
+import {
+  AdsTool,
+  CUSTOMER_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  STATUS_PROPERTY,
+  METRIC_FIELDS,
+  DEFAULT_STATUSES,
+  resolveToolDateRange,
+  resolveLimit,
+  microsToCurrency,
+  toPerformanceMetrics,
+  sumMetrics,
+} from './shared.js';
+
+export interface ListCampaignsResult {
+  success: boolean;
+  customerId: string;
+  dateRange: { startDate: string; endDate: string };
+  campaigns: CampaignSummary[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totals: PerformanceMetrics;
+}
+
+export interface CampaignPerformanceSeries {
+  id: string;
+  name: string;
+  totals: PerformanceMetrics;
+  timeSeries: Array<{ period: string } & PerformanceMetrics>;
+}
+
+export interface CampaignPerformanceResult {
+  success: boolean;
+  customerId: string;
+  dateRange: { startDate: string; endDate: string };
+  granularity: PerformanceGranularity;
+  campaigns: CampaignPerformanceSeries[];
+  totals: PerformanceMetrics;
+}
+
+const SEGMENT_BY_GRANULARITY: Record<PerformanceGranularity, string> = {
+  day: 'segments.date',
+  week: 'segments.week',
+  month: 'segments.month',
+};
+
+export const listCampaignsTool: AdsTool<ListCampaignsParams, ListCampaignsResult> = {
+  name: 'list_campaigns',
+  description: 'List campaigns with budget, spend, CTR, CPC, conversions and ROAS for a date range',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CUSTOMER_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      ...STATUS_PROPERTY,
+      type: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Advertising channel types to include, e.g. SEARCH, DISPLAY, PERFORMANCE_MAX',
+      },
+      search: {
+        type: 'string',
+        description: 'Only campaigns whose name contains this text',
+      },
+      sortBy: {
+        type: 'string',
+        description: 'Campaign field or metric to sort by, e.g. name, budget, cost, ctr, returnOnAdSpend (default: cost)',
+      },
+      sortDirection: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        default: 'desc',
+      },
+      page: { type: 'number', default: 1 },
+      pageSize: { type: 'number', default: 25 },
+    },
+  },
+
+  async handler(args, context) {
+    const dateRange = resolveToolDateRange('list_campaigns', args || {});
+    const client = context.getAdsClient(args?.customerId);
+
+    const rows = await client.query(buildGaqlQuery({
+      select: [
+        'campaign.id',
+        'campaign.name',
+        'campaign.status',
+        'campaign.advertising_channel_type',
+        'campaign.start_date',
+        'campaign.end_date',
+        'campaign_budget.amount_micros',
+        ...METRIC_FIELDS,
+      ],
+      from: 'campaign',
+      where: [
+        gaqlDateRange(dateRange),
+        gaqlEnumIn('campaign.status', args?.status?.length ? args.status : DEFAULT_STATUSES, 'list_campaigns'),
+        gaqlEnumIn('campaign.advertising_channel_type', args?.type, 'list_campaigns'),
+        args?.search ? `campaign.name LIKE ${gaqlString(`%${args.search}%`)}` : undefined,
+      ],
+    }), { tool: 'list_campaigns', dataType: 'ads-campaigns' });
+
+    const campaigns: CampaignSummary[] = rows.map(row => ({
+      id: String(row.campaign?.id),
+      name: row.campaign?.name || '',
+      status: row.campaign?.status,
+      campaignType: row.campaign?.advertisingChannelType,
+      budget: microsToCurrency(row.campaignBudget?.amountMicros),
+      startDate: row.campaign?.startDate,
+      endDate: row.campaign?.endDate,
+      metrics: toPerformanceMetrics(row.metrics),
+    }));
+
+    const sortBy = args?.sortBy || 'cost';
+    const direction = args?.sortDirection === 'asc' ? 1 : -1;
+    const sortValue = (campaign: CampaignSummary): any =>
+      sortBy in campaign.metrics ? (campaign.metrics as any)[sortBy] : (campaign as any)[sortBy];
+    campaigns.sort((a, b) => {
+      const [valueA, valueB] = [sortValue(a), sortValue(b)];
+      const order = typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA ?? '').localeCompare(String(valueB ?? ''));
+      return order * direction;
+    });
+
+    const pageSize = resolveLimit(args?.pageSize, 25, 1000);
+    const page = resolveLimit(args?.page, 1);
+    return {
+      success: true,
+      customerId: client.customerId,
+      dateRange,
+      campaigns: campaigns.slice((page - 1) * pageSize, page * pageSize),
+      totalCount: campaigns.length,
+      page,
+      pageSize,
+      totals: toPerformanceMetrics(sumMetrics(rows)),
+    };
+  },
+};
+
+export const campaignPerformanceTool: AdsTool<CampaignPerformanceParams, CampaignPerformanceResult> = {
+  name: 'get_campaign_performance',
+  description: 'Campaign performance over time (daily, weekly or monthly), with totals per campaign',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CUSTOMER_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      campaignIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Campaigns to include (default: every campaign with activity in the range)',
+      },
+      granularity: {
+        type: 'string',
+        enum: ['day', 'week', 'month'],
+        default: 'day',
+      },
+    },
+    required: ['startDate', 'endDate'],
+  },
+
+  async handler(args, context) {
+    const dateRange = resolveToolDateRange('get_campaign_performance', args || {});
+    const granularity: PerformanceGranularity = args?.granularity && SEGMENT_BY_GRANULARITY[args.granularity]
+      ? args.granularity
+      : 'day';
+    const segment = SEGMENT_BY_GRANULARITY[granularity];
+    const client = context.getAdsClient(args?.customerId);
+
+    const rows = await client.query(buildGaqlQuery({
+      select: ['campaign.id', 'campaign.name', segment, ...METRIC_FIELDS],
+      from: 'campaign',
+      where: [
+        gaqlDateRange(dateRange),
+        gaqlIdIn('campaign.id', args?.campaignIds, 'get_campaign_performance'),
+      ],
+      orderBy: segment,
+    }), { tool: 'get_campaign_performance', dataType: 'ads-performance' });
+
+    const byCampaign = new Map<string, { name: string; rows: typeof rows }>();
+    for (const row of rows) {
+      const id = String(row.campaign?.id);
+      const campaign = byCampaign.get(id) || { name: row.campaign?.name || '', rows: [] as typeof rows };
+      campaign.rows.push(row);
+      byCampaign.set(id, campaign);
+    }
+
+    const segmentKey = segment.split('.')[1];
+    return {
+      success: true,
+      customerId: client.customerId,
+      dateRange,
+      granularity,
+      campaigns: Array.from(byCampaign.entries()).map(([id, campaign]) => ({
+        id,
+        name: campaign.name,
+        totals: toPerformanceMetrics(sumMetrics(campaign.rows)),
+        timeSeries: campaign.rows.map(row => ({
+          period: row.segments?.[segmentKey],
+          ...toPerformanceMetrics(row.metrics),
+        })),
+      })),
+      totals: toPerformanceMetrics(sumMetrics(rows)),
+    };
+  },
+};
@@ -0,0 +1,108 @@
+/**
+ * Google Ads MCP tool registry
+ *
+ * Single source of truth for the tools exposed over stdio (ListTools /
+ * CallTool).
+ */
+
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { getTenantRateLimiter } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+import { listCampaignsTool, campaignPerformanceTool } from './campaigns.js';
+import { adGroupsTool } from './adGroups.js';
+import { keywordsTool } from './keywords.js';
+import { searchTermsTool } from './searchTerms.js';
+import { updateCampaignTool } from './updateCampaign.js';
+import { campaignAttributionTool } from './attribution.js';
+import type { AdsTool, AdsToolCaller, AdsToolHandler, AdsClientResolver, GA4ClientResolver } from './shared.js';
+
+export type { AdsTool, AdsToolCaller, AdsToolContext, AdsToolHandler, AdsClientResolver, GA4ClientResolver } from './shared.js';
+
+export const ADS_TOOLS: AdsTool[] = [
+  listCampaignsTool,
+  campaignPerformanceTool,
+  adGroupsTool,
+  keywordsTool,
+  searchTermsTool,
+  updateCampaignTool,
+  campaignAttributionTool,
+];
+
+/**
+ * Tool definitions in the shape returned by tools/list
+ */
+export function getToolDefinitions(): Array<Pick<AdsTool, 'name' | 'description' | 'inputSchema'>> {
+  return ADS_TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+}
+
+const toolDuration = metricsRegistry.histogram({
+  name: 'google_ads_mcp_tool_duration_seconds',
+  help: 'MCP tool call latency in seconds, by tool and outcome (success or error)',
+  labelNames: ['tool', 'status'],
+});
+
+/**
+ * Charge a tool call to its tenant's rate limits
+ *
+ * Every call spends the shared developer token's operations, so calls
+ * without a caller (stdio) are charged to the 'local' tenant.
+ */
+function chargeToolCall(toolName: string, args: any, caller?: AdsToolCaller): void {
+  const rateLimiter = getTenantRateLimiter();
+  if (!rateLimiter) {
+    return;
+  }
+
+  const decision = rateLimiter.consume(
+    { tenantId: caller?.tenantId || caller?.id || 'local', plan: caller?.plan },
+    toolName,
+    args
+  );
+  caller?.onRateLimit?.(decision);
+  if (!decision.allowed) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.RATE_LIMITED,
+      `Rate limit exceeded for ${toolName} (${decision.bucket} bucket of plan ${decision.plan}); retry in ${decision.retryAfterSeconds}s`,
+      {
+        toolName,
+        plan: decision.plan,
+        bucket: decision.bucket,
+        cost: decision.cost,
+        retryAfterSeconds: decision.retryAfterSeconds
+      }
+    );
+  }
+}
+
+/**
+ * Bind every tool to an Ads client resolver (and the GA4 client, for attribution), keyed by tool name
+ */
+export function createToolHandlers(
+  resolveAdsClient: AdsClientResolver,
+  resolveGA4Client?: GA4ClientResolver
+): Map<string, AdsToolHandler> {
+  const handlers = new Map<string, AdsToolHandler>();
+
+  for (const tool of ADS_TOOLS) {
+    handlers.set(tool.name, async (args: any, caller) => {
+      logger.debug(`Running Google Ads tool: ${tool.name}`, { args, callerId: caller?.id });
+      chargeToolCall(tool.name, args || {}, caller);
+      const endTimer = toolDuration.startTimer({ tool: tool.name });
+      try {
+        const result = await tool.handler(args || {}, {
+          getAdsClient: (customerId?: string) => resolveAdsClient(customerId, caller),
+          getGA4Client: resolveGA4Client,
+          caller,
+        });
+        endTimer({ status: 'success' });
+        return result;
+      } catch (error) {
+        endTimer({ status: 'error' });
+        throw error;
+      }
+    });
+  }
+
+  return handlers;
+}
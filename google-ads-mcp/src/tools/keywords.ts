@@ -0,0 +1,95 @@
+/**
+ * get_keywords tool
+ *
+ * Keywords with match type, quality score and performance, from the
+ * keyword_view resource.
+ */
+
+import { buildGaqlQuery, gaqlDateRange, gaqlIdEquals } from '../utils/gaql.js';
+import type { KeywordsParams, KeywordSummary } from '../types/googleAds.js';
+import {
+  AdsTool,
+  CUSTOMER_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  METRIC_FIELDS,
+  resolveToolDateRange,
+  resolveLimit,
+  toPerformanceMetrics,
+} from './shared.js';
+
+export interface KeywordsResult {
+  success: boolean;
+  customerId: string;
+  dateRange: { startDate: string; endDate: string };
+  keywords: KeywordSummary[];
+}
+
+export const keywordsTool: AdsTool<KeywordsParams, KeywordsResult> = {
+  name: 'get_keywords',
+  description: 'Keyword performance with match type and quality score, optionally for one campaign or ad group',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CUSTOMER_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      campaignId: {
+        type: 'string',
+        description: 'Only keywords of this campaign',
+      },
+      adGroupId: {
+        type: 'string',
+        description: 'Only keywords of this ad group',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum keywords to return, by impressions',
+        default: 100,
+      },
+    },
+  },
+
+  async handler(args, context) {
+    const dateRange = resolveToolDateRange('get_keywords', args || {});
+    const client = context.getAdsClient(args?.customerId);
+
+    const rows = await client.query(buildGaqlQuery({
+      select: [
+        'ad_group_criterion.criterion_id',
+        'ad_group_criterion.keyword.text',
+        'ad_group_criterion.keyword.match_type',
+        'ad_group_criterion.status',
+        'ad_group_criterion.quality_info.quality_score',
+        'ad_group.id',
+        'ad_group.name',
+        'campaign.id',
+        ...METRIC_FIELDS,
+      ],
+      from: 'keyword_view',
+      where: [
+        gaqlDateRange(dateRange),
+        'ad_group_criterion.status != REMOVED',
+        gaqlIdEquals('campaign.id', args?.campaignId, 'get_keywords'),
+        gaqlIdEquals('ad_group.id', args?.adGroupId, 'get_keywords'),
+      ],
+      orderBy: 'metrics.impressions DESC',
+      limit: resolveLimit(args?.limit, 100),
+    }), { tool: 'get_keywords', dataType: 'ads-keywords' });
+
+    return {
+      success: true,
+      customerId: client.customerId,
+      dateRange,
+      keywords: rows.map(row => ({
+        criterionId: String(row.adGroupCriterion?.criterionId),
+        text: row.adGroupCriterion?.keyword?.text || '',
+        matchType: row.adGroupCriterion?.keyword?.matchType,
+        status: row.adGroupCriterion?.status,
+        qualityScore: row.adGroupCriterion?.qualityInfo?.qualityScore,
+        adGroupId: String(row.adGroup?.id),
+        adGroupName: row.adGroup?.name || '',
+        campaignId: String(row.campaign?.id),
+        metrics: toPerformanceMetrics(row.metrics),
+      })),
+    };
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * Tenant rate limit settings for the Google Ads tools
+ *
+ * Listing campaigns costs less than 90 days of search terms: the token
+ * buckets (@ai-ad-manager/mcp-shared/tenantRateLimiter) multiply these base
+ * weights by the date span. This keeps the developer token's daily
+ * operations spread across tenants.
+ */
+
+import { loadTenantRateLimitConfig, TenantRateLimitConfig } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+
+// Base weight of one call; date-ranged tools are multiplied by their span
+export const GOOGLE_ADS_TOOL_WEIGHTS: Record<string, number> = {
+  list_campaigns: 1,
+  get_campaign_performance: 2,
+  get_ad_groups: 2,
+  get_keywords: 3,
+  get_search_terms: 4,
+  update_campaign: 5,
+  get_campaign_attribution: 4,
+};
+
+export const GOOGLE_ADS_RATE_LIMITS: Partial<TenantRateLimitConfig> = {
+  toolWeights: GOOGLE_ADS_TOOL_WEIGHTS,
+  metricName: 'google_ads_mcp_tenant_rate_limit_decisions',
+};
+
+/**
+ * Google Ads rate limits with the plans and weight overrides from the environment
+ */
+export function loadGoogleAdsRateLimitConfig(env: NodeJS.ProcessEnv = process.env): Partial<TenantRateLimitConfig> {
+  return loadTenantRateLimitConfig(GOOGLE_ADS_RATE_LIMITS, env);
+}
@@ -0,0 +1,99 @@
+/**
+ * get_search_terms tool
+ *
+ * Search queries that triggered ads, with the keyword they matched, from
+ * the search_term_view resource. Useful for finding negative keywords and
+ * new keyword ideas.
+ */
+
+import { buildGaqlQuery, gaqlDateRange, gaqlIdEquals } from '../utils/gaql.js';
+import type { SearchTermsParams, SearchTermSummary } from '../types/googleAds.js';
+import {
+  AdsTool,
+  CUSTOMER_ID_PROPERTY,
+  DATE_RANGE_PROPERTIES,
+  METRIC_FIELDS,
+  resolveToolDateRange,
+  resolveLimit,
+  toPerformanceMetrics,
+} from './shared.js';
+
+export interface SearchTermsResult {
+  success: boolean;
+  customerId: string;
+  dateRange: { startDate: string; endDate: string };
+  searchTerms: SearchTermSummary[];
+}
+
+export const searchTermsTool: AdsTool<SearchTermsParams, SearchTermsResult> = {
+  name: 'get_search_terms',
+  description: 'Search terms that triggered ads, with the matched keyword and performance',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CUSTOMER_ID_PROPERTY,
+      ...DATE_RANGE_PROPERTIES,
+      campaignId: {
+        type: 'string',
+        description: 'Only search terms of this campaign',
+      },
+      adGroupId: {
+        type: 'string',
+        description: 'Only search terms of this ad group',
+      },
+      minImpressions: {
+        type: 'number',
+        description: 'Skip search terms with fewer impressions',
+        default: 1,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum search terms to return, by impressions',
+        default: 200,
+      },
+    },
+    required: ['startDate', 'endDate'],
+  },
+
+  async handler(args, context) {
+    const dateRange = resolveToolDateRange('get_search_terms', args || {});
+    const client = context.getAdsClient(args?.customerId);
+    const minImpressions = Math.max(0, Math.floor(Number(args?.minImpressions ?? 1)) || 0);
+
+    const rows = await client.query(buildGaqlQuery({
+      select: [
+        'search_term_view.search_term',
+        'search_term_view.status',
+        'segments.keyword.info.text',
+        'segments.keyword.info.match_type',
+        'ad_group.id',
+        'campaign.id',
+        ...METRIC_FIELDS,
+      ],
+      from: 'search_term_view',
+      where: [
+        gaqlDateRange(dateRange),
+        gaqlIdEquals('campaign.id', args?.campaignId, 'get_search_terms'),
+        gaqlIdEquals('ad_group.id', args?.adGroupId, 'get_search_terms'),
+        minImpressions > 0 ? `metrics.impressions >= ${minImpressions}` : undefined,
+      ],
+      orderBy: 'metrics.impressions DESC',
+      limit: resolveLimit(args?.limit, 200),
+    }), { tool: 'get_search_terms', dataType: 'ads-search-terms' });
+
+    return {
+      success: true,
+      customerId: client.customerId,
+      dateRange,
+      searchTerms: rows.map(row => ({
+        searchTerm: row.searchTermView?.searchTerm || '',
+        status: row.searchTermView?.status,
+        keyword: row.segments?.keyword?.info?.text,
+        matchType: row.segments?.keyword?.info?.matchType,
+        adGroupId: String(row.adGroup?.id),
+        campaignId: String(row.campaign?.id),
+        metrics: toPerformanceMetrics(row.metrics),
+      })),
+    };
+  },
+};
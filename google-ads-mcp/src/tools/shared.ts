@@ -0,0 +1,165 @@
+/**
+ * Shared types and helpers for Google Ads MCP tools
+ *
+ * Every tool is declared once (name, input schema, handler) and builds its
+ * GAQL from the helpers in utils/gaql.ts.
+ */
+
+import type { GoogleAdsClient } from '../utils/googleAdsClient.js';
+import type { GA4ReportingClient } from '../utils/ga4ReportingClient.js';
+import type { RateLimitDecision } from '@ai-ad-manager/mcp-shared/tenantRateLimiter';
+import type { DateRangeOptions } from '../utils/dateRange.js';
+import type { PerformanceMetrics } from '../types/googleAds.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { resolveRelativeDate, validateDateRange } from '../utils/dateRange.js';
+
+// Identity of whoever is calling a tool, used to narrow customer access
+export interface AdsToolCaller {
+  id?: string;
+  allowedCustomerIds?: string[];
+  tenantId?: string;  // Rate limit key; defaults to id
+  plan?: string;      // Rate limit plan; defaults to the configured default plan
+  onRateLimit?: (decision: RateLimitDecision) => void;
+}
+
+export interface AdsToolContext {
+  getAdsClient: (customerId?: string) => GoogleAdsClient;
+  getGA4Client?: () => GA4ReportingClient | undefined;
+  caller?: AdsToolCaller;
+}
+
+export type AdsClientResolver = (customerId: string | undefined, caller?: AdsToolCaller) => GoogleAdsClient;
+
+// GA4 client for attribution; undefined when GA4 is not configured
+export type GA4ClientResolver = () => GA4ReportingClient | undefined;
+
+export interface AdsToolInputSchema {
+  type: 'object';
+  properties: { [propertyName: string]: any };
+  required?: string[];
+}
+
+export interface AdsTool<TArgs = any, TResult = any> {
+  name: string;
+  description: string;
+  inputSchema: AdsToolInputSchema;
+  handler: (args: TArgs, context: AdsToolContext) => Promise<TResult>;
+}
+
+export type AdsToolHandler = (args: any, caller?: AdsToolCaller) => Promise<any>;
+
+// Customer selection shared by every tool
+export const CUSTOMER_ID_PROPERTY = {
+  customerId: {
+    type: 'string',
+    description: 'Google Ads customer ID, with or without dashes (defaults to the server\'s configured customer)',
+  },
+};
+
+// Date properties shared by every tool
+export const DATE_RANGE_PROPERTIES = {
+  startDate: {
+    type: 'string',
+    description: 'Start date in YYYY-MM-DD format, or "NdaysAgo" / "yesterday" / "today" (default: 30daysAgo)',
+  },
+  endDate: {
+    type: 'string',
+    description: 'End date in YYYY-MM-DD format, or "NdaysAgo" / "yesterday" / "today" (default: yesterday)',
+  },
+};
+
+export const STATUS_PROPERTY = {
+  status: {
+    type: 'array',
+    items: { type: 'string', enum: ['ENABLED', 'PAUSED', 'REMOVED'] },
+    description: 'Statuses to include (default: ENABLED and PAUSED)',
+  },
+};
+
+// Additive metrics every report selects; rates are derived from them
+export const METRIC_FIELDS = [
+  'metrics.impressions',
+  'metrics.clicks',
+  'metrics.cost_micros',
+  'metrics.conversions',
+  'metrics.conversions_value',
+];
+
+export const DEFAULT_STATUSES = ['ENABLED', 'PAUSED'];
+
+/**
+ * Resolve tool date arguments into a validated date range
+ */
+export function resolveToolDateRange(
+  toolName: string,
+  args: { startDate?: string; endDate?: string }
+): DateRangeOptions {
+  try {
+    return validateDateRange({
+      startDate: resolveRelativeDate(args.startDate || '30daysAgo'),
+      endDate: resolveRelativeDate(args.endDate || 'yesterday'),
+    });
+  } catch (error) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      error instanceof Error ? error.message : `Invalid date range for tool: ${toolName}`,
+      { toolName, startDate: args.startDate, endDate: args.endDate }
+    );
+  }
+}
+
+/**
+ * Clamp a requested row limit to a sane range
+ */
+export function resolveLimit(limit: unknown, defaultLimit: number, maxLimit: number = 10000): number {
+  const parsed = typeof limit === 'number' ? limit : parseInt(String(limit ?? ''), 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return defaultLimit;
+  }
+  return Math.min(Math.floor(parsed), maxLimit);
+}
+
+/**
+ * Convert micros (millionths of the account currency) to currency, rounded to cents
+ */
+export function microsToCurrency(micros: unknown): number {
+  return Math.round(Number(micros || 0) / 10000) / 100;
+}
+
+/**
+ * Derive report metrics from the additive metrics of a row
+ */
+export function toPerformanceMetrics(metrics: any = {}): PerformanceMetrics {
+  const impressions = Number(metrics.impressions || 0);
+  const clicks = Number(metrics.clicks || 0);
+  const costMicros = Number(metrics.costMicros || 0);
+  const conversions = Number(metrics.conversions || 0);
+  const conversionsValue = Number(metrics.conversionsValue || 0);
+  const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+  return {
+    impressions,
+    clicks,
+    cost: microsToCurrency(costMicros),
+    ctr: impressions ? round((clicks / impressions) * 100, 2) : 0,
+    averageCpc: clicks ? microsToCurrency(costMicros / clicks) : 0,
+    conversions: round(conversions, 2),
+    conversionRate: clicks ? round((conversions / clicks) * 100, 2) : 0,
+    conversionsValue: round(conversionsValue, 2),
+    costPerConversion: conversions ? microsToCurrency(costMicros / conversions) : 0,
+    returnOnAdSpend: costMicros ? round(conversionsValue / (costMicros / 1e6), 2) : 0,
+  };
+}
+
+/**
+ * Sum the additive metrics of several rows
+ */
+export function sumMetrics(rows: Array<{ metrics?: any }>): Record<string, number> {
+  const totals: Record<string, number> = { impressions: 0, clicks: 0, costMicros: 0, conversions: 0, conversionsValue: 0 };
+  for (const row of rows) {
+    for (const key of Object.keys(totals)) {
+      totals[key] += Number(row.metrics?.[key] || 0);
+    }
+  }
+  return totals;
+}
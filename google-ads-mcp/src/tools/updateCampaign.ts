@@ -0,0 +1,238 @@
+/**
+ * update_campaign tool
+ *
+ * Changes a campaign's status, daily budget or bidding target through
+ * googleAds:mutate. The current settings are read uncached first, so the
+ * result carries the before/after diff; validateOnly returns the diff and
+ * lets Google Ads validate the change without applying it.
+ */
+
+import { buildGaqlQuery, gaqlIdEquals, toRestFieldPath } from '../utils/gaql.js';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { GoogleAdsMutateOperation, GoogleAdsRow } from '../utils/googleAdsClient.js';
+import type {
+  UpdateCampaignParams,
+  CampaignSettings,
+  CampaignSettingChange,
+} from '../types/googleAds.js';
+import { AdsTool, CUSTOMER_ID_PROPERTY, microsToCurrency } from './shared.js';
+
+export interface UpdateCampaignResult {
+  success: boolean;
+  customerId: string;
+  campaignId: string;
+  campaignName: string;
+  validateOnly: boolean;
+  before: CampaignSettings;
+  after: CampaignSettings;
+  changes: CampaignSettingChange[];
+  resourceNames: string[];
+}
+
+// Campaign field holding each target, by bidding strategy
+const TARGET_CPA_FIELDS: Record<string, string> = {
+  TARGET_CPA: 'target_cpa.target_cpa_micros',
+  MAXIMIZE_CONVERSIONS: 'maximize_conversions.target_cpa_micros',
+};
+
+const TARGET_ROAS_FIELDS: Record<string, string> = {
+  TARGET_ROAS: 'target_roas.target_roas',
+  MAXIMIZE_CONVERSION_VALUE: 'maximize_conversion_value.target_roas',
+};
+
+function invalidParams(message: string, details: Record<string, any>) {
+  return MCPErrorHandler.createError(ErrorCode.INVALID_TOOL_PARAMS, message, { toolName: 'update_campaign', ...details });
+}
+
+function positiveNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw invalidParams(`${name} must be a positive number`, { [name]: value });
+  }
+  return parsed;
+}
+
+// Currency to micros, in whole cents as the API requires for budgets
+function currencyToMicros(value: number): string {
+  return String(Math.round(value * 100) * 10000);
+}
+
+function setRestField(resource: GoogleAdsRow, field: string, value: any): void {
+  const path = toRestFieldPath(field);
+  const parent = path.slice(0, -1).reduce((node, key) => (node[key] = node[key] || {}), resource);
+  parent[path[path.length - 1]] = value;
+}
+
+function readSettings(row: GoogleAdsRow): CampaignSettings {
+  const campaign = row.campaign || {};
+  const strategy = campaign.biddingStrategyType || 'UNSPECIFIED';
+  const cpaField = TARGET_CPA_FIELDS[strategy];
+  const roasField = TARGET_ROAS_FIELDS[strategy];
+  const read = (field: string) => toRestFieldPath(field).reduce((value: any, key) => value?.[key], campaign);
+
+  return {
+    status: campaign.status,
+    dailyBudget: microsToCurrency(row.campaignBudget?.amountMicros),
+    biddingStrategyType: strategy,
+    ...(cpaField && { targetCpa: read(cpaField) !== undefined ? microsToCurrency(read(cpaField)) : undefined }),
+    ...(roasField && { targetRoas: read(roasField) !== undefined ? Number(read(roasField)) : undefined }),
+  };
+}
+
+export const updateCampaignTool: AdsTool<UpdateCampaignParams, UpdateCampaignResult> = {
+  name: 'update_campaign',
+  description: 'Change a campaign\'s status, daily budget or bidding target (target CPA or target ROAS); returns the before/after diff',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...CUSTOMER_ID_PROPERTY,
+      campaignId: {
+        type: 'string',
+        description: 'Campaign to change',
+      },
+      status: {
+        type: 'string',
+        enum: ['ENABLED', 'PAUSED'],
+        description: 'New campaign status',
+      },
+      dailyBudget: {
+        type: 'number',
+        description: 'New daily budget in the account currency (budgets shared with other campaigns cannot be changed here)',
+      },
+      targetCpa: {
+        type: 'number',
+        description: 'New target cost per conversion in the account currency (TARGET_CPA and MAXIMIZE_CONVERSIONS strategies)',
+      },
+      targetRoas: {
+        type: 'number',
+        description: 'New target return on ad spend as a ratio, e.g. 3.5 for 350% (TARGET_ROAS and MAXIMIZE_CONVERSION_VALUE strategies)',
+      },
+      validateOnly: {
+        type: 'boolean',
+        description: 'Validate the change and return the diff without applying it',
+        default: false,
+      },
+    },
+    required: ['campaignId'],
+  },
+
+  async handler(args, context) {
+    const campaignCondition = gaqlIdEquals('campaign.id', args?.campaignId, 'update_campaign');
+    if (!campaignCondition) {
+      throw invalidParams('campaignId is required', {});
+    }
+    if (args.status !== undefined && args.status !== 'ENABLED' && args.status !== 'PAUSED') {
+      throw invalidParams(`status must be ENABLED or PAUSED: ${args.status}`, { status: args.status });
+    }
+    const dailyBudget = positiveNumber(args.dailyBudget, 'dailyBudget');
+    const targetCpa = positiveNumber(args.targetCpa, 'targetCpa');
+    const targetRoas = positiveNumber(args.targetRoas, 'targetRoas');
+    const validateOnly = Boolean(args.validateOnly);
+
+    const client = context.getAdsClient(args.customerId);
+    const [row] = await client.query(buildGaqlQuery({
+      select: [
+        'campaign.id',
+        'campaign.name',
+        'campaign.status',
+        'campaign.bidding_strategy_type',
+        ...Object.values(TARGET_CPA_FIELDS).map(field => `campaign.${field}`),
+        ...Object.values(TARGET_ROAS_FIELDS).map(field => `campaign.${field}`),
+        'campaign_budget.resource_name',
+        'campaign_budget.amount_micros',
+        'campaign_budget.explicitly_shared',
+      ],
+      from: 'campaign',
+      where: [campaignCondition],
+    }), { tool: 'update_campaign', dataType: 'ads-campaigns', fresh: true });
+
+    if (!row) {
+      throw invalidParams(`Campaign ${args.campaignId} not found`, { customerId: client.customerId, campaignId: args.campaignId });
+    }
+    if (row.campaign.status === 'REMOVED') {
+      throw invalidParams(`Campaign ${args.campaignId} is removed and cannot be changed`, { campaignId: args.campaignId });
+    }
+
+    const before = readSettings(row);
+    const after: CampaignSettings = { ...before };
+    const changes: CampaignSettingChange[] = [];
+    const campaignUpdate: GoogleAdsRow = { resourceName: `customers/${client.customerId}/campaigns/${row.campaign.id}` };
+    const campaignMask: string[] = [];
+    const operations: GoogleAdsMutateOperation[] = [];
+
+    if (args.status && args.status !== before.status) {
+      campaignUpdate.status = args.status;
+      campaignMask.push('status');
+      after.status = args.status;
+      changes.push({ field: 'status', from: before.status, to: args.status });
+    }
+
+    if (targetCpa !== undefined) {
+      const field = TARGET_CPA_FIELDS[before.biddingStrategyType];
+      if (!field) {
+        throw invalidParams(`Campaign ${args.campaignId} bids with ${before.biddingStrategyType}, which has no target CPA`,
+          { campaignId: args.campaignId, biddingStrategyType: before.biddingStrategyType });
+      }
+      const micros = currencyToMicros(targetCpa);
+      if (microsToCurrency(micros) !== before.targetCpa) {
+        setRestField(campaignUpdate, field, micros);
+        campaignMask.push(field);
+        after.targetCpa = microsToCurrency(micros);
+        changes.push({ field: 'targetCpa', from: before.targetCpa ?? null, to: after.targetCpa });
+      }
+    }
+
+    if (targetRoas !== undefined) {
+      const field = TARGET_ROAS_FIELDS[before.biddingStrategyType];
+      if (!field) {
+        throw invalidParams(`Campaign ${args.campaignId} bids with ${before.biddingStrategyType}, which has no target ROAS`,
+          { campaignId: args.campaignId, biddingStrategyType: before.biddingStrategyType });
+      }
+      if (targetRoas !== before.targetRoas) {
+        setRestField(campaignUpdate, field, targetRoas);
+        campaignMask.push(field);
+        after.targetRoas = targetRoas;
+        changes.push({ field: 'targetRoas', from: before.targetRoas ?? null, to: targetRoas });
+      }
+    }
+
+    if (campaignMask.length > 0) {
+      operations.push({ campaignOperation: { update: campaignUpdate, updateMask: campaignMask.join(',') } });
+    }
+
+    if (dailyBudget !== undefined && microsToCurrency(currencyToMicros(dailyBudget)) !== before.dailyBudget) {
+      if (row.campaignBudget?.explicitlyShared) {
+        throw invalidParams(`Campaign ${args.campaignId} uses a shared budget, which cannot be changed per campaign`,
+          { campaignId: args.campaignId, budget: row.campaignBudget.resourceName });
+      }
+      const micros = currencyToMicros(dailyBudget);
+      operations.push({
+        campaignBudgetOperation: {
+          update: { resourceName: row.campaignBudget.resourceName, amountMicros: micros },
+          updateMask: 'amount_micros',
+        },
+      });
+      after.dailyBudget = microsToCurrency(micros);
+      changes.push({ field: 'dailyBudget', from: before.dailyBudget, to: after.dailyBudget });
+    }
+
+    const resourceNames = operations.length > 0
+      ? await client.mutate(operations, { tool: 'update_campaign', validateOnly })
+      : [];
+
+    return {
+      success: true,
+      customerId: client.customerId,
+      campaignId: String(row.campaign.id),
+      campaignName: row.campaign.name || '',
+      validateOnly,
+      before,
+      after,
+      changes,
+      resourceNames,
+    };
+  },
+};
@@ -0,0 +1,165 @@
+/**
+ * Google Ads tool parameter and result types
+ */
+
+export type CampaignStatus = 'ENABLED' | 'PAUSED' | 'REMOVED';
+
+export type CampaignType = 'SEARCH' | 'DISPLAY' | 'SHOPPING' | 'VIDEO' | 'APP' | 'PERFORMANCE_MAX' | string;
+
+export type PerformanceGranularity = 'day' | 'week' | 'month';
+
+// Shared by every tool
+export interface CustomerParams {
+  customerId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ListCampaignsParams extends CustomerParams {
+  status?: CampaignStatus[];
+  type?: string[];
+  search?: string;
+  sortBy?: keyof CampaignSummary | keyof PerformanceMetrics;
+  sortDirection?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CampaignPerformanceParams extends CustomerParams {
+  campaignIds?: string[];
+  granularity?: PerformanceGranularity;
+}
+
+export interface AdGroupsParams extends CustomerParams {
+  campaignId?: string;
+  status?: CampaignStatus[];
+  limit?: number;
+}
+
+export interface KeywordsParams extends CustomerParams {
+  campaignId?: string;
+  adGroupId?: string;
+  limit?: number;
+}
+
+export interface SearchTermsParams extends CustomerParams {
+  campaignId?: string;
+  adGroupId?: string;
+  minImpressions?: number;
+  limit?: number;
+}
+
+// Metrics in account currency; rates are percentages
+export interface PerformanceMetrics {
+  impressions: number;
+  clicks: number;
+  cost: number;
+  ctr: number;
+  averageCpc: number;
+  conversions: number;
+  conversionRate: number;
+  conversionsValue: number;
+  costPerConversion: number;
+  returnOnAdSpend: number;
+}
+
+export interface CampaignSummary {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  campaignType: CampaignType;
+  budget: number;
+  startDate?: string;
+  endDate?: string;
+  metrics: PerformanceMetrics;
+}
+
+export interface AdGroupSummary {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  type?: string;
+  campaignId: string;
+  campaignName: string;
+  cpcBid?: number;
+  metrics: PerformanceMetrics;
+}
+
+export interface KeywordSummary {
+  criterionId: string;
+  text: string;
+  matchType: string;
+  status: CampaignStatus;
+  qualityScore?: number;
+  adGroupId: string;
+  adGroupName: string;
+  campaignId: string;
+  metrics: PerformanceMetrics;
+}
+
+export interface SearchTermSummary {
+  searchTerm: string;
+  status: string;
+  keyword?: string;
+  matchType?: string;
+  adGroupId: string;
+  campaignId: string;
+  metrics: PerformanceMetrics;
+}
+
+export interface UpdateCampaignParams {
+  customerId?: string;
+  campaignId: string;
+  status?: 'ENABLED' | 'PAUSED';
+  dailyBudget?: number;
+  targetCpa?: number;
+  targetRoas?: number;
+  validateOnly?: boolean;
+}
+
+// The settings update_campaign can change; targets are present for strategies that have them
+export interface CampaignSettings {
+  status: CampaignStatus;
+  dailyBudget: number;
+  biddingStrategyType: string;
+  targetCpa?: number;
+  targetRoas?: number;
+}
+
+export interface CampaignSettingChange {
+  field: 'status' | 'dailyBudget' | 'targetCpa' | 'targetRoas';
+  from: string | number | null;
+  to: string | number;
+}
+
+// Days after a click within which a GA4 conversion is credited to it
+export type AttributionWindowDays = 1 | 3 | 7 | 14 | 30;
+
+export interface CampaignAttributionParams extends CustomerParams {
+  propertyId?: string;
+  campaignIds?: string[];
+  attributionWindowDays?: AttributionWindowDays;
+  includeDaily?: boolean;
+}
+
+// Ads spend joined with GA4 sessions, conversions and revenue; money in account currency
+export interface AttributedMetrics {
+  impressions: number;
+  clicks: number;
+  cost: number;
+  sessions: number;
+  attributedConversions: number;
+  attributedRevenue: number;
+  cpa: number;
+  roas: number;
+  revenuePerClick: number;
+  platformConversions: number;
+  platformConversionsValue: number;
+}
+
+export interface CampaignAttribution {
+  id: string;
+  name: string;
+  totals: AttributedMetrics & { unattributedConversions: number; unattributedRevenue: number };
+  daily?: Array<{ date: string } & AttributedMetrics>;
+}
@@ -0,0 +1,331 @@
+/**
+ * Campaign attribution
+ *
+ * Joins GA4 conversions and revenue to Google Ads spend per campaign and
+ * day. Ads reports conversions from its own tracking; GA4 reports key
+ * events and revenue by session, keyed by sessionGoogleAdsCampaignId, so
+ * joining the two gives CPA and ROAS against what the site actually
+ * recorded (ga4-analytics-mcp's filterGoogleAdsTraffic only narrows GA4
+ * rows to google / cpc and never sees cost).
+ *
+ * Model: a GA4 conversion on day D is credited to the campaign's clicks
+ * on days D-W+1..D (W = attribution window), split by clicks per day.
+ * Credit to click days before the range belongs to the previous period
+ * and is dropped; conversions in the range with no clicks in their
+ * window are reported as unattributed.
+ */
+
+import { buildGaqlQuery, gaqlDateRange, gaqlIdIn } from './gaql.js';
+import { resolveRelativeDate, DateRangeOptions } from './dateRange.js';
+import type { GoogleAdsClient } from './googleAdsClient.js';
+import type { GA4ReportingClient } from './ga4ReportingClient.js';
+import type { AttributionWindowDays, AttributedMetrics, CampaignAttribution } from '../types/googleAds.js';
+
+export const ATTRIBUTION_WINDOWS: AttributionWindowDays[] = [1, 3, 7, 14, 30];
+
+export const DEFAULT_ATTRIBUTION_WINDOW: AttributionWindowDays = 7;
+
+// GA4 dimension and metrics for the join; key events are GA4's conversions
+export const GA4_CAMPAIGN_DIMENSION = 'sessionGoogleAdsCampaignId';
+const GA4_METRICS = ['sessions', 'keyEvents', 'totalRevenue'];
+
+export interface CampaignClickDay {
+  campaignId: string;
+  date: string;
+  clicks: number;
+}
+
+export interface CampaignConversionDay {
+  campaignId: string;
+  date: string;
+  conversions: number;
+  revenue: number;
+}
+
+export interface AttributionCredit {
+  campaignId: string;
+  date: string;
+  conversions: number;
+  revenue: number;
+}
+
+export interface AttributionResult {
+  // Credit per campaign and click day within the range
+  credits: AttributionCredit[];
+  // Conversions in the range with no clicks in their window, per campaign
+  unattributed: Map<string, { conversions: number; revenue: number }>;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Credit conversions to the click days in their attribution window
+ *
+ * clickDays should start W-1 days before the range so conversions early
+ * in the range are split with the clicks that preceded it.
+ */
+export function attributeConversions(
+  clickDays: CampaignClickDay[],
+  conversionDays: CampaignConversionDay[],
+  options: DateRangeOptions & { windowDays: number }
+): AttributionResult {
+  const clicksByDay = new Map<string, number>();
+  for (const day of clickDays) {
+    const key = `${day.campaignId}|${day.date}`;
+    clicksByDay.set(key, (clicksByDay.get(key) || 0) + day.clicks);
+  }
+
+  const credits = new Map<string, AttributionCredit>();
+  const unattributed = new Map<string, { conversions: number; revenue: number }>();
+
+  for (const conversion of conversionDays) {
+    if (conversion.conversions === 0 && conversion.revenue === 0) {
+      continue;
+    }
+
+    const eligible: Array<{ date: string; clicks: number }> = [];
+    for (let offset = 0; offset < options.windowDays; offset++) {
+      const date = addDays(conversion.date, -offset);
+      const clicks = clicksByDay.get(`${conversion.campaignId}|${date}`) || 0;
+      if (clicks > 0) {
+        eligible.push({ date, clicks });
+      }
+    }
+
+    const totalClicks = eligible.reduce((sum, day) => sum + day.clicks, 0);
+    if (totalClicks === 0) {
+      if (conversion.date >= options.startDate && conversion.date <= options.endDate) {
+        const missed = unattributed.get(conversion.campaignId) || { conversions: 0, revenue: 0 };
+        missed.conversions += conversion.conversions;
+        missed.revenue += conversion.revenue;
+        unattributed.set(conversion.campaignId, missed);
+      }
+      continue;
+    }
+
+    for (const day of eligible) {
+      if (day.date < options.startDate || day.date > options.endDate) {
+        continue;
+      }
+      const key = `${conversion.campaignId}|${day.date}`;
+      const credit = credits.get(key) || { campaignId: conversion.campaignId, date: day.date, conversions: 0, revenue: 0 };
+      credit.conversions += conversion.conversions * day.clicks / totalClicks;
+      credit.revenue += conversion.revenue * day.clicks / totalClicks;
+      credits.set(key, credit);
+    }
+  }
+
+  return { credits: Array.from(credits.values()), unattributed };
+}
+
+interface AdditiveAttribution {
+  impressions: number;
+  clicks: number;
+  costMicros: number;
+  sessions: number;
+  conversions: number;
+  revenue: number;
+  platformConversions: number;
+  platformConversionsValue: number;
+}
+
+const round = (value: number, places: number = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+function emptyAttribution(): AdditiveAttribution {
+  return { impressions: 0, clicks: 0, costMicros: 0, sessions: 0, conversions: 0, revenue: 0, platformConversions: 0, platformConversionsValue: 0 };
+}
+
+function addAttribution(total: AdditiveAttribution, values: Partial<AdditiveAttribution>): void {
+  for (const key of Object.keys(values) as Array<keyof AdditiveAttribution>) {
+    total[key] += values[key] || 0;
+  }
+}
+
+/**
+ * Derive CPA, ROAS and revenue per click from additive values
+ */
+function toAttributedMetrics(values: AdditiveAttribution): AttributedMetrics {
+  const cost = values.costMicros / 1e6;
+  return {
+    impressions: values.impressions,
+    clicks: values.clicks,
+    cost: round(cost),
+    sessions: values.sessions,
+    attributedConversions: round(values.conversions),
+    attributedRevenue: round(values.revenue),
+    cpa: values.conversions ? round(cost / values.conversions) : 0,
+    roas: cost ? round(values.revenue / cost) : 0,
+    revenuePerClick: values.clicks ? round(values.revenue / values.clicks) : 0,
+    platformConversions: round(values.platformConversions),
+    platformConversionsValue: round(values.platformConversionsValue),
+  };
+}
+
+export interface CampaignAttributionOptions {
+  propertyId: string;
+  dateRange: DateRangeOptions;
+  windowDays: AttributionWindowDays;
+  campaignIds?: string[];
+  includeDaily?: boolean;
+  tool: string;
+}
+
+export interface CampaignAttributionReport {
+  success: boolean;
+  customerId: string;
+  propertyId: string;
+  dateRange: DateRangeOptions;
+  attributionWindowDays: AttributionWindowDays;
+  // GA4 days read: the range plus the window after it, up to today
+  conversionDateRange: DateRangeOptions;
+  campaigns: CampaignAttribution[];
+  totals: CampaignAttribution['totals'];
+}
+
+/**
+ * Campaign attribution for one Ads customer and GA4 property
+ */
+export class CampaignAttributionService {
+  constructor(private ads: GoogleAdsClient, private ga4: GA4ReportingClient) {}
+
+  async attribute(options: CampaignAttributionOptions): Promise<CampaignAttributionReport> {
+    const { dateRange, windowDays } = options;
+    const today = resolveRelativeDate('today');
+    const lastConversionDate = addDays(dateRange.endDate, windowDays - 1);
+    const conversionDateRange = {
+      startDate: dateRange.startDate,
+      endDate: lastConversionDate < today ? lastConversionDate : today,
+    };
+
+    // Clicks from before the range share credit for conversions early in it
+    const [adsRows, ga4Rows] = await Promise.all([
+      this.ads.query(buildGaqlQuery({
+        select: [
+          'campaign.id',
+          'campaign.name',
+          'segments.date',
+          'metrics.impressions',
+          'metrics.clicks',
+          'metrics.cost_micros',
+          'metrics.conversions',
+          'metrics.conversions_value',
+        ],
+        from: 'campaign',
+        where: [
+          gaqlDateRange({ startDate: addDays(dateRange.startDate, 1 - windowDays), endDate: dateRange.endDate }),
+          gaqlIdIn('campaign.id', options.campaignIds, options.tool),
+        ],
+        orderBy: 'segments.date',
+      }), { tool: options.tool, dataType: 'ads-performance' }),
+      this.ga4.runReport(options.propertyId, {
+        ...conversionDateRange,
+        dimensions: ['date', GA4_CAMPAIGN_DIMENSION],
+        metrics: GA4_METRICS,
+      }, { tool: options.tool }),
+    ]);
+
+    const names = new Map<string, string>();
+    const daily = new Map<string, Map<string, AdditiveAttribution>>();
+    const dayOf = (campaignId: string, date: string): AdditiveAttribution => {
+      const days = daily.get(campaignId) || daily.set(campaignId, new Map()).get(campaignId)!;
+      return days.get(date) || days.set(date, emptyAttribution()).get(date)!;
+    };
+
+    const clickDays: CampaignClickDay[] = [];
+    for (const row of adsRows) {
+      const campaignId = String(row.campaign?.id);
+      const date = row.segments?.date;
+      names.set(campaignId, row.campaign?.name || '');
+      clickDays.push({ campaignId, date, clicks: Number(row.metrics?.clicks || 0) });
+
+      if (date >= dateRange.startDate) {
+        addAttribution(dayOf(campaignId, date), {
+          impressions: Number(row.metrics?.impressions || 0),
+          clicks: Number(row.metrics?.clicks || 0),
+          costMicros: Number(row.metrics?.costMicros || 0),
+          platformConversions: Number(row.metrics?.conversions || 0),
+          platformConversionsValue: Number(row.metrics?.conversionsValue || 0),
+        });
+      }
+    }
+
+    // GA4 rows for other accounts' campaigns and '(not set)' sessions drop out here
+    const conversionDays: CampaignConversionDay[] = [];
+    for (const row of ga4Rows) {
+      const campaignId = String(row[GA4_CAMPAIGN_DIMENSION]);
+      const date = String(row.date);
+      if (!names.has(campaignId)) {
+        continue;
+      }
+      conversionDays.push({
+        campaignId,
+        date,
+        conversions: Number(row.keyEvents || 0),
+        revenue: Number(row.totalRevenue || 0),
+      });
+      if (date <= dateRange.endDate) {
+        addAttribution(dayOf(campaignId, date), { sessions: Number(row.sessions || 0) });
+      }
+    }
+
+    const { credits, unattributed } = attributeConversions(clickDays, conversionDays, { ...dateRange, windowDays });
+    for (const credit of credits) {
+      addAttribution(dayOf(credit.campaignId, credit.date), { conversions: credit.conversions, revenue: credit.revenue });
+    }
+
+    const grandTotal = emptyAttribution();
+    const grandUnattributed = { conversions: 0, revenue: 0 };
+    const campaigns: CampaignAttribution[] = [];
+
+    for (const [campaignId, days] of daily) {
+      const total = emptyAttribution();
+      for (const values of days.values()) {
+        addAttribution(total, values);
+      }
+      addAttribution(grandTotal, total);
+
+      const missed = unattributed.get(campaignId) || { conversions: 0, revenue: 0 };
+      grandUnattributed.conversions += missed.conversions;
+      grandUnattributed.revenue += missed.revenue;
+
+      campaigns.push({
+        id: campaignId,
+        name: names.get(campaignId) || '',
+        totals: {
+          ...toAttributedMetrics(total),
+          unattributedConversions: round(missed.conversions),
+          unattributedRevenue: round(missed.revenue),
+        },
+        ...(options.includeDaily && {
+          daily: Array.from(days.entries())
+            .sort(([dateA], [dateB]) => dateA.localeCompare(dateB))
+            .map(([date, values]) => ({ date, ...toAttributedMetrics(values) })),
+        }),
+      });
+    }
+
+    campaigns.sort((a, b) => b.totals.cost - a.totals.cost);
+
+    return {
+      success: true,
+      customerId: this.ads.customerId,
+      propertyId: options.propertyId,
+      dateRange,
+      attributionWindowDays: windowDays,
+      conversionDateRange,
+      campaigns,
+      totals: {
+        ...toAttributedMetrics(grandTotal),
+        unattributedConversions: round(grandUnattributed.conversions),
+        unattributedRevenue: round(grandUnattributed.revenue),
+      },
+    };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Date range helpers for Google Ads reports
+ *
+ * Tools accept the same relative dates as ga4-analytics-mcp ("today",
+ * "yesterday", "NdaysAgo") so both servers can be queried with one range.
+ */
+
+export interface DateRangeOptions {
+  startDate: string;
+  endDate: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export { resolveRelativeDate } from '@ai-ad-manager/mcp-shared/dateRange';
+
+/**
+ * Validate date range format and order
+ */
+export function validateDateRange(dateRange: DateRangeOptions): DateRangeOptions {
+  if (!DATE_PATTERN.test(dateRange.startDate) || isNaN(Date.parse(dateRange.startDate))) {
+    throw new Error(`Invalid start date: ${dateRange.startDate}. Expected YYYY-MM-DD`);
+  }
+
+  if (!DATE_PATTERN.test(dateRange.endDate) || isNaN(Date.parse(dateRange.endDate))) {
+    throw new Error(`Invalid end date: ${dateRange.endDate}. Expected YYYY-MM-DD`);
+  }
+
+  if (dateRange.startDate > dateRange.endDate) {
+    throw new Error(`Start date ${dateRange.startDate} cannot be after end date ${dateRange.endDate}`);
+  }
+
+  return dateRange;
+}
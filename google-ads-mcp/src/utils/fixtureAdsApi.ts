@@ -0,0 +1,278 @@
+/**
+ * Fixture-backed stand-in for the Google Ads API
+ *
+ * Answers the GAQL the tools send from local rows, and applies update
+ * mutations to them, so tests and local development run without
+ * credentials. Each instance mutates its own copy of the fixtures. It understands the subset of GAQL
+ * the tools use: SELECT fields FROM resource, WHERE conditions joined by
+ * AND (=, !=, <, <=, >, >=, IN, NOT IN, LIKE, NOT LIKE, BETWEEN), ORDER BY
+ * and LIMIT. Like the API, rows are summed over dates unless segments.date
+ * is selected, conditions on metrics apply to the summed rows, and only the
+ * selected fields are returned.
+ */
+
+import { createRequire } from 'module';
+import { resolve } from 'path';
+import { readGaqlField, toRestFieldPath } from './gaql.js';
+import {
+  normalizeCustomerId,
+  GoogleAdsApi,
+  GoogleAdsApiError,
+  GoogleAdsMutateOperation,
+  GoogleAdsRow,
+} from './googleAdsClient.js';
+
+// Daily rows in the REST shape, per customer ID and GAQL resource (campaign, ad_group, ...)
+export type GoogleAdsFixtures = Record<string, Record<string, GoogleAdsRow[]>>;
+
+interface ParsedQuery {
+  fields: string[];
+  resource: string;
+  conditions: Array<(row: GoogleAdsRow) => boolean>;
+  metricConditions: Array<(row: GoogleAdsRow) => boolean>;
+  orderBy: Array<{ field: string; descending: boolean }>;
+  limit?: number;
+}
+
+const QUERY_PATTERN = /^SELECT\s+(.+?)\s+FROM\s+(\w+)(?:\s+WHERE\s+(.+?))?(?:\s+ORDER BY\s+(.+?))?(?:\s+LIMIT\s+(\d+))?$/i;
+const CONDITION_PATTERN = /^([\w.]+)\s+(=|!=|<=|>=|<|>|NOT IN|IN|NOT LIKE|LIKE|BETWEEN)\s+(.+)$/i;
+
+export class FixtureGoogleAdsApi implements GoogleAdsApi {
+  readonly queries: Array<{ customerId: string; query: string }> = [];
+  readonly mutations: Array<{ customerId: string; operations: GoogleAdsMutateOperation[]; validateOnly: boolean }> = [];
+  private fixtures: GoogleAdsFixtures;
+
+  constructor(fixtures: GoogleAdsFixtures) {
+    this.fixtures = structuredClone(fixtures);
+  }
+
+  async search(customerId: string, query: string): Promise<GoogleAdsRow[]> {
+    this.queries.push({ customerId, query });
+
+    const customer = this.getCustomer(customerId);
+    const parsed = parseQuery(query);
+    const rows = (customer[parsed.resource] || []).filter(row => parsed.conditions.every(matches => matches(row)));
+    const results = aggregate(rows, parsed.fields)
+      .filter(row => parsed.metricConditions.every(matches => matches(row)));
+
+    for (const { field, descending } of [...parsed.orderBy].reverse()) {
+      results.sort((a, b) => compare(readField(a, field), readField(b, field)) * (descending ? -1 : 1));
+    }
+    return parsed.limit !== undefined ? results.slice(0, parsed.limit) : results;
+  }
+
+  /**
+   * Apply update operations to every row holding the resource, e.g. a
+   * campaignOperation to row.campaign in campaign, ad_group and keyword rows
+   */
+  async mutate(customerId: string, operations: GoogleAdsMutateOperation[], options: { validateOnly?: boolean } = {}): Promise<string[]> {
+    const validateOnly = Boolean(options.validateOnly);
+    this.mutations.push({ customerId, operations, validateOnly });
+
+    const rows = Object.values(this.getCustomer(customerId)).flat();
+    const updates = operations.map(operation => {
+      const [operationKey, { update, updateMask }] = Object.entries(operation)[0];
+      const resourceKey = operationKey.replace(/Operation$/, '');
+      const resourceId = String(update.resourceName).split('/').pop();
+      const targets = rows.filter(row => row[resourceKey] &&
+        (row[resourceKey].resourceName === update.resourceName || String(row[resourceKey].id) === resourceId));
+
+      if (targets.length === 0) {
+        throw new GoogleAdsApiError(`Resource was not found: ${update.resourceName}`, 400,
+          'mutateError: RESOURCE_NOT_FOUND');
+      }
+      return { resourceKey, update, fields: updateMask.split(','), targets };
+    });
+
+    // Operations are atomic: nothing is applied unless every one is valid
+    if (!validateOnly) {
+      for (const { resourceKey, update, fields, targets } of updates) {
+        for (const row of targets) {
+          for (const field of fields) {
+            setField(row[resourceKey], field, readGaqlField(update, field));
+          }
+        }
+      }
+    }
+    return validateOnly ? [] : updates.map(({ update }) => update.resourceName);
+  }
+
+  private getCustomer(customerId: string): Record<string, GoogleAdsRow[]> {
+    const customer = this.fixtures[normalizeCustomerId(customerId)];
+    if (!customer) {
+      throw new GoogleAdsApiError(`User doesn't have permission to access customer ${customerId}`, 403,
+        'authorizationError: USER_PERMISSION_DENIED');
+    }
+    return customer;
+  }
+}
+
+/**
+ * Load fixtures from a CommonJS module (module.exports = { "<customerId>": { campaign: [...] } })
+ */
+export function loadGoogleAdsFixtures(file: string): GoogleAdsFixtures {
+  return createRequire(import.meta.url)(resolve(file));
+}
+
+function parseQuery(query: string): ParsedQuery {
+  const match = query.trim().replace(/\s+/g, ' ').match(QUERY_PATTERN);
+  if (!match) {
+    throw invalidQuery(`Unsupported GAQL: ${query}`);
+  }
+
+  const [, select, resource, where, orderBy, limit] = match;
+  const conditions = where ? splitConditions(where) : [];
+  const isMetricCondition = (condition: string) => condition.startsWith('metrics.');
+  return {
+    fields: select.split(',').map(field => field.trim()),
+    resource,
+    conditions: conditions.filter(condition => !isMetricCondition(condition)).map(parseCondition),
+    metricConditions: conditions.filter(isMetricCondition).map(parseCondition),
+    orderBy: orderBy
+      ? orderBy.split(',').map(part => {
+        const [field, direction] = part.trim().split(/\s+/);
+        return { field, descending: direction?.toUpperCase() === 'DESC' };
+      })
+      : [],
+    limit: limit !== undefined ? parseInt(limit, 10) : undefined,
+  };
+}
+
+// Split on AND, except the one inside BETWEEN x AND y
+function splitConditions(where: string): string[] {
+  const parts = where.split(/\s+AND\s+/i);
+  const conditions: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    conditions.push(/\sBETWEEN\s/i.test(parts[i]) ? `${parts[i]} AND ${parts[++i]}` : parts[i]);
+  }
+  return conditions;
+}
+
+function parseCondition(condition: string): (row: GoogleAdsRow) => boolean {
+  const match = condition.match(CONDITION_PATTERN);
+  if (!match) {
+    throw invalidQuery(`Unsupported GAQL condition: ${condition}`);
+  }
+
+  const [, field, rawOperator, rawValue] = match;
+  const operator = rawOperator.toUpperCase();
+  const value = (row: GoogleAdsRow) => readField(row, field);
+
+  switch (operator) {
+    case 'IN':
+    case 'NOT IN': {
+      const values = rawValue.replace(/^\(|\)$/g, '').split(',').map(parseLiteral);
+      return row => values.some(candidate => compare(value(row), candidate) === 0) === (operator === 'IN');
+    }
+    case 'LIKE':
+    case 'NOT LIKE': {
+      const pattern = String(parseLiteral(rawValue))
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '.*')
+        .replace(/_/g, '.');
+      const regex = new RegExp(`^${pattern}$`, 'i');
+      return row => regex.test(String(value(row) ?? '')) === (operator === 'LIKE');
+    }
+    case 'BETWEEN': {
+      const [from, to] = rawValue.split(/\s+AND\s+/i).map(parseLiteral);
+      return row => compare(value(row), from) >= 0 && compare(value(row), to) <= 0;
+    }
+    default: {
+      const literal = parseLiteral(rawValue);
+      const comparisons: Record<string, (result: number) => boolean> = {
+        '=': result => result === 0,
+        '!=': result => result !== 0,
+        '<': result => result < 0,
+        '<=': result => result <= 0,
+        '>': result => result > 0,
+        '>=': result => result >= 0,
+      };
+      return row => comparisons[operator](compare(value(row), literal));
+    }
+  }
+}
+
+// Quoted strings lose their quotes; enums and numbers stay as written
+function parseLiteral(literal: string): string {
+  const trimmed = literal.trim();
+  const quoted = trimmed.match(/^'(.*)'$|^"(.*)"$/);
+  return quoted ? (quoted[1] ?? quoted[2]).replace(/\\(.)/g, '$1') : trimmed;
+}
+
+// Numbers compare numerically (the REST API sends int64 values as strings)
+function compare(a: any, b: any): number {
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (a !== undefined && a !== '' && b !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+    return numberA - numberB;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+/**
+ * Project rows onto the selected fields, summing metrics over rows that
+ * share every selected attribute and segment
+ */
+function aggregate(rows: GoogleAdsRow[], fields: string[]): GoogleAdsRow[] {
+  const metricFields = fields.filter(field => field.startsWith('metrics.'));
+  const keyFields = fields.filter(field => !field.startsWith('metrics.'));
+  const groups = new Map<string, GoogleAdsRow>();
+
+  for (const row of rows) {
+    const key = JSON.stringify(keyFields.map(field => readField(row, field)));
+    let result = groups.get(key);
+    if (!result) {
+      result = {};
+      for (const field of keyFields) {
+        setField(result, field, readField(row, field));
+      }
+      groups.set(key, result);
+    }
+
+    for (const field of metricFields) {
+      const value = readField(row, field);
+      if (value !== undefined) {
+        const sum = Number(readField(result, field) || 0) + Number(value);
+        // Integer metrics stay strings like int64 values in the REST API
+        setField(result, field, typeof value === 'string' ? String(sum) : sum);
+      }
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+// Fixture rows carry segments.date; weeks (starting Monday) and months derive from it
+function readField(row: GoogleAdsRow, field: string): any {
+  const value = readGaqlField(row, field);
+  const date = row.segments?.date;
+  if (value !== undefined || typeof date !== 'string') {
+    return value;
+  }
+
+  if (field === 'segments.month') {
+    return `${date.slice(0, 8)}01`;
+  }
+  if (field === 'segments.week') {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    return day.toISOString().split('T')[0];
+  }
+  return undefined;
+}
+
+function setField(row: GoogleAdsRow, field: string, value: any): void {
+  if (value === undefined) {
+    return;
+  }
+  const path = toRestFieldPath(field);
+  let target = row;
+  for (const key of path.slice(0, -1)) {
+    target = target[key] = target[key] || {};
+  }
+  target[path[path.length - 1]] = value;
+}
+
+function invalidQuery(message: string): GoogleAdsApiError {
+  return new GoogleAdsApiError(message, 400, 'queryError: UNEXPECTED_INPUT');
+}
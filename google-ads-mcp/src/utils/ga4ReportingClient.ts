@@ -0,0 +1,261 @@
+/**
+ * GA4 reporting client
+ *
+ * The GA4 side of campaign attribution: sessions, key events and revenue
+ * by Google Ads campaign and day. GA4ReportingApi is the transport:
+ * GA4RestReportingApi calls the GA4 Data API (properties:runReport) with
+ * the service account ga4-analytics-mcp uses, and FixtureGA4ReportingApi
+ * answers from local rows. GA4ReportingClient resolves allow-listed
+ * properties, caches reports and turns API failures into MCP errors.
+ */
+
+import { createRequire } from 'module';
+import { resolve } from 'path';
+import { GoogleAuth } from 'google-auth-library';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { getProductionCache } from './productionCache.js';
+
+// One report row keyed by dimension and metric name; `date` is YYYY-MM-DD, metrics are numbers
+export type GA4ReportRow = Record<string, string | number>;
+
+export interface GA4ReportRequest {
+  startDate: string;
+  endDate: string;
+  dimensions: string[];
+  metrics: string[];
+}
+
+export interface GA4ReportingApi {
+  runReport(propertyId: string, request: GA4ReportRequest): Promise<GA4ReportRow[]>;
+}
+
+export class GA4ReportingApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GA4ReportingApiError';
+  }
+}
+
+const REPORT_PAGE_SIZE = 100000;
+
+/**
+ * Convert a GA4 date dimension (YYYYMMDD) to YYYY-MM-DD
+ */
+function toIsoDate(value: string): string {
+  return /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6)}` : value;
+}
+
+/**
+ * GA4 Data API transport; credentials come from GOOGLE_APPLICATION_CREDENTIALS
+ */
+export class GA4RestReportingApi implements GA4ReportingApi {
+  private auth = new GoogleAuth({ scopes: ['https://www.googleapis.com/auth/analytics.readonly'] });
+
+  constructor(private timeoutMs: number = 30000) {}
+
+  async runReport(propertyId: string, request: GA4ReportRequest): Promise<GA4ReportRow[]> {
+    const token = await this.auth.getAccessToken();
+    if (!token) {
+      throw new GA4ReportingApiError('No access token for the GA4 Data API', 401);
+    }
+
+    const rows: GA4ReportRow[] = [];
+    for (let offset = 0; ; offset += REPORT_PAGE_SIZE) {
+      const response = await fetch(`https://analyticsdata.googleapis.com/v1beta/properties/${propertyId}:runReport`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          dateRanges: [{ startDate: request.startDate, endDate: request.endDate }],
+          dimensions: request.dimensions.map(name => ({ name })),
+          metrics: request.metrics.map(name => ({ name })),
+          limit: REPORT_PAGE_SIZE,
+          offset,
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      const body: any = await response.json().catch(() => undefined);
+      if (!response.ok) {
+        throw new GA4ReportingApiError(body?.error?.message || `GA4 Data API responded with HTTP ${response.status}`, response.status);
+      }
+
+      for (const row of body?.rows || []) {
+        const reportRow: GA4ReportRow = {};
+        request.dimensions.forEach((name, index) => {
+          const value = row.dimensionValues?.[index]?.value ?? '';
+          reportRow[name] = name === 'date' ? toIsoDate(value) : value;
+        });
+        request.metrics.forEach((name, index) => {
+          reportRow[name] = Number(row.metricValues?.[index]?.value || 0);
+        });
+        rows.push(reportRow);
+      }
+
+      if (rows.length >= Number(body?.rowCount || 0) || !(body?.rows?.length)) {
+        return rows;
+      }
+    }
+  }
+}
+
+export type GA4Fixtures = Record<string, GA4ReportRow[]>;
+
+/**
+ * Load a fixture module of daily rows keyed by property ID
+ */
+export function loadGA4Fixtures(file: string): GA4Fixtures {
+  return createRequire(import.meta.url)(resolve(file));
+}
+
+/**
+ * Fixture-backed stand-in of the GA4 Data API
+ *
+ * Keeps the rows within the date range and sums the requested metrics
+ * per distinct combination of the requested dimensions.
+ */
+export class FixtureGA4ReportingApi implements GA4ReportingApi {
+  readonly reports: Array<{ propertyId: string; request: GA4ReportRequest }> = [];
+
+  constructor(private fixtures: GA4Fixtures) {}
+
+  async runReport(propertyId: string, request: GA4ReportRequest): Promise<GA4ReportRow[]> {
+    this.reports.push({ propertyId, request });
+
+    const rows = this.fixtures[propertyId];
+    if (!rows) {
+      throw new GA4ReportingApiError(`User does not have sufficient permissions for property ${propertyId}`, 403);
+    }
+
+    const groups = new Map<string, GA4ReportRow>();
+    for (const row of rows) {
+      const date = String(row.date);
+      if (date < request.startDate || date > request.endDate) {
+        continue;
+      }
+
+      const key = JSON.stringify(request.dimensions.map(name => row[name] ?? '(not set)'));
+      let group = groups.get(key);
+      if (!group) {
+        group = Object.fromEntries([
+          ...request.dimensions.map(name => [name, String(row[name] ?? '(not set)')]),
+          ...request.metrics.map(name => [name, 0]),
+        ]) as GA4ReportRow;
+        groups.set(key, group);
+      }
+      for (const name of request.metrics) {
+        group[name] = Math.round(((group[name] as number) + Number(row[name] || 0)) * 100) / 100;
+      }
+    }
+
+    return Array.from(groups.values());
+  }
+}
+
+export interface GA4ReportingClientConfig {
+  api: GA4ReportingApi;
+  defaultPropertyId?: string;
+  allowedPropertyIds?: string[];
+}
+
+/**
+ * GA4 reports for the allow-listed properties
+ */
+export class GA4ReportingClient {
+  private readonly api: GA4ReportingApi;
+  private readonly defaultPropertyId?: string;
+  private readonly allowedPropertyIds: Set<string>;
+
+  constructor(config: GA4ReportingClientConfig) {
+    this.api = config.api;
+    this.defaultPropertyId = config.defaultPropertyId?.trim() || undefined;
+    this.allowedPropertyIds = new Set((config.allowedPropertyIds || []).map(propertyId => propertyId.trim()));
+
+    if (this.defaultPropertyId) {
+      this.allowedPropertyIds.add(this.defaultPropertyId);
+    }
+  }
+
+  /**
+   * Resolve the property a call should use, enforcing the allow-list
+   */
+  resolvePropertyId(requestedPropertyId?: string): string {
+    const propertyId = requestedPropertyId ? String(requestedPropertyId).trim() : this.defaultPropertyId;
+
+    if (!propertyId) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        'propertyId is required: no default GA4 property is configured',
+        { allowedPropertyIds: Array.from(this.allowedPropertyIds) }
+      );
+    }
+    if (!/^\d+$/.test(propertyId)) {
+      throw MCPErrorHandler.createError(ErrorCode.INVALID_TOOL_PARAMS, `Invalid GA4 property ID: ${requestedPropertyId}`, { propertyId });
+    }
+    if (!this.allowedPropertyIds.has(propertyId)) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.GA4_PROPERTY_ACCESS_DENIED,
+        `GA4 property ${propertyId} is not configured for attribution`,
+        { propertyId }
+      );
+    }
+    return propertyId;
+  }
+
+  /**
+   * Run a report, answering from the cache while the ga4-attribution TTL lasts
+   */
+  async runReport(propertyId: string, request: GA4ReportRequest, context: { tool: string }): Promise<GA4ReportRow[]> {
+    const cache = getProductionCache();
+    const cacheKey = `ga4-attribution:property:${propertyId}:${JSON.stringify(request)}`;
+
+    const cached = await cache?.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const rows = await this.api.runReport(propertyId, request);
+      await cache?.set(cacheKey, rows, { dataType: 'ga4-attribution', tags: [`property:${propertyId}`] });
+      return rows;
+    } catch (error) {
+      const status = error instanceof GA4ReportingApiError ? error.status : undefined;
+      const message = error instanceof Error ? error.message : String(error);
+      const mcpError = status === 401 || status === 403
+        ? MCPErrorHandler.createError(ErrorCode.GA4_PROPERTY_ACCESS_DENIED, `GA4 property ${propertyId} is not accessible: ${message}`, { propertyId })
+        : MCPErrorHandler.createError(ErrorCode.GA4_API_ERROR, `GA4 Data API error: ${message}`, { propertyId, status },
+          error instanceof Error ? error : undefined);
+
+      productionLogger.warn('GA4 report failed', {
+        component: 'GA4_API',
+        propertyId,
+        tool: context.tool,
+        code: mcpError.code,
+        error: mcpError.message
+      });
+      throw mcpError;
+    }
+  }
+
+  getAllowedPropertyIds(): string[] {
+    return Array.from(this.allowedPropertyIds);
+  }
+}
+
+// Global GA4 reporting client; attribution tools fail without it
+let globalGA4ReportingClient: GA4ReportingClient | undefined;
+
+/**
+ * Initialize global GA4 reporting client
+ */
+export function initializeGA4ReportingClient(config: GA4ReportingClientConfig): GA4ReportingClient {
+  globalGA4ReportingClient = new GA4ReportingClient(config);
+  return globalGA4ReportingClient;
+}
+
+/**
+ * Get global GA4 reporting client, if GA4 is configured
+ */
+export function getGA4ReportingClient(): GA4ReportingClient | undefined {
+  return globalGA4ReportingClient;
+}
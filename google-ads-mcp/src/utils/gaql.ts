@@ -0,0 +1,110 @@
+/**
+ * Google Ads Query Language helpers
+ *
+ * Tools build GAQL from these pieces instead of concatenating user input,
+ * so strings are always quoted and IDs always numeric. Fields use the GAQL
+ * (snake_case) names; rows come back with the REST (camelCase) names.
+ */
+
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import type { DateRangeOptions } from './dateRange.js';
+
+export interface GaqlQuery {
+  select: string[];
+  from: string;
+  where?: Array<string | undefined>;
+  orderBy?: string;
+  limit?: number;
+}
+
+/**
+ * Render a GAQL query; undefined conditions are skipped
+ */
+export function buildGaqlQuery(query: GaqlQuery): string {
+  const conditions = (query.where || []).filter((condition): condition is string => Boolean(condition));
+
+  return [
+    `SELECT ${query.select.join(', ')}`,
+    `FROM ${query.from}`,
+    conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : undefined,
+    query.orderBy ? `ORDER BY ${query.orderBy}` : undefined,
+    query.limit ? `LIMIT ${Math.floor(query.limit)}` : undefined,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Quote a string literal
+ */
+export function gaqlString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * segments.date condition for a resolved date range
+ */
+export function gaqlDateRange(dateRange: DateRangeOptions): string {
+  return `segments.date BETWEEN ${gaqlString(dateRange.startDate)} AND ${gaqlString(dateRange.endDate)}`;
+}
+
+/**
+ * `field IN (...)` for enum values such as campaign statuses; undefined when no values are given
+ */
+export function gaqlEnumIn(field: string, values: string[] | undefined, toolName: string): string | undefined {
+  if (!values || values.length === 0) {
+    return undefined;
+  }
+
+  const invalid = values.filter(value => !/^[A-Z_]+$/.test(value));
+  if (invalid.length > 0) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      `Invalid ${field} values for tool ${toolName}: ${invalid.join(', ')}`,
+      { toolName, field, invalid }
+    );
+  }
+  return `${field} IN (${values.join(', ')})`;
+}
+
+/**
+ * `field = id` for a numeric resource ID; undefined when no ID is given
+ */
+export function gaqlIdEquals(field: string, id: string | number | undefined, toolName: string): string | undefined {
+  if (id === undefined || id === null || id === '') {
+    return undefined;
+  }
+
+  const normalized = String(id).trim();
+  if (!/^\d+$/.test(normalized)) {
+    throw MCPErrorHandler.createError(
+      ErrorCode.INVALID_TOOL_PARAMS,
+      `Invalid ${field} for tool ${toolName}: ${id}`,
+      { toolName, field, id }
+    );
+  }
+  return `${field} = ${normalized}`;
+}
+
+/**
+ * `field IN (ids)` for numeric resource IDs; undefined when no IDs are given
+ */
+export function gaqlIdIn(field: string, ids: Array<string | number> | undefined, toolName: string): string | undefined {
+  if (!ids || ids.length === 0) {
+    return undefined;
+  }
+  const conditions = ids.map(id => gaqlIdEquals(field, id, toolName)!.split(' = ')[1]);
+  return `${field} IN (${conditions.join(', ')})`;
+}
+
+/**
+ * REST (camelCase) name of a GAQL field: campaign_budget.amount_micros -> campaignBudget.amountMicros
+ */
+export function toRestFieldPath(field: string): string[] {
+  return field.split('.').map(part => part.replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase()));
+}
+
+/**
+ * Read a GAQL field from a REST row
+ */
+export function readGaqlField(row: any, field: string): any {
+  return toRestFieldPath(field).reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), row);
+}
@@ -0,0 +1,389 @@
+/**
+ * Google Ads API client
+ *
+ * GoogleAdsApi is the transport: GoogleAdsRestApi calls the Google Ads REST
+ * API (googleAds:searchStream, googleAds:mutate) with OAuth and a developer
+ * token, and FixtureGoogleAdsApi (see fixtureAdsApi.ts) answers GAQL and
+ * applies mutations to local fixtures for tests and development.
+ * GoogleAdsClient runs a customer's queries through the cache, records
+ * metrics and turns API failures into MCP errors.
+ */
+
+import { OAuth2Client } from 'google-auth-library';
+import { logger } from '@ai-ad-manager/mcp-shared/logger';
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import { MCPErrorHandler, ErrorCode } from '@ai-ad-manager/mcp-shared/errorHandler';
+import { getProductionCache } from './productionCache.js';
+
+// One result row in the REST shape: {campaign: {...}, metrics: {...}, segments: {...}}
+export type GoogleAdsRow = Record<string, any>;
+
+// One googleAds:mutate operation, e.g. {campaignOperation: {update: {resourceName, status}, updateMask: 'status'}}
+export type GoogleAdsMutateOperation = Record<string, { update: GoogleAdsRow; updateMask: string }>;
+
+/**
+ * Transport that runs GAQL queries and mutations for a customer
+ */
+export interface GoogleAdsApi {
+  search(customerId: string, query: string): Promise<GoogleAdsRow[]>;
+  // Resource names of the mutated resources; validateOnly checks the operations without applying them
+  mutate(customerId: string, operations: GoogleAdsMutateOperation[], options?: { validateOnly?: boolean }): Promise<string[]>;
+}
+
+export interface GoogleAdsRestApiConfig {
+  developerToken: string;
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  loginCustomerId?: string; // Manager account the credentials act through
+  apiVersion: string;
+  timeoutMs: number;
+}
+
+// Error from the API, with the first GoogleAdsFailure error code (e.g. "quotaError: RESOURCE_EXHAUSTED")
+export class GoogleAdsApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly errorCode?: string,
+    readonly requestId?: string
+  ) {
+    super(message);
+    this.name = 'GoogleAdsApiError';
+  }
+}
+
+export interface GoogleAdsQueryContext {
+  tool: string;
+  dataType: string; // Cache TTL strategy, e.g. "ads-campaigns"
+  fresh?: boolean;  // Bypass the cache, e.g. to read state before a mutation
+}
+
+const adsRequests = metricsRegistry.counter({
+  name: 'google_ads_mcp_api_requests',
+  help: 'Google Ads API searches, by tool and status (success, cached or error)',
+  labelNames: ['tool', 'status'],
+});
+
+const adsDuration = metricsRegistry.histogram({
+  name: 'google_ads_mcp_api_duration_seconds',
+  help: 'Google Ads API search latency in seconds, by tool and status',
+  labelNames: ['tool', 'status'],
+});
+
+/**
+ * Normalize a customer ID ("123-456-7890" -> "1234567890")
+ */
+export function normalizeCustomerId(customerId: string): string {
+  return String(customerId).trim().replace(/-/g, '');
+}
+
+/**
+ * Google Ads REST API transport
+ */
+export class GoogleAdsRestApi implements GoogleAdsApi {
+  private oauth: OAuth2Client;
+
+  constructor(private config: GoogleAdsRestApiConfig) {
+    this.oauth = new OAuth2Client({ clientId: config.clientId, clientSecret: config.clientSecret });
+    this.oauth.setCredentials({ refresh_token: config.refreshToken });
+  }
+
+  async search(customerId: string, query: string): Promise<GoogleAdsRow[]> {
+    const body = await this.post(customerId, 'googleAds:searchStream', { query });
+    return (Array.isArray(body) ? body : [body]).flatMap(batch => batch?.results || []);
+  }
+
+  async mutate(customerId: string, operations: GoogleAdsMutateOperation[], options: { validateOnly?: boolean } = {}): Promise<string[]> {
+    const body = await this.post(customerId, 'googleAds:mutate', {
+      mutateOperations: operations,
+      validateOnly: Boolean(options.validateOnly),
+    });
+
+    // Each response holds one result, e.g. {campaignResult: {resourceName}}; validateOnly responses are empty
+    return (body?.mutateOperationResponses || [])
+      .map((operationResponse: any) => (Object.values(operationResponse || {})[0] as any)?.resourceName)
+      .filter(Boolean);
+  }
+
+  private async post(customerId: string, method: string, payload: any): Promise<any> {
+    const { token } = await this.oauth.getAccessToken();
+    if (!token) {
+      throw new GoogleAdsApiError('No OAuth access token for the Google Ads API', 401, 'authenticationError');
+    }
+
+    const response = await fetch(
+      `https://googleads.googleapis.com/${this.config.apiVersion}/customers/${customerId}/${method}`,
+      {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${token}`,
+          'developer-token': this.config.developerToken,
+          ...(this.config.loginCustomerId && { 'login-customer-id': normalizeCustomerId(this.config.loginCustomerId) }),
+        },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      }
+    );
+
+    const body: any = await response.json().catch(() => undefined);
+    // searchStream answers with an array of batches; errors may come wrapped in one
+    const failure = Array.isArray(body) ? body.find(batch => batch?.error)?.error : body?.error;
+    if (!response.ok || failure) {
+      throw toApiError(response.status, failure);
+    }
+    return body;
+  }
+}
+
+function toApiError(status: number, failure: any): GoogleAdsApiError {
+  const adsFailure = (failure?.details || []).find((detail: any) => Array.isArray(detail?.errors));
+  const firstError = adsFailure?.errors?.[0];
+  const errorCode = firstError?.errorCode
+    ? Object.entries(firstError.errorCode).map(([kind, value]) => `${kind}: ${value}`)[0]
+    : failure?.status;
+
+  return new GoogleAdsApiError(
+    firstError?.message || failure?.message || `Google Ads API responded with HTTP ${status}`,
+    failure?.code || status,
+    errorCode,
+    adsFailure?.requestId
+  );
+}
+
+/**
+ * Map an API failure to the MCP error tools report; a rejected query is
+ * reported with the GAQL, a rejected mutation with its operations
+ */
+function toMCPError(error: unknown, customerId: string, query: string, operations?: GoogleAdsMutateOperation[]) {
+  if (MCPErrorHandler.isMCPError(error) && !(error instanceof Error)) {
+    return error;
+  }
+  if (!(error instanceof GoogleAdsApiError)) {
+    return MCPErrorHandler.googleAdsApiError(error instanceof Error ? error.message : String(error),
+      error instanceof Error ? error : undefined);
+  }
+
+  const details = { customerId, errorCode: error.errorCode, requestId: error.requestId };
+  if (error.status === 429 || error.errorCode?.startsWith('quotaError')) {
+    return MCPErrorHandler.createError(ErrorCode.GOOGLE_ADS_QUOTA_EXCEEDED,
+      `Google Ads API quota exhausted: ${error.message}`, details, error);
+  }
+  if (error.status === 401 || error.status === 403 || /^(authorization|authentication)Error/.test(error.errorCode || '')) {
+    return MCPErrorHandler.createError(ErrorCode.GOOGLE_ADS_CUSTOMER_ACCESS_DENIED,
+      `Google Ads customer ${customerId} is not accessible: ${error.message}`, details, error);
+  }
+  if (operations && error.status === 400) {
+    return MCPErrorHandler.createError(ErrorCode.GOOGLE_ADS_MUTATE_REJECTED,
+      `Google Ads rejected the change: ${error.message}`, { ...details, operations }, error);
+  }
+  if (/^(queryError|requestError)/.test(error.errorCode || '') || error.status === 400) {
+    return MCPErrorHandler.createError(ErrorCode.GAQL_INVALID_QUERY,
+      `Google Ads rejected the query: ${error.message}`, { ...details, query }, error);
+  }
+  return MCPErrorHandler.googleAdsApiError(error.message, error);
+}
+
+/**
+ * GAQL queries for one customer
+ */
+export class GoogleAdsClient {
+  constructor(readonly customerId: string, private api: GoogleAdsApi) {}
+
+  /**
+   * Run a GAQL query, answering from the cache while its data type's TTL lasts
+   */
+  async query(query: string, context: GoogleAdsQueryContext): Promise<GoogleAdsRow[]> {
+    const cache = getProductionCache();
+    const cacheKey = `${context.dataType}:customer:${this.customerId}:${query}`;
+
+    const cached = context.fresh ? null : await cache?.get(cacheKey);
+    if (cached) {
+      adsRequests.inc({ tool: context.tool, status: 'cached' });
+      return cached;
+    }
+
+    const endTimer = adsDuration.startTimer({ tool: context.tool });
+    try {
+      const rows = await this.api.search(this.customerId, query);
+      endTimer({ status: 'success' });
+      adsRequests.inc({ tool: context.tool, status: 'success' });
+
+      await cache?.set(cacheKey, rows, { dataType: context.dataType, tags: [`customer:${this.customerId}`] });
+      return rows;
+    } catch (error) {
+      endTimer({ status: 'error' });
+      adsRequests.inc({ tool: context.tool, status: 'error' });
+
+      const mcpError = toMCPError(error, this.customerId, query);
+      productionLogger.warn('Google Ads query failed', {
+        component: 'ADS_API',
+        customerId: this.customerId,
+        tool: context.tool,
+        code: mcpError.code,
+        error: mcpError.message
+      });
+      throw mcpError;
+    }
+  }
+
+  /**
+   * Apply mutate operations; applied changes drop the customer's cached reports
+   */
+  async mutate(operations: GoogleAdsMutateOperation[], context: { tool: string; validateOnly?: boolean }): Promise<string[]> {
+    const endTimer = adsDuration.startTimer({ tool: context.tool });
+    try {
+      const resourceNames = await this.api.mutate(this.customerId, operations, { validateOnly: context.validateOnly });
+      endTimer({ status: 'success' });
+      adsRequests.inc({ tool: context.tool, status: 'success' });
+
+      if (!context.validateOnly) {
+        await getProductionCache()?.clearByTags([`customer:${this.customerId}`]);
+        productionLogger.info('Google Ads mutation applied', {
+          component: 'ADS_API',
+          customerId: this.customerId,
+          tool: context.tool,
+          resourceNames
+        });
+      }
+      return resourceNames;
+    } catch (error) {
+      endTimer({ status: 'error' });
+      adsRequests.inc({ tool: context.tool, status: 'error' });
+
+      const mcpError = toMCPError(error, this.customerId, '', operations);
+      productionLogger.warn('Google Ads mutation failed', {
+        component: 'ADS_API',
+        customerId: this.customerId,
+        tool: context.tool,
+        code: mcpError.code,
+        error: mcpError.message
+      });
+      throw mcpError;
+    }
+  }
+}
+
+export interface GoogleAdsClientRegistryConfig {
+  api: GoogleAdsApi;
+  defaultCustomerId?: string;
+  allowedCustomerIds?: string[];
+}
+
+/**
+ * Per-customer clients sharing one transport, limited to the allow-listed customers
+ */
+export class GoogleAdsClientRegistry {
+  private clients: Map<string, GoogleAdsClient> = new Map();
+  private readonly api: GoogleAdsApi;
+  private readonly defaultCustomerId?: string;
+  private readonly allowedCustomerIds: Set<string>;
+
+  constructor(config: GoogleAdsClientRegistryConfig) {
+    this.api = config.api;
+    this.defaultCustomerId = config.defaultCustomerId ? normalizeCustomerId(config.defaultCustomerId) : undefined;
+    this.allowedCustomerIds = new Set((config.allowedCustomerIds || []).map(normalizeCustomerId));
+
+    if (this.defaultCustomerId) {
+      this.allowedCustomerIds.add(this.defaultCustomerId);
+    }
+  }
+
+  /**
+   * Resolve the customer a call should use, enforcing the allow-lists
+   */
+  resolveCustomerId(requestedCustomerId?: string, callerAllowedCustomerIds?: string[]): string {
+    const customerId = requestedCustomerId ? normalizeCustomerId(requestedCustomerId) : this.defaultCustomerId;
+
+    if (!customerId) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        'customerId is required: no default Google Ads customer is configured',
+        { allowedCustomerIds: this.getAllowedCustomerIds() }
+      );
+    }
+    if (!/^\d{10}$/.test(customerId)) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.INVALID_TOOL_PARAMS,
+        `Invalid Google Ads customer ID: ${requestedCustomerId}. Expected 10 digits`,
+        { customerId: requestedCustomerId }
+      );
+    }
+
+    const callerAllowed = !callerAllowedCustomerIds ||
+      callerAllowedCustomerIds.map(normalizeCustomerId).includes(customerId);
+
+    if (!this.allowedCustomerIds.has(customerId) || !callerAllowed) {
+      throw MCPErrorHandler.createError(
+        ErrorCode.GOOGLE_ADS_CUSTOMER_ACCESS_DENIED,
+        `Google Ads customer ${customerId} is not configured for this caller`,
+        { customerId }
+      );
+    }
+
+    return customerId;
+  }
+
+  /**
+   * Get (or lazily create) the client for a customer
+   */
+  getClient(requestedCustomerId?: string, callerAllowedCustomerIds?: string[]): GoogleAdsClient {
+    const customerId = this.resolveCustomerId(requestedCustomerId, callerAllowedCustomerIds);
+
+    let client = this.clients.get(customerId);
+    if (!client) {
+      client = new GoogleAdsClient(customerId, this.api);
+      this.clients.set(customerId, client);
+      logger.debug(`📣 Google Ads client created for customer: ${customerId}`);
+    }
+
+    return client;
+  }
+
+  getAllowedCustomerIds(): string[] {
+    return Array.from(this.allowedCustomerIds);
+  }
+}
+
+/**
+ * Read REST API settings from the environment; undefined when credentials are missing
+ */
+export function loadGoogleAdsRestApiConfig(env: NodeJS.ProcessEnv = process.env): GoogleAdsRestApiConfig | undefined {
+  const { GOOGLE_ADS_DEVELOPER_TOKEN, GOOGLE_ADS_CLIENT_ID, GOOGLE_ADS_CLIENT_SECRET, GOOGLE_ADS_REFRESH_TOKEN } = env;
+  if (!GOOGLE_ADS_DEVELOPER_TOKEN || !GOOGLE_ADS_CLIENT_ID || !GOOGLE_ADS_CLIENT_SECRET || !GOOGLE_ADS_REFRESH_TOKEN) {
+    return undefined;
+  }
+
+  return {
+    developerToken: GOOGLE_ADS_DEVELOPER_TOKEN,
+    clientId: GOOGLE_ADS_CLIENT_ID,
+    clientSecret: GOOGLE_ADS_CLIENT_SECRET,
+    refreshToken: GOOGLE_ADS_REFRESH_TOKEN,
+    loginCustomerId: env.GOOGLE_ADS_LOGIN_CUSTOMER_ID,
+    apiVersion: env.GOOGLE_ADS_API_VERSION || 'v17',
+    timeoutMs: parseInt(env.GOOGLE_ADS_TIMEOUT_MS || '30000'),
+  };
+}
+
+// Global Google Ads client registry
+let globalGoogleAdsClientRegistry: GoogleAdsClientRegistry | undefined;
+
+/**
+ * Initialize global Google Ads client registry
+ */
+export function initializeGoogleAdsClientRegistry(config: GoogleAdsClientRegistryConfig): GoogleAdsClientRegistry {
+  globalGoogleAdsClientRegistry = new GoogleAdsClientRegistry(config);
+  return globalGoogleAdsClientRegistry;
+}
+
+/**
+ * Get global Google Ads client registry
+ */
+export function getGoogleAdsClientRegistry(): GoogleAdsClientRegistry {
+  if (!globalGoogleAdsClientRegistry) {
+    throw new Error('Google Ads client registry not initialized. Call initializeGoogleAdsClientRegistry first.');
+  }
+  return globalGoogleAdsClientRegistry;
+}
@@ -0,0 +1,296 @@
+/**
+ * Production Cache for the Google Ads MCP Server
+ *
+ * The same storage backends as ga4-analytics-mcp (memory, file snapshot,
+ * Redis; see @ai-ad-manager/mcp-shared/cacheStorage) with TTLs per Google
+ * Ads data type. Entries are tagged by customer so one account's reports can
+ * be dropped at once.
+ */
+
+import { logger as productionLogger } from '@ai-ad-manager/mcp-shared/productionLogger';
+import { metricsRegistry } from '@ai-ad-manager/mcp-shared/prometheusMetrics';
+import {
+  CacheBackendKind,
+  CacheEntry,
+  CachePriority,
+  CacheStore,
+  FileSnapshotCacheStore,
+  MemoryCacheStore,
+  RedisCacheStore,
+} from '@ai-ad-manager/mcp-shared/cacheStorage';
+
+const cacheLookups = metricsRegistry.counter({
+  name: 'google_ads_mcp_cache_lookups',
+  help: 'Cache lookups, by result (hit or miss)',
+  labelNames: ['result'],
+});
+
+metricsRegistry.gauge({
+  name: 'google_ads_mcp_cache_entries',
+  help: 'Entries held by the cache backend',
+  collect: gauge => {
+    const cache = getProductionCache();
+    if (cache) gauge.set({}, cache.getStats().entries);
+  },
+});
+
+export interface CacheConfig {
+  maxMemoryEntries: number;
+  defaultTTL: number;
+
+  // TTL strategies per data type
+  ttlStrategies: Record<string, number>;
+
+  // Persistence settings
+  enablePersistence: boolean;
+  persistenceFile?: string;
+  persistenceInterval: number;
+
+  // Shared cache settings
+  enableDistributed: boolean;
+  distributedPrefix: string;
+  redisUrl: string;
+}
+
+interface CacheSetOptions {
+  ttl?: number;
+  dataType?: string;
+  tags?: string[];
+  priority?: CachePriority;
+}
+
+export class ProductionCache {
+  private store: CacheStore;
+  private ready: Promise<void>;
+  private config: CacheConfig;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(config?: Partial<CacheConfig>) {
+    this.config = {
+      maxMemoryEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '1000'),
+      defaultTTL: parseInt(process.env.CACHE_TTL || '300000'), // 5 minutes
+
+      ttlStrategies: {
+        'ads-campaigns': parseInt(process.env.CACHE_ADS_CAMPAIGNS_TTL || '300000'), // 5 minutes
+        'ads-performance': parseInt(process.env.CACHE_ADS_PERFORMANCE_TTL || '900000'), // 15 minutes
+        'ads-ad-groups': parseInt(process.env.CACHE_ADS_AD_GROUPS_TTL || '600000'), // 10 minutes
+        'ads-keywords': parseInt(process.env.CACHE_ADS_KEYWORDS_TTL || '900000'), // 15 minutes
+        'ads-search-terms': parseInt(process.env.CACHE_ADS_SEARCH_TERMS_TTL || '1800000'), // 30 minutes
+        'ga4-attribution': parseInt(process.env.CACHE_GA4_ATTRIBUTION_TTL || '1800000'), // 30 minutes
+      },
+
+      enablePersistence: process.env.CACHE_PERSISTENCE === 'true',
+      persistenceFile: process.env.CACHE_PERSISTENCE_FILE || '.cache/google-ads-cache.json',
+      persistenceInterval: parseInt(process.env.CACHE_PERSISTENCE_INTERVAL || '300000'), // 5 minutes
+
+      enableDistributed: process.env.CACHE_DISTRIBUTED === 'true',
+      distributedPrefix: process.env.CACHE_DISTRIBUTED_PREFIX || 'google-ads-mcp-cache:',
+      redisUrl: process.env.CACHE_REDIS_URL || 'redis://127.0.0.1:6379',
+
+      ...config
+    };
+
+    this.store = this.createStore();
+    this.ready = (this.store.load?.() || Promise.resolve()).catch(error => {
+      productionLogger.error('Cache backend failed to load', {
+        component: 'CACHE',
+        backend: this.store.kind,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+    this.sweepTimer = setInterval(() => {
+      const now = Date.now();
+      this.store.sweep(entry => now - entry.timestamp > entry.ttl).catch(error => {
+        productionLogger.warn('Cache sweep failed', {
+          component: 'CACHE',
+          backend: this.store.kind,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, 60000);
+    this.sweepTimer.unref();
+
+    productionLogger.info('Production cache initialized', {
+      component: 'CACHE',
+      config: {
+        backend: this.store.kind,
+        maxEntries: this.config.maxMemoryEntries,
+        defaultTTL: this.config.defaultTTL
+      }
+    });
+  }
+
+  /**
+   * Get cached data, or null when missing or expired
+   */
+  async get(key: string): Promise<any | null> {
+    try {
+      await this.ready;
+      const entry = await this.store.get(key);
+
+      if (!entry || Date.now() - entry.timestamp > entry.ttl) {
+        cacheLookups.inc({ result: 'miss' });
+        return null;
+      }
+
+      entry.accessCount++;
+      entry.lastAccessed = Date.now();
+      cacheLookups.inc({ result: 'hit' });
+      return entry.data;
+
+    } catch (error) {
+      productionLogger.error('Cache get error', {
+        component: 'CACHE',
+        key: this.sanitizeKey(key),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Cache data with the TTL of its data type
+   */
+  async set(key: string, data: any, options?: CacheSetOptions): Promise<void> {
+    try {
+      const dataType = options?.dataType || 'default';
+      const ttl = options?.ttl || this.config.ttlStrategies[dataType] || this.config.defaultTTL;
+
+      await this.ready;
+      await this.store.set(key, {
+        data,
+        timestamp: Date.now(),
+        ttl,
+        accessCount: 0,
+        lastAccessed: Date.now(),
+        dataType,
+        compressed: false,
+        size: Buffer.byteLength(JSON.stringify(data) || ''),
+        tags: options?.tags || []
+      }, options?.priority || 'medium');
+
+    } catch (error) {
+      productionLogger.error('Cache set error', {
+        component: 'CACHE',
+        key: this.sanitizeKey(key),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Clear cache entries by tags
+   */
+  async clearByTags(tags: string[]): Promise<number> {
+    await this.ready;
+    const cleared = await this.store.deleteByTags(tags);
+
+    productionLogger.info('Cache cleared by tags', {
+      component: 'CACHE',
+      tags,
+      entriesCleared: cleared
+    });
+
+    return cleared;
+  }
+
+  getStats() {
+    return this.store.getStats();
+  }
+
+  /**
+   * Storage backend in use
+   */
+  getBackend(): CacheBackendKind {
+    return this.store.kind;
+  }
+
+  /**
+   * Create the storage backend selected by the config
+   */
+  private createStore(): CacheStore {
+    const options = {
+      maxEntries: this.config.maxMemoryEntries,
+      retentionGraceMs: 0,
+    };
+
+    if (this.config.enableDistributed) {
+      return new RedisCacheStore({
+        ...options,
+        url: this.config.redisUrl,
+        prefix: this.config.distributedPrefix,
+        // Tag sets must outlive the longest-lived entry they point to
+        tagRetentionMs: Math.max(this.config.defaultTTL, ...Object.values(this.config.ttlStrategies)),
+      });
+    }
+
+    if (this.config.enablePersistence && this.config.persistenceFile) {
+      return new FileSnapshotCacheStore({
+        ...options,
+        file: this.config.persistenceFile,
+        flushIntervalMs: this.config.persistenceInterval,
+      });
+    }
+
+    return new MemoryCacheStore(options);
+  }
+
+  /**
+   * Sanitize key for logging (remove sensitive data)
+   */
+  private sanitizeKey(key: string): string {
+    return key.length > 50 ? key.substring(0, 50) + '...' : key;
+  }
+
+  /**
+   * Shutdown cache gracefully
+   */
+  async shutdown(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    productionLogger.info('Production cache shutting down', {
+      component: 'CACHE',
+      entries: this.store.getStats().entries
+    });
+
+    // Flush persistent stores; shared ones keep their entries for other replicas
+    await this.ready;
+    await this.store.close();
+  }
+}
+
+// Global production cache instance
+let globalProductionCache: ProductionCache | null = null;
+
+/**
+ * Initialize global production cache
+ */
+export function initializeProductionCache(config?: Partial<CacheConfig>): ProductionCache {
+  if (globalProductionCache) {
+    globalProductionCache.shutdown();
+  }
+
+  globalProductionCache = new ProductionCache(config);
+  return globalProductionCache;
+}
+
+/**
+ * Get global production cache instance
+ */
+export function getProductionCache(): ProductionCache | null {
+  return globalProductionCache;
+}
+
+/**
+ * Shutdown global production cache
+ */
+export async function shutdownProductionCache(): Promise<void> {
+  if (globalProductionCache) {
+    await globalProductionCache.shutdown();
+    globalProductionCache = null;
+  }
+}
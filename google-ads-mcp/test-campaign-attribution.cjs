@@ -0,0 +1,164 @@
+/**
+ * Campaign attribution tests: the lookback crediting model, the GA4 / Ads
+ * join behind get_campaign_attribution, attribution windows and GA4
+ * property errors, against the fixture-backed stand-ins of both APIs
+ *
+ * Run after `npm run build`: node test-campaign-attribution.cjs
+ */
+
+const assert = require('assert');
+const path = require('path');
+
+console.log('🧪 CAMPAIGN ATTRIBUTION: GA4 conversions joined to Google Ads spend');
+console.log('===================================================================\n');
+
+const ADS_FIXTURES = path.join(__dirname, 'fixtures', 'googleAdsAccount.cjs');
+const GA4_FIXTURES = path.join(__dirname, 'fixtures', 'ga4Attribution.cjs');
+const WEEK = { startDate: '2026-09-01', endDate: '2026-09-07' };
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+function sumBy(rows, field) {
+  return Math.round(rows.reduce((sum, row) => sum + Number(row[field] || 0), 0) * 100) / 100;
+}
+
+async function run() {
+  const { FixtureGoogleAdsApi, loadGoogleAdsFixtures } = await import('./dist/utils/fixtureAdsApi.js');
+  const { GoogleAdsClientRegistry } = await import('./dist/utils/googleAdsClient.js');
+  const { GA4ReportingClient, FixtureGA4ReportingApi, loadGA4Fixtures } = await import('./dist/utils/ga4ReportingClient.js');
+  const { attributeConversions } = await import('./dist/utils/campaignAttribution.js');
+  const { createToolHandlers } = await import('./dist/tools/index.js');
+
+  const ga4Rows = loadGA4Fixtures(GA4_FIXTURES)['123456789'];
+
+  function createFixtureHandlers({ ga4 = true, allowedPropertyIds } = {}) {
+    const adsApi = new FixtureGoogleAdsApi(loadGoogleAdsFixtures(ADS_FIXTURES));
+    const ga4Api = new FixtureGA4ReportingApi(loadGA4Fixtures(GA4_FIXTURES));
+    const registry = new GoogleAdsClientRegistry({ api: adsApi, defaultCustomerId: '1234567890' });
+    const ga4Client = ga4 ? new GA4ReportingClient({ api: ga4Api, defaultPropertyId: '123456789', allowedPropertyIds }) : undefined;
+    const handlers = createToolHandlers(
+      (customerId, caller) => registry.getClient(customerId, caller?.allowedCustomerIds),
+      () => ga4Client
+    );
+    return { adsApi, ga4Api, handlers };
+  }
+
+  test('conversions are credited to the clicks in their window, split by clicks', async () => {
+    const clickDays = [
+      { campaignId: 'a', date: '2026-08-31', clicks: 10 },
+      { campaignId: 'a', date: '2026-09-01', clicks: 30 },
+      { campaignId: 'a', date: '2026-09-02', clicks: 10 },
+      { campaignId: 'b', date: '2026-09-01', clicks: 5 },
+    ];
+    const conversionDays = [
+      { campaignId: 'a', date: '2026-09-01', conversions: 4, revenue: 400 },
+      { campaignId: 'a', date: '2026-09-04', conversions: 2, revenue: 100 },
+      { campaignId: 'b', date: '2026-09-02', conversions: 1, revenue: 50 },
+    ];
+    const range = { startDate: '2026-09-01', endDate: '2026-09-02' };
+    const credits = result => Object.fromEntries(result.credits.map(credit =>
+      [`${credit.campaignId} ${credit.date}`, [credit.conversions, credit.revenue]]));
+
+    // Same day only: b converts a day after its clicks and goes unattributed
+    const sameDay = attributeConversions(clickDays, conversionDays, { ...range, windowDays: 1 });
+    assert.deepStrictEqual(credits(sameDay), { 'a 2026-09-01': [4, 400] });
+    assert.deepStrictEqual(Object.fromEntries(sameDay.unattributed), { b: { conversions: 1, revenue: 50 } });
+
+    // Three days: 09-01 is split 30/10 with 08-31 (dropped, before the range); 09-04 only reaches 09-02
+    const threeDays = attributeConversions(clickDays, conversionDays, { ...range, windowDays: 3 });
+    assert.deepStrictEqual(credits(threeDays), {
+      'a 2026-09-01': [3, 300],
+      'a 2026-09-02': [2, 100],
+      'b 2026-09-01': [1, 50],
+    });
+    assert.strictEqual(threeDays.unattributed.size, 0);
+  });
+
+  test('get_campaign_attribution joins GA4 conversions to Ads spend per campaign', async () => {
+    const { adsApi, ga4Api, handlers } = createFixtureHandlers();
+    const result = await handlers.get('get_campaign_attribution')({ ...WEEK, attributionWindowDays: 1, includeDaily: true });
+
+    assert.strictEqual(result.propertyId, '123456789');
+    assert.deepStrictEqual(result.conversionDateRange, WEEK);
+    assert.deepStrictEqual(ga4Api.reports[0].request.dimensions, ['date', 'sessionGoogleAdsCampaignId']);
+    assert.ok(adsApi.queries[0].query.includes("segments.date BETWEEN '2026-09-01' AND '2026-09-07'"));
+    assert.deepStrictEqual(result.campaigns.map(campaign => campaign.id), ['1002', '1004', '1001', '1003']);
+
+    // Every campaign clicks daily, so a same-day window credits each GA4 day to itself
+    const shoes = result.campaigns.find(campaign => campaign.id === '1002');
+    const shoesGa4 = ga4Rows.filter(row => row.sessionGoogleAdsCampaignId === '1002' && row.date <= WEEK.endDate);
+    const performance = await handlers.get('get_campaign_performance')({ ...WEEK, campaignIds: ['1002'] });
+    assert.strictEqual(shoes.totals.attributedConversions, sumBy(shoesGa4, 'keyEvents'));
+    assert.strictEqual(shoes.totals.attributedRevenue, sumBy(shoesGa4, 'totalRevenue'));
+    assert.strictEqual(shoes.totals.sessions, sumBy(shoesGa4, 'sessions'));
+    assert.strictEqual(shoes.totals.cost, performance.campaigns[0].totals.cost);
+    assert.strictEqual(shoes.totals.platformConversions, performance.campaigns[0].totals.conversions);
+    assert.strictEqual(shoes.totals.roas, Math.round(shoes.totals.attributedRevenue / shoes.totals.cost * 100) / 100);
+    assert.strictEqual(shoes.totals.cpa, Math.round(shoes.totals.cost / shoes.totals.attributedConversions * 100) / 100);
+    assert.strictEqual(shoes.totals.revenuePerClick, Math.round(shoes.totals.attributedRevenue / shoes.totals.clicks * 100) / 100);
+
+    assert.strictEqual(shoes.daily.length, 7);
+    assert.strictEqual(sumBy(shoes.daily, 'clicks'), shoes.totals.clicks);
+
+    // '(not set)' sessions are not Ads traffic
+    assert.strictEqual(result.totals.sessions, sumBy(result.campaigns.map(campaign => campaign.totals), 'sessions'));
+    assert.strictEqual(result.totals.unattributedConversions, 0);
+  });
+
+  test('longer attribution windows credit conversions that land after the range', async () => {
+    const { adsApi, ga4Api, handlers } = createFixtureHandlers();
+    const attribution = handlers.get('get_campaign_attribution');
+
+    const sameDay = await attribution({ ...WEEK, attributionWindowDays: 1 });
+    const week = await attribution({ ...WEEK, attributionWindowDays: 7 });
+
+    assert.deepStrictEqual(week.conversionDateRange, { startDate: '2026-09-01', endDate: '2026-09-13' });
+    assert.deepStrictEqual(ga4Api.reports[1].request, { ...week.conversionDateRange, dimensions: ['date', 'sessionGoogleAdsCampaignId'], metrics: ['sessions', 'keyEvents', 'totalRevenue'] });
+    // Clicks before the range share credit for conversions early in it
+    assert.ok(adsApi.queries[1].query.includes("segments.date BETWEEN '2026-08-26' AND '2026-09-07'"));
+
+    assert.ok(week.totals.attributedConversions > sameDay.totals.attributedConversions);
+    assert.ok(week.totals.attributedRevenue > sameDay.totals.attributedRevenue);
+    assert.ok(week.totals.roas > sameDay.totals.roas);
+    assert.strictEqual(week.totals.cost, sameDay.totals.cost);
+    assert.strictEqual(week.totals.sessions, sameDay.totals.sessions);
+  });
+
+  test('GA4 configuration, property access and window errors', async () => {
+    const attribution = createFixtureHandlers({ allowedPropertyIds: ['987654321'] }).handlers.get('get_campaign_attribution');
+
+    await assert.rejects(attribution({ ...WEEK, attributionWindowDays: 5 }), { code: 'INVALID_TOOL_PARAMS' });
+    await assert.rejects(attribution({ ...WEEK, propertyId: 'abc' }), { code: 'INVALID_TOOL_PARAMS' });
+    await assert.rejects(attribution({ ...WEEK, propertyId: '111' }), error =>
+      error.code === 'GA4_PROPERTY_ACCESS_DENIED' && /not configured/.test(error.message));
+    // Allow-listed but the credentials cannot read it
+    await assert.rejects(attribution({ ...WEEK, propertyId: '987654321' }), error =>
+      error.code === 'GA4_PROPERTY_ACCESS_DENIED' && /not accessible/.test(error.message));
+
+    const withoutGa4 = createFixtureHandlers({ ga4: false }).handlers.get('get_campaign_attribution');
+    await assert.rejects(withoutGa4(WEEK), error => error.code === 'TOOL_EXECUTION_FAILED' && /GA4_PROPERTY_ID/.test(error.message));
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
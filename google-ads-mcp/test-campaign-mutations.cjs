@@ -0,0 +1,146 @@
+/**
+ * Campaign mutation tests: update_campaign diffs, validate-only previews,
+ * bidding strategy and shared budget checks, cache invalidation and mutate
+ * error mapping, against the fixture-backed stand-in of the Google Ads API
+ *
+ * Run after `npm run build`: node test-campaign-mutations.cjs
+ */
+
+const assert = require('assert');
+const path = require('path');
+
+console.log('🧪 CAMPAIGN MUTATIONS: update_campaign against fixture data');
+console.log('===========================================================\n');
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'googleAdsAccount.cjs');
+const RANGE = { startDate: '2026-09-01', endDate: '2026-09-14' };
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { FixtureGoogleAdsApi, loadGoogleAdsFixtures } = await import('./dist/utils/fixtureAdsApi.js');
+  const { GoogleAdsClientRegistry, GoogleAdsApiError } = await import('./dist/utils/googleAdsClient.js');
+  const { initializeProductionCache, shutdownProductionCache } = await import('./dist/utils/productionCache.js');
+  const { createToolHandlers } = await import('./dist/tools/index.js');
+
+  function createHandlers(api) {
+    const registry = new GoogleAdsClientRegistry({ api, defaultCustomerId: '1234567890' });
+    return createToolHandlers((customerId, caller) => registry.getClient(customerId, caller?.allowedCustomerIds));
+  }
+
+  function createFixtureHandlers() {
+    const api = new FixtureGoogleAdsApi(loadGoogleAdsFixtures(FIXTURES));
+    return { api, handlers: createHandlers(api) };
+  }
+
+  test('update_campaign applies status, budget and target changes and returns the diff', async () => {
+    const { api, handlers } = createFixtureHandlers();
+
+    const result = await handlers.get('update_campaign')({ campaignId: '1002', status: 'PAUSED', dailyBudget: 150, targetRoas: 4 });
+    assert.deepStrictEqual(result.before, { status: 'ENABLED', dailyBudget: 120, biddingStrategyType: 'TARGET_ROAS', targetRoas: 3.5 });
+    assert.deepStrictEqual(result.after, { status: 'PAUSED', dailyBudget: 150, biddingStrategyType: 'TARGET_ROAS', targetRoas: 4 });
+    assert.deepStrictEqual(result.changes.map(change => [change.field, change.from, change.to]),
+      [['status', 'ENABLED', 'PAUSED'], ['targetRoas', 3.5, 4], ['dailyBudget', 120, 150]]);
+    assert.deepStrictEqual(result.resourceNames,
+      ['customers/1234567890/campaigns/1002', 'customers/1234567890/campaignBudgets/4002']);
+
+    const [{ operations }] = api.mutations;
+    assert.strictEqual(operations[0].campaignOperation.updateMask, 'status,target_roas.target_roas');
+    assert.deepStrictEqual(operations[1].campaignBudgetOperation.update.amountMicros, '150000000');
+
+    const list = await handlers.get('list_campaigns')(RANGE);
+    const shoes = list.campaigns.find(campaign => campaign.id === '1002');
+    assert.deepStrictEqual([shoes.status, shoes.budget], ['PAUSED', 150]);
+
+    // Target CPA of a Maximize Conversions campaign
+    const brand = await handlers.get('update_campaign')({ campaignId: '1001', targetCpa: 7.5 });
+    assert.deepStrictEqual(brand.changes, [{ field: 'targetCpa', from: 6, to: 7.5 }]);
+    assert.strictEqual(api.mutations[1].operations[0].campaignOperation.updateMask, 'maximize_conversions.target_cpa_micros');
+  });
+
+  test('validateOnly and unchanged settings return the diff without applying it', async () => {
+    const { api, handlers } = createFixtureHandlers();
+    const updateCampaign = handlers.get('update_campaign');
+
+    const preview = await updateCampaign({ campaignId: '1001', dailyBudget: 80, validateOnly: true });
+    assert.strictEqual(preview.validateOnly, true);
+    assert.deepStrictEqual(preview.changes, [{ field: 'dailyBudget', from: 50, to: 80 }]);
+    assert.deepStrictEqual(preview.resourceNames, []);
+    assert.strictEqual(api.mutations[0].validateOnly, true);
+
+    const unchanged = await updateCampaign({ campaignId: '1001', status: 'ENABLED', dailyBudget: 50 });
+    assert.deepStrictEqual(unchanged.changes, []);
+    assert.strictEqual(api.mutations.length, 1);
+
+    // Every read is uncached, so the diff is against the live settings
+    assert.ok(api.queries.every(({ query }) => /FROM campaign WHERE campaign\.id = 1001$/.test(query)));
+    assert.strictEqual(api.queries.length, 2);
+  });
+
+  test('targets must match the bidding strategy and shared or removed campaigns are refused', async () => {
+    const { api, handlers } = createFixtureHandlers();
+    const updateCampaign = handlers.get('update_campaign');
+
+    await assert.rejects(updateCampaign({ campaignId: '1002', targetCpa: 5 }), { code: 'INVALID_TOOL_PARAMS' });
+    await assert.rejects(updateCampaign({ campaignId: '1003', targetRoas: 2 }), { code: 'INVALID_TOOL_PARAMS' });
+    await assert.rejects(updateCampaign({ campaignId: '1003', dailyBudget: 40 }), error => /shared budget/.test(error.message));
+    await assert.rejects(updateCampaign({ campaignId: '1004', status: 'ENABLED' }), error => /removed/.test(error.message));
+    await assert.rejects(updateCampaign({ campaignId: '9999', status: 'PAUSED' }), error => /not found/.test(error.message));
+    await assert.rejects(updateCampaign({ campaignId: '1001', dailyBudget: -5 }), { code: 'INVALID_TOOL_PARAMS' });
+    await assert.rejects(updateCampaign({ campaignId: '1001', status: 'REMOVED' }), { code: 'INVALID_TOOL_PARAMS' });
+    assert.strictEqual(api.mutations.length, 0);
+  });
+
+  test('applied changes drop cached reports and rejected mutations report their operations', async () => {
+    initializeProductionCache({ enablePersistence: false, enableDistributed: false });
+    try {
+      const { api, handlers } = createFixtureHandlers();
+      await handlers.get('list_campaigns')(RANGE);
+      await handlers.get('list_campaigns')(RANGE);
+      assert.strictEqual(api.queries.length, 1);
+
+      await handlers.get('update_campaign')({ campaignId: '1003', status: 'ENABLED' });
+      const list = await handlers.get('list_campaigns')(RANGE);
+      assert.strictEqual(list.campaigns.find(campaign => campaign.id === '1003').status, 'ENABLED');
+      assert.strictEqual(api.queries.filter(({ query }) => /segments\.date/.test(query)).length, 2);
+    } finally {
+      await shutdownProductionCache();
+    }
+
+    const fixtureApi = new FixtureGoogleAdsApi(loadGoogleAdsFixtures(FIXTURES));
+    const rejecting = createHandlers({
+      search: (customerId, query) => fixtureApi.search(customerId, query),
+      async mutate() { throw new GoogleAdsApiError('Budget amount is too low', 400, 'campaignBudgetError: MONEY_AMOUNT_LESS_THAN_CURRENCY_MINIMUM_CPC'); },
+    });
+    await assert.rejects(rejecting.get('update_campaign')({ campaignId: '1001', dailyBudget: 0.01 }),
+      error => error.code === 'GOOGLE_ADS_MUTATE_REJECTED' &&
+        error.details.operations[0].campaignBudgetOperation.update.amountMicros === '10000');
+
+    // Unknown resources are rejected by the fixture like the API
+    await assert.rejects(fixtureApi.mutate('1234567890', [{ campaignOperation: { update: { resourceName: 'customers/1234567890/campaigns/42', status: 'PAUSED' }, updateMask: 'status' } }]),
+      { status: 400, errorCode: 'mutateError: RESOURCE_NOT_FOUND' });
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
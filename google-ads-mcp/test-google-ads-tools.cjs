@@ -0,0 +1,188 @@
+/**
+ * Google Ads tool tests: every tool against the fixture-backed stand-in of
+ * the Google Ads API, customer allow-lists, API error mapping, caching and
+ * tenant rate limits
+ *
+ * Run after `npm run build`: node test-google-ads-tools.cjs
+ */
+
+const assert = require('assert');
+const path = require('path');
+
+console.log('🧪 GOOGLE ADS TOOLS: GAQL tools against fixture data');
+console.log('====================================================\n');
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'googleAdsAccount.cjs');
+const RANGE = { startDate: '2026-09-01', endDate: '2026-09-14' };
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  const { FixtureGoogleAdsApi, loadGoogleAdsFixtures } = await import('./dist/utils/fixtureAdsApi.js');
+  const { GoogleAdsClientRegistry, GoogleAdsApiError } = await import('./dist/utils/googleAdsClient.js');
+  const { initializeProductionCache, shutdownProductionCache } = await import('./dist/utils/productionCache.js');
+  const { initializeTenantRateLimiting, shutdownTenantRateLimiting } = await import('@ai-ad-manager/mcp-shared/tenantRateLimiter');
+  const { GOOGLE_ADS_RATE_LIMITS } = await import('./dist/tools/rateLimits.js');
+  const { createToolHandlers, getToolDefinitions } = await import('./dist/tools/index.js');
+
+  // Tool handlers over a registry with the given transport
+  function createHandlers(api, registryConfig = {}) {
+    const registry = new GoogleAdsClientRegistry({ api, defaultCustomerId: '123-456-7890', ...registryConfig });
+    return createToolHandlers((customerId, caller) => registry.getClient(customerId, caller?.allowedCustomerIds));
+  }
+
+  function createFixtureHandlers(registryConfig) {
+    const api = new FixtureGoogleAdsApi(loadGoogleAdsFixtures(FIXTURES));
+    return { api, handlers: createHandlers(api, registryConfig) };
+  }
+
+  test('list_campaigns filters, sorts and pages campaigns in dashboard units', async () => {
+    const { api, handlers } = createFixtureHandlers();
+    const listCampaigns = handlers.get('list_campaigns');
+
+    const all = await listCampaigns(RANGE);
+    assert.strictEqual(all.customerId, '1234567890');
+    assert.deepStrictEqual(all.campaigns.map(campaign => campaign.id), ['1002', '1001', '1003']);
+    assert.strictEqual(all.totalCount, 3);
+    assert.match(api.queries[0].query, /FROM campaign WHERE segments\.date BETWEEN '2026-09-01' AND '2026-09-14' AND campaign\.status IN \(ENABLED, PAUSED\)/);
+
+    const brand = all.campaigns.find(campaign => campaign.id === '1001');
+    assert.strictEqual(brand.budget, 50);
+    assert.strictEqual(brand.campaignType, 'SEARCH');
+    assert.strictEqual(brand.metrics.ctr, 20);
+    assert.strictEqual(brand.metrics.averageCpc, 0.5);
+    assert.strictEqual(brand.metrics.returnOnAdSpend, 16);
+    assert.strictEqual(all.totals.clicks, all.campaigns.reduce((sum, campaign) => sum + campaign.metrics.clicks, 0));
+
+    const search = await listCampaigns({ ...RANGE, type: ['SEARCH'], search: 'shoes', status: ['ENABLED'] });
+    assert.deepStrictEqual(search.campaigns.map(campaign => campaign.name), ['Generic Search - Shoes']);
+
+    const paged = await listCampaigns({ ...RANGE, status: ['ENABLED', 'PAUSED', 'REMOVED'], sortBy: 'name', sortDirection: 'asc', page: 2, pageSize: 2 });
+    assert.strictEqual(paged.totalCount, 4);
+    assert.deepStrictEqual(paged.campaigns.map(campaign => campaign.name), ['Generic Search - Shoes', 'Summer Sale PMax']);
+  });
+
+  test('get_campaign_performance buckets by week and adds up to the campaign totals', async () => {
+    const { handlers } = createFixtureHandlers();
+    const [performance, list] = await Promise.all([
+      handlers.get('get_campaign_performance')({ ...RANGE, campaignIds: ['1001'], granularity: 'week' }),
+      handlers.get('list_campaigns')(RANGE),
+    ]);
+
+    assert.strictEqual(performance.campaigns.length, 1);
+    const brand = performance.campaigns[0];
+    assert.deepStrictEqual(brand.timeSeries.map(point => point.period), ['2026-08-31', '2026-09-07', '2026-09-14']);
+    assert.strictEqual(brand.timeSeries.reduce((sum, point) => sum + point.clicks, 0), brand.totals.clicks);
+    assert.strictEqual(brand.totals.cost, list.campaigns.find(campaign => campaign.id === '1001').metrics.cost);
+
+    const daily = await handlers.get('get_campaign_performance')({ ...RANGE, campaignIds: ['1001'] });
+    assert.strictEqual(daily.granularity, 'day');
+    assert.strictEqual(daily.campaigns[0].timeSeries.length, 14);
+  });
+
+  test('ad group, keyword and search term tools send GAQL for their resources', async () => {
+    const { api, handlers } = createFixtureHandlers();
+
+    const adGroups = await handlers.get('get_ad_groups')({ ...RANGE, campaignId: '1002' });
+    assert.deepStrictEqual(adGroups.adGroups.map(group => [group.name, group.cpcBid]), [['Running Shoes', 1.5], ['Trail Shoes', 1.2]]);
+
+    const keywords = await handlers.get('get_keywords')({ ...RANGE, campaignId: '1002', limit: 2 });
+    assert.deepStrictEqual(keywords.keywords.map(keyword => [keyword.text, keyword.matchType, keyword.qualityScore]),
+      [['running shoes', 'PHRASE', 7], ['buy running shoes', 'BROAD', 5]]);
+
+    // minImpressions applies to the whole range, not to single days
+    const searchTerms = await handlers.get('get_search_terms')({ ...RANGE, minImpressions: 7000 });
+    assert.deepStrictEqual(searchTerms.searchTerms.map(term => [term.searchTerm, term.keyword]),
+      [['best running shoes', 'running shoes'], ['running shoes sale', 'running shoes']]);
+    assert.ok(searchTerms.searchTerms.every(term => term.metrics.impressions >= 7000));
+
+    assert.deepStrictEqual(api.queries.map(({ query }) => query.match(/FROM (\w+)/)[1]), ['ad_group', 'keyword_view', 'search_term_view']);
+    assert.match(api.queries[1].query, /ad_group_criterion\.status != REMOVED AND campaign\.id = 1002 ORDER BY metrics\.impressions DESC LIMIT 2$/);
+    assert.match(api.queries[2].query, /metrics\.impressions >= 7000/);
+    assert.deepStrictEqual(getToolDefinitions().map(tool => tool.name),
+      ['list_campaigns', 'get_campaign_performance', 'get_ad_groups', 'get_keywords', 'get_search_terms', 'update_campaign', 'get_campaign_attribution']);
+  });
+
+  test('customers outside the server or caller allow-list are denied before querying', async () => {
+    const { api, handlers } = createFixtureHandlers({ allowedCustomerIds: ['555-000-1111'] });
+    const listCampaigns = handlers.get('list_campaigns');
+
+    await assert.rejects(listCampaigns({ ...RANGE, customerId: '999-999-9999' }), { code: 'GOOGLE_ADS_CUSTOMER_ACCESS_DENIED' });
+    await assert.rejects(listCampaigns(RANGE, { id: 'dashboard', allowedCustomerIds: ['5550001111'] }),
+      { code: 'GOOGLE_ADS_CUSTOMER_ACCESS_DENIED' });
+    await assert.rejects(listCampaigns({ ...RANGE, customerId: '12345' }), { code: 'INVALID_TOOL_PARAMS' });
+    await assert.rejects(listCampaigns({ ...RANGE, status: ['ENABLED) OR (1'] }), { code: 'INVALID_TOOL_PARAMS' });
+    await assert.rejects(listCampaigns({ startDate: '2026-09-14', endDate: '2026-09-01' }), { code: 'INVALID_TOOL_PARAMS' });
+    assert.strictEqual(api.queries.length, 0);
+
+    const other = await listCampaigns({ ...RANGE, customerId: '555-000-1111' }, { id: 'dashboard', allowedCustomerIds: ['5550001111'] });
+    assert.strictEqual(other.customerId, '5550001111');
+    assert.strictEqual(other.totalCount, 0);
+  });
+
+  test('API failures map to quota, access and query errors', async () => {
+    const failWith = error => createHandlers({ async search() { throw error; } }).get('get_keywords');
+
+    await assert.rejects(failWith(new GoogleAdsApiError('Too many requests', 429, 'quotaError: RESOURCE_EXHAUSTED'))(RANGE),
+      { code: 'GOOGLE_ADS_QUOTA_EXCEEDED' });
+    await assert.rejects(failWith(new GoogleAdsApiError('No access', 403, 'authorizationError: USER_PERMISSION_DENIED'))(RANGE),
+      { code: 'GOOGLE_ADS_CUSTOMER_ACCESS_DENIED' });
+    await assert.rejects(failWith(new GoogleAdsApiError('Unrecognized field', 400, 'queryError: UNRECOGNIZED_FIELD'))(RANGE),
+      error => error.code === 'GAQL_INVALID_QUERY' && /FROM keyword_view/.test(error.details.query));
+    await assert.rejects(failWith(new Error('socket hang up'))(RANGE), { code: 'GOOGLE_ADS_API_ERROR' });
+  });
+
+  test('repeat queries come from the cache and every call is charged to a tenant', async () => {
+    initializeProductionCache({ enablePersistence: false, enableDistributed: false });
+    initializeTenantRateLimiting({
+      ...GOOGLE_ADS_RATE_LIMITS,
+      plans: { tiny: { capacity: 4, refillPerMinute: 1 } },
+      defaultPlan: 'tiny',
+    });
+    try {
+      const { api, handlers } = createFixtureHandlers();
+      const listCampaigns = handlers.get('list_campaigns');
+
+      await listCampaigns(RANGE);
+      await listCampaigns({ ...RANGE, sortBy: 'name' });
+      assert.strictEqual(api.queries.length, 1);
+
+      // Stdio calls share the 'local' tenant: 2 list_campaigns calls + 2 for ad groups use the 4 tokens
+      const decisions = [];
+      await handlers.get('get_ad_groups')(RANGE, { onRateLimit: decision => decisions.push(decision) });
+      assert.strictEqual(decisions[0].cost, 2);
+      assert.strictEqual(decisions[0].remaining, 0);
+      await assert.rejects(listCampaigns(RANGE), { code: 'RATE_LIMITED' });
+
+      // Other tenants have their own buckets
+      const report = await listCampaigns(RANGE, { id: 'key-1', tenantId: 'acme' });
+      assert.strictEqual(report.success, true);
+    } finally {
+      shutdownTenantRateLimiting();
+      await shutdownProductionCache();
+    }
+  });
+
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}`);
+      console.log(`     ${error && error.message}`);
+    }
+  }
+
+  console.log(`\n📊 ${tests.length - failed}/${tests.length} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
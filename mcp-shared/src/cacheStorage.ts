@@ -0,0 +1,749 @@
+/**
+ * Storage Backends for the Production Cache
+ *
+ * ProductionCache keeps its policy (TTLs, stale-while-revalidate,
+ * compression, analytics) and hands entries to a CacheStore:
+ * - MemoryCacheStore: in-process map with LRU eviction
+ * - FileSnapshotCacheStore: memory store loaded from a JSON snapshot at
+ *   startup and written back on an interval, so a restart keeps the cache
+ * - RedisCacheStore: shared by every replica over the Redis protocol, with
+ *   tag sets for invalidation
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { dirname } from 'path';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { logger as productionLogger } from './productionLogger.js';
+
+/**
+ * A cached value with the bookkeeping ProductionCache keeps for it
+ */
+export interface CacheEntry {
+  data: any;
+  timestamp: number;
+  ttl: number;
+  accessCount: number;
+  lastAccessed: number;
+  dataType: string;
+  compressed: boolean;
+  size: number;
+  tags: string[];
+}
+
+export type CacheBackendKind = 'memory' | 'file' | 'redis';
+
+export type CachePriority = 'low' | 'medium' | 'high';
+
+export interface CacheStoreStats {
+  entries: number;
+  totalSize: number;
+  compressedEntries: number;
+  nearExpiry: number;
+  evictions: number;
+}
+
+export interface CacheStore {
+  readonly kind: CacheBackendKind;
+
+  /** Prepare the store (load a snapshot, connect); called once before use */
+  load?(): Promise<void>;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry, priority: CachePriority): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  /** Remove entries whose key matches, or every entry; returns how many */
+  clear(pattern?: RegExp): Promise<number>;
+  /** Remove entries carrying any of the tags; returns how many */
+  deleteByTags(tags: string[]): Promise<number>;
+  /** Remove entries the predicate selects; stores that expire natively may skip this */
+  sweep(isRemovable: (entry: CacheEntry) => boolean): Promise<number>;
+  getStats(): CacheStoreStats;
+  /** Recompute stats that cannot be read synchronously */
+  refreshStats?(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface CacheStoreOptions {
+  maxEntries: number;
+  // How long past its TTL an entry is kept, so stale-while-revalidate can serve it
+  retentionGraceMs: number;
+}
+
+// Entries close to expiry, as reported in the cache metrics
+const NEAR_EXPIRY_RATIO = 0.8;
+
+/**
+ * In-process store with LRU eviction
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly kind: CacheBackendKind = 'memory';
+  protected entries: Map<string, CacheEntry> = new Map();
+  protected options: CacheStoreOptions;
+  private accessOrder: string[] = []; // For LRU eviction
+  private evictions = 0;
+
+  constructor(options: CacheStoreOptions) {
+    this.options = options;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.updateAccessOrder(key);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry, priority: CachePriority): Promise<void> {
+    if (!this.entries.has(key)) {
+      this.ensureCapacity(priority);
+    }
+    this.entries.set(key, entry);
+    this.updateAccessOrder(key);
+    this.changed();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const deleted = this.remove(key);
+    if (deleted) {
+      this.changed();
+    }
+    return deleted;
+  }
+
+  async clear(pattern?: RegExp): Promise<number> {
+    let cleared = 0;
+
+    if (pattern) {
+      for (const key of Array.from(this.entries.keys())) {
+        if (pattern.test(key) && this.remove(key)) {
+          cleared++;
+        }
+      }
+    } else {
+      cleared = this.entries.size;
+      this.entries.clear();
+      this.accessOrder = [];
+    }
+
+    if (cleared > 0) {
+      this.changed();
+    }
+    return cleared;
+  }
+
+  async deleteByTags(tags: string[]): Promise<number> {
+    return this.sweep(entry => entry.tags.some(tag => tags.includes(tag)));
+  }
+
+  async sweep(isRemovable: (entry: CacheEntry) => boolean): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (isRemovable(entry) && this.remove(key)) {
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.changed();
+    }
+    return removed;
+  }
+
+  getStats(): CacheStoreStats {
+    return { ...summarizeEntries(this.entries.values()), evictions: this.evictions };
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+    this.accessOrder = [];
+  }
+
+  /**
+   * Called after every change to the stored entries
+   */
+  protected changed(): void {}
+
+  protected remove(key: string): boolean {
+    const deleted = this.entries.delete(key);
+    if (deleted) {
+      this.removeFromAccessOrder(key);
+    }
+    return deleted;
+  }
+
+  /**
+   * Make room for a new entry by evicting the least recently used ones
+   */
+  private ensureCapacity(priority: CachePriority): void {
+    if (this.entries.size < this.options.maxEntries) return;
+
+    const evictCount = Math.max(1, Math.floor(this.options.maxEntries * 0.1));
+    let evicted = 0;
+
+    // Evict based on priority and LRU
+    for (const key of Array.from(this.accessOrder)) {
+      if (evicted >= evictCount) break;
+
+      const entry = this.entries.get(key);
+      if (entry) {
+        // Protect high-priority recent entries
+        const age = Date.now() - entry.lastAccessed;
+        if (priority === 'high' && age < 60000) continue; // Don't evict recent high-priority
+
+        this.remove(key);
+        evicted++;
+        this.evictions++;
+      }
+    }
+
+    productionLogger.debug('Cache eviction completed', {
+      component: 'CACHE',
+      evicted,
+      remaining: this.entries.size
+    });
+  }
+
+  private updateAccessOrder(key: string): void {
+    this.removeFromAccessOrder(key);
+    this.accessOrder.push(key);
+  }
+
+  private removeFromAccessOrder(key: string): void {
+    const index = this.accessOrder.indexOf(key);
+    if (index > -1) {
+      this.accessOrder.splice(index, 1);
+    }
+  }
+}
+
+interface CacheSnapshot {
+  version: 1;
+  savedAt: number;
+  entries: Array<[string, SerializedCacheEntry]>;
+}
+
+/**
+ * Memory store persisted to a JSON snapshot file
+ */
+export class FileSnapshotCacheStore extends MemoryCacheStore {
+  readonly kind: CacheBackendKind = 'file';
+  private file: string;
+  private flushIntervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private dirty = false;
+  private flushing: Promise<void> | null = null;
+
+  constructor(options: CacheStoreOptions & { file: string; flushIntervalMs: number }) {
+    super(options);
+    this.file = options.file;
+    this.flushIntervalMs = options.flushIntervalMs;
+  }
+
+  /**
+   * Load the snapshot, skipping entries that expired while the server was down
+   */
+  async load(): Promise<void> {
+    let snapshot: CacheSnapshot | undefined;
+    try {
+      snapshot = JSON.parse(await readFile(this.file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        productionLogger.warn('Cache snapshot could not be read, starting empty', {
+          component: 'CACHE',
+          file: this.file,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    const now = Date.now();
+    const restored = (snapshot?.version === 1 ? snapshot.entries : [])
+      .map(([key, serialized]) => [key, deserializeEntry(serialized)] as const)
+      .filter(([, entry]) => now - entry.timestamp <= entry.ttl + this.options.retentionGraceMs)
+      // Least recently used first, so the LRU order survives the restart
+      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed)
+      .slice(-this.options.maxEntries);
+
+    for (const [key, entry] of restored) {
+      await super.set(key, entry, 'medium');
+    }
+    this.dirty = false;
+
+    this.timer = setInterval(() => {
+      this.flush().catch(() => undefined);
+    }, this.flushIntervalMs);
+    this.timer.unref();
+
+    productionLogger.info('Cache snapshot loaded', {
+      component: 'CACHE',
+      file: this.file,
+      entries: restored.length,
+      skipped: (snapshot?.entries.length || 0) - restored.length
+    });
+  }
+
+  /**
+   * Write the snapshot if anything changed since the last one
+   */
+  async flush(): Promise<void> {
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (!this.dirty) {
+      return;
+    }
+
+    this.dirty = false;
+    this.flushing = this.writeSnapshot().catch(error => {
+      this.dirty = true;
+      productionLogger.error('Cache snapshot could not be written', {
+        component: 'CACHE',
+        file: this.file,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }).finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.flush().catch(() => undefined);
+    await super.close();
+  }
+
+  protected changed(): void {
+    this.dirty = true;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    const snapshot: CacheSnapshot = {
+      version: 1,
+      savedAt: Date.now(),
+      entries: Array.from(this.entries.entries()).map(([key, entry]) => [key, serializeEntry(entry)]),
+    };
+
+    // Write then rename, so a crash mid-write never leaves a truncated snapshot
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(temporary, JSON.stringify(snapshot));
+    await rename(temporary, this.file);
+  }
+}
+
+/**
+ * Store shared through a Redis server
+ *
+ * Each entry is a hash under `<prefix>entry:<key>` holding its metadata and
+ * data, expiring after its TTL plus the stale grace period. Every tag is a
+ * set of entry keys under `<prefix>tag:<tag>`, so invalidating a tag from
+ * any replica removes the entries for all of them.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly kind: CacheBackendKind = 'redis';
+  private client: RedisClient;
+  private prefix: string;
+  private options: CacheStoreOptions & { tagRetentionMs: number };
+  private stats: CacheStoreStats = { entries: 0, totalSize: 0, compressedEntries: 0, nearExpiry: 0, evictions: 0 };
+
+  constructor(options: CacheStoreOptions & { url: string; prefix: string; tagRetentionMs: number }) {
+    this.client = new RedisClient(options.url);
+    this.prefix = options.prefix;
+    this.options = options;
+  }
+
+  async load(): Promise<void> {
+    await this.client.command('PING');
+    productionLogger.info('Redis cache store connected', {
+      component: 'CACHE',
+      server: this.client.describe(),
+      prefix: this.prefix
+    });
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const [meta, data] = await this.client.command('HMGET', this.entryKey(key), 'meta', 'data') as Array<Buffer | null>;
+    if (!meta || !data) {
+      return undefined;
+    }
+
+    const metadata: Omit<CacheEntry, 'data'> = JSON.parse(meta.toString());
+    return { ...metadata, data: metadata.compressed ? data : JSON.parse(data.toString()) };
+  }
+
+  async set(key: string, entry: CacheEntry, _priority: CachePriority): Promise<void> {
+    const entryKey = this.entryKey(key);
+    const { data, ...metadata } = entry;
+    const retention = entry.ttl + this.options.retentionGraceMs;
+
+    // Redis evicts by its own maxmemory policy, so priority does not apply here
+    await this.client.transaction([
+      ['DEL', entryKey],
+      ['HSET', entryKey, 'meta', JSON.stringify(metadata), 'data', entry.compressed ? data : JSON.stringify(data)],
+      ['PEXPIRE', entryKey, retention],
+      ...entry.tags.flatMap(tag => [
+        ['SADD', this.tagKey(tag), entryKey],
+        // Outlive every entry in the set; members that expired are skipped on invalidation
+        ['PEXPIRE', this.tagKey(tag), Math.max(this.options.tagRetentionMs, retention)],
+      ]),
+    ]);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return await this.client.command('DEL', this.entryKey(key)) === 1;
+  }
+
+  async clear(pattern?: RegExp): Promise<number> {
+    const entryPrefix = `${this.prefix}entry:`;
+    const entryKeys = (await this.scan(`${entryPrefix}*`))
+      .filter(entryKey => !pattern || pattern.test(entryKey.slice(entryPrefix.length)));
+    const cleared = await this.deleteKeys(entryKeys);
+
+    if (!pattern) {
+      await this.deleteKeys(await this.scan(`${this.prefix}tag:*`));
+    }
+    return cleared;
+  }
+
+  async deleteByTags(tags: string[]): Promise<number> {
+    let cleared = 0;
+    for (const tag of tags) {
+      const members = await this.client.command('SMEMBERS', this.tagKey(tag)) as Buffer[];
+      cleared += await this.deleteKeys(members.map(member => member.toString()));
+      await this.client.command('DEL', this.tagKey(tag));
+    }
+    return cleared;
+  }
+
+  async sweep(): Promise<number> {
+    // Entries carry their own expiry and Redis evicts under memory pressure
+    return 0;
+  }
+
+  getStats(): CacheStoreStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Summarize every entry under the prefix from its metadata
+   */
+  async refreshStats(): Promise<void> {
+    const entryKeys = await this.scan(`${this.prefix}entry:*`);
+    const entries: CacheEntry[] = [];
+
+    for (let i = 0; i < entryKeys.length; i += 100) {
+      const metas = await Promise.all(entryKeys.slice(i, i + 100)
+        .map(entryKey => this.client.command('HGET', entryKey, 'meta') as Promise<Buffer | null>));
+      for (const meta of metas) {
+        if (meta) entries.push(JSON.parse(meta.toString()));
+      }
+    }
+
+    this.stats = { ...summarizeEntries(entries), evictions: 0 };
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tag:${tag}`;
+  }
+
+  private async scan(match: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.client.command('SCAN', cursor, 'MATCH', escapeGlob(match), 'COUNT', 500) as [Buffer, Buffer[]];
+      cursor = next.toString();
+      keys.push(...batch.map(key => key.toString()));
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  private async deleteKeys(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (let i = 0; i < keys.length; i += 500) {
+      deleted += await this.client.command('DEL', ...keys.slice(i, i + 500)) as number;
+    }
+    return deleted;
+  }
+}
+
+type RedisArgument = string | number | Buffer;
+type RedisReply = string | number | Buffer | null | RedisReply[] | Error;
+
+/**
+ * Minimal RESP2 client: one pipelined connection, opened on first use and
+ * reopened after it drops
+ */
+export class RedisClient {
+  private url: URL;
+  private timeoutMs: number;
+  private socket?: net.Socket;
+  private connecting: Promise<net.Socket> | null = null;
+  private pending: Array<{ resolve: (reply: RedisReply) => void; reject: (error: Error) => void }> = [];
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(url: string, timeoutMs = 5000) {
+    this.url = new URL(url);
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Host and port for logs, without credentials
+   */
+  describe(): string {
+    return `${this.url.protocol}//${this.url.hostname}:${this.url.port || 6379}`;
+  }
+
+  async command(...args: RedisArgument[]): Promise<RedisReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Run commands atomically with MULTI/EXEC; a failed command fails the call
+   */
+  async transaction(commands: RedisArgument[][]): Promise<RedisReply[]> {
+    const socket = await this.connect();
+    const queued = [this.send(socket, ['MULTI']), ...commands.map(args => this.send(socket, args))];
+    const [, replies] = await Promise.all([Promise.all(queued), this.send(socket, ['EXEC'])]) as [unknown, RedisReply[] | null];
+    if (!replies) {
+      throw new Error('Redis transaction was aborted');
+    }
+    const failure = replies.find(reply => reply instanceof Error);
+    if (failure) {
+      throw failure;
+    }
+    return replies;
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    await this.send(socket, ['QUIT']).catch(() => undefined);
+    socket.destroy();
+    this.socket = undefined;
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<net.Socket> {
+    const secure = this.url.protocol === 'rediss:';
+    const host = this.url.hostname;
+    const port = parseInt(this.url.port || '6379', 10);
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Redis connection to ${this.describe()} timed out`));
+      }, this.timeoutMs);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    socket.setNoDelay(true);
+    socket.on('data', chunk => this.onData(chunk));
+    socket.on('error', error => {
+      productionLogger.warn('Redis connection error', {
+        component: 'CACHE',
+        server: this.describe(),
+        error: error.message
+      });
+    });
+    socket.on('close', () => this.onClose(socket));
+
+    try {
+      if (this.url.password) {
+        const username = decodeURIComponent(this.url.username);
+        const password = decodeURIComponent(this.url.password);
+        await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      const database = this.url.pathname.slice(1);
+      if (database && database !== '0') {
+        await this.send(socket, ['SELECT', database]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private send(socket: net.Socket, args: RedisArgument[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      // A server that stops answering would stall every queued reply, so drop the connection
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Redis command ${args[0]} timed out`));
+      }, this.timeoutMs);
+
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer);
+          if (reply instanceof Error) {
+            reject(reply);
+          } else {
+            resolve(reply);
+          }
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    try {
+      let parsed = parseReply(this.buffer, 0);
+      while (parsed) {
+        this.buffer = this.buffer.subarray(parsed.next);
+        this.pending.shift()?.resolve(parsed.reply);
+        parsed = parseReply(this.buffer, 0);
+      }
+    } catch (error) {
+      // Out of step with the server; replies can no longer be matched to requests
+      this.socket?.destroy(error as Error);
+    }
+  }
+
+  private onClose(socket: net.Socket): void {
+    if (this.socket === socket) {
+      this.socket = undefined;
+    }
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending;
+    this.pending = [];
+    for (const request of pending) {
+      request.reject(new Error('Redis connection closed'));
+    }
+  }
+}
+
+function encodeCommand(args: RedisArgument[]): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const value = Buffer.isBuffer(arg) ? arg : Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parse one reply starting at offset, or undefined if it has not fully arrived
+ */
+function parseReply(buffer: Buffer, offset: number): { reply: RedisReply; next: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, next };
+    case '-':
+      return { reply: new Error(line), next };
+    case ':':
+      return { reply: parseInt(line, 10), next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length < 0) {
+        return { reply: null, next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { reply: buffer.subarray(next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count < 0) {
+        return { reply: null, next };
+      }
+      const replies: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return undefined;
+        }
+        replies.push(item.reply);
+        position = item.next;
+      }
+      return { reply: replies, next: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+// Escape glob characters in the prefix part of a SCAN pattern, keeping the trailing *
+function escapeGlob(pattern: string): string {
+  return pattern.slice(0, -1).replace(/[*?[\]\\]/g, '\\$&') + pattern.slice(-1);
+}
+
+interface SerializedCacheEntry extends Omit<CacheEntry, 'data'> {
+  data: unknown; // base64 when compressed
+}
+
+function serializeEntry(entry: CacheEntry): SerializedCacheEntry {
+  return { ...entry, data: entry.compressed ? (entry.data as Buffer).toString('base64') : entry.data };
+}
+
+function deserializeEntry(entry: SerializedCacheEntry): CacheEntry {
+  return { ...entry, data: entry.compressed ? Buffer.from(entry.data as string, 'base64') : entry.data };
+}
+
+function summarizeEntries(entries: Iterable<CacheEntry>): Omit<CacheStoreStats, 'evictions'> {
+  const now = Date.now();
+  const summary = { entries: 0, totalSize: 0, compressedEntries: 0, nearExpiry: 0 };
+  for (const entry of entries) {
+    summary.entries++;
+    summary.totalSize += entry.size;
+    if (entry.compressed) summary.compressedEntries++;
+    if (now - entry.timestamp > entry.ttl * NEAR_EXPIRY_RATIO) summary.nearExpiry++;
+  }
+  return summary;
+}
@@ -0,0 +1,30 @@
+/**
+ * Relative dates both servers accept in tool arguments
+ */
+
+/**
+ * Resolve a relative date ("today", "yesterday", "NdaysAgo") to YYYY-MM-DD.
+ * Absolute dates are returned unchanged.
+ */
+export function resolveRelativeDate(value: string): string {
+  const formatDate = (date: Date) => date.toISOString().split('T')[0];
+  const today = new Date();
+  const normalized = value.trim();
+
+  if (normalized.toLowerCase() === 'today') {
+    return formatDate(today);
+  }
+
+  if (normalized.toLowerCase() === 'yesterday') {
+    today.setDate(today.getDate() - 1);
+    return formatDate(today);
+  }
+
+  const daysAgoMatch = normalized.match(/^(\d+)daysAgo$/i);
+  if (daysAgoMatch) {
+    today.setDate(today.getDate() - parseInt(daysAgoMatch[1], 10));
+    return formatDate(today);
+  }
+
+  return normalized;
+}
@@ -1,5 +1,5 @@
 /**
- * Centralized error handling for MCP server
+ * Centralized error handling for the MCP servers
  */
 
 import { logger } from './logger.js';
@@ -14,6 +14,7 @@ export enum ErrorCode {
   INVALID_REQUEST = 'INVALID_REQUEST',
   METHOD_NOT_FOUND = 'METHOD_NOT_FOUND',
   INVALID_PARAMS = 'INVALID_PARAMS',
+  RATE_LIMITED = 'RATE_LIMITED',
   
   // Authentication errors
   AUTH_FAILED = 'AUTH_FAILED',
@@ -24,12 +25,37 @@ export enum ErrorCode {
   GA4_API_ERROR = 'GA4_API_ERROR',
   GA4_PROPERTY_ACCESS_DENIED = 'GA4_PROPERTY_ACCESS_DENIED',
   GA4_QUOTA_EXCEEDED = 'GA4_QUOTA_EXCEEDED',
+
+  // Google Ads API errors
+  GOOGLE_ADS_API_ERROR = 'GOOGLE_ADS_API_ERROR',
+  GOOGLE_ADS_CUSTOMER_ACCESS_DENIED = 'GOOGLE_ADS_CUSTOMER_ACCESS_DENIED',
+  GOOGLE_ADS_QUOTA_EXCEEDED = 'GOOGLE_ADS_QUOTA_EXCEEDED',
+  GAQL_INVALID_QUERY = 'GAQL_INVALID_QUERY',
+  GOOGLE_ADS_MUTATE_REJECTED = 'GOOGLE_ADS_MUTATE_REJECTED',
   
   // Tool errors
   TOOL_EXECUTION_FAILED = 'TOOL_EXECUTION_FAILED',
   INVALID_TOOL_PARAMS = 'INVALID_TOOL_PARAMS',
 }
 
+// JSON-RPC 2.0 error codes; -32000 carries domain errors, with the ErrorCode in data.code
+export const JSON_RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  SERVER_ERROR: -32000,
+} as const;
+
+const JSON_RPC_CODE_BY_ERROR: Partial<Record<ErrorCode, number>> = {
+  [ErrorCode.INVALID_REQUEST]: JSON_RPC_ERROR_CODES.INVALID_REQUEST,
+  [ErrorCode.METHOD_NOT_FOUND]: JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND,
+  [ErrorCode.INVALID_PARAMS]: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+  [ErrorCode.INVALID_TOOL_PARAMS]: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+  [ErrorCode.INTERNAL_ERROR]: JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+};
+
 export interface MCPError {
   code: ErrorCode;
   message: string;
@@ -100,6 +126,14 @@ export class MCPErrorHandler {
     };
   }
 
+  static formatForJsonRpc(error: MCPError) {
+    return {
+      code: JSON_RPC_CODE_BY_ERROR[error.code] ?? JSON_RPC_ERROR_CODES.SERVER_ERROR,
+      message: error.message,
+      data: { code: error.code, ...(error.details !== undefined && { details: error.details }) },
+    };
+  }
+
   static logError(error: MCPError): void {
     logger.error(
       `[${error.code}] ${error.message}`,
@@ -137,6 +171,15 @@ export class MCPErrorHandler {
     );
   }
 
+  static googleAdsApiError(message: string, originalError?: Error): MCPError {
+    return this.createError(
+      ErrorCode.GOOGLE_ADS_API_ERROR,
+      `Google Ads API error: ${message}`,
+      undefined,
+      originalError
+    );
+  }
+
   static invalidToolParams(toolName: string, params: any): MCPError {
     return this.createError(
       ErrorCode.INVALID_TOOL_PARAMS,
@@ -31,6 +31,9 @@ const LOG_RETENTION_DAYS = process.env.LOG_RETENTION_DAYS || '30';
 const LOG_MAX_SIZE = process.env.LOG_MAX_SIZE || '20m';
 const LOG_MAX_FILES = process.env.LOG_MAX_FILES || '14';
 
+// Server the entries come from; each server sets it on startup
+let serviceName = 'mcp-server';
+
 // Security-safe logging - fields to redact
 const SENSITIVE_FIELDS = [
   'password',
@@ -69,7 +72,7 @@ const customFormat = winston.format.combine(
       duration,
       ...safeMeta,
       environment: NODE_ENV,
-      service: 'ga4-analytics-mcp'
+      service: serviceName
     };
     
     return JSON.stringify(logEntry);
@@ -186,6 +189,13 @@ export function sanitizeLogData(obj: any): any {
   return sanitized;
 }
 
+/**
+ * Name the server in the service field of every entry
+ */
+export function setLogServiceName(name: string): void {
+  serviceName = name;
+}
+
 // Correlation ID management
 let currentCorrelationId: string | null = null;
 
@@ -317,21 +327,21 @@ export class ProductionLogger {
     }
   }
 
-  // GA4 API specific logging
-  logGA4Request(endpoint: string, params: any, context?: LogContext): void {
-    const ga4Context: LogContext = {
-      component: 'GA4_API',
+  // Upstream API logging; api names the API, e.g. GA4 or GOOGLE_ADS
+  logApiRequest(api: string, endpoint: string, params: any, context?: LogContext): void {
+    const apiContext: LogContext = {
+      component: `${api}_API`,
       endpoint,
       params: sanitizeLogData(params),
       ...context,
     };
 
-    this.info(`GA4 API request: ${endpoint}`, ga4Context);
+    this.info(`${api} API request: ${endpoint}`, apiContext);
   }
 
-  logGA4Response(endpoint: string, success: boolean, duration: number, context?: LogContext): void {
-    const ga4Context: LogContext = {
-      component: 'GA4_API',
+  logApiResponse(api: string, endpoint: string, success: boolean, duration: number, context?: LogContext): void {
+    const apiContext: LogContext = {
+      component: `${api}_API`,
       endpoint,
       success,
       duration,
@@ -339,9 +349,9 @@ export class ProductionLogger {
     };
 
     if (success) {
-      this.info(`GA4 API response: ${endpoint}`, ga4Context);
+      this.info(`${api} API response: ${endpoint}`, apiContext);
     } else {
-      this.error(`GA4 API failed: ${endpoint}`, ga4Context);
+      this.error(`${api} API failed: ${endpoint}`, apiContext);
     }
   }
 
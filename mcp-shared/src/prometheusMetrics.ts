@@ -0,0 +1,340 @@
+/**
+ * Prometheus Metrics Registry
+ *
+ * Typed counters, gauges and histograms with fixed label names, rendered in
+ * the Prometheus text exposition format (0.0.4) or OpenMetrics 1.0.0.
+ * Instruments record as events happen; gauges and mirrored counters may
+ * also take a collect callback that reads their value at scrape time.
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+export type MetricsFormat = 'prometheus' | 'openmetrics';
+export type Labels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/** Latency buckets in seconds, from fast cache hits to slow GA4 and Google Ads reports */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export interface MetricOptions<M> {
+  name: string;
+  help: string;
+  labelNames?: string[];
+  collect?: (metric: M) => void;
+}
+
+export interface HistogramOptions extends MetricOptions<Histogram> {
+  buckets?: number[];
+}
+
+interface Sample {
+  suffix: string;
+  labels: Labels;
+  value: number;
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  abstract readonly type: MetricType;
+
+  constructor(options: MetricOptions<any>) {
+    if (!METRIC_NAME.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+    for (const labelName of options.labelNames || []) {
+      if (!LABEL_NAME.test(labelName) || labelName.startsWith('__') || labelName === 'le') {
+        throw new Error(`Invalid label name for ${options.name}: ${labelName}`);
+      }
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames || [];
+  }
+
+  /** Samples for the exposition, without the metric name */
+  abstract samples(): Sample[];
+
+  /** Forget every label set */
+  abstract reset(): void;
+
+  /**
+   * Key for a label set, which must name exactly the declared labels
+   */
+  protected labelKey(labels: Labels): string {
+    const given = Object.keys(labels);
+    if (given.length !== this.labelNames.length || !this.labelNames.every(name => typeof labels[name] === 'string')) {
+      throw new Error(`${this.name} expects labels [${this.labelNames.join(', ')}], got [${given.join(', ')}]`);
+    }
+    return JSON.stringify(this.labelNames.map(name => labels[name]));
+  }
+
+  protected labelsFromKey(key: string): Labels {
+    const values: string[] = JSON.parse(key);
+    return Object.fromEntries(this.labelNames.map((name, index) => [name, values[index]]));
+  }
+}
+
+/**
+ * Monotonic count of events
+ */
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  constructor(options: MetricOptions<Counter>) {
+    super(options);
+    if (options.name.endsWith('_total')) {
+      throw new Error(`Counter ${options.name} must be named without the _total suffix`);
+    }
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (!(amount >= 0)) {
+      throw new Error(`${this.name} can only increase, got ${amount}`);
+    }
+    const key = this.labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + amount);
+  }
+
+  /**
+   * Mirror a cumulative count kept elsewhere (for collect callbacks)
+   */
+  set(labels: Labels, value: number): void {
+    this.values.set(this.labelKey(labels), value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.labelKey(labels)) || 0;
+  }
+
+  samples(): Sample[] {
+    return Array.from(this.values, ([key, value]) => ({ suffix: '_total', labels: this.labelsFromKey(key), value }));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  set(labels: Labels, value: number): void {
+    this.values.set(this.labelKey(labels), value);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = this.labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + amount);
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.labelKey(labels)) || 0;
+  }
+
+  samples(): Sample[] {
+    return Array.from(this.values, ([key, value]) => ({ suffix: '', labels: this.labelsFromKey(key), value }));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observations in cumulative buckets
+ */
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(options: HistogramOptions) {
+    super(options);
+    const buckets = [...(options.buckets || DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+    if (buckets.length === 0 || buckets.some(bound => !Number.isFinite(bound))) {
+      throw new Error(`${options.name} needs finite bucket bounds`);
+    }
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.bucketCounts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Observe the seconds elapsed until the returned function is called
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  samples(): Sample[] {
+    const samples: Sample[] = [];
+    for (const [key, series] of this.series) {
+      const labels = this.labelsFromKey(key);
+      this.buckets.forEach((bound, index) => {
+        samples.push({ suffix: '_bucket', labels: { ...labels, le: formatNumber(bound) }, value: series.bucketCounts[index] });
+      });
+      samples.push({ suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: series.count });
+      samples.push({ suffix: '_sum', labels, value: series.sum });
+      samples.push({ suffix: '_count', labels, value: series.count });
+    }
+    return samples;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Named set of metrics rendered together on a scrape
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, { metric: Metric; collect?: (metric: any) => void }>();
+
+  counter(options: MetricOptions<Counter>): Counter {
+    return this.register(options, () => new Counter(options));
+  }
+
+  gauge(options: MetricOptions<Gauge>): Gauge {
+    return this.register(options, () => new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(options, () => new Histogram(options));
+  }
+
+  getMetric(name: string): Metric | undefined {
+    return this.metrics.get(name)?.metric;
+  }
+
+  /**
+   * Run collect callbacks and render every metric
+   */
+  render(format: MetricsFormat = 'prometheus'): string {
+    const lines: string[] = [];
+
+    for (const { metric, collect } of this.metrics.values()) {
+      if (collect) {
+        try {
+          collect(metric);
+        } catch {
+          // A failing source drops its samples for this scrape rather than the whole exposition
+          metric.reset();
+        }
+      }
+
+      // OpenMetrics names the counter family without its _total suffix
+      const family = format === 'openmetrics' && metric.type === 'counter' ? metric.name : sampleName(metric);
+      lines.push(`# HELP ${family} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${family} ${metric.type}`);
+      for (const sample of metric.samples()) {
+        lines.push(`${metric.name}${sample.suffix}${formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+      }
+    }
+
+    if (format === 'openmetrics') {
+      lines.push('# EOF');
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clear recorded values, keeping the metric definitions
+   */
+  resetAll(): void {
+    for (const { metric } of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<M extends Metric>(options: MetricOptions<any>, create: () => M): M {
+    const existing = this.metrics.get(options.name);
+    if (existing) {
+      const expected = create();
+      if (existing.metric.type !== expected.type ||
+          existing.metric.labelNames.join(',') !== expected.labelNames.join(',')) {
+        throw new Error(`Metric ${options.name} is already registered with a different type or labels`);
+      }
+      return existing.metric as M;
+    }
+
+    const metric = create();
+    this.metrics.set(options.name, { metric, collect: options.collect });
+    return metric;
+  }
+}
+
+/**
+ * Pick the exposition format from a scrape's Accept header
+ */
+export function negotiateMetricsFormat(accept?: string): { format: MetricsFormat; contentType: string } {
+  return accept && accept.includes('application/openmetrics-text')
+    ? { format: 'openmetrics', contentType: OPENMETRICS_CONTENT_TYPE }
+    : { format: 'prometheus', contentType: PROMETHEUS_CONTENT_TYPE };
+}
+
+// Counters are declared without _total, which samples() appends
+function sampleName(metric: Metric): string {
+  return metric.type === 'counter' ? `${metric.name}_total` : metric.name;
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+// Global registry scraped by the HTTP health server's /metrics endpoint
+export const metricsRegistry = new MetricsRegistry();
@@ -0,0 +1,294 @@
+/**
+ * Per-Tenant Token-Bucket Rate Limiting
+ *
+ * Every tool call takes tokens from two buckets: the caller's tenant bucket
+ * and a bucket for the tenant and tool. Calls are weighted by tool and date
+ * span, and bucket sizes come from the tenant's plan. Each server sets the
+ * weights of its tools and the name of its decision metric.
+ */
+
+import { readFileSync } from 'fs';
+import { logger as productionLogger } from './productionLogger.js';
+import { metricsRegistry, Counter } from './prometheusMetrics.js';
+import { resolveRelativeDate } from './dateRange.js';
+
+export interface TokenBucketLimit {
+  capacity: number;        // Largest burst, in weight units
+  refillPerMinute: number; // Weight units added back per minute
+}
+
+export interface RateLimitPlan extends TokenBucketLimit {
+  perTool?: TokenBucketLimit;                 // Bucket for each tool the tenant calls
+  tools?: Record<string, TokenBucketLimit>;   // Overrides perTool for named tools
+}
+
+export interface TenantRateLimitConfig {
+  plans: Record<string, RateLimitPlan>;
+  defaultPlan: string;
+  toolWeights: Record<string, number>;
+  defaultToolWeight: number;
+  maxSpanFactor: number; // Cap on the date span multiplier (spans are counted in 30-day steps)
+  batchTools: string[];  // Tools weighed per entry of their reports argument
+  metricName: string;    // Counter of allowed and limited calls
+}
+
+export interface RateLimitSubject {
+  tenantId: string;
+  plan?: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  plan: string;
+  cost: number;
+  limit: number;              // Capacity of the tenant bucket
+  remaining: number;          // Whole tokens left in the tenant bucket
+  resetSeconds: number;       // Until the tenant bucket is full again
+  retryAfterSeconds?: number; // Until the refused call would fit
+  bucket?: 'tenant' | 'tool'; // The bucket that refused the call
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  limit: TokenBucketLimit;
+}
+
+export const DEFAULT_RATE_LIMIT_PLANS: Record<string, RateLimitPlan> = {
+  free: { capacity: 60, refillPerMinute: 20, perTool: { capacity: 30, refillPerMinute: 10 } },
+  standard: { capacity: 300, refillPerMinute: 120, perTool: { capacity: 150, refillPerMinute: 60 } },
+  enterprise: { capacity: 1500, refillPerMinute: 600, perTool: { capacity: 750, refillPerMinute: 300 } },
+};
+
+const SPAN_STEP_DAYS = 30;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class TenantRateLimiter {
+  private config: TenantRateLimitConfig;
+  private buckets: Map<string, BucketState> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private decisions: Counter;
+
+  constructor(config: Partial<TenantRateLimitConfig> = {}) {
+    this.config = {
+      plans: DEFAULT_RATE_LIMIT_PLANS,
+      defaultPlan: 'standard',
+      toolWeights: {},
+      defaultToolWeight: 2,
+      maxSpanFactor: 13,
+      batchTools: [],
+      metricName: 'mcp_tenant_rate_limit_decisions',
+      ...config
+    };
+
+    if (!this.config.plans[this.config.defaultPlan]) {
+      throw new Error(`Rate limit default plan "${this.config.defaultPlan}" is not configured`);
+    }
+    for (const [name, plan] of Object.entries(this.config.plans)) {
+      const limits = [plan, ...(plan.perTool ? [plan.perTool] : []), ...Object.values(plan.tools || {})];
+      if (limits.some(limit => !(limit.capacity > 0) || !(limit.refillPerMinute > 0))) {
+        throw new Error(`Rate limit plan "${name}" needs a positive capacity and refillPerMinute for every bucket`);
+      }
+    }
+
+    this.decisions = metricsRegistry.counter({
+      name: this.config.metricName,
+      help: 'Tool calls checked against tenant rate limits, by plan and outcome (allowed or limited)',
+      labelNames: ['plan', 'outcome'],
+    });
+
+    // Full buckets hold no state worth keeping
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Weight of a tool call: the tool's base weight times its date span in
+   * 30-day steps (per report for batches)
+   */
+  getWeight(tool: string, args: any = {}): number {
+    const base = this.config.toolWeights[tool] ?? this.config.defaultToolWeight;
+    const reports: any[] = this.config.batchTools.includes(tool) && Array.isArray(args?.reports) ? args.reports : [args];
+    return reports.reduce((sum, report) => sum + base * this.getSpanFactor(report), 0);
+  }
+
+  /**
+   * Take a tool call's weight from the tenant's buckets, if both hold enough
+   */
+  consume(subject: RateLimitSubject, tool: string, args: any = {}): RateLimitDecision {
+    const planName = this.resolvePlan(subject);
+    const plan = this.config.plans[planName];
+    const cost = this.getWeight(tool, args);
+    const now = Date.now();
+
+    const tenant = this.getBucket(`tenant:${subject.tenantId}`, plan, now);
+    const toolLimit = plan.tools?.[tool] || plan.perTool;
+    const toolBucket = toolLimit && this.getBucket(`tool:${subject.tenantId}:${tool}`, toolLimit, now);
+
+    // A call heavier than a bucket holds is admitted once the bucket is full
+    const fits = (bucket: BucketState) => bucket.tokens >= Math.min(cost, bucket.limit.capacity);
+    const refusedBy = !fits(tenant) ? 'tenant' : toolBucket && !fits(toolBucket) ? 'tool' : undefined;
+
+    if (refusedBy) {
+      const bucket = refusedBy === 'tenant' ? tenant : toolBucket!;
+      const retryAfterSeconds = secondsUntil(bucket, Math.min(cost, bucket.limit.capacity));
+      this.decisions.inc({ plan: planName, outcome: 'limited' });
+      productionLogger.warn('Tool call rate limited', {
+        component: 'SECURITY',
+        tenantId: subject.tenantId,
+        plan: planName,
+        tool,
+        cost,
+        bucket: refusedBy,
+        retryAfterSeconds
+      });
+      return { ...this.describe(tenant, planName, cost), allowed: false, bucket: refusedBy, retryAfterSeconds };
+    }
+
+    tenant.tokens -= cost;
+    if (toolBucket) {
+      toolBucket.tokens -= cost;
+    }
+    this.decisions.inc({ plan: planName, outcome: 'allowed' });
+    return this.describe(tenant, planName, cost);
+  }
+
+  /**
+   * The tenant bucket as it stands, without taking from it
+   */
+  peek(subject: RateLimitSubject): RateLimitDecision {
+    const planName = this.resolvePlan(subject);
+    const tenant = this.getBucket(`tenant:${subject.tenantId}`, this.config.plans[planName], Date.now());
+    const decision = this.describe(tenant, planName, 0);
+
+    if (tenant.tokens < 1) {
+      return { ...decision, allowed: false, bucket: 'tenant', retryAfterSeconds: secondsUntil(tenant, 1) };
+    }
+    return decision;
+  }
+
+  shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.buckets.clear();
+  }
+
+  // Unknown plans fall back to the default plan
+  private resolvePlan(subject: RateLimitSubject): string {
+    return subject.plan && this.config.plans[subject.plan] ? subject.plan : this.config.defaultPlan;
+  }
+
+  private getSpanFactor(args: any): number {
+    if (typeof args?.startDate !== 'string' || typeof args?.endDate !== 'string') {
+      return 1;
+    }
+    const start = Date.parse(resolveRelativeDate(args.startDate));
+    const end = Date.parse(resolveRelativeDate(args.endDate));
+    if (isNaN(start) || isNaN(end) || end < start) {
+      return 1;
+    }
+
+    const days = (end - start) / 86400000 + 1;
+    return Math.min(this.config.maxSpanFactor, Math.max(1, Math.ceil(days / SPAN_STEP_DAYS)));
+  }
+
+  // Refill the bucket for the time since it was last used
+  private getBucket(key: string, limit: TokenBucketLimit, now: number): BucketState {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: limit.capacity, updatedAt: now, limit };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    // Plan changes take effect on the next call
+    bucket.limit = limit;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 60000) * limit.refillPerMinute);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private describe(tenant: BucketState, plan: string, cost: number): RateLimitDecision {
+    return {
+      allowed: true,
+      plan,
+      cost,
+      limit: tenant.limit.capacity,
+      remaining: Math.max(0, Math.floor(tenant.tokens)),
+      resetSeconds: secondsUntil(tenant, tenant.limit.capacity)
+    };
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      const tokens = bucket.tokens + ((now - bucket.updatedAt) / 60000) * bucket.limit.refillPerMinute;
+      if (tokens >= bucket.limit.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+function secondsUntil(bucket: BucketState, tokens: number): number {
+  const missing = tokens - bucket.tokens;
+  if (missing <= 0) {
+    return 0;
+  }
+  return Math.ceil((missing / bucket.limit.refillPerMinute) * 60);
+}
+
+/**
+ * Read tenant rate limit settings from the environment
+ *
+ * RATE_LIMIT_PLANS (or RATE_LIMIT_PLANS_FILE) holds JSON plans merged over
+ * the built-in free / standard / enterprise plans; RATE_LIMIT_TOOL_WEIGHTS
+ * overrides the server's tool weights.
+ */
+export function loadTenantRateLimitConfig(
+  defaults: Partial<TenantRateLimitConfig> = {},
+  env: NodeJS.ProcessEnv = process.env
+): Partial<TenantRateLimitConfig> {
+  const plansJson = env.RATE_LIMIT_PLANS_FILE ? readFileSync(env.RATE_LIMIT_PLANS_FILE, 'utf8') : env.RATE_LIMIT_PLANS;
+
+  return {
+    ...defaults,
+    plans: { ...DEFAULT_RATE_LIMIT_PLANS, ...(plansJson ? JSON.parse(plansJson) : {}) },
+    toolWeights: { ...defaults.toolWeights, ...(env.RATE_LIMIT_TOOL_WEIGHTS ? JSON.parse(env.RATE_LIMIT_TOOL_WEIGHTS) : {}) },
+    ...(env.RATE_LIMIT_DEFAULT_PLAN && { defaultPlan: env.RATE_LIMIT_DEFAULT_PLAN }),
+  };
+}
+
+// Global tenant rate limiter instance
+let globalTenantRateLimiter: TenantRateLimiter | null = null;
+
+/**
+ * Initialize global tenant rate limiting
+ */
+export function initializeTenantRateLimiting(config?: Partial<TenantRateLimitConfig>): TenantRateLimiter {
+  if (globalTenantRateLimiter) {
+    globalTenantRateLimiter.shutdown();
+  }
+
+  globalTenantRateLimiter = new TenantRateLimiter(config);
+  return globalTenantRateLimiter;
+}
+
+/**
+ * Get global tenant rate limiter instance
+ */
+export function getTenantRateLimiter(): TenantRateLimiter | null {
+  return globalTenantRateLimiter;
+}
+
+/**
+ * Shutdown global tenant rate limiting
+ */
+export function shutdownTenantRateLimiting(): void {
+  if (globalTenantRateLimiter) {
+    globalTenantRateLimiter.shutdown();
+    globalTenantRateLimiter = null;
+  }
+}